@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server"
+import { idFields } from "@/lib/data/adapters/mock-adapter"
+import {
+  authorize,
+  canSignApprovals,
+  canUseResource,
+  errorResponse,
+  isAllowedApproval,
+  isApproval,
+  isApprovalOnly,
+  isDataResource,
+  isLockedEdit,
+  isRecordPermitted,
+  readJsonObject,
+  stampSignOff,
+} from "@/lib/data/api"
+import { deleteRecord, getRecord, replaceRecord } from "@/lib/data/file-store"
+import { isClearableField, isWritableResource, validateRecord } from "@/lib/data/schemas"
+
+type RouteContext = { params: Promise<{ resource: string; id: string }> }
+
+// GET /api/{resource}/{id}
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { resource, id } = await params
+  if (!isDataResource(resource)) return errorResponse(404, `Unknown resource: ${resource}`)
+  const auth = await authorize(request)
+  if (!auth) return errorResponse(401, "Authentication required")
+
+  const record = await getRecord(resource, id)
+  if (!record) return errorResponse(404, `${resource} ${id} not found`)
+  if (!isRecordPermitted(auth, resource, record, "view")) return errorResponse(403, "Not permitted for this project")
+  return NextResponse.json(record)
+}
+
+// The record's id can't be changed by a write. Edits need the edit grant for both the stored
+// and the updated record (so a record can't move to an unpermitted project), and status
+// changes into an approved state also need the approve grant. A write that only approves
+// needs the approve grant alone. Approvals move one step at a time, by a role that signs that
+// step, and are stamped with the signed-in user. Locked records (submitted daily logs) only
+// change through an amendment. A clearable field the body sets to null is removed from the
+// record; a null on any other field has to pass validation.
+async function write(request: NextRequest, context: RouteContext, merge: boolean) {
+  const { resource, id } = await context.params
+  if (!isDataResource(resource)) return errorResponse(404, `Unknown resource: ${resource}`)
+  if (!isWritableResource(resource)) return errorResponse(405, `${resource} is read-only`)
+  const auth = await authorize(request)
+  if (!auth) return errorResponse(401, "Authentication required")
+  if (!canUseResource(auth, resource, "edit") && !canUseResource(auth, resource, "approve")) {
+    return errorResponse(403, `Not permitted to edit ${resource}`)
+  }
+
+  const body = await readJsonObject(request)
+  if (!body) return errorResponse(400, "Request body must be a JSON object")
+
+  let permitted = true
+  let outOfStep = false
+  let locked = false
+  const result = await replaceRecord(resource, id, (current) => {
+    const updated: Record<string, unknown> = { ...(merge ? current : {}), ...body }
+    for (const [field, value] of Object.entries(body)) if (value === null && isClearableField(resource, field)) delete updated[field]
+    for (const field of idFields(resource)) updated[field] = (current as Record<string, unknown>)[field]
+    const validation = validateRecord(resource, updated)
+    const approvalOnly = validation.success && isApprovalOnly(resource, current, validation.record)
+    permitted = approvalOnly
+      ? isRecordPermitted(auth, resource, current, "approve") && isRecordPermitted(auth, resource, validation.record, "approve")
+      : isRecordPermitted(auth, resource, current, "edit") &&
+        (!validation.success ||
+          (isRecordPermitted(auth, resource, validation.record, "edit") &&
+            (!isApproval(resource, current, validation.record) || isRecordPermitted(auth, resource, validation.record, "approve"))))
+    permitted &&= !validation.success || canSignApprovals(auth.session.role, resource, current, validation.record)
+    if (!permitted || !validation.success) return permitted ? validation : { success: false, issues: [] }
+    outOfStep = !isAllowedApproval(resource, current, validation.record)
+    locked = isLockedEdit(resource, current, validation.record)
+    if (outOfStep || locked) return { success: false, issues: [] }
+    const signer = `${auth.session.firstName} ${auth.session.lastName}`
+    return { ...validation, record: stampSignOff(resource, current, validation.record, signer) }
+  })
+  if (!result) return errorResponse(404, `${resource} ${id} not found`)
+  if (!permitted) return errorResponse(403, "Not permitted for this project")
+  if (outOfStep) return errorResponse(409, `${resource} ${id} can't be approved from its current status`)
+  if (locked) return errorResponse(409, `${resource} ${id} is locked; record an amendment to change it`)
+  if (!result.success) return errorResponse(422, `Invalid ${resource} record`, result.issues)
+  return NextResponse.json(result.record)
+}
+
+// PUT /api/{resource}/{id} — replaces the record
+export function PUT(request: NextRequest, context: RouteContext) {
+  return write(request, context, false)
+}
+
+// PATCH /api/{resource}/{id} — merges the body into the record
+export function PATCH(request: NextRequest, context: RouteContext) {
+  return write(request, context, true)
+}
+
+// DELETE /api/{resource}/{id} — needs the edit grant
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { resource, id } = await params
+  if (!isDataResource(resource)) return errorResponse(404, `Unknown resource: ${resource}`)
+  if (!isWritableResource(resource)) return errorResponse(405, `${resource} is read-only`)
+  const auth = await authorize(request)
+  if (!auth) return errorResponse(401, "Authentication required")
+
+  const record = await getRecord(resource, id)
+  if (record && !isRecordPermitted(auth, resource, record, "edit")) return errorResponse(403, "Not permitted for this project")
+  if (isLockedEdit(resource, record, null)) return errorResponse(409, `${resource} ${id} is locked`)
+
+  if (!(await deleteRecord(resource, id))) return errorResponse(404, `${resource} ${id} not found`)
+  return new NextResponse(null, { status: 204 })
+}
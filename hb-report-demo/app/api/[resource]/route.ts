@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server"
+import { mockResources } from "@/lib/data/adapters/mock-adapter"
+import { authorize, canSignApprovals, canUseResource, errorResponse, isApproval, isDataResource, isRecordPermitted, readJsonObject } from "@/lib/data/api"
+import { insertRecord, listRecords, nextRecordId, recordId } from "@/lib/data/file-store"
+import { isWritableResource, validateRecord } from "@/lib/data/schemas"
+
+type RouteContext = { params: Promise<{ resource: string }> }
+
+// GET /api/{resource}?projectId=… — only records the user may view
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { resource } = await params
+  if (!isDataResource(resource)) return errorResponse(404, `Unknown resource: ${resource}`)
+  const auth = await authorize(request)
+  if (!auth) return errorResponse(401, "Authentication required")
+  if (!canUseResource(auth, resource, "view")) return errorResponse(403, `Not permitted to view ${resource}`)
+
+  const projectId = request.nextUrl.searchParams.get("projectId") ?? undefined
+  const records = await listRecords(resource, { projectId })
+  return NextResponse.json(records.filter((record) => isRecordPermitted(auth, resource, record, "view")))
+}
+
+// POST /api/{resource} — the id is assigned when the body leaves it out
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { resource } = await params
+  if (!isDataResource(resource)) return errorResponse(404, `Unknown resource: ${resource}`)
+  if (!isWritableResource(resource)) return errorResponse(405, `${resource} is read-only`)
+  const auth = await authorize(request)
+  if (!auth) return errorResponse(401, "Authentication required")
+  if (!canUseResource(auth, resource, "create")) return errorResponse(403, `Not permitted to create ${resource}`)
+
+  const body = await readJsonObject(request)
+  if (!body) return errorResponse(400, "Request body must be a JSON object")
+
+  // Composite ids are made of the record's own fields, so only single-field ids are assigned
+  const { idKey } = mockResources[resource]
+  const validation = validateRecord(resource, typeof idKey === "string" ? { ...body, [idKey]: body[idKey] ?? (await nextRecordId(resource)) } : body)
+  if (!validation.success) return errorResponse(422, `Invalid ${resource} record`, validation.issues)
+  const permitted =
+    isRecordPermitted(auth, resource, validation.record, "create") &&
+    (!isApproval(resource, null, validation.record) ||
+      (isRecordPermitted(auth, resource, validation.record, "approve") && canSignApprovals(auth.session.role, resource, null, validation.record)))
+  if (!permitted) return errorResponse(403, "Not permitted for this project")
+
+  const created = await insertRecord(resource, validation.record)
+  if (!created) return errorResponse(409, `${resource} ${recordId(resource, validation.record)} already exists`)
+  return NextResponse.json(created, { status: 201 })
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getIdentityProvider, sessionFromClaims, validateClaims } from "@/lib/auth"
+import { getHomeRoute } from "@/lib/auth/access"
+import { SESSION_COOKIE, SESSION_TTL_SECONDS, createSessionToken } from "@/lib/auth/session"
+import { errorResponse, readJsonObject } from "@/lib/data/api"
+import { userFromSession } from "@/lib/auth/user"
+
+// POST /api/auth/login { email, password } — sets the session cookie
+export async function POST(request: NextRequest) {
+  const body = await readJsonObject(request)
+  const { email, password } = body ?? {}
+  if (typeof email !== "string" || typeof password !== "string" || !email || !password) {
+    return errorResponse(400, "Email and password are required")
+  }
+
+  const provider = getIdentityProvider()
+  let claims
+  try {
+    claims = await provider.authenticate(email, password)
+  } catch (error) {
+    console.error("Identity provider error:", error)
+    return errorResponse(502, "Sign-in is unavailable. Please try again.")
+  }
+
+  const claimIssues = claims ? validateClaims(claims) : []
+  if (claimIssues.length > 0) return errorResponse(401, "The identity provider didn't return a usable profile", claimIssues)
+
+  const session = claims && (await sessionFromClaims(claims, provider.id))
+  if (!session) return errorResponse(401, "Invalid credentials")
+
+  const response = NextResponse.json({
+    user: userFromSession(session),
+    projects: session.projects,
+    grants: session.grants,
+    redirectTo: getHomeRoute(session.role),
+  })
+  response.cookies.set(SESSION_COOKIE, await createSessionToken(session), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_TTL_SECONDS,
+  })
+  return response
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getRequestSession } from "@/lib/auth/session"
+import { userFromSession } from "@/lib/auth/user"
+import { errorResponse } from "@/lib/data/api"
+import { getCurrentGrants } from "@/lib/auth"
+
+// GET /api/auth/session — the signed-in user with current grants, or 401
+export async function GET(request: NextRequest) {
+  const session = await getRequestSession(request)
+  if (!session) return errorResponse(401, "Not signed in")
+  return NextResponse.json({
+    user: userFromSession(session),
+    projects: session.projects,
+    grants: await getCurrentGrants(session),
+  })
+}
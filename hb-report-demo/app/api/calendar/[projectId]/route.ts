@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authorize, authorizeFeed, canUseResource, errorResponse, isRecordPermitted } from "@/lib/data/api"
+import { listRecords } from "@/lib/data/file-store"
+import { calendarFeedFileName, permitCalendarFeed } from "@/lib/permits/calendar-feed"
+
+type RouteContext = { params: Promise<{ projectId: string }> }
+
+// GET /api/calendar/{projectId}.ics[?token=…] — the project's permit inspections and expirations.
+// Calendar apps subscribe with a feed token from POST /api/calendar/{projectId}/token; a
+// browser can use its session instead.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const projectId = (await params).projectId.replace(/\.ics$/, "")
+  const token = request.nextUrl.searchParams.get("token")
+  const auth = token ? await authorizeFeed(token, projectId) : await authorize(request)
+  if (!auth) return errorResponse(401, token ? "Invalid or expired feed token" : "Authentication required")
+  if (!canUseResource(auth, "permits", "view")) return errorResponse(403, "Not permitted to view permits")
+
+  const permits = (await listRecords("permits", { projectId })).filter((permit) => isRecordPermitted(auth, "permits", permit, "view"))
+  const [project] = await listRecords("projects", { projectId })
+  const name = project?.name ?? `Project ${projectId}`
+  return new NextResponse(permitCalendarFeed(permits.map((permit) => ({ ...permit, inspections: permit.inspections ?? [] })), `${name} Permits`), {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `inline; filename="${calendarFeedFileName(name)}"`,
+    },
+  })
+}
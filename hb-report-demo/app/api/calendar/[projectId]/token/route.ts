@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createFeedToken } from "@/lib/auth/session"
+import { hasPermission, moduleForResource } from "@/lib/auth/permissions"
+import { authorize, errorResponse } from "@/lib/data/api"
+
+type RouteContext = { params: Promise<{ projectId: string }> }
+
+// POST /api/calendar/{projectId}/token — a feed token for the signed-in user's subscription URL
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { projectId } = await params
+  const auth = await authorize(request)
+  if (!auth) return errorResponse(401, "Authentication required")
+  if (!hasPermission(auth.grants, auth.session.projects, moduleForResource("permits"), "view", projectId)) {
+    return errorResponse(403, "Not permitted to view permits on this project")
+  }
+  return NextResponse.json({ token: await createFeedToken(auth.session, projectId) })
+}
@@ -0,0 +1,255 @@
+"use client"
+
+import React, { useState, useEffect } from "react"
+import { useAuth } from "@/context/auth-context"
+import { AppHeader } from "@/components/layout/app-header"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb"
+import { Home, RefreshCw, Save, ShieldCheck } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { usePermissions } from "@/hooks/use-permissions"
+import { permissionActions, permissionModules } from "@/lib/auth/permissions"
+import type { DemoRole } from "@/types/auth"
+import type { GrantScope, PermissionAction, PermissionModule, RoleGrantRecord } from "@/types/permissions"
+
+const roleLabels: Record<DemoRole, string> = {
+  executive: "Executive",
+  "project-executive": "Project Executive",
+  "project-manager": "Project Manager",
+  estimator: "Estimator",
+  admin: "Administrator",
+}
+
+const NO_ACCESS = "none"
+
+/**
+ * Role grant editor: one module × action grid per role, each cell granting the action
+ * for assigned projects, all projects, or not at all. Saved grants apply to API calls
+ * immediately and to pages at each user's next sign-in or session refresh.
+ */
+export default function RolePermissionsPage() {
+  const { user } = useAuth()
+  const { can } = usePermissions()
+  const { toast } = useToast()
+
+  const [records, setRecords] = useState<RoleGrantRecord[]>([])
+  const [dirtyRoles, setDirtyRoles] = useState<Set<DemoRole>>(new Set())
+  const [activeRole, setActiveRole] = useState<DemoRole>("project-manager")
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const canEdit = can("administration", "edit")
+
+  const loadGrants = async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch("/api/role-grants")
+      if (!response.ok) throw new Error(`Request failed with ${response.status}`)
+      setRecords(await response.json())
+      setDirtyRoles(new Set())
+    } catch (error) {
+      console.error("Failed to load role grants:", error)
+      toast({ title: "Error", description: "Failed to load role permissions.", variant: "destructive" })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadGrants()
+  }, [])
+
+  const setScope = (role: DemoRole, moduleId: PermissionModule, action: PermissionAction, value: string) => {
+    setRecords((prev) =>
+      prev.map((record) => {
+        if (record.role !== role) return record
+        const moduleGrants = { ...record.grants[moduleId] }
+        if (value === NO_ACCESS) delete moduleGrants[action]
+        else moduleGrants[action] = value as GrantScope
+        return { ...record, grants: { ...record.grants, [moduleId]: moduleGrants } }
+      }),
+    )
+    setDirtyRoles((prev) => new Set(prev).add(role))
+  }
+
+  const saveRole = async (role: DemoRole) => {
+    const record = records.find((r) => r.role === role)
+    if (!record) return
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/role-grants/${role}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          grants: record.grants,
+          updatedBy: user ? `${user.firstName} ${user.lastName}` : undefined,
+          updatedAt: new Date().toISOString(),
+        }),
+      })
+      const body = await response.json().catch(() => null)
+      if (!response.ok) {
+        const detail = body?.issues?.[0]?.message ?? body?.error ?? `Request failed with ${response.status}`
+        throw new Error(detail)
+      }
+
+      setRecords((prev) => prev.map((r) => (r.role === role ? body : r)))
+      setDirtyRoles((prev) => {
+        const next = new Set(prev)
+        next.delete(role)
+        return next
+      })
+      toast({ title: "Permissions Saved", description: `${roleLabels[role]} grants have been updated.` })
+    } catch (error) {
+      console.error("Failed to save role grants:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save role permissions.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <>
+      <AppHeader />
+      <div className="space-y-6 p-6">
+        {/* Breadcrumb Navigation */}
+        <Breadcrumb>
+          <BreadcrumbList>
+            <BreadcrumbItem>
+              <BreadcrumbLink href="/dashboard" className="flex items-center gap-1">
+                <Home className="h-3 w-3" />
+                Dashboard
+              </BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbPage>Role Permissions</BreadcrumbPage>
+            </BreadcrumbItem>
+          </BreadcrumbList>
+        </Breadcrumb>
+
+        {/* Header Section */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Role Permissions</h1>
+            <p className="text-muted-foreground mt-1">
+              Grant each role view, create, edit, approve and export rights per module and project scope
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <Button variant="outline" onClick={loadGrants} disabled={isLoading || isSaving}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+            {canEdit && (
+              <Button
+                onClick={() => saveRole(activeRole)}
+                disabled={!dirtyRoles.has(activeRole) || isSaving}
+                className="bg-[#FF6B35] hover:bg-[#E55A2B]"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Save {roleLabels[activeRole]}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <Tabs value={activeRole} onValueChange={(value) => setActiveRole(value as DemoRole)}>
+          <TabsList>
+            {records.map((record) => (
+              <TabsTrigger key={record.role} value={record.role}>
+                {roleLabels[record.role]}
+                {dirtyRoles.has(record.role) && <span className="ml-1 text-[#FF6B35]">•</span>}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+
+          {records.map((record) => (
+            <TabsContent key={record.role} value={record.role}>
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <ShieldCheck className="h-5 w-5" />
+                    {roleLabels[record.role]}
+                  </CardTitle>
+                  <CardDescription>
+                    "Assigned" limits an action to the user's assigned projects; "All" applies it portfolio-wide.
+                    {record.updatedAt && (
+                      <span className="block mt-1">
+                        Last changed {new Date(record.updatedAt).toLocaleString()}
+                        {record.updatedBy && ` by ${record.updatedBy}`}
+                      </span>
+                    )}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Module</TableHead>
+                        {permissionActions.map((action) => (
+                          <TableHead key={action} className="capitalize">
+                            {action}
+                          </TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {permissionModules.map(({ id: moduleId, label }) => (
+                        <TableRow key={moduleId}>
+                          <TableCell className="font-medium">{label}</TableCell>
+                          {permissionActions.map((action) => {
+                            const scope = record.grants[moduleId]?.[action]
+                            return (
+                              <TableCell key={action}>
+                                {canEdit ? (
+                                  <Select
+                                    value={scope ?? NO_ACCESS}
+                                    onValueChange={(value) => setScope(record.role, moduleId, action, value)}
+                                  >
+                                    <SelectTrigger className="h-8 w-[120px]">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value={NO_ACCESS}>No access</SelectItem>
+                                      <SelectItem value="assigned">Assigned</SelectItem>
+                                      <SelectItem value="all">All</SelectItem>
+                                    </SelectContent>
+                                  </Select>
+                                ) : (
+                                  <Badge variant={scope ? "secondary" : "outline"} className="capitalize">
+                                    {scope ?? "No access"}
+                                  </Badge>
+                                )}
+                              </TableCell>
+                            )
+                          })}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </TabsContent>
+          ))}
+        </Tabs>
+      </div>
+    </>
+  )
+}
@@ -49,7 +49,9 @@ import {
   Filter
 } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
-import constraintsData from "@/data/mock/logs/constraints.json"
+import { useDataResource } from "@/hooks/use-data-resource"
+import { useProjectContext } from "@/context/project-context"
+import { getDataSource } from "@/lib/data"
 import type { Constraint, ConstraintProject, ConstraintStats, ConstraintFilters } from "@/types/constraint"
 
 export default function ConstraintsLogPage() {
@@ -57,7 +59,8 @@ export default function ConstraintsLogPage() {
   const { toast } = useToast()
 
   // State management
-  const [projects] = useState<ConstraintProject[]>(constraintsData as ConstraintProject[])
+  const { projectId } = useProjectContext()
+  const { data: projects, setData: setProjects } = useDataResource("constraints")
   const [allConstraints, setAllConstraints] = useState<Constraint[]>([])
   const [filteredConstraints, setFilteredConstraints] = useState<Constraint[]>([])
   const [activeTab, setActiveTab] = useState("open")
@@ -177,61 +180,84 @@ export default function ConstraintsLogPage() {
     return [...new Set(allConstraints.map((c) => c.assigned).filter(Boolean))].sort()
   }, [allConstraints])
 
+  const getDaysElapsed = (dateIdentified: string) =>
+    dateIdentified ? Math.floor((new Date().getTime() - new Date(dateIdentified).getTime()) / (1000 * 60 * 60 * 24)) : 0
+
+  // Save a project's constraint list through the data source when it accepts writes
+  const saveProjectConstraints = async (project: ConstraintProject, constraints: Constraint[], message: string) => {
+    try {
+      const source = getDataSource()
+      const saved = source.update
+        ? await source.update("constraints", project.project_id, { constraints })
+        : { ...project, constraints }
+      setProjects((prev) => prev.map((p) => (p.project_id === project.project_id ? saved : p)))
+      toast({
+        title: "Success",
+        description: message,
+      })
+      return true
+    } catch (error) {
+      console.error("Failed to save constraints:", error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save constraints",
+        variant: "destructive",
+      })
+      return false
+    }
+  }
+
+  const findOwningProject = (constraintId: string) =>
+    projects.find((project) => project.constraints.some((c) => c.id === constraintId))
+
   // Handle constraint creation
-  const handleCreateConstraint = (constraintData: Omit<Constraint, "id" | "no" | "daysElapsed">) => {
+  const handleCreateConstraint = async (constraintData: Omit<Constraint, "id" | "no" | "daysElapsed">) => {
+    // New constraints go to the selected project, or the first project when viewing all
+    const project = projects.find((p) => String(p.project_id) === String(projectId)) ?? projects[0]
+    if (!project) return
+
     const newConstraint: Constraint = {
       ...constraintData,
       id: Date.now().toString(),
       no: `C-${allConstraints.length + 1}`,
-      daysElapsed: constraintData.dateIdentified
-        ? Math.floor((new Date().getTime() - new Date(constraintData.dateIdentified).getTime()) / (1000 * 60 * 60 * 24))
-        : 0,
+      daysElapsed: getDaysElapsed(constraintData.dateIdentified),
     }
 
-    setAllConstraints((prev) => [...prev, newConstraint])
-    setIsCreateModalOpen(false)
-    toast({
-      title: "Success",
-      description: "Constraint created successfully",
-    })
+    if (await saveProjectConstraints(project, [...project.constraints, newConstraint], "Constraint created successfully")) {
+      setIsCreateModalOpen(false)
+    }
   }
 
   // Handle constraint updates
-  const handleUpdateConstraint = (constraintData: Omit<Constraint, "id" | "no" | "daysElapsed">) => {
+  const handleUpdateConstraint = async (constraintData: Omit<Constraint, "id" | "no" | "daysElapsed">) => {
     if (!editingConstraint) return
-
-    setAllConstraints((prev) =>
-      prev.map((c) =>
-        c.id === editingConstraint.id
-          ? {
-              ...constraintData,
-              id: editingConstraint.id,
-              no: editingConstraint.no,
-              daysElapsed: constraintData.dateIdentified
-                ? Math.floor(
-                    (new Date().getTime() - new Date(constraintData.dateIdentified).getTime()) / (1000 * 60 * 60 * 24),
-                  )
-                : 0,
-            }
-          : c,
-      ),
+    const project = findOwningProject(editingConstraint.id)
+    if (!project) return
+
+    const constraints = project.constraints.map((c) =>
+      c.id === editingConstraint.id
+        ? {
+            ...constraintData,
+            id: editingConstraint.id,
+            no: editingConstraint.no,
+            daysElapsed: getDaysElapsed(constraintData.dateIdentified),
+          }
+        : c,
     )
-    setEditingConstraint(null)
-    toast({
-      title: "Success",
-      description: "Constraint updated successfully",
-    })
+    if (await saveProjectConstraints(project, constraints, "Constraint updated successfully")) {
+      setEditingConstraint(null)
+    }
   }
 
   // Handle constraint deletion
-  const handleDeleteConstraint = () => {
-    if (deleteConstraint) {
-      setAllConstraints((prev) => prev.filter((c) => c.id !== deleteConstraint.id))
+  const handleDeleteConstraint = async () => {
+    if (!deleteConstraint) return
+    const project = findOwningProject(deleteConstraint.id)
+    if (!project) return
+
+    const constraints = project.constraints.filter((c) => c.id !== deleteConstraint.id)
+    if (await saveProjectConstraints(project, constraints, "Constraint deleted successfully")) {
       setDeleteConstraint(null)
-      toast({
-        title: "Success",
-        description: "Constraint deleted successfully",
-      })
     }
   }
 
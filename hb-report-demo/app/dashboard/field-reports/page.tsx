@@ -45,11 +45,27 @@ import {
   ChevronDown,
   ChevronUp,
   DollarSign,
+  Lock,
+  CloudOff,
+  RefreshCw,
+  HeartPulse,
 } from "lucide-react"
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isWeekend, isToday, isBefore } from "date-fns"
+import type { DailyLog } from "@/types/field-reports"
+import type { ChecklistInspection, ChecklistKind, ChecklistTemplate, CorrectiveAction } from "@/types/checklists"
+import type { SafetyIncident } from "@/types/safety-incidents"
+import { DailyLogEditor } from "@/components/field-reports/DailyLogEditor"
+import { ChecklistTemplateBuilder } from "@/components/field-reports/ChecklistTemplateBuilder"
+import { CorrectiveActionTracker } from "@/components/field-reports/CorrectiveActionTracker"
+import { IncidentLog } from "@/components/field-reports/IncidentLog"
+import { useDailyLogs } from "@/hooks/use-daily-logs"
+import { useDataResource } from "@/hooks/use-data-resource"
+import { usePermissions } from "@/hooks/use-permissions"
+import { getDataSource } from "@/lib/data"
+import { blankDailyLog, delayTypeLabels } from "@/lib/field-reports/daily-logs"
+import { buildCorrectiveActions, scoreChecklist, templateFor } from "@/lib/field-reports/checklists"
 
 // Mock data imports
-import dailyLogsData from "@/data/mock/logs/daily-log-sample.json"
 import qualityControlData from "@/data/mock/inspections/quality-control.json"
 import safetyData from "@/data/mock/inspections/safety.json"
 
@@ -104,6 +120,30 @@ export default function FieldReportsPage() {
   const [activeTab, setActiveTab] = useState("overview")
   const [selectedReport, setSelectedReport] = useState<any>(null)
   const [reportModalType, setReportModalType] = useState<"daily-log" | "quality" | "safety" | null>(null)
+  const [editingLog, setEditingLog] = useState<DailyLog | null>(null)
+  const [isNewLog, setIsNewLog] = useState(false)
+
+  // Daily logs come from the data source, with edits queued on this device until they sync
+  const {
+    logs: dailyLogs,
+    records: dailyLogRecords,
+    queued: queuedLogs,
+    rejected: rejectedLogs,
+    isOnline,
+    isSyncing,
+    isLoading: loadingLogs,
+    save: saveDailyLog,
+    sync: syncDailyLogs,
+    retry: retryDailyLog,
+    discard: discardDailyLog,
+  } = useDailyLogs()
+  const author = user ? `${user.firstName} ${user.lastName}` : "Unknown User"
+  const { can } = usePermissions()
+
+  // Checklist templates weight the compliance scores; stored corrective actions override raised ones
+  const { data: checklistTemplates, setData: setChecklistTemplates } = useDataResource("checklist-templates")
+  const { data: storedActions, setData: setStoredActions } = useDataResource("corrective-actions")
+  const { data: safetyIncidents, setData: setSafetyIncidents } = useDataResource("safety-incidents")
 
   // Filter state
   const [filters, setFilters] = useState<FilterState>({
@@ -116,11 +156,9 @@ export default function FieldReportsPage() {
   })
 
   // Data state
-  const [fieldData, setFieldData] = useState<DashboardData>({
-    dailyLogs: [],
+  const [inspectionData, setInspectionData] = useState<Pick<DashboardData, "qualityControl" | "safety">>({
     qualityControl: [],
     safety: [],
-    manpower: [],
   })
 
   // Load and transform data
@@ -128,23 +166,6 @@ export default function FieldReportsPage() {
     const loadData = async () => {
       try {
         setLoading(true)
-        await new Promise((resolve) => setTimeout(resolve, 1000))
-
-        // Transform daily logs data
-        const transformedDailyLogs = Array.isArray(dailyLogsData) ? dailyLogsData.map((log: any) => ({
-          id: `log-${log.project_id}-${log.date}`,
-          projectId: log.project_id?.toString() || "unknown",
-          projectName: log.project_name || "Unknown Project",
-          date: log.date,
-          submittedBy: log.created_by || "System",
-          status: determineLogStatus(log.date),
-          totalWorkers: log.manpower_log?.total_workers || 0,
-          totalHours: log.manpower_log?.total_hours || 0,
-          weatherConditions: log.weather_report,
-          manpowerEntries: log.manpower_log?.entries || [],
-          activities: log.activities || [],
-          comments: log.comments || "",
-        })) : []
 
         // Transform quality control data
         const transformedQualityControl = Array.isArray(qualityControlData) ? qualityControlData.map((qc: any) => ({
@@ -155,8 +176,11 @@ export default function FieldReportsPage() {
           type: qc.inspection_type,
           trade: qc.trade,
           status: qc.status?.toLowerCase() === "closed" ? "pass" : "pending",
+          inspectionId: qc.inspection_id,
+          closed: qc.status?.toLowerCase() === "closed",
           location: qc.location,
           createdBy: qc.created_by,
+          responsibleParty: qc.responsible_party,
           description: qc.description,
           checklist: qc.checklist || [],
           defects: calculateDefects(qc.checklist),
@@ -173,40 +197,22 @@ export default function FieldReportsPage() {
           type: safety.inspection_type,
           trade: safety.trade,
           status: safety.status?.toLowerCase() === "closed" ? "pass" : (safety.responses?.some((r: any) => r.response === "At Risk") ? "fail" : "pass"),
+          inspectionId: safety.inspection_id,
+          closed: safety.status?.toLowerCase() === "closed",
+          specSection: safety.spec_section,
           location: safety.location,
           createdBy: safety.created_by,
+          responsibleParty: safety.responsible_party,
           description: safety.description,
           responses: safety.responses || [],
           violations: countViolations(safety.responses),
           atRiskItems: countAtRiskItems(safety.responses),
-          complianceScore: calculateComplianceScore(safety.responses),
           attachments: safety.attachments || [],
         })) : []
 
-        // Extract manpower data from daily logs
-        const transformedManpower = transformedDailyLogs.flatMap((log: any) => 
-          log.manpowerEntries.map((entry: any, index: number) => ({
-            id: `manpower-${log.id}-${index}`,
-            projectId: log.projectId,
-            projectName: log.projectName,
-            date: log.date,
-            contractor: entry.contact_company || "Unknown Contractor",
-            workers: entry.workers || 0,
-            hours: entry.hours || 0,
-            totalHours: entry.total_hours || 0,
-            location: entry.location || "Unknown Location",
-            comments: entry.comments || "",
-            trade: inferTradeFromCompany(entry.contact_company),
-            efficiency: calculateEfficiency(entry),
-            costPerHour: estimateCostPerHour(entry.contact_company),
-          }))
-        )
-
-        setFieldData({
-          dailyLogs: transformedDailyLogs,
+        setInspectionData({
           qualityControl: transformedQualityControl,
           safety: transformedSafety,
-          manpower: transformedManpower,
         })
       } catch (error) {
         console.error("Failed to load field data:", error)
@@ -219,15 +225,6 @@ export default function FieldReportsPage() {
   }, [])
 
   // Helper functions for data transformation
-  const determineLogStatus = (date: string) => {
-    const logDate = new Date(date)
-    const today = new Date()
-    if (isBefore(logDate, today)) {
-      return Math.random() > 0.3 ? "submitted" : "overdue"
-    }
-    return "pending"
-  }
-
   const calculateDefects = (checklist: any[]) => {
     if (!Array.isArray(checklist)) return 0
     return checklist.filter(item => item.response === "No").length
@@ -248,10 +245,27 @@ export default function FieldReportsPage() {
     return responses.filter(r => r.response === "At Risk").length
   }
 
-  const calculateComplianceScore = (responses: any[]) => {
-    if (!Array.isArray(responses) || responses.length === 0) return 100
-    const safeCount = responses.filter(r => r.response === "Safe").length
-    return Math.round((safeCount / responses.length) * 100)
+  const toChecklistInspection = (row: any, kind: ChecklistKind): ChecklistInspection => ({
+    kind,
+    inspectionId: row.inspectionId,
+    projectId: Number(row.projectId),
+    projectName: row.projectName,
+    inspectionType: row.type,
+    date: row.date,
+    trade: row.trade,
+    location: row.location,
+    createdBy: row.createdBy,
+    responsibleParty: row.responsibleParty,
+    closed: row.closed,
+    attachments: row.attachments,
+    responses: kind === "safety" ? row.responses : row.checklist,
+  })
+
+  // Compliance scores weigh each answer by its template question
+  const withChecklistScore = (row: any, kind: ChecklistKind) => {
+    const template = templateFor(checklistTemplates, kind, row.type)
+    const { score, missingPhotos } = scoreChecklist(toChecklistInspection(row, kind), template)
+    return { ...row, complianceScore: score, missingPhotos: missingPhotos.length, templateName: template?.name }
   }
 
   const inferTradeFromCompany = (company: string) => {
@@ -288,6 +302,33 @@ export default function FieldReportsPage() {
     return Math.round(baseCost + variation)
   }
 
+  // Manpower is taken from the daily logs' subcontractor rows
+  const fieldData: DashboardData = useMemo(() => {
+    const manpower = dailyLogs.flatMap((log) =>
+      log.manpowerEntries.map((entry) => ({
+        id: `manpower-${entry.id}`,
+        projectId: log.projectId,
+        projectName: log.projectName,
+        date: log.date,
+        contractor: entry.contactCompany || "Unknown Contractor",
+        workers: entry.workers || 0,
+        hours: entry.hours || 0,
+        totalHours: entry.totalHours || 0,
+        location: entry.location || "Unknown Location",
+        comments: entry.comments || "",
+        trade: entry.trade || inferTradeFromCompany(entry.contactCompany),
+        efficiency: calculateEfficiency(entry),
+        costPerHour: estimateCostPerHour(entry.contactCompany),
+      }))
+    )
+    return {
+      dailyLogs,
+      qualityControl: inspectionData.qualityControl.map((qc) => withChecklistScore(qc, "quality")),
+      safety: inspectionData.safety.map((sa) => withChecklistScore(sa, "safety")),
+      manpower,
+    }
+  }, [dailyLogs, inspectionData, checklistTemplates])
+
   // Role-based data filtering
   const filteredData = useMemo(() => {
     let filtered = { ...fieldData }
@@ -340,6 +381,45 @@ export default function FieldReportsPage() {
     return filtered
   }, [fieldData, filters, user])
 
+  // Corrective actions for the inspections in view
+  const correctiveActions = useMemo(() => {
+    const inspections = [
+      ...filteredData.safety.map((sa) => toChecklistInspection(sa, "safety")),
+      ...filteredData.qualityControl.map((qc) => toChecklistInspection(qc, "quality")),
+    ]
+    const inView = new Set(inspections.map((inspection) => `${inspection.kind}-${inspection.inspectionId}`))
+    const stored = storedActions.filter((action) => inView.has(`${action.kind}-${action.inspectionId}`))
+    return buildCorrectiveActions(inspections, checklistTemplates, stored)
+  }, [filteredData, checklistTemplates, storedActions])
+
+  const openCorrectiveActions = correctiveActions.filter((action) => action.status !== "verified").length
+
+  const saveTemplate = async (template: ChecklistTemplate, isNew: boolean) => {
+    const source = getDataSource()
+    let saved = template
+    if (isNew && source.create) saved = await source.create("checklist-templates", template)
+    else if (!isNew && source.update) saved = await source.update("checklist-templates", template.id, template)
+    setChecklistTemplates((prev) => (isNew ? [...prev, saved] : prev.map((t) => (t.id === saved.id ? saved : t))))
+  }
+
+  // Raised actions are stored the first time someone works them
+  const saveCorrectiveAction = async (action: CorrectiveAction) => {
+    const source = getDataSource()
+    const isNew = !storedActions.some((a) => a.id === action.id)
+    let saved = action
+    if (isNew && source.create) saved = await source.create("corrective-actions", action)
+    else if (!isNew && source.update) saved = await source.update("corrective-actions", action.id, action)
+    setStoredActions((prev) => (isNew ? [...prev, saved] : prev.map((a) => (a.id === saved.id ? saved : a))))
+  }
+
+  const saveIncident = async (incident: SafetyIncident, isNew: boolean) => {
+    const source = getDataSource()
+    let saved = incident
+    if (isNew && source.create) saved = await source.create("safety-incidents", incident)
+    else if (!isNew && source.update) saved = await source.update("safety-incidents", incident.id, incident)
+    setSafetyIncidents((prev) => (isNew ? [...prev, saved] : prev.map((i) => (i.id === saved.id ? saved : i))))
+  }
+
   // Generate AI-powered insights
   const generateInsights = useCallback((data: DashboardData, metrics: FieldMetrics): InsightItem[] => {
     const insights: InsightItem[] = []
@@ -474,6 +554,26 @@ export default function FieldReportsPage() {
     setReportModalType(null)
   }
 
+  // New logs start on the filtered project (or the first one) for today
+  const openNewLog = () => {
+    const projectId = filters.project !== "all" ? filters.project : uniqueProjects[0] ?? ""
+    const projectName = fieldData.dailyLogs.find((log) => log.projectId === projectId)?.projectName ?? `Project ${projectId}`
+    setIsNewLog(true)
+    setEditingLog(blankDailyLog(projectId, projectName, format(new Date(), "yyyy-MM-dd"), author))
+  }
+
+  const openLogEditor = (log: DailyLog) => {
+    setIsNewLog(false)
+    setEditingLog(log)
+  }
+
+  const handleSaveLog = async (log: DailyLog) => {
+    if (isNewLog && fieldData.dailyLogs.some((existing) => existing.id === log.id)) {
+      throw new Error("A daily log already exists for this project and day")
+    }
+    await saveDailyLog(log, author)
+  }
+
   // Generate report-specific insights
   const generateReportInsights = (report: any, type: string) => {
     const insights = []
@@ -497,7 +597,8 @@ export default function FieldReportsPage() {
         })
       }
 
-      if (report.weatherConditions?.precipitation_since?.midnight !== "0.00 in.") {
+      const precipitation = report.weatherConditions?.precipitation?.midnight
+      if (precipitation && precipitation !== "0.00 in.") {
         insights.push({
           type: "warning",
           title: "Weather Impact",
@@ -560,6 +661,36 @@ export default function FieldReportsPage() {
     return Array.from(projects)
   }, [filteredData])
 
+  const logProjects = useMemo(
+    () =>
+      uniqueProjects.map((id) => ({
+        id,
+        name: fieldData.dailyLogs.find((log) => log.projectId === id)?.projectName ?? `Project ${id}`,
+      })),
+    [uniqueProjects, fieldData.dailyLogs]
+  )
+
+  // Incidents and the logged hours behind their rates, for the projects in view
+  const incidentsInView = useMemo(() => {
+    const inView = new Set(uniqueProjects)
+    return {
+      incidents: safetyIncidents.filter(
+        (incident) => inView.has(String(incident.projectId)) && (filters.trade === "all" || incident.trade === filters.trade)
+      ),
+      dailyLogs: dailyLogRecords.filter((record) => inView.has(String(record.project_id))),
+      projects: uniqueProjects
+        .map((id) => ({
+          id: Number(id),
+          name: fieldData.safety.find((sa) => sa.projectId === id)?.projectName ?? logProjects.find((p) => p.id === id)?.name ?? `Project ${id}`,
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+      trades: Array.from(new Set(fieldData.safety.map((sa) => sa.trade))).sort(),
+    }
+  }, [safetyIncidents, dailyLogRecords, uniqueProjects, filters.trade, fieldData.safety, logProjects])
+
+  const queuedLogIds = useMemo(() => new Set(queuedLogs.map((entry) => entry.id)), [queuedLogs])
+  const rejectedLogIds = useMemo(() => new Set(rejectedLogs.map((entry) => entry.id)), [rejectedLogs])
+
   const uniqueContractors = useMemo(() => {
     const contractors = new Set(filteredData.manpower.map((mp) => mp.contractor))
     return Array.from(contractors)
@@ -574,7 +705,7 @@ export default function FieldReportsPage() {
     return Array.from(trades)
   }, [filteredData])
 
-  if (loading) {
+  if (loading || loadingLogs) {
     return (
       <div className="h-screen flex flex-col">
         <AppHeader />
@@ -609,7 +740,51 @@ export default function FieldReportsPage() {
               <Badge variant="outline" className="bg-background/50">
                 {uniqueProjects.length} Projects
               </Badge>
-              <Button size="sm" className="bg-[#FF6B35] hover:bg-[#E55A2B] text-white">
+              {(!isOnline || queuedLogs.length > 0) && (
+                <Button variant="outline" size="sm" onClick={syncDailyLogs} disabled={!isOnline || isSyncing}>
+                  {isOnline ? <RefreshCw className={`w-4 h-4 mr-2 ${isSyncing ? "animate-spin" : ""}`} /> : <CloudOff className="w-4 h-4 mr-2" />}
+                  {isOnline ? `${queuedLogs.length} Unsynced` : `Offline · ${queuedLogs.length} queued`}
+                </Button>
+              )}
+              {rejectedLogs.length > 0 && (
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button variant="outline" size="sm" className="border-red-300 text-red-700 dark:border-red-800 dark:text-red-400">
+                      <AlertTriangle className="w-4 h-4 mr-2" />
+                      {rejectedLogs.length} Rejected
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent align="end" className="w-96">
+                    <div className="space-y-3">
+                      <p className="text-sm font-medium">Edits the server did not accept</p>
+                      {rejectedLogs.map((entry) => (
+                        <div key={entry.id} className="rounded-md border p-2 space-y-2">
+                          <div className="text-sm">
+                            <span className="font-medium">{entry.record.project_name}</span>
+                            <span className="text-muted-foreground"> · {format(new Date(entry.record.date), "MMM dd, yyyy")}</span>
+                          </div>
+                          <p className="text-xs text-red-600 dark:text-red-400">
+                            {entry.locked ? "Submitted on the server first; discard this edit and record an amendment." : entry.error}
+                          </p>
+                          <div className="flex justify-end gap-2">
+                            {!entry.locked && (
+                              <Button size="sm" variant="outline" onClick={() => retryDailyLog(entry.id)} disabled={!isOnline || isSyncing}>
+                                <RefreshCw className="w-3 h-3 mr-1" />
+                                Retry
+                              </Button>
+                            )}
+                            <Button size="sm" variant="outline" onClick={() => discardDailyLog(entry.id)}>
+                              <X className="w-3 h-3 mr-1" />
+                              Discard
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </PopoverContent>
+                </Popover>
+              )}
+              <Button size="sm" className="bg-[#FF6B35] hover:bg-[#E55A2B] text-white" onClick={openNewLog}>
                 <Plus className="w-4 h-4 mr-2" />
                 New Report
               </Button>
@@ -819,7 +994,7 @@ export default function FieldReportsPage() {
             <Card>
               <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
                 <CardHeader>
-                  <TabsList className="grid w-full grid-cols-5">
+                  <TabsList className="grid w-full grid-cols-8">
                     <TabsTrigger value="overview" className="flex items-center gap-2">
                       <BarChart3 className="w-4 h-4" />
                       Overview
@@ -840,6 +1015,18 @@ export default function FieldReportsPage() {
                       <Users className="w-4 h-4" />
                       Manpower ({filteredData.manpower.length})
                     </TabsTrigger>
+                    <TabsTrigger value="corrective-actions" className="flex items-center gap-2">
+                      <AlertTriangle className="w-4 h-4" />
+                      Actions ({openCorrectiveActions})
+                    </TabsTrigger>
+                    <TabsTrigger value="incidents" className="flex items-center gap-2">
+                      <HeartPulse className="w-4 h-4" />
+                      Incidents ({incidentsInView.incidents.length})
+                    </TabsTrigger>
+                    <TabsTrigger value="checklists" className="flex items-center gap-2">
+                      <Settings className="w-4 h-4" />
+                      Checklists
+                    </TabsTrigger>
                   </TabsList>
                 </CardHeader>
 
@@ -940,10 +1127,14 @@ export default function FieldReportsPage() {
                         <SelectContent>
                           <SelectItem value="all">All Statuses</SelectItem>
                           <SelectItem value="submitted">Submitted</SelectItem>
-                          <SelectItem value="pending">Pending</SelectItem>
+                          <SelectItem value="draft">Draft</SelectItem>
                           <SelectItem value="overdue">Overdue</SelectItem>
                         </SelectContent>
                       </Select>
+                      <Button size="sm" className="ml-auto bg-[#FF6B35] hover:bg-[#E55A2B] text-white" onClick={openNewLog}>
+                        <Plus className="w-4 h-4 mr-2" />
+                        New Daily Log
+                      </Button>
                     </div>
 
                     {/* Daily Logs Table */}
@@ -958,7 +1149,7 @@ export default function FieldReportsPage() {
                               <TableHead>Workers</TableHead>
                               <TableHead>Hours</TableHead>
                               <TableHead>Status</TableHead>
-                              <TableHead className="w-12"></TableHead>
+                              <TableHead className="w-24"></TableHead>
                             </TableRow>
                           </TableHeader>
                           <TableBody>
@@ -995,17 +1186,38 @@ export default function FieldReportsPage() {
                                         : "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300"
                                     }
                                   >
+                                    {log.locked && <Lock className="h-3 w-3 mr-1" />}
                                     {log.status}
                                   </Badge>
+                                  {queuedLogIds.has(log.id) && (
+                                    <Badge variant="outline" className="ml-2 text-xs">
+                                      Unsynced
+                                    </Badge>
+                                  )}
+                                  {rejectedLogIds.has(log.id) && (
+                                    <Badge variant="outline" className="ml-2 text-xs border-red-300 text-red-700 dark:border-red-800 dark:text-red-400">
+                                      Rejected
+                                    </Badge>
+                                  )}
                                 </TableCell>
                                 <TableCell>
-                                  <Button 
-                                    variant="ghost" 
-                                    size="sm"
-                                    onClick={() => openReportModal(log, "daily-log")}
-                                  >
-                                    <Eye className="h-4 w-4" />
-                                  </Button>
+                                  <div className="flex items-center">
+                                    <Button 
+                                      variant="ghost" 
+                                      size="sm"
+                                      onClick={() => openReportModal(log, "daily-log")}
+                                    >
+                                      <Eye className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      title={log.locked ? "Amend" : "Edit"}
+                                      onClick={() => openLogEditor(log)}
+                                    >
+                                      <Edit className="h-4 w-4" />
+                                    </Button>
+                                  </div>
                                 </TableCell>
                               </TableRow>
                             ))}
@@ -1033,6 +1245,7 @@ export default function FieldReportsPage() {
                               <TableHead>Trade</TableHead>
                               <TableHead>Location</TableHead>
                               <TableHead>Defects</TableHead>
+                              <TableHead>Score</TableHead>
                               <TableHead>Status</TableHead>
                               <TableHead>Inspector</TableHead>
                               <TableHead className="w-12">Actions</TableHead>
@@ -1061,6 +1274,20 @@ export default function FieldReportsPage() {
                                     {qc.defects}
                                   </div>
                                 </TableCell>
+                                <TableCell>
+                                  <div className="flex items-center gap-2">
+                                    <div
+                                      className={`w-2 h-2 rounded-full ${
+                                        qc.complianceScore >= 90
+                                          ? "bg-green-500"
+                                          : qc.complianceScore >= 80
+                                          ? "bg-yellow-500"
+                                          : "bg-red-500"
+                                      }`}
+                                    />
+                                    {qc.complianceScore}%
+                                  </div>
+                                </TableCell>
                                 <TableCell>
                                   <Badge
                                     variant="secondary"
@@ -1169,6 +1396,40 @@ export default function FieldReportsPage() {
                     </Card>
                   </TabsContent>
 
+                  <TabsContent value="corrective-actions" className="space-y-4">
+                    <CorrectiveActionTracker
+                      actions={correctiveActions}
+                      author={author}
+                      canEdit={can("field-reports", "edit")}
+                      canVerify={can("field-reports", "approve")}
+                      onSave={saveCorrectiveAction}
+                    />
+                  </TabsContent>
+
+                  <TabsContent value="incidents" className="space-y-4">
+                    <IncidentLog
+                      incidents={incidentsInView.incidents}
+                      dailyLogs={incidentsInView.dailyLogs}
+                      projects={incidentsInView.projects}
+                      trades={incidentsInView.trades}
+                      author={author}
+                      canCreate={can("field-reports", "create")}
+                      canEdit={can("field-reports", "edit")}
+                      canClose={can("field-reports", "approve")}
+                      canExport={can("field-reports", "export")}
+                      onSave={saveIncident}
+                    />
+                  </TabsContent>
+
+                  <TabsContent value="checklists" className="space-y-4">
+                    <ChecklistTemplateBuilder
+                      templates={checklistTemplates}
+                      author={author}
+                      canEdit={can("field-reports", "edit")}
+                      onSave={saveTemplate}
+                    />
+                  </TabsContent>
+
                   <TabsContent value="manpower" className="space-y-4">
                     {/* Manpower Table */}
                     <Card>
@@ -1394,13 +1655,13 @@ export default function FieldReportsPage() {
                               </div>
                               <div className="text-center">
                                 <div className="text-2xl font-bold text-[#003087] dark:text-white">
-                                  {selectedReport.weatherConditions.windspeed?.avg || "N/A"}
+                                  {selectedReport.weatherConditions.windSpeed?.avg || "N/A"}
                                 </div>
                                 <div className="text-xs text-muted-foreground">Wind Speed</div>
                               </div>
                               <div className="text-center">
                                 <div className="text-2xl font-bold text-[#003087] dark:text-white">
-                                  {selectedReport.weatherConditions.precipitation_since?.midnight || "N/A"}
+                                  {selectedReport.weatherConditions.precipitation?.midnight || "N/A"}
                                 </div>
                                 <div className="text-xs text-muted-foreground">Precipitation</div>
                               </div>
@@ -1440,12 +1701,12 @@ export default function FieldReportsPage() {
                                 {selectedReport.manpowerEntries.map((entry: any, index: number) => (
                                   <div key={index} className="flex items-center justify-between p-3 bg-muted/30 rounded">
                                     <div>
-                                      <div className="font-medium text-sm">{entry.contact_company}</div>
+                                      <div className="font-medium text-sm">{entry.contactCompany}</div>
                                       <div className="text-xs text-muted-foreground">{entry.location}</div>
                                     </div>
                                     <div className="text-right">
                                       <div className="font-medium">{entry.workers} workers</div>
-                                      <div className="text-xs text-muted-foreground">{entry.total_hours}h total</div>
+                                      <div className="text-xs text-muted-foreground">{entry.totalHours}h total</div>
                                     </div>
                                   </div>
                                 ))}
@@ -1471,7 +1732,7 @@ export default function FieldReportsPage() {
                                   <div className="flex-1">
                                     <div className="font-medium text-sm">{activity.description}</div>
                                     <div className="text-xs text-muted-foreground">
-                                      {activity.type} • {activity.responsible_party}
+                                      {activity.type} • {activity.responsibleParty}
                                     </div>
                                   </div>
                                   <Badge
@@ -1492,6 +1753,116 @@ export default function FieldReportsPage() {
                           </CardContent>
                         </Card>
                       )}
+
+                      {/* Delays */}
+                      {selectedReport.delays?.length > 0 && (
+                        <Card>
+                          <CardHeader>
+                            <CardTitle className="text-[#003087] dark:text-white flex items-center gap-2">
+                              <Clock className="h-5 w-5" />
+                              Delays
+                            </CardTitle>
+                          </CardHeader>
+                          <CardContent>
+                            <div className="space-y-3">
+                              {selectedReport.delays.map((delay: DailyLog["delays"][number]) => (
+                                <div key={delay.id} className="flex items-center justify-between p-3 border rounded">
+                                  <div className="flex-1">
+                                    <div className="font-medium text-sm">{delay.description}</div>
+                                    <div className="text-xs text-muted-foreground">
+                                      {delayTypeLabels[delay.type]} • {delay.responsibleParty || "Unassigned"}
+                                    </div>
+                                  </div>
+                                  <span className="text-sm font-medium">{delay.hoursLost}h lost</span>
+                                </div>
+                              ))}
+                            </div>
+                          </CardContent>
+                        </Card>
+                      )}
+
+                      {/* Visitors & Deliveries */}
+                      {(selectedReport.visitors?.length > 0 || selectedReport.deliveries?.length > 0) && (
+                        <Card>
+                          <CardHeader>
+                            <CardTitle className="text-[#003087] dark:text-white flex items-center gap-2">
+                              <Building className="h-5 w-5" />
+                              Visitors & Deliveries
+                            </CardTitle>
+                          </CardHeader>
+                          <CardContent>
+                            <div className="space-y-3">
+                              {selectedReport.visitors.map((visitor: DailyLog["visitors"][number]) => (
+                                <div key={visitor.id} className="flex items-center justify-between p-3 bg-muted/30 rounded">
+                                  <div>
+                                    <div className="font-medium text-sm">{visitor.name}</div>
+                                    <div className="text-xs text-muted-foreground">
+                                      {visitor.company} • {visitor.purpose}
+                                    </div>
+                                  </div>
+                                  <span className="text-xs text-muted-foreground">
+                                    {visitor.timeIn}{visitor.timeOut && ` – ${visitor.timeOut}`}
+                                  </span>
+                                </div>
+                              ))}
+                              {selectedReport.deliveries.map((delivery: DailyLog["deliveries"][number]) => (
+                                <div key={delivery.id} className="flex items-center justify-between p-3 border rounded">
+                                  <div>
+                                    <div className="font-medium text-sm">{delivery.supplier}</div>
+                                    <div className="text-xs text-muted-foreground">
+                                      {delivery.description} • Received by {delivery.receivedBy || "—"}
+                                    </div>
+                                  </div>
+                                  <span className="text-xs text-muted-foreground">{delivery.time}</span>
+                                </div>
+                              ))}
+                            </div>
+                          </CardContent>
+                        </Card>
+                      )}
+
+                      {/* Photos */}
+                      {selectedReport.photos?.length > 0 && (
+                        <Card>
+                          <CardHeader>
+                            <CardTitle className="text-[#003087] dark:text-white">Photos</CardTitle>
+                          </CardHeader>
+                          <CardContent>
+                            <div className="grid grid-cols-3 gap-3">
+                              {selectedReport.photos.map((photo: DailyLog["photos"][number]) => (
+                                <figure key={photo.id} className="space-y-1">
+                                  <img src={photo.dataUrl} alt={photo.caption || photo.name} className="h-32 w-full rounded object-cover" />
+                                  {photo.caption && <figcaption className="text-xs text-muted-foreground">{photo.caption}</figcaption>}
+                                </figure>
+                              ))}
+                            </div>
+                          </CardContent>
+                        </Card>
+                      )}
+
+                      {/* Amendments */}
+                      {selectedReport.amendments?.length > 0 && (
+                        <Card>
+                          <CardHeader>
+                            <CardTitle className="text-[#003087] dark:text-white flex items-center gap-2">
+                              <Lock className="h-5 w-5" />
+                              Amendments
+                            </CardTitle>
+                          </CardHeader>
+                          <CardContent>
+                            <div className="space-y-2">
+                              {selectedReport.amendments.map((amendment: DailyLog["amendments"][number], index: number) => (
+                                <div key={index} className="p-3 bg-muted/30 rounded">
+                                  <div className="text-sm">{amendment.reason}</div>
+                                  <div className="text-xs text-muted-foreground">
+                                    {amendment.amendedBy} • {format(new Date(amendment.amendedAt), "MMM dd, yyyy h:mm a")}
+                                  </div>
+                                </div>
+                              ))}
+                            </div>
+                          </CardContent>
+                        </Card>
+                      )}
                     </>
                   )}
 
@@ -1686,13 +2057,19 @@ export default function FieldReportsPage() {
                       {reportModalType === "quality" && (
                         <>
                           <div className="flex items-center justify-between">
-                            <span className="text-sm text-muted-foreground">Pass Rate</span>
-                            <span className="font-medium">
-                              {selectedReport.checklist 
-                                ? Math.round((selectedReport.checklist.filter((item: any) => item.response === "Yes").length / selectedReport.checklist.length) * 100)
-                                : 0}%
-                            </span>
+                            <span className="text-sm text-muted-foreground">Weighted Score</span>
+                            <span className="font-medium">{selectedReport.complianceScore}%</span>
                           </div>
+                          <div className="flex items-center justify-between">
+                            <span className="text-sm text-muted-foreground">Template</span>
+                            <span className="font-medium text-right">{selectedReport.templateName ?? "None (unweighted)"}</span>
+                          </div>
+                          {selectedReport.missingPhotos > 0 && (
+                            <div className="flex items-center justify-between">
+                              <span className="text-sm text-muted-foreground">Missing Required Photos</span>
+                              <span className="font-medium text-red-600">{selectedReport.missingPhotos}</span>
+                            </div>
+                          )}
                           <div className="flex items-center justify-between">
                             <span className="text-sm text-muted-foreground">Items Checked</span>
                             <span className="font-medium">{selectedReport.checklist?.length || 0}</span>
@@ -1702,6 +2079,16 @@ export default function FieldReportsPage() {
 
                       {reportModalType === "safety" && (
                         <>
+                          <div className="flex items-center justify-between">
+                            <span className="text-sm text-muted-foreground">Template</span>
+                            <span className="font-medium text-right">{selectedReport.templateName ?? "None (unweighted)"}</span>
+                          </div>
+                          {selectedReport.missingPhotos > 0 && (
+                            <div className="flex items-center justify-between">
+                              <span className="text-sm text-muted-foreground">Missing Required Photos</span>
+                              <span className="font-medium text-red-600">{selectedReport.missingPhotos}</span>
+                            </div>
+                          )}
                           <div className="flex items-center justify-between">
                             <span className="text-sm text-muted-foreground">Safe Items</span>
                             <span className="font-medium">
@@ -1788,9 +2175,16 @@ export default function FieldReportsPage() {
                 </Button>
                 {user?.role === "project-manager" && (
                   <>
-                    <Button variant="outline">
+                    <Button
+                      variant="outline"
+                      onClick={() => {
+                        if (reportModalType !== "daily-log") return
+                        openLogEditor(selectedReport)
+                        closeReportModal()
+                      }}
+                    >
                       <Edit className="h-4 w-4 mr-2" />
-                      Edit Report
+                      {reportModalType === "daily-log" && selectedReport.locked ? "Amend Report" : "Edit Report"}
                     </Button>
                     <Button className="bg-[#FF6B35] hover:bg-[#FF5722] text-white">
                       <Download className="h-4 w-4 mr-2" />
@@ -1804,6 +2198,16 @@ export default function FieldReportsPage() {
         </Dialog>
         </div>
       )}
+
+      <DailyLogEditor
+        open={!!editingLog}
+        onOpenChange={(open) => !open && setEditingLog(null)}
+        log={editingLog}
+        isNew={isNewLog}
+        author={author}
+        projects={logProjects}
+        onSave={handleSaveLog}
+      />
     </div>
   )
 } 
\ No newline at end of file
@@ -33,6 +33,9 @@ import ChangeManagement from "@/components/financial-hub/ChangeManagement";
 import CostTracking from "@/components/financial-hub/CostTracking";
 import ContractManagement from "@/components/financial-hub/ContractManagement";
 import RetentionManagement from "@/components/financial-hub/RetentionManagement";
+import Invoicing from "@/components/financial-hub/Invoicing";
+import PayAuthorizations from "@/components/financial-hub/PayAuthorizations";
+import JobCostReconciliation from "@/components/financial-hub/JobCostReconciliation";
 
 interface FinancialModuleTab {
   id: string;
@@ -135,6 +138,20 @@ export default function FinancialHubPage() {
       description: "Generate and manage formal AIA G702/G703 payment applications",
       component: PayApplication,
     },
+    {
+      id: "sub-invoices",
+      label: "Sub Invoices",
+      icon: FileText,
+      description: "Subcontractor invoice intake, compliance and PM/PX approval",
+      component: Invoicing,
+    },
+    {
+      id: "pay-authorizations",
+      label: "Pay Authorizations",
+      icon: CreditCard,
+      description: "Payment batches for approved invoices, released to the vendor ledger",
+      component: PayAuthorizations,
+    },
 
     {
       id: "change-management",
@@ -158,6 +175,13 @@ export default function FinancialHubPage() {
       description: "Retention tracking and release management",
       component: RetentionManagement,
     },
+    {
+      id: "reconciliation",
+      label: "Reconciliation",
+      icon: CheckCircle,
+      description: "Procore budget vs Sage job cost reconciliation for month-end close",
+      component: JobCostReconciliation,
+    },
   ];
 
   // Filter modules based on user role
@@ -286,7 +310,7 @@ export default function FinancialHubPage() {
       {/* Financial Modules */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
         {/* Tab Navigation */}
-        <TabsList className="grid w-full grid-cols-5 lg:grid-cols-10 h-12 bg-muted border-border" data-tour="financial-hub-navigation">
+        <TabsList className="grid w-full grid-cols-6 lg:grid-cols-12 h-12 bg-muted border-border" data-tour="financial-hub-navigation">
           {availableModules.map((module) => (
             <TabsTrigger
               key={module.id}
@@ -11,6 +11,7 @@ import { Badge } from "@/components/ui/badge"
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet"
 import { Skeleton } from "@/components/ui/skeleton"
 import { useToast } from "@/hooks/use-toast"
+import { usePermissions } from "@/hooks/use-permissions"
 import {
   CalendarDays,
   FileText,
@@ -27,7 +28,9 @@ import {
   Clock,
   Shield,
   Building,
-  RefreshCw
+  RefreshCw,
+  ListChecks,
+  ShieldAlert
 } from "lucide-react"
 
 // Import Permit Components
@@ -37,15 +40,22 @@ import { PermitForm } from "@/components/permit-log/PermitForm"
 import { PermitExportModal } from "@/components/permit-log/PermitExportModal"
 import { PermitTable } from "@/components/permit-log/PermitTable"
 import { PermitCalendar } from "@/components/permit-log/PermitCalendar"
+import { InspectionPlanner } from "@/components/permit-log/InspectionPlanner"
+import { PermitExposure } from "@/components/permit-log/PermitExposure"
 import { EnhancedHBIInsights } from "@/components/cards/EnhancedHBIInsights"
 
-import type { Permit, PermitFilters as PermitFiltersType, PermitAnalytics as PermitAnalyticsType } from "@/types/permit-log"
+import type { Permit, PermitFilters as PermitFiltersType, PermitAnalytics as PermitAnalyticsType, PermitRenewalTask } from "@/types/permit-log"
+import type { DemoRole } from "@/types/auth"
 
 // Import mock data
-import permitsData from "@/data/mock/logs/permits.json"
+import { format, parseISO } from "date-fns"
+import { getDataSource } from "@/lib/data"
+import { inspectionReminders } from "@/lib/permits/inspection-planner"
+import { expirationLevelLabel, permitExpirationRules, permitExpiryStatus, portfolioExposure, renewPermit } from "@/lib/permits/expiration-rules"
 
 export default function PermitLogPage() {
   const { user } = useAuth()
+  const { can } = usePermissions()
   const { selectedProject } = useProjectContext()
   const { toast } = useToast()
 
@@ -72,7 +82,8 @@ export default function PermitLogPage() {
     const loadPermits = async () => {
       try {
         setIsLoading(true)
-        // Transform the imported data to match our interface
+        // Fill optional collections so the UI can rely on them
+        const permitsData = await getDataSource().list("permits")
         const transformedPermits: Permit[] = permitsData.map((permit: any) => ({
           ...permit,
           inspections: permit.inspections || [],
@@ -115,46 +126,59 @@ export default function PermitLogPage() {
     return () => window.removeEventListener("resize", handleResize)
   }, [])
 
-  // Role-based access control
-  const hasCreateAccess = useMemo(() => {
-    if (!user) return false
-    return ["admin", "project-manager", "project-executive"].includes(user.role)
-  }, [user])
+  // Permission checks against the central permission matrix
+  const hasCreateAccess = can("permit-log", "create")
+  const hasExportAccess = can("permit-log", "export")
 
-  const hasFullAccess = useMemo(() => {
-    if (!user) return false
-    return ["admin", "executive"].includes(user.role)
-  }, [user])
-
-  const hasExportAccess = useMemo(() => {
-    if (!user) return false
-    return ["admin", "executive", "project-executive", "project-manager"].includes(user.role)
-  }, [user])
-
-  // Filter permits based on user role and permissions
+  // Permits the user may view: all projects, or their assigned projects
   const accessiblePermits = useMemo(() => {
     if (!user) return []
 
-    let filtered = permits
+    let filtered = permits.filter((permit) => can("permit-log", "view", permit.projectId))
 
     // Apply project-based filtering if a specific project is selected
     if (selectedProject) {
       filtered = filtered.filter((permit) => permit.projectId.toString() === selectedProject.id)
-    } else if (!hasFullAccess) {
-      // Apply role-based filtering when no specific project is selected
-      if (user.role === "project-executive") {
-        // Show permits from assigned projects (mock data shows various project IDs)
-        const assignedProjects = ["2525840", "2525841", "2525842"]
-        filtered = filtered.filter((permit) => assignedProjects.includes(permit.projectId.toString()))
-      } else if (user.role === "project-manager") {
-        // Show permits from active project only
-        const activeProject = "2525840"
-        filtered = filtered.filter((permit) => permit.projectId.toString() === activeProject)
-      }
     }
 
     return filtered
-  }, [permits, user, hasFullAccess, selectedProject])
+  }, [permits, user, can, selectedProject])
+
+  // The exposure view spans every project the user can view, whatever project is selected
+  const portfolioPermits = useMemo(
+    () => (user ? permits.filter((permit) => can("permit-log", "view", permit.projectId)) : []),
+    [permits, user, can]
+  )
+
+  // Surface today's inspection reminders once the permits are in
+  const remindersShown = useRef(false)
+  useEffect(() => {
+    if (isLoading || remindersShown.current || accessiblePermits.length === 0) return
+    remindersShown.current = true
+    const reminders = inspectionReminders(accessiblePermits)
+    const urgent = reminders.filter((r) => r.severity !== "info")
+    if (reminders.length === 0) return
+    toast({
+      title: `${reminders.length} inspection reminder${reminders.length === 1 ? "" : "s"}`,
+      description: (urgent[0] ?? reminders[0]).message,
+      variant: urgent.some((r) => r.severity === "critical") ? "destructive" : "default",
+    })
+  }, [isLoading, accessiblePermits, toast])
+
+  // Expirations escalated to the user's role get one toast per visit
+  const escalationShown = useRef(false)
+  useEffect(() => {
+    if (isLoading || escalationShown.current || !user || portfolioPermits.length === 0) return
+    escalationShown.current = true
+    const escalated = portfolioExposure(portfolioPermits).atRisk.filter((status) => status.escalateTo.includes(user.role as DemoRole))
+    if (escalated.length === 0) return
+    const soonest = escalated.find((status) => status.level !== "expired") ?? escalated[0]
+    toast({
+      title: `${escalated.length} permit expiration${escalated.length === 1 ? "" : "s"} escalated to you`,
+      description: `${soonest.permit.number}: ${expirationLevelLabel(soonest.level)}`,
+      variant: escalated.some((status) => status.level === "critical" || status.level === "expired") ? "destructive" : "default",
+    })
+  }, [isLoading, portfolioPermits, user, toast])
 
   // Apply filters and search
   useEffect(() => {
@@ -197,11 +221,10 @@ export default function PermitLogPage() {
     }
 
     if (filters.expiringWithin) {
-      const cutoffDate = new Date()
-      cutoffDate.setDate(cutoffDate.getDate() + filters.expiringWithin)
+      // Against the effective expiration, so inspection activity that extends a permit counts
       filtered = filtered.filter((permit) => {
-        const expirationDate = new Date(permit.expirationDate)
-        return expirationDate <= cutoffDate && (permit.status === "approved" || permit.status === "renewed")
+        const expiry = permitExpiryStatus(permit)
+        return !!expiry && permit.status !== "expired" && expiry.daysToExpiry <= filters.expiringWithin!
       })
     }
 
@@ -233,11 +256,9 @@ export default function PermitLogPage() {
     const approvalRate = totalPermits > 0 ? (approvedPermits / totalPermits) * 100 : 0
     const inspectionPassRate = totalInspections > 0 ? (passedInspections / totalInspections) * 100 : 0
 
-    const thirtyDaysFromNow = new Date()
-    thirtyDaysFromNow.setDate(thirtyDaysFromNow.getDate() + 30)
     const expiringPermits = filteredPermits.filter((p) => {
-      const expDate = new Date(p.expirationDate)
-      return expDate <= thirtyDaysFromNow && expDate > new Date() && (p.status === "approved" || p.status === "renewed")
+      const level = permitExpiryStatus(p)?.level
+      return level === "warning" || level === "critical"
     }).length
 
     return {
@@ -266,7 +287,7 @@ export default function PermitLogPage() {
         type: "alert" as const,
         severity: "high" as const,
         title: "Permits Expiring Soon",
-        text: `${metrics.expiringPermits} permits will expire within 30 days, requiring immediate renewal action.`,
+        text: `${metrics.expiringPermits} permits will expire within ${permitExpirationRules.thresholds.warning} days, requiring immediate renewal action.`,
         action: "Schedule renewal meetings with permit authorities and prepare required documentation.",
         confidence: 95,
         relatedMetrics: ["Permit Renewals", "Authority Relations", "Compliance Timeline"],
@@ -358,42 +379,105 @@ export default function PermitLogPage() {
   }, [toast])
 
   const handleSavePermit = useCallback(
-    (permitData: Partial<Permit>) => {
-      if (selectedPermit) {
-        // Update existing permit
-        setPermits((prev) =>
-          prev.map((p) =>
-            p.id === selectedPermit.id 
-              ? { ...p, ...permitData, updatedAt: new Date().toISOString() } 
-              : p
-          )
-        )
+    async (permitData: Partial<Permit>) => {
+      // Persist through the data source when it accepts writes; otherwise edits stay local
+      const source = getDataSource()
+      try {
+        if (selectedPermit) {
+          // Update existing permit
+          const changes = { ...permitData, updatedAt: new Date().toISOString() }
+          const saved = source.update
+            ? await source.update("permits", selectedPermit.id, changes)
+            : { ...selectedPermit, ...changes }
+          setPermits((prev) => prev.map((p) => (p.id === selectedPermit.id ? { ...p, ...saved } : p)))
+          toast({
+            title: "Success",
+            description: "Permit updated successfully",
+          })
+        } else {
+          // Create new permit
+          const newPermit: Permit = {
+            id: `perm-${Date.now()}`,
+            projectId: selectedProject?.id || "2525840",
+            createdBy: user?.id || "current-user",
+            createdAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString(),
+            inspections: [],
+            tags: [],
+            conditions: [],
+            ...permitData,
+          } as Permit
+          const saved = source.create ? await source.create("permits", newPermit) : newPermit
+          setPermits((prev) => [...prev, saved])
+          toast({
+            title: "Success",
+            description: "Permit created successfully",
+          })
+        }
+        setShowPermitForm(false)
+      } catch (error) {
+        console.error("Failed to save permit:", error)
         toast({
-          title: "Success",
-          description: "Permit updated successfully",
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to save permit",
+          variant: "destructive",
         })
-      } else {
-        // Create new permit
-        const newPermit: Permit = {
-          id: `perm-${Date.now()}`,
-          projectId: selectedProject?.id || "2525840",
-          createdBy: user?.id || "current-user",
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-          inspections: [],
-          tags: [],
-          conditions: [],
-          ...permitData,
-        } as Permit
-        setPermits((prev) => [...prev, newPermit])
+      }
+    },
+    [selectedPermit, user, selectedProject, toast]
+  )
+
+  // Inspection requests and results from the planner only touch the permit's inspections
+  const handleSaveInspections = useCallback(
+    async (permit: Permit) => {
+      const source = getDataSource()
+      try {
+        const changes = { inspections: permit.inspections, updatedAt: new Date().toISOString() }
+        const saved = source.update ? await source.update("permits", permit.id, changes) : { ...permit, ...changes }
+        setPermits((prev) => prev.map((p) => (p.id === permit.id ? { ...p, ...saved } : p)))
+        const previous = permits.find((p) => p.id === permit.id)?.inspections ?? []
+        const requested = permit.inspections.filter((i) => !previous.some((existing) => existing.id === i.id))
         toast({
-          title: "Success",
-          description: "Permit created successfully",
+          title: "Inspections Updated",
+          description:
+            requested.length > 0
+              ? requested.map((i) => `${i.type} requested for ${format(parseISO(i.scheduledDate!), "MMM d")}`).join("; ")
+              : `Saved inspection results for ${permit.number}`,
+        })
+      } catch (error) {
+        console.error("Failed to save inspections:", error)
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to save inspections",
+          variant: "destructive",
         })
       }
-      setShowPermitForm(false)
     },
-    [selectedPermit, user, selectedProject, toast]
+    [permits, toast]
+  )
+
+  const handleRenewPermit = useCallback(
+    async (permit: Permit, task: PermitRenewalTask) => {
+      const source = getDataSource()
+      try {
+        const renewed = renewPermit(permit, task)
+        const changes = { status: renewed.status, renewalDate: renewed.renewalDate, expirationDate: renewed.expirationDate, updatedAt: renewed.updatedAt }
+        const saved = source.update ? await source.update("permits", permit.id, changes) : renewed
+        setPermits((prev) => prev.map((p) => (p.id === permit.id ? { ...p, ...saved } : p)))
+        toast({
+          title: "Permit Renewed",
+          description: `${permit.number} now expires ${format(parseISO(task.renewedExpirationDate.slice(0, 10)), "MMM d, yyyy")}`,
+        })
+      } catch (error) {
+        console.error("Failed to renew permit:", error)
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to renew permit",
+          variant: "destructive",
+        })
+      }
+    },
+    [toast]
   )
 
   const handleClearFilters = useCallback(() => {
@@ -662,7 +746,7 @@ export default function PermitLogPage() {
               <Card>
                 <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
                   <div className="border-b">
-                    <TabsList className="grid w-full grid-cols-6 bg-white dark:bg-slate-900 border-b border-gray-200 dark:border-slate-700" data-tour="permit-log-tabs">
+                    <TabsList className="grid w-full grid-cols-8 bg-white dark:bg-slate-900 border-b border-gray-200 dark:border-slate-700" data-tour="permit-log-tabs">
                       <TabsTrigger
                         value="overview"
                         className="data-[state=active]:bg-[#003087] data-[state=active]:text-white dark:data-[state=active]:bg-blue-600"
@@ -687,6 +771,14 @@ export default function PermitLogPage() {
                         <Users className="h-4 w-4 mr-2" />
                         Inspections ({metrics.totalInspections})
                       </TabsTrigger>
+                      <TabsTrigger
+                        value="planner"
+                        className="data-[state=active]:bg-[#003087] data-[state=active]:text-white dark:data-[state=active]:bg-blue-600"
+                        data-tour="planner-tab"
+                      >
+                        <ListChecks className="h-4 w-4 mr-2" />
+                        Planner
+                      </TabsTrigger>
                       <TabsTrigger
                         value="calendar"
                         className="data-[state=active]:bg-[#003087] data-[state=active]:text-white dark:data-[state=active]:bg-blue-600"
@@ -695,6 +787,14 @@ export default function PermitLogPage() {
                         <CalendarDays className="h-4 w-4 mr-2" />
                         Calendar
                       </TabsTrigger>
+                      <TabsTrigger
+                        value="exposure"
+                        className="data-[state=active]:bg-[#003087] data-[state=active]:text-white dark:data-[state=active]:bg-blue-600"
+                        data-tour="exposure-tab"
+                      >
+                        <ShieldAlert className="h-4 w-4 mr-2" />
+                        Exposure
+                      </TabsTrigger>
                       <TabsTrigger
                         value="analytics"
                         className="data-[state=active]:bg-[#003087] data-[state=active]:text-white dark:data-[state=active]:bg-blue-600"
@@ -784,7 +884,6 @@ export default function PermitLogPage() {
                             onEdit={handleEditPermit}
                             onView={handleViewPermit}
                             onExport={handleExportPermit}
-                            userRole={user?.role}
                             compact={true}
                           />
                         </CardContent>
@@ -834,7 +933,6 @@ export default function PermitLogPage() {
                           onEdit={handleEditPermit}
                           onView={handleViewPermit}
                           onExport={handleExportPermit}
-                          userRole={user?.role}
                         />
                       </div>
                     </CardContent>
@@ -872,13 +970,25 @@ export default function PermitLogPage() {
                           onEdit={handleEditPermit}
                           onView={handleViewPermit}
                           onExport={handleExportPermit}
-                          userRole={user?.role}
                           showInspections={true}
                         />
                       </div>
                     </CardContent>
                   </TabsContent>
 
+                  {/* Planner Tab */}
+                  <TabsContent value="planner" className="mt-0">
+                    <CardContent className="p-6">
+                      <div className="mb-4">
+                        <h2 className="text-xl font-semibold text-[#003087] dark:text-blue-400">Inspection Planner</h2>
+                        <p className="text-sm text-muted-foreground mt-1">
+                          Required inspection sequence per permit, with each authority's notice and re-inspection rules
+                        </p>
+                      </div>
+                      <InspectionPlanner permits={filteredPermits} canEdit={can("permit-log", "edit")} onSavePermit={handleSaveInspections} />
+                    </CardContent>
+                  </TabsContent>
+
                   {/* Calendar Tab */}
                   <TabsContent value="calendar" className="mt-0">
                     <CardContent className="p-6">
@@ -892,12 +1002,26 @@ export default function PermitLogPage() {
                           onEditPermit={handleEditPermit}
                           onViewPermit={handleViewPermit}
                           onCreatePermit={handleCreatePermit}
-                          userRole={user?.role}
                         />
                       </div>
                     </CardContent>
                   </TabsContent>
 
+                  {/* Exposure Tab */}
+                  <TabsContent value="exposure" className="mt-0">
+                    <CardContent className="p-6">
+                      <div className="mb-4">
+                        <h2 className="text-xl font-semibold text-[#003087] dark:text-blue-400">Portfolio Expiration Exposure</h2>
+                        <p className="text-sm text-muted-foreground mt-1">
+                          Permits at risk across all projects, escalated at {permitExpirationRules.thresholds.notice}/
+                          {permitExpirationRules.thresholds.warning}/{permitExpirationRules.thresholds.critical} days before their effective
+                          expiration
+                        </p>
+                      </div>
+                      <PermitExposure permits={portfolioPermits} canEdit={can("permit-log", "edit")} onRenewPermit={handleRenewPermit} />
+                    </CardContent>
+                  </TabsContent>
+
                   {/* Analytics Tab */}
                   <TabsContent value="analytics" className="mt-0">
                     <CardContent className="p-6">
@@ -960,7 +1084,6 @@ export default function PermitLogPage() {
           open={showPermitForm}
           onSave={handleSavePermit} 
           onClose={() => setShowPermitForm(false)}
-          userRole={user?.role}
         />
       )}
     </div>
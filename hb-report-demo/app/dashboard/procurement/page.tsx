@@ -2,6 +2,7 @@
 
 import React, { useState, useEffect, useMemo } from "react"
 import { useAuth } from "@/context/auth-context"
+import { usePermissions } from "@/hooks/use-permissions"
 import { AppHeader } from "@/components/layout/app-header"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
@@ -50,6 +51,7 @@ import { ContractTracking } from "@/components/procurement/ContractTracking"
 
 export default function ProcurementPage() {
   const { user } = useAuth()
+  const { can } = usePermissions()
   const [activeTab, setActiveTab] = useState("overview")
   const [loading, setLoading] = useState(true)
 
@@ -63,42 +65,35 @@ export default function ProcurementPage() {
         return {
           scope: "enterprise",
           projectCount: 15,
-          description: "Enterprise View - All Projects",
-          canCreate: true,
-          canApprove: true,
-          canEdit: true
+          description: "Enterprise View - All Projects"
         }
       case "project-executive":
         return {
           scope: "portfolio",
           projectCount: 6,
-          description: "Portfolio View - 6 Projects",
-          canCreate: true,
-          canApprove: true,
-          canEdit: true
+          description: "Portfolio View - 6 Projects"
         }
       case "project-manager":
         return {
           scope: "single",
           projectCount: 1,
-          description: "Single Project View",
-          canCreate: true,
-          canApprove: false,
-          canEdit: true
+          description: "Single Project View"
         }
       default:
         return {
           scope: "limited",
           projectCount: 1,
-          description: "Limited View",
-          canCreate: false,
-          canApprove: false,
-          canEdit: false
+          description: "Limited View"
         }
     }
   }
 
-  const dataScope = getDataScope()
+  const dataScope = {
+    ...getDataScope(),
+    canCreate: can("procurement", "create"),
+    canApprove: can("procurement", "approve"),
+    canEdit: can("procurement", "edit"),
+  }
 
   // Simulated loading
   useEffect(() => {
@@ -42,6 +42,7 @@ import {
 } from "lucide-react"
 import { format } from "date-fns"
 import { useToast } from "@/hooks/use-toast"
+import { usePermissions } from "@/hooks/use-permissions"
 
 // Import report components
 import { ReportCreator } from "@/components/reports/ReportCreator"
@@ -51,8 +52,7 @@ import { ReportHistory } from "@/components/reports/ReportHistory"
 import { ReportAnalytics } from "@/components/reports/ReportAnalytics"
 
 // Mock data imports
-import reportsData from "@/data/mock/reports/reports.json"
-import projectsData from "@/data/mock/projects.json"
+import { getDataSource } from "@/lib/data"
 
 interface Report {
   id: string
@@ -103,6 +103,7 @@ interface RecentActivity {
 
 export default function ReportsPage() {
   const { user } = useAuth()
+  const { can } = usePermissions()
   const { toast } = useToast()
 
   // State management
@@ -173,11 +174,10 @@ export default function ReportsPage() {
     try {
       setIsLoading(true)
       
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      
-      // Transform mock data
-      const transformedReports: Report[] = reportsData.reports.map(report => ({
+      const source = getDataSource()
+      const [reportsData, projectsData] = await Promise.all([source.list("reports"), source.list("projects")])
+
+      const transformedReports: Report[] = reportsData.map(report => ({
         ...report,
         projectName: projectsData.find(p => p.project_id.toString() === report.projectId)?.name || "Unknown Project"
       }))
@@ -425,7 +425,7 @@ export default function ReportsPage() {
             <Download className="h-4 w-4 mr-2" />
             Export
           </Button>
-          {user?.role === "project-manager" && (
+          {can("reports", "create") && (
             <Button onClick={() => handleCreateReport()} className="bg-[#FF6B35] hover:bg-[#E55A2B]">
               <Plus className="h-4 w-4 mr-2" />
               Create Report
@@ -729,7 +729,6 @@ export default function ReportsPage() {
               <ReportViewer
                 report={selectedReport}
                 onClose={() => setShowReportViewer(false)}
-                userRole={user?.role || "project-manager"}
               />
             </div>
           </div>
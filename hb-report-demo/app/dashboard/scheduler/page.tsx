@@ -19,7 +19,8 @@ import {
   CheckCircle,
   Brain,
   Target,
-  Clock
+  Clock,
+  Dice5
 } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -30,6 +31,7 @@ import { AppHeader } from "@/components/layout/app-header";
 import SchedulerOverview from "@/components/scheduler/SchedulerOverview";
 import ScheduleMonitor from "@/components/scheduler/ScheduleMonitor";
 import HealthAnalysis from "@/components/scheduler/HealthAnalysis";
+import RiskAnalysis from "@/components/scheduler/RiskAnalysis";
 import LookAhead from "@/components/scheduler/LookAhead";
 import ScheduleGenerator from "@/components/scheduler/ScheduleGenerator";
 
@@ -113,6 +115,13 @@ export default function SchedulerPage() {
       description: "Deep schedule logic analysis including ties, errors, and gaps",
       component: HealthAnalysis,
     },
+    {
+      id: "risk-analysis",
+      label: "Risk Analysis",
+      icon: Dice5,
+      description: "Monte Carlo finish-date probabilities and the activities driving schedule risk",
+      component: RiskAnalysis,
+    },
     {
       id: "look-ahead",
       label: "Look Ahead",
@@ -264,7 +273,7 @@ export default function SchedulerPage() {
         {/* Scheduler Modules */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
           {/* Tab Navigation */}
-          <TabsList className="grid w-full grid-cols-5 h-12 bg-muted border-border" data-tour="scheduler-tabs">
+          <TabsList className="grid w-full grid-cols-6 h-12 bg-muted border-border" data-tour="scheduler-tabs">
             {availableModules.map((module) => (
               <TabsTrigger
                 key={module.id}
@@ -204,7 +204,9 @@ export default function LoginPage() {
         title: "Welcome back!",
         description: "Successfully logged in to HB Report Platform.",
       })
-      router.push(redirectTo)
+      // Return to the page the route guard sent us from, if any
+      const next = new URLSearchParams(window.location.search).get("next")
+      router.push(next && next.startsWith("/") && !next.startsWith("//") ? next : redirectTo)
     } catch (error) {
       toast({
         title: "Login failed",
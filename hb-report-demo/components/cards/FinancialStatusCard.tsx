@@ -1,9 +1,11 @@
 "use client";
 
 import { useState } from "react";
-import { DollarSign, TrendingUp, TrendingDown, Percent, BarChart3, ChevronRight, CreditCard } from "lucide-react";
+import { DollarSign, TrendingUp, TrendingDown, Percent, BarChart3, ChevronRight, CreditCard, Target } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { useProjectContext } from "@/context/project-context";
+import { useEarnedValue } from "@/hooks/use-earned-value";
 
 interface FinancialStatusCardProps {
   config?: any;
@@ -14,6 +16,8 @@ interface FinancialStatusCardProps {
 
 export default function FinancialStatusCard({ config, span, isCompact, userRole }: FinancialStatusCardProps) {
   const [isHovered, setIsHovered] = useState(false);
+  const { projectId } = useProjectContext();
+  const { totals: evm } = useEarnedValue(projectId);
   
   // Role-based data filtering
   const getDataByRole = () => {
@@ -110,6 +114,11 @@ export default function FinancialStatusCard({ config, span, isCompact, userRole
     return variance >= 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400";
   };
 
+  const getIndexColor = (value: number | null) => {
+    if (value === null) return "text-muted-foreground";
+    return value >= 1 ? "text-green-600 dark:text-green-400" : value >= 0.95 ? "text-yellow-600 dark:text-yellow-400" : "text-red-600 dark:text-red-400";
+  };
+
   return (
     <div 
       className="h-full flex flex-col bg-gradient-to-br from-green-50/80 to-emerald-50/80 dark:from-green-950/40 dark:to-emerald-950/40 overflow-hidden relative transition-all duration-300 backdrop-blur-sm"
@@ -197,6 +206,32 @@ export default function FinancialStatusCard({ config, span, isCompact, userRole
           </div>
         </div>
 
+        {/* Earned Value Performance */}
+        {evm.budgetAtCompletion > 0 && (
+          <div className="bg-white/60 dark:bg-black/60 rounded-lg p-1.5 sm:p-2 lg:p-2.5 border border-green-200 dark:border-green-800">
+            <div className="flex items-center gap-2 mb-2">
+              <Target className="h-4 w-4 text-green-600 dark:text-green-400" />
+              <span className="text-sm font-medium text-foreground">Cost & Schedule Performance</span>
+            </div>
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div>
+                <div className={`text-sm font-bold ${getIndexColor(evm.cpi)}`}>{evm.cpi?.toFixed(2) ?? "—"}</div>
+                <div className="text-xs text-muted-foreground">CPI</div>
+              </div>
+              <div>
+                <div className={`text-sm font-bold ${getIndexColor(evm.spi)}`}>{evm.spi?.toFixed(2) ?? "—"}</div>
+                <div className="text-xs text-muted-foreground">SPI</div>
+              </div>
+              <div>
+                <div className={`text-sm font-bold ${getProfitChangeColor(evm.varianceAtCompletion)}`}>
+                  ${(evm.eac.cpi / 1000000).toFixed(1)}M
+                </div>
+                <div className="text-xs text-muted-foreground">EAC</div>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Financial Health */}
         <div className="bg-white/60 dark:bg-black/60 rounded-lg p-1.5 sm:p-2 lg:p-2.5 border border-green-200 dark:border-green-800">
           <div className="flex items-center gap-2 mb-2">
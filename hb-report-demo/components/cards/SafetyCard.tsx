@@ -4,6 +4,8 @@ import { useState } from "react";
 import { Shield, AlertTriangle, ChevronRight, Clock, Users, TrendingDown } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import { useProjectContext } from "@/context/project-context";
+import { useSafetyRates } from "@/hooks/use-safety-rates";
 
 interface SafetyCardProps {
   config?: any;
@@ -14,6 +16,9 @@ interface SafetyCardProps {
 
 export default function SafetyCard({ config, span, isCompact, userRole }: SafetyCardProps) {
   const [isHovered, setIsHovered] = useState(false);
+  const { projectId } = useProjectContext();
+  // TRIR/DART from the incident log over the hours on the daily logs
+  const { rates, lastRecordable, daysWithoutRecordable } = useSafetyRates(projectId);
   
   // Role-based data filtering
   const getDataByRole = () => {
@@ -26,8 +31,6 @@ export default function SafetyCard({ config, span, isCompact, userRole }: Safety
           closedInspections: 37,
           safetyScore: 91.2,
           atRiskItems: 3,
-          incidentRate: 0.0,
-          daysWithoutIncident: 124,
           tradeBreakdown: {
             concrete: 12,
             electrical: 8,
@@ -39,7 +42,6 @@ export default function SafetyCard({ config, span, isCompact, userRole }: Safety
             safestTrade: { name: "Concrete", score: 95.8 },
             riskiestTrade: { name: "Flooring", score: 86.3 },
             recentInspection: "Safety Audit - Electrical",
-            lastIncident: "None",
             safetyTrend: "Excellent",
             upcomingAudits: 3
           }
@@ -52,8 +54,6 @@ export default function SafetyCard({ config, span, isCompact, userRole }: Safety
           closedInspections: 213,
           safetyScore: 88.5,
           atRiskItems: 12,
-          incidentRate: 0.8,
-          daysWithoutIncident: 45,
           tradeBreakdown: {
             concrete: 52,
             electrical: 38,
@@ -67,7 +67,6 @@ export default function SafetyCard({ config, span, isCompact, userRole }: Safety
             safestTrade: { name: "HVAC", score: 94.2 },
             riskiestTrade: { name: "Steel", score: 82.1 },
             recentInspection: "Safety Audit - Steel Work",
-            lastIncident: "Minor - Hand injury",
             safetyTrend: "Good",
             upcomingAudits: 12
           }
@@ -80,8 +79,6 @@ export default function SafetyCard({ config, span, isCompact, userRole }: Safety
           closedInspections: 417,
           safetyScore: 86.8,
           atRiskItems: 25,
-          incidentRate: 1.2,
-          daysWithoutIncident: 28,
           tradeBreakdown: {
             concrete: 85,
             electrical: 72,
@@ -97,7 +94,6 @@ export default function SafetyCard({ config, span, isCompact, userRole }: Safety
             safestTrade: { name: "HVAC", score: 93.5 },
             riskiestTrade: { name: "Roofing", score: 79.8 },
             recentInspection: "Safety Audit - Roofing Work",
-            lastIncident: "OSHA Recordable - Fall protection",
             safetyTrend: "Needs Improvement",
             upcomingAudits: 24
           }
@@ -117,12 +113,22 @@ export default function SafetyCard({ config, span, isCompact, userRole }: Safety
     return "text-red-600 dark:text-red-400";
   };
 
-  const getIncidentRateColor = (rate: number) => {
+  // Construction runs near 3.0 recordables per 200,000 hours
+  const getIncidentRateColor = (rate: number | null) => {
+    if (rate === null) return "text-muted-foreground";
     if (rate === 0) return "text-green-600 dark:text-green-400";
-    if (rate <= 1.0) return "text-yellow-600 dark:text-yellow-400";
+    if (rate <= 3.0) return "text-yellow-600 dark:text-yellow-400";
     return "text-red-600 dark:text-red-400";
   };
 
+  const getIncidentRateBadge = (rate: number | null) => {
+    if (rate === null) return 'bg-gray-100 text-gray-700';
+    if (rate === 0) return 'bg-green-100 text-green-700';
+    return rate <= 3.0 ? 'bg-yellow-100 text-yellow-700' : 'bg-red-100 text-red-700';
+  };
+
+  const formatRate = (rate: number | null) => (rate === null ? "—" : rate.toFixed(2));
+
   const getRiskLevelColor = (count: number) => {
     if (count <= 5) return "text-green-600 dark:text-green-400";
     if (count <= 15) return "text-yellow-600 dark:text-yellow-400";
@@ -143,8 +149,8 @@ export default function SafetyCard({ config, span, isCompact, userRole }: Safety
             <div className="text-xs text-red-600 dark:text-red-400">Safety Score</div>
           </div>
           <div className="text-center">
-            <div className={`text-sm sm:text-base lg:text-sm sm:text-base lg:text-lg font-medium ${getIncidentRateColor(data.incidentRate)}`}>{data.incidentRate}</div>
-            <div className="text-xs text-orange-600">Incident Rate</div>
+            <div className={`text-sm sm:text-base lg:text-sm sm:text-base lg:text-lg font-medium ${getIncidentRateColor(rates.trir)}`}>{formatRate(rates.trir)}</div>
+            <div className="text-xs text-orange-600">TRIR</div>
           </div>
         </div>
       </div>
@@ -159,17 +165,25 @@ export default function SafetyCard({ config, span, isCompact, userRole }: Safety
           </div>
           <div className="space-y-1">
             <div className="flex justify-between text-xs">
-              <span className="text-muted-foreground">Days Without Incident</span>
-              <span className={`font-medium ${data.daysWithoutIncident >= 90 ? 'text-green-600 dark:text-green-400' : data.daysWithoutIncident >= 30 ? 'text-yellow-600 dark:text-yellow-400' : 'text-red-600 dark:text-red-400'}`}>
-                {data.daysWithoutIncident}
+              <span className="text-muted-foreground">Days Without Recordable</span>
+              <span className={`font-medium ${daysWithoutRecordable === null || daysWithoutRecordable >= 90 ? 'text-green-600 dark:text-green-400' : daysWithoutRecordable >= 30 ? 'text-yellow-600 dark:text-yellow-400' : 'text-red-600 dark:text-red-400'}`}>
+                {daysWithoutRecordable ?? "No recordables"}
               </span>
             </div>
             <div className="flex justify-between text-xs">
-              <span className="text-muted-foreground">Incident Rate</span>
-              <Badge className={`${getIncidentRateColor(data.incidentRate) === 'text-green-600 dark:text-green-400' ? 'bg-green-100 text-green-700' : 
-                getIncidentRateColor(data.incidentRate) === 'text-yellow-600 dark:text-yellow-400' ? 'bg-yellow-100 text-yellow-700' : 'bg-red-100 text-red-700'}`}>
-                {data.incidentRate}%
-              </Badge>
+              <span className="text-muted-foreground">TRIR</span>
+              <Badge className={getIncidentRateBadge(rates.trir)}>{formatRate(rates.trir)}</Badge>
+            </div>
+            <div className="flex justify-between text-xs">
+              <span className="text-muted-foreground">DART Rate</span>
+              <Badge className={getIncidentRateBadge(rates.dart)}>{formatRate(rates.dart)}</Badge>
+            </div>
+            <div className="flex justify-between text-xs">
+              <span className="text-muted-foreground">Near Misses / First Aid</span>
+              <span className="font-medium">{rates.nearMisses} / {rates.firstAidCases}</span>
+            </div>
+            <div className="text-[10px] text-muted-foreground">
+              {rates.recordables} recordable{rates.recordables === 1 ? "" : "s"} over {rates.hours.toLocaleString()} logged hours
             </div>
           </div>
         </div>
@@ -276,8 +290,10 @@ export default function SafetyCard({ config, span, isCompact, userRole }: Safety
               <div className="text-xs font-medium text-red-200 mb-2">Safety Status</div>
               <div className="space-y-1 text-xs">
                 <div className="flex justify-between">
-                  <span className="text-red-300">Last Incident:</span>
-                  <span className="font-medium">{data.drillDown.lastIncident}</span>
+                  <span className="text-red-300">Last Recordable:</span>
+                  <span className="font-medium">
+                    {lastRecordable ? `${lastRecordable.injury ?? lastRecordable.trade} (${lastRecordable.occurredOn})` : "None"}
+                  </span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-red-300">Trend:</span>
@@ -0,0 +1,357 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertTriangle, ArrowDown, ArrowUp, Camera, ClipboardList, Plus, RotateCcw, Save, Trash2 } from "lucide-react"
+import type { ChecklistKind, ChecklistQuestion, ChecklistSection, ChecklistTemplate } from "@/types/checklists"
+import {
+  MAX_QUESTION_WEIGHT,
+  MIN_QUESTION_WEIGHT,
+  blankTemplate,
+  checklistKindLabels,
+  templateQuestions,
+  validateTemplate,
+} from "@/lib/field-reports/checklists"
+
+const weights = Array.from({ length: MAX_QUESTION_WEIGHT - MIN_QUESTION_WEIGHT + 1 }, (_, i) => MIN_QUESTION_WEIGHT + i)
+
+const newId = (prefix: string) => `${prefix}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`
+
+// Swaps an entry with its neighbour; out-of-range moves leave the list as is
+function move<T>(list: T[], index: number, offset: number) {
+  const target = index + offset
+  if (target < 0 || target >= list.length) return list
+  const next = [...list]
+  ;[next[index], next[target]] = [next[target], next[index]]
+  return next
+}
+
+interface ChecklistTemplateBuilderProps {
+  templates: ChecklistTemplate[]
+  author: string
+  canEdit: boolean
+  onSave: (template: ChecklistTemplate, isNew: boolean) => Promise<void>
+}
+
+export function ChecklistTemplateBuilder({ templates, author, canEdit, onSave }: ChecklistTemplateBuilderProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(templates[0]?.id ?? null)
+  const [draft, setDraft] = useState<ChecklistTemplate | null>(null)
+  const [isNew, setIsNew] = useState(false)
+  const [issues, setIssues] = useState<string[]>([])
+  const [saving, setSaving] = useState(false)
+
+  const selected = templates.find((template) => template.id === selectedId) ?? null
+
+  useEffect(() => {
+    if (isNew) return
+    setDraft(selected)
+    setIssues([])
+  }, [selected, isNew])
+
+  useEffect(() => {
+    if (!selectedId && templates.length > 0) setSelectedId(templates[0].id)
+  }, [selectedId, templates])
+
+  const totalWeight = useMemo(() => (draft ? templateQuestions(draft).reduce((sum, item) => sum + item.weight, 0) : 0), [draft])
+
+  const update = (changes: Partial<ChecklistTemplate>) => setDraft((prev) => (prev ? { ...prev, ...changes } : prev))
+
+  const updateSections = (change: (sections: ChecklistSection[]) => ChecklistSection[]) =>
+    setDraft((prev) => (prev ? { ...prev, sections: change(prev.sections) } : prev))
+
+  const updateSection = (sectionId: string, changes: Partial<ChecklistSection>) =>
+    updateSections((sections) => sections.map((section) => (section.id === sectionId ? { ...section, ...changes } : section)))
+
+  const updateItems = (sectionId: string, change: (items: ChecklistQuestion[]) => ChecklistQuestion[]) =>
+    updateSections((sections) => sections.map((section) => (section.id === sectionId ? { ...section, items: change(section.items) } : section)))
+
+  const updateItem = (sectionId: string, itemId: string, changes: Partial<ChecklistQuestion>) =>
+    updateItems(sectionId, (items) => items.map((item) => (item.id === itemId ? { ...item, ...changes } : item)))
+
+  const startNew = (kind: ChecklistKind) => {
+    setIsNew(true)
+    setSelectedId(null)
+    setIssues([])
+    setDraft(blankTemplate(kind, author))
+  }
+
+  const cancel = () => {
+    setIsNew(false)
+    setSelectedId(selectedId ?? templates[0]?.id ?? null)
+    setDraft(selected)
+    setIssues([])
+  }
+
+  const save = async () => {
+    if (!draft) return
+    const template = { ...draft, inspectionType: draft.inspectionType.trim(), updatedBy: author, updatedAt: new Date().toISOString() }
+    const problems = validateTemplate(template, templates)
+    if (problems.length > 0) {
+      setIssues(problems)
+      return
+    }
+    setSaving(true)
+    try {
+      await onSave(template, isNew)
+      setIsNew(false)
+      setSelectedId(template.id)
+      setIssues([])
+    } catch (error) {
+      setIssues([error instanceof Error ? error.message : "Failed to save the template"])
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+      <Card className="lg:col-span-1">
+        <CardHeader>
+          <CardTitle className="text-[#003087] dark:text-white text-base">Templates</CardTitle>
+          <CardDescription>Inspections score against the template for their type</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {(["safety", "quality"] as ChecklistKind[]).map((kind) => (
+            <div key={kind} className="space-y-1">
+              <div className="text-xs font-medium uppercase text-muted-foreground">{checklistKindLabels[kind]}</div>
+              {templates
+                .filter((template) => template.kind === kind)
+                .map((template) => (
+                  <button
+                    key={template.id}
+                    type="button"
+                    onClick={() => {
+                      setIsNew(false)
+                      setSelectedId(template.id)
+                    }}
+                    className={`w-full rounded px-2 py-1.5 text-left text-sm hover:bg-muted ${
+                      template.id === selectedId && !isNew ? "bg-muted font-medium" : ""
+                    }`}
+                  >
+                    {template.name}
+                    <div className="text-xs text-muted-foreground">{templateQuestions(template).length} questions</div>
+                  </button>
+                ))}
+            </div>
+          ))}
+          {canEdit && (
+            <div className="flex flex-col gap-2">
+              <Button variant="outline" size="sm" onClick={() => startNew("safety")}>
+                <Plus className="h-4 w-4 mr-2" />
+                Safety Template
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => startNew("quality")}>
+                <Plus className="h-4 w-4 mr-2" />
+                QA/QC Template
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="lg:col-span-3">
+        {!draft ? (
+          <CardContent className="py-12 text-center text-muted-foreground">
+            <ClipboardList className="mx-auto mb-2 h-8 w-8" />
+            Select a template to edit
+          </CardContent>
+        ) : (
+          <>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="text-[#003087] dark:text-white">{draft.name || "New Template"}</CardTitle>
+                  <CardDescription>
+                    {checklistKindLabels[draft.kind]} · {templateQuestions(draft).length} questions · total weight {totalWeight}
+                    {!isNew && ` · updated by ${draft.updatedBy}`}
+                  </CardDescription>
+                </div>
+                {canEdit && (
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={cancel} disabled={saving}>
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      {isNew ? "Cancel" : "Reset"}
+                    </Button>
+                    <Button size="sm" onClick={save} disabled={saving} className="bg-[#FF6B35] hover:bg-[#E55A2B] text-white">
+                      <Save className="h-4 w-4 mr-2" />
+                      Save Template
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {issues.length > 0 && (
+                <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700 dark:border-red-900 dark:bg-red-950 dark:text-red-300">
+                  {issues.map((issue) => (
+                    <div key={issue} className="flex items-center gap-2">
+                      <AlertTriangle className="h-4 w-4 shrink-0" />
+                      {issue}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <fieldset disabled={!canEdit} className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <div className="space-y-2">
+                    <Label>Name</Label>
+                    <Input value={draft.name} onChange={(e) => update({ name: e.target.value })} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Inspection Type</Label>
+                    <Input value={draft.inspectionType} onChange={(e) => update({ inspectionType: e.target.value })} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Spec Section</Label>
+                    <Input
+                      placeholder="e.g. 03 30 00"
+                      value={draft.specSection ?? ""}
+                      onChange={(e) => update({ specSection: e.target.value || undefined })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Days to Correct</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={draft.correctionDays}
+                      onChange={(e) => update({ correctionDays: Number(e.target.value) || 0 })}
+                    />
+                  </div>
+                </div>
+
+                {draft.sections.map((section, sectionIndex) => {
+                  const sectionWeight = section.items.reduce((sum, item) => sum + item.weight, 0)
+                  return (
+                    <div key={section.id} className="space-y-3 rounded-lg border p-4">
+                      <div className="flex items-center gap-2">
+                        <Input
+                          className="font-medium"
+                          placeholder="Section title"
+                          value={section.title}
+                          onChange={(e) => updateSection(section.id, { title: e.target.value })}
+                        />
+                        <Badge variant="outline" className="shrink-0">
+                          {totalWeight > 0 ? Math.round((sectionWeight / totalWeight) * 100) : 0}% of score
+                        </Badge>
+                        <Button variant="ghost" size="icon" onClick={() => updateSections((sections) => move(sections, sectionIndex, -1))}>
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => updateSections((sections) => move(sections, sectionIndex, 1))}>
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => updateSections((sections) => sections.filter((s) => s.id !== section.id))}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+
+                      {section.items.map((item, itemIndex) => (
+                        <div key={item.id} className="grid grid-cols-12 gap-2 items-center pl-4">
+                          <Input
+                            className="col-span-4"
+                            placeholder="Question"
+                            value={item.question}
+                            onChange={(e) => updateItem(section.id, item.id, { question: e.target.value })}
+                          />
+                          <div className="col-span-1">
+                            <Select
+                              value={String(item.weight)}
+                              onValueChange={(value) => updateItem(section.id, item.id, { weight: Number(value) })}
+                            >
+                              <SelectTrigger title="Weight">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {weights.map((weight) => (
+                                  <SelectItem key={weight} value={String(weight)}>
+                                    ×{weight}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <Input
+                            className="col-span-2"
+                            placeholder="Spec section"
+                            value={item.specSection ?? ""}
+                            onChange={(e) => updateItem(section.id, item.id, { specSection: e.target.value || undefined })}
+                          />
+                          <Input
+                            className="col-span-3"
+                            placeholder="Verification step"
+                            value={item.verificationStep ?? ""}
+                            onChange={(e) => updateItem(section.id, item.id, { verificationStep: e.target.value || undefined })}
+                          />
+                          <div className="col-span-1 flex items-center gap-1" title="Photo required">
+                            <Switch
+                              checked={item.requiresPhoto}
+                              onCheckedChange={(requiresPhoto) => updateItem(section.id, item.id, { requiresPhoto })}
+                            />
+                            <Camera className="h-4 w-4 text-muted-foreground" />
+                          </div>
+                          <div className="col-span-1 flex">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => updateItems(section.id, (items) => move(items, itemIndex, -1))}
+                            >
+                              <ArrowUp className="h-3 w-3" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => updateItems(section.id, (items) => items.filter((i) => i.id !== item.id))}
+                            >
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="ml-4"
+                        onClick={() =>
+                          updateItems(section.id, (items) => [
+                            ...items,
+                            { id: newId(draft.id), question: "", weight: 3, requiresPhoto: false },
+                          ])
+                        }
+                      >
+                        <Plus className="h-4 w-4 mr-2" />
+                        Add Question
+                      </Button>
+                    </div>
+                  )
+                })}
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateSections((sections) => [...sections, { id: newId(draft.id), title: "", items: [] }])}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Section
+                </Button>
+              </fieldset>
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  )
+}
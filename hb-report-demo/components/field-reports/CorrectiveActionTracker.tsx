@@ -0,0 +1,358 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { format, parseISO } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { AlertTriangle, Camera, CheckCircle, Clock, Search, ShieldCheck, Wrench } from "lucide-react"
+import type { CorrectiveAction, CorrectiveActionPhoto } from "@/types/checklists"
+import {
+  checklistKindLabels,
+  completeCorrectiveAction,
+  correctiveActionSummary,
+  isCorrectiveActionOverdue,
+  validateCorrection,
+  verifyCorrectiveAction,
+} from "@/lib/field-reports/checklists"
+
+const PAGE_SIZE = 50
+
+const readPhoto = (file: File) =>
+  new Promise<CorrectiveActionPhoto>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve({ name: file.name, dataUrl: String(reader.result) })
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+
+interface CorrectiveActionTrackerProps {
+  actions: CorrectiveAction[]
+  author: string
+  canEdit: boolean
+  canVerify: boolean
+  onSave: (action: CorrectiveAction) => Promise<void>
+}
+
+export function CorrectiveActionTracker({ actions, author, canEdit, canVerify, onSave }: CorrectiveActionTrackerProps) {
+  const [status, setStatus] = useState("open")
+  const [kind, setKind] = useState("all")
+  const [search, setSearch] = useState("")
+  const [working, setWorking] = useState<{ action: CorrectiveAction; step: "complete" | "verify" } | null>(null)
+  const [notes, setNotes] = useState("")
+  const [photo, setPhoto] = useState<CorrectiveActionPhoto | undefined>()
+  const [issues, setIssues] = useState<string[]>([])
+
+  const today = new Date()
+  const summary = useMemo(() => correctiveActionSummary(actions), [actions])
+
+  const filtered = useMemo(() => {
+    const query = search.toLowerCase()
+    const now = new Date()
+    return actions
+      .filter((action) =>
+        status === "all" ? true : status === "overdue" ? isCorrectiveActionOverdue(action, now) : action.status === status,
+      )
+      .filter((action) => kind === "all" || action.kind === kind)
+      .filter(
+        (action) =>
+          !query ||
+          [action.question, action.projectName, action.owner, action.location, action.specSection ?? ""].some((text) =>
+            text.toLowerCase().includes(query),
+          ),
+      )
+      .sort((a, b) => a.dueDate.localeCompare(b.dueDate))
+  }, [actions, status, kind, search])
+
+  const save = async (action: CorrectiveAction) => {
+    if (!action.owner.trim()) {
+      setIssues(["Assign an owner before saving the corrective action"])
+      return false
+    }
+    try {
+      await onSave(action)
+      setIssues([])
+      return true
+    } catch (error) {
+      setIssues([error instanceof Error ? error.message : "Failed to save the corrective action"])
+      return false
+    }
+  }
+
+  const open = (action: CorrectiveAction, step: "complete" | "verify") => {
+    setWorking({ action, step })
+    setNotes("")
+    setPhoto(undefined)
+    setIssues([])
+  }
+
+  const complete = async () => {
+    if (!working) return
+    const problems = validateCorrection(working.action, notes, photo)
+    const next = completeCorrectiveAction(working.action, author, notes, photo)
+    if (!next) {
+      setIssues(problems)
+      return
+    }
+    if (await save(next)) setWorking(null)
+  }
+
+  const verify = async (accepted: boolean) => {
+    if (!working) return
+    const next = verifyCorrectiveAction(working.action, author, accepted, notes)
+    if (!next) {
+      setIssues(["The person who completed the correction can't verify it"])
+      return
+    }
+    if (await save(next)) setWorking(null)
+  }
+
+  const statusBadge = (action: CorrectiveAction) => {
+    if (isCorrectiveActionOverdue(action, today)) {
+      return <Badge className="bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300">overdue</Badge>
+    }
+    const styles = {
+      open: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300",
+      completed: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300",
+      verified: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+    }
+    return <Badge className={styles[action.status]}>{action.status === "completed" ? "awaiting verification" : action.status}</Badge>
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: "Open", value: summary.open, icon: Wrench, color: "text-yellow-600" },
+          { label: "Overdue", value: summary.overdue, icon: AlertTriangle, color: "text-red-600" },
+          { label: "Awaiting Verification", value: summary.awaitingVerification, icon: Clock, color: "text-blue-600" },
+          { label: "Verified", value: summary.verified, icon: ShieldCheck, color: "text-green-600" },
+        ].map(({ label, value, icon: Icon, color }) => (
+          <Card key={label}>
+            <CardContent className="flex items-center justify-between p-4">
+              <div>
+                <div className="text-2xl font-bold text-[#003087] dark:text-white">{value}</div>
+                <div className="text-xs text-muted-foreground">{label}</div>
+              </div>
+              <Icon className={`h-6 w-6 ${color}`} />
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 p-4 bg-muted/50 rounded-lg">
+        <div className="relative min-w-64">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+          <Input placeholder="Search corrective actions..." value={search} onChange={(e) => setSearch(e.target.value)} className="pl-10" />
+        </div>
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Statuses</SelectItem>
+            <SelectItem value="open">Open</SelectItem>
+            <SelectItem value="overdue">Overdue</SelectItem>
+            <SelectItem value="completed">Awaiting Verification</SelectItem>
+            <SelectItem value="verified">Verified</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={kind} onValueChange={setKind}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Safety & QA/QC</SelectItem>
+            <SelectItem value="safety">Safety</SelectItem>
+            <SelectItem value="quality">QA/QC</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {!working && issues.length > 0 && (
+        <div className="flex items-center gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700 dark:border-red-900 dark:bg-red-950 dark:text-red-300">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          {issues.join("; ")}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-[#003087] dark:text-white">Corrective Actions</CardTitle>
+          <CardDescription>
+            Every failed checklist item, tracked to completion and verification
+            {filtered.length > PAGE_SIZE && ` · showing ${PAGE_SIZE} of ${filtered.length}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead>Project</TableHead>
+                <TableHead>Raised</TableHead>
+                <TableHead>Owner</TableHead>
+                <TableHead>Due</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-32"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filtered.slice(0, PAGE_SIZE).map((action) => (
+                <TableRow key={action.id}>
+                  <TableCell className="max-w-xs">
+                    <div className="font-medium text-sm">{action.question}</div>
+                    <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                      {checklistKindLabels[action.kind]}
+                      {action.specSection && <Badge variant="outline" className="text-[10px]">Spec {action.specSection}</Badge>}
+                      {action.requiresPhoto && <Camera className="h-3 w-3" />}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="text-sm">{action.projectName}</div>
+                    <div className="text-xs text-muted-foreground">{action.location}</div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="text-sm">{format(parseISO(action.raisedOn), "MMM dd, yyyy")}</div>
+                    <div className="text-xs text-muted-foreground">{action.raisedBy}</div>
+                  </TableCell>
+                  <TableCell>
+                    {action.status === "open" && canEdit ? (
+                      <Input
+                        className="h-8 w-40"
+                        defaultValue={action.owner}
+                        placeholder="Assign an owner"
+                        onBlur={(e) => e.target.value !== action.owner && save({ ...action, owner: e.target.value, updatedAt: new Date().toISOString() })}
+                      />
+                    ) : (
+                      action.owner
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {action.status === "open" && canEdit ? (
+                      <Input
+                        type="date"
+                        className="h-8 w-36"
+                        value={action.dueDate}
+                        onChange={(e) => e.target.value && save({ ...action, dueDate: e.target.value, updatedAt: new Date().toISOString() })}
+                      />
+                    ) : (
+                      format(parseISO(action.dueDate), "MMM dd, yyyy")
+                    )}
+                  </TableCell>
+                  <TableCell>{statusBadge(action)}</TableCell>
+                  <TableCell>
+                    {action.status === "open" && canEdit && (
+                      <Button variant="outline" size="sm" onClick={() => open(action, "complete")}>
+                        <Wrench className="h-4 w-4 mr-1" />
+                        Complete
+                      </Button>
+                    )}
+                    {action.status === "completed" && canVerify && (
+                      <Button variant="outline" size="sm" onClick={() => open(action, "verify")}>
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        Verify
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {filtered.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="py-8 text-center text-muted-foreground">
+                    No corrective actions match
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!working} onOpenChange={(isOpen) => !isOpen && setWorking(null)}>
+        {working && (
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{working.step === "complete" ? "Complete Corrective Action" : "Verify Corrective Action"}</DialogTitle>
+              <DialogDescription>{working.action.question}</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="rounded-md bg-muted/50 p-3 text-sm">
+                <div className="text-xs font-medium text-muted-foreground">Verification step</div>
+                {working.action.verificationStep}
+              </div>
+              {working.step === "verify" && (
+                <div className="space-y-2 text-sm">
+                  <div>
+                    <span className="text-muted-foreground">Corrected by </span>
+                    {working.action.completedBy}
+                    {working.action.completedAt && ` on ${format(parseISO(working.action.completedAt), "MMM dd, yyyy")}`}
+                  </div>
+                  <p>{working.action.correctionNotes}</p>
+                  {working.action.photo && (
+                    <img src={working.action.photo.dataUrl} alt={working.action.photo.name} className="max-h-48 rounded object-cover" />
+                  )}
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>{working.step === "complete" ? "Correction made" : "Verification notes"}</Label>
+                <Textarea rows={3} value={notes} onChange={(e) => setNotes(e.target.value)} />
+              </div>
+              {working.step === "complete" && (
+                <div className="space-y-2">
+                  <Label className="inline-flex cursor-pointer items-center gap-2 rounded-md border px-3 py-2 text-sm">
+                    <Camera className="h-4 w-4" />
+                    {photo ? photo.name : working.action.requiresPhoto ? "Add photo (required)" : "Add photo"}
+                    <input
+                      type="file"
+                      accept="image/*"
+                      capture="environment"
+                      className="hidden"
+                      onChange={async (e) => {
+                        const file = e.target.files?.[0]
+                        if (file) setPhoto(await readPhoto(file))
+                      }}
+                    />
+                  </Label>
+                  {photo && <img src={photo.dataUrl} alt={photo.name} className="max-h-40 rounded object-cover" />}
+                </div>
+              )}
+              {issues.length > 0 && (
+                <div className="space-y-1 text-sm text-red-600">
+                  {issues.map((issue) => (
+                    <div key={issue} className="flex items-center gap-2">
+                      <AlertTriangle className="h-4 w-4 shrink-0" />
+                      {issue}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+            <DialogFooter>
+              {working.step === "complete" ? (
+                <Button onClick={complete} className="bg-[#FF6B35] hover:bg-[#E55A2B] text-white">
+                  Mark Complete
+                </Button>
+              ) : (
+                <>
+                  <Button variant="outline" onClick={() => verify(false)}>
+                    Reject
+                  </Button>
+                  <Button onClick={() => verify(true)} className="bg-[#FF6B35] hover:bg-[#E55A2B] text-white">
+                    Verify
+                  </Button>
+                </>
+              )}
+            </DialogFooter>
+          </DialogContent>
+        )}
+      </Dialog>
+    </div>
+  )
+}
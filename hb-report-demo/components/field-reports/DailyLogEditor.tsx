@@ -0,0 +1,658 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertTriangle, Camera, Lock, Plus, Save, Send, Trash2 } from "lucide-react"
+import type { Activity, DailyLog, DelayType, WeatherReport } from "@/types/field-reports"
+import {
+  amendDailyLog,
+  dailyLogId,
+  delayTypeLabels,
+  manpowerTotals,
+  submitDailyLog,
+  validateDailyLog,
+} from "@/lib/field-reports/daily-logs"
+
+// Rows the editor adds and removes
+type RowKey = "manpowerEntries" | "weatherObservations" | "activities" | "delays" | "visitors" | "deliveries" | "photos"
+type Row<K extends RowKey> = DailyLog[K][number]
+
+// Photos are queued offline inside the log, so keep them small
+const MAX_PHOTO_BYTES = 5 * 1024 * 1024
+
+const rowId = (prefix: string) => `${prefix}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`
+
+const readDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result))
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+
+interface DailyLogEditorProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  log: DailyLog | null
+  isNew: boolean
+  author: string
+  projects: { id: string; name: string }[]
+  onSave: (log: DailyLog) => Promise<void>
+}
+
+export function DailyLogEditor({ open, onOpenChange, log, isNew, author, projects, onSave }: DailyLogEditorProps) {
+  const [draft, setDraft] = useState<DailyLog | null>(log)
+  const [amendReason, setAmendReason] = useState("")
+  const [issues, setIssues] = useState<string[]>([])
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    setDraft(log)
+    setAmendReason("")
+    setIssues([])
+  }, [log])
+
+  if (!draft) return null
+
+  const amending = draft.locked
+  const totals = manpowerTotals(draft.manpowerEntries)
+
+  const update = (changes: Partial<DailyLog>) => setDraft((prev) => (prev ? { ...prev, ...changes } : prev))
+
+  const addRow = <K extends RowKey>(key: K, row: Row<K>) =>
+    setDraft((prev) => (prev ? { ...prev, [key]: [...prev[key], row] } : prev))
+
+  const updateRow = <K extends RowKey>(key: K, id: string, changes: Partial<Row<K>>) =>
+    setDraft((prev) =>
+      prev ? { ...prev, [key]: (prev[key] as Row<K>[]).map((row) => (row.id === id ? { ...row, ...changes } : row)) } : prev,
+    )
+
+  const removeRow = (key: RowKey, id: string) =>
+    setDraft((prev) => (prev ? { ...prev, [key]: (prev[key] as { id: string }[]).filter((row) => row.id !== id) } : prev))
+
+  const updateWeather = <G extends keyof WeatherReport>(group: G, field: keyof WeatherReport[G], value: string) => {
+    const weather = draft.weatherConditions
+    if (!weather) return
+    update({ weatherConditions: { ...weather, [group]: { ...weather[group], [field]: value } } })
+  }
+
+  // Changing the project or day of a new log changes its id; saved logs keep theirs
+  const moveLog = (projectId: string, date: string) => {
+    const project = projects.find((p) => p.id === projectId)
+    update({ projectId, projectName: project?.name ?? draft.projectName, date, id: dailyLogId(projectId, date) })
+  }
+
+  const addPhotos = async (files: FileList | null) => {
+    if (!files) return
+    const rejected: string[] = []
+    for (const file of Array.from(files)) {
+      if (file.size > MAX_PHOTO_BYTES) {
+        rejected.push(`${file.name} is larger than 5 MB`)
+        continue
+      }
+      addRow("photos", { id: rowId("ph"), name: file.name, caption: "", dataUrl: await readDataUrl(file), takenAt: new Date().toISOString() })
+    }
+    setIssues(rejected)
+  }
+
+  const save = async (action: "draft" | "submit" | "amend") => {
+    const withTotals = { ...draft, ...totals }
+    let next: DailyLog | null = withTotals
+    if (action !== "draft") {
+      const problems = validateDailyLog(withTotals)
+      if (action === "amend" && !amendReason.trim()) problems.push("Give a reason for the amendment")
+      if (problems.length > 0) {
+        setIssues(problems)
+        return
+      }
+      next = action === "submit" ? submitDailyLog(withTotals, author) : amendDailyLog(withTotals, author, amendReason)
+    }
+    if (!next) return
+    setSaving(true)
+    try {
+      await onSave(next)
+      onOpenChange(false)
+    } catch (error) {
+      setIssues([error instanceof Error ? error.message : "Failed to save the daily log"])
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {isNew ? "New Daily Log" : amending ? "Amend Daily Log" : "Edit Daily Log"}
+            {amending && (
+              <Badge variant="outline" className="gap-1">
+                <Lock className="h-3 w-3" />
+                Submitted
+              </Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            {draft.projectName} · {draft.date} · {totals.totalWorkers} workers · {totals.totalHours} hours
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="flex-1 pr-4">
+          <Tabs defaultValue="general" className="space-y-4">
+            <TabsList className="grid w-full grid-cols-6">
+              <TabsTrigger value="general">General</TabsTrigger>
+              <TabsTrigger value="manpower">Manpower</TabsTrigger>
+              <TabsTrigger value="weather">Weather & Delays</TabsTrigger>
+              <TabsTrigger value="activities">Activities</TabsTrigger>
+              <TabsTrigger value="site">Visitors & Deliveries</TabsTrigger>
+              <TabsTrigger value="photos">Photos</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="general" className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Project</Label>
+                  <Select value={draft.projectId} onValueChange={(value) => moveLog(value, draft.date)} disabled={!isNew}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select project" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {projects.map((project) => (
+                        <SelectItem key={project.id} value={project.id}>
+                          {project.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Date</Label>
+                  <Input type="date" value={draft.date} onChange={(e) => moveLog(draft.projectId, e.target.value)} disabled={!isNew} />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Comments</Label>
+                <Textarea rows={4} value={draft.comments} onChange={(e) => update({ comments: e.target.value })} />
+              </div>
+              {amending && (
+                <div className="space-y-2">
+                  <Label>Reason for amendment</Label>
+                  <Textarea
+                    rows={2}
+                    value={amendReason}
+                    onChange={(e) => setAmendReason(e.target.value)}
+                    placeholder="What changed since the log was submitted, and why"
+                  />
+                  {draft.amendments.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Amended {draft.amendments.length} time{draft.amendments.length === 1 ? "" : "s"} before
+                    </p>
+                  )}
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="manpower" className="space-y-3">
+              {draft.manpowerEntries.map((entry) => (
+                <div key={entry.id} className="grid grid-cols-12 gap-2 items-end">
+                  <div className="col-span-3 space-y-1">
+                    <Label className="text-xs">Company</Label>
+                    <Input value={entry.contactCompany} onChange={(e) => updateRow("manpowerEntries", entry.id, { contactCompany: e.target.value })} />
+                  </div>
+                  <div className="col-span-2 space-y-1">
+                    <Label className="text-xs">Trade</Label>
+                    <Input value={entry.trade} onChange={(e) => updateRow("manpowerEntries", entry.id, { trade: e.target.value })} />
+                  </div>
+                  <div className="col-span-1 space-y-1">
+                    <Label className="text-xs">Workers</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={entry.workers}
+                      onChange={(e) => {
+                        const workers = Number(e.target.value) || 0
+                        updateRow("manpowerEntries", entry.id, { workers, totalHours: workers * entry.hours })
+                      }}
+                    />
+                  </div>
+                  <div className="col-span-1 space-y-1">
+                    <Label className="text-xs">Hours</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={entry.hours}
+                      onChange={(e) => {
+                        const hours = Number(e.target.value) || 0
+                        updateRow("manpowerEntries", entry.id, { hours, totalHours: entry.workers * hours })
+                      }}
+                    />
+                  </div>
+                  <div className="col-span-2 space-y-1">
+                    <Label className="text-xs">Location</Label>
+                    <Input value={entry.location} onChange={(e) => updateRow("manpowerEntries", entry.id, { location: e.target.value })} />
+                  </div>
+                  <div className="col-span-2 space-y-1">
+                    <Label className="text-xs">Comments</Label>
+                    <Input value={entry.comments} onChange={(e) => updateRow("manpowerEntries", entry.id, { comments: e.target.value })} />
+                  </div>
+                  <Button variant="ghost" size="icon" onClick={() => removeRow("manpowerEntries", entry.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  addRow("manpowerEntries", {
+                    id: rowId("mp"),
+                    contactCompany: "",
+                    workers: 0,
+                    hours: 8,
+                    totalHours: 0,
+                    location: "",
+                    comments: "",
+                    trade: "",
+                  })
+                }
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Subcontractor
+              </Button>
+            </TabsContent>
+
+            <TabsContent value="weather" className="space-y-4">
+              {draft.weatherConditions && (
+                <div className="grid grid-cols-4 gap-4">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Temp (low / high)</Label>
+                    <div className="flex gap-1">
+                      <Input value={draft.weatherConditions.temperature.low} onChange={(e) => updateWeather("temperature", "low", e.target.value)} />
+                      <Input value={draft.weatherConditions.temperature.high} onChange={(e) => updateWeather("temperature", "high", e.target.value)} />
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Precipitation since midnight</Label>
+                    <Input value={draft.weatherConditions.precipitation.midnight} onChange={(e) => updateWeather("precipitation", "midnight", e.target.value)} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Humidity (avg)</Label>
+                    <Input value={draft.weatherConditions.humidity.avg} onChange={(e) => updateWeather("humidity", "avg", e.target.value)} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Wind (avg / gust)</Label>
+                    <div className="flex gap-1">
+                      <Input value={draft.weatherConditions.windSpeed.avg} onChange={(e) => updateWeather("windSpeed", "avg", e.target.value)} />
+                      <Input value={draft.weatherConditions.windSpeed.gust} onChange={(e) => updateWeather("windSpeed", "gust", e.target.value)} />
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Observed Conditions</h4>
+                {draft.weatherObservations.map((observation) => (
+                  <div key={observation.id} className="grid grid-cols-12 gap-2 items-center">
+                    <Input
+                      className="col-span-2"
+                      type="time"
+                      value={observation.timeObserved}
+                      onChange={(e) => updateRow("weatherObservations", observation.id, { timeObserved: e.target.value })}
+                    />
+                    <Input
+                      className="col-span-2"
+                      placeholder="Sky"
+                      value={observation.sky}
+                      onChange={(e) => updateRow("weatherObservations", observation.id, { sky: e.target.value })}
+                    />
+                    <Input
+                      className="col-span-1"
+                      placeholder="Temp"
+                      value={observation.temperature}
+                      onChange={(e) => updateRow("weatherObservations", observation.id, { temperature: e.target.value })}
+                    />
+                    <Input
+                      className="col-span-2"
+                      placeholder="Precipitation"
+                      value={observation.precipitation}
+                      onChange={(e) => updateRow("weatherObservations", observation.id, { precipitation: e.target.value })}
+                    />
+                    <Input
+                      className="col-span-2"
+                      placeholder="Comments"
+                      value={observation.comments}
+                      onChange={(e) => updateRow("weatherObservations", observation.id, { comments: e.target.value })}
+                    />
+                    <div className="col-span-2 flex items-center gap-2">
+                      <Switch
+                        checked={observation.weatherDelay}
+                        onCheckedChange={(weatherDelay) => updateRow("weatherObservations", observation.id, { weatherDelay })}
+                      />
+                      <span className="text-xs">Weather delay</span>
+                    </div>
+                    <Button variant="ghost" size="icon" onClick={() => removeRow("weatherObservations", observation.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    addRow("weatherObservations", {
+                      id: rowId("wx"),
+                      timeObserved: "",
+                      sky: "",
+                      temperature: "",
+                      precipitation: "",
+                      wind: "",
+                      weatherDelay: false,
+                      comments: "",
+                    })
+                  }
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Observation
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Delays</h4>
+                {draft.delays.map((delay) => (
+                  <div key={delay.id} className="grid grid-cols-12 gap-2 items-center">
+                    <div className="col-span-2">
+                      <Select value={delay.type} onValueChange={(type) => updateRow("delays", delay.id, { type: type as DelayType })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(delayTypeLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Input
+                      className="col-span-5"
+                      placeholder="Description"
+                      value={delay.description}
+                      onChange={(e) => updateRow("delays", delay.id, { description: e.target.value })}
+                    />
+                    <Input
+                      className="col-span-1"
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      placeholder="Hours"
+                      value={delay.hoursLost}
+                      onChange={(e) => updateRow("delays", delay.id, { hoursLost: Number(e.target.value) || 0 })}
+                    />
+                    <Input
+                      className="col-span-3"
+                      placeholder="Responsible party"
+                      value={delay.responsibleParty}
+                      onChange={(e) => updateRow("delays", delay.id, { responsibleParty: e.target.value })}
+                    />
+                    <Button variant="ghost" size="icon" onClick={() => removeRow("delays", delay.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => addRow("delays", { id: rowId("dly"), type: "weather", description: "", hoursLost: 0, responsibleParty: "" })}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Delay
+                </Button>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="activities" className="space-y-3">
+              {draft.activities.map((activity) => (
+                <div key={activity.id} className="grid grid-cols-12 gap-2 items-center">
+                  <div className="col-span-2">
+                    <Select value={activity.type} onValueChange={(type) => updateRow("activities", activity.id, { type: type as Activity["type"] })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="task">Task</SelectItem>
+                        <SelectItem value="inspection">Inspection</SelectItem>
+                        <SelectItem value="delivery">Delivery</SelectItem>
+                        <SelectItem value="safety">Safety</SelectItem>
+                        <SelectItem value="other">Other</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Input
+                    className="col-span-5"
+                    placeholder="Description"
+                    value={activity.description}
+                    onChange={(e) => updateRow("activities", activity.id, { description: e.target.value })}
+                  />
+                  <div className="col-span-2">
+                    <Select
+                      value={activity.status}
+                      onValueChange={(status) => updateRow("activities", activity.id, { status: status as Activity["status"] })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="planned">Planned</SelectItem>
+                        <SelectItem value="in-progress">In Progress</SelectItem>
+                        <SelectItem value="completed">Completed</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Input
+                    className="col-span-2"
+                    placeholder="Responsible party"
+                    value={activity.responsibleParty}
+                    onChange={(e) => updateRow("activities", activity.id, { responsibleParty: e.target.value })}
+                  />
+                  <Button variant="ghost" size="icon" onClick={() => removeRow("activities", activity.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  addRow("activities", { id: rowId("act"), type: "task", description: "", status: "in-progress", responsibleParty: "" })
+                }
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Activity
+              </Button>
+            </TabsContent>
+
+            <TabsContent value="site" className="space-y-4">
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Visitors</h4>
+                {draft.visitors.map((visitor) => (
+                  <div key={visitor.id} className="grid grid-cols-12 gap-2 items-center">
+                    <Input
+                      className="col-span-3"
+                      placeholder="Name"
+                      value={visitor.name}
+                      onChange={(e) => updateRow("visitors", visitor.id, { name: e.target.value })}
+                    />
+                    <Input
+                      className="col-span-2"
+                      placeholder="Company"
+                      value={visitor.company}
+                      onChange={(e) => updateRow("visitors", visitor.id, { company: e.target.value })}
+                    />
+                    <Input
+                      className="col-span-3"
+                      placeholder="Purpose"
+                      value={visitor.purpose}
+                      onChange={(e) => updateRow("visitors", visitor.id, { purpose: e.target.value })}
+                    />
+                    <Input
+                      className="col-span-2"
+                      type="time"
+                      value={visitor.timeIn}
+                      onChange={(e) => updateRow("visitors", visitor.id, { timeIn: e.target.value })}
+                    />
+                    <Input
+                      className="col-span-1"
+                      type="time"
+                      value={visitor.timeOut}
+                      onChange={(e) => updateRow("visitors", visitor.id, { timeOut: e.target.value })}
+                    />
+                    <Button variant="ghost" size="icon" onClick={() => removeRow("visitors", visitor.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => addRow("visitors", { id: rowId("vis"), name: "", company: "", purpose: "", timeIn: "", timeOut: "" })}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Visitor
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Deliveries</h4>
+                {draft.deliveries.map((delivery) => (
+                  <div key={delivery.id} className="grid grid-cols-12 gap-2 items-center">
+                    <Input
+                      className="col-span-3"
+                      placeholder="Supplier"
+                      value={delivery.supplier}
+                      onChange={(e) => updateRow("deliveries", delivery.id, { supplier: e.target.value })}
+                    />
+                    <Input
+                      className="col-span-3"
+                      placeholder="Material / description"
+                      value={delivery.description}
+                      onChange={(e) => updateRow("deliveries", delivery.id, { description: e.target.value })}
+                    />
+                    <Input
+                      className="col-span-2"
+                      placeholder="Received by"
+                      value={delivery.receivedBy}
+                      onChange={(e) => updateRow("deliveries", delivery.id, { receivedBy: e.target.value })}
+                    />
+                    <Input
+                      className="col-span-1"
+                      type="time"
+                      value={delivery.time}
+                      onChange={(e) => updateRow("deliveries", delivery.id, { time: e.target.value })}
+                    />
+                    <Input
+                      className="col-span-2"
+                      placeholder="Comments"
+                      value={delivery.comments}
+                      onChange={(e) => updateRow("deliveries", delivery.id, { comments: e.target.value })}
+                    />
+                    <Button variant="ghost" size="icon" onClick={() => removeRow("deliveries", delivery.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    addRow("deliveries", { id: rowId("del"), supplier: "", description: "", receivedBy: author, time: "", comments: "" })
+                  }
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Delivery
+                </Button>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="photos" className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                {draft.photos.map((photo) => (
+                  <div key={photo.id} className="space-y-2 rounded-md border p-2">
+                    <img src={photo.dataUrl} alt={photo.caption || photo.name} className="h-32 w-full rounded object-cover" />
+                    <Input
+                      placeholder="Caption"
+                      value={photo.caption}
+                      onChange={(e) => updateRow("photos", photo.id, { caption: e.target.value })}
+                    />
+                    <Button variant="ghost" size="sm" className="w-full" onClick={() => removeRow("photos", photo.id)}>
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Remove
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <Label className="inline-flex cursor-pointer items-center gap-2 rounded-md border px-3 py-2 text-sm">
+                <Camera className="h-4 w-4" />
+                Add Photos
+                <input
+                  type="file"
+                  accept="image/*"
+                  capture="environment"
+                  multiple
+                  className="hidden"
+                  onChange={(e) => {
+                    addPhotos(e.target.files)
+                    e.target.value = ""
+                  }}
+                />
+              </Label>
+            </TabsContent>
+          </Tabs>
+        </ScrollArea>
+
+        {issues.length > 0 && (
+          <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700 dark:border-red-900 dark:bg-red-950 dark:text-red-300">
+            {issues.map((issue) => (
+              <div key={issue} className="flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4 shrink-0" />
+                {issue}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          {amending ? (
+            <Button onClick={() => save("amend")} disabled={saving} className="bg-[#FF6B35] hover:bg-[#E55A2B] text-white">
+              <Save className="h-4 w-4 mr-2" />
+              Save Amendment
+            </Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => save("draft")} disabled={saving}>
+                <Save className="h-4 w-4 mr-2" />
+                Save Draft
+              </Button>
+              <Button onClick={() => save("submit")} disabled={saving} className="bg-[#FF6B35] hover:bg-[#E55A2B] text-white">
+                <Send className="h-4 w-4 mr-2" />
+                Submit & Lock
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
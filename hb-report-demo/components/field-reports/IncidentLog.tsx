@@ -0,0 +1,648 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { format, parseISO } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Activity, AlertTriangle, CalendarCheck, Download, Edit, FileText, HeartPulse, Lock, Plus, Search } from "lucide-react"
+import type { DailyLogRecord } from "@/types/field-reports"
+import type {
+  IncidentRootCause,
+  IncidentType,
+  OshaCaseType,
+  OshaOutcome,
+  RootCauseCategory,
+  SafetyIncident,
+} from "@/types/safety-incidents"
+import {
+  blankIncident,
+  closeIncident,
+  daysWithoutRecordable,
+  incidentRates,
+  incidentTypeLabels,
+  isRecordable,
+  loggedHours,
+  osha300ASummary,
+  osha300Csv,
+  osha300Log,
+  oshaCaseTypeLabels,
+  oshaOutcomeLabels,
+  oshaYears,
+  prepareIncident,
+  rootCauseLabels,
+  validateIncident,
+  validateInvestigation,
+} from "@/lib/field-reports/safety-incidents"
+import { createOsha300Pdf, createOsha301Pdf } from "@/lib/field-reports/osha-forms-pdf"
+
+const PAGE_SIZE = 50
+
+const typeStyles: Record<IncidentType, string> = {
+  "near-miss": "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300",
+  "first-aid": "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300",
+  recordable: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300",
+  "property-damage": "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300",
+}
+
+const emptyRootCause: IncidentRootCause = {
+  category: "unsafe-condition",
+  immediateCause: "",
+  contributingFactors: [],
+  rootCause: "",
+  correctiveActions: "",
+}
+
+const downloadCsv = (csv: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8;" }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+interface IncidentLogProps {
+  incidents: SafetyIncident[]
+  // Daily logs for the same projects; their manpower hours are the rate basis
+  dailyLogs: DailyLogRecord[]
+  projects: { id: number; name: string }[]
+  trades: string[]
+  author: string
+  canCreate: boolean
+  canEdit: boolean
+  canClose: boolean
+  canExport: boolean
+  onSave: (incident: SafetyIncident, isNew: boolean) => Promise<void>
+}
+
+export function IncidentLog({ incidents, dailyLogs, projects, trades, author, canCreate, canEdit, canClose, canExport, onSave }: IncidentLogProps) {
+  const [type, setType] = useState("all")
+  const [status, setStatus] = useState("all")
+  const [search, setSearch] = useState("")
+  const years = useMemo(() => oshaYears(incidents), [incidents])
+  const [year, setYear] = useState<number | null>(null)
+  const [editing, setEditing] = useState<{ incident: SafetyIncident; isNew: boolean } | null>(null)
+  const [issues, setIssues] = useState<string[]>([])
+
+  const oshaYear = year ?? years[0] ?? new Date().getFullYear()
+  const rates = useMemo(() => incidentRates(incidents, loggedHours(dailyLogs)), [incidents, dailyLogs])
+  const daysSafe = useMemo(() => daysWithoutRecordable(incidents), [incidents])
+
+  const filtered = useMemo(() => {
+    const query = search.toLowerCase()
+    return incidents
+      .filter((incident) => type === "all" || incident.type === type)
+      .filter((incident) => status === "all" || incident.status === status)
+      .filter(
+        (incident) =>
+          !query ||
+          [incident.description, incident.projectName, incident.trade, incident.location, incident.caseNumber ?? ""].some((text) =>
+            text.toLowerCase().includes(query),
+          ),
+      )
+      .sort((a, b) => b.occurredOn.localeCompare(a.occurredOn))
+  }, [incidents, type, status, search])
+
+  const establishment = projects.length === 1 ? projects[0].name : "All Projects"
+
+  const export300Pdf = () => {
+    const summary = osha300ASummary(incidents, dailyLogs, oshaYear, establishment)
+    createOsha300Pdf(osha300Log(incidents, oshaYear), summary).save(`osha-300-${oshaYear}.pdf`)
+  }
+
+  const export300Csv = () => downloadCsv(osha300Csv(osha300Log(incidents, oshaYear)), `osha-300-${oshaYear}.csv`)
+
+  const openNew = () => {
+    const project = projects[0]
+    setEditing({ incident: blankIncident(project?.id ?? 0, project?.name ?? "", author), isNew: true })
+    setIssues([])
+  }
+
+  const openEdit = (incident: SafetyIncident) => {
+    setEditing({ incident, isNew: false })
+    setIssues([])
+  }
+
+  const update = (changes: Partial<SafetyIncident>) =>
+    setEditing((prev) => (prev ? { ...prev, incident: { ...prev.incident, ...changes } } : prev))
+
+  const updateEmployee = (changes: Partial<NonNullable<SafetyIncident["employee"]>>) =>
+    update({ employee: { name: "", jobTitle: "", employer: "", ...editing?.incident.employee, ...changes } })
+
+  const updateTreatment = (changes: Partial<NonNullable<SafetyIncident["treatment"]>>) =>
+    update({ treatment: { emergencyRoom: false, hospitalizedOvernight: false, ...editing?.incident.treatment, ...changes } })
+
+  const updateRootCause = (changes: Partial<IncidentRootCause>) =>
+    update({ rootCause: { ...emptyRootCause, ...editing?.incident.rootCause, ...changes } })
+
+  const save = async (close: boolean) => {
+    if (!editing) return
+    const problems = validateIncident(editing.incident)
+    if (problems.length > 0) {
+      setIssues(problems)
+      return
+    }
+    let next = prepareIncident(editing.incident, incidents)
+    if (close) {
+      const closed = closeIncident(next, author)
+      if (!closed) {
+        setIssues(validateInvestigation(next))
+        return
+      }
+      next = closed
+    }
+    try {
+      await onSave(next, editing.isNew)
+      setEditing(null)
+    } catch (error) {
+      setIssues([error instanceof Error ? error.message : "Failed to save the incident"])
+    }
+  }
+
+  const incident = editing?.incident
+  const readOnly = !!incident && (incident.status === "closed" || !(editing?.isNew ? canCreate : canEdit))
+  const recordable = !!incident && isRecordable(incident)
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {[
+          { label: "TRIR", value: rates.trir?.toFixed(2) ?? "—", icon: Activity, color: "text-red-600" },
+          { label: "DART Rate", value: rates.dart?.toFixed(2) ?? "—", icon: HeartPulse, color: "text-orange-600" },
+          { label: "Recordables", value: rates.recordables, icon: AlertTriangle, color: "text-red-600" },
+          { label: "Days Without Recordable", value: daysSafe ?? "—", icon: CalendarCheck, color: "text-green-600" },
+          { label: "Near Misses / First Aid", value: `${rates.nearMisses} / ${rates.firstAidCases}`, icon: FileText, color: "text-blue-600" },
+        ].map(({ label, value, icon: Icon, color }) => (
+          <Card key={label}>
+            <CardContent className="flex items-center justify-between p-4">
+              <div>
+                <div className="text-2xl font-bold text-[#003087] dark:text-white">{value}</div>
+                <div className="text-xs text-muted-foreground">{label}</div>
+              </div>
+              <Icon className={`h-6 w-6 ${color}`} />
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Rates per 200,000 hours over {rates.hours.toLocaleString()} hours on the daily logs
+        {rates.hours === 0 && " — no manpower hours logged yet"}
+      </p>
+
+      <div className="flex flex-wrap items-center gap-4 p-4 bg-muted/50 rounded-lg">
+        <div className="relative min-w-64">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+          <Input placeholder="Search incidents..." value={search} onChange={(e) => setSearch(e.target.value)} className="pl-10" />
+        </div>
+        <Select value={type} onValueChange={setType}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Types</SelectItem>
+            {(Object.keys(incidentTypeLabels) as IncidentType[]).map((key) => (
+              <SelectItem key={key} value={key}>
+                {incidentTypeLabels[key]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Statuses</SelectItem>
+            <SelectItem value="open">Open</SelectItem>
+            <SelectItem value="investigating">Investigating</SelectItem>
+            <SelectItem value="closed">Closed</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="ml-auto flex items-center gap-2">
+          {canExport && (
+            <>
+              <Select value={String(oshaYear)} onValueChange={(value) => setYear(Number(value))}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(years.length > 0 ? years : [oshaYear]).map((y) => (
+                    <SelectItem key={y} value={String(y)}>
+                      {y}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" onClick={export300Pdf}>
+                <Download className="h-4 w-4 mr-1" />
+                OSHA 300/300A
+              </Button>
+              <Button variant="outline" size="sm" onClick={export300Csv}>
+                <Download className="h-4 w-4 mr-1" />
+                300 CSV
+              </Button>
+            </>
+          )}
+          {canCreate && (
+            <Button size="sm" onClick={openNew} disabled={projects.length === 0} className="bg-[#FF6B35] hover:bg-[#E55A2B] text-white">
+              <Plus className="h-4 w-4 mr-1" />
+              Report Incident
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-[#003087] dark:text-white">Incident Log</CardTitle>
+          <CardDescription>
+            Near misses, first aid, recordables and property damage with their root-cause investigations
+            {filtered.length > PAGE_SIZE && ` · showing ${PAGE_SIZE} of ${filtered.length}`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Project</TableHead>
+                <TableHead>Trade</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Root Cause</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-24"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filtered.slice(0, PAGE_SIZE).map((row) => (
+                <TableRow key={row.id}>
+                  <TableCell>
+                    <div className="text-sm">{format(parseISO(row.occurredOn), "MMM dd, yyyy")}</div>
+                    <div className="text-xs text-muted-foreground">{row.reportedBy}</div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="text-sm">{row.projectName}</div>
+                    <div className="text-xs text-muted-foreground">{row.location}</div>
+                  </TableCell>
+                  <TableCell>{row.trade}</TableCell>
+                  <TableCell>
+                    <Badge className={typeStyles[row.type]}>{incidentTypeLabels[row.type]}</Badge>
+                    {row.caseNumber && <div className="text-xs text-muted-foreground mt-1">Case {row.caseNumber}</div>}
+                  </TableCell>
+                  <TableCell className="max-w-xs text-sm">{row.description}</TableCell>
+                  <TableCell className="text-sm">{row.rootCause ? rootCauseLabels[row.rootCause.category] : "—"}</TableCell>
+                  <TableCell>
+                    <Badge variant={row.status === "closed" ? "secondary" : "outline"}>{row.status}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => openEdit(row)} title={row.status === "closed" ? "View" : "Edit"}>
+                        {row.status === "closed" ? <Lock className="h-4 w-4" /> : <Edit className="h-4 w-4" />}
+                      </Button>
+                      {canExport && isRecordable(row) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="OSHA 301"
+                          onClick={() => createOsha301Pdf(row).save(`osha-301-${row.caseNumber ?? row.id}.pdf`)}
+                        >
+                          <Download className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {filtered.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={8} className="py-8 text-center text-muted-foreground">
+                    No incidents match
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editing} onOpenChange={(isOpen) => !isOpen && setEditing(null)}>
+        {incident && (
+          <DialogContent className="max-w-3xl max-h-[90vh]">
+            <DialogHeader>
+              <DialogTitle>{editing?.isNew ? "Report Incident" : `Incident${incident.caseNumber ? ` — Case ${incident.caseNumber}` : ""}`}</DialogTitle>
+              <DialogDescription>
+                {incident.status === "closed"
+                  ? `Closed by ${incident.closedBy}${incident.closedAt ? ` on ${format(parseISO(incident.closedAt), "MMM dd, yyyy")}` : ""}`
+                  : "Recordables go on the OSHA 300 log and need the details for the 301 report"}
+              </DialogDescription>
+            </DialogHeader>
+            <ScrollArea className="max-h-[65vh] pr-4">
+              <fieldset disabled={readOnly} className="space-y-6">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Project</Label>
+                    <Select
+                      value={String(incident.projectId)}
+                      onValueChange={(value) => {
+                        const project = projects.find((p) => String(p.id) === value)
+                        if (project) update({ projectId: project.id, projectName: project.name })
+                      }}
+                      disabled={readOnly}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {projects.map((project) => (
+                          <SelectItem key={project.id} value={String(project.id)}>
+                            {project.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Type</Label>
+                    <Select value={incident.type} onValueChange={(value) => update({ type: value as IncidentType })} disabled={readOnly}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(incidentTypeLabels) as IncidentType[]).map((key) => (
+                          <SelectItem key={key} value={key}>
+                            {incidentTypeLabels[key]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Trade</Label>
+                    <Select value={incident.trade} onValueChange={(value) => update({ trade: value })} disabled={readOnly}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select trade" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {trades.map((trade) => (
+                          <SelectItem key={trade} value={trade}>
+                            {trade}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Location</Label>
+                    <Input value={incident.location} onChange={(e) => update({ location: e.target.value })} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Date</Label>
+                    <Input type="date" value={incident.occurredOn} onChange={(e) => update({ occurredOn: e.target.value })} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Time</Label>
+                    <Input type="time" value={incident.occurredAt ?? ""} onChange={(e) => update({ occurredAt: e.target.value || undefined })} />
+                  </div>
+                  <div className="col-span-2 space-y-2">
+                    <Label>What happened</Label>
+                    <Textarea rows={3} value={incident.description} onChange={(e) => update({ description: e.target.value })} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Related safety audit #</Label>
+                    <Input
+                      type="number"
+                      value={incident.inspectionId ?? ""}
+                      onChange={(e) => update({ inspectionId: e.target.value ? Number(e.target.value) : undefined })}
+                    />
+                  </div>
+                  {incident.status !== "closed" && (
+                    <div className="space-y-2">
+                      <Label>Status</Label>
+                      <Select
+                        value={incident.status}
+                        onValueChange={(value) => update({ status: value as SafetyIncident["status"] })}
+                        disabled={readOnly}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="open">Open</SelectItem>
+                          <SelectItem value="investigating">Investigating</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </div>
+
+                {(recordable || incident.type === "first-aid") && (
+                  <div className="space-y-4">
+                    <h4 className="font-medium text-sm">Employee & Injury</h4>
+                    <div className="grid grid-cols-3 gap-4">
+                      <div className="space-y-2">
+                        <Label>Employee name</Label>
+                        <Input value={incident.employee?.name ?? ""} onChange={(e) => updateEmployee({ name: e.target.value })} />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Job title</Label>
+                        <Input value={incident.employee?.jobTitle ?? ""} onChange={(e) => updateEmployee({ jobTitle: e.target.value })} />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Employer</Label>
+                        <Input value={incident.employee?.employer ?? ""} onChange={(e) => updateEmployee({ employer: e.target.value })} />
+                      </div>
+                      <div className="col-span-3 space-y-2">
+                        <Label>What was the employee doing?</Label>
+                        <Input value={incident.activity ?? ""} onChange={(e) => update({ activity: e.target.value })} />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Injury or illness</Label>
+                        <Input value={incident.injury ?? ""} onChange={(e) => update({ injury: e.target.value })} />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Body part</Label>
+                        <Input value={incident.bodyPart ?? ""} onChange={(e) => update({ bodyPart: e.target.value })} />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Object or substance</Label>
+                        <Input value={incident.objectOrSubstance ?? ""} onChange={(e) => update({ objectOrSubstance: e.target.value })} />
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                {recordable && (
+                  <div className="space-y-4">
+                    <h4 className="font-medium text-sm">OSHA Recordkeeping</h4>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label>Outcome</Label>
+                        <Select value={incident.outcome ?? ""} onValueChange={(value) => update({ outcome: value as OshaOutcome })} disabled={readOnly}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Most serious outcome" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(oshaOutcomeLabels) as OshaOutcome[]).map((key) => (
+                              <SelectItem key={key} value={key}>
+                                {oshaOutcomeLabels[key]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Case type</Label>
+                        <Select value={incident.caseType ?? ""} onValueChange={(value) => update({ caseType: value as OshaCaseType })} disabled={readOnly}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Injury or illness" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(oshaCaseTypeLabels) as OshaCaseType[]).map((key) => (
+                              <SelectItem key={key} value={key}>
+                                {oshaCaseTypeLabels[key]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Days away from work</Label>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={incident.daysAway}
+                          onChange={(e) => update({ daysAway: Math.max(0, Number(e.target.value) || 0) })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Days restricted or transferred</Label>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={incident.daysRestricted}
+                          onChange={(e) => update({ daysRestricted: Math.max(0, Number(e.target.value) || 0) })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Physician</Label>
+                        <Input value={incident.treatment?.physician ?? ""} onChange={(e) => updateTreatment({ physician: e.target.value })} />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Facility</Label>
+                        <Input value={incident.treatment?.facility ?? ""} onChange={(e) => updateTreatment({ facility: e.target.value })} />
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={incident.treatment?.emergencyRoom ?? false}
+                          onCheckedChange={(checked) => updateTreatment({ emergencyRoom: checked })}
+                        />
+                        <Label>Treated in an emergency room</Label>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={incident.treatment?.hospitalizedOvernight ?? false}
+                          onCheckedChange={(checked) => updateTreatment({ hospitalizedOvernight: checked })}
+                        />
+                        <Label>Hospitalized overnight</Label>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Switch checked={incident.privacyCase} onCheckedChange={(checked) => update({ privacyCase: checked })} />
+                        <Label>Privacy case (leave the name off the 300 log)</Label>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                <div className="space-y-4">
+                  <h4 className="font-medium text-sm">Root Cause</h4>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Category</Label>
+                      <Select
+                        value={incident.rootCause?.category ?? ""}
+                        onValueChange={(value) => updateRootCause({ category: value as RootCauseCategory })}
+                        disabled={readOnly}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select category" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(rootCauseLabels) as RootCauseCategory[]).map((key) => (
+                            <SelectItem key={key} value={key}>
+                              {rootCauseLabels[key]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Immediate cause</Label>
+                      <Input value={incident.rootCause?.immediateCause ?? ""} onChange={(e) => updateRootCause({ immediateCause: e.target.value })} />
+                    </div>
+                    <div className="col-span-2 space-y-2">
+                      <Label>Contributing factors (one per line)</Label>
+                      <Textarea
+                        rows={2}
+                        value={incident.rootCause?.contributingFactors.join("\n") ?? ""}
+                        onChange={(e) => updateRootCause({ contributingFactors: e.target.value.split("\n") })}
+                        onBlur={(e) => updateRootCause({ contributingFactors: e.target.value.split("\n").map((f) => f.trim()).filter(Boolean) })}
+                      />
+                    </div>
+                    <div className="col-span-2 space-y-2">
+                      <Label>Root cause</Label>
+                      <Textarea rows={2} value={incident.rootCause?.rootCause ?? ""} onChange={(e) => updateRootCause({ rootCause: e.target.value })} />
+                    </div>
+                    <div className="col-span-2 space-y-2">
+                      <Label>Corrective actions</Label>
+                      <Textarea
+                        rows={2}
+                        value={incident.rootCause?.correctiveActions ?? ""}
+                        onChange={(e) => updateRootCause({ correctiveActions: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                </div>
+              </fieldset>
+
+              {issues.length > 0 && (
+                <div className="mt-4 space-y-1 text-sm text-red-600">
+                  {issues.map((issue) => (
+                    <div key={issue} className="flex items-center gap-2">
+                      <AlertTriangle className="h-4 w-4 shrink-0" />
+                      {issue}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+            <DialogFooter>
+              {!readOnly && (
+                <>
+                  {!editing?.isNew && canClose && (
+                    <Button variant="outline" onClick={() => save(true)}>
+                      <Lock className="h-4 w-4 mr-1" />
+                      Close Investigation
+                    </Button>
+                  )}
+                  <Button onClick={() => save(false)} className="bg-[#FF6B35] hover:bg-[#E55A2B] text-white">
+                    Save Incident
+                  </Button>
+                </>
+              )}
+            </DialogFooter>
+          </DialogContent>
+        )}
+      </Dialog>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo, useRef } from "react"
+import { addDays, endOfMonth, format, parseISO } from "date-fns"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -26,6 +27,22 @@ import {
   Building
 } from "lucide-react"
 import type { AiaPayApplication, AiaLineItem } from "@/types/aia-pay-application"
+import { useDataResource } from "@/hooks/use-data-resource"
+import {
+  buildLineItems,
+  calculateLineItem,
+  flagLineItemDiscrepancies,
+  lastApprovedApplication,
+  lineItemCode,
+  summarizeG702,
+  updateLineItem,
+  validateLineItem,
+} from "@/lib/financial/pay-application"
+import {
+  createPayApplicationPackage,
+  downloadPayApplicationPackage,
+  payApplicationPackageKind,
+} from "@/lib/financial/pay-application-pdf"
 
 interface AiaPayApplicationFormProps {
   application?: AiaPayApplication | null
@@ -41,6 +58,22 @@ export function AiaPayApplicationForm({ application, projectId, onSave, onCancel
   const [isLoading, setIsLoading] = useState(false)
   const [isDraft, setIsDraft] = useState(true)
 
+  const [sovProjectId, setSovProjectId] = useState(application?.projectId ?? projectId)
+  const query = { projectId: sovProjectId }
+  const { data: projects } = useDataResource("projects")
+  const { data: budget, isLoading: budgetLoading } = useDataResource("budget", query)
+  const { data: contracts, isLoading: contractsLoading } = useDataResource("prime-contracts", query)
+  const { data: history } = useDataResource("job-cost-history", query)
+  const { data: applications, isLoading: applicationsLoading } = useDataResource("pay-applications", query)
+
+  const project = projects.find(p => String(p.project_id) === sovProjectId)
+  const contract = contracts[0]
+  // Amounts carry forward from the last certified application before this one
+  const previous = useMemo(
+    () => lastApprovedApplication(applications, sovProjectId, application?.applicationNumber),
+    [applications, sovProjectId, application]
+  )
+
   useEffect(() => {
     if (application) {
       setFormData(application)
@@ -50,11 +83,8 @@ export function AiaPayApplicationForm({ application, projectId, onSave, onCancel
       // Initialize new application
       const newApp: Partial<AiaPayApplication> = {
         projectId,
-        projectName: "Downtown Mixed-Use Development", // This would come from project context
-        contractorName: "Summit Construction LLC",
         architectName: "Richardson Architecture Group",
-        ownerName: "Metro Development Partners",
-        contractSum: 18500000,
+        contractSum: 0,
         changeOrdersApproved: 0,
         retentionPercentage: 5.0,
         status: "draft",
@@ -63,71 +93,73 @@ export function AiaPayApplicationForm({ application, projectId, onSave, onCancel
         applicationDate: new Date().toISOString().split('T')[0]
       }
       setFormData(newApp)
-      loadLineItemsFromProcore()
+      setLineItems([])
     }
   }, [application, projectId])
 
-  const loadLineItemsFromProcore = async () => {
-    // Simulate loading line items from Procore API
-    setIsLoading(true)
-    try {
-      // Mock data that would come from Procore
-      const mockLineItems: AiaLineItem[] = [
-        {
-          id: "li_new_001",
-          costCode: "03100",
-          description: "Cast-in-Place Concrete - Foundations",
-          scheduledValue: 2450000,
-          workCompletedPrevious: 2450000,
-          workCompletedThisPeriod: 0,
-          workCompletedToDate: 2450000,
-          materialsStoredPrevious: 0,
-          materialsStoredThisPeriod: 0,
-          materialsStoredToDate: 0,
-          totalCompleted: 2450000,
-          percentComplete: 100.0,
-          balanceToFinish: 0,
-          retentionAmount: 122500,
-          procoreData: {
-            budgetCode: "03100",
-            committedCost: 2450000,
-            lastSync: new Date().toISOString()
-          },
-          annotations: [],
-          hasDiscrepancy: false
-        },
-        {
-          id: "li_new_002",
-          costCode: "05120",
-          description: "Structural Steel - Building Frame",
-          scheduledValue: 3850000,
-          workCompletedPrevious: 2695000,
-          workCompletedThisPeriod: 0,
-          workCompletedToDate: 2695000,
-          materialsStoredPrevious: 150000,
-          materialsStoredThisPeriod: 0,
-          materialsStoredToDate: 150000,
-          totalCompleted: 2845000,
-          percentComplete: 73.9,
-          balanceToFinish: 1005000,
-          retentionAmount: 142250,
-          procoreData: {
-            budgetCode: "05120",
-            committedCost: 2845000,
-            lastSync: new Date().toISOString()
-          },
-          annotations: [],
-          hasDiscrepancy: false
-        }
-      ]
-      setLineItems(mockLineItems)
-    } catch (error) {
-      console.error("Error loading line items from Procore:", error)
-    } finally {
-      setIsLoading(false)
-    }
+  // New applications need a project with a budget; fall back to the first one
+  useEffect(() => {
+    if (!application && projects.length > 0 && !project) setSovProjectId(String(projects[0].project_id))
+  }, [application, projects, project])
+
+  // A new application takes its contract, parties, numbering and period from the project's data, once per project
+  const initializedProjectId = useRef<string | null>(null)
+  useEffect(() => {
+    if (application || budgetLoading || contractsLoading || applicationsLoading || budget.length === 0) return
+    if (initializedProjectId.current === sovProjectId) return
+    initializedProjectId.current = sovProjectId
+    const retentionPercentage = previous?.retentionPercentage ?? formData.retentionPercentage ?? 0
+    const periodStart = previous?.periodEndDate ? addDays(parseISO(previous.periodEndDate), 1) : null
+    setFormData(prev => ({
+      ...prev,
+      projectId: sovProjectId,
+      projectName: project?.name ?? prev.projectName,
+      contractorName: contract?.["Company Name"] ?? prev.contractorName,
+      ownerName: contract?.["Owner/Client"] ?? prev.ownerName,
+      architectName: previous?.architectName ?? prev.architectName,
+      contractSum: contract?.["Original Contract Amount"] ?? prev.contractSum,
+      changeOrdersApproved: contract?.["Approved Change Orders"] ?? 0,
+      retentionPercentage,
+      applicationNumber: Math.max(0, ...applications.map(a => a.applicationNumber)) + 1,
+      previousPayments: previous ? summarizeG702(previous).totalEarnedLessRetainage : 0,
+      distributionList: previous?.distributionList ?? [],
+      ...(periodStart
+        ? { periodStartDate: format(periodStart, "yyyy-MM-dd"), periodEndDate: format(endOfMonth(periodStart), "yyyy-MM-dd") }
+        : {}),
+    }))
+    setLineItems(buildLineItems(budget, contract, previous, retentionPercentage))
+  }, [application, sovProjectId, budget, contract, applications, previous, budgetLoading, contractsLoading, applicationsLoading])
+
+  // Rebuilds the schedule of values from the budget, keeping amounts entered for this period
+  const loadLineItemsFromBudget = () => {
+    const retentionPercentage = formData.retentionPercentage || 0
+    const entered = new Map(lineItems.map(item => [lineItemCode(item), item]))
+    setLineItems(buildLineItems(budget, contract, previous, retentionPercentage).map(item => {
+      const current = entered.get(lineItemCode(item))
+      return current
+        ? calculateLineItem({
+            ...item,
+            workCompletedThisPeriod: current.workCompletedThisPeriod,
+            materialsStoredThisPeriod: current.materialsStoredThisPeriod,
+            annotations: current.annotations,
+          }, retentionPercentage)
+        : item
+    }))
   }
 
+  // Discrepancies against Sage follow the entered amounts; applications without a budget keep their stored flags
+  const flaggedLineItems = useMemo(
+    () => budget.length > 0 && formData.periodEndDate
+      ? flagLineItemDiscrepancies(lineItems, budget, history, formData.periodEndDate)
+      : lineItems,
+    [lineItems, budget, history, formData.periodEndDate]
+  )
+  const lineItemErrors = useMemo(
+    () => new Map(lineItems.map(item => [item.id, validateLineItem(item)])),
+    [lineItems]
+  )
+  const discrepancyCount = flaggedLineItems.filter(item => item.hasDiscrepancy).length
+
   const calculateTotals = () => {
     const workCompletedToDate = lineItems.reduce((sum, item) => sum + item.workCompletedToDate, 0)
     const workCompletedThisPeriod = lineItems.reduce((sum, item) => sum + item.workCompletedThisPeriod, 0)
@@ -155,30 +187,17 @@ export function AiaPayApplicationForm({ application, projectId, onSave, onCancel
 
   const handleInputChange = (field: string, value: any) => {
     setFormData(prev => ({ ...prev, [field]: value }))
+    if (field === "retentionPercentage") {
+      setLineItems(prev => prev.map(item => calculateLineItem(item, value || 0)))
+    }
     if (errors[field]) {
       setErrors(prev => ({ ...prev, [field]: "" }))
     }
   }
 
-  const handleLineItemChange = (itemId: string, field: string, value: number) => {
-    setLineItems(prev => prev.map(item => 
-      item.id === itemId 
-        ? { 
-            ...item, 
-            [field]: value,
-            workCompletedToDate: field === "workCompletedThisPeriod" 
-              ? item.workCompletedPrevious + value 
-              : item.workCompletedToDate,
-            totalCompleted: field === "workCompletedThisPeriod" || field === "materialsStoredThisPeriod"
-              ? (item.workCompletedPrevious + (field === "workCompletedThisPeriod" ? value : item.workCompletedThisPeriod)) + 
-                (item.materialsStoredPrevious + (field === "materialsStoredThisPeriod" ? value : item.materialsStoredThisPeriod))
-              : item.totalCompleted,
-            percentComplete: item.scheduledValue > 0 
-              ? ((item.workCompletedPrevious + (field === "workCompletedThisPeriod" ? value : item.workCompletedThisPeriod)) / item.scheduledValue) * 100
-              : 0,
-            balanceToFinish: item.scheduledValue - (item.workCompletedPrevious + (field === "workCompletedThisPeriod" ? value : item.workCompletedThisPeriod))
-          }
-        : item
+  const handleLineItemChange = (itemId: string, field: "workCompletedThisPeriod" | "materialsStoredThisPeriod", value: number) => {
+    setLineItems(prev => prev.map(item =>
+      item.id === itemId ? updateLineItem(item, field, value, formData.retentionPercentage || 0) : item
     ))
   }
 
@@ -187,11 +206,17 @@ export function AiaPayApplicationForm({ application, projectId, onSave, onCancel
 
     if (!formData.applicationNumber) newErrors.applicationNumber = "Application number is required"
     if (!formData.periodEndDate) newErrors.periodEndDate = "Period end date is required"
+    else if (previous && formData.periodEndDate <= previous.periodEndDate) {
+      newErrors.periodEndDate = `Period must end after application #${previous.applicationNumber} (${formatDate(previous.periodEndDate)})`
+    }
     if (!formData.contractSum || formData.contractSum <= 0) newErrors.contractSum = "Valid contract sum is required"
 
     // Validate line items
+    if ([...lineItemErrors.values()].some(messages => messages.length > 0)) {
+      newErrors.lineItems = "Some line items exceed their scheduled value or install more stored material than was on hand"
+    }
     const hasWorkThisPeriod = lineItems.some(item => item.workCompletedThisPeriod > 0 || item.materialsStoredThisPeriod > 0)
-    if (!hasWorkThisPeriod && !isDraft) {
+    if (!newErrors.lineItems && !hasWorkThisPeriod && !isDraft) {
       newErrors.lineItems = "At least one line item must have work completed this period"
     }
 
@@ -207,7 +232,7 @@ export function AiaPayApplicationForm({ application, projectId, onSave, onCancel
       const applicationData: AiaPayApplication = {
         ...formData,
         ...totals,
-        lineItems,
+        lineItems: flaggedLineItems,
         status: submit ? "submitted" : "draft",
         submittedDate: submit ? new Date().toISOString() : undefined,
         lastModifiedDate: new Date().toISOString(),
@@ -222,6 +247,17 @@ export function AiaPayApplicationForm({ application, projectId, onSave, onCancel
     }
   }
 
+  const packageKind = payApplicationPackageKind(formData as AiaPayApplication)
+
+  const handleDownloadPdf = async () => {
+    const current = { ...formData, ...totals, lineItems: flaggedLineItems } as AiaPayApplication
+    try {
+      downloadPayApplicationPackage(await createPayApplicationPackage(current))
+    } catch (error) {
+      console.error("Error generating G702/G703 PDF:", error)
+    }
+  }
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat("en-US", {
       style: "currency",
@@ -245,6 +281,29 @@ export function AiaPayApplicationForm({ application, projectId, onSave, onCancel
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {!application && (
+              <div>
+                <Label className="text-sm font-medium text-foreground">Project</Label>
+                <Select value={sovProjectId} onValueChange={(value) => { setSovProjectId(value); setLineItems([]) }}>
+                  <SelectTrigger className="bg-background text-foreground border-input focus:ring-ring">
+                    <SelectValue placeholder="Select project" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {projects.map((p) => (
+                      <SelectItem key={p.project_id} value={String(p.project_id)}>
+                        {p.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {previous && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Carried forward from application #{previous.applicationNumber} ({formatDate(previous.periodEndDate)})
+                  </p>
+                )}
+              </div>
+            )}
+
             <div>
               <Label htmlFor="applicationNumber" className="text-sm font-medium text-foreground">Application Number</Label>
               <Input
@@ -333,7 +392,7 @@ export function AiaPayApplicationForm({ application, projectId, onSave, onCancel
               <Calculator className="h-5 w-5 text-primary" />
               Line Items (G703)
             </CardTitle>
-            <Button onClick={loadLineItemsFromProcore} variant="outline" size="sm" disabled={isLoading}>
+            <Button onClick={loadLineItemsFromBudget} variant="outline" size="sm" disabled={isLoading || budget.length === 0}>
               Sync from Procore
             </Button>
           </div>
@@ -346,6 +405,15 @@ export function AiaPayApplicationForm({ application, projectId, onSave, onCancel
             </Alert>
           )}
 
+          {discrepancyCount > 0 && (
+            <Alert className="mb-4 border-yellow-500">
+              <AlertTriangle className="h-4 w-4 text-yellow-600" />
+              <AlertDescription className="text-foreground">
+                {discrepancyCount} line item{discrepancyCount === 1 ? "" : "s"} disagree with Sage job cost. Hover the warning icon for details.
+              </AlertDescription>
+            </Alert>
+          )}
+
           <div className="overflow-x-auto">
             <Table>
               <TableHeader>
@@ -356,20 +424,33 @@ export function AiaPayApplicationForm({ application, projectId, onSave, onCancel
                   <TableHead className="text-right text-foreground">Work Complete Previous</TableHead>
                   <TableHead className="text-right text-foreground">Work Complete This Period</TableHead>
                   <TableHead className="text-right text-foreground">Work Complete to Date</TableHead>
-                  <TableHead className="text-right text-foreground">Materials Stored</TableHead>
+                  <TableHead className="text-right text-foreground">Stored This Period</TableHead>
+                  <TableHead className="text-right text-foreground">Stored to Date</TableHead>
                   <TableHead className="text-right text-foreground">Total Completed</TableHead>
                   <TableHead className="text-right text-foreground">% Complete</TableHead>
                   <TableHead className="text-right text-foreground">Balance to Finish</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {lineItems.map((item) => (
-                  <TableRow key={item.id} className="border-border">
-                    <TableCell className="font-mono text-foreground">{item.costCode}</TableCell>
+                {flaggedLineItems.map((item) => (
+                  <TableRow key={item.id} className={`border-border ${lineItemErrors.get(item.id)?.length ? "bg-destructive/5" : ""}`}>
+                    <TableCell className="font-mono text-foreground">
+                      <div className="flex items-center gap-1">
+                        {item.hasDiscrepancy && (
+                          <span title={item.discrepancyDetails?.join("\n")}>
+                            <AlertTriangle className="h-3 w-3 text-yellow-600" />
+                          </span>
+                        )}
+                        {item.costCode ?? item.scheduleOfValues}
+                      </div>
+                    </TableCell>
                     <TableCell className="max-w-xs text-foreground">
                       <div className="truncate" title={item.description}>
                         {item.description}
                       </div>
+                      {lineItemErrors.get(item.id)?.map((message) => (
+                        <p key={message} className="text-xs text-destructive">{message}</p>
+                      ))}
                     </TableCell>
                     <TableCell className="text-right text-foreground">{formatCurrency(item.scheduledValue)}</TableCell>
                     <TableCell className="text-right text-foreground">{formatCurrency(item.workCompletedPrevious)}</TableCell>
@@ -389,9 +470,10 @@ export function AiaPayApplicationForm({ application, projectId, onSave, onCancel
                         value={item.materialsStoredThisPeriod}
                         onChange={(e) => handleLineItemChange(item.id, "materialsStoredThisPeriod", parseFloat(e.target.value) || 0)}
                         className="w-24 text-right bg-background text-foreground border-input focus:ring-ring"
-                        min="0"
+                        min={-item.materialsStoredPrevious}
                       />
                     </TableCell>
+                    <TableCell className="text-right text-foreground">{formatCurrency(item.materialsStoredToDate)}</TableCell>
                     <TableCell className="text-right font-medium text-foreground">{formatCurrency(item.totalCompleted)}</TableCell>
                     <TableCell className="text-right">
                       <Badge variant={item.percentComplete === 100 ? "default" : "secondary"}>
@@ -404,10 +486,12 @@ export function AiaPayApplicationForm({ application, projectId, onSave, onCancel
                 
                 {/* Totals Row */}
                 <TableRow className="border-t-2 border-primary/20 bg-muted/50">
-                  <TableCell colSpan={3} className="font-bold text-foreground">TOTALS</TableCell>
+                  <TableCell colSpan={2} className="font-bold text-foreground">TOTALS</TableCell>
+                  <TableCell className="text-right font-bold text-foreground">{formatCurrency(lineItems.reduce((sum, item) => sum + item.scheduledValue, 0))}</TableCell>
                   <TableCell className="text-right font-bold text-foreground">{formatCurrency(totals.workCompletedToDate - totals.workCompletedThisPeriod)}</TableCell>
                   <TableCell className="text-right font-bold text-foreground">{formatCurrency(totals.workCompletedThisPeriod)}</TableCell>
                   <TableCell className="text-right font-bold text-foreground">{formatCurrency(totals.workCompletedToDate)}</TableCell>
+                  <TableCell className="text-right font-bold text-foreground">{formatCurrency(lineItems.reduce((sum, item) => sum + item.materialsStoredThisPeriod, 0))}</TableCell>
                   <TableCell className="text-right font-bold text-foreground">{formatCurrency(totals.materialsStoredToDate)}</TableCell>
                   <TableCell className="text-right font-bold text-foreground">{formatCurrency(totals.totalEarned)}</TableCell>
                   <TableCell className="text-right">
@@ -485,6 +569,20 @@ export function AiaPayApplicationForm({ application, projectId, onSave, onCancel
         </Button>
 
         <div className="flex items-center gap-3">
+          <Button
+            variant="outline"
+            onClick={handleDownloadPdf}
+            disabled={isLoading || !formData.applicationNumber}
+            title={
+              packageKind === "zip"
+                ? "Zip of the G702/G703 PDF and the attachments that can't be merged into it"
+                : "G702/G703 with image attachments merged in"
+            }
+          >
+            <Download className="h-4 w-4 mr-2" />
+            {packageKind === "zip" ? "G702/G703 Package (.zip)" : "G702/G703 PDF"}
+          </Button>
+
           <Button
             variant="outline"
             onClick={() => handleSave(false)}
@@ -9,6 +9,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Eye, Edit, Download, Send, Search } from "lucide-react"
 import type { AiaPayApplication } from "@/types/aia-pay-application"
+import { previousApplication } from "@/lib/financial/pay-application"
+import {
+  createPayApplicationPackage,
+  downloadPayApplicationPackage,
+  payApplicationPackageKind,
+} from "@/lib/financial/pay-application-pdf"
 
 interface AiaPayApplicationListProps {
   applications: AiaPayApplication[]
@@ -111,9 +117,15 @@ export function AiaPayApplicationList({ applications, onSelectApplication, onRef
     }
   }
 
-  const handleDownloadPdf = (application: AiaPayApplication) => {
-    // Implement PDF download
-    console.log("Download PDF for application:", application.id)
+  const handleDownloadPdf = async (application: AiaPayApplication) => {
+    try {
+      const file = await createPayApplicationPackage(application, {
+        previous: previousApplication(applications, application),
+      })
+      downloadPayApplicationPackage(file)
+    } catch (error) {
+      console.error("Error generating G702/G703 PDF:", error)
+    }
   }
 
   const handleDistribute = (application: AiaPayApplication) => {
@@ -227,7 +239,11 @@ export function AiaPayApplicationList({ applications, onSelectApplication, onRef
                           variant="ghost"
                           size="sm"
                           onClick={() => handleDownloadPdf(application)}
-                          title="Download PDF"
+                          title={
+                            payApplicationPackageKind(application) === "zip"
+                              ? "Download package (.zip): PDF plus attachments that can't be merged"
+                              : "Download PDF"
+                          }
                           className="hover:bg-muted"
                         >
                           <Download className="h-4 w-4" />
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useMemo } from "react";
+import { format, parse } from "date-fns";
 import {
   Calculator,
   TrendingUp,
@@ -47,6 +48,9 @@ import {
   ScatterChart,
   Scatter,
 } from "recharts";
+import { useProjectContext } from "@/context/project-context";
+import { useEarnedValue } from "@/hooks/use-earned-value";
+import type { EarnedValueMetrics, EarnedValuePoint } from "@/types/earned-value";
 
 interface BudgetAnalysisProps {
   userRole: string;
@@ -173,18 +177,6 @@ const budgetCategories = [
   }
 ];
 
-// Monthly budget performance data
-const monthlyPerformance = [
-  { month: "Jan", budgeted: 2800000, actual: 2650000, forecast: 2750000, variance: 150000, cpi: 1.06 },
-  { month: "Feb", budgeted: 3200000, actual: 3100000, forecast: 3150000, variance: 100000, cpi: 1.03 },
-  { month: "Mar", budgeted: 4100000, actual: 3950000, forecast: 4050000, variance: 150000, cpi: 1.04 },
-  { month: "Apr", budgeted: 5200000, actual: 4980000, forecast: 5100000, variance: 220000, cpi: 1.04 },
-  { month: "May", budgeted: 6800000, actual: 6450000, forecast: 6650000, variance: 350000, cpi: 1.05 },
-  { month: "Jun", budgeted: 8500000, actual: 8100000, forecast: 8300000, variance: 400000, cpi: 1.05 },
-  { month: "Jul", budgeted: 10200000, actual: 9750000, forecast: 10000000, variance: 450000, cpi: 1.05 },
-  { month: "Aug", budgeted: 12100000, actual: 11600000, forecast: 11900000, variance: 500000, cpi: 1.04 },
-];
-
 // Risk factors and insights
 const budgetRisks = [
   {
@@ -217,14 +209,6 @@ const budgetRisks = [
   }
 ];
 
-// Cost control metrics
-const costControlMetrics = [
-  { metric: "Budget Adherence", current: 96.2, target: 95.0, trend: "improving" },
-  { metric: "Change Order Control", current: 2.1, target: 3.0, trend: "stable" },
-  { metric: "Cost Forecast Accuracy", current: 94.8, target: 92.0, trend: "improving" },
-  { metric: "Contingency Utilization", current: 23.5, target: 30.0, trend: "controlled" }
-];
-
 /**
  * Budget Analysis Component
  *
@@ -241,8 +225,76 @@ export default function BudgetAnalysis({ userRole, projectData }: BudgetAnalysis
   const [selectedTimeframe, setSelectedTimeframe] = useState("YTD");
   const [viewMode, setViewMode] = useState<"summary" | "detailed" | "forecast">("summary");
 
-  // Get role-based budget data
-  const budgetData = getRoleBasedBudgetData(userRole);
+  const { projectId } = useProjectContext();
+  const earnedValue = useEarnedValue(projectId);
+  const evm = earnedValue.totals;
+  const statusDate = earnedValue.projects.reduce((latest, p) => (p.asOf > latest ? p.asOf : latest), "");
+
+  // Get role-based budget data, with completion and performance indices from earned value once loaded
+  const budgetData = useMemo(() => {
+    const base = getRoleBasedBudgetData(userRole);
+    if (evm.budgetAtCompletion <= 0) return base;
+    return {
+      ...base,
+      completionPercentage: evm.percentComplete / 100,
+      costPerformanceIndex: evm.cpi ?? 1,
+      schedulePerformanceIndex: evm.spi ?? 1,
+    };
+  }, [userRole, evm]);
+
+  const monthlyPerformance = earnedValue.trend.map((point) => ({
+    ...point,
+    label: format(parse(point.month, "yyyy-MM", new Date()), "MMM yy"),
+    costVariance: point.earnedValue - point.actualCost,
+    scheduleVariance: point.earnedValue - point.plannedValue,
+  }));
+
+  // Direction of an index over the last month of the trend
+  const indexTrend = (pick: (point: EarnedValuePoint) => number | null) => {
+    const [previous, latest] = earnedValue.trend.slice(-2).map(pick);
+    if (previous == null || latest == null) return "stable";
+    return latest - previous > 0.01 ? "improving" : previous - latest > 0.01 ? "declining" : "stable";
+  };
+
+  const costControlMetrics = [
+    { metric: "Cost Performance Index", current: evm.cpi, target: 1, format: "index", trend: indexTrend((p) => p.cpi) },
+    { metric: "Schedule Performance Index", current: evm.spi, target: 1, format: "index", trend: indexTrend((p) => p.spi) },
+    {
+      metric: "To-Complete Performance Index",
+      current: evm.tcpi,
+      target: 1,
+      format: "index",
+      trend: evm.tcpi === null ? "unachievable" : evm.tcpi > 1.1 ? "at risk" : "achievable",
+    },
+    {
+      metric: "Percent Complete",
+      current: evm.percentComplete,
+      target: evm.percentPlanned,
+      format: "percent",
+      trend: evm.percentComplete >= evm.percentPlanned ? "ahead" : "behind",
+    },
+  ];
+  const formatMetric = (value: number | null, kind: string) =>
+    value === null ? "—" : kind === "index" ? value.toFixed(2) : `${value.toFixed(1)}%`;
+  const formatIndex = (value: number | null) => (value === null ? "—" : value.toFixed(2));
+  const formatMillions = (value: number) => `${value < 0 ? "-" : ""}$${(Math.abs(value) / 1000000).toFixed(1)}M`;
+
+  // One project breaks down by cost code; a portfolio by project
+  const sourceNotes = { "job-cost": "", "pay-application": " · from pay app", none: " · no progress reported" };
+  const earnedValueRows: { key: string; label: string; detail: string; metrics: EarnedValueMetrics }[] =
+    earnedValue.projects.length === 1
+      ? earnedValue.projects[0].lines.map((line) => ({
+          key: line.costCode,
+          label: line.description,
+          detail: `${line.costType}${sourceNotes[line.source]}`,
+          metrics: line.metrics,
+        }))
+      : earnedValue.projects.map((project) => ({
+          key: String(project.projectId),
+          label: project.projectName,
+          detail: `As of ${project.asOf}`,
+          metrics: project.totals,
+        }));
 
   // Calculate key performance indicators
   const budgetUtilization = (budgetData.totalActualCosts / budgetData.totalRevisedBudget) * 100;
@@ -393,7 +445,7 @@ export default function BudgetAnalysis({ userRole, projectData }: BudgetAnalysis
 
       {/* Main Analysis Tabs */}
       <Tabs defaultValue="overview" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="overview" className="flex items-center gap-2">
             <BarChart3 className="h-4 w-4" />
             Overview
@@ -406,6 +458,10 @@ export default function BudgetAnalysis({ userRole, projectData }: BudgetAnalysis
             <TrendingUp className="h-4 w-4" />
             Variance
           </TabsTrigger>
+          <TabsTrigger value="earned-value" className="flex items-center gap-2">
+            <Activity className="h-4 w-4" />
+            Earned Value
+          </TabsTrigger>
           <TabsTrigger value="forecast" className="flex items-center gap-2">
             <Calendar className="h-4 w-4" />
             Forecast
@@ -423,23 +479,23 @@ export default function BudgetAnalysis({ userRole, projectData }: BudgetAnalysis
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <BarChart3 className="h-5 w-5 text-blue-600" />
-                  Budget vs Actual Performance
+                  Earned Value Performance
                 </CardTitle>
-                <CardDescription>Monthly budget tracking and performance analysis</CardDescription>
+                <CardDescription>Cumulative planned value, earned value and actual cost by month</CardDescription>
               </CardHeader>
               <CardContent>
                 <ResponsiveContainer width="100%" height={400}>
                   <ComposedChart data={monthlyPerformance}>
                     <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
-                    <XAxis dataKey="month" />
+                    <XAxis dataKey="label" />
                     <YAxis tickFormatter={(value) => `$${(value / 1000000).toFixed(1)}M`} />
                     <Tooltip 
-                      formatter={(value: number) => [`$${(value / 1000000).toFixed(1)}M`, ""]}
+                      formatter={(value: number) => `$${(value / 1000000).toFixed(1)}M`}
                       labelFormatter={(label) => `Month: ${label}`}
                     />
-                    <Bar dataKey="budgeted" fill="#3b82f6" name="Budgeted" opacity={0.6} />
-                    <Bar dataKey="actual" fill="#10b981" name="Actual" opacity={0.8} />
-                    <Line type="monotone" dataKey="forecast" stroke="#f59e0b" strokeWidth={3} name="Forecast" />
+                    <Bar dataKey="plannedValue" fill="#3b82f6" name="Planned Value" opacity={0.6} />
+                    <Bar dataKey="actualCost" fill="#ef4444" name="Actual Cost" opacity={0.8} />
+                    <Line type="monotone" dataKey="earnedValue" stroke="#10b981" strokeWidth={3} name="Earned Value" />
                   </ComposedChart>
                 </ResponsiveContainer>
               </CardContent>
@@ -652,23 +708,30 @@ export default function BudgetAnalysis({ userRole, projectData }: BudgetAnalysis
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <TrendingUp className="h-5 w-5 text-orange-600" />
-                  Budget Variance Analysis
+                  Cost & Schedule Variance
                 </CardTitle>
-                <CardDescription>Monthly variance tracking and trends</CardDescription>
+                <CardDescription>Earned value less actual cost (CV) and less planned value (SV)</CardDescription>
               </CardHeader>
               <CardContent>
                 <ResponsiveContainer width="100%" height={300}>
                   <LineChart data={monthlyPerformance}>
                     <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
-                    <XAxis dataKey="month" />
-                    <YAxis tickFormatter={(value) => `$${(value / 1000).toFixed(0)}K`} />
-                    <Tooltip formatter={(value: number) => `$${(value / 1000).toFixed(0)}K`} />
+                    <XAxis dataKey="label" />
+                    <YAxis tickFormatter={(value) => formatMillions(value)} />
+                    <Tooltip formatter={(value: number) => formatMillions(value)} />
                     <Line 
                       type="monotone" 
-                      dataKey="variance" 
+                      dataKey="costVariance" 
+                      stroke="#ef4444" 
+                      strokeWidth={3}
+                      name="Cost Variance"
+                    />
+                    <Line 
+                      type="monotone" 
+                      dataKey="scheduleVariance" 
                       stroke="#f59e0b" 
                       strokeWidth={3}
-                      name="Budget Variance"
+                      name="Schedule Variance"
                     />
                   </LineChart>
                 </ResponsiveContainer>
@@ -680,17 +743,17 @@ export default function BudgetAnalysis({ userRole, projectData }: BudgetAnalysis
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Target className="h-5 w-5 text-blue-600" />
-                  CPI Tracking
+                  CPI & SPI Tracking
                 </CardTitle>
-                <CardDescription>Cost Performance Index over time</CardDescription>
+                <CardDescription>Cost and schedule performance indices over time</CardDescription>
               </CardHeader>
               <CardContent>
                 <ResponsiveContainer width="100%" height={250}>
                   <LineChart data={monthlyPerformance}>
                     <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
-                    <XAxis dataKey="month" />
-                    <YAxis domain={[0.95, 1.1]} tickFormatter={(value) => value.toFixed(2)} />
-                    <Tooltip formatter={(value: number) => value.toFixed(2)} />
+                    <XAxis dataKey="label" />
+                    <YAxis domain={["auto", "auto"]} tickFormatter={(value) => value.toFixed(2)} />
+                    <Tooltip formatter={(value) => Number(value).toFixed(2)} />
                     <Line 
                       type="monotone" 
                       dataKey="cpi" 
@@ -698,6 +761,13 @@ export default function BudgetAnalysis({ userRole, projectData }: BudgetAnalysis
                       strokeWidth={3}
                       name="CPI"
                     />
+                    <Line 
+                      type="monotone" 
+                      dataKey="spi" 
+                      stroke="#8b5cf6" 
+                      strokeWidth={3}
+                      name="SPI"
+                    />
                   </LineChart>
                 </ResponsiveContainer>
               </CardContent>
@@ -736,6 +806,126 @@ export default function BudgetAnalysis({ userRole, projectData }: BudgetAnalysis
           </div>
         </TabsContent>
 
+        <TabsContent value="earned-value" className="space-y-6">
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm">Planned / Earned / Actual</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1 text-sm">
+                <div className="flex justify-between"><span className="text-muted-foreground">PV</span><span className="font-medium">{formatMillions(evm.plannedValue)}</span></div>
+                <div className="flex justify-between"><span className="text-muted-foreground">EV</span><span className="font-medium">{formatMillions(evm.earnedValue)}</span></div>
+                <div className="flex justify-between"><span className="text-muted-foreground">AC</span><span className="font-medium">{formatMillions(evm.actualCost)}</span></div>
+                <p className="text-xs text-muted-foreground pt-1">
+                  {evm.percentComplete.toFixed(1)}% complete vs {evm.percentPlanned.toFixed(1)}% planned
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm">Variances</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Cost (CV)</span>
+                  <span className={`font-medium ${evm.costVariance < 0 ? "text-red-600" : "text-green-600"}`}>{formatMillions(evm.costVariance)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Schedule (SV)</span>
+                  <span className={`font-medium ${evm.scheduleVariance < 0 ? "text-red-600" : "text-green-600"}`}>{formatMillions(evm.scheduleVariance)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">At Completion (VAC)</span>
+                  <span className={`font-medium ${evm.varianceAtCompletion < 0 ? "text-red-600" : "text-green-600"}`}>{formatMillions(evm.varianceAtCompletion)}</span>
+                </div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm">Estimate at Completion</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1 text-sm">
+                <div className="flex justify-between"><span className="text-muted-foreground">BAC / CPI</span><span className="font-medium">{formatMillions(evm.eac.cpi)}</span></div>
+                <div className="flex justify-between"><span className="text-muted-foreground">AC + (BAC − EV)</span><span className="font-medium">{formatMillions(evm.eac.budgetRate)}</span></div>
+                <div className="flex justify-between"><span className="text-muted-foreground">CPI × SPI</span><span className="font-medium">{formatMillions(evm.eac.cpiSpi)}</span></div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Bottom-up</span>
+                  <span className="font-medium">{evm.eac.bottomUp === null ? "—" : formatMillions(evm.eac.bottomUp)}</span>
+                </div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm">Performance Indices</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1 text-sm">
+                <div className="flex justify-between"><span className="text-muted-foreground">CPI</span><span className="font-medium">{formatIndex(evm.cpi)}</span></div>
+                <div className="flex justify-between"><span className="text-muted-foreground">SPI</span><span className="font-medium">{formatIndex(evm.spi)}</span></div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">TCPI</span>
+                  <span className="font-medium">{evm.tcpi === null ? "Over budget" : evm.tcpi.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">GC/GR Index</span>
+                  <span className="font-medium">{earnedValue.gcgrPerformanceIndex.toFixed(2)}</span>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Activity className="h-5 w-5 text-blue-600" />
+                {earnedValue.projects.length === 1 ? "Earned Value by Cost Code" : "Earned Value by Project"}
+              </CardTitle>
+              <CardDescription>
+                {statusDate ? `Status date ${statusDate}. ` : ""}
+                EV from Sage percent complete (or the latest certified pay application); PV from the owner draw forecast or baseline schedule
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left p-2">{earnedValue.projects.length === 1 ? "Cost Code" : "Project"}</th>
+                      <th className="text-right p-2">BAC</th>
+                      <th className="text-right p-2">PV</th>
+                      <th className="text-right p-2">EV</th>
+                      <th className="text-right p-2">AC</th>
+                      <th className="text-right p-2">CPI</th>
+                      <th className="text-right p-2">SPI</th>
+                      <th className="text-right p-2">EAC</th>
+                      <th className="text-right p-2">VAC</th>
+                      <th className="text-right p-2">TCPI</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {earnedValueRows.map(({ key, label, detail, metrics }) => (
+                      <tr key={key} className="border-b hover:bg-muted/50">
+                        <td className="p-2">
+                          <div className="font-medium">{label}</div>
+                          <div className="text-xs text-muted-foreground">{detail}</div>
+                        </td>
+                        <td className="text-right p-2">{formatMillions(metrics.budgetAtCompletion)}</td>
+                        <td className="text-right p-2">{formatMillions(metrics.plannedValue)}</td>
+                        <td className="text-right p-2">{formatMillions(metrics.earnedValue)}</td>
+                        <td className="text-right p-2">{formatMillions(metrics.actualCost)}</td>
+                        <td className={`text-right p-2 font-medium ${(metrics.cpi ?? 1) < 1 ? "text-red-600" : "text-green-600"}`}>{formatIndex(metrics.cpi)}</td>
+                        <td className={`text-right p-2 font-medium ${(metrics.spi ?? 1) < 1 ? "text-yellow-600" : "text-green-600"}`}>{formatIndex(metrics.spi)}</td>
+                        <td className="text-right p-2">{formatMillions(metrics.eac.cpi)}</td>
+                        <td className={`text-right p-2 ${metrics.varianceAtCompletion < 0 ? "text-red-600" : ""}`}>{formatMillions(metrics.varianceAtCompletion)}</td>
+                        <td className="text-right p-2">{formatIndex(metrics.tcpi)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="forecast" className="space-y-6">
           <div className="grid gap-6 lg:grid-cols-2">
             {/* Risk Assessment */}
@@ -843,11 +1033,11 @@ export default function BudgetAnalysis({ userRole, projectData }: BudgetAnalysis
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold">
-                    {metric.current.toFixed(1)}%
+                    {formatMetric(metric.current, metric.format)}
                   </div>
                   <div className="flex items-center justify-between text-xs">
-                    <span className="text-muted-foreground">Target: {metric.target.toFixed(1)}%</span>
-                    <Badge variant={metric.trend === "improving" ? "default" : "secondary"}>
+                    <span className="text-muted-foreground">Target: {formatMetric(metric.target, metric.format)}</span>
+                    <Badge variant={["improving", "ahead", "achievable"].includes(metric.trend) ? "default" : "secondary"}>
                       {metric.trend}
                     </Badge>
                   </div>
@@ -1,6 +1,7 @@
 "use client";
 
-import { useState, useMemo } from "react";
+import { useEffect, useMemo, useState } from "react";
+import { format, parse } from "date-fns";
 import {
   DollarSign,
   TrendingUp,
@@ -23,8 +24,10 @@ import {
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   AreaChart,
   Area,
@@ -41,179 +44,218 @@ import {
   Pie,
   Cell,
   ComposedChart,
+  ReferenceLine,
 } from "recharts";
+import { useDataResource } from "@/hooks/use-data-resource";
+import { useProjectContext } from "@/context/project-context";
+import {
+  buildPortfolioCashFlow,
+  buildProjectCashFlow,
+  cashFlowAsOf,
+  combineMonthlyCashFlow,
+  defaultCashFlowAssumptions,
+} from "@/lib/financial/cash-flow";
+import type { CashFlowAssumptions, CashFlowInsight } from "@/types/cash-flow";
 
 interface CashFlowAnalysisProps {
   userRole: string;
   projectData: any;
 }
 
-// Mock cash flow data - in production this would come from the API
-const cashFlowData = {
-  projects: [
-    {
-      project_id: 2525840,
-      name: "Palm Beach Luxury Estate",
-      cashFlowData: {
-        summary: {
-          totalInflows: 53476271.19,
-          totalOutflows: 45261264.55,
-          netCashFlow: 8215006.64,
-          peakCashRequirement: 132675.42,
-          cashFlowAtRisk: 0,
-          workingCapital: 9732503.32,
-          lastUpdated: "2025-06-24T07:24:59Z"
-        },
-        monthlyData: [
-          {
-            month: "2024-06",
-            inflows: { ownerPayments: 133320.63, loans: 0.0, changeOrders: 0.0, retentionRelease: 0.0, other: 14813.4, total: 148134.03 },
-            outflows: { subcontractorPayments: 112323.78, materialCosts: 84242.84, laborCosts: 42121.42, equipmentCosts: 28080.95, overhead: 14040.47, other: -0.01, total: 280809.45 },
-            netCashFlow: -132675.42,
-            cumulativeCashFlow: -132675.42,
-            workingCapital: 5558662.29,
-            retentionHeld: 6666.03,
-            forecastAccuracy: 0.86
-          },
-          {
-            month: "2024-07",
-            inflows: { ownerPayments: 316085.54, loans: 0.0, changeOrders: 0.0, retentionRelease: 0.0, other: 35120.61, total: 351206.15 },
-            outflows: { subcontractorPayments: 99730.83, materialCosts: 74798.12, laborCosts: 37399.06, equipmentCosts: 24932.71, overhead: 12466.35, other: 0.01, total: 249327.08 },
-            netCashFlow: 101879.07,
-            cumulativeCashFlow: -30796.35,
-            workingCapital: 5609601.83,
-            retentionHeld: 22470.31,
-            forecastAccuracy: 0.92
-          },
-          {
-            month: "2024-08",
-            inflows: { ownerPayments: 617104.99, loans: 0.0, changeOrders: 0.0, retentionRelease: 0.0, other: 68567.22, total: 685672.21 },
-            outflows: { subcontractorPayments: 189872.59, materialCosts: 142404.44, laborCosts: 71202.22, equipmentCosts: 47468.15, overhead: 23734.07, other: 0.01, total: 474681.48 },
-            netCashFlow: 210990.73,
-            cumulativeCashFlow: 180194.38,
-            workingCapital: 5715097.19,
-            retentionHeld: 53325.56,
-            forecastAccuracy: 0.92
-          },
-          {
-            month: "2024-09",
-            inflows: { ownerPayments: 825770.46, loans: 0.0, changeOrders: 0.0, retentionRelease: 0.0, other: 91752.27, total: 917522.73 },
-            outflows: { subcontractorPayments: 284976.9, materialCosts: 213732.67, laborCosts: 106866.34, equipmentCosts: 71244.22, overhead: 35622.11, other: 0.0, total: 712442.24 },
-            netCashFlow: 205080.49,
-            cumulativeCashFlow: 385274.87,
-            workingCapital: 5817637.44,
-            retentionHeld: 94614.08,
-            forecastAccuracy: 0.93
-          },
-          {
-            month: "2024-10",
-            inflows: { ownerPayments: 987607.7, loans: 0.0, changeOrders: 0.0, retentionRelease: 0.0, other: 109734.19, total: 1097341.89 },
-            outflows: { subcontractorPayments: 409038.98, materialCosts: 306779.24, laborCosts: 153389.62, equipmentCosts: 102259.75, overhead: 51129.87, other: 0.0, total: 1022597.46 },
-            netCashFlow: 74744.43,
-            cumulativeCashFlow: 460019.3,
-            workingCapital: 5855009.65,
-            retentionHeld: 143994.47,
-            forecastAccuracy: 0.94
-          },
-          {
-            month: "2024-11",
-            inflows: { ownerPayments: 1140582.92, loans: 0.0, changeOrders: 10595.76, retentionRelease: 0.0, other: 116135.67, total: 1267314.35 },
-            outflows: { subcontractorPayments: 453275.24, materialCosts: 339956.43, laborCosts: 169978.21, equipmentCosts: 113318.81, overhead: 56659.41, other: 0.0, total: 1133188.1 },
-            netCashFlow: 134126.25,
-            cumulativeCashFlow: 594145.55,
-            workingCapital: 5922072.78,
-            retentionHeld: 201023.62,
-            forecastAccuracy: 0.94
-          }
-        ]
-      }
-    }
-  ]
-};
-
-// Advanced analytics data for insights
-const advancedMetrics = {
-  forecastAccuracy: {
-    current: 0.92,
-    trend: "improving",
-    target: 0.95
-  },
-  liquidityRatio: 4.2,
-  daysOfCashOnHand: 45,
-  burnRate: 850000,
-  riskFactors: [
-    { factor: "Seasonal Fluctuations", impact: "medium", probability: 0.6 },
-    { factor: "Payment Delays", impact: "high", probability: 0.3 },
-    { factor: "Cost Overruns", impact: "medium", probability: 0.4 }
-  ]
-};
-
-const inflowBreakdown = [
-  { name: "Owner Payments", value: 4719691.76, color: "#3b82f6", percentage: 88.2 },
-  { name: "Change Orders", value: 10595.76, color: "#10b981", percentage: 0.2 },
-  { name: "Other", value: 614351.98, color: "#f59e0b", percentage: 11.6 },
-];
+const ALL_PROJECTS = "all";
+
+const inflowColors = { ownerPayments: "#3b82f6", retentionRelease: "#10b981" };
+const outflowColors = { subcontractorPayments: "#ef4444", other: "#8b5cf6" };
 
-const outflowBreakdown = [
-  { name: "Subcontractors", value: 2023661.32, color: "#ef4444", percentage: 45.2 },
-  { name: "Materials", value: 1591761.76, color: "#8b5cf6", percentage: 35.6 },
-  { name: "Labor", value: 795880.88, color: "#06b6d4", percentage: 17.8 },
-  { name: "Equipment", value: 530587.25, color: "#f97316", percentage: 11.9 },
-  { name: "Overhead", value: 265293.62, color: "#84cc16", percentage: 5.9 },
+const monthLabel = (month: string) => format(parse(month, "yyyy-MM", new Date()), "MMM yy");
+
+const assumptionFields: { key: keyof CashFlowAssumptions; label: string; step?: number }[] = [
+  { key: "billingLagDays", label: "Billing Lag (days)" },
+  { key: "ownerTermsDays", label: "Owner Terms (days)" },
+  { key: "vendorTermsDays", label: "Vendor Terms (days)" },
+  { key: "ownerRetainagePercent", label: "Owner Retainage (%)", step: 0.5 },
+  { key: "vendorRetainagePercent", label: "Vendor Retainage (%)", step: 0.5 },
+  { key: "retainageReleaseDays", label: "Retainage Release (days)" },
 ];
 
 /**
  * Cash Flow Analysis Component
  *
  * Provides comprehensive cash flow analysis including:
- * - Real-time cash flow monitoring
- * - Predictive analytics and forecasting
- * - Risk assessment and liquidity analysis
+ * - Actual owner and vendor payments by month
+ * - Projection from the draw and GC/GR forecasts with billing lag, terms and retainage
+ * - Peak negative cash per project and across the portfolio
  * - Interactive visualizations
  *
  * @param userRole - Current user role for permissions
  * @param projectData - Project context data
  */
 export default function CashFlowAnalysis({ userRole, projectData }: CashFlowAnalysisProps) {
-  const [selectedPeriod, setSelectedPeriod] = useState("6months");
-  const [viewType, setViewType] = useState<"monthly" | "cumulative" | "forecast">("monthly");
+  const { projectId: contextProjectId } = useProjectContext();
+  const [selectedProjectId, setSelectedProjectId] = useState<string>(ALL_PROJECTS);
+  const [assumptions, setAssumptions] = useState<CashFlowAssumptions>(defaultCashFlowAssumptions);
+
+  useEffect(() => {
+    if (contextProjectId) setSelectedProjectId(contextProjectId);
+  }, [contextProjectId]);
+
+  // Every project loads so single jobs share the portfolio's as-of month
+  const { data: projects } = useDataResource("projects");
+  const { data: primePayments, isLoading: primeLoading } = useDataResource("prime-contract-payments");
+  const { data: vendorPayments, isLoading: vendorLoading } = useDataResource("vendor-payments");
+  const { data: forecasts, isLoading: forecastsLoading } = useDataResource("forecasts");
+  const { data: changeEvents } = useDataResource("change-events");
+  const { data: commitments, isLoading: commitmentsLoading } = useDataResource("commitments");
+  const isLoading = primeLoading || vendorLoading || forecastsLoading || commitmentsLoading;
 
-  // Get project-specific data
-  const projectCashFlow = cashFlowData.projects[0]; // In production, filter by project
-  const summary = projectCashFlow.cashFlowData.summary;
-  const monthlyData = projectCashFlow.cashFlowData.monthlyData;
+  const sources = useMemo(
+    () => ({ primePayments, vendorPayments, forecasts, changeEvents, commitments }),
+    [primePayments, vendorPayments, forecasts, changeEvents, commitments]
+  );
+  const asOf = useMemo(() => cashFlowAsOf(sources) ?? undefined, [sources]);
+  const isPortfolio = selectedProjectId === ALL_PROJECTS;
+
+  const portfolio = useMemo(
+    () => (isPortfolio ? buildPortfolioCashFlow(projects, sources, assumptions, asOf) : null),
+    [isPortfolio, projects, sources, assumptions, asOf]
+  );
+  const projectCashFlow = useMemo(() => {
+    if (isPortfolio) return null;
+    const project = projects.find((p) => String(p.project_id) === selectedProjectId);
+    return project ? buildProjectCashFlow(project, sources, assumptions, asOf) : null;
+  }, [isPortfolio, projects, selectedProjectId, sources, assumptions, asOf]);
+
+  const monthlyData = useMemo(
+    () =>
+      portfolio
+        ? combineMonthlyCashFlow(portfolio.projects.map((p) => p.cashFlowData.monthlyData))
+        : projectCashFlow?.cashFlowData.monthlyData ?? [],
+    [portfolio, projectCashFlow]
+  );
+  const insights: CashFlowInsight[] = useMemo(() => {
+    const all = portfolio
+      ? portfolio.projects.flatMap((p) => p.cashFlowData.aiInsights.map((i) => ({ ...i, title: `${p.name}: ${i.title}` })))
+      : projectCashFlow?.cashFlowData.aiInsights ?? [];
+    const rank = { critical: 0, warning: 1, info: 2, success: 3 };
+    return [...all].sort((a, b) => rank[a.type] - rank[b.type]).slice(0, 8);
+  }, [portfolio, projectCashFlow]);
 
   // Calculate key metrics
-  const totalInflows = summary.totalInflows;
-  const totalOutflows = summary.totalOutflows;
-  const netCashFlow = summary.netCashFlow;
-  const workingCapital = summary.workingCapital;
-  const peakRequirement = summary.peakCashRequirement;
+  const actualMonths = monthlyData.filter((m) => m.source === "actual");
+  const current = actualMonths[actualMonths.length - 1];
+  const totalInflows = monthlyData.reduce((sum, m) => sum + m.inflows.total, 0);
+  const totalOutflows = monthlyData.reduce((sum, m) => sum + m.outflows.total, 0);
+  const netCashFlow = totalInflows - totalOutflows;
+  const workingCapital = current?.workingCapital ?? 0;
+  const currentPosition = current?.cumulativeCashFlow ?? 0;
+  const peak = monthlyData.reduce<(typeof monthlyData)[number] | null>(
+    (lowest, m) => (m.cumulativeCashFlow < (lowest?.cumulativeCashFlow ?? 0) ? m : lowest),
+    null
+  );
+  const peakRequirement = peak ? -peak.cumulativeCashFlow : 0;
 
   // Calculate performance metrics
-  const cashFlowMargin = ((netCashFlow / totalInflows) * 100);
-  const averageMonthlyInflow = totalInflows / monthlyData.length;
-  const averageMonthlyOutflow = totalOutflows / monthlyData.length;
-  const forecastAccuracy = monthlyData.reduce((sum, m) => sum + m.forecastAccuracy, 0) / monthlyData.length;
+  const cashFlowMargin = totalInflows > 0 ? (netCashFlow / totalInflows) * 100 : 0;
+  const averageMonthlyInflow = monthlyData.length > 0 ? totalInflows / monthlyData.length : 0;
+  const averageMonthlyOutflow = monthlyData.length > 0 ? totalOutflows / monthlyData.length : 0;
+  const actualInflows = actualMonths.reduce((sum, m) => sum + m.inflows.total, 0);
+  const actualOutflows = actualMonths.reduce((sum, m) => sum + m.outflows.total, 0);
+  const liquidityRatio = actualOutflows > 0 ? actualInflows / actualOutflows : 0;
+  const burnRate = actualMonths.length > 0 ? actualOutflows / actualMonths.length : 0;
+  const daysOfCashOnHand = burnRate > 0 ? Math.max(0, Math.round(currentPosition / (burnRate / 30))) : 0;
+  const accuracies = actualMonths.map((m) => m.forecastAccuracy).filter((a): a is number => a !== undefined);
+  const forecastAccuracy = accuracies.length > 0 ? accuracies.reduce((sum, a) => sum + a, 0) / accuracies.length : 0;
 
   // Transform data for charts
   const chartData = monthlyData.map(month => ({
-    month: new Date(month.month).toLocaleDateString('en-US', { month: 'short' }),
+    month: monthLabel(month.month),
+    projected: month.source === "projected",
     inflows: month.inflows.total,
     outflows: month.outflows.total,
     netCashFlow: month.netCashFlow,
     cumulativeCashFlow: month.cumulativeCashFlow,
     workingCapital: month.workingCapital,
     retentionHeld: month.retentionHeld,
-    forecastAccuracy: month.forecastAccuracy * 100,
+    forecastAccuracy: month.forecastAccuracy !== undefined ? month.forecastAccuracy * 100 : undefined,
   }));
+  const asOfLabel = current ? monthLabel(current.month) : undefined;
+
+  const breakdown = (entries: { name: string; value: number; color: string }[]) => {
+    const total = entries.reduce((sum, e) => sum + e.value, 0);
+    return entries
+      .filter((e) => e.value > 0)
+      .map((e) => ({ ...e, percentage: total > 0 ? Math.round((e.value / total) * 1000) / 10 : 0 }));
+  };
+  const inflowBreakdown = breakdown([
+    { name: "Owner Payments", value: monthlyData.reduce((sum, m) => sum + m.inflows.ownerPayments, 0), color: inflowColors.ownerPayments },
+    { name: "Retainage Release", value: monthlyData.reduce((sum, m) => sum + m.inflows.retentionRelease, 0), color: inflowColors.retentionRelease },
+  ]);
+  const outflowBreakdown = breakdown([
+    { name: "Vendor Payments", value: monthlyData.reduce((sum, m) => sum + m.outflows.subcontractorPayments, 0), color: outflowColors.subcontractorPayments },
+    { name: "Retainage to Vendors", value: monthlyData.reduce((sum, m) => sum + m.outflows.other, 0), color: outflowColors.other },
+  ]);
 
   // Risk assessment
-  const riskLevel = peakRequirement > 200000 ? "high" : 
-                   peakRequirement > 100000 ? "medium" : "low";
+  const riskLevel = peakRequirement > 1000000 ? "high" :
+                   peakRequirement > 0 ? "medium" : "low";
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <Clock className="h-8 w-8 animate-spin text-primary mx-auto mb-4" />
+          <p className="text-muted-foreground">Loading cash flow...</p>
+        </div>
+      </div>
+    );
+  }
 
   return (
     <div className="space-y-6">
+      {/* Scope and Assumptions */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Banknote className="h-5 w-5" />
+              Cash Flow Model
+            </CardTitle>
+            <CardDescription>
+              Owner and vendor payments through {asOfLabel ?? "today"}, projected from the draw and GC/GR forecasts
+            </CardDescription>
+          </div>
+          <Select value={selectedProjectId} onValueChange={setSelectedProjectId}>
+            <SelectTrigger className="w-[240px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_PROJECTS}>All Projects (Portfolio)</SelectItem>
+              {projects.map((p) => (
+                <SelectItem key={p.project_id} value={String(p.project_id)}>
+                  {p.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            {assumptionFields.map((field) => (
+              <div key={field.key} className="space-y-1">
+                <Label>{field.label}</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  step={field.step ?? 1}
+                  value={assumptions[field.key]}
+                  onChange={(e) => setAssumptions((prev) => ({ ...prev, [field.key]: Math.max(0, Number(e.target.value)) }))}
+                />
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Key Metrics Cards */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card className="bg-gradient-to-br from-blue-50 to-blue-100 dark:from-blue-950 dark:to-blue-900 border-blue-200 dark:border-blue-800">
@@ -283,7 +325,7 @@ export default function CashFlowAnalysis({ userRole, projectData }: CashFlowAnal
               ${(workingCapital / 1000000).toFixed(1)}M
             </div>
             <p className="text-xs text-purple-600 dark:text-purple-400">
-              Liquidity ratio: {advancedMetrics.liquidityRatio}
+              Liquidity ratio: {liquidityRatio.toFixed(2)}
             </p>
           </CardContent>
         </Card>
@@ -304,7 +346,7 @@ export default function CashFlowAnalysis({ userRole, projectData }: CashFlowAnal
               <div>
                 <p className="text-sm font-medium text-indigo-800 dark:text-indigo-200">Forecast Accuracy</p>
                 <p className="text-xs text-indigo-700 dark:text-indigo-300">
-                  Current accuracy at {(forecastAccuracy * 100).toFixed(1)}% with improving trend. Target: 95%
+                  Draw forecast within {(forecastAccuracy * 100).toFixed(1)}% of owner payments received. Target: 95%
                 </p>
               </div>
             </div>
@@ -313,7 +355,7 @@ export default function CashFlowAnalysis({ userRole, projectData }: CashFlowAnal
               <div>
                 <p className="text-sm font-medium text-indigo-800 dark:text-indigo-200">Cash Runway</p>
                 <p className="text-xs text-indigo-700 dark:text-indigo-300">
-                  {advancedMetrics.daysOfCashOnHand} days of operations covered by current working capital
+                  {daysOfCashOnHand} days of vendor payments covered by the current cash position
                 </p>
               </div>
             </div>
@@ -324,6 +366,11 @@ export default function CashFlowAnalysis({ userRole, projectData }: CashFlowAnal
                 <Badge variant={riskLevel === "high" ? "destructive" : riskLevel === "medium" ? "secondary" : "default"}>
                   {riskLevel.toUpperCase()}
                 </Badge>
+                <p className="text-xs text-indigo-700 dark:text-indigo-300 mt-1">
+                  {peak
+                    ? `Peak negative cash $${(peakRequirement / 1000).toFixed(0)}K in ${monthLabel(peak.month)}`
+                    : "Cumulative cash stays positive"}
+                </p>
               </div>
             </div>
           </div>
@@ -360,7 +407,7 @@ export default function CashFlowAnalysis({ userRole, projectData }: CashFlowAnal
                   <Droplets className="h-5 w-5 text-blue-600" />
                   Cash Flow Trends
                 </CardTitle>
-                <CardDescription>Monthly inflows, outflows, and net cash flow</CardDescription>
+                <CardDescription>Monthly inflows, outflows, and net cash flow; months after {asOfLabel ?? "today"} are projected</CardDescription>
               </CardHeader>
               <CardContent>
                 <ResponsiveContainer width="100%" height={400}>
@@ -375,6 +422,7 @@ export default function CashFlowAnalysis({ userRole, projectData }: CashFlowAnal
                     <Bar dataKey="inflows" fill="#10b981" name="Inflows" opacity={0.8} />
                     <Bar dataKey="outflows" fill="#ef4444" name="Outflows" opacity={0.8} />
                     <Line type="monotone" dataKey="netCashFlow" stroke="#3b82f6" strokeWidth={3} name="Net Flow" />
+                    {asOfLabel && <ReferenceLine x={asOfLabel} stroke="#64748b" strokeDasharray="4 4" label="As of" />}
                   </ComposedChart>
                 </ResponsiveContainer>
               </CardContent>
@@ -387,7 +435,7 @@ export default function CashFlowAnalysis({ userRole, projectData }: CashFlowAnal
                   <TrendingUp className="h-5 w-5 text-green-600" />
                   Cumulative Position
                 </CardTitle>
-                <CardDescription>Running cash flow balance</CardDescription>
+                <CardDescription>Running cash position; peak requirement is its lowest point</CardDescription>
               </CardHeader>
               <CardContent>
                 <ResponsiveContainer width="100%" height={300}>
@@ -396,6 +444,8 @@ export default function CashFlowAnalysis({ userRole, projectData }: CashFlowAnal
                     <XAxis dataKey="month" />
                     <YAxis tickFormatter={(value) => `$${(value / 1000).toFixed(0)}K`} />
                     <Tooltip formatter={(value: number) => [`$${(value / 1000).toFixed(0)}K`, ""]} />
+                    <ReferenceLine y={0} stroke="#ef4444" />
+                    {asOfLabel && <ReferenceLine x={asOfLabel} stroke="#64748b" strokeDasharray="4 4" />}
                     <Area 
                       type="monotone" 
                       dataKey="cumulativeCashFlow" 
@@ -416,7 +466,7 @@ export default function CashFlowAnalysis({ userRole, projectData }: CashFlowAnal
                   <Building2 className="h-5 w-5 text-purple-600" />
                   Working Capital
                 </CardTitle>
-                <CardDescription>Available liquidity over time</CardDescription>
+                <CardDescription>Cash position plus retainage receivable less retainage payable</CardDescription>
               </CardHeader>
               <CardContent>
                 <ResponsiveContainer width="100%" height={300}>
@@ -449,14 +499,14 @@ export default function CashFlowAnalysis({ userRole, projectData }: CashFlowAnal
                   <Target className="h-5 w-5 text-blue-600" />
                   Forecast Accuracy
                 </CardTitle>
-                <CardDescription>Monthly prediction accuracy trends</CardDescription>
+                <CardDescription>Draw forecast against owner payments received</CardDescription>
               </CardHeader>
               <CardContent>
                 <ResponsiveContainer width="100%" height={300}>
-                  <LineChart data={chartData}>
+                  <LineChart data={chartData.filter((m) => !m.projected)}>
                     <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
                     <XAxis dataKey="month" />
-                    <YAxis domain={[80, 100]} tickFormatter={(value) => `${value}%`} />
+                    <YAxis domain={[0, 100]} tickFormatter={(value) => `${value}%`} />
                     <Tooltip formatter={(value: number) => [`${value.toFixed(1)}%`, ""]} />
                     <Line 
                       type="monotone" 
@@ -470,29 +520,33 @@ export default function CashFlowAnalysis({ userRole, projectData }: CashFlowAnal
               </CardContent>
             </Card>
 
-            {/* Risk Factors */}
+            {/* Cash Flow Insights */}
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <AlertTriangle className="h-5 w-5 text-orange-600" />
                   Risk Assessment
                 </CardTitle>
-                <CardDescription>Potential cash flow risk factors</CardDescription>
+                <CardDescription>Liquidity risks found in the projection</CardDescription>
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {advancedMetrics.riskFactors.map((risk, index) => (
-                    <div key={index} className="space-y-2">
-                      <div className="flex items-center justify-between text-sm">
-                        <span className="font-medium">{risk.factor}</span>
-                        <div className="flex items-center gap-2">
-                          <Badge variant={risk.impact === "high" ? "destructive" : risk.impact === "medium" ? "secondary" : "default"}>
-                            {risk.impact}
-                          </Badge>
-                          <span className="text-muted-foreground">{(risk.probability * 100).toFixed(0)}%</span>
-                        </div>
+                  {insights.length === 0 && (
+                    <p className="text-sm text-muted-foreground flex items-center gap-2">
+                      <CheckCircle className="h-4 w-4 text-green-600" />
+                      No cash flow risks in the projection
+                    </p>
+                  )}
+                  {insights.map((insight) => (
+                    <div key={insight.id} className="space-y-1">
+                      <div className="flex items-center justify-between gap-2 text-sm">
+                        <span className="font-medium">{insight.title}</span>
+                        <Badge variant={insight.type === "critical" ? "destructive" : insight.type === "warning" ? "secondary" : "default"}>
+                          {insight.impact}
+                        </Badge>
                       </div>
-                      <Progress value={risk.probability * 100} className="h-2" />
+                      <p className="text-xs text-muted-foreground">{insight.description}</p>
+                      <p className="text-xs">{insight.recommendation}</p>
                     </div>
                   ))}
                 </div>
@@ -597,8 +651,8 @@ export default function CashFlowAnalysis({ userRole, projectData }: CashFlowAnal
                 <CardTitle className="text-sm">Burn Rate</CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold">${(advancedMetrics.burnRate / 1000).toFixed(0)}K</div>
-                <p className="text-xs text-muted-foreground">Monthly spending rate</p>
+                <div className="text-2xl font-bold">${(burnRate / 1000).toFixed(0)}K</div>
+                <p className="text-xs text-muted-foreground">Average monthly vendor payments</p>
               </CardContent>
             </Card>
 
@@ -607,7 +661,7 @@ export default function CashFlowAnalysis({ userRole, projectData }: CashFlowAnal
                 <CardTitle className="text-sm">Cash Days</CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold">{advancedMetrics.daysOfCashOnHand}</div>
+                <div className="text-2xl font-bold">{daysOfCashOnHand}</div>
                 <p className="text-xs text-muted-foreground">Days of operations</p>
               </CardContent>
             </Card>
@@ -618,7 +672,9 @@ export default function CashFlowAnalysis({ userRole, projectData }: CashFlowAnal
               </CardHeader>
               <CardContent>
                 <div className="text-2xl font-bold">${(peakRequirement / 1000).toFixed(0)}K</div>
-                <p className="text-xs text-muted-foreground">Maximum negative flow</p>
+                <p className="text-xs text-muted-foreground">
+                  {peak ? `Lowest cash position, ${monthLabel(peak.month)}` : "Cash never goes negative"}
+                </p>
               </CardContent>
             </Card>
 
@@ -652,13 +708,17 @@ export default function CashFlowAnalysis({ userRole, projectData }: CashFlowAnal
                       <th className="text-right p-2">Outflows</th>
                       <th className="text-right p-2">Net Flow</th>
                       <th className="text-right p-2">Cumulative</th>
+                      <th className="text-right p-2">Retainage Held</th>
                       <th className="text-right p-2">Accuracy</th>
                     </tr>
                   </thead>
                   <tbody>
                     {chartData.map((month, index) => (
                       <tr key={index} className="border-b hover:bg-muted/50">
-                        <td className="p-2 font-medium">{month.month}</td>
+                        <td className="p-2 font-medium">
+                          {month.month}
+                          {month.projected && <Badge variant="outline" className="ml-2">Projected</Badge>}
+                        </td>
                         <td className="text-right p-2 text-green-600">
                           ${(month.inflows / 1000).toFixed(0)}K
                         </td>
@@ -670,13 +730,20 @@ export default function CashFlowAnalysis({ userRole, projectData }: CashFlowAnal
                         }`}>
                           ${(month.netCashFlow / 1000).toFixed(0)}K
                         </td>
-                        <td className="text-right p-2">
+                        <td className={`text-right p-2 ${month.cumulativeCashFlow < 0 ? 'text-red-600 font-medium' : ''}`}>
                           ${(month.cumulativeCashFlow / 1000).toFixed(0)}K
                         </td>
                         <td className="text-right p-2">
-                          <Badge variant={month.forecastAccuracy >= 95 ? "default" : month.forecastAccuracy >= 90 ? "secondary" : "destructive"}>
-                            {month.forecastAccuracy.toFixed(0)}%
-                          </Badge>
+                          ${(month.retentionHeld / 1000).toFixed(0)}K
+                        </td>
+                        <td className="text-right p-2">
+                          {month.forecastAccuracy === undefined ? (
+                            <span className="text-muted-foreground">—</span>
+                          ) : (
+                            <Badge variant={month.forecastAccuracy >= 95 ? "default" : month.forecastAccuracy >= 90 ? "secondary" : "destructive"}>
+                              {month.forecastAccuracy.toFixed(0)}%
+                            </Badge>
+                          )}
                         </td>
                       </tr>
                     ))}
@@ -685,6 +752,64 @@ export default function CashFlowAnalysis({ userRole, projectData }: CashFlowAnal
               </div>
             </CardContent>
           </Card>
+
+          {/* Portfolio by Project */}
+          {portfolio && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Building2 className="h-5 w-5 text-purple-600" />
+                  Cash Position by Project
+                </CardTitle>
+                <CardDescription>
+                  Portfolio peak requirement ${(portfolio.portfolioSummary.aggregatedMetrics.peakCashRequirement / 1000).toFixed(0)}K
+                  {portfolio.portfolioSummary.aggregatedMetrics.peakCashMonth
+                    ? ` in ${monthLabel(portfolio.portfolioSummary.aggregatedMetrics.peakCashMonth)}`
+                    : ""}
+                  {" "}across {portfolio.portfolioSummary.totalProjects} projects
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-left p-2">Project</th>
+                        <th className="text-right p-2">Current Position</th>
+                        <th className="text-right p-2">Peak Requirement</th>
+                        <th className="text-left p-2">Peak Month</th>
+                        <th className="text-right p-2">Retainage Held</th>
+                        <th className="text-right p-2">Net at Completion</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {[...portfolio.projects]
+                        .sort((a, b) => b.cashFlowData.summary.peakCashRequirement - a.cashFlowData.summary.peakCashRequirement)
+                        .map((project) => {
+                          const projectSummary = project.cashFlowData.summary;
+                          return (
+                            <tr
+                              key={project.project_id}
+                              className="border-b hover:bg-muted/50 cursor-pointer"
+                              onClick={() => setSelectedProjectId(String(project.project_id))}
+                            >
+                              <td className="p-2 font-medium">{project.name}</td>
+                              <td className="text-right p-2">${((projectSummary.currentCashPosition ?? 0) / 1000).toFixed(0)}K</td>
+                              <td className={`text-right p-2 ${projectSummary.peakCashRequirement > 0 ? 'text-red-600 font-medium' : ''}`}>
+                                ${(projectSummary.peakCashRequirement / 1000).toFixed(0)}K
+                              </td>
+                              <td className="p-2">{projectSummary.peakCashMonth ? monthLabel(projectSummary.peakCashMonth) : "—"}</td>
+                              <td className="text-right p-2">${(projectSummary.cashFlowAtRisk / 1000).toFixed(0)}K</td>
+                              <td className="text-right p-2">${(projectSummary.netCashFlow / 1000).toFixed(0)}K</td>
+                            </tr>
+                          );
+                        })}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
         </TabsContent>
       </Tabs>
     </div>
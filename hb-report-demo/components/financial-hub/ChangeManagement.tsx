@@ -1,59 +1,298 @@
 "use client";
 
-import React from "react";
-import { GitBranch, TrendingUp, Clock, CheckCircle, XCircle } from "lucide-react";
+import React, { useState, useEffect, useMemo } from "react";
+import { GitBranch, TrendingUp, Clock, CheckCircle, XCircle, Plus, Trash2, FileText, Ban } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/context/auth-context";
+import { useProjectContext } from "@/context/project-context";
+import { useDataResource } from "@/hooks/use-data-resource";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useToast } from "@/hooks/use-toast";
+import { getDataSource } from "@/lib/data";
+import {
+  allowedTransitions,
+  applyChangeEventsToBudget,
+  applyChangeEventsToCommitments,
+  applyChangeEventsToPrimeContract,
+  budgetChangeImpacts,
+  changeAging,
+  changeStageLabels,
+  createOwnerCo,
+  createPco,
+  createSubcontractCos,
+  currentStage,
+  eventCost,
+  eventRevenue,
+  nextDocumentNumber,
+  setDocumentStatus,
+  voidChangeEvent,
+} from "@/lib/financial/change-orders";
+import type {
+  ChangeDocument,
+  ChangeDocumentStatus,
+  ChangeEvent,
+  ChangeEventReason,
+  ChangeEventScope,
+  ChangeLineItem,
+} from "@/types/change-orders";
 
 interface ChangeManagementProps {
   userRole: string;
   projectData: any;
 }
 
+const statusStyles: Record<string, string> = {
+  open: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
+  draft: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200",
+  pending: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+  approved: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  rejected: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  closed: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  void: "bg-gray-100 text-gray-500 dark:bg-gray-800 dark:text-gray-400",
+};
+
+const reasonLabels: Record<ChangeEventReason, string> = {
+  "owner-request": "Owner Request",
+  "design-change": "Design Change",
+  "unforeseen-condition": "Unforeseen Condition",
+  "code-requirement": "Code Requirement",
+  "scope-gap": "Scope Gap",
+};
+
+// What moving a document into each status is called
+const transitionLabels: Record<ChangeDocumentStatus, string> = {
+  pending: "Submit",
+  approved: "Approve",
+  rejected: "Reject",
+  draft: "Revise",
+};
+
+const NO_COMMITMENT = "none";
+
+interface EventForm {
+  title: string;
+  description: string;
+  reason: ChangeEventReason;
+  scope: ChangeEventScope;
+  markupPercent: string;
+  lineItems: ChangeLineItem[];
+}
+
+const emptyLine = (): ChangeLineItem => ({ id: `line-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`, budgetCode: "", description: "", cost: 0 });
+
+const emptyEventForm = (): EventForm => ({
+  title: "",
+  description: "",
+  reason: "owner-request",
+  scope: "out-of-scope",
+  markupPercent: "10",
+  lineItems: [emptyLine()],
+});
+
+/**
+ * Change order lifecycle: change events priced as PCOs, issued to the owner as prime
+ * contract COs and bought out as subcontract COs, posting to the project budget and
+ * contracts as each document is approved.
+ */
 export default function ChangeManagement({ userRole, projectData }: ChangeManagementProps) {
-  const getChangeOrderData = () => {
-    switch (userRole) {
-      case 'project-manager':
-        return {
-          approved: 5,
-          pending: 2,
-          rejected: 1,
-          totalValue: 864509,
-          approvedValue: 685000,
-          pendingValue: 179509
-        };
-      case 'project-executive':
-        return {
-          approved: 15,
-          pending: 7,
-          rejected: 3,
-          totalValue: 4440000,
-          approvedValue: 3200000,
-          pendingValue: 1240000
-        };
-      default:
-        return {
-          approved: 28,
-          pending: 12,
-          rejected: 6,
-          totalValue: 6870000,
-          approvedValue: 5100000,
-          pendingValue: 1770000
-        };
-    }
-  };
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const { projectId: contextProjectId } = useProjectContext();
+
+  const { data: projects } = useDataResource("projects");
+  const [selectedProjectId, setSelectedProjectId] = useState<string>("");
+  const [selectedEventId, setSelectedEventId] = useState<string | null>(null);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [eventForm, setEventForm] = useState<EventForm>(emptyEventForm);
+  const [decisionComment, setDecisionComment] = useState("");
+
+  // Follow the project picked in the header; otherwise default to the first project
+  useEffect(() => {
+    if (contextProjectId && contextProjectId !== "all") setSelectedProjectId(contextProjectId);
+    else if (!selectedProjectId && projects.length > 0) setSelectedProjectId(String(projects[0].project_id));
+  }, [contextProjectId, projects]);
 
-  const data = getChangeOrderData();
+  const query = { projectId: selectedProjectId || undefined };
+  const { data: budget } = useDataResource("budget", query);
+  const { data: commitments } = useDataResource("commitments", query);
+  const { data: primeContracts } = useDataResource("prime-contracts", query);
+  const { data: events, setData: setEvents } = useDataResource("change-events", query);
+
+  const selectedEvent = events.find((e) => e.id === selectedEventId) ?? null;
+  const currentUserName = user ? `${user.firstName} ${user.lastName}` : "Unknown User";
+  const canCreate = can("financial-hub", "create", selectedProjectId);
+  const canEdit = can("financial-hub", "edit", selectedProjectId);
+  const canApprove = can("financial-hub", "approve", selectedProjectId);
+
+  const adjustedBudget = useMemo(() => applyChangeEventsToBudget(budget, events), [budget, events]);
+  const impacts = useMemo(() => budgetChangeImpacts(events, budget), [events, budget]);
+  const aging = useMemo(() => changeAging(events), [events]);
+  const adjustedCommitments = useMemo(() => applyChangeEventsToCommitments(commitments, events), [commitments, events]);
+  const adjustedPrime = useMemo(
+    () => (primeContracts[0] ? applyChangeEventsToPrimeContract(primeContracts[0], events) : null),
+    [primeContracts, events]
+  );
+
+  const budgetByCode = useMemo(() => new Map(budget.map((line) => [line["Budget Code"], line])), [budget]);
+  const adjustedByCode = useMemo(() => new Map(adjustedBudget.map((line) => [line["Budget Code"], line])), [adjustedBudget]);
+
+  const data = useMemo(() => {
+    const live = events.filter((e) => e.status !== "void");
+    const ownerDecision = (e: ChangeEvent) => (e.scope === "in-scope" ? e.pco?.status : e.ownerCo?.status);
+    const approved = live.filter((e) => ownerDecision(e) === "approved");
+    const rejected = live.filter((e) => ownerDecision(e) === "rejected" || e.pco?.status === "rejected");
+    const pending = live.filter((e) => !approved.includes(e) && !rejected.includes(e));
+    const value = (list: ChangeEvent[]) => list.reduce((sum, e) => sum + (e.scope === "in-scope" ? eventCost(e) : eventRevenue(e)), 0);
+    return {
+      approved: approved.length,
+      pending: pending.length,
+      rejected: rejected.length,
+      totalValue: value(live),
+      approvedValue: value(approved),
+      pendingValue: value(pending),
+    };
+  }, [events]);
 
   const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
     }).format(value);
   };
 
+  const saveEvent = async (event: ChangeEvent, isNew = false) => {
+    const source = getDataSource();
+    let saved = event;
+    if (isNew && source.create) saved = await source.create("change-events", event);
+    else if (!isNew && source.update) saved = await source.update("change-events", event.id, event);
+    setEvents((prev) => (isNew ? [...prev, saved] : prev.map((e) => (e.id === saved.id ? saved : e))));
+  };
+
+  // Applies a pipeline step, reporting steps the current state doesn't allow
+  const applyStep = async (updated: ChangeEvent | null, success: string) => {
+    if (!updated) {
+      toast({ title: "Not Allowed", description: "That step isn't available for this change event.", variant: "destructive" });
+      return;
+    }
+    try {
+      await saveEvent(updated);
+      setDecisionComment("");
+      toast({ title: success, description: `${updated.number} · ${updated.title}` });
+    } catch (error) {
+      console.error("Failed to save change event:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save change event",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const allNumbers = (pick: (e: ChangeEvent) => (string | undefined)[]) => events.flatMap((e) => pick(e).filter((n): n is string => !!n));
+
+  const submitNewEvent = async () => {
+    const lineItems = eventForm.lineItems.filter((line) => line.budgetCode && line.cost !== 0);
+    if (!eventForm.title.trim() || lineItems.length === 0) {
+      toast({ title: "Missing Information", description: "Add a title and at least one priced line item.", variant: "destructive" });
+      return;
+    }
+    const now = new Date().toISOString();
+    const number = nextDocumentNumber("CE", allNumbers((e) => [e.number]));
+    const event: ChangeEvent = {
+      id: `ce-${selectedProjectId}-${number.slice(3)}`,
+      projectId: Number(selectedProjectId),
+      number,
+      title: eventForm.title.trim(),
+      description: eventForm.description,
+      reason: eventForm.reason,
+      scope: eventForm.scope,
+      markupPercent: Number(eventForm.markupPercent) || 0,
+      status: "open",
+      lineItems,
+      subcontractCos: [],
+      history: [],
+      createdBy: currentUserName,
+      createdAt: now,
+      updatedAt: now,
+    };
+    try {
+      await saveEvent(event, true);
+      setShowCreateModal(false);
+      setEventForm(emptyEventForm());
+      toast({ title: "Change Event Created", description: `${number} · ${event.title}` });
+    } catch (error) {
+      console.error("Failed to create change event:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create change event",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const updateLine = (id: string, changes: Partial<ChangeLineItem>) => {
+    setEventForm((prev) => ({ ...prev, lineItems: prev.lineItems.map((line) => (line.id === id ? { ...line, ...changes } : line)) }));
+  };
+
+  const statusBadge = (status: string) => <Badge className={`${statusStyles[status] ?? ""} capitalize`}>{status}</Badge>;
+
+  const documentCell = (document?: ChangeDocument) =>
+    document ? (
+      <div className="space-y-1">
+        <div className="text-xs text-muted-foreground">{document.number}</div>
+        {statusBadge(document.status)}
+      </div>
+    ) : (
+      <span className="text-muted-foreground">—</span>
+    );
+
+  // Submit/revise needs edit rights; approve/reject needs approve rights
+  const transitionButtons = (
+    document: ChangeDocument,
+    move: (status: ChangeDocumentStatus) => ChangeEvent | null
+  ) =>
+    allowedTransitions(document.status)
+      .filter((status) => (status === "approved" || status === "rejected" ? canApprove : canEdit))
+      .map((status) => (
+        <Button
+          key={status}
+          size="sm"
+          variant={status === "approved" ? "default" : "outline"}
+          onClick={() => applyStep(move(status), `${document.number} moved to ${status}`)}
+        >
+          {transitionLabels[status]}
+        </Button>
+      ));
+
+  const renderDocumentRow = (label: string, document: ChangeDocument, amount: number, move: (status: ChangeDocumentStatus) => ChangeEvent | null) => (
+    <div className="flex items-center justify-between border rounded-md p-3">
+      <div>
+        <div className="font-medium">
+          {label} · {document.number}
+        </div>
+        <div className="text-xs text-muted-foreground">
+          {formatCurrency(amount)} · since {document.statusDate.slice(0, 10)}
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        {statusBadge(document.status)}
+        {selectedEvent?.status === "open" && transitionButtons(document, move)}
+      </div>
+    </div>
+  );
+
   return (
     <div className="space-y-6">
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
@@ -103,26 +342,499 @@ export default function ChangeManagement({ userRole, projectData }: ChangeManage
       </div>
 
       <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <GitBranch className="h-5 w-5" />
-            Change Order Management
-          </CardTitle>
-          <CardDescription>
-            Track and manage change orders and their financial impact
-          </CardDescription>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <GitBranch className="h-5 w-5" />
+              Change Order Management
+            </CardTitle>
+            <CardDescription>
+              Change events through PCOs, owner change orders and subcontract change orders
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={selectedProjectId} onValueChange={setSelectedProjectId}>
+              <SelectTrigger className="w-[240px]">
+                <SelectValue placeholder="Select project" />
+              </SelectTrigger>
+              <SelectContent>
+                {projects.map((p) => (
+                  <SelectItem key={p.project_id} value={String(p.project_id)}>
+                    {p.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {canCreate && (
+              <Button onClick={() => setShowCreateModal(true)} disabled={!selectedProjectId}>
+                <Plus className="h-4 w-4 mr-1" />
+                Change Event
+              </Button>
+            )}
+          </div>
         </CardHeader>
         <CardContent>
-          <div className="text-center py-12">
-            <GitBranch className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-            <h3 className="text-lg font-medium mb-2">Change Order Tracking</h3>
-            <p className="text-muted-foreground max-w-md mx-auto">
-              Comprehensive change order management system with approval workflows, 
-              financial impact analysis, and real-time status tracking.
-            </p>
-          </div>
+          <Tabs defaultValue="pipeline" className="space-y-4">
+            <TabsList>
+              <TabsTrigger value="pipeline">Pipeline</TabsTrigger>
+              <TabsTrigger value="budget">Budget Impact</TabsTrigger>
+              <TabsTrigger value="contracts">Contracts</TabsTrigger>
+              <TabsTrigger value="aging">Aging</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="pipeline">
+              {events.length === 0 ? (
+                <div className="text-center py-12">
+                  <GitBranch className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <h3 className="text-lg font-medium mb-2">No Change Events</h3>
+                  <p className="text-muted-foreground">Log a change event to start pricing a change.</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Event</TableHead>
+                      <TableHead>Scope</TableHead>
+                      <TableHead className="text-right">Cost</TableHead>
+                      <TableHead className="text-right">Owner Price</TableHead>
+                      <TableHead>PCO</TableHead>
+                      <TableHead>Owner CO</TableHead>
+                      <TableHead>Subcontract COs</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {events.map((event) => (
+                      <TableRow key={event.id} className="cursor-pointer" onClick={() => setSelectedEventId(event.id)}>
+                        <TableCell>
+                          <div className="font-medium">
+                            {event.number} · {event.title}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {reasonLabels[event.reason]} · {changeStageLabels[currentStage(event)]}
+                          </div>
+                        </TableCell>
+                        <TableCell className="capitalize">{event.scope.replace(/-/g, " ")}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(eventCost(event))}</TableCell>
+                        <TableCell className="text-right">{event.scope === "in-scope" ? "—" : formatCurrency(eventRevenue(event))}</TableCell>
+                        <TableCell>{documentCell(event.pco)}</TableCell>
+                        <TableCell>{event.scope === "in-scope" ? <span className="text-xs text-muted-foreground">Contingency</span> : documentCell(event.ownerCo)}</TableCell>
+                        <TableCell>
+                          {event.subcontractCos.length === 0 ? (
+                            <span className="text-muted-foreground">—</span>
+                          ) : (
+                            <div className="flex flex-wrap gap-1">{event.subcontractCos.map((co) => <span key={co.id}>{statusBadge(co.status)}</span>)}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>{statusBadge(event.status)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </TabsContent>
+
+            <TabsContent value="budget">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Budget Code</TableHead>
+                    <TableHead className="text-right">Budget Mods</TableHead>
+                    <TableHead className="text-right">Approved COs</TableHead>
+                    <TableHead className="text-right">Pending Budget</TableHead>
+                    <TableHead className="text-right">Pending Cost</TableHead>
+                    <TableHead className="text-right">Committed</TableHead>
+                    <TableHead className="text-right">Revised Budget</TableHead>
+                    <TableHead className="text-right">Over / Under</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {impacts.map((impact) => {
+                    const original = budgetByCode.get(impact.budgetCode);
+                    const adjusted = adjustedByCode.get(impact.budgetCode);
+                    const delta = (value: number) => (value === 0 ? "—" : `${value > 0 ? "+" : ""}${formatCurrency(value)}`);
+                    return (
+                      <TableRow key={impact.budgetCode}>
+                        <TableCell>
+                          <div className="font-medium">{impact.budgetCode}</div>
+                          <div className="text-xs text-muted-foreground">{original?.["Cost Code Tier 3"] ?? "Not in budget"}</div>
+                        </TableCell>
+                        <TableCell className="text-right">{delta(impact.budgetModifications)}</TableCell>
+                        <TableCell className="text-right">{delta(impact.approvedCos)}</TableCell>
+                        <TableCell className="text-right">{delta(impact.pendingBudgetChanges)}</TableCell>
+                        <TableCell className="text-right">{delta(impact.pendingCostChanges)}</TableCell>
+                        <TableCell className="text-right">{delta(impact.committedCosts)}</TableCell>
+                        <TableCell className="text-right">
+                          {adjusted ? formatCurrency(adjusted["Revised Budget"]) : "—"}
+                          {original && adjusted && original["Revised Budget"] !== adjusted["Revised Budget"] && (
+                            <div className="text-xs text-muted-foreground">was {formatCurrency(original["Revised Budget"])}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className={`text-right ${(adjusted?.["Projected over Under"] ?? 0) < 0 ? "text-red-600" : "text-green-600"}`}>
+                          {adjusted ? formatCurrency(adjusted["Projected over Under"]) : "—"}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TabsContent>
+
+            <TabsContent value="contracts">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Contract</TableHead>
+                    <TableHead className="text-right">Original</TableHead>
+                    <TableHead className="text-right">Approved COs</TableHead>
+                    <TableHead className="text-right">Pending COs</TableHead>
+                    <TableHead className="text-right">Draft COs</TableHead>
+                    <TableHead className="text-right">Revised</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[
+                    ...(adjustedPrime ? [{ ...adjustedPrime, label: `Prime · ${adjustedPrime["Owner/Client"]}` }] : []),
+                    ...adjustedCommitments
+                      .filter((c) => events.some((e) => e.subcontractCos.some((co) => co.commitmentNumber === c.Number)))
+                      .map((c) => ({ ...c, label: c.Vendor })),
+                  ].map((contract) => (
+                    <TableRow key={contract.Number}>
+                      <TableCell>
+                        <div className="font-medium">{contract.label}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {contract.Number} · {contract.Title}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(contract["Original Contract Amount"] ?? 0)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(contract["Approved Change Orders"] ?? 0)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(contract["Pending Change Orders"] ?? 0)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(contract["Draft Change Orders"] ?? 0)}</TableCell>
+                      <TableCell className="text-right font-medium">{formatCurrency(contract["Revised Contract Amount"] ?? 0)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TabsContent>
+
+            <TabsContent value="aging">
+              {aging.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">No open change documents</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Stage</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Count</TableHead>
+                      <TableHead className="text-right">Value</TableHead>
+                      <TableHead className="text-right">0–30 days</TableHead>
+                      <TableHead className="text-right">31–60</TableHead>
+                      <TableHead className="text-right">61–90</TableHead>
+                      <TableHead className="text-right">90+</TableHead>
+                      <TableHead className="text-right">Oldest</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {aging.map((row) => (
+                      <TableRow key={`${row.stage}-${row.status}`}>
+                        <TableCell className="font-medium">{changeStageLabels[row.stage]}</TableCell>
+                        <TableCell>{statusBadge(row.status)}</TableCell>
+                        <TableCell className="text-right">{row.count}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(row.amount)}</TableCell>
+                        {row.buckets.map((count, index) => (
+                          <TableCell key={index} className={`text-right ${index === 3 && count > 0 ? "text-red-600 font-medium" : ""}`}>
+                            {count || "—"}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-right">{row.oldestDays} days</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </TabsContent>
+          </Tabs>
         </CardContent>
       </Card>
+
+      {/* Change event detail */}
+      <Dialog open={!!selectedEvent} onOpenChange={(open) => !open && setSelectedEventId(null)}>
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          {selectedEvent && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  {selectedEvent.number} · {selectedEvent.title}
+                  {statusBadge(selectedEvent.status)}
+                </DialogTitle>
+                <DialogDescription>
+                  {reasonLabels[selectedEvent.reason]} · {selectedEvent.scope.replace(/-/g, " ")} · {selectedEvent.markupPercent}% markup
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                {selectedEvent.description && <p className="text-sm">{selectedEvent.description}</p>}
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Budget Code</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead>Commitment</TableHead>
+                      <TableHead className="text-right">Cost</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {selectedEvent.lineItems.map((line) => (
+                      <TableRow key={line.id}>
+                        <TableCell className="text-xs">{line.budgetCode}</TableCell>
+                        <TableCell>{line.description}</TableCell>
+                        <TableCell className="text-xs">{line.commitmentNumber ?? "—"}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(line.cost)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                <div className="space-y-2">
+                  {selectedEvent.pco &&
+                    renderDocumentRow("PCO", selectedEvent.pco, selectedEvent.scope === "in-scope" ? eventCost(selectedEvent) : eventRevenue(selectedEvent), (status) =>
+                      setDocumentStatus(selectedEvent, "pco", status, currentUserName, { comment: decisionComment || undefined })
+                    )}
+                  {selectedEvent.ownerCo &&
+                    renderDocumentRow("Owner CO", selectedEvent.ownerCo, eventRevenue(selectedEvent), (status) =>
+                      setDocumentStatus(selectedEvent, "owner-co", status, currentUserName, { comment: decisionComment || undefined })
+                    )}
+                  {selectedEvent.subcontractCos.map((co) => (
+                    <React.Fragment key={co.id}>
+                      {renderDocumentRow(`Subcontract CO · ${co.vendor}`, co, co.amount, (status) =>
+                        setDocumentStatus(selectedEvent, "subcontract-co", status, currentUserName, {
+                          subcontractCoId: co.id,
+                          comment: decisionComment || undefined,
+                        })
+                      )}
+                    </React.Fragment>
+                  ))}
+                </div>
+
+                {selectedEvent.status === "open" && (canEdit || canApprove) && (
+                  <div className="space-y-1">
+                    <Label>Comment (recorded with the next step)</Label>
+                    <Textarea value={decisionComment} onChange={(e) => setDecisionComment(e.target.value)} rows={2} />
+                  </div>
+                )}
+
+                {selectedEvent.history.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-medium mb-2">History</h4>
+                    <div className="space-y-1 text-xs">
+                      {selectedEvent.history.map((entry, index) => (
+                        <div key={index} className="flex gap-2">
+                          <span className="text-muted-foreground w-24">{entry.date.slice(0, 10)}</span>
+                          <span>
+                            {entry.number} → {entry.status} by {entry.by}
+                            {entry.comment && <span className="text-muted-foreground"> · {entry.comment}</span>}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {selectedEvent.status === "open" && canEdit && (
+                <DialogFooter className="gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => applyStep(voidChangeEvent(selectedEvent, currentUserName, decisionComment || undefined), "Change event voided")}
+                  >
+                    <Ban className="h-4 w-4 mr-1" />
+                    Void
+                  </Button>
+                  {!selectedEvent.pco && (
+                    <Button
+                      onClick={() =>
+                        applyStep(createPco(selectedEvent, nextDocumentNumber("PCO", allNumbers((e) => [e.pco?.number])), currentUserName), "PCO created")
+                      }
+                    >
+                      <FileText className="h-4 w-4 mr-1" />
+                      Create PCO
+                    </Button>
+                  )}
+                  {selectedEvent.scope === "out-of-scope" && selectedEvent.pco?.status === "approved" && !selectedEvent.ownerCo && (
+                    <Button
+                      onClick={() =>
+                        applyStep(
+                          createOwnerCo(selectedEvent, nextDocumentNumber("OCO", allNumbers((e) => [e.ownerCo?.number])), currentUserName),
+                          "Owner CO created"
+                        )
+                      }
+                    >
+                      <FileText className="h-4 w-4 mr-1" />
+                      Create Owner CO
+                    </Button>
+                  )}
+                  {selectedEvent.pco?.status === "approved" &&
+                    selectedEvent.lineItems.some(
+                      (line) => line.commitmentNumber && !selectedEvent.subcontractCos.some((co) => co.commitmentNumber === line.commitmentNumber)
+                    ) && (
+                      <Button
+                        onClick={() =>
+                          applyStep(
+                            createSubcontractCos(
+                              selectedEvent,
+                              commitments,
+                              allNumbers((e) => e.subcontractCos.map((co) => co.number)),
+                              currentUserName
+                            ),
+                            "Subcontract COs issued"
+                          )
+                        }
+                      >
+                        <FileText className="h-4 w-4 mr-1" />
+                        Issue Subcontract COs
+                      </Button>
+                    )}
+                </DialogFooter>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* New change event */}
+      <Dialog open={showCreateModal} onOpenChange={setShowCreateModal}>
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Change Event</DialogTitle>
+            <DialogDescription>Price the change against budget codes; name the commitment for work bought out through a subcontract.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Title</Label>
+              <Input value={eventForm.title} onChange={(e) => setEventForm((prev) => ({ ...prev, title: e.target.value }))} />
+            </div>
+            <div className="space-y-1">
+              <Label>Description</Label>
+              <Textarea
+                value={eventForm.description}
+                onChange={(e) => setEventForm((prev) => ({ ...prev, description: e.target.value }))}
+                rows={2}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-1">
+                <Label>Reason</Label>
+                <Select value={eventForm.reason} onValueChange={(value) => setEventForm((prev) => ({ ...prev, reason: value as ChangeEventReason }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(reasonLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Scope</Label>
+                <Select value={eventForm.scope} onValueChange={(value) => setEventForm((prev) => ({ ...prev, scope: value as ChangeEventScope }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="out-of-scope">Out of scope (owner CO)</SelectItem>
+                    <SelectItem value="in-scope">In scope (contingency)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Markup %</Label>
+                <Input
+                  type="number"
+                  value={eventForm.markupPercent}
+                  onChange={(e) => setEventForm((prev) => ({ ...prev, markupPercent: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Line Items</Label>
+              {eventForm.lineItems.map((line) => (
+                <div key={line.id} className="grid grid-cols-12 gap-2 items-center">
+                  <div className="col-span-4">
+                    <Select value={line.budgetCode} onValueChange={(value) => updateLine(line.id, { budgetCode: value })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Budget code" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {budget.map((b) => (
+                          <SelectItem key={b["Budget Code"]} value={b["Budget Code"]}>
+                            {b["Cost Code Tier 3"]} · {b["Cost Type"].split(" - ")[0]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Input
+                    className="col-span-3"
+                    placeholder="Description"
+                    value={line.description}
+                    onChange={(e) => updateLine(line.id, { description: e.target.value })}
+                  />
+                  <div className="col-span-2">
+                    <Select
+                      value={line.commitmentNumber ?? NO_COMMITMENT}
+                      onValueChange={(value) => updateLine(line.id, { commitmentNumber: value === NO_COMMITMENT ? undefined : value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_COMMITMENT}>Self-perform</SelectItem>
+                        {commitments.map((c) => (
+                          <SelectItem key={c.Number} value={c.Number}>
+                            {c.Number}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Input
+                    className="col-span-2"
+                    type="number"
+                    placeholder="Cost"
+                    value={line.cost || ""}
+                    onChange={(e) => updateLine(line.id, { cost: Number(e.target.value) })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="col-span-1"
+                    disabled={eventForm.lineItems.length === 1}
+                    onClick={() => setEventForm((prev) => ({ ...prev, lineItems: prev.lineItems.filter((l) => l.id !== line.id) }))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={() => setEventForm((prev) => ({ ...prev, lineItems: [...prev.lineItems, emptyLine()] }))}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Line
+              </Button>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCreateModal(false)}>
+              Cancel
+            </Button>
+            <Button onClick={submitNewEvent}>Create Change Event</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
-} 
\ No newline at end of file
+}
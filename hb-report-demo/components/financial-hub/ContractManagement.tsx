@@ -1,15 +1,150 @@
 "use client";
 
-import React from "react";
-import { Building2, FileText, DollarSign, CheckCircle } from "lucide-react";
+import React, { useState, useEffect, useMemo } from "react";
+import { Building2, FileText, DollarSign, CheckCircle, Send, PenLine, Search, Eye, Clock } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/context/auth-context";
+import { useProjectContext } from "@/context/project-context";
+import { useDataResource } from "@/hooks/use-data-resource";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useToast } from "@/hooks/use-toast";
+import { getDataSource } from "@/lib/data";
+import {
+  buildCommitmentRegister,
+  commitmentChangeOrders,
+  commitmentPayments,
+  emptyRegisterFilters,
+  executionStageLabels,
+  executionStages,
+  filterCommitmentRegister,
+  markExecuted,
+  readyForSignature,
+  sendForSignature,
+  summarizeCommitmentRegister,
+} from "@/lib/financial/commitments";
+import { buildSubInvoiceLines, previousSubInvoice, subInvoiceTotals } from "@/lib/financial/sub-invoices";
+import type { CommitmentExecutionStage, CommitmentRegisterFilters, CommitmentRegisterRow } from "@/types/commitments";
+import type { ChangeEvent } from "@/types/change-orders";
+import type { CommitmentRecord, VendorPayment } from "@/types/data-source";
+import type { SubInvoice } from "@/types/sub-invoices";
 
 interface ContractManagementProps {
   userRole: string;
   projectData: any;
 }
 
+const stageStyles: Record<CommitmentExecutionStage, string> = {
+  draft: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200",
+  "out-for-signature": "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+  executed: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+};
+
+const stageIcons: Record<CommitmentExecutionStage, React.ElementType> = {
+  draft: FileText,
+  "out-for-signature": Clock,
+  executed: CheckCircle,
+};
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(amount);
+
+/**
+ * Commitment register: every subcontract and purchase order on the project with its
+ * execution stage, billing and payment position, and a drilldown to its schedule of values,
+ * change orders, invoices and payments.
+ */
 export default function ContractManagement({ userRole, projectData }: ContractManagementProps) {
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const { projectId: contextProjectId } = useProjectContext();
+
+  const { data: projects } = useDataResource("projects");
+  const [selectedProjectId, setSelectedProjectId] = useState<string>("");
+  const [filters, setFilters] = useState<CommitmentRegisterFilters>(emptyRegisterFilters);
+  const [detailNumber, setDetailNumber] = useState<string | null>(null);
+
+  // Follow the project picked in the header; otherwise default to the first project
+  useEffect(() => {
+    if (contextProjectId && contextProjectId !== "all") setSelectedProjectId(contextProjectId);
+    else if (!selectedProjectId && projects.length > 0) setSelectedProjectId(String(projects[0].project_id));
+  }, [contextProjectId, projects]);
+
+  const query = { projectId: selectedProjectId || undefined };
+  const { data: commitments, setData: setCommitments } = useDataResource("commitments", query);
+  const { data: budget } = useDataResource("budget", query);
+  const { data: changeEvents } = useDataResource("change-events", query);
+  const { data: invoices } = useDataResource("sub-invoices", query);
+  const { data: payments } = useDataResource("vendor-payments", query);
+
+  const canEdit = can("financial-hub", "edit", selectedProjectId);
+  const canApprove = can("financial-hub", "approve", selectedProjectId);
+  const currentUserName = user ? `${user.firstName} ${user.lastName}` : "Unknown User";
+
+  const register = useMemo(() => buildCommitmentRegister(commitments, budget, changeEvents), [commitments, budget, changeEvents]);
+  const rows = useMemo(() => filterCommitmentRegister(register, filters), [register, filters]);
+  const summary = useMemo(() => summarizeCommitmentRegister(register), [register]);
+  const filteredSummary = useMemo(() => summarizeCommitmentRegister(rows), [rows]);
+  const budgetCodes = useMemo(
+    () => [...new Set(register.flatMap((row) => (row.budgetCode ? [row.budgetCode] : [])))].sort(),
+    [register]
+  );
+
+  const detail = register.find((row) => row.commitment.Number === detailNumber) ?? null;
+
+  const advance = async (commitment: CommitmentRecord, next: CommitmentRecord | null, title: string) => {
+    if (!next) return;
+    try {
+      const source = getDataSource();
+      const saved = source.update ? await source.update("commitments", commitment.Number, next) : next;
+      setCommitments((prev) => prev.map((c) => (c.Number === saved.Number ? saved : c)));
+      toast({ title, description: `${commitment.Number} · ${commitment.Vendor}` });
+    } catch (error) {
+      console.error("Failed to update commitment:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update commitment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const stageActions = (row: CommitmentRegisterRow) => {
+    const { commitment, stage } = row;
+    if (stage === "draft" && canEdit) {
+      return (
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={!readyForSignature(commitment)}
+          title={readyForSignature(commitment) ? undefined : "Needs a vendor and contract amount"}
+          onClick={() => advance(commitment, sendForSignature(commitment, currentUserName), "Sent for Signature")}
+        >
+          <Send className="h-3 w-3 mr-1" />
+          Send
+        </Button>
+      );
+    }
+    if (stage === "out-for-signature" && canApprove) {
+      return (
+        <Button size="sm" variant="outline" onClick={() => advance(commitment, markExecuted(commitment, currentUserName), "Commitment Executed")}>
+          <PenLine className="h-3 w-3 mr-1" />
+          Executed
+        </Button>
+      );
+    }
+    return null;
+  };
+
   return (
     <div className="space-y-6">
       <Card>
@@ -19,20 +154,453 @@ export default function ContractManagement({ userRole, projectData }: ContractMa
             Contract Management
           </CardTitle>
           <CardDescription>
-            Contract value tracking and commitment management
+            Subcontract and purchase order register with execution tracking, billing and payment position
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="text-center py-12">
-            <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-            <h3 className="text-lg font-medium mb-2">Contract Portfolio Management</h3>
-            <p className="text-muted-foreground max-w-md mx-auto">
-              Comprehensive contract management with value tracking, commitment analysis, 
-              and automated compliance monitoring across your project portfolio.
-            </p>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div className="space-y-1">
+              <Label>Project</Label>
+              <Select value={selectedProjectId} onValueChange={setSelectedProjectId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select project" />
+                </SelectTrigger>
+                <SelectContent>
+                  {projects.map((p) => (
+                    <SelectItem key={p.project_id} value={String(p.project_id)}>
+                      {p.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Search</Label>
+              <div className="relative">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  className="pl-8"
+                  placeholder="Number, title or vendor"
+                  value={filters.search}
+                  onChange={(e) => setFilters((prev) => ({ ...prev, search: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Stage</Label>
+              <Select
+                value={filters.stage}
+                onValueChange={(value) => setFilters((prev) => ({ ...prev, stage: value as CommitmentRegisterFilters["stage"] }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All stages</SelectItem>
+                  {executionStages.map((stage) => (
+                    <SelectItem key={stage} value={stage}>
+                      {executionStageLabels[stage]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Type</Label>
+              <Select value={filters.contractType} onValueChange={(value) => setFilters((prev) => ({ ...prev, contractType: value }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All types</SelectItem>
+                  <SelectItem value="Subcontract">Subcontract</SelectItem>
+                  <SelectItem value="Purchase Order">Purchase Order</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Budget Code</Label>
+              <Select value={filters.budgetCode} onValueChange={(value) => setFilters((prev) => ({ ...prev, budgetCode: value }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All budget codes</SelectItem>
+                  <SelectItem value="none">No budget line</SelectItem>
+                  {budgetCodes.map((code) => (
+                    <SelectItem key={code} value={code}>
+                      {code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
         </CardContent>
       </Card>
+
+      {/* Execution pipeline */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {executionStages.map((stage) => {
+          const Icon = stageIcons[stage];
+          const active = filters.stage === stage;
+          return (
+            <Card
+              key={stage}
+              className={`cursor-pointer transition-colors ${active ? "border-primary" : ""}`}
+              onClick={() => setFilters((prev) => ({ ...prev, stage: active ? "all" : stage }))}
+            >
+              <CardContent className="p-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">{executionStageLabels[stage]}</p>
+                    <p className="text-2xl font-bold">{summary.byStage[stage].count}</p>
+                    <p className="text-xs text-muted-foreground">{formatCurrency(summary.byStage[stage].amount)}</p>
+                  </div>
+                  <Icon className="h-8 w-8 text-muted-foreground" />
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {(
+          [
+            ["Committed", filteredSummary.committed],
+            ["Invoiced", filteredSummary.invoiced],
+            ["Paid", filteredSummary.paid],
+            ["Remaining Balance", filteredSummary.remainingBalance],
+            ["Unbilled Committed", filteredSummary.unbilled],
+          ] as const
+        ).map(([label, value]) => (
+          <Card key={label}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">{label}</CardTitle>
+              <DollarSign className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{formatCurrency(value)}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Commitment Register</CardTitle>
+          <CardDescription>
+            {rows.length} of {register.length} commitments
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Commitment</TableHead>
+                <TableHead>Vendor</TableHead>
+                <TableHead>Stage</TableHead>
+                <TableHead>Budget Code</TableHead>
+                <TableHead className="text-right">Revised</TableHead>
+                <TableHead className="text-right">Billed</TableHead>
+                <TableHead className="text-right">Paid</TableHead>
+                <TableHead className="text-right">Remaining</TableHead>
+                <TableHead className="text-right">Unbilled</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={10} className="text-center text-muted-foreground py-8">
+                    No commitments match these filters.
+                  </TableCell>
+                </TableRow>
+              )}
+              {rows.map((row) => (
+                <TableRow key={row.commitment.Number}>
+                  <TableCell>
+                    <div className="font-medium">{row.commitment.Number}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {row.commitment.Title} · {row.commitment["Contract Type"]}
+                    </div>
+                  </TableCell>
+                  <TableCell>{row.commitment.Vendor ?? <span className="text-muted-foreground">—</span>}</TableCell>
+                  <TableCell>
+                    <Badge className={stageStyles[row.stage]}>{executionStageLabels[row.stage]}</Badge>
+                  </TableCell>
+                  <TableCell className="text-xs">{row.budgetCode ?? <span className="text-muted-foreground">—</span>}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(row.metrics.revisedAmount)}</TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(row.metrics.invoiced)}
+                    <div className="text-xs text-muted-foreground">{row.metrics.percentBilled.toFixed(1)}%</div>
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(row.metrics.paid)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(row.metrics.remainingBalance)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(row.metrics.unbilled)}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      {stageActions(row)}
+                      <Button size="sm" variant="ghost" onClick={() => setDetailNumber(row.commitment.Number)}>
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Commitment drilldown */}
+      <Dialog open={!!detail} onOpenChange={(open) => !open && setDetailNumber(null)}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          {detail && (
+            <CommitmentDetail
+              row={detail}
+              changeEvents={changeEvents}
+              invoices={invoices}
+              payments={payments}
+              actions={stageActions(detail)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
-} 
\ No newline at end of file
+}
+
+interface CommitmentDetailProps {
+  row: CommitmentRegisterRow;
+  changeEvents: ChangeEvent[];
+  invoices: SubInvoice[];
+  payments: VendorPayment[];
+  actions: React.ReactNode;
+}
+
+function CommitmentDetail({ row, changeEvents, invoices, payments, actions }: CommitmentDetailProps) {
+  const { commitment, metrics, stage } = row;
+
+  // Billed to date by line, carried from the latest invoice or the commitment's invoiced total
+  const latest = previousSubInvoice(invoices, { id: "", commitmentNumber: commitment.Number, periodEnd: "9999-12-31" });
+  const sov = buildSubInvoiceLines(commitment, changeEvents, latest);
+  const changeOrders = commitmentChangeOrders(commitment, changeEvents);
+  const commitmentInvoices = invoices
+    .filter((i) => i.commitmentNumber === commitment.Number)
+    .sort((a, b) => b.periodEnd.localeCompare(a.periodEnd));
+  const ledger = commitmentPayments(commitment, payments);
+  const history = commitment.executionHistory ?? [];
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2">
+          {commitment.Number} · {commitment.Title}
+          <Badge className={stageStyles[stage]}>{executionStageLabels[stage]}</Badge>
+        </DialogTitle>
+        <DialogDescription>
+          {commitment.Vendor ?? "No vendor"} · {commitment["Contract Type"]}
+          {row.budgetCode && ` · ${row.budgetCode}`}
+          {commitment["Signed Contract Received Date"] && ` · Signed ${commitment["Signed Contract Received Date"]}`}
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+        {(
+          [
+            ["Revised Amount", metrics.revisedAmount],
+            ["Invoiced", metrics.invoiced],
+            ["Paid", metrics.paid],
+            ["Remaining Balance", metrics.remainingBalance],
+            ["Pending Changes", metrics.pendingChanges],
+          ] as const
+        ).map(([label, value]) => (
+          <div key={label}>
+            <p className="text-muted-foreground">{label}</p>
+            <p className="font-medium">{formatCurrency(value)}</p>
+          </div>
+        ))}
+      </div>
+      <Progress value={Math.min(metrics.percentBilled, 100)} className="h-2" />
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-muted-foreground">{metrics.percentBilled.toFixed(1)}% billed</span>
+        {actions}
+      </div>
+
+      <Tabs defaultValue="sov">
+        <TabsList>
+          <TabsTrigger value="sov">Schedule of Values</TabsTrigger>
+          <TabsTrigger value="change-orders">Change Orders ({changeOrders.length})</TabsTrigger>
+          <TabsTrigger value="invoices">Invoices ({commitmentInvoices.length})</TabsTrigger>
+          <TabsTrigger value="payments">Payments ({ledger.length})</TabsTrigger>
+          <TabsTrigger value="execution">Execution</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="sov">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Scheduled Value</TableHead>
+                <TableHead className="text-right">Billed to Date</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sov.map((line) => (
+                <TableRow key={line.id}>
+                  <TableCell>{line.description}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(line.scheduledValue)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(line.previousBilled)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(line.scheduledValue - line.previousBilled)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TabsContent>
+
+        <TabsContent value="change-orders" className="space-y-4">
+          <div className="grid grid-cols-3 gap-4 text-sm">
+            <div>
+              <p className="text-muted-foreground">Approved</p>
+              <p className="font-medium">{formatCurrency(commitment["Approved Change Orders"] ?? 0)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Pending</p>
+              <p className="font-medium">{formatCurrency(commitment["Pending Change Orders"] ?? 0)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Draft</p>
+              <p className="font-medium">{formatCurrency(commitment["Draft Change Orders"] ?? 0)}</p>
+            </div>
+          </div>
+          {changeOrders.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No subcontract change orders issued through change events.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>CO</TableHead>
+                  <TableHead>Change Event</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {changeOrders.map((co) => (
+                  <TableRow key={co.id}>
+                    <TableCell className="font-medium">{co.number}</TableCell>
+                    <TableCell>
+                      {co.eventNumber} · {co.eventTitle}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{co.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(co.amount)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </TabsContent>
+
+        <TabsContent value="invoices">
+          {commitmentInvoices.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No invoices entered against this commitment.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">This Period</TableHead>
+                  <TableHead className="text-right">Retainage</TableHead>
+                  <TableHead className="text-right">Net Due</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {commitmentInvoices.map((invoice) => {
+                  const totals = subInvoiceTotals(invoice);
+                  return (
+                    <TableRow key={invoice.id}>
+                      <TableCell className="font-medium">#{invoice.invoiceNumber}</TableCell>
+                      <TableCell>
+                        {invoice.periodStart} – {invoice.periodEnd}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{invoice.status.replace("_", " ")}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(totals.thisPeriod)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(totals.retainageThisPeriod)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(totals.netDue)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </TabsContent>
+
+        <TabsContent value="payments">
+          {ledger.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No vendor payments posted against this commitment.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Payment #</TableHead>
+                  <TableHead>Check #</TableHead>
+                  <TableHead>Method</TableHead>
+                  <TableHead>Date Paid</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ledger.map((payment) => (
+                  <TableRow key={payment["Check Number"]}>
+                    <TableCell>{payment["Payment Number"]}</TableCell>
+                    <TableCell>{payment["Check Number"]}</TableCell>
+                    <TableCell>{payment["Payment Method"]}</TableCell>
+                    <TableCell>{payment["Date Paid"]}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(payment.Amount)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </TabsContent>
+
+        <TabsContent value="execution" className="space-y-4">
+          <div className="flex items-center gap-2">
+            {executionStages.map((s, index) => {
+              const reached = executionStages.indexOf(stage) >= index;
+              return (
+                <React.Fragment key={s}>
+                  {index > 0 && <div className={`h-px flex-1 ${reached ? "bg-green-500" : "bg-muted"}`} />}
+                  <Badge className={reached ? stageStyles[s] : "bg-muted text-muted-foreground"}>{executionStageLabels[s]}</Badge>
+                </React.Fragment>
+              );
+            })}
+          </div>
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {commitment.Status} in Procore{commitment["Signed Contract Received Date"] && `, signed contract received ${commitment["Signed Contract Received Date"]}`}.
+            </p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {history.map((event) => (
+                <li key={`${event.stage}-${event.date}`}>
+                  <span className="font-medium">{executionStageLabels[event.stage]}</span> · {event.by} ·{" "}
+                  {new Date(event.date).toLocaleDateString()}
+                </li>
+              ))}
+            </ul>
+          )}
+        </TabsContent>
+      </Tabs>
+    </>
+  );
+}
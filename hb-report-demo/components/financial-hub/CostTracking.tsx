@@ -1,15 +1,90 @@
 "use client";
 
-import React from "react";
-import { PieChart, DollarSign, TrendingUp, BarChart } from "lucide-react";
+import React, { useState, useEffect, useMemo } from "react";
+import { PieChart, DollarSign, TrendingUp, BarChart, ChevronDown, ChevronRight, AlertTriangle } from "lucide-react";
+import { Bar, BarChart as RechartsBarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useProjectContext } from "@/context/project-context";
+import { useDataResource } from "@/hooks/use-data-resource";
+import { buildBudgetCodeExposure, buildCommitmentRegister, executionStageLabels } from "@/lib/financial/commitments";
+import type { BudgetCodeExposure } from "@/types/commitments";
 
 interface CostTrackingProps {
   userRole: string;
   projectData: any;
 }
 
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(amount);
+
+const compactCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", notation: "compact", maximumFractionDigits: 1 }).format(amount);
+
+const exposureKey = (row: BudgetCodeExposure) => row.budgetCode ?? "none";
+
+/**
+ * Committed cost against the budget: per budget line, what's committed, billed and paid,
+ * and the unbilled committed cost and remaining balance still to flow through.
+ */
 export default function CostTracking({ userRole, projectData }: CostTrackingProps) {
+  const { projectId: contextProjectId } = useProjectContext();
+  const { data: projects } = useDataResource("projects");
+  const [selectedProjectId, setSelectedProjectId] = useState<string>("");
+  const [showUncommitted, setShowUncommitted] = useState(false);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  // Follow the project picked in the header; otherwise default to the first project
+  useEffect(() => {
+    if (contextProjectId && contextProjectId !== "all") setSelectedProjectId(contextProjectId);
+    else if (!selectedProjectId && projects.length > 0) setSelectedProjectId(String(projects[0].project_id));
+  }, [contextProjectId, projects]);
+
+  const query = { projectId: selectedProjectId || undefined };
+  const { data: commitments } = useDataResource("commitments", query);
+  const { data: budget } = useDataResource("budget", query);
+  const { data: changeEvents } = useDataResource("change-events", query);
+
+  const register = useMemo(() => buildCommitmentRegister(commitments, budget, changeEvents), [commitments, budget, changeEvents]);
+  const exposure = useMemo(() => buildBudgetCodeExposure(register, budget), [register, budget]);
+  const budgetCodes = useMemo(() => new Set(budget.map((line) => line["Budget Code"])), [budget]);
+  const visible = showUncommitted ? exposure : exposure.filter((row) => row.commitmentCount > 0);
+
+  const totals = useMemo(
+    () =>
+      exposure.reduce(
+        (sum, row) => ({
+          revisedBudget: sum.revisedBudget + row.revisedBudget,
+          committed: sum.committed + row.committed,
+          unbilledCommitted: sum.unbilledCommitted + row.unbilledCommitted,
+          remainingBalance: sum.remainingBalance + row.remainingBalance,
+          overCommitted: sum.overCommitted + (row.budgetCode && row.uncommittedBudget < 0 ? 1 : 0),
+        }),
+        { revisedBudget: 0, committed: 0, unbilledCommitted: 0, remainingBalance: 0, overCommitted: 0 }
+      ),
+    [exposure]
+  );
+
+  const chartData = exposure
+    .filter((row) => row.commitmentCount > 0)
+    .slice(0, 10)
+    .map((row) => ({
+      name: row.budgetCode ? row.description.split(" - ")[0] : "Unmatched",
+      Invoiced: row.invoiced,
+      "Unbilled Committed": row.unbilledCommitted,
+    }));
+
+  const toggle = (key: string) => {
+    const next = new Set(expanded);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    setExpanded(next);
+  };
+
   return (
     <div className="space-y-6">
       <Card>
@@ -19,20 +94,200 @@ export default function CostTracking({ userRole, projectData }: CostTrackingProp
             Cost Tracking & Analysis
           </CardTitle>
           <CardDescription>
-            Real-time cost tracking and expense categorization
+            Commitment exposure by budget code: committed, billed, paid and still to come
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="text-center py-12">
-            <BarChart className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-            <h3 className="text-lg font-medium mb-2">Advanced Cost Tracking</h3>
-            <p className="text-muted-foreground max-w-md mx-auto">
-              Real-time cost monitoring with automated categorization, variance analysis, 
-              and predictive cost modeling for better project financial control.
-            </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label>Project</Label>
+              <Select value={selectedProjectId} onValueChange={setSelectedProjectId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select project" />
+                </SelectTrigger>
+                <SelectContent>
+                  {projects.map((p) => (
+                    <SelectItem key={p.project_id} value={String(p.project_id)}>
+                      {p.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
         </CardContent>
       </Card>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Revised Budget</CardTitle>
+            <DollarSign className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(totals.revisedBudget)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Committed</CardTitle>
+            <BarChart className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(totals.committed)}</div>
+            <div className="text-xs text-muted-foreground">{register.length} commitments</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Unbilled Committed</CardTitle>
+            <TrendingUp className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-blue-600">{formatCurrency(totals.unbilledCommitted)}</div>
+            <div className="text-xs text-muted-foreground">Committed cost not yet invoiced</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Remaining Balance</CardTitle>
+            <DollarSign className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(totals.remainingBalance)}</div>
+            <div className="text-xs text-muted-foreground">Committed cost not yet paid</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Over-Committed Lines</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${totals.overCommitted > 0 ? "text-red-600" : ""}`}>{totals.overCommitted}</div>
+            <div className="text-xs text-muted-foreground">Commitments exceed revised budget</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {chartData.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Largest Exposures</CardTitle>
+            <CardDescription>Invoiced and unbilled committed cost on the top budget codes</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <RechartsBarChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" tick={{ fontSize: 11 }} />
+                  <YAxis tickFormatter={(value) => compactCurrency(Number(value))} />
+                  <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+                  <Legend />
+                  <Bar dataKey="Invoiced" stackId="committed" fill="#10b981" />
+                  <Bar dataKey="Unbilled Committed" stackId="committed" fill="#3b82f6" />
+                </RechartsBarChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Exposure by Budget Code</CardTitle>
+              <CardDescription>Commitments are matched to budget lines through change events or their cost code division</CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setShowUncommitted((prev) => !prev)}>
+              {showUncommitted ? "Hide" : "Show"} uncommitted lines
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>Budget Code</TableHead>
+                <TableHead className="text-right">Revised Budget</TableHead>
+                <TableHead className="text-right">Committed</TableHead>
+                <TableHead className="text-right">Uncommitted</TableHead>
+                <TableHead className="text-right">Invoiced</TableHead>
+                <TableHead className="text-right">Paid</TableHead>
+                <TableHead className="text-right">Unbilled</TableHead>
+                <TableHead className="text-right">Remaining</TableHead>
+                <TableHead className="text-right">Pending COs</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={10} className="text-center text-muted-foreground py-8">
+                    No commitments on this project.
+                  </TableCell>
+                </TableRow>
+              )}
+              {visible.map((row) => {
+                const key = exposureKey(row);
+                const lineCommitments = register.filter((r) =>
+                  row.budgetCode ? r.budgetCode === row.budgetCode : !r.budgetCode || !budgetCodes.has(r.budgetCode)
+                );
+                return (
+                  <React.Fragment key={key}>
+                    <TableRow>
+                      <TableCell>
+                        {row.commitmentCount > 0 && (
+                          <Button variant="ghost" size="sm" className="p-1" onClick={() => toggle(key)}>
+                            {expanded.has(key) ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </Button>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{row.budgetCode ?? "Unmatched"}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {row.description} · {row.commitmentCount} commitment{row.commitmentCount !== 1 ? "s" : ""}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{row.budgetCode ? formatCurrency(row.revisedBudget) : "—"}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.committed)}</TableCell>
+                      <TableCell className={`text-right ${row.uncommittedBudget < 0 ? "text-red-600 font-medium" : ""}`}>
+                        {row.budgetCode ? formatCurrency(row.uncommittedBudget) : "—"}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.invoiced)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.paid)}</TableCell>
+                      <TableCell className="text-right font-medium">{formatCurrency(row.unbilledCommitted)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.remainingBalance)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.pendingChanges)}</TableCell>
+                    </TableRow>
+                    {expanded.has(key) &&
+                      lineCommitments.map((r) => (
+                        <TableRow key={r.commitment.Number} className="bg-muted/40">
+                          <TableCell />
+                          <TableCell className="text-sm">
+                            {r.commitment.Number} · {r.commitment.Vendor ?? r.commitment.Title}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline">{executionStageLabels[r.stage]}</Badge>
+                          </TableCell>
+                          <TableCell className="text-right text-sm">{formatCurrency(r.metrics.revisedAmount)}</TableCell>
+                          <TableCell />
+                          <TableCell className="text-right text-sm">{formatCurrency(r.metrics.invoiced)}</TableCell>
+                          <TableCell className="text-right text-sm">{formatCurrency(r.metrics.paid)}</TableCell>
+                          <TableCell className="text-right text-sm">{formatCurrency(r.metrics.unbilled)}</TableCell>
+                          <TableCell className="text-right text-sm">{formatCurrency(r.metrics.remainingBalance)}</TableCell>
+                          <TableCell className="text-right text-sm">{formatCurrency(r.metrics.pendingChanges)}</TableCell>
+                        </TableRow>
+                      ))}
+                  </React.Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -37,6 +37,27 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/context/auth-context";
+import { useProjectContext } from "@/context/project-context";
+import { useDataResource } from "@/hooks/use-data-resource";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useToast } from "@/hooks/use-toast";
+import { getDataSource } from "@/lib/data";
+import {
+  applySnapshots,
+  buildForecastLines,
+  createForecastSnapshot,
+  defaultCurveParameters,
+  forecastMethods,
+  isCurveMethod,
+  latestSnapshot,
+  monthKey,
+  reconcileForecast,
+  reforecastLine,
+} from "@/lib/financial/forecasting";
+import type { CurveParameters, ForecastLine } from "@/types/forecasting";
+import { addMonths, parse } from "date-fns";
 
 interface ForecastingProps {
   userRole: string;
@@ -59,200 +80,25 @@ interface ForecastAcknowledgment {
   reasoning: string;
 }
 
-// Enhanced forecast data structure with all required fields
-interface ForecastRecord {
-  id: string;
-  project_id: number;
-  forecast_type: "gcgr" | "draw";
-  cost_code?: string;
-  cost_code_description?: string;
-  csi_code?: string;
-  csi_description?: string;
-  budget: number;
-  cost_to_complete: number;
-  estimated_at_completion: number;
-  variance: number;
-  start_date: string;
-  end_date: string;
-  forecast_method: "Manual" | "HBI Forecast" | "Linear" | "S Curve" | "Bell Curve";
-  weight: number;
-  actual_remaining_forecast: { [month: string]: number };
-  previous_forecast: { [month: string]: number };
-  variance_amounts: { [month: string]: number };
-}
+// Months shown on the tables: the last few closed months (actuals) and the year ahead
+const ACTUAL_MONTHS_SHOWN = 3;
+const FORECAST_MONTHS_SHOWN = 12;
 
-// Generate monthly columns for the next 12 months
-const generateMonthlyColumns = () => {
+const generateMonthlyColumns = (period: string) => {
   const columns = [];
-  const currentDate = new Date();
-  
-  for (let i = 0; i < 12; i++) {
-    const date = new Date(currentDate.getFullYear(), currentDate.getMonth() + i, 1);
+  const periodStart = parse(period, "yyyy-MM", new Date());
+
+  for (let i = -ACTUAL_MONTHS_SHOWN; i < FORECAST_MONTHS_SHOWN; i++) {
+    const date = addMonths(periodStart, i);
     const monthYear = date.toLocaleDateString('en-US', { month: 'long', year: '2-digit' });
-    const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-    columns.push({ label: monthYear, key: monthKey });
+    columns.push({ label: monthYear, key: monthKey(date), isActual: i < 0 });
   }
-  
-  return columns;
-};
-
-// Mock enhanced forecast data with all required fields
-const generateMockForecastData = (): ForecastRecord[] => {
-  const monthlyColumns = generateMonthlyColumns();
-  const mockData: ForecastRecord[] = [];
-
-  // GC & GR Records
-  const gcgrRecords = [
-    {
-      cost_code: "01-00-000",
-      cost_code_description: "Presentation/Proposal/Rfq",
-      budget: 125000,
-      forecast_method: "Manual" as const,
-    },
-    {
-      cost_code: "01-01-000", 
-      cost_code_description: "General Conditions",
-      budget: 2500000,
-      forecast_method: "HBI Forecast" as const,
-    },
-    {
-      cost_code: "01-01-022",
-      cost_code_description: "Contingency", 
-      budget: 1800000,
-      forecast_method: "Linear" as const,
-    },
-    {
-      cost_code: "15-02-227",
-      cost_code_description: "Waste Material Disposal",
-      budget: 450000,
-      forecast_method: "S Curve" as const,
-    },
-    {
-      cost_code: "10-01-571",
-      cost_code_description: "Erosion & Sediment Control",
-      budget: 320000,
-      forecast_method: "HBI Forecast" as const,
-    }
-  ];
-
-  // Draw Records
-  const drawRecords = [
-    {
-      csi_code: "27 26 00",
-      csi_description: "Data Communications Programming and Integration",
-      budget: 850000,
-      forecast_method: "Manual" as const,
-    },
-    {
-      csi_code: "23 05 00",
-      csi_description: "Common Work Results for HVAC",
-      budget: 1200000,
-      forecast_method: "Linear" as const,
-    },
-    {
-      csi_code: "03 30 00",
-      csi_description: "Cast-in-Place Concrete",
-      budget: 2800000,
-      forecast_method: "HBI Forecast" as const,
-    },
-    {
-      csi_code: "07 84 00",
-      csi_description: "Firestopping",
-      budget: 425000,
-      forecast_method: "Bell Curve" as const,
-    },
-    {
-      csi_code: "26 27 00",
-      csi_description: "Low-Voltage Distribution Equipment",
-      budget: 675000,
-      forecast_method: "HBI Forecast" as const,
-    }
-  ];
-
-  // Generate GC & GR records
-  gcgrRecords.forEach((record, index) => {
-    const cost_to_complete = record.budget * (0.3 + Math.random() * 0.4);
-    const estimated_at_completion = record.budget + (Math.random() - 0.5) * record.budget * 0.1;
-    
-    // Generate monthly data
-    const actual_remaining_forecast: { [key: string]: number } = {};
-    const previous_forecast: { [key: string]: number } = {};
-    const variance_amounts: { [key: string]: number } = {};
-    
-    monthlyColumns.forEach((month, monthIndex) => {
-      const baseAmount = record.budget / 12;
-      const currentAmount = baseAmount * (0.8 + Math.random() * 0.4);
-      const previousAmount = baseAmount * (0.9 + Math.random() * 0.2);
-      
-      actual_remaining_forecast[month.key] = currentAmount;
-      previous_forecast[month.key] = previousAmount;
-      variance_amounts[month.key] = currentAmount - previousAmount;
-    });
-
-    mockData.push({
-      id: `gcgr-${index}`,
-      project_id: 2525840,
-      forecast_type: "gcgr",
-      cost_code: record.cost_code,
-      cost_code_description: record.cost_code_description,
-      budget: record.budget,
-      cost_to_complete,
-      estimated_at_completion,
-      variance: estimated_at_completion - record.budget,
-      start_date: "01/15/2024",
-      end_date: "12/30/2024",
-      forecast_method: record.forecast_method,
-      weight: Math.floor(Math.random() * 10) + 1,
-      actual_remaining_forecast,
-      previous_forecast,
-      variance_amounts,
-    });
-  });
-
-  // Generate Draw records
-  drawRecords.forEach((record, index) => {
-    const cost_to_complete = record.budget * (0.2 + Math.random() * 0.5);
-    const estimated_at_completion = record.budget + (Math.random() - 0.5) * record.budget * 0.15;
-    
-    const actual_remaining_forecast: { [key: string]: number } = {};
-    const previous_forecast: { [key: string]: number } = {};
-    const variance_amounts: { [key: string]: number } = {};
-    
-    monthlyColumns.forEach((month, monthIndex) => {
-      const baseAmount = record.budget / 12;
-      const currentAmount = baseAmount * (0.7 + Math.random() * 0.6);
-      const previousAmount = baseAmount * (0.85 + Math.random() * 0.3);
-      
-      actual_remaining_forecast[month.key] = currentAmount;
-      previous_forecast[month.key] = previousAmount;
-      variance_amounts[month.key] = currentAmount - previousAmount;
-    });
 
-    mockData.push({
-      id: `draw-${index}`,
-      project_id: 2525840,
-      forecast_type: "draw",
-      csi_code: record.csi_code,
-      csi_description: record.csi_description,
-      budget: record.budget,
-      cost_to_complete,
-      estimated_at_completion,
-      variance: estimated_at_completion - record.budget,
-      start_date: "02/01/2024",
-      end_date: "11/15/2024",
-      forecast_method: record.forecast_method,
-      weight: Math.floor(Math.random() * 10) + 1,
-      actual_remaining_forecast,
-      previous_forecast,
-      variance_amounts,
-    });
-  });
-
-  return mockData;
+  return columns;
 };
 
 // HBI AI Forecast explanations
-const getHBIForecastExplanation = (record: ForecastRecord) => {
+const getHBIForecastExplanation = (record: ForecastLine) => {
   const explanations = {
     "01-01-000": {
       reasoning: "Based on historical general conditions spending patterns and current project velocity, HBI recommends front-loading expenditures by 15% due to accelerated schedule requirements.",
@@ -290,15 +136,23 @@ const getHBIForecastExplanation = (record: ForecastRecord) => {
  * - Interactive GC & GR and Draw tables
  * - Dynamic monthly columns
  * - AI-powered HBI forecasting
- * - Real-time editing and calculations
- * - Local storage persistence
+ * - Linear, S Curve and Bell Curve spreading of cost to complete
+ * - Reconciliation of past forecasts against actuals
+ * - Versioned monthly snapshots for previous forecast and variance
  *
  * @param userRole - Current user role for permissions
  * @param projectData - Project context data
  */
 export default function Forecasting({ userRole, projectData }: ForecastingProps) {
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const { projectId: contextProjectId } = useProjectContext();
+
   const [activeTable, setActiveTable] = useState<"gcgr" | "draw">("gcgr");
-  const [forecastData, setForecastData] = useState<ForecastRecord[]>([]);
+  const [forecastData, setForecastData] = useState<ForecastLine[]>([]);
+  const [selectedProjectId, setSelectedProjectId] = useState<string>("");
+  const [curveRecordId, setCurveRecordId] = useState<string | null>(null);
   const [selectedRecord, setSelectedRecord] = useState<string | null>(null);
   const [showHBIDialog, setShowHBIDialog] = useState(false);
   const [hbiExplanation, setHBIExplanation] = useState<any>(null);
@@ -306,7 +160,7 @@ export default function Forecasting({ userRole, projectData }: ForecastingProps)
   
   // Chat functionality state
   const [showHBIChat, setShowHBIChat] = useState(false);
-  const [chatRecord, setChatRecord] = useState<ForecastRecord | null>(null);
+  const [chatRecord, setChatRecord] = useState<ForecastLine | null>(null);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [chatInput, setChatInput] = useState("");
   const [isTyping, setIsTyping] = useState(false);
@@ -322,18 +176,41 @@ export default function Forecasting({ userRole, projectData }: ForecastingProps)
   const [isInsightsCollapsed, setIsInsightsCollapsed] = useState(false);
   const [editingField, setEditingField] = useState<string | null>(null);
 
-  const monthlyColumns = useMemo(() => generateMonthlyColumns(), []);
+  // The open forecast period; earlier months are closed and hold actuals
+  const period = useMemo(() => monthKey(new Date()), []);
+  const monthlyColumns = useMemo(() => generateMonthlyColumns(period), [period]);
 
-  // Initialize data
+  const { data: projects } = useDataResource("projects");
+
+  // Follow the project picked in the header; otherwise default to the first project
   useEffect(() => {
-    const savedData = localStorage.getItem('hb-forecast-data');
-    if (savedData) {
-      setForecastData(JSON.parse(savedData));
-    } else {
-      const mockData = generateMockForecastData();
-      setForecastData(mockData);
-    }
+    if (contextProjectId && contextProjectId !== "all") setSelectedProjectId(contextProjectId);
+    else if (!selectedProjectId && projects.length > 0) setSelectedProjectId(String(projects[0].project_id));
+  }, [contextProjectId, projects]);
+
+  const query = { projectId: selectedProjectId || undefined };
+  const { data: forecastRows } = useDataResource("forecasts", query);
+  const { data: snapshots, setData: setSnapshots } = useDataResource("forecast-snapshots", query);
+  const { data: changeEvents } = useDataResource("change-events", query);
+  const projectId = Number(selectedProjectId);
+  const canEdit = can("financial-hub", "edit", selectedProjectId);
+  const currentVersion = latestSnapshot(snapshots, projectId, period);
+
+  // Rebuild from the forecast export and saved snapshots whenever the project changes
+  useEffect(() => {
+    if (!selectedProjectId) return;
+    setForecastData(applySnapshots(buildForecastLines(forecastRows, period, changeEvents), snapshots, projectId, period));
+    setHasUnsavedChanges(false);
+  }, [forecastRows, snapshots, changeEvents, selectedProjectId, period]);
+
+  const curveRecord = forecastData.find(record => record.id === curveRecordId) ?? null;
+
+  const reconciliation = useMemo(
+    () => reconcileForecast(forecastRows, snapshots, period, activeTable).slice(-12),
+    [forecastRows, snapshots, period, activeTable]
+  );
 
+  useEffect(() => {
     // Load acknowledgments from localStorage
     const savedAcknowledgments = localStorage.getItem('hb-forecast-acknowledgments');
     if (savedAcknowledgments) {
@@ -376,6 +253,7 @@ export default function Forecasting({ userRole, projectData }: ForecastingProps)
       cost_to_complete: 0,
       estimated_at_completion: 0,
       variance: 0,
+      previous: { budget: 0, cost_to_complete: 0, estimated_at_completion: 0, variance: 0 },
       monthly_actual: {} as { [key: string]: number },
       monthly_previous: {} as { [key: string]: number },
       monthly_variance: {} as { [key: string]: number },
@@ -386,6 +264,10 @@ export default function Forecasting({ userRole, projectData }: ForecastingProps)
       totals.cost_to_complete += record.cost_to_complete;
       totals.estimated_at_completion += record.estimated_at_completion;
       totals.variance += record.variance;
+      totals.previous.budget += record.previous_totals.budget;
+      totals.previous.cost_to_complete += record.previous_totals.cost_to_complete;
+      totals.previous.estimated_at_completion += record.previous_totals.estimated_at_completion;
+      totals.previous.variance += record.previous_totals.variance;
 
       monthlyColumns.forEach(month => {
         if (!totals.monthly_actual[month.key]) totals.monthly_actual[month.key] = 0;
@@ -401,18 +283,23 @@ export default function Forecasting({ userRole, projectData }: ForecastingProps)
     return totals;
   }, [filteredData, monthlyColumns]);
 
+  // Fields that reshape the remaining forecast when edited
+  const reforecastFields = ['forecast_method', 'weight', 'start_date', 'end_date', 'cost_to_complete', 'curve'];
+
   // Update record function
   const updateRecord = (recordId: string, field: string, value: any) => {
     setForecastData(prev => {
       const updated = prev.map(record => {
         if (record.id === recordId) {
-          const updatedRecord = { ...record, [field]: value };
-          
-          // If forecast method or weight changes, recalculate monthly values
-          if (field === 'forecast_method' || field === 'weight') {
-            updatedRecord.actual_remaining_forecast = calculateMonthlyDistribution(updatedRecord);
-            updatedRecord.variance_amounts = calculateVarianceAmounts(updatedRecord);
-            
+          let updatedRecord: ForecastLine = { ...record, [field]: value };
+
+          if (reforecastFields.includes(field) || field === 'actual_remaining_forecast') {
+            // Typing over a month of a curve takes the line off the curve
+            if (field === 'actual_remaining_forecast' && isCurveMethod(record.forecast_method)) {
+              updatedRecord.forecast_method = 'Manual';
+            }
+            updatedRecord = reforecastLine(updatedRecord, period);
+
             // If HBI Forecast is selected, track previous method and start chat
             if (field === 'forecast_method' && value === 'HBI Forecast') {
               // Store the previous method for potential reversion
@@ -434,56 +321,8 @@ export default function Forecasting({ userRole, projectData }: ForecastingProps)
     });
   };
 
-  // Calculate monthly distribution based on forecast method and weight
-  const calculateMonthlyDistribution = (record: ForecastRecord) => {
-    const distribution: { [key: string]: number } = {};
-    const totalAmount = record.budget;
-    const weight = record.weight / 10; // Convert 1-10 to 0.1-1.0
-    
-    monthlyColumns.forEach((month, index) => {
-      let factor = 1; // Default for Manual
-      
-      switch (record.forecast_method) {
-        case 'Linear':
-          factor = 1; // Equal distribution
-          break;
-        case 'S Curve':
-          factor = 1 / (1 + Math.exp(-0.5 * (index - 6))); // S-curve distribution
-          break;
-        case 'Bell Curve':
-          factor = Math.exp(-0.5 * Math.pow((index - 6) / 3, 2)); // Bell curve
-          break;
-        case 'HBI Forecast':
-          // AI-enhanced distribution based on various factors
-          factor = 0.8 + 0.4 * Math.sin((index / 12) * Math.PI) + (Math.random() - 0.5) * 0.2;
-          break;
-      }
-      
-      // Apply weight (front-loading vs back-loading)
-      const weightAdjustment = weight + (1 - weight) * (index / (monthlyColumns.length - 1));
-      factor *= weightAdjustment;
-      
-      distribution[month.key] = (totalAmount / 12) * factor;
-    });
-    
-    return distribution;
-  };
-
-  // Calculate variance amounts
-  const calculateVarianceAmounts = (record: ForecastRecord) => {
-    const variance: { [key: string]: number } = {};
-    
-    monthlyColumns.forEach(month => {
-      const actual = record.actual_remaining_forecast[month.key] || 0;
-      const previous = record.previous_forecast[month.key] || 0;
-      variance[month.key] = actual - previous;
-    });
-    
-    return variance;
-  };
-
   // Start HBI chat session for specific record
-  const startHBIChat = (record: ForecastRecord) => {
+  const startHBIChat = (record: ForecastLine) => {
     setChatRecord(record);
     const explanation = getHBIForecastExplanation(record);
     const displayName = record.forecast_type === 'gcgr' 
@@ -622,7 +461,7 @@ export default function Forecasting({ userRole, projectData }: ForecastingProps)
   };
 
   // Generate contextual AI responses
-  const generateAIResponse = (userInput: string, record: ForecastRecord | null): string => {
+  const generateAIResponse = (userInput: string, record: ForecastLine | null): string => {
     const input = userInput.toLowerCase();
     
     // Context-aware responses based on user input
@@ -651,15 +490,28 @@ export default function Forecasting({ userRole, projectData }: ForecastingProps)
   };
 
   // Show traditional HBI explanation (for detailed view)
-  const showHBIExplanation = (record: ForecastRecord) => {
+  const showHBIExplanation = (record: ForecastLine) => {
     setHbiExplanation(getHBIForecastExplanation(record));
     setShowHBIDialog(true);
   };
 
-  // Save changes to local storage
-  const saveChanges = () => {
-    localStorage.setItem('hb-forecast-data', JSON.stringify(forecastData));
-    setHasUnsavedChanges(false);
+  // Save the period's forecast as a new snapshot version
+  const saveChanges = async () => {
+    const createdBy = user ? `${user.firstName} ${user.lastName}` : userRole;
+    const snapshot = createForecastSnapshot(forecastData, projectId, period, snapshots, createdBy);
+    try {
+      const source = getDataSource();
+      const saved = source.create ? await source.create("forecast-snapshots", snapshot) : snapshot;
+      setSnapshots(prev => [...prev, saved]);
+      toast({ title: "Forecast Saved", description: `${period} forecast saved as version ${saved.version}` });
+    } catch (error) {
+      console.error("Failed to save forecast:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save forecast",
+        variant: "destructive",
+      });
+    }
   };
 
   // Format currency
@@ -687,7 +539,7 @@ export default function Forecasting({ userRole, projectData }: ForecastingProps)
     options?: { value: string; label: string }[] | null;
   }) => {
     const fieldKey = `${type}-${value}`;
-    const isEditing = editingField === fieldKey;
+    const isEditing = canEdit && editingField === fieldKey;
     const [editValue, setEditValue] = useState(value);
 
     const handleSave = () => {
@@ -752,7 +604,7 @@ export default function Forecasting({ userRole, projectData }: ForecastingProps)
     return (
       <div 
         className={`flex items-center gap-1 cursor-pointer hover:bg-muted/50 rounded px-2 py-1 group ${className}`}
-        onClick={() => setEditingField(fieldKey)}
+        onClick={() => canEdit && setEditingField(fieldKey)}
       >
         <span className="text-xs">{type === 'number' && typeof value === 'number' ? formatCurrency(value) : value}</span>
         <Edit3 className="h-3 w-3 opacity-0 group-hover:opacity-50 transition-opacity" />
@@ -761,7 +613,7 @@ export default function Forecasting({ userRole, projectData }: ForecastingProps)
   };
 
   // Render table row (3 rows per record)
-  const renderRecordRows = (record: ForecastRecord) => {
+  const renderRecordRows = (record: ForecastLine) => {
     const displayName = record.forecast_type === 'gcgr' 
       ? `${record.cost_code} - ${record.cost_code_description}`
       : `${record.csi_code} - ${record.csi_description}`;
@@ -805,9 +657,17 @@ export default function Forecasting({ userRole, projectData }: ForecastingProps)
             </div>
           </td>
           <td className="p-1">
-            <div className="w-24 h-8 px-2 py-1 bg-muted/50 rounded border text-xs flex items-center text-muted-foreground">
-              {formatCurrency(record.cost_to_complete)}
-            </div>
+            {canEdit && isCurveMethod(record.forecast_method) ? (
+              <InlineEdit
+                value={record.cost_to_complete}
+                onSave={(value) => updateRecord(record.id, 'cost_to_complete', Number(value))}
+                type="number"
+              />
+            ) : (
+              <div className="w-24 h-8 px-2 py-1 bg-muted/50 rounded border text-xs flex items-center text-muted-foreground">
+                {formatCurrency(record.cost_to_complete)}
+              </div>
+            )}
           </td>
           <td className="p-1">
             <div className="w-24 h-8 px-2 py-1 bg-muted/50 rounded border text-xs flex items-center text-muted-foreground">
@@ -837,13 +697,7 @@ export default function Forecasting({ userRole, projectData }: ForecastingProps)
                 value={record.forecast_method}
                 onSave={(value) => updateRecord(record.id, 'forecast_method', value)}
                 type="select"
-                options={[
-                  { value: 'Manual', label: 'Manual' },
-                  { value: 'HBI Forecast', label: 'HBI Forecast' },
-                  { value: 'Linear', label: 'Linear' },
-                  { value: 'S Curve', label: 'S Curve' },
-                  { value: 'Bell Curve', label: 'Bell Curve' }
-                ]}
+                options={forecastMethods.map(method => ({ value: method, label: method }))}
                 className={record.forecast_method === 'HBI Forecast' ? 'border-violet-300 bg-violet-50 dark:border-violet-700 dark:bg-violet-950' : ''}
               />
               {record.forecast_method === 'HBI Forecast' && (
@@ -857,6 +711,17 @@ export default function Forecasting({ userRole, projectData }: ForecastingProps)
                   <MessageSquare className="h-3 w-3 text-violet-600" />
                 </Button>
               )}
+              {canEdit && (record.forecast_method === 'S Curve' || record.forecast_method === 'Bell Curve') && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setCurveRecordId(record.id)}
+                  className="h-8 w-8 p-0"
+                  title="Curve settings"
+                >
+                  <Settings className="h-3 w-3" />
+                </Button>
+              )}
             </div>
           </td>
           <td className="p-1">
@@ -868,15 +733,21 @@ export default function Forecasting({ userRole, projectData }: ForecastingProps)
           </td>
           {monthlyColumns.map(month => (
             <td key={`${record.id}-actual-${month.key}`} className="p-1">
-              <InlineEdit
-                value={record.actual_remaining_forecast[month.key] || 0}
-                onSave={(value) => {
-                  const newActual = { ...record.actual_remaining_forecast };
-                  newActual[month.key] = Number(value);
-                  updateRecord(record.id, 'actual_remaining_forecast', newActual);
-                }}
-                type="number"
-              />
+              {month.isActual || !canEdit ? (
+                <div className={`text-xs text-center ${month.isActual ? 'font-medium' : 'text-muted-foreground'}`}>
+                  {formatCurrency(record.actual_remaining_forecast[month.key] || 0)}
+                </div>
+              ) : (
+                <InlineEdit
+                  value={record.actual_remaining_forecast[month.key] || 0}
+                  onSave={(value) => {
+                    const newActual = { ...record.actual_remaining_forecast };
+                    newActual[month.key] = Number(value);
+                    updateRecord(record.id, 'actual_remaining_forecast', newActual);
+                  }}
+                  type="number"
+                />
+              )}
             </td>
           ))}
         </tr>
@@ -887,10 +758,10 @@ export default function Forecasting({ userRole, projectData }: ForecastingProps)
           <td className="p-1 text-xs">
             <Badge variant="secondary">Previous Forecast</Badge>
           </td>
-          <td className="p-1 text-xs text-muted-foreground">{formatCurrency(record.budget * 0.95)}</td>
-          <td className="p-1 text-xs text-muted-foreground">{formatCurrency(record.cost_to_complete * 1.05)}</td>
-          <td className="p-1 text-xs text-muted-foreground">{formatCurrency(record.estimated_at_completion * 0.98)}</td>
-          <td className="p-1 text-xs text-muted-foreground">{formatCurrency(record.variance * 0.85)}</td>
+          <td className="p-1 text-xs text-muted-foreground">{formatCurrency(record.previous_totals.budget)}</td>
+          <td className="p-1 text-xs text-muted-foreground">{formatCurrency(record.previous_totals.cost_to_complete)}</td>
+          <td className="p-1 text-xs text-muted-foreground">{formatCurrency(record.previous_totals.estimated_at_completion)}</td>
+          <td className="p-1 text-xs text-muted-foreground">{formatCurrency(record.previous_totals.variance)}</td>
           <td className="p-1 text-xs text-muted-foreground">{record.start_date}</td>
           <td className="p-1 text-xs text-muted-foreground">{record.end_date}</td>
           <td className="p-1 text-xs text-muted-foreground">{record.forecast_method}</td>
@@ -910,10 +781,14 @@ export default function Forecasting({ userRole, projectData }: ForecastingProps)
           <td className="p-1 text-xs">
             <Badge variant="outline">Variance</Badge>
           </td>
-          <td className="p-1 text-xs font-medium text-green-600">{formatCurrency(record.budget * 0.05)}</td>
-          <td className="p-1 text-xs font-medium text-red-600">{formatCurrency(record.cost_to_complete * -0.05)}</td>
-          <td className="p-1 text-xs font-medium text-green-600">{formatCurrency(record.estimated_at_completion * 0.02)}</td>
-          <td className="p-1 text-xs font-medium text-green-600">{formatCurrency(record.variance * 0.15)}</td>
+          {(['budget', 'cost_to_complete', 'estimated_at_completion', 'variance'] as const).map(field => {
+            const change = record[field] - record.previous_totals[field];
+            return (
+              <td key={field} className={`p-1 text-xs font-medium ${change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {formatCurrency(change)}
+              </td>
+            );
+          })}
           <td className="p-1 text-xs text-center">-</td>
           <td className="p-1 text-xs text-center">-</td>
           <td className="p-1 text-xs text-center">-</td>
@@ -944,6 +819,23 @@ export default function Forecasting({ userRole, projectData }: ForecastingProps)
         </div>
         
         <div className="flex items-center gap-3">
+          <Select value={selectedProjectId} onValueChange={setSelectedProjectId}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue placeholder="Select project" />
+            </SelectTrigger>
+            <SelectContent>
+              {projects.map(p => (
+                <SelectItem key={p.project_id} value={String(p.project_id)}>
+                  {p.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Badge variant="outline" className="whitespace-nowrap">
+            {period} · {currentVersion ? `v${currentVersion.version}` : 'Unsaved'}
+          </Badge>
+
           {hasUnsavedChanges && (
             <Alert className="w-auto py-2">
               <AlertTriangle className="h-4 w-4" />
@@ -951,7 +843,7 @@ export default function Forecasting({ userRole, projectData }: ForecastingProps)
             </Alert>
           )}
           
-          <Button onClick={saveChanges} disabled={!hasUnsavedChanges} className="flex items-center gap-2">
+          <Button onClick={saveChanges} disabled={!canEdit || !selectedProjectId || (!hasUnsavedChanges && !!currentVersion)} className="flex items-center gap-2">
             <Save className="h-4 w-4" />
             Save Changes
           </Button>
@@ -1161,8 +1053,9 @@ export default function Forecasting({ userRole, projectData }: ForecastingProps)
                   <th className="text-left p-2 w-32">Forecast Method</th>
                   <th className="text-left p-2 w-20">Weight</th>
                   {monthlyColumns.map(month => (
-                    <th key={month.key} className="text-left p-2 w-20 text-center">
+                    <th key={month.key} className={`text-left p-2 w-20 text-center ${month.isActual ? 'bg-muted' : ''}`}>
                       {month.label}
+                      {month.isActual && <div className="text-[10px] font-normal text-muted-foreground">Actual</div>}
                     </th>
                   ))}
                 </tr>
@@ -1174,10 +1067,10 @@ export default function Forecasting({ userRole, projectData }: ForecastingProps)
                 <tr className="border-t-2 bg-blue-50 dark:bg-blue-950 font-medium">
                   <td className="p-2 font-bold">Previous Forecast Total</td>
                   <td className="p-2"></td>
-                  <td className="p-2">{formatCurrency(calculateTotals.budget * 0.95)}</td>
-                  <td className="p-2">{formatCurrency(calculateTotals.cost_to_complete * 1.05)}</td>
-                  <td className="p-2">{formatCurrency(calculateTotals.estimated_at_completion * 0.98)}</td>
-                  <td className="p-2">{formatCurrency(calculateTotals.variance * 0.85)}</td>
+                  <td className="p-2">{formatCurrency(calculateTotals.previous.budget)}</td>
+                  <td className="p-2">{formatCurrency(calculateTotals.previous.cost_to_complete)}</td>
+                  <td className="p-2">{formatCurrency(calculateTotals.previous.estimated_at_completion)}</td>
+                  <td className="p-2">{formatCurrency(calculateTotals.previous.variance)}</td>
                   <td className="p-2">-</td>
                   <td className="p-2">-</td>
                   <td className="p-2">-</td>
@@ -1210,18 +1103,14 @@ export default function Forecasting({ userRole, projectData }: ForecastingProps)
                 <tr className="bg-yellow-50 dark:bg-yellow-950 font-medium">
                   <td className="p-2 font-bold">Variance Total</td>
                   <td className="p-2"></td>
-                  <td className={`p-2 ${calculateTotals.budget * 0.05 >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                    {formatCurrency(calculateTotals.budget * 0.05)}
-                  </td>
-                  <td className={`p-2 ${-calculateTotals.cost_to_complete * 0.05 >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                    {formatCurrency(-calculateTotals.cost_to_complete * 0.05)}
-                  </td>
-                  <td className={`p-2 ${calculateTotals.estimated_at_completion * 0.02 >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                    {formatCurrency(calculateTotals.estimated_at_completion * 0.02)}
-                  </td>
-                  <td className={`p-2 ${calculateTotals.variance * 0.15 >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                    {formatCurrency(calculateTotals.variance * 0.15)}
-                  </td>
+                  {(['budget', 'cost_to_complete', 'estimated_at_completion', 'variance'] as const).map(field => {
+                    const change = calculateTotals[field] - calculateTotals.previous[field];
+                    return (
+                      <td key={field} className={`p-2 ${change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatCurrency(change)}
+                      </td>
+                    );
+                  })}
                   <td className="p-2">-</td>
                   <td className="p-2">-</td>
                   <td className="p-2">-</td>
@@ -1240,6 +1129,110 @@ export default function Forecasting({ userRole, projectData }: ForecastingProps)
         </CardContent>
               </Card>
 
+      {/* Forecast vs Actual Reconciliation */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CheckCircle className="h-5 w-5 text-green-600" />
+            Forecast vs Actual - {activeTable === 'gcgr' ? 'GC & GR' : 'Draw'}
+          </CardTitle>
+          <CardDescription>
+            Each closed month's standing forecast against recorded actuals
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {reconciliation.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No closed months to reconcile</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs border-collapse">
+                <thead>
+                  <tr className="border-b-2 bg-muted/50">
+                    <th className="text-left p-2">Month</th>
+                    <th className="text-right p-2">Forecast</th>
+                    <th className="text-right p-2">Actual</th>
+                    <th className="text-right p-2">Variance</th>
+                    <th className="text-right p-2">Accuracy</th>
+                    <th className="text-left p-2">Forecast Source</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {reconciliation.map(row => (
+                    <tr key={row.month} className="border-b">
+                      <td className="p-2">{parse(row.month, 'yyyy-MM', new Date()).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}</td>
+                      <td className="p-2 text-right">{formatCurrency(row.forecast)}</td>
+                      <td className="p-2 text-right">{formatCurrency(row.actual)}</td>
+                      <td className={`p-2 text-right font-medium ${row.variance >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatCurrency(row.variance)}
+                      </td>
+                      <td className="p-2 text-right">
+                        {row.actual > 0 ? `${Math.max(0, 100 - (Math.abs(row.variance) / row.actual) * 100).toFixed(1)}%` : '-'}
+                      </td>
+                      <td className="p-2">
+                        <Badge variant={row.source === 'snapshot' ? 'default' : 'outline'}>
+                          {row.source === 'snapshot' ? 'Saved forecast' : 'Imported'}
+                        </Badge>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Curve Settings */}
+      <Dialog open={!!curveRecord} onOpenChange={(open) => !open && setCurveRecordId(null)}>
+        <DialogContent className="max-w-md">
+          {curveRecord && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{curveRecord.forecast_method} Settings</DialogTitle>
+                <DialogDescription>
+                  {curveRecord.forecast_type === 'gcgr'
+                    ? `${curveRecord.cost_code} - ${curveRecord.cost_code_description}`
+                    : `${curveRecord.csi_code} - ${curveRecord.csi_description}`}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-6 py-2">
+                {(curveRecord.forecast_method === 'S Curve'
+                  ? [
+                      { key: 'steepness', label: 'Steepness', min: 2, max: 20, step: 1, format: (v: number) => v.toFixed(0) },
+                      { key: 'midpoint', label: 'Half spent at', min: 0.1, max: 0.9, step: 0.05, format: (v: number) => `${Math.round(v * 100)}% of duration` },
+                    ]
+                  : [
+                      { key: 'peak', label: 'Peak at', min: 0, max: 1, step: 0.05, format: (v: number) => `${Math.round(v * 100)}% of duration` },
+                      { key: 'spread', label: 'Spread', min: 0.05, max: 0.5, step: 0.05, format: (v: number) => v.toFixed(2) },
+                    ]
+                ).map(({ key, label, min, max, step, format }) => {
+                  const value = curveRecord.curve?.[key as keyof CurveParameters] ?? defaultCurveParameters[key as keyof CurveParameters];
+                  return (
+                    <div key={key} className="space-y-2">
+                      <div className="flex justify-between">
+                        <Label>{label}</Label>
+                        <span className="text-sm text-muted-foreground">{format(value)}</span>
+                      </div>
+                      <Slider
+                        value={[value]}
+                        min={min}
+                        max={max}
+                        step={step}
+                        onValueChange={([next]) => updateRecord(curveRecord.id, 'curve', { ...curveRecord.curve, [key]: next })}
+                      />
+                    </div>
+                  );
+                })}
+                <Button variant="outline" size="sm" onClick={() => updateRecord(curveRecord.id, 'curve', undefined)}>
+                  <RefreshCw className="h-4 w-4 mr-1" />
+                  Reset to Defaults
+                </Button>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* HBI AI Chat Interface - Interactive */}
       <Dialog open={showHBIChat} onOpenChange={handleModalClose}>
         <DialogContent className="max-w-5xl max-h-[85vh] p-0">
@@ -1,510 +1,538 @@
 "use client";
 
-import React, { useState, useMemo } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
-import { ScrollArea } from "@/components/ui/scroll-area";
 import { Collapsible, CollapsibleContent } from "@/components/ui/collapsible";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import {
   AlertTriangle,
   Clock,
   CheckCircle,
   DollarSign,
   FileText,
-  Brain,
   Shield,
   ChevronDown,
   ChevronRight,
-  RefreshCw,
   XCircle,
-  MessageSquare,
-  Edit3,
-  Save,
-  X,
+  Plus,
+  Send,
+  Trash2,
   User,
   Pause,
   Ban,
 } from "lucide-react";
+import { useAuth } from "@/context/auth-context";
+import { useProjectContext } from "@/context/project-context";
+import { useDataResource } from "@/hooks/use-data-resource";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useRetentionRules } from "@/hooks/use-retention-rules";
+import { useToast } from "@/hooks/use-toast";
+import { getDataSource } from "@/lib/data";
+import { commitmentPercentComplete, currentRetentionRate, retentionRules, subcontractRetentionRule } from "@/lib/financial/retention";
+import {
+  buildSubInvoiceLines,
+  complianceChecks,
+  decideSubInvoice,
+  insuranceCoverageLabels,
+  isOnHold,
+  lastPaidSubInvoice,
+  nextInvoiceApprovalRole,
+  nextSubInvoiceId,
+  previousSubInvoice,
+  receiveLienWaiver,
+  requiredLienWaivers,
+  subInvoiceTotals,
+  validateSubInvoice,
+} from "@/lib/financial/sub-invoices";
+import type {
+  ComplianceCheck,
+  InsuranceCoverage,
+  InsuranceCoverageType,
+  SubInvoice,
+  SubInvoiceApproval,
+} from "@/types/sub-invoices";
 
-// Local type definitions
-interface PaymentComment {
-  id: string;
-  payAppId: string;
-  userId: string;
-  userName: string;
-  comment: string;
-  timestamp: string;
-  type: "general" | "approval" | "verification" | "compliance";
+interface InvoicingProps {
+  userRole: string;
+  projectData: any;
 }
 
-interface PaymentApproval {
-  id: string;
-  payAppId: string;
-  reviewerId: string;
-  reviewerName: string;
-  status: "approved" | "pending" | "hold" | "rejected";
-  verifiedAmount: number;
-  originalAmount: number;
-  comments: string;
-  timestamp: string;
-  reason?: string;
-}
+const statusLabels: Record<SubInvoice["status"], string> = {
+  draft: "Draft",
+  submitted: "Submitted",
+  pm_approved: "PM Approved",
+  px_approved: "PX Approved",
+  rejected: "Rejected",
+  paid: "Paid",
+};
 
-interface ComplianceItem {
-  id: string;
-  payAppId: string;
-  type: "coi" | "lien_waiver" | "partial_lien_release" | "progress_photos" | "change_orders" | "safety_compliance" | "prevailing_wage" | "certified_payroll";
-  label: string;
-  required: boolean;
-  status: "pending" | "submitted" | "approved" | "rejected" | "expired";
-  description: string;
-  dueDate?: string;
-  submittedDate?: string;
-  approvedDate?: string;
-  externalSystemId?: string;
-  documentUrl?: string;
-  notes?: string;
+interface InvoiceForm {
+  commitmentNumber: string;
+  invoiceNumber: string;
+  periodStart: string;
+  periodEnd: string;
+  retainagePercent: string;
+  amounts: Record<string, string>;
+  insurance: InsuranceCoverage[];
+  conditionalWaiverReceived: boolean;
+  previousWaiverReceived: boolean;
+  notes: string;
 }
 
-interface PayApplication {
-  id: string;
-  period: string;
-  amount: number;
-  status: "draft" | "submitted" | "approved" | "paid";
-  date: string;
-  retentionAmount: number;
-  netAmount: number;
-  percentComplete: number;
-  contractor: string;
-  complianceItems: ComplianceItem[];
-  comments: PaymentComment[];
-  approvals: PaymentApproval[];
-  currentApprovalStatus?: "approved" | "pending" | "hold" | "rejected";
-  verifiedAmount?: number;
-}
+const emptyInvoiceForm: InvoiceForm = {
+  commitmentNumber: "",
+  invoiceNumber: "",
+  periodStart: "",
+  periodEnd: "",
+  retainagePercent: String(currentRetentionRate(retentionRules[0], 0)),
+  amounts: {},
+  insurance: [],
+  conditionalWaiverReceived: false,
+  previousWaiverReceived: false,
+  notes: "",
+};
 
-interface InvoicingProps {
-  userRole: string;
-  projectData: any;
-}
+const emptyCoverage = (type: InsuranceCoverageType): InsuranceCoverage => ({ type, carrier: "", policyNumber: "", expires: "" });
 
-export default function Invoicing({ userRole, projectData }: InvoicingProps) {
-  const [selectedPayApp, setSelectedPayApp] = useState<PayApplication | null>(null);
-  const [expandedPayApps, setExpandedPayApps] = useState<Set<string>>(new Set());
-  const [isRefreshing, setIsRefreshing] = useState(false);
-  const [editingAmounts, setEditingAmounts] = useState<Set<string>>(new Set());
-  const [tempAmounts, setTempAmounts] = useState<Record<string, number>>({});
-  const [newComment, setNewComment] = useState("");
-  const [approvalStatuses, setApprovalStatuses] = useState<Record<string, string>>({});
-  const [approvalComments, setApprovalComments] = useState<Record<string, string>>({});
-
-  // Mock current user (would come from auth context)
-  const currentUser = {
-    id: "user-001",
-    name: "John Smith",
-    role: "Project Manager",
-  };
+const today = () => new Date().toISOString().slice(0, 10);
 
-  // Role-based data generation
-  const getPayApplicationData = (): PayApplication[] => {
-    const baseApplications: Partial<PayApplication>[] = [
-      {
-        id: "PA-2024-001",
-        period: "January 2024",
-        status: "submitted",
-        date: "2024-01-31",
-        percentComplete: 25,
-        contractor: "ABC Construction",
-        currentApprovalStatus: "pending",
-      },
-      {
-        id: "PA-2024-002",
-        period: "February 2024",
-        status: "approved",
-        date: "2024-02-29",
-        percentComplete: 45,
-        contractor: "XYZ Builders",
-        currentApprovalStatus: "approved",
-      },
-      {
-        id: "PA-2024-003",
-        period: "March 2024",
-        status: "draft",
-        date: "2024-03-31",
-        percentComplete: 65,
-        contractor: "DEF Contractors",
-        currentApprovalStatus: "hold",
-      },
-    ];
-
-    // Role-based scaling
-    const getScaledAmount = (baseAmount: number) => {
-      switch (userRole) {
-        case 'project-manager':
-          return baseAmount * 0.5; // Single project scale
-        case 'project-executive':
-          return baseAmount * 2.5; // Portfolio scale
-        default:
-          return baseAmount * 4.2; // Enterprise scale
-      }
-    };
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+};
 
-    return baseApplications.map((app, index) => {
-      const baseAmount = [125000, 150000, 175000][index];
-      const amount = getScaledAmount(baseAmount);
-      const retentionAmount = amount * 0.05;
-      const netAmount = amount - retentionAmount;
-      const verifiedAmount = index === 1 ? amount * 0.987 : amount; // Second one has adjustment
-
-      return {
-        ...app,
-        amount,
-        retentionAmount,
-        netAmount,
-        verifiedAmount,
-        comments: generateComments(app.id!),
-        approvals: generateApprovals(app.id!, amount, verifiedAmount),
-        complianceItems: generateComplianceItems(app.id!),
-      } as PayApplication;
-    });
-  };
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+};
 
-  const generateComments = (payAppId: string): PaymentComment[] => {
-    const commentSets = {
-      "PA-2024-001": [
-        {
-          id: "comment-001",
-          payAppId,
-          userId: "user-002",
-          userName: "Sarah Johnson",
-          comment: "Foundation work looks good, but need to verify concrete testing results.",
-          timestamp: "2024-02-01T10:30:00Z",
-          type: "verification" as const,
-        },
-        {
-          id: "comment-002",
-          payAppId,
-          userId: "user-003",
-          userName: "Mike Davis",
-          comment: "COI expires next month, need renewal before next pay app.",
-          timestamp: "2024-02-01T14:15:00Z",
-          type: "compliance" as const,
-        },
-      ],
-      "PA-2024-002": [
-        {
-          id: "comment-003",
-          payAppId,
-          userId: "user-001",
-          userName: "John Smith",
-          comment: "Reduced amount by $2,000 due to incomplete electrical work.",
-          timestamp: "2024-03-01T11:00:00Z",
-          type: "approval" as const,
-        },
-      ],
-      "PA-2024-003": [
-        {
-          id: "comment-004",
-          payAppId,
-          userId: "user-001",
-          userName: "John Smith",
-          comment: "On hold pending resolution of partial lien release rejection.",
-          timestamp: "2024-04-01T09:30:00Z",
-          type: "approval" as const,
-        },
-      ],
-    };
+const getApprovalStatusColor = (status: SubInvoice["status"] | "hold") => {
+  switch (status) {
+    case "px_approved":
+    case "paid":
+      return "text-green-600 bg-green-50 border-green-200";
+    case "submitted":
+    case "pm_approved":
+      return "text-yellow-600 bg-yellow-50 border-yellow-200";
+    case "hold":
+      return "text-orange-600 bg-orange-50 border-orange-200";
+    case "rejected":
+      return "text-red-600 bg-red-50 border-red-200";
+    default:
+      return "text-gray-600 bg-gray-50 border-gray-200";
+  }
+};
 
-    return commentSets[payAppId as keyof typeof commentSets] || [];
-  };
+const getApprovalIcon = (status: SubInvoice["status"] | "hold") => {
+  switch (status) {
+    case "px_approved":
+    case "paid":
+      return <CheckCircle className="h-4 w-4 text-green-600" />;
+    case "submitted":
+    case "pm_approved":
+      return <Clock className="h-4 w-4 text-yellow-600" />;
+    case "hold":
+      return <Pause className="h-4 w-4 text-orange-600" />;
+    case "rejected":
+      return <Ban className="h-4 w-4 text-red-600" />;
+    default:
+      return <FileText className="h-4 w-4 text-gray-600" />;
+  }
+};
 
-  const generateApprovals = (payAppId: string, originalAmount: number, verifiedAmount: number): PaymentApproval[] => {
-    return [
-      {
-        id: `approval-${payAppId}`,
-        payAppId,
-        reviewerId: "user-001",
-        reviewerName: "John Smith",
-        status: payAppId === "PA-2024-002" ? "approved" : payAppId === "PA-2024-003" ? "hold" : "pending",
-        verifiedAmount,
-        originalAmount,
-        comments: payAppId === "PA-2024-002" ? "Approved with adjustment for incomplete electrical work" : 
-                 payAppId === "PA-2024-003" ? "Hold pending compliance resolution" : "",
-        timestamp: "2024-02-01T09:00:00Z",
-        reason: payAppId === "PA-2024-003" ? "Compliance issues must be resolved" : undefined,
-      },
-    ];
-  };
+const getComplianceStatusColor = (status: ComplianceCheck["status"]) => {
+  switch (status) {
+    case "ok":
+      return "text-green-600 bg-green-50 border-green-200";
+    case "expiring":
+      return "text-yellow-600 bg-yellow-50 border-yellow-200";
+    case "missing":
+      return "text-red-600 bg-red-50 border-red-200";
+    case "expired":
+      return "text-red-600 bg-red-100 border-red-300";
+  }
+};
 
-  const generateComplianceItems = (payAppId: string): ComplianceItem[] => {
-    const baseItems = [
-      {
-        id: `comp-${payAppId}-coi`,
-        payAppId,
-        type: "coi" as const,
-        label: "Certificate of Insurance",
-        required: true,
-        description: "Valid COI must be on file and current",
-      },
-      {
-        id: `comp-${payAppId}-lien`,
-        payAppId,
-        type: "lien_waiver" as const,
-        label: "Conditional Lien Waiver",
-        required: true,
-        description: "Conditional lien waiver for current period",
-      },
-    ];
-
-    // Add conditional items based on pay app
-    if (payAppId === "PA-2024-003") {
-      baseItems.push({
-        id: `comp-${payAppId}-partial`,
-        payAppId,
-        type: "partial_lien_release" as const,
-        label: "Partial Lien Release",
-        required: true,
-        description: "Partial lien release for previous period work",
-      });
-    }
+const getComplianceIcon = (status: ComplianceCheck["status"]) => {
+  switch (status) {
+    case "ok":
+      return <CheckCircle className="h-4 w-4 text-green-600" />;
+    case "expiring":
+      return <Clock className="h-4 w-4 text-yellow-600" />;
+    case "missing":
+      return <XCircle className="h-4 w-4 text-red-600" />;
+    case "expired":
+      return <AlertTriangle className="h-4 w-4 text-red-600" />;
+  }
+};
 
-    return baseItems.map(item => ({
-      ...item,
-      status: payAppId === "PA-2024-003" && item.type === "partial_lien_release" ? "rejected" : 
-              payAppId === "PA-2024-002" ? "approved" : 
-              item.type === "coi" ? "approved" : "submitted",
-      submittedDate: "2024-01-25",
-      approvedDate: payAppId === "PA-2024-002" || item.type === "coi" ? "2024-01-26" : undefined,
-      dueDate: item.type === "lien_waiver" ? "2024-02-05" : undefined,
-      externalSystemId: `${item.type.toUpperCase()}-2024-001`,
-      notes: payAppId === "PA-2024-003" && item.type === "partial_lien_release" ? 
-             "Incorrect notarization, resubmission required" : undefined,
-    }));
-  };
+function InsuranceEditor({
+  coverages,
+  onChange,
+}: {
+  coverages: InsuranceCoverage[];
+  onChange: (coverages: InsuranceCoverage[]) => void;
+}) {
+  const update = (index: number, patch: Partial<InsuranceCoverage>) =>
+    onChange(coverages.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+  const unused = (Object.keys(insuranceCoverageLabels) as InsuranceCoverageType[]).filter(
+    (type) => !coverages.some((c) => c.type === type)
+  );
 
-  const enhancedPayApplications = useMemo(() => getPayApplicationData(), [userRole]);
-
-  // Initialize approval statuses
-  React.useEffect(() => {
-    const initialStatuses: Record<string, string> = {};
-    enhancedPayApplications.forEach((payApp) => {
-      initialStatuses[payApp.id] = payApp.currentApprovalStatus || "pending";
-    });
-    setApprovalStatuses(initialStatuses);
-  }, [enhancedPayApplications]);
-
-  const handleAmountEdit = (payAppId: string) => {
-    const payApp = enhancedPayApplications.find((pa) => pa.id === payAppId);
-    if (payApp) {
-      setTempAmounts({ ...tempAmounts, [payAppId]: payApp.verifiedAmount || payApp.amount });
-      setEditingAmounts(new Set([...editingAmounts, payAppId]));
-    }
-  };
+  return (
+    <div className="space-y-2">
+      {coverages.map((coverage, index) => (
+        <div key={coverage.type} className="grid grid-cols-12 gap-2 items-center">
+          <span className="col-span-3 text-sm">{insuranceCoverageLabels[coverage.type]}</span>
+          <Input
+            className="col-span-3"
+            placeholder="Carrier"
+            value={coverage.carrier}
+            onChange={(e) => update(index, { carrier: e.target.value })}
+          />
+          <Input
+            className="col-span-3"
+            placeholder="Policy #"
+            value={coverage.policyNumber}
+            onChange={(e) => update(index, { policyNumber: e.target.value })}
+          />
+          <Input
+            className="col-span-2"
+            type="date"
+            value={coverage.expires}
+            onChange={(e) => update(index, { expires: e.target.value })}
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            className="col-span-1 p-1"
+            onClick={() => onChange(coverages.filter((_, i) => i !== index))}
+          >
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+      {unused.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {unused.map((type) => (
+            <Button key={type} variant="outline" size="sm" onClick={() => onChange([...coverages, emptyCoverage(type)])}>
+              <Plus className="h-3 w-3 mr-1" />
+              {insuranceCoverageLabels[type]}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
 
-  const handleAmountSave = (payAppId: string) => {
-    console.log(`Saving verified amount for ${payAppId}: ${tempAmounts[payAppId]}`);
-    setEditingAmounts(new Set([...editingAmounts].filter((id) => id !== payAppId)));
-  };
+/**
+ * Subcontractor and supplier invoices: entry against the commitment's schedule of values,
+ * retainage, lien waiver and insurance compliance, and PM → PX approval ahead of payment.
+ */
+export default function Invoicing({ userRole, projectData }: InvoicingProps) {
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const { projectId: contextProjectId } = useProjectContext();
 
-  const handleAmountCancel = (payAppId: string) => {
-    const newTempAmounts = { ...tempAmounts };
-    delete newTempAmounts[payAppId];
-    setTempAmounts(newTempAmounts);
-    setEditingAmounts(new Set([...editingAmounts].filter((id) => id !== payAppId)));
-  };
+  const { data: projects } = useDataResource("projects");
+  const [selectedProjectId, setSelectedProjectId] = useState<string>("");
+  const [paymentDate, setPaymentDate] = useState(today());
+  const [statusFilter, setStatusFilter] = useState<SubInvoice["status"] | "all">("all");
+  const [expandedInvoices, setExpandedInvoices] = useState<Set<string>>(new Set());
 
-  const handleAddComment = (payAppId: string) => {
-    if (!newComment.trim()) return;
-
-    const comment: PaymentComment = {
-      id: `comment-${Date.now()}`,
-      payAppId,
-      userId: currentUser.id,
-      userName: currentUser.name,
-      comment: newComment,
-      timestamp: new Date().toISOString(),
-      type: "general",
-    };
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState<InvoiceForm>(emptyInvoiceForm);
+  const [certificateTarget, setCertificateTarget] = useState<SubInvoice | null>(null);
+  const [certificateCoverages, setCertificateCoverages] = useState<InsuranceCoverage[]>([]);
+  const [decisionTarget, setDecisionTarget] = useState<{ invoice: SubInvoice; decision: SubInvoiceApproval["decision"] } | null>(null);
+  const [decisionComment, setDecisionComment] = useState("");
 
-    console.log("Adding comment:", comment);
-    setNewComment("");
-  };
+  // Follow the project picked in the header; otherwise default to the first project
+  useEffect(() => {
+    if (contextProjectId && contextProjectId !== "all") setSelectedProjectId(contextProjectId);
+    else if (!selectedProjectId && projects.length > 0) setSelectedProjectId(String(projects[0].project_id));
+  }, [contextProjectId, projects]);
 
-  const handleApprovalStatusChange = (payAppId: string, status: string) => {
-    setApprovalStatuses({ ...approvalStatuses, [payAppId]: status });
-  };
+  const query = { projectId: selectedProjectId || undefined };
+  const { payableRule } = useRetentionRules(selectedProjectId);
+  const { data: commitments } = useDataResource("commitments", query);
+  const { data: changeEvents } = useDataResource("change-events", query);
+  const { data: invoices, setData: setInvoices } = useDataResource("sub-invoices", query);
+  const { data: batches } = useDataResource("pay-authorizations", query);
+
+  const canCreate = can("financial-hub", "create", selectedProjectId);
+  const canEdit = can("financial-hub", "edit", selectedProjectId);
+  const currentUserName = user ? `${user.firstName} ${user.lastName}` : "Unknown User";
 
-  const handleSubmitApproval = (payAppId: string) => {
-    const payApp = enhancedPayApplications.find((pa) => pa.id === payAppId);
-    if (!payApp) return;
-
-    const approval: PaymentApproval = {
-      id: `approval-${Date.now()}`,
-      payAppId,
-      reviewerId: currentUser.id,
-      reviewerName: currentUser.name,
-      status: approvalStatuses[payAppId] as any,
-      verifiedAmount: tempAmounts[payAppId] || payApp.verifiedAmount || payApp.amount,
-      originalAmount: payApp.amount,
-      comments: approvalComments[payAppId] || "",
-      timestamp: new Date().toISOString(),
+  const commitmentFor = (invoice: SubInvoice) => commitments.find((c) => c.Number === invoice.commitmentNumber);
+  const checksFor = (invoice: SubInvoice) =>
+    complianceChecks(invoice, commitmentFor(invoice), lastPaidSubInvoice(invoices, invoice), paymentDate);
+
+  const sortedInvoices = useMemo(
+    () =>
+      invoices
+        .filter((i) => statusFilter === "all" || i.status === statusFilter)
+        .sort((a, b) => b.periodEnd.localeCompare(a.periodEnd) || a.vendor.localeCompare(b.vendor)),
+    [invoices, statusFilter]
+  );
+
+  const summaryStats = useMemo(() => {
+    const open = invoices.filter((i) => i.status === "submitted" || i.status === "pm_approved" || i.status === "px_approved");
+    const held = open.filter((i) =>
+      isOnHold(complianceChecks(i, commitments.find((c) => c.Number === i.commitmentNumber), lastPaidSubInvoice(invoices, i), paymentDate))
+    );
+    const totals = invoices.filter((i) => i.status !== "rejected" && i.status !== "draft").map(subInvoiceTotals);
+    return {
+      total: invoices.length,
+      awaiting: invoices.filter((i) => i.status === "submitted" || i.status === "pm_approved").length,
+      approved: invoices.filter((i) => i.status === "px_approved").length,
+      hold: held.length,
+      billed: totals.reduce((sum, t) => sum + t.thisPeriod, 0),
+      retainage: totals.reduce((sum, t) => sum + t.retainageThisPeriod, 0),
     };
+  }, [invoices, commitments, paymentDate]);
 
-    console.log("Submitting approval:", approval);
-    setApprovalComments({ ...approvalComments, [payAppId]: "" });
+  const canDecide = (invoice: SubInvoice) => {
+    const next = nextInvoiceApprovalRole(invoice);
+    return !!next && can("financial-hub", "approve", selectedProjectId, next);
   };
 
-  const getApprovalStatusColor = (status: string) => {
-    switch (status) {
-      case "approved":
-        return "text-green-600 bg-green-50 border-green-200";
-      case "pending":
-        return "text-yellow-600 bg-yellow-50 border-yellow-200";
-      case "hold":
-        return "text-orange-600 bg-orange-50 border-orange-200";
-      case "rejected":
-        return "text-red-600 bg-red-50 border-red-200";
-      default:
-        return "text-gray-600 bg-gray-50 border-gray-200";
-    }
+  const saveInvoice = async (invoice: SubInvoice, isNew: boolean) => {
+    const source = getDataSource();
+    let saved = invoice;
+    if (isNew && source.create) saved = await source.create("sub-invoices", invoice);
+    else if (!isNew && source.update) saved = await source.update("sub-invoices", invoice.id, invoice);
+    setInvoices((prev) => (isNew ? [saved, ...prev] : prev.map((i) => (i.id === saved.id ? saved : i))));
   };
 
-  const getApprovalIcon = (status: string) => {
-    switch (status) {
-      case "approved":
-        return <CheckCircle className="h-4 w-4 text-green-600" />;
-      case "pending":
-        return <Clock className="h-4 w-4 text-yellow-600" />;
-      case "hold":
-        return <Pause className="h-4 w-4 text-orange-600" />;
-      case "rejected":
-        return <Ban className="h-4 w-4 text-red-600" />;
-      default:
-        return <Clock className="h-4 w-4 text-gray-600" />;
+  const run = async (action: () => Promise<void>, failure: string) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : failure,
+        variant: "destructive",
+      });
     }
   };
 
-  const togglePayAppExpansion = (payAppId: string) => {
-    const newExpanded = new Set(expandedPayApps);
-    if (newExpanded.has(payAppId)) {
-      newExpanded.delete(payAppId);
-    } else {
-      newExpanded.add(payAppId);
-    }
-    setExpandedPayApps(newExpanded);
-  };
+  // Invoice being entered: lines come from the commitment and carry from its previous invoice
+  const formCommitment = commitments.find((c) => c.Number === form.commitmentNumber);
+  const formPrevious = previousSubInvoice(invoices, {
+    id: "",
+    commitmentNumber: form.commitmentNumber,
+    periodEnd: form.periodEnd || "9999-12-31",
+  });
+  const formLines = useMemo(
+    () => (formCommitment ? buildSubInvoiceLines(formCommitment, changeEvents, formPrevious) : []),
+    [formCommitment, changeEvents, formPrevious]
+  );
 
-  const getComplianceStatusColor = (status: string) => {
-    switch (status) {
-      case "approved":
-        return "text-green-600 bg-green-50 border-green-200";
-      case "submitted":
-        return "text-blue-600 bg-blue-50 border-blue-200";
-      case "pending":
-        return "text-yellow-600 bg-yellow-50 border-yellow-200";
-      case "rejected":
-        return "text-red-600 bg-red-50 border-red-200";
-      case "expired":
-        return "text-red-600 bg-red-100 border-red-300";
-      default:
-        return "text-gray-600 bg-gray-50 border-gray-200";
-    }
+  const draftInvoice = (status: SubInvoice["status"]): SubInvoice | null => {
+    if (!formCommitment) return null;
+    const now = new Date().toISOString();
+    const invoice: SubInvoice = {
+      id: nextSubInvoiceId(invoices, formCommitment.Number),
+      projectId: formCommitment.project_id,
+      commitmentNumber: formCommitment.Number,
+      vendor: formCommitment.Vendor,
+      invoiceNumber: form.invoiceNumber.trim(),
+      periodStart: form.periodStart,
+      periodEnd: form.periodEnd,
+      receivedDate: today(),
+      lines: formLines.map((line) => ({ ...line, thisPeriod: Number(form.amounts[line.id]) || 0 })),
+      retainagePercent: Number(form.retainagePercent) || 0,
+      lienWaivers: [],
+      insurance: form.insurance.filter((c) => c.expires),
+      status,
+      approvals: [],
+      ...(form.notes.trim() ? { notes: form.notes.trim() } : {}),
+      createdBy: currentUserName,
+      createdAt: now,
+      updatedAt: now,
+    };
+    const received = (waiverInvoiceId: string) =>
+      waiverInvoiceId === invoice.id ? form.conditionalWaiverReceived : form.previousWaiverReceived;
+    invoice.lienWaivers = requiredLienWaivers(invoice, lastPaidSubInvoice(invoices, invoice)).map((w) => ({
+      ...w,
+      received: received(w.invoiceId),
+      ...(received(w.invoiceId) ? { receivedDate: today() } : {}),
+    }));
+    return invoice;
   };
 
-  const getComplianceIcon = (status: string) => {
-    switch (status) {
-      case "approved":
-        return <CheckCircle className="h-4 w-4 text-green-600" />;
-      case "submitted":
-        return <Clock className="h-4 w-4 text-blue-600" />;
-      case "pending":
-        return <Clock className="h-4 w-4 text-yellow-600" />;
-      case "rejected":
-        return <XCircle className="h-4 w-4 text-red-600" />;
-      case "expired":
-        return <AlertTriangle className="h-4 w-4 text-red-600" />;
-      default:
-        return <FileText className="h-4 w-4 text-gray-600" />;
-    }
-  };
+  const draft = draftInvoice("submitted");
+  const draftTotals = draft ? subInvoiceTotals(draft) : null;
+  const draftPreviousPaid = draft ? lastPaidSubInvoice(invoices, draft) : undefined;
+  const formIssues = draft ? validateSubInvoice(draft) : ["Select a commitment"];
 
-  const handleRefreshCompliance = async () => {
-    setIsRefreshing(true);
-    await new Promise((resolve) => setTimeout(resolve, 2000));
-    setIsRefreshing(false);
+  const openInvoiceForm = () => {
+    setForm(emptyInvoiceForm);
+    setFormOpen(true);
   };
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value);
+  const selectCommitment = (commitmentNumber: string) => {
+    // Certificates on file carry over from the vendor's latest invoice on the commitment
+    const latest = invoices
+      .filter((i) => i.commitmentNumber === commitmentNumber)
+      .sort((a, b) => b.periodEnd.localeCompare(a.periodEnd))[0];
+    // Retainage starts at the subcontract rule's rate (the commitment's own, or the project's
+    // picked in retention management) for where the commitment has billed to
+    const commitment = commitments.find((c) => c.Number === commitmentNumber);
+    setForm((prev) => ({
+      ...prev,
+      commitmentNumber,
+      retainagePercent: commitment
+        ? String(currentRetentionRate(subcontractRetentionRule(commitment, payableRule), commitmentPercentComplete(commitment)))
+        : prev.retainagePercent,
+      amounts: {},
+      insurance: latest?.insurance ?? [emptyCoverage("general-liability")],
+    }));
   };
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-    });
-  };
+  const submitInvoice = (status: "draft" | "submitted") =>
+    run(async () => {
+      const invoice = draftInvoice(status);
+      if (!invoice || (status === "submitted" && formIssues.length > 0)) return;
+      await saveInvoice(invoice, true);
+      toast({
+        title: status === "draft" ? "Invoice Saved" : "Invoice Submitted",
+        description: `${invoice.vendor} · ${formatCurrency(subInvoiceTotals(invoice).netDue)} net`,
+      });
+      setFormOpen(false);
+    }, "Failed to save invoice");
 
-  // Calculate summary statistics
-  const summaryStats = useMemo(() => {
-    const total = enhancedPayApplications.length;
-    const draft = enhancedPayApplications.filter((pa) => pa.status === "draft").length;
-    const submitted = enhancedPayApplications.filter((pa) => pa.status === "submitted").length;
-    const approved = enhancedPayApplications.filter((pa) => pa.currentApprovalStatus === "approved").length;
-    const pending = enhancedPayApplications.filter((pa) => pa.currentApprovalStatus === "pending").length;
-    const hold = enhancedPayApplications.filter((pa) => pa.currentApprovalStatus === "hold").length;
-    const rejected = enhancedPayApplications.filter((pa) => pa.currentApprovalStatus === "rejected").length;
-    const totalAmount = enhancedPayApplications.reduce((sum, pa) => sum + pa.amount, 0);
-    const totalVerified = enhancedPayApplications.reduce((sum, pa) => sum + (pa.verifiedAmount || pa.amount), 0);
-
-    return { total, draft, submitted, approved, pending, hold, rejected, totalAmount, totalVerified };
-  }, [enhancedPayApplications]);
+  const submitDraft = (invoice: SubInvoice) =>
+    run(async () => {
+      const issues = validateSubInvoice(invoice);
+      if (issues.length > 0) {
+        toast({ title: "Invoice Incomplete", description: issues.join(". "), variant: "destructive" });
+        return;
+      }
+      await saveInvoice({ ...invoice, status: "submitted", updatedAt: new Date().toISOString() }, false);
+    }, "Failed to submit invoice");
+
+  const submitDecision = () =>
+    run(async () => {
+      if (!decisionTarget) return;
+      const { invoice, decision } = decisionTarget;
+      await saveInvoice(decideSubInvoice(invoice, currentUserName, decision, decisionComment || undefined), false);
+      toast({
+        title: decision === "approved" ? "Invoice Approved" : "Invoice Rejected",
+        description: `${invoice.vendor} · Invoice #${invoice.invoiceNumber}`,
+      });
+      setDecisionTarget(null);
+      setDecisionComment("");
+    }, "Failed to save invoice decision");
+
+  const markWaiverReceived = (invoice: SubInvoice, check: ComplianceCheck) =>
+    run(async () => {
+      const waiver = requiredLienWaivers(invoice, lastPaidSubInvoice(invoices, invoice)).find(
+        (w) => check.id === `waiver-${w.kind}-${w.invoiceId}`
+      );
+      if (!waiver) return;
+      await saveInvoice(receiveLienWaiver(invoice, lastPaidSubInvoice(invoices, invoice), waiver), false);
+    }, "Failed to record lien waiver");
+
+  const saveCertificate = () =>
+    run(async () => {
+      if (!certificateTarget) return;
+      await saveInvoice(
+        { ...certificateTarget, insurance: certificateCoverages.filter((c) => c.expires), updatedAt: new Date().toISOString() },
+        false
+      );
+      setCertificateTarget(null);
+    }, "Failed to update insurance");
+
+  const toggleInvoiceExpansion = (invoiceId: string) => {
+    const newExpanded = new Set(expandedInvoices);
+    if (newExpanded.has(invoiceId)) {
+      newExpanded.delete(invoiceId);
+    } else {
+      newExpanded.add(invoiceId);
+    }
+    setExpandedInvoices(newExpanded);
+  };
 
   return (
     <div className="space-y-6">
-      {/* HBI AI Insights */}
-      <Card className="bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 dark:from-blue-950 dark:via-indigo-950 dark:to-purple-950 border-blue-200 dark:border-blue-800">
-        <CardHeader className="pb-2 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-t-lg">
-          <CardTitle className="flex items-center gap-2">
-            <div className="p-1.5 bg-white/20 rounded-lg">
-              <Brain className="h-5 w-5" />
-            </div>
-            <div className="flex-1">
-              HBI Payment Approval Analysis
-              <p className="text-xs font-normal text-blue-100 mt-0.5">AI-Powered Approval Workflow & Risk Assessment</p>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <FileText className="h-5 w-5" />
+                Subcontractor Invoices
+              </CardTitle>
+              <CardDescription>
+                Invoices against commitments, retainage, lien waiver and insurance compliance, and PM → PX approval
+              </CardDescription>
             </div>
-          </CardTitle>
+            {canCreate && (
+              <Button onClick={openInvoiceForm} disabled={commitments.length === 0} className="flex items-center gap-2">
+                <Plus className="h-4 w-4" />
+                New Invoice
+              </Button>
+            )}
+          </div>
         </CardHeader>
-        <CardContent className="space-y-3 p-4">
-          <Alert className="border-yellow-200 dark:border-yellow-800">
-            <AlertTriangle className="h-4 w-4" />
-            <AlertDescription>
-              <div className="space-y-1">
-                <p className="font-medium">HBI Approval Workflow Insights</p>
-                <p className="text-sm text-muted-foreground">
-                  {summaryStats.hold} payment{summaryStats.hold !== 1 ? 's' : ''} on hold due to compliance issues. Average approval time: 2.3 days.
-                </p>
-                <p className="text-sm font-medium">
-                  Recommendation: {summaryStats.hold > 0 ? 'Expedite compliance resolution to maintain payment schedule.' : 'All payments are progressing normally.'}
-                </p>
-              </div>
-            </AlertDescription>
-          </Alert>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label>Project</Label>
+              <Select value={selectedProjectId} onValueChange={setSelectedProjectId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select project" />
+                </SelectTrigger>
+                <SelectContent>
+                  {projects.map((p) => (
+                    <SelectItem key={p.project_id} value={String(p.project_id)}>
+                      {p.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Status</Label>
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as SubInvoice["status"] | "all")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {(Object.keys(statusLabels) as SubInvoice["status"][]).map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {statusLabels[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Compliance As Of</Label>
+              <Input type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value || today())} />
+            </div>
+          </div>
         </CardContent>
       </Card>
 
@@ -514,7 +542,7 @@ export default function Invoicing({ userRole, projectData }: InvoicingProps) {
           <CardContent className="p-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-muted-foreground">Total Applications</p>
+                <p className="text-sm font-medium text-muted-foreground">Invoices</p>
                 <p className="text-2xl font-bold">{summaryStats.total}</p>
               </div>
               <FileText className="h-8 w-8 text-muted-foreground" />
@@ -526,10 +554,10 @@ export default function Invoicing({ userRole, projectData }: InvoicingProps) {
           <CardContent className="p-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-muted-foreground">Approved</p>
-                <p className="text-2xl font-bold text-green-600">{summaryStats.approved}</p>
+                <p className="text-sm font-medium text-muted-foreground">Awaiting Approval</p>
+                <p className="text-2xl font-bold text-yellow-600">{summaryStats.awaiting}</p>
               </div>
-              <CheckCircle className="h-8 w-8 text-green-600" />
+              <Clock className="h-8 w-8 text-yellow-600" />
             </div>
           </CardContent>
         </Card>
@@ -538,10 +566,10 @@ export default function Invoicing({ userRole, projectData }: InvoicingProps) {
           <CardContent className="p-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-muted-foreground">Pending</p>
-                <p className="text-2xl font-bold text-yellow-600">{summaryStats.pending}</p>
+                <p className="text-sm font-medium text-muted-foreground">Approved</p>
+                <p className="text-2xl font-bold text-green-600">{summaryStats.approved}</p>
               </div>
-              <Clock className="h-8 w-8 text-yellow-600" />
+              <CheckCircle className="h-8 w-8 text-green-600" />
             </div>
           </CardContent>
         </Card>
@@ -562,8 +590,8 @@ export default function Invoicing({ userRole, projectData }: InvoicingProps) {
           <CardContent className="p-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-muted-foreground">Original Amount</p>
-                <p className="text-2xl font-bold">{formatCurrency(summaryStats.totalAmount)}</p>
+                <p className="text-sm font-medium text-muted-foreground">Billed</p>
+                <p className="text-2xl font-bold">{formatCurrency(summaryStats.billed)}</p>
               </div>
               <DollarSign className="h-8 w-8 text-muted-foreground" />
             </div>
@@ -574,268 +602,471 @@ export default function Invoicing({ userRole, projectData }: InvoicingProps) {
           <CardContent className="p-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-muted-foreground">Verified Amount</p>
-                <p className="text-2xl font-bold text-green-600">{formatCurrency(summaryStats.totalVerified)}</p>
+                <p className="text-sm font-medium text-muted-foreground">Retainage Withheld</p>
+                <p className="text-2xl font-bold text-blue-600">{formatCurrency(summaryStats.retainage)}</p>
               </div>
-              <Shield className="h-8 w-8 text-green-600" />
+              <Shield className="h-8 w-8 text-blue-600" />
             </div>
           </CardContent>
         </Card>
       </div>
 
-      {/* Main Content */}
+      {/* Invoices */}
       <Card>
         <CardHeader>
-          <div className="flex items-center justify-between">
-            <div>
-              <CardTitle>Payment Authorization & Approval</CardTitle>
-              <CardDescription>Review, verify amounts, and approve payment applications</CardDescription>
-            </div>
-            <Button
-              onClick={handleRefreshCompliance}
-              variant="outline"
-              size="sm"
-              disabled={isRefreshing}
-              className="flex items-center gap-2"
-            >
-              <RefreshCw className={`h-4 w-4 ${isRefreshing ? "animate-spin" : ""}`} />
-              Refresh Data
-            </Button>
-          </div>
+          <CardTitle>Invoice Approval</CardTitle>
+          <CardDescription>
+            Missing or expired compliance items hold an invoice from approval and payment
+          </CardDescription>
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            {enhancedPayApplications.map((payApp) => (
-              <Card key={payApp.id} className="border-l-4 border-l-blue-500">
-                <CardContent className="p-4">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-4">
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => togglePayAppExpansion(payApp.id)}
-                        className="p-1"
-                      >
-                        {expandedPayApps.has(payApp.id) ? (
-                          <ChevronDown className="h-4 w-4" />
-                        ) : (
-                          <ChevronRight className="h-4 w-4" />
-                        )}
-                      </Button>
-                      <div>
-                        <h3 className="font-semibold">
-                          {payApp.id} - {payApp.contractor}
-                        </h3>
-                        <p className="text-sm text-muted-foreground">{payApp.period}</p>
-                      </div>
-                    </div>
-                    <div className="flex items-center gap-4">
-                      <div className="text-right">
-                        <div className="flex items-center gap-2">
-                          {editingAmounts.has(payApp.id) ? (
-                            <div className="flex items-center gap-2">
-                              <Input
-                                type="number"
-                                value={tempAmounts[payApp.id] || 0}
-                                onChange={(e) =>
-                                  setTempAmounts({
-                                    ...tempAmounts,
-                                    [payApp.id]: Number.parseFloat(e.target.value) || 0,
-                                  })
-                                }
-                                className="w-32 text-right"
-                              />
-                              <Button size="sm" onClick={() => handleAmountSave(payApp.id)}>
-                                <Save className="h-3 w-3" />
-                              </Button>
-                              <Button size="sm" variant="outline" onClick={() => handleAmountCancel(payApp.id)}>
-                                <X className="h-3 w-3" />
-                              </Button>
-                            </div>
+            {sortedInvoices.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-8">No invoices for this project.</p>
+            )}
+            {sortedInvoices.map((invoice) => {
+              const totals = subInvoiceTotals(invoice);
+              const checks = checksFor(invoice);
+              const held = invoice.status !== "paid" && invoice.status !== "rejected" && isOnHold(checks);
+              const displayStatus = held ? "hold" : invoice.status;
+              const batch = batches.find((b) => b.id === invoice.batchId);
+              const open = invoice.status !== "paid" && invoice.status !== "rejected";
+
+              return (
+                <Card key={invoice.id} className="border-l-4 border-l-blue-500">
+                  <CardContent className="p-4">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-4">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => toggleInvoiceExpansion(invoice.id)}
+                          className="p-1"
+                        >
+                          {expandedInvoices.has(invoice.id) ? (
+                            <ChevronDown className="h-4 w-4" />
                           ) : (
-                            <div className="flex items-center gap-2">
-                              <div>
-                                <p className="font-semibold">
-                                  {formatCurrency(payApp.verifiedAmount || payApp.amount)}
-                                </p>
-                                {payApp.verifiedAmount !== payApp.amount && (
-                                  <p className="text-xs text-muted-foreground">
-                                    Original: {formatCurrency(payApp.amount)}
-                                  </p>
-                                )}
-                              </div>
-                              <Button
-                                size="sm"
-                                variant="ghost"
-                                onClick={() => handleAmountEdit(payApp.id)}
-                                className="p-1"
-                              >
-                                <Edit3 className="h-3 w-3" />
-                              </Button>
-                            </div>
+                            <ChevronRight className="h-4 w-4" />
                           )}
+                        </Button>
+                        <div>
+                          <h3 className="font-semibold">
+                            Invoice #{invoice.invoiceNumber} - {invoice.vendor}
+                          </h3>
+                          <p className="text-sm text-muted-foreground">
+                            {invoice.commitmentNumber} · {formatDate(invoice.periodStart)} – {formatDate(invoice.periodEnd)}
+                            {batch && ` · ${batch.number}`}
+                            {invoice.checkNumber && ` · Check ${invoice.checkNumber}`}
+                          </p>
                         </div>
+                      </div>
+                      <div className="text-right">
+                        <p className="font-semibold">{formatCurrency(totals.netDue)}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatCurrency(totals.thisPeriod)} less {formatCurrency(totals.retainageThisPeriod)} retainage
+                        </p>
                         <div
-                          className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs border ${getApprovalStatusColor(payApp.currentApprovalStatus || "pending")}`}
+                          className={`inline-flex items-center gap-1 px-2 py-1 mt-1 rounded-full text-xs border ${getApprovalStatusColor(displayStatus)}`}
                         >
-                          {getApprovalIcon(payApp.currentApprovalStatus || "pending")}
-                          {payApp.currentApprovalStatus || "pending"}
+                          {getApprovalIcon(displayStatus)}
+                          {held ? `On Hold · ${statusLabels[invoice.status]}` : statusLabels[invoice.status]}
                         </div>
                       </div>
                     </div>
-                  </div>
 
-                  <Collapsible open={expandedPayApps.has(payApp.id)}>
-                    <CollapsibleContent className="mt-4">
-                      <div className="border-t pt-4 space-y-6">
-                        {/* Approval Section */}
-                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                          {/* Approval Controls */}
-                          <div className="space-y-4">
-                            <h4 className="font-medium flex items-center gap-2">
-                              <CheckCircle className="h-4 w-4" />
-                              Payment Approval
-                            </h4>
-                            <div className="space-y-3 p-4 border rounded-lg bg-gray-50 dark:bg-gray-800">
-                              <div>
-                                <Label htmlFor={`approval-status-${payApp.id}`}>Approval Status</Label>
-                                <Select
-                                  value={approvalStatuses[payApp.id] || "pending"}
-                                  onValueChange={(value) => handleApprovalStatusChange(payApp.id, value)}
-                                >
-                                  <SelectTrigger>
-                                    <SelectValue />
-                                  </SelectTrigger>
-                                  <SelectContent>
-                                    <SelectItem value="approved">Approved</SelectItem>
-                                    <SelectItem value="pending">Pending</SelectItem>
-                                    <SelectItem value="hold">Hold</SelectItem>
-                                    <SelectItem value="rejected">Rejected</SelectItem>
-                                  </SelectContent>
-                                </Select>
-                              </div>
-                              <div>
-                                <Label htmlFor={`approval-comment-${payApp.id}`}>Approval Comments</Label>
-                                <Textarea
-                                  id={`approval-comment-${payApp.id}`}
-                                  value={approvalComments[payApp.id] || ""}
-                                  onChange={(e) =>
-                                    setApprovalComments({
-                                      ...approvalComments,
-                                      [payApp.id]: e.target.value,
-                                    })
-                                  }
-                                  placeholder="Add approval comments or reasons for hold/rejection..."
-                                  rows={3}
-                                />
-                              </div>
-                              <Button
-                                onClick={() => handleSubmitApproval(payApp.id)}
-                                className="w-full"
-                                disabled={!approvalStatuses[payApp.id]}
-                              >
-                                Submit Approval Decision
-                              </Button>
+                    <Collapsible open={expandedInvoices.has(invoice.id)}>
+                      <CollapsibleContent className="mt-4">
+                        <div className="border-t pt-4 space-y-6">
+                          {/* Schedule of Values */}
+                          <Table>
+                            <TableHeader>
+                              <TableRow>
+                                <TableHead>Description</TableHead>
+                                <TableHead className="text-right">Scheduled Value</TableHead>
+                                <TableHead className="text-right">Previous</TableHead>
+                                <TableHead className="text-right">This Period</TableHead>
+                                <TableHead className="text-right">To Date</TableHead>
+                                <TableHead className="text-right">%</TableHead>
+                              </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                              {invoice.lines.map((line) => {
+                                const toDate = line.previousBilled + line.thisPeriod;
+                                return (
+                                  <TableRow key={line.id}>
+                                    <TableCell>{line.description}</TableCell>
+                                    <TableCell className="text-right">{formatCurrency(line.scheduledValue)}</TableCell>
+                                    <TableCell className="text-right">{formatCurrency(line.previousBilled)}</TableCell>
+                                    <TableCell className="text-right">{formatCurrency(line.thisPeriod)}</TableCell>
+                                    <TableCell className="text-right">{formatCurrency(toDate)}</TableCell>
+                                    <TableCell className="text-right">
+                                      {line.scheduledValue > 0 ? ((toDate / line.scheduledValue) * 100).toFixed(1) : "—"}
+                                    </TableCell>
+                                  </TableRow>
+                                );
+                              })}
+                            </TableBody>
+                            <TableFooter>
+                              <TableRow>
+                                <TableCell>Total</TableCell>
+                                <TableCell className="text-right">{formatCurrency(totals.scheduledValue)}</TableCell>
+                                <TableCell className="text-right">{formatCurrency(totals.previousBilled)}</TableCell>
+                                <TableCell className="text-right">{formatCurrency(totals.thisPeriod)}</TableCell>
+                                <TableCell className="text-right">{formatCurrency(totals.billedToDate)}</TableCell>
+                                <TableCell className="text-right">{totals.percentComplete.toFixed(1)}</TableCell>
+                              </TableRow>
+                            </TableFooter>
+                          </Table>
+                          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                            <div>
+                              <p className="text-muted-foreground">Retainage ({invoice.retainagePercent}%)</p>
+                              <p className="font-medium">{formatCurrency(totals.retainageThisPeriod)}</p>
+                            </div>
+                            <div>
+                              <p className="text-muted-foreground">Retainage to Date</p>
+                              <p className="font-medium">{formatCurrency(totals.retainageToDate)}</p>
+                            </div>
+                            <div>
+                              <p className="text-muted-foreground">Net Due</p>
+                              <p className="font-medium">{formatCurrency(totals.netDue)}</p>
+                            </div>
+                            <div>
+                              <p className="text-muted-foreground">Balance to Finish</p>
+                              <p className="font-medium">{formatCurrency(totals.balanceToFinish)}</p>
                             </div>
                           </div>
 
-                          {/* Comments Section */}
-                          <div className="space-y-4">
-                            <h4 className="font-medium flex items-center gap-2">
-                              <MessageSquare className="h-4 w-4" />
-                              Comments & Notes
-                            </h4>
-                            <div className="space-y-3">
-                              <div className="flex gap-2">
-                                <Input
-                                  value={newComment}
-                                  onChange={(e) => setNewComment(e.target.value)}
-                                  placeholder="Add a comment..."
-                                  onKeyPress={(e) => {
-                                    if (e.key === "Enter") {
-                                      handleAddComment(payApp.id);
-                                    }
+                          <Separator />
+
+                          {/* Compliance Section */}
+                          <div>
+                            <div className="flex items-center justify-between mb-3">
+                              <h4 className="font-medium flex items-center gap-2">
+                                <Shield className="h-4 w-4" />
+                                Compliance Requirements
+                              </h4>
+                              {canEdit && open && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => {
+                                    setCertificateTarget(invoice);
+                                    setCertificateCoverages(invoice.insurance);
                                   }}
-                                />
-                                <Button onClick={() => handleAddComment(payApp.id)} disabled={!newComment.trim()}>
-                                  Add
+                                >
+                                  Update Insurance
                                 </Button>
-                              </div>
-                              <ScrollArea className="h-32 border rounded-lg p-3">
-                                <div className="space-y-2">
-                                  {payApp.comments.map((comment) => (
-                                    <div key={comment.id} className="text-sm">
-                                      <div className="flex items-center gap-2 mb-1">
-                                        <User className="h-3 w-3" />
-                                        <span className="font-medium">{comment.userName}</span>
-                                        <Badge variant="outline" className="text-xs">
-                                          {comment.type}
-                                        </Badge>
-                                        <span className="text-xs text-muted-foreground">
-                                          {formatDate(comment.timestamp)}
-                                        </span>
+                              )}
+                            </div>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                              {checks.map((check) => (
+                                <div key={check.id} className={`p-3 rounded-lg border ${getComplianceStatusColor(check.status)}`}>
+                                  <div className="flex items-start justify-between">
+                                    <div className="flex items-start gap-2">
+                                      {getComplianceIcon(check.status)}
+                                      <div className="flex-1">
+                                        <p className="font-medium text-sm">{check.label}</p>
+                                        <p className="text-xs text-muted-foreground mt-1">{check.detail}</p>
                                       </div>
-                                      <p className="text-muted-foreground ml-5">{comment.comment}</p>
                                     </div>
-                                  ))}
+                                    {check.category === "lien-waiver" && check.status === "missing" && canEdit && open ? (
+                                      <Button size="sm" variant="outline" onClick={() => markWaiverReceived(invoice, check)}>
+                                        Received
+                                      </Button>
+                                    ) : (
+                                      <Badge variant={check.status === "ok" ? "default" : "secondary"} className="text-xs">
+                                        {check.status}
+                                      </Badge>
+                                    )}
+                                  </div>
                                 </div>
-                              </ScrollArea>
+                              ))}
                             </div>
                           </div>
-                        </div>
 
-                        <Separator />
+                          <Separator />
 
-                        {/* Compliance Section */}
-                        <div>
-                          <h4 className="font-medium mb-3 flex items-center gap-2">
-                            <Shield className="h-4 w-4" />
-                            Compliance Requirements
-                          </h4>
-                          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                            {payApp.complianceItems.map((item) => (
-                              <div
-                                key={item.id}
-                                className={`p-3 rounded-lg border ${getComplianceStatusColor(item.status)}`}
-                              >
-                                <div className="flex items-start justify-between">
-                                  <div className="flex items-start gap-2">
-                                    {getComplianceIcon(item.status)}
-                                    <div className="flex-1">
-                                      <div className="flex items-center gap-2">
-                                        <p className="font-medium text-sm">{item.label}</p>
-                                        {item.required && (
-                                          <Badge variant="outline" className="text-xs">
-                                            Required
-                                          </Badge>
-                                        )}
-                                      </div>
-                                      <p className="text-xs text-muted-foreground mt-1">{item.description}</p>
-                                      {item.notes && (
-                                        <p className="text-xs text-red-600 dark:text-red-400 mt-1 font-medium">Note: {item.notes}</p>
-                                      )}
-                                    </div>
-                                  </div>
-                                  <Badge
-                                    variant={item.status === "approved" ? "default" : "secondary"}
-                                    className="text-xs"
-                                  >
-                                    {item.status}
+                          {/* Approvals */}
+                          <div className="space-y-3">
+                            <h4 className="font-medium flex items-center gap-2">
+                              <CheckCircle className="h-4 w-4" />
+                              Approvals
+                            </h4>
+                            {invoice.approvals.length === 0 && (
+                              <p className="text-sm text-muted-foreground">No approvals yet.</p>
+                            )}
+                            {invoice.approvals.map((approval) => (
+                              <div key={`${approval.role}-${approval.date}`} className="text-sm">
+                                <div className="flex items-center gap-2">
+                                  <User className="h-3 w-3" />
+                                  <span className="font-medium">{approval.approver}</span>
+                                  <Badge variant="outline" className="text-xs">
+                                    {approval.role}
                                   </Badge>
+                                  <span className={approval.decision === "approved" ? "text-green-600" : "text-red-600"}>
+                                    {approval.decision}
+                                  </span>
+                                  <span className="text-xs text-muted-foreground">{formatDate(approval.date)}</span>
                                 </div>
+                                {approval.comment && <p className="text-muted-foreground ml-5">{approval.comment}</p>}
                               </div>
                             ))}
+                            {invoice.notes && <p className="text-sm text-muted-foreground">Note: {invoice.notes}</p>}
+                            <div className="flex gap-2">
+                              {invoice.status === "draft" && canEdit && (
+                                <Button size="sm" onClick={() => submitDraft(invoice)}>
+                                  <Send className="h-4 w-4 mr-2" />
+                                  Submit for Approval
+                                </Button>
+                              )}
+                              {canDecide(invoice) && (
+                                <>
+                                  <Button
+                                    size="sm"
+                                    disabled={held}
+                                    title={held ? "Resolve compliance holds before approving" : undefined}
+                                    onClick={() => setDecisionTarget({ invoice, decision: "approved" })}
+                                  >
+                                    Approve as {nextInvoiceApprovalRole(invoice)}
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => setDecisionTarget({ invoice, decision: "rejected" })}
+                                  >
+                                    Reject
+                                  </Button>
+                                </>
+                              )}
+                            </div>
                           </div>
                         </div>
-                      </div>
-                    </CollapsibleContent>
-                  </Collapsible>
-                </CardContent>
-              </Card>
-            ))}
+                      </CollapsibleContent>
+                    </Collapsible>
+                  </CardContent>
+                </Card>
+              );
+            })}
           </div>
         </CardContent>
       </Card>
+
+      {/* New invoice */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Subcontractor Invoice</DialogTitle>
+            <DialogDescription>Bill this period against the commitment's schedule of values</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label>Commitment</Label>
+                <Select value={form.commitmentNumber} onValueChange={selectCommitment}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select commitment" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {commitments.map((c) => (
+                      <SelectItem key={c.Number} value={c.Number}>
+                        {c.Number} · {c.Vendor}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Vendor Invoice #</Label>
+                <Input
+                  value={form.invoiceNumber}
+                  onChange={(e) => setForm((prev) => ({ ...prev, invoiceNumber: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-1">
+                <Label>Period Start</Label>
+                <Input
+                  type="date"
+                  value={form.periodStart}
+                  onChange={(e) => setForm((prev) => ({ ...prev, periodStart: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Period End</Label>
+                <Input
+                  type="date"
+                  value={form.periodEnd}
+                  onChange={(e) => setForm((prev) => ({ ...prev, periodEnd: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Retainage %</Label>
+                <Input
+                  type="number"
+                  value={form.retainagePercent}
+                  onChange={(e) => setForm((prev) => ({ ...prev, retainagePercent: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            {formLines.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Scheduled Value</TableHead>
+                    <TableHead className="text-right">Previous</TableHead>
+                    <TableHead className="text-right">This Period</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {formLines.map((line) => (
+                    <TableRow key={line.id}>
+                      <TableCell>{line.description}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(line.scheduledValue)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(line.previousBilled)}</TableCell>
+                      <TableCell className="text-right">
+                        <Input
+                          type="number"
+                          className="w-36 ml-auto text-right"
+                          value={form.amounts[line.id] ?? ""}
+                          onChange={(e) =>
+                            setForm((prev) => ({ ...prev, amounts: { ...prev.amounts, [line.id]: e.target.value } }))
+                          }
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {draftTotals && (
+              <div className="grid grid-cols-3 gap-4 text-sm">
+                <div>
+                  <p className="text-muted-foreground">This Period</p>
+                  <p className="font-medium">{formatCurrency(draftTotals.thisPeriod)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Retainage</p>
+                  <p className="font-medium">{formatCurrency(draftTotals.retainageThisPeriod)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Net Due</p>
+                  <p className="font-medium">{formatCurrency(draftTotals.netDue)}</p>
+                </div>
+              </div>
+            )}
+
+            {formCommitment && (
+              <>
+                <div className="space-y-2">
+                  <Label>Certificate of Insurance</Label>
+                  <InsuranceEditor
+                    coverages={form.insurance}
+                    onChange={(insurance) => setForm((prev) => ({ ...prev, insurance }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Lien Waivers</Label>
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="conditional-waiver"
+                      checked={form.conditionalWaiverReceived}
+                      onCheckedChange={(checked) => setForm((prev) => ({ ...prev, conditionalWaiverReceived: checked === true }))}
+                    />
+                    <Label htmlFor="conditional-waiver" className="font-normal">
+                      Conditional waiver for this payment received
+                    </Label>
+                  </div>
+                  {draftPreviousPaid && (
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="previous-waiver"
+                        checked={form.previousWaiverReceived}
+                        onCheckedChange={(checked) => setForm((prev) => ({ ...prev, previousWaiverReceived: checked === true }))}
+                      />
+                      <Label htmlFor="previous-waiver" className="font-normal">
+                        Unconditional waiver for Invoice #{draftPreviousPaid.invoiceNumber} received
+                      </Label>
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+            <div className="space-y-1">
+              <Label>Notes</Label>
+              <Textarea value={form.notes} onChange={(e) => setForm((prev) => ({ ...prev, notes: e.target.value }))} />
+            </div>
+            {formIssues.length > 0 && (
+              <ul className="text-sm text-red-600 list-disc pl-5 space-y-1">
+                {formIssues.map((issue) => (
+                  <li key={issue}>{issue}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button variant="outline" onClick={() => submitInvoice("draft")} disabled={!draft}>
+              Save Draft
+            </Button>
+            <Button onClick={() => submitInvoice("submitted")} disabled={formIssues.length > 0}>
+              <Send className="h-4 w-4 mr-2" />
+              Submit for Approval
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Insurance certificate update */}
+      <Dialog open={!!certificateTarget} onOpenChange={(open) => !open && setCertificateTarget(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Update Certificate of Insurance</DialogTitle>
+            <DialogDescription>
+              {certificateTarget?.vendor} · Invoice #{certificateTarget?.invoiceNumber}
+            </DialogDescription>
+          </DialogHeader>
+          <InsuranceEditor coverages={certificateCoverages} onChange={setCertificateCoverages} />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCertificateTarget(null)}>
+              Cancel
+            </Button>
+            <Button onClick={saveCertificate}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Approval decision */}
+      <Dialog open={!!decisionTarget} onOpenChange={(open) => !open && setDecisionTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{decisionTarget?.decision === "approved" ? "Approve" : "Reject"} Invoice</DialogTitle>
+            <DialogDescription>
+              {decisionTarget?.invoice.vendor} · Invoice #{decisionTarget?.invoice.invoiceNumber} ·{" "}
+              {formatCurrency(decisionTarget ? subInvoiceTotals(decisionTarget.invoice).netDue : 0)} net
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1">
+            <Label>Comment</Label>
+            <Textarea value={decisionComment} onChange={(e) => setDecisionComment(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDecisionTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={decisionTarget?.decision === "rejected" ? "destructive" : "default"}
+              onClick={submitDecision}
+            >
+              {decisionTarget?.decision === "approved" ? "Approve" : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -0,0 +1,457 @@
+"use client";
+
+import React, { useState, useEffect, useMemo } from "react";
+import { Scale, CheckCircle, AlertTriangle, Clock, Download, MessageSquare } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/context/auth-context";
+import { useProjectContext } from "@/context/project-context";
+import { useDataResource } from "@/hooks/use-data-resource";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useToast } from "@/hooks/use-toast";
+import { getDataSource } from "@/lib/data";
+import {
+  buildDiscrepancyWorklist,
+  defaultReconciliationTolerance,
+  discrepancyKindLabels,
+  exportReconciliationReport,
+  reconcileJobCosts,
+  reconciliationFieldLabels,
+  resolveDiscrepancy,
+  summarizeReconciliation,
+} from "@/lib/financial/reconciliation";
+import type { Discrepancy, DiscrepancyKind, DiscrepancyResolution, DiscrepancyStatus, ReconciliationTolerance } from "@/types/reconciliation";
+
+interface JobCostReconciliationProps {
+  userRole: string;
+  projectData: any;
+}
+
+const ALL_PROJECTS = "all";
+
+const statusStyles: Record<DiscrepancyStatus, string> = {
+  open: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  explained: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+  resolved: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+};
+
+const kindStyles: Record<DiscrepancyKind, string> = {
+  amount: "bg-red-50 text-red-700 dark:bg-red-950 dark:text-red-300",
+  timing: "bg-blue-50 text-blue-700 dark:bg-blue-950 dark:text-blue-300",
+  "missing-in-sage": "bg-purple-50 text-purple-700 dark:bg-purple-950 dark:text-purple-300",
+  "missing-in-procore": "bg-purple-50 text-purple-700 dark:bg-purple-950 dark:text-purple-300",
+};
+
+/**
+ * Procore budget against Sage job cost history: differences over tolerance become a
+ * worklist reviewers explain or resolve before month-end close.
+ */
+export default function JobCostReconciliation({ userRole, projectData }: JobCostReconciliationProps) {
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const { projectId: contextProjectId } = useProjectContext();
+
+  const [selectedProjectId, setSelectedProjectId] = useState<string>(ALL_PROJECTS);
+  const [closeDate, setCloseDate] = useState("");
+  const [tolerance, setTolerance] = useState<ReconciliationTolerance>(defaultReconciliationTolerance);
+  const [statusFilter, setStatusFilter] = useState<DiscrepancyStatus | "all">("open");
+  const [kindFilter, setKindFilter] = useState<DiscrepancyKind | "all">("all");
+  const [reviewing, setReviewing] = useState<{ discrepancy: Discrepancy; status: DiscrepancyResolution["status"] } | null>(null);
+  const [reviewNote, setReviewNote] = useState("");
+
+  useEffect(() => {
+    if (contextProjectId) setSelectedProjectId(contextProjectId);
+  }, [contextProjectId]);
+
+  const query = { projectId: selectedProjectId === ALL_PROJECTS ? undefined : selectedProjectId };
+  const { data: projects } = useDataResource("projects");
+  const { data: budget, isLoading: budgetLoading } = useDataResource("budget", query);
+  const { data: history, isLoading: historyLoading } = useDataResource("job-cost-history", query);
+  const { data: resolutions, setData: setResolutions } = useDataResource("reconciliation-resolutions", query);
+
+  // Close against the latest Sage sync unless the reviewer picks another date
+  const lastSync = useMemo(
+    () => history.flatMap((job) => job.jobCostItems.map((item) => item.lastUpdated.slice(0, 10))).sort().pop() ?? "",
+    [history]
+  );
+  const effectiveCloseDate = closeDate || lastSync;
+
+  const lines = useMemo(
+    () => (effectiveCloseDate ? reconcileJobCosts(budget, history, effectiveCloseDate, tolerance) : []),
+    [budget, history, effectiveCloseDate, tolerance]
+  );
+  const worklist = useMemo(() => buildDiscrepancyWorklist(lines, resolutions), [lines, resolutions]);
+  const summary = useMemo(() => summarizeReconciliation(lines, worklist), [lines, worklist]);
+  const visible = worklist.filter(
+    (d) => (statusFilter === "all" || d.status === statusFilter) && (kindFilter === "all" || d.kind === kindFilter)
+  );
+
+  const canReview = can("financial-hub", "edit", query.projectId);
+  const canExport = can("financial-hub", "export", query.projectId);
+  const projectName =
+    selectedProjectId === ALL_PROJECTS ? "All Projects" : projects.find((p) => String(p.project_id) === selectedProjectId)?.name ?? selectedProjectId;
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(value);
+  };
+
+  const saveReview = async () => {
+    if (!reviewing) return;
+    const by = user ? `${user.firstName} ${user.lastName}` : userRole;
+    const resolution = resolveDiscrepancy(reviewing.discrepancy, reviewing.status, reviewNote, by);
+    if (!resolution) {
+      toast({ title: "Note Required", description: "Add a note describing the difference.", variant: "destructive" });
+      return;
+    }
+    try {
+      const source = getDataSource();
+      const exists = resolutions.some((r) => r.id === resolution.id);
+      let saved = resolution;
+      if (exists && source.update) saved = await source.update("reconciliation-resolutions", resolution.id, resolution);
+      else if (!exists && source.create) saved = await source.create("reconciliation-resolutions", resolution);
+      setResolutions((prev) => (exists ? prev.map((r) => (r.id === saved.id ? saved : r)) : [...prev, saved]));
+      toast({
+        title: reviewing.status === "resolved" ? "Discrepancy Resolved" : "Discrepancy Explained",
+        description: `${reviewing.discrepancy.costCode} · ${reconciliationFieldLabels[reviewing.discrepancy.field]}`,
+      });
+      setReviewing(null);
+      setReviewNote("");
+    } catch (error) {
+      console.error("Failed to save review:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save review",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      await exportReconciliationReport(lines, worklist, {
+        projectName,
+        closeDate: effectiveCloseDate,
+        tolerance,
+        preparedBy: user ? `${user.firstName} ${user.lastName}` : userRole,
+      });
+    } catch (error) {
+      console.error("Reconciliation export failed:", error);
+      toast({ title: "Export Failed", description: "The reconciliation report could not be generated.", variant: "destructive" });
+    }
+  };
+
+  const openReview = (discrepancy: Discrepancy, status: DiscrepancyResolution["status"]) => {
+    setReviewing({ discrepancy, status });
+    setReviewNote(discrepancy.resolution?.note ?? "");
+  };
+
+  if (budgetLoading || historyLoading) {
+    return <div className="text-center py-12 text-muted-foreground">Loading job cost data...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Cost Codes Compared</CardTitle>
+            <Scale className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{summary.linesCompared}</div>
+            <div className="text-xs text-muted-foreground">{summary.linesMatched} within tolerance</div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Open Discrepancies</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">{summary.open}</div>
+            <div className="text-xs text-muted-foreground">of {summary.flagged} flagged</div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Explained / Resolved</CardTitle>
+            <CheckCircle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">
+              {summary.explained} / {summary.resolved}
+            </div>
+            <div className="text-xs text-muted-foreground">{summary.byKind.timing} timing differences</div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Open Cost Difference</CardTitle>
+            <Clock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(summary.openDifference.actualCost)}</div>
+            <div className="text-xs text-muted-foreground">
+              Committed {formatCurrency(summary.openDifference.committedCost)} (Procore − Sage)
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Scale className="h-5 w-5" />
+              Budget vs Job Cost Reconciliation
+            </CardTitle>
+            <CardDescription>Procore budget matched to Sage job cost history by cost code</CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={selectedProjectId} onValueChange={setSelectedProjectId}>
+              <SelectTrigger className="w-[240px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_PROJECTS}>All Projects</SelectItem>
+                {projects.map((p) => (
+                  <SelectItem key={p.project_id} value={String(p.project_id)}>
+                    {p.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {canExport && (
+              <Button variant="outline" onClick={handleExport} disabled={lines.length === 0}>
+                <Download className="h-4 w-4 mr-1" />
+                Export Report
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="space-y-1">
+              <Label>Close Date</Label>
+              <Input type="date" value={effectiveCloseDate} onChange={(e) => setCloseDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Tolerance ($)</Label>
+              <Input
+                type="number"
+                min={0}
+                value={tolerance.amount}
+                onChange={(e) => setTolerance((prev) => ({ ...prev, amount: Number(e.target.value) }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Tolerance (%)</Label>
+              <Input
+                type="number"
+                min={0}
+                step={0.5}
+                value={tolerance.percent}
+                onChange={(e) => setTolerance((prev) => ({ ...prev, percent: Number(e.target.value) }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Sage Stale After (days)</Label>
+              <Input
+                type="number"
+                min={0}
+                value={tolerance.staleAfterDays}
+                onChange={(e) => setTolerance((prev) => ({ ...prev, staleAfterDays: Number(e.target.value) }))}
+              />
+            </div>
+          </div>
+
+          <Tabs defaultValue="worklist" className="space-y-4">
+            <TabsList>
+              <TabsTrigger value="worklist">Discrepancy Worklist</TabsTrigger>
+              <TabsTrigger value="lines">All Cost Codes</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="worklist" className="space-y-4">
+              <div className="flex gap-2">
+                <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as DiscrepancyStatus | "all")}>
+                  <SelectTrigger className="w-[160px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Statuses</SelectItem>
+                    <SelectItem value="open">Open</SelectItem>
+                    <SelectItem value="explained">Explained</SelectItem>
+                    <SelectItem value="resolved">Resolved</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select value={kindFilter} onValueChange={(value) => setKindFilter(value as DiscrepancyKind | "all")}>
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Kinds</SelectItem>
+                    {Object.entries(discrepancyKindLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {visible.length === 0 ? (
+                <div className="text-center py-12">
+                  <CheckCircle className="h-12 w-12 text-green-600 mx-auto mb-4" />
+                  <h3 className="text-lg font-medium mb-2">Nothing to Review</h3>
+                  <p className="text-muted-foreground">No discrepancies match the current filters.</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Cost Code</TableHead>
+                      <TableHead>Field</TableHead>
+                      <TableHead className="text-right">Procore</TableHead>
+                      <TableHead className="text-right">Sage</TableHead>
+                      <TableHead className="text-right">Difference</TableHead>
+                      <TableHead>Kind</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visible.map((d) => (
+                      <TableRow key={d.id}>
+                        <TableCell>
+                          <div className="font-medium">{d.costCode}</div>
+                          <div className="text-xs text-muted-foreground max-w-[280px] truncate">{d.description}</div>
+                          {d.resolution && (
+                            <div className="text-xs text-muted-foreground mt-1 flex items-start gap-1">
+                              <MessageSquare className="h-3 w-3 mt-0.5 shrink-0" />
+                              <span>
+                                {d.status === "open" && "Earlier note (amount has changed): "}
+                                {d.resolution.note} — {d.resolution.by}
+                              </span>
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>{reconciliationFieldLabels[d.field]}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(d.procore)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(d.sage)}</TableCell>
+                        <TableCell className={`text-right font-medium ${d.difference < 0 ? "text-red-600" : "text-blue-600"}`}>
+                          {formatCurrency(d.difference)}
+                          <div className="text-xs text-muted-foreground">{d.percent.toFixed(1)}%</div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={kindStyles[d.kind]}>{discrepancyKindLabels[d.kind]}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={`${statusStyles[d.status]} capitalize`}>{d.status}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          {canReview && d.status !== "resolved" && (
+                            <div className="flex gap-1">
+                              {d.status === "open" && (
+                                <Button size="sm" variant="outline" onClick={() => openReview(d, "explained")}>
+                                  Explain
+                                </Button>
+                              )}
+                              <Button size="sm" onClick={() => openReview(d, "resolved")}>
+                                Resolve
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </TabsContent>
+
+            <TabsContent value="lines">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Cost Code</TableHead>
+                    <TableHead className="text-right">Budget Δ</TableHead>
+                    <TableHead className="text-right">Procore JTD</TableHead>
+                    <TableHead className="text-right">Sage Actual</TableHead>
+                    <TableHead className="text-right">Procore Committed</TableHead>
+                    <TableHead className="text-right">Sage Committed</TableHead>
+                    <TableHead>Sage Updated</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line) => {
+                    const [budgetDiff] = line.differences;
+                    const flagged = line.differences.some((d) => d.exceedsTolerance);
+                    return (
+                      <TableRow key={`${line.projectId}-${line.costCode}`}>
+                        <TableCell>
+                          <div className="flex items-center gap-2 font-medium">
+                            {flagged ? <AlertTriangle className="h-3 w-3 text-red-600" /> : <CheckCircle className="h-3 w-3 text-green-600" />}
+                            {line.costCode}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(budgetDiff.difference)}</TableCell>
+                        <TableCell className="text-right">{line.procore ? formatCurrency(line.procore.actualCost) : "—"}</TableCell>
+                        <TableCell className="text-right">{line.sage ? formatCurrency(line.sage.actualCost) : "—"}</TableCell>
+                        <TableCell className="text-right">{line.procore ? formatCurrency(line.procore.committedCost) : "—"}</TableCell>
+                        <TableCell className="text-right">{line.sage ? formatCurrency(line.sage.committedCost) : "—"}</TableCell>
+                        <TableCell className="text-xs">{line.sage?.lastUpdated.slice(0, 10) ?? "—"}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent>
+          {reviewing && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{reviewing.status === "resolved" ? "Resolve Discrepancy" : "Explain Discrepancy"}</DialogTitle>
+                <DialogDescription>
+                  {reviewing.discrepancy.costCode} · {reconciliationFieldLabels[reviewing.discrepancy.field]} ·{" "}
+                  {formatCurrency(reviewing.discrepancy.difference)}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-1">
+                <Label>{reviewing.status === "resolved" ? "How was it corrected?" : "What explains the difference?"}</Label>
+                <Textarea value={reviewNote} onChange={(e) => setReviewNote(e.target.value)} rows={4} />
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setReviewing(null)}>
+                  Cancel
+                </Button>
+                <Button onClick={saveReview}>{reviewing.status === "resolved" ? "Mark Resolved" : "Save Explanation"}</Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -10,6 +10,8 @@ import { AiaPayApplicationList } from "./AiaPayApplicationList"
 import { AiaPayApplicationForm } from "./AiaPayApplicationForm"
 import { AiaInsightsPanel } from "./AiaInsightsPanel"
 import type { AiaPayApplication, AiaApplicationSummary } from "@/types/aia-pay-application"
+import { getDataSource } from "@/lib/data"
+import { useProjectContext } from "@/context/project-context"
 
 interface PayApplicationProps {
   userRole: string
@@ -36,7 +38,8 @@ export function PayApplication({ userRole, projectData }: PayApplicationProps) {
 
   // Extract selected project from projectData
   const selectedProject = projectData?.selectedProject
-  const projectId = selectedProject?.id || "proj_001"
+  const { projectId: contextProjectId } = useProjectContext()
+  const projectId = selectedProject?.id || (contextProjectId !== "all" ? contextProjectId : "proj_001")
   const projectName = selectedProject?.name || "Downtown Mixed-Use Development"
 
   useEffect(() => {
@@ -46,11 +49,8 @@ export function PayApplication({ userRole, projectData }: PayApplicationProps) {
   const loadApplications = async () => {
     try {
       setLoading(true)
-      const response = await fetch("/data/mock/financial/aia-pay-applications.json")
-      const data = await response.json()
-
       // Apply role-based filtering and scaling
-      let filteredApplications = data.applications || []
+      let filteredApplications = await getDataSource().list("pay-applications")
       
       // If a specific project is selected (for Executive/Project Executive), filter to that project
       if (selectedProject && (userRole === "executive" || userRole === "project-executive")) {
@@ -1,55 +1,292 @@
 "use client";
 
-import React from "react";
-import { CheckCircle, Clock, FileText, AlertTriangle } from "lucide-react";
+import React, { useState, useEffect, useMemo } from "react";
+import { CheckCircle, Clock, FileText, AlertTriangle, Send, Ban, Banknote, Layers } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/context/auth-context";
+import { useProjectContext } from "@/context/project-context";
+import { useDataResource } from "@/hooks/use-data-resource";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useToast } from "@/hooks/use-toast";
+import { getDataSource } from "@/lib/data";
+import {
+  authorizeBatch,
+  createPayAuthorizationBatch,
+  heldBatchInvoices,
+  invoicesReadyForBatch,
+  releaseBatch,
+  subInvoiceTotals,
+  summarizePayAuthorizations,
+  voidBatch,
+} from "@/lib/financial/sub-invoices";
+import type { VendorPayment } from "@/types/data-source";
+import type { PayAuthorizationBatch, PaymentMethod, SubInvoice } from "@/types/sub-invoices";
 
 interface PayAuthorizationsProps {
   userRole: string;
   projectData: any;
 }
 
+// Batches are authorized and released above the project manager
+const authorizerRoles = ["project-executive", "executive", "admin"];
+
+const batchStatusStyles: Record<PayAuthorizationBatch["status"], string> = {
+  draft: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
+  authorized: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+  released: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  void: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200",
+};
+
+const paymentMethods: PaymentMethod[] = ["ACH", "Check", "Wire"];
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(value);
+};
+
+/**
+ * Pay authorization batches: PX-approved, compliant subcontractor invoices are grouped for
+ * payment, authorized, and released into the vendor payment ledger.
+ */
 export default function PayAuthorizations({ userRole, projectData }: PayAuthorizationsProps) {
-  const getPayAuthData = () => {
-    switch (userRole) {
-      case 'project-manager':
-        return {
-          pendingApprovals: 3,
-          totalRequests: 12,
-          approvedAmount: 8500000,
-          pendingAmount: 2850000
-        };
-      case 'project-executive':
-        return {
-          pendingApprovals: 12,
-          totalRequests: 48,
-          approvedAmount: 45200000,
-          pendingAmount: 8200000
-        };
-      default:
-        return {
-          pendingApprovals: 23,
-          totalRequests: 89,
-          approvedAmount: 85600000,
-          pendingAmount: 12500000
-        };
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const { projectId: contextProjectId } = useProjectContext();
+
+  const { data: projects } = useDataResource("projects");
+  const [selectedProjectId, setSelectedProjectId] = useState<string>("");
+  const [paymentDate, setPaymentDate] = useState(today());
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("ACH");
+  const [selectedInvoiceIds, setSelectedInvoiceIds] = useState<Set<string>>(new Set());
+  const [busyBatchId, setBusyBatchId] = useState<string | null>(null);
+
+  // Follow the project picked in the header; otherwise default to the first project
+  useEffect(() => {
+    if (contextProjectId && contextProjectId !== "all") setSelectedProjectId(contextProjectId);
+    else if (!selectedProjectId && projects.length > 0) setSelectedProjectId(String(projects[0].project_id));
+  }, [contextProjectId, projects]);
+
+  const query = { projectId: selectedProjectId || undefined };
+  const { data: commitments } = useDataResource("commitments", query);
+  const { data: invoices, setData: setInvoices } = useDataResource("sub-invoices", query);
+  const { data: batches, setData: setBatches } = useDataResource("pay-authorizations", query);
+  const { data: payments, setData: setPayments } = useDataResource("vendor-payments", query);
+
+  const canCreate = can("financial-hub", "create", selectedProjectId);
+  const canEdit = can("financial-hub", "edit", selectedProjectId);
+  const canAuthorize = can("financial-hub", "approve", selectedProjectId) && authorizerRoles.includes(userRole);
+  const currentUserName = user ? `${user.firstName} ${user.lastName}` : "Unknown User";
+
+  const summary = useMemo(
+    () => summarizePayAuthorizations(invoices, batches, commitments, paymentDate),
+    [invoices, batches, commitments, paymentDate]
+  );
+  const ready = useMemo(() => invoicesReadyForBatch(invoices, commitments, paymentDate), [invoices, commitments, paymentDate]);
+  const sortedBatches = useMemo(() => [...batches].sort((a, b) => b.number.localeCompare(a.number)), [batches]);
+  const postings = useMemo(
+    () =>
+      payments
+        .filter((p) => p.Notes?.startsWith("Pay authorization"))
+        .sort((a, b) => b["Date Paid"].localeCompare(a["Date Paid"]) || b["Payment Number"] - a["Payment Number"])
+        .slice(0, 20),
+    [payments]
+  );
+
+  // Drop selections that are no longer ready, e.g. after a compliance date change
+  useEffect(() => {
+    setSelectedInvoiceIds((prev) => new Set([...prev].filter((id) => ready.some((i) => i.id === id))));
+  }, [ready]);
+
+  const fail = (error: unknown, message: string) => {
+    console.error(`${message}:`, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : message,
+      variant: "destructive",
+    });
+  };
+
+  const saveInvoices = async (updated: SubInvoice[]) => {
+    const source = getDataSource();
+    const saved: SubInvoice[] = [];
+    for (const invoice of updated) {
+      saved.push(source.update ? await source.update("sub-invoices", invoice.id, invoice) : invoice);
     }
+    setInvoices((prev) => prev.map((i) => saved.find((s) => s.id === i.id) ?? i));
   };
 
-  const data = getPayAuthData();
+  const saveBatch = async (batch: PayAuthorizationBatch, isNew: boolean) => {
+    const source = getDataSource();
+    let saved = batch;
+    if (isNew && source.create) saved = await source.create("pay-authorizations", batch);
+    else if (!isNew && source.update) saved = await source.update("pay-authorizations", batch.id, batch);
+    setBatches((prev) => (isNew ? [saved, ...prev] : prev.map((b) => (b.id === saved.id ? saved : b))));
+  };
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value);
+  const toggleInvoice = (id: string, checked: boolean) => {
+    const next = new Set(selectedInvoiceIds);
+    if (checked) next.add(id);
+    else next.delete(id);
+    setSelectedInvoiceIds(next);
   };
 
+  const createBatch = async () => {
+    const result = createPayAuthorizationBatch(
+      Number(selectedProjectId),
+      ready.filter((i) => selectedInvoiceIds.has(i.id)),
+      invoices,
+      commitments,
+      batches,
+      paymentMethod,
+      paymentDate,
+      currentUserName
+    );
+    if (!result) return;
+    try {
+      await saveBatch(result.batch, true);
+      await saveInvoices(result.invoices);
+      setSelectedInvoiceIds(new Set());
+      toast({ title: "Batch Created", description: `${result.batch.number} · ${formatCurrency(result.batch.amount)}` });
+    } catch (error) {
+      fail(error, "Failed to create pay authorization");
+    }
+  };
+
+  const authorize = async (batch: PayAuthorizationBatch) => {
+    const authorized = authorizeBatch(batch, currentUserName);
+    if (!authorized) return;
+    setBusyBatchId(batch.id);
+    try {
+      await saveBatch(authorized, false);
+      toast({ title: "Batch Authorized", description: `${batch.number} · ${formatCurrency(batch.amount)}` });
+    } catch (error) {
+      fail(error, "Failed to authorize batch");
+    } finally {
+      setBusyBatchId(null);
+    }
+  };
+
+  const release = async (batch: PayAuthorizationBatch) => {
+    const held = heldBatchInvoices(batch, invoices, commitments);
+    if (held.length > 0) {
+      toast({
+        title: "On Hold",
+        description: `${held.map((i) => i.invoiceNumber).join(", ")} can't be paid on ${batch.paymentDate}; clear the holds or void the batch.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    setBusyBatchId(batch.id);
+    try {
+      const source = getDataSource();
+      // Check numbers continue across the whole ledger, not just this project. Payments a
+      // failed release already posted are in it too, so a retry doesn't post them again.
+      const ledger: VendorPayment[] = await source.list("vendor-payments");
+      const result = releaseBatch(batch, invoices, commitments, ledger, currentUserName);
+      if (!result) return;
+
+      const posted: VendorPayment[] = [];
+      for (const payment of result.payments) {
+        posted.push(source.create ? await source.create("vendor-payments", payment) : payment);
+      }
+      await saveInvoices(result.invoices);
+      await saveBatch(result.batch, false);
+      setPayments((prev) => [...posted, ...prev]);
+      toast({
+        title: "Batch Released",
+        description: `${batch.number} · ${posted.length} payment${posted.length !== 1 ? 's' : ''} posted to the vendor ledger`,
+      });
+    } catch (error) {
+      fail(error, "Failed to release batch");
+    } finally {
+      setBusyBatchId(null);
+    }
+  };
+
+  const voidPayAuthorization = async (batch: PayAuthorizationBatch) => {
+    const result = voidBatch(batch, invoices);
+    if (!result) return;
+    setBusyBatchId(batch.id);
+    try {
+      await saveBatch(result.batch, false);
+      await saveInvoices(result.invoices);
+    } catch (error) {
+      fail(error, "Failed to void batch");
+    } finally {
+      setBusyBatchId(null);
+    }
+  };
+
+  const selectedAmount = ready
+    .filter((i) => selectedInvoiceIds.has(i.id))
+    .reduce((sum, i) => sum + subInvoiceTotals(i).netDue, 0);
+
   return (
     <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Banknote className="h-5 w-5" />
+            Pay Authorizations
+          </CardTitle>
+          <CardDescription>
+            Batch approved subcontractor invoices for payment and release them to the vendor ledger
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label>Project</Label>
+              <Select value={selectedProjectId} onValueChange={setSelectedProjectId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select project" />
+                </SelectTrigger>
+                <SelectContent>
+                  {projects.map((p) => (
+                    <SelectItem key={p.project_id} value={String(p.project_id)}>
+                      {p.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Payment Date</Label>
+              <Input type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value || today())} />
+            </div>
+            <div className="space-y-1">
+              <Label>Payment Method</Label>
+              <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {paymentMethods.map((method) => (
+                    <SelectItem key={method} value={method}>
+                      {method}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -57,74 +294,226 @@ export default function PayAuthorizations({ userRole, projectData }: PayAuthoriz
             <Clock className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-orange-600">{data.pendingApprovals}</div>
-            <div className="text-xs text-muted-foreground">Awaiting approval</div>
+            <div className="text-2xl font-bold text-orange-600">{summary.awaitingApproval}</div>
+            <div className="text-xs text-muted-foreground">
+              {formatCurrency(summary.awaitingApprovalAmount)} awaiting PM/PX approval
+            </div>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Requests</CardTitle>
+            <CardTitle className="text-sm font-medium">Ready to Batch</CardTitle>
             <FileText className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{data.totalRequests}</div>
-            <div className="text-xs text-muted-foreground">This month</div>
+            <div className="text-2xl font-bold">{summary.readyToBatch}</div>
+            <div className="text-xs text-muted-foreground">{formatCurrency(summary.readyToBatchAmount)} net of retainage</div>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Approved Amount</CardTitle>
+            <CardTitle className="text-sm font-medium">Authorized</CardTitle>
             <CheckCircle className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-green-600">{formatCurrency(data.approvedAmount)}</div>
-            <div className="text-xs text-muted-foreground">YTD approved</div>
+            <div className="text-2xl font-bold text-yellow-600">{formatCurrency(summary.authorizedAmount)}</div>
+            <div className="text-xs text-muted-foreground">{formatCurrency(summary.releasedAmount)} released</div>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Pending Amount</CardTitle>
+            <CardTitle className="text-sm font-medium">On Hold</CardTitle>
             <AlertTriangle className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-yellow-600">{formatCurrency(data.pendingAmount)}</div>
-            <div className="text-xs text-muted-foreground">Requires approval</div>
+            <div className="text-2xl font-bold text-red-600">{summary.onHold}</div>
+            <div className="text-xs text-muted-foreground">Missing waivers, insurance or bonds</div>
           </CardContent>
         </Card>
       </div>
 
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Ready for Payment</CardTitle>
+              <CardDescription>PX-approved invoices with no compliance holds as of {paymentDate}</CardDescription>
+            </div>
+            {canCreate && (
+              <Button onClick={createBatch} disabled={selectedInvoiceIds.size === 0} className="flex items-center gap-2">
+                <Layers className="h-4 w-4" />
+                Create Batch{selectedInvoiceIds.size > 0 && ` · ${formatCurrency(selectedAmount)}`}
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {ready.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No invoices are ready for payment.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10" />
+                  <TableHead>Vendor</TableHead>
+                  <TableHead>Commitment</TableHead>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Period End</TableHead>
+                  <TableHead className="text-right">Billed</TableHead>
+                  <TableHead className="text-right">Retainage</TableHead>
+                  <TableHead className="text-right">Net Due</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ready.map((invoice) => {
+                  const totals = subInvoiceTotals(invoice);
+                  return (
+                    <TableRow key={invoice.id}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedInvoiceIds.has(invoice.id)}
+                          disabled={!canCreate}
+                          onCheckedChange={(checked) => toggleInvoice(invoice.id, checked === true)}
+                        />
+                      </TableCell>
+                      <TableCell className="font-medium">{invoice.vendor}</TableCell>
+                      <TableCell>{invoice.commitmentNumber}</TableCell>
+                      <TableCell>#{invoice.invoiceNumber}</TableCell>
+                      <TableCell>{invoice.periodEnd}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(totals.thisPeriod)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(totals.retainageThisPeriod)}</TableCell>
+                      <TableCell className="text-right font-medium">{formatCurrency(totals.netDue)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle>Payment Authorization Workflow</CardTitle>
           <CardDescription>
-            Streamlined approval process for payment authorizations
+            Draft batches are authorized by a PX or executive, then released to pay each invoice
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="text-center py-12">
-            <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-            <h3 className="text-lg font-medium mb-2">Payment Authorization Management</h3>
-            <p className="text-muted-foreground max-w-md mx-auto">
-              This module provides comprehensive payment authorization workflows, approval tracking, 
-              and automated routing based on user roles and project requirements.
-            </p>
-            <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-4 max-w-lg mx-auto">
-              <Badge variant="outline" className="p-2">
-                Approval Routing
-              </Badge>
-              <Badge variant="outline" className="p-2">
-                Status Tracking
-              </Badge>
-              <Badge variant="outline" className="p-2">
-                Audit Trail
-              </Badge>
-            </div>
-          </div>
+          {sortedBatches.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No pay authorizations yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Batch</TableHead>
+                  <TableHead>Invoices</TableHead>
+                  <TableHead>Method</TableHead>
+                  <TableHead>Payment Date</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Audit</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedBatches.map((batch) => {
+                  const batchInvoices = batch.invoiceIds
+                    .map((id) => invoices.find((i) => i.id === id))
+                    .filter((i): i is SubInvoice => !!i);
+                  const busy = busyBatchId === batch.id;
+                  return (
+                    <TableRow key={batch.id}>
+                      <TableCell className="font-medium">{batch.number}</TableCell>
+                      <TableCell>
+                        {batchInvoices.map((i) => (
+                          <div key={i.id} className="text-xs">
+                            {i.vendor} #{i.invoiceNumber}
+                            {i.checkNumber && <span className="text-muted-foreground"> · Check {i.checkNumber}</span>}
+                          </div>
+                        ))}
+                      </TableCell>
+                      <TableCell>{batch.paymentMethod}</TableCell>
+                      <TableCell>{batch.paymentDate}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(batch.amount)}</TableCell>
+                      <TableCell>
+                        <Badge className={batchStatusStyles[batch.status]}>{batch.status}</Badge>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        <div>Created by {batch.createdBy}</div>
+                        {batch.authorizedBy && <div>Authorized by {batch.authorizedBy}</div>}
+                        {batch.releasedBy && <div>Released by {batch.releasedBy}</div>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          {batch.status === "draft" && canAuthorize && (
+                            <Button size="sm" disabled={busy} onClick={() => authorize(batch)}>
+                              <CheckCircle className="h-3 w-3 mr-1" />
+                              Authorize
+                            </Button>
+                          )}
+                          {batch.status === "authorized" && canAuthorize && (
+                            <Button size="sm" disabled={busy} onClick={() => release(batch)}>
+                              <Send className="h-3 w-3 mr-1" />
+                              Release
+                            </Button>
+                          )}
+                          {(batch.status === "draft" || batch.status === "authorized") && canEdit && (
+                            <Button size="sm" variant="outline" disabled={busy} onClick={() => voidPayAuthorization(batch)}>
+                              <Ban className="h-3 w-3 mr-1" />
+                              Void
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Ledger Postings</CardTitle>
+          <CardDescription>Vendor payments posted by released pay authorizations</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {postings.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No payments posted from pay authorizations.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Payment #</TableHead>
+                  <TableHead>Check #</TableHead>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Method</TableHead>
+                  <TableHead>Date Paid</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {postings.map((payment) => (
+                  <TableRow key={payment["Check Number"]}>
+                    <TableCell>{payment["Payment Number"]}</TableCell>
+                    <TableCell>{payment["Check Number"]}</TableCell>
+                    <TableCell className="text-xs">{payment.Invoice}</TableCell>
+                    <TableCell>{payment["Payment Method"]}</TableCell>
+                    <TableCell>{payment["Date Paid"]}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(payment.Amount)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
         </CardContent>
       </Card>
     </div>
   );
-} 
\ No newline at end of file
+}
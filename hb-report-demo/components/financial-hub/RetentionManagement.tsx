@@ -1,15 +1,309 @@
 "use client";
 
-import React from "react";
-import { Banknote, Calendar, TrendingUp, Clock } from "lucide-react";
+import React, { useState, useEffect, useMemo } from "react";
+import {
+  Banknote,
+  Calendar,
+  TrendingUp,
+  Clock,
+  CheckCircle,
+  XCircle,
+  ArrowDownLeft,
+  ArrowUpRight,
+  Send,
+  DollarSign,
+} from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Bar, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { useAuth } from "@/context/auth-context";
+import { useProjectContext } from "@/context/project-context";
+import { useDataResource } from "@/hooks/use-data-resource";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useRetentionRules } from "@/hooks/use-retention-rules";
+import { useToast } from "@/hooks/use-toast";
+import { getDataSource } from "@/lib/data";
+import {
+  buildPayableAccounts,
+  buildReceivableAccount,
+  buildRetentionLedger,
+  currentRetentionRate,
+  decideRelease,
+  isReleaseApproved,
+  nextApprovalRole,
+  projectRetentionCashFlow,
+  retentionRules,
+  subcontractRetentionRule,
+  summarizeRetention,
+  validateReleaseRequest,
+} from "@/lib/financial/retention";
+import type { RetentionAccount, RetentionApproval, RetentionReleaseRequest, RetentionSide } from "@/types/retention";
 
 interface RetentionManagementProps {
   userRole: string;
   projectData: any;
 }
 
+const statusStyles: Record<RetentionReleaseRequest["status"], string> = {
+  submitted: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
+  pm_approved: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+  px_approved: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+  executive_approved: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  rejected: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  paid: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200",
+};
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(amount);
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+interface ReleaseForm {
+  kind: "partial" | "final";
+  amount: string;
+  reason: string;
+  expectedCashDate: string;
+  punchListComplete: boolean;
+  finalLienWaiver: boolean;
+  closeoutDocuments: boolean;
+}
+
+const emptyReleaseForm: ReleaseForm = {
+  kind: "partial",
+  amount: "",
+  reason: "",
+  expectedCashDate: "",
+  punchListComplete: false,
+  finalLienWaiver: false,
+  closeoutDocuments: false,
+};
+
+/**
+ * Retention ledger: retainage the owner holds on our billings (receivable) and that we hold
+ * on each subcontract (payable), with tiered release rules, release approvals and the
+ * cash-flow timing of released retainage.
+ */
 export default function RetentionManagement({ userRole, projectData }: RetentionManagementProps) {
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const { projectId: contextProjectId } = useProjectContext();
+
+  const { data: projects } = useDataResource("projects");
+  const [selectedProjectId, setSelectedProjectId] = useState<string>("");
+  const [ledgerSide, setLedgerSide] = useState<RetentionSide | "all">("all");
+
+  const [releaseTarget, setReleaseTarget] = useState<RetentionAccount | null>(null);
+  const [releaseForm, setReleaseForm] = useState<ReleaseForm>(emptyReleaseForm);
+  const [decisionTarget, setDecisionTarget] = useState<{ request: RetentionReleaseRequest; decision: RetentionApproval["decision"] } | null>(null);
+  const [decisionComment, setDecisionComment] = useState("");
+
+  // Follow the project picked in the header; otherwise default to the first project
+  useEffect(() => {
+    if (contextProjectId && contextProjectId !== "all") setSelectedProjectId(contextProjectId);
+    else if (!selectedProjectId && projects.length > 0) setSelectedProjectId(String(projects[0].project_id));
+  }, [contextProjectId, projects]);
+
+  const query = { projectId: selectedProjectId || undefined };
+  const { data: payments } = useDataResource("prime-contract-payments", query);
+  const { data: primeContracts } = useDataResource("prime-contracts", query);
+  const { data: commitments } = useDataResource("commitments", query);
+  const { data: requests, setData: setRequests } = useDataResource("retention-releases", query);
+  const { data: subInvoices } = useDataResource("sub-invoices", query);
+  const { receivableRuleId, payableRuleId, receivableRule, payableRule, setRuleId } = useRetentionRules(selectedProjectId);
+
+  const project = projects.find((p) => String(p.project_id) === selectedProjectId);
+
+  const receivable = useMemo(
+    () => buildReceivableAccount(payments, primeContracts[0], receivableRule, requests),
+    [payments, primeContracts, receivableRule, requests]
+  );
+  const payables = useMemo(
+    () => buildPayableAccounts(commitments, payableRule, requests, subInvoices),
+    [commitments, payableRule, requests, subInvoices]
+  );
+  const accounts = useMemo(() => (receivable ? [receivable, ...payables] : payables), [receivable, payables]);
+
+  const ledger = useMemo(
+    () => buildRetentionLedger(payments, receivable, payables, commitments, requests),
+    [payments, receivable, payables, commitments, requests]
+  );
+  const summary = useMemo(() => summarizeRetention(accounts, requests), [accounts, requests]);
+
+  const substantialCompletion = project?.projected_finish_date ?? project?.completion_date ?? today();
+  const cashFlow = useMemo(
+    () => projectRetentionCashFlow(accounts, requests, substantialCompletion),
+    [accounts, requests, substantialCompletion]
+  );
+
+  const canCreate = can("financial-hub", "create", selectedProjectId);
+  const canEdit = can("financial-hub", "edit", selectedProjectId);
+  const currentUserName = user ? `${user.firstName} ${user.lastName}` : "Unknown User";
+
+  const canDecide = (request: RetentionReleaseRequest) => {
+    const next = nextApprovalRole(request);
+    return !!next && can("financial-hub", "approve", selectedProjectId, next);
+  };
+
+  const saveRequest = async (request: RetentionReleaseRequest, isNew: boolean) => {
+    const source = getDataSource();
+    let saved = request;
+    if (isNew && source.create) saved = await source.create("retention-releases", request);
+    else if (!isNew && source.update) saved = await source.update("retention-releases", request.id, request);
+    setRequests((prev) => (isNew ? [saved, ...prev] : prev.map((r) => (r.id === saved.id ? saved : r))));
+  };
+
+  const openReleaseDialog = (target: RetentionAccount, kind: ReleaseForm["kind"]) => {
+    setReleaseTarget(target);
+    setReleaseForm({
+      ...emptyReleaseForm,
+      kind,
+      amount: String(kind === "final" ? target.balance : target.eligibleForRelease),
+    });
+  };
+
+  const draftRequest = (): RetentionReleaseRequest | null => {
+    if (!releaseTarget) return null;
+    return {
+      id: `rr-${Date.now()}`,
+      projectId: releaseTarget.projectId,
+      side: releaseTarget.side,
+      reference: releaseTarget.reference,
+      counterparty: releaseTarget.counterparty,
+      kind: releaseForm.kind,
+      amount: Number(releaseForm.amount),
+      reason: releaseForm.reason,
+      status: "submitted",
+      closeout:
+        releaseForm.kind === "final"
+          ? {
+              punchListComplete: releaseForm.punchListComplete,
+              finalLienWaiver: releaseForm.finalLienWaiver,
+              closeoutDocuments: releaseForm.closeoutDocuments,
+            }
+          : undefined,
+      approvals: [],
+      requestedBy: currentUserName,
+      requestedAt: new Date().toISOString(),
+      expectedCashDate: releaseForm.expectedCashDate,
+    };
+  };
+
+  const draft = draftRequest();
+  const releaseIssues = draft ? validateReleaseRequest(draft, releaseTarget ?? undefined) : [];
+
+  const submitRelease = async () => {
+    if (!draft || releaseIssues.length > 0) return;
+    try {
+      await saveRequest(draft, true);
+      toast({ title: "Release Requested", description: `${formatCurrency(draft.amount)} release submitted for approval.` });
+      setReleaseTarget(null);
+    } catch (error) {
+      console.error("Failed to save release request:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save release request",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const submitDecision = async () => {
+    if (!decisionTarget) return;
+    const { request, decision } = decisionTarget;
+    try {
+      await saveRequest(decideRelease(request, currentUserName, decision, decisionComment || undefined), false);
+      toast({ title: decision === "approved" ? "Release Approved" : "Release Rejected", description: `${request.counterparty} · ${formatCurrency(request.amount)}` });
+      setDecisionTarget(null);
+      setDecisionComment("");
+    } catch (error) {
+      console.error("Failed to save release decision:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save release decision",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const markPaid = async (request: RetentionReleaseRequest) => {
+    try {
+      await saveRequest({ ...request, status: "paid", paidDate: today() }, false);
+    } catch (error) {
+      console.error("Failed to mark release paid:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to mark release paid",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderAccountRow = (target: RetentionAccount) => {
+    const commitment = commitments.find((c) => c.Number === target.reference);
+    const rule = target.side === "receivable" ? receivableRule : subcontractRetentionRule(commitment ?? {}, payableRule);
+    return (
+      <TableRow key={target.id}>
+        <TableCell>
+          <div className="font-medium">{target.counterparty}</div>
+          <div className="text-xs text-muted-foreground">{target.reference}</div>
+        </TableCell>
+        <TableCell className="text-right">{formatCurrency(target.contractValue)}</TableCell>
+        <TableCell className="text-right">{target.percentComplete.toFixed(1)}%</TableCell>
+        <TableCell className="text-right">{currentRetentionRate(rule, target.percentComplete)}%</TableCell>
+        <TableCell className="text-right">{formatCurrency(target.withheld)}</TableCell>
+        <TableCell className="text-right">{formatCurrency(target.requiredByRule)}</TableCell>
+        <TableCell className="text-right">{formatCurrency(target.released)}</TableCell>
+        <TableCell className="text-right font-medium">{formatCurrency(target.balance)}</TableCell>
+        <TableCell className="text-right">
+          {target.eligibleForRelease > 0 ? (
+            <span className="text-green-600 font-medium">{formatCurrency(target.eligibleForRelease)}</span>
+          ) : (
+            <span className="text-muted-foreground">—</span>
+          )}
+        </TableCell>
+        <TableCell className="text-right">
+          {canCreate && target.balance > 0 && (
+            <div className="flex justify-end gap-1">
+              <Button size="sm" variant="outline" disabled={target.eligibleForRelease <= 0} onClick={() => openReleaseDialog(target, "partial")}>
+                Partial
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => openReleaseDialog(target, "final")}>
+                Final
+              </Button>
+            </div>
+          )}
+        </TableCell>
+      </TableRow>
+    );
+  };
+
+  const accountTableHeader = (
+    <TableHeader>
+      <TableRow>
+        <TableHead>Contract</TableHead>
+        <TableHead className="text-right">Contract Value</TableHead>
+        <TableHead className="text-right">Complete</TableHead>
+        <TableHead className="text-right">Current Rate</TableHead>
+        <TableHead className="text-right">Withheld</TableHead>
+        <TableHead className="text-right">Required by Rule</TableHead>
+        <TableHead className="text-right">Released</TableHead>
+        <TableHead className="text-right">Balance</TableHead>
+        <TableHead className="text-right">Eligible</TableHead>
+        <TableHead />
+      </TableRow>
+    </TableHeader>
+  );
+
   return (
     <div className="space-y-6">
       <Card>
@@ -19,20 +313,443 @@ export default function RetentionManagement({ userRole, projectData }: Retention
             Retention Management
           </CardTitle>
           <CardDescription>
-            Retention tracking and release management
+            Retainage held by the owner and on subcontracts, release requests and their cash flow timing
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="text-center py-12">
-            <Calendar className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-            <h3 className="text-lg font-medium mb-2">Retention Tracking</h3>
-            <p className="text-muted-foreground max-w-md mx-auto">
-              Automated retention tracking with release scheduling, compliance monitoring, 
-              and cash flow impact analysis for optimized retention management.
-            </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label>Project</Label>
+              <Select value={selectedProjectId} onValueChange={setSelectedProjectId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select project" />
+                </SelectTrigger>
+                <SelectContent>
+                  {projects.map((p) => (
+                    <SelectItem key={p.project_id} value={String(p.project_id)}>
+                      {p.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Owner Retention Rule</Label>
+              <Select value={receivableRuleId} onValueChange={(value) => setRuleId("receivable", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {retentionRules.map((rule) => (
+                    <SelectItem key={rule.id} value={rule.id}>
+                      {rule.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Subcontract Retention Rule</Label>
+              <Select value={payableRuleId} onValueChange={(value) => setRuleId("payable", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {retentionRules.map((rule) => (
+                    <SelectItem key={rule.id} value={rule.id}>
+                      {rule.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
         </CardContent>
       </Card>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">Receivable Retainage</p>
+                <p className="text-2xl font-bold">{formatCurrency(summary.receivableBalance)}</p>
+              </div>
+              <ArrowDownLeft className="h-8 w-8 text-green-600" />
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">Payable Retainage</p>
+                <p className="text-2xl font-bold">{formatCurrency(summary.payableBalance)}</p>
+              </div>
+              <ArrowUpRight className="h-8 w-8 text-orange-600" />
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">Net Retention Position</p>
+                <p className={`text-2xl font-bold ${summary.netPosition < 0 ? "text-red-600" : ""}`}>{formatCurrency(summary.netPosition)}</p>
+              </div>
+              <DollarSign className="h-8 w-8 text-blue-600" />
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">Pending Approvals</p>
+                <p className="text-2xl font-bold">{summary.pendingRequests}</p>
+                <p className="text-xs text-muted-foreground">
+                  {formatCurrency(summary.eligibleReceivable)} releasable from owner
+                </p>
+              </div>
+              <Clock className="h-8 w-8 text-yellow-600" />
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="accounts" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="accounts">Accounts</TabsTrigger>
+          <TabsTrigger value="requests">Release Requests</TabsTrigger>
+          <TabsTrigger value="ledger">Ledger</TabsTrigger>
+          <TabsTrigger value="cash-flow">Cash Flow</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="accounts" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Receivable · Owner</CardTitle>
+              <CardDescription>Retainage withheld on prime contract billings</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {receivable ? (
+                <Table>
+                  {accountTableHeader}
+                  <TableBody>{renderAccountRow(receivable)}</TableBody>
+                </Table>
+              ) : (
+                <p className="text-sm text-muted-foreground text-center py-6">No prime contract billings for this project</p>
+              )}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Payable · Subcontractors</CardTitle>
+              <CardDescription>Retainage withheld on invoiced commitments</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {payables.length > 0 ? (
+                <Table>
+                  {accountTableHeader}
+                  <TableBody>{payables.map(renderAccountRow)}</TableBody>
+                </Table>
+              ) : (
+                <p className="text-sm text-muted-foreground text-center py-6">No invoiced commitments for this project</p>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="requests">
+          <Card>
+            <CardContent className="pt-6">
+              {requests.length === 0 ? (
+                <div className="text-center py-12">
+                  <Calendar className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                  <h3 className="text-lg font-medium mb-2">No Release Requests</h3>
+                  <p className="text-muted-foreground">Request a partial or final release from the Accounts tab.</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Contract</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead>Requested</TableHead>
+                      <TableHead>Expected Cash</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Approvals</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {requests.map((request) => {
+                      const next = nextApprovalRole(request);
+                      return (
+                        <TableRow key={request.id}>
+                          <TableCell>
+                            <div className="font-medium">{request.counterparty}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {request.side === "receivable" ? "From owner" : "To subcontractor"} · {request.reference}
+                            </div>
+                          </TableCell>
+                          <TableCell className="capitalize">{request.kind}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(request.amount)}</TableCell>
+                          <TableCell>
+                            <div>{request.requestedBy}</div>
+                            <div className="text-xs text-muted-foreground">{request.requestedAt.slice(0, 10)}</div>
+                          </TableCell>
+                          <TableCell>{request.paidDate ?? request.expectedCashDate}</TableCell>
+                          <TableCell>
+                            <Badge className={statusStyles[request.status]}>{request.status.replace("_", " ")}</Badge>
+                            {next && <div className="text-xs text-muted-foreground mt-1">Awaiting {next}</div>}
+                          </TableCell>
+                          <TableCell>
+                            <div className="space-y-0.5">
+                              {request.approvals.map((approval, index) => (
+                                <div key={index} className="flex items-center gap-1 text-xs">
+                                  {approval.decision === "approved" ? (
+                                    <CheckCircle className="h-3 w-3 text-green-600" />
+                                  ) : (
+                                    <XCircle className="h-3 w-3 text-red-600" />
+                                  )}
+                                  {approval.role} · {approval.approver}
+                                </div>
+                              ))}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-1">
+                              {canDecide(request) && (
+                                <>
+                                  <Button size="sm" onClick={() => setDecisionTarget({ request, decision: "approved" })}>
+                                    Approve
+                                  </Button>
+                                  <Button size="sm" variant="outline" onClick={() => setDecisionTarget({ request, decision: "rejected" })}>
+                                    Reject
+                                  </Button>
+                                </>
+                              )}
+                              {canEdit && isReleaseApproved(request) && (
+                                <Button size="sm" variant="outline" onClick={() => markPaid(request)}>
+                                  Mark {request.side === "receivable" ? "Received" : "Paid"}
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="ledger">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle className="text-base">Retention Ledger</CardTitle>
+                <CardDescription>Withholdings and paid releases with running balances per contract</CardDescription>
+              </div>
+              <Select value={ledgerSide} onValueChange={(value) => setLedgerSide(value as RetentionSide | "all")}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Entries</SelectItem>
+                  <SelectItem value="receivable">Receivable</SelectItem>
+                  <SelectItem value="payable">Payable</SelectItem>
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Contract</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {ledger
+                    .filter((entry) => ledgerSide === "all" || entry.side === ledgerSide)
+                    .map((entry) => (
+                      <TableRow key={entry.id}>
+                        <TableCell>{entry.date}</TableCell>
+                        <TableCell>
+                          <div className="font-medium">{entry.counterparty}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {entry.side === "receivable" ? "Receivable" : "Payable"} · {entry.reference}
+                          </div>
+                        </TableCell>
+                        <TableCell>{entry.description}</TableCell>
+                        <TableCell className={`text-right ${entry.amount < 0 ? "text-green-600" : ""}`}>{formatCurrency(entry.amount)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(entry.balance)}</TableCell>
+                      </TableRow>
+                    ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="cash-flow">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <TrendingUp className="h-4 w-4" />
+                Released Retainage Cash Flow
+              </CardTitle>
+              <CardDescription>
+                Open requests on their expected dates; remaining balances released after substantial completion ({substantialCompletion})
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={320}>
+                <ComposedChart data={cashFlow.map((month) => ({ ...month, payable: -month.payable }))}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="month" />
+                  <YAxis tickFormatter={(value) => `$${(value / 1000000).toFixed(1)}M`} />
+                  <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+                  <Legend />
+                  <Bar dataKey="receivable" name="From Owner" fill="#10b981" />
+                  <Bar dataKey="payable" name="To Subcontractors" fill="#f97316" />
+                  <Line type="monotone" dataKey="cumulativeNet" name="Cumulative Net" stroke="#3b82f6" strokeWidth={2} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {/* Release request */}
+      <Dialog open={!!releaseTarget} onOpenChange={(open) => !open && setReleaseTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Request Retention Release</DialogTitle>
+            <DialogDescription>
+              {releaseTarget?.counterparty} · {releaseTarget?.reference} · {formatCurrency(releaseTarget?.balance ?? 0)} held
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label>Release Type</Label>
+                <Select
+                  value={releaseForm.kind}
+                  onValueChange={(value) => setReleaseForm((prev) => ({ ...prev, kind: value as ReleaseForm["kind"] }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="partial">Partial</SelectItem>
+                    <SelectItem value="final">Final</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Amount</Label>
+                <Input
+                  type="number"
+                  value={releaseForm.amount}
+                  onChange={(e) => setReleaseForm((prev) => ({ ...prev, amount: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Expected Cash Date</Label>
+              <Input
+                type="date"
+                value={releaseForm.expectedCashDate}
+                onChange={(e) => setReleaseForm((prev) => ({ ...prev, expectedCashDate: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Reason</Label>
+              <Textarea
+                value={releaseForm.reason}
+                onChange={(e) => setReleaseForm((prev) => ({ ...prev, reason: e.target.value }))}
+                placeholder="Milestone reached, reduction agreed, closeout complete..."
+              />
+            </div>
+            {releaseForm.kind === "final" && (
+              <div className="space-y-2">
+                <Label>Closeout Conditions</Label>
+                {(
+                  [
+                    ["punchListComplete", "Punch list complete"],
+                    ["finalLienWaiver", "Final lien waiver received"],
+                    ["closeoutDocuments", "Closeout documents received"],
+                  ] as const
+                ).map(([field, label]) => (
+                  <div key={field} className="flex items-center gap-2">
+                    <Checkbox
+                      id={field}
+                      checked={releaseForm[field]}
+                      onCheckedChange={(checked) => setReleaseForm((prev) => ({ ...prev, [field]: checked === true }))}
+                    />
+                    <Label htmlFor={field} className="font-normal">
+                      {label}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            )}
+            {releaseIssues.length > 0 && (
+              <ul className="text-sm text-red-600 list-disc pl-5 space-y-1">
+                {releaseIssues.map((issue) => (
+                  <li key={issue}>{issue}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReleaseTarget(null)}>
+              Cancel
+            </Button>
+            <Button onClick={submitRelease} disabled={releaseIssues.length > 0}>
+              <Send className="h-4 w-4 mr-2" />
+              Submit for Approval
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Approval decision */}
+      <Dialog open={!!decisionTarget} onOpenChange={(open) => !open && setDecisionTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{decisionTarget?.decision === "approved" ? "Approve" : "Reject"} Release</DialogTitle>
+            <DialogDescription>
+              {decisionTarget?.request.counterparty} · {formatCurrency(decisionTarget?.request.amount ?? 0)} {decisionTarget?.request.kind} release
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1">
+            <Label>Comment</Label>
+            <Textarea value={decisionComment} onChange={(e) => setDecisionComment(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDecisionTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={decisionTarget?.decision === "rejected" ? "destructive" : "default"}
+              onClick={submitDecision}
+            >
+              {decisionTarget?.decision === "approved" ? "Approve" : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
-} 
\ No newline at end of file
+}
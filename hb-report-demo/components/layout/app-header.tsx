@@ -8,6 +8,8 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { useAuth } from "@/context/auth-context"
+import { usePermissions } from "@/hooks/use-permissions"
+import { moduleForPath } from "@/lib/auth/permissions"
 import { useRouter } from "next/navigation"
 import { useTheme } from "next-themes"
 import { useProjectContext } from "@/context/project-context"
@@ -31,6 +33,7 @@ import { Calendar, Users } from "lucide-react"
  */
 export const AppHeader = () => {
   const { user, logout } = useAuth()
+  const { can } = usePermissions()
   const { theme, setTheme } = useTheme()
   const router = useRouter()
   const { toast } = useToast()
@@ -192,7 +195,6 @@ export const AppHeader = () => {
         href: "/dashboard/reports",
         category: "Core Tools",
         description: "Comprehensive reporting dashboard with approval workflows",
-        visibleRoles: ["project-manager", "project-executive", "executive", "admin"],
       },
       // Removed: Analytics
       {
@@ -207,6 +209,12 @@ export const AppHeader = () => {
         category: "Core Tools",
         description: "Role assignments and accountability",
       },
+      {
+        name: "Role Permissions",
+        href: "/dashboard/admin/permissions",
+        category: "Core Tools",
+        description: "Module, action and project scope grants per role",
+      },
 
       // Financial Management
       {
@@ -339,8 +347,7 @@ export const AppHeader = () => {
 
   // Enhanced filtered tools with department-based and role-based filtering
   const filteredTools = useMemo(() => {
-    const userRole = user?.role // Get current user's role
-    console.log("Filtering tools for department:", selectedDepartment, "user role:", userRole)
+    console.log("Filtering tools for department:", selectedDepartment, "user role:", user?.role)
     
     const filtered = tools.filter((tool) => {
       // Filter by department (if applicable)
@@ -349,8 +356,9 @@ export const AppHeader = () => {
           ? tool.category === "Pre-Construction"
           : tool.category !== "Pre-Construction"
 
-      // Filter by role visibility
-      const isRoleVisible = !tool.visibleRoles || (userRole && tool.visibleRoles.includes(userRole))
+      // Filter by the view grant of the module the tool opens
+      const toolModule = moduleForPath(tool.href.split("#")[0])
+      const isRoleVisible = !toolModule || can(toolModule, "view")
 
       const shouldInclude = isDepartmentMatch && isRoleVisible
       if (selectedDepartment === "pre-construction") {
@@ -362,7 +370,7 @@ export const AppHeader = () => {
     
     console.log("Filtered tools count:", filtered.length, "for department:", selectedDepartment)
     return filtered
-  }, [selectedDepartment, tools, user]) // Add user to dependencies
+  }, [selectedDepartment, tools, user, can])
 
   // Utility functions
   // ... (getUserInitials, hasPreConAccess, getProjectStatusColor functions defined above)
@@ -0,0 +1,357 @@
+"use client"
+
+import React, { useMemo, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { AlertTriangle, Bell, CalendarClock, CheckCircle, ClipboardCheck, Clock, Lock, RotateCcw } from "lucide-react"
+import { format, parseISO } from "date-fns"
+import type { Inspection, InspectionReminder, InspectionStepStatus, Permit, PlannedInspectionStep } from "@/types/permit-log"
+import {
+  inspectionReminders,
+  isPermitActive,
+  planPermitInspections,
+  recordInspectionResult,
+  scheduleInspection,
+  validateInspectionRequest,
+} from "@/lib/permits/inspection-planner"
+
+interface InspectionPlannerProps {
+  permits: Permit[]
+  canEdit?: boolean
+  onSavePermit: (permit: Permit) => void | Promise<void>
+  className?: string
+}
+
+const stepStatusConfig: Record<InspectionStepStatus, { label: string; className: string; icon: React.ElementType }> = {
+  passed: { label: "Passed", className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200", icon: CheckCircle },
+  scheduled: { label: "Scheduled", className: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200", icon: Clock },
+  "reinspection-required": {
+    label: "Re-inspection",
+    className: "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200",
+    icon: RotateCcw,
+  },
+  ready: { label: "Ready", className: "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200", icon: CalendarClock },
+  blocked: { label: "Blocked", className: "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300", icon: Lock },
+}
+
+const severityClassName: Record<InspectionReminder["severity"], string> = {
+  critical: "border-red-200 bg-red-50 text-red-800 dark:border-red-900 dark:bg-red-950 dark:text-red-200",
+  warning: "border-orange-200 bg-orange-50 text-orange-800 dark:border-orange-900 dark:bg-orange-950 dark:text-orange-200",
+  info: "border-blue-200 bg-blue-50 text-blue-800 dark:border-blue-900 dark:bg-blue-950 dark:text-blue-200",
+}
+
+type ResultValue = Exclude<Inspection["result"], "pending">
+
+export function InspectionPlanner({ permits, canEdit = false, onSavePermit, className = "" }: InspectionPlannerProps) {
+  const [showAll, setShowAll] = useState(false)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [request, setRequest] = useState<{ step: PlannedInspectionStep; date: string; inspector: string } | null>(null)
+  const [result, setResult] = useState<{
+    inspection: Inspection
+    value: ResultValue
+    comments: string
+    followUpRequired: boolean
+  } | null>(null)
+
+  const plans = useMemo(() => permits.filter(isPermitActive).map((p) => planPermitInspections(p)), [permits])
+  const reminders = useMemo(() => inspectionReminders(permits), [permits])
+
+  // Permits with inspections under way, or a reminder, come first; the rest are one toggle away
+  const inProgress = (plan: (typeof plans)[number]) =>
+    plan.permit.inspections.length > 0 || reminders.some((r) => r.permitId === plan.permit.id)
+  const listed = plans.filter((plan) => plan.steps.length > 0 && (showAll || inProgress(plan)))
+  const selected = plans.find((plan) => plan.permit.id === selectedId) ?? listed[0]
+
+  const requestIssues = request && selected ? validateInspectionRequest(selected, request.step.type, request.date) : []
+
+  const submitRequest = async () => {
+    if (!request || !selected) return
+    const inspection = scheduleInspection(selected, request.step.type, request.date, request.inspector)
+    if (!inspection) return
+    await onSavePermit({ ...selected.permit, inspections: [...selected.permit.inspections, inspection] })
+    setRequest(null)
+  }
+
+  const submitResult = async () => {
+    if (!result || !selected) return
+    const updated = recordInspectionResult(selected.permit, result.inspection.id, result.value, {
+      comments: result.comments || undefined,
+      followUpRequired: result.value === "conditional" ? result.followUpRequired : undefined,
+    })
+    if (!updated) return
+    await onSavePermit(updated)
+    setResult(null)
+  }
+
+  const openRequest = (step: PlannedInspectionStep) =>
+    setRequest({
+      step,
+      date: step.earliestDate ?? "",
+      inspector: step.status === "reinspection-required" ? step.inspection?.inspector ?? "" : "",
+    })
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Bell className="h-5 w-5" />
+            Inspection Reminders
+          </CardTitle>
+          <CardDescription>Upcoming inspections, out-of-sequence requests and outstanding re-inspections</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {reminders.length === 0 && <p className="text-sm text-muted-foreground">Nothing needs attention right now.</p>}
+          {reminders.map((reminder) => (
+            <button
+              key={reminder.id}
+              type="button"
+              onClick={() => setSelectedId(reminder.permitId)}
+              className={`flex w-full items-center justify-between gap-3 rounded-md border px-3 py-2 text-left text-sm ${severityClassName[reminder.severity]}`}
+            >
+              <span className="flex items-center gap-2">
+                {reminder.severity === "critical" ? <AlertTriangle className="h-4 w-4 shrink-0" /> : <Clock className="h-4 w-4 shrink-0" />}
+                {reminder.message}
+              </span>
+              <span className="shrink-0 text-xs">{format(parseISO(reminder.date), "MMM d")}</span>
+            </button>
+          ))}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card className="lg:col-span-1">
+          <CardHeader className="space-y-3">
+            <CardTitle>Active Permits</CardTitle>
+            <div className="flex items-center gap-2">
+              <Switch id="planner-show-all" checked={showAll} onCheckedChange={setShowAll} />
+              <Label htmlFor="planner-show-all" className="text-sm">
+                Show all active permits
+              </Label>
+            </div>
+          </CardHeader>
+          <CardContent className="max-h-[560px] space-y-1 overflow-y-auto">
+            {listed.length === 0 && <p className="text-sm text-muted-foreground">No permits need an inspection scheduled.</p>}
+            {listed.map((plan) => {
+              const passed = plan.steps.filter((s) => s.status === "passed").length
+              return (
+                <button
+                  key={plan.permit.id}
+                  type="button"
+                  onClick={() => setSelectedId(plan.permit.id)}
+                  className={`w-full rounded-md border px-3 py-2 text-left text-sm transition-colors hover:bg-muted ${
+                    selected?.permit.id === plan.permit.id ? "border-[#003087] bg-muted" : ""
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{plan.permit.number}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {passed}/{plan.steps.length}
+                    </span>
+                  </div>
+                  <div className="truncate text-xs text-muted-foreground">
+                    {plan.permit.type} · {plan.permit.authority}
+                  </div>
+                </button>
+              )
+            })}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          {selected ? (
+            <>
+              <CardHeader>
+                <CardTitle>
+                  {selected.permit.number} — {selected.permit.type}
+                </CardTitle>
+                <CardDescription>
+                  {selected.permit.authority} · {selected.rules.noticeBusinessDays} business day(s) notice, requests by{" "}
+                  {selected.rules.requestCutoff}
+                  {selected.rules.reinspectionFee ? ` · $${selected.rules.reinspectionFee} re-inspection fee` : ""}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {selected.steps.map((step, index) => {
+                  const config = stepStatusConfig[step.status]
+                  const Icon = config.icon
+                  const pending = step.inspection?.result === "pending" ? step.inspection : undefined
+                  return (
+                    <div key={step.type} className="flex flex-wrap items-center justify-between gap-3 rounded-md border p-3">
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="text-xs text-muted-foreground">{index + 1}.</span>
+                          <span className="font-medium">{step.type}</span>
+                          <Badge className={config.className}>
+                            <Icon className="mr-1 h-3 w-3" />
+                            {config.label}
+                          </Badge>
+                        </div>
+                        {step.inspection && (
+                          <p className="text-xs text-muted-foreground">
+                            {step.inspection.result === "pending" ? "Scheduled" : step.inspection.result} ·{" "}
+                            {format(parseISO((step.inspection.completedDate ?? step.inspection.scheduledDate)!), "MMM d, yyyy")} ·{" "}
+                            {step.inspection.inspector}
+                          </p>
+                        )}
+                        {step.missingPrerequisites.length > 0 && step.status !== "passed" && (
+                          <p
+                            className={`flex items-center gap-1 text-xs ${
+                              step.status === "scheduled" ? "text-red-600 dark:text-red-400" : "text-muted-foreground"
+                            }`}
+                          >
+                            <AlertTriangle className="h-3 w-3" />
+                            Waiting on {step.missingPrerequisites.join(", ")}
+                          </p>
+                        )}
+                        {step.earliestDate && (
+                          <p className="text-xs text-muted-foreground">Earliest request: {format(parseISO(step.earliestDate), "EEE, MMM d")}</p>
+                        )}
+                      </div>
+                      {canEdit && (
+                        <div className="flex gap-2">
+                          {(step.status === "ready" || step.status === "reinspection-required") && (
+                            <Button size="sm" variant="outline" onClick={() => openRequest(step)}>
+                              {step.status === "ready" ? "Request" : "Request Re-inspection"}
+                            </Button>
+                          )}
+                          {pending && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setResult({ inspection: pending, value: "passed", comments: "", followUpRequired: true })}
+                            >
+                              <ClipboardCheck className="mr-1 h-4 w-4" />
+                              Record Result
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  )
+                })}
+                {selected.unsequenced.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    Also on file: {selected.unsequenced.map((inspection) => `${inspection.type} (${inspection.result})`).join(", ")}
+                  </p>
+                )}
+              </CardContent>
+            </>
+          ) : (
+            <CardContent className="py-12 text-center text-sm text-muted-foreground">Select a permit to plan its inspections.</CardContent>
+          )}
+        </Card>
+      </div>
+
+      <Dialog open={!!request} onOpenChange={(open) => !open && setRequest(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{request?.step.status === "reinspection-required" ? "Request Re-inspection" : "Request Inspection"}</DialogTitle>
+            <DialogDescription>
+              {request?.step.type} for {selected?.permit.number}
+            </DialogDescription>
+          </DialogHeader>
+          {request && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="inspection-date">Date</Label>
+                <Input
+                  id="inspection-date"
+                  type="date"
+                  min={request.step.earliestDate}
+                  value={request.date}
+                  onChange={(e) => setRequest({ ...request, date: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="inspection-inspector">Inspector</Label>
+                <Input
+                  id="inspection-inspector"
+                  placeholder="Assigned by the authority"
+                  value={request.inspector}
+                  onChange={(e) => setRequest({ ...request, inspector: e.target.value })}
+                />
+              </div>
+              {requestIssues.length > 0 && (
+                <ul className="space-y-1 text-sm text-red-600 dark:text-red-400">
+                  {requestIssues.map((issue) => (
+                    <li key={issue}>{issue}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRequest(null)}>
+              Cancel
+            </Button>
+            <Button onClick={submitRequest} disabled={requestIssues.length > 0} className="bg-[#FF6B35] hover:bg-[#E55A2B]">
+              Schedule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!result} onOpenChange={(open) => !open && setResult(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Result</DialogTitle>
+            <DialogDescription>
+              {result?.inspection.type} inspection for {selected?.permit.number}. Failed and conditional results request a re-inspection.
+            </DialogDescription>
+          </DialogHeader>
+          {result && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Result</Label>
+                <Select value={result.value} onValueChange={(value) => setResult({ ...result, value: value as ResultValue })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="passed">Passed</SelectItem>
+                    <SelectItem value="conditional">Conditional</SelectItem>
+                    <SelectItem value="failed">Failed</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {result.value === "conditional" && (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="inspection-follow-up"
+                    checked={result.followUpRequired}
+                    onCheckedChange={(followUpRequired) => setResult({ ...result, followUpRequired })}
+                  />
+                  <Label htmlFor="inspection-follow-up">Inspector needs to return</Label>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="inspection-comments">Comments</Label>
+                <Textarea
+                  id="inspection-comments"
+                  value={result.comments}
+                  onChange={(e) => setResult({ ...result, comments: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResult(null)}>
+              Cancel
+            </Button>
+            <Button onClick={submitResult} className="bg-[#FF6B35] hover:bg-[#E55A2B]">
+              Save Result
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
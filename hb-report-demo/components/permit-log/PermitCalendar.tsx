@@ -26,7 +26,9 @@ import {
   Clock,
   Building,
   Eye,
-  Edit
+  Edit,
+  Download,
+  Link as LinkIcon
 } from "lucide-react"
 import { 
   format, 
@@ -46,13 +48,15 @@ import {
   differenceInDays
 } from "date-fns"
 import type { Permit, Inspection, CalendarEvent } from "@/types/permit-log"
+import { usePermissions } from "@/hooks/use-permissions"
+import { planPermitInspections } from "@/lib/permits/inspection-planner"
+import { calendarFeedFileName, permitCalendarFeed } from "@/lib/permits/calendar-feed"
 
 interface PermitCalendarProps {
   permits: Permit[]
   onEditPermit?: (permit: Permit) => void
   onViewPermit?: (permit: Permit) => void
   onCreatePermit?: () => void
-  userRole?: string
   className?: string
 }
 
@@ -78,7 +82,6 @@ export function PermitCalendar({
   onEditPermit,
   onViewPermit,
   onCreatePermit,
-  userRole = "user",
   className = ""
 }: PermitCalendarProps) {
   const [currentDate, setCurrentDate] = useState(new Date())
@@ -91,9 +94,8 @@ export function PermitCalendar({
   ])
   const [selectedDate, setSelectedDate] = useState<Date | null>(null)
 
-  const canEdit = useMemo(() => {
-    return ["admin", "project-manager", "project-executive"].includes(userRole)
-  }, [userRole])
+  const { can } = usePermissions()
+  const canEdit = can("permit-log", "edit")
 
   // Generate calendar events from permits
   const calendarEvents = useMemo(() => {
@@ -147,7 +149,11 @@ export function PermitCalendar({
 
       // Inspection events
       if (permit.inspections && selectedEventTypes.includes("inspection")) {
+        const plan = planPermitInspections(permit)
         permit.inspections.forEach(inspection => {
+          // A pending inspection booked before its prerequisites passed will be turned away
+          const step = plan.steps.find(s => s.inspection?.id === inspection.id)
+          const missingPrerequisites = inspection.result === "pending" ? step?.missingPrerequisites ?? [] : []
           const inspectionDate = inspection.scheduledDate ? 
             parseISO(inspection.scheduledDate) : 
             inspection.completedDate ? parseISO(inspection.completedDate) : null
@@ -161,7 +167,8 @@ export function PermitCalendar({
               status: inspection.result,
               permit,
               inspection,
-              priority: inspection.result === "failed" ? "high" : permit.priority
+              priority: missingPrerequisites.length > 0 ? "critical" : inspection.result === "failed" ? "high" : permit.priority,
+              missingPrerequisites
             })
           }
         })
@@ -171,6 +178,52 @@ export function PermitCalendar({
     return events.sort((a, b) => a.date.getTime() - b.date.getTime())
   }, [permits, selectedEventTypes])
 
+  // One iCalendar feed per project in view
+  const projectFeeds = useMemo(() => {
+    const byProject = new Map<string, Permit[]>()
+    permits.forEach(permit => {
+      const key = permit.projectId.toString()
+      byProject.set(key, [...(byProject.get(key) ?? []), permit])
+    })
+    return [...byProject.entries()].map(([projectId, projectPermits]) => ({ projectId, permits: projectPermits }))
+  }, [permits])
+
+  const downloadFeed = useCallback((projectId: string, projectPermits: Permit[]) => {
+    const name = `Project ${projectId}`
+    const blob = new Blob([permitCalendarFeed(projectPermits, `${name} Permits`)], { type: "text/calendar;charset=utf-8" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = calendarFeedFileName(name)
+    link.click()
+    setTimeout(() => URL.revokeObjectURL(url), 0)
+  }, [])
+
+  // Subscription URLs carry a feed token per project, issued for the signed-in user when the feeds open
+  const [feedTokens, setFeedTokens] = useState<Record<string, string>>({})
+
+  const loadFeedTokens = useCallback(async () => {
+    const missing = projectFeeds.filter(feed => !feedTokens[feed.projectId])
+    if (missing.length === 0) return
+    try {
+      const issued = await Promise.all(
+        missing.map(async feed => {
+          const response = await fetch(`/api/calendar/${feed.projectId}/token`, { method: "POST" })
+          return response.ok ? ([feed.projectId, (await response.json()).token as string] as const) : null
+        })
+      )
+      setFeedTokens(prev => ({ ...prev, ...Object.fromEntries(issued.filter(entry => entry !== null)) }))
+    } catch (error) {
+      console.error("Failed to issue calendar feed tokens:", error)
+    }
+  }, [projectFeeds, feedTokens])
+
+  const feedUrl = (projectId: string) => {
+    const token = feedTokens[projectId]
+    if (!token) return null
+    return `${typeof window === "undefined" ? "" : window.location.origin}/api/calendar/${projectId}.ics?token=${encodeURIComponent(token)}`
+  }
+
   // Get calendar days to display
   const calendarDays = useMemo(() => {
     if (view === "month") {
@@ -266,6 +319,57 @@ export function PermitCalendar({
           </PopoverContent>
         </Popover>
 
+        <Popover onOpenChange={open => open && loadFeedTokens()}>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" disabled={projectFeeds.length === 0}>
+              <CalendarIcon className="h-4 w-4 mr-2" />
+              Calendar Feed
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-96" align="end">
+            <div className="space-y-3">
+              <div>
+                <h4 className="font-medium">iCalendar Feeds</h4>
+                <p className="text-xs text-muted-foreground">
+                  Subscribe in Outlook or Google Calendar to keep inspections and expirations in sync, or download a snapshot. Links are personal; don't share them.
+                </p>
+              </div>
+              <Separator />
+              <div className="max-h-64 space-y-3 overflow-y-auto">
+                {projectFeeds.map(feed => (
+                  <div key={feed.projectId} className="space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium">Project {feed.projectId}</span>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 px-2"
+                          disabled={!feedUrl(feed.projectId)}
+                          onClick={() => navigator.clipboard?.writeText(feedUrl(feed.projectId) ?? "")}
+                        >
+                          <LinkIcon className="h-3 w-3 mr-1" />
+                          Copy URL
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 px-2"
+                          onClick={() => downloadFeed(feed.projectId, feed.permits)}
+                        >
+                          <Download className="h-3 w-3 mr-1" />
+                          .ics
+                        </Button>
+                      </div>
+                    </div>
+                    <code className="block truncate rounded bg-muted px-2 py-1 text-xs">{feedUrl(feed.projectId) ?? "Issuing subscription link…"}</code>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </PopoverContent>
+        </Popover>
+
         <Select value={view} onValueChange={(value: CalendarView) => setView(value)}>
           <SelectTrigger className="w-24">
             <SelectValue />
@@ -369,6 +473,11 @@ export function PermitCalendar({
                                 Inspector: {event.inspection.inspector}
                               </div>
                             )}
+                            {event.missingPrerequisites && event.missingPrerequisites.length > 0 && (
+                              <div className="text-xs text-red-500">
+                                Waiting on {event.missingPrerequisites.join(", ")}
+                              </div>
+                            )}
                             <div className="text-xs">
                               Status: {event.status}
                             </div>
@@ -458,6 +567,12 @@ export function PermitCalendar({
                               <div>Result: {event.inspection.result}</div>
                             </>
                           )}
+                          {event.missingPrerequisites && event.missingPrerequisites.length > 0 && (
+                            <div className="flex items-center gap-1 font-medium text-red-600 dark:text-red-400">
+                              <AlertTriangle className="h-3 w-3" />
+                              Scheduled before {event.missingPrerequisites.join(", ")} passed
+                            </div>
+                          )}
                           <div>Status: {event.status}</div>
                         </div>
                       </div>
@@ -0,0 +1,269 @@
+"use client"
+
+import React, { useMemo, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { AlertTriangle, Building, DollarSign, RefreshCw, Shield } from "lucide-react"
+import { format, parseISO } from "date-fns"
+import type { ExpirationLevel, Permit, PermitRenewalTask } from "@/types/permit-log"
+import { useDataResource } from "@/hooks/use-data-resource"
+import { expirationLevelLabel, portfolioExposure, renewalTask } from "@/lib/permits/expiration-rules"
+
+interface PermitExposureProps {
+  // Every permit the user can see, across projects
+  permits: Permit[]
+  canEdit?: boolean
+  onRenewPermit: (permit: Permit, task: PermitRenewalTask) => void | Promise<void>
+  className?: string
+}
+
+const levelClassName: Record<ExpirationLevel, string> = {
+  expired: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  critical: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+  warning: "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200",
+  notice: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+  ok: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+}
+
+const currency = (amount: number) => `$${Math.round(amount).toLocaleString()}`
+
+const roleLabel = (role: string) => role.split("-").map((word) => word[0].toUpperCase() + word.slice(1)).join(" ")
+
+export function PermitExposure({ permits, canEdit = false, onRenewPermit, className = "" }: PermitExposureProps) {
+  const [levelFilter, setLevelFilter] = useState<"all" | ExpirationLevel>("all")
+  const [renewing, setRenewing] = useState<{ permit: Permit; task: PermitRenewalTask } | null>(null)
+  const { data: projects } = useDataResource("projects")
+
+  const exposure = useMemo(() => portfolioExposure(permits), [permits])
+  const tasks = useMemo(
+    () => exposure.atRisk.map((status) => ({ status, task: renewalTask(status) })),
+    [exposure]
+  )
+  const visible = levelFilter === "all" ? tasks : tasks.filter(({ status }) => status.level === levelFilter)
+
+  const projectName = (projectId: string | number) =>
+    projects.find((project) => String(project.project_id) === String(projectId))?.name ?? `Project ${projectId}`
+
+  const summaryCards: { level: Exclude<ExpirationLevel, "ok">; className: string }[] = [
+    { level: "expired", className: "text-red-700 dark:text-red-400" },
+    { level: "critical", className: "text-red-600 dark:text-red-400" },
+    { level: "warning", className: "text-orange-600 dark:text-orange-400" },
+    { level: "notice", className: "text-yellow-600 dark:text-yellow-400" },
+  ]
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-3 lg:grid-cols-6">
+        {summaryCards.map(({ level, className: valueClassName }) => (
+          <Card key={level} className="cursor-pointer" onClick={() => setLevelFilter(levelFilter === level ? "all" : level)}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">{expirationLevelLabel(level)}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${valueClassName}`}>{exposure.byLevel[level]}</div>
+            </CardContent>
+          </Card>
+        ))}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-1 text-sm font-medium text-muted-foreground">
+              <DollarSign className="h-4 w-4" />
+              Renewal Fees
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{currency(exposure.renewalFees)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-1 text-sm font-medium text-muted-foreground">
+              <Shield className="h-4 w-4" />
+              Bonds at Risk
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{currency(exposure.bondAmount)}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Building className="h-5 w-5" />
+            Exposure by Project
+          </CardTitle>
+          <CardDescription>Permits inside an escalation threshold or past their effective expiration</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {exposure.byProject.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No permits are at risk.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Project</TableHead>
+                  <TableHead className="text-right">Permits</TableHead>
+                  <TableHead>Worst</TableHead>
+                  <TableHead className="text-right">Renewal Fees</TableHead>
+                  <TableHead className="text-right">Bonds</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {exposure.byProject.map((project) => (
+                  <TableRow key={String(project.projectId)}>
+                    <TableCell className="font-medium">{projectName(project.projectId)}</TableCell>
+                    <TableCell className="text-right">{project.count}</TableCell>
+                    <TableCell>
+                      <Badge className={levelClassName[project.worstLevel]}>{expirationLevelLabel(project.worstLevel)}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{currency(project.renewalFees)}</TableCell>
+                    <TableCell className="text-right">{currency(project.bondAmount)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <RefreshCw className="h-5 w-5" />
+              Renewal Tasks
+            </CardTitle>
+            <CardDescription>File by the authority's lead time; fees from the permit cost, bonds carried over</CardDescription>
+          </div>
+          <Select value={levelFilter} onValueChange={(value) => setLevelFilter(value as typeof levelFilter)}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All at risk</SelectItem>
+              {summaryCards.map(({ level }) => (
+                <SelectItem key={level} value={level}>
+                  {expirationLevelLabel(level)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {visible.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No renewal tasks.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Permit</TableHead>
+                  <TableHead>Project</TableHead>
+                  <TableHead>Level</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>File By</TableHead>
+                  <TableHead className="text-right">Fee</TableHead>
+                  <TableHead className="text-right">Bond</TableHead>
+                  <TableHead>Escalated To</TableHead>
+                  {canEdit && <TableHead />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.map(({ status, task }) => (
+                  <TableRow key={task.id}>
+                    <TableCell>
+                      <div className="font-medium">{task.permitNumber}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {status.permit.type} · {task.authority}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">{projectName(task.projectId)}</TableCell>
+                    <TableCell>
+                      <Badge className={levelClassName[status.level]}>{expirationLevelLabel(status.level)}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <div>{format(parseISO(task.expirationDate.slice(0, 10)), "MMM d, yyyy")}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {status.daysToExpiry < 0 ? `${-status.daysToExpiry} days ago` : `in ${status.daysToExpiry} days`}
+                      </div>
+                      {status.extendedByInspection && (
+                        <div className="text-xs text-muted-foreground">Extended by {status.extendedByInspection.type} inspection</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <span className={task.fileBy < format(new Date(), "yyyy-MM-dd") ? "font-medium text-red-600 dark:text-red-400" : ""}>
+                        {format(parseISO(task.fileBy), "MMM d, yyyy")}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right text-sm">{currency(task.renewalFee)}</TableCell>
+                    <TableCell className="text-right text-sm">
+                      <div>{currency(task.bondAmount)}</div>
+                      <div className="text-xs text-muted-foreground">{task.bondCarriesOver ? "Carries over" : "Re-post"}</div>
+                    </TableCell>
+                    <TableCell className="text-xs">{status.escalateTo.map(roleLabel).join(", ")}</TableCell>
+                    {canEdit && (
+                      <TableCell>
+                        <Button size="sm" variant="outline" onClick={() => setRenewing({ permit: status.permit, task })}>
+                          Record Renewal
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!renewing} onOpenChange={(open) => !open && setRenewing(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Record Renewal</AlertDialogTitle>
+            <AlertDialogDescription>
+              {renewing && (
+                <>
+                  {renewing.task.permitNumber} will be marked renewed through{" "}
+                  {format(parseISO(renewing.task.renewedExpirationDate.slice(0, 10)), "MMM d, yyyy")} with a{" "}
+                  {currency(renewing.task.renewalFee)} renewal fee.{" "}
+                  {renewing.task.bondCarriesOver
+                    ? `The ${currency(renewing.task.bondAmount)} bond carries over.`
+                    : `${renewing.task.authority} requires the ${currency(renewing.task.bondAmount)} bond to be posted again.`}
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {renewing && renewing.task.level === "expired" && (
+            <p className="flex items-center gap-2 text-sm text-red-600 dark:text-red-400">
+              <AlertTriangle className="h-4 w-4" />
+              This permit has lapsed; confirm the authority has reinstated it before recording the renewal.
+            </p>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-[#FF6B35] hover:bg-[#E55A2B]"
+              onClick={() => renewing && onRenewPermit(renewing.permit, renewing.task)}
+            >
+              Record Renewal
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
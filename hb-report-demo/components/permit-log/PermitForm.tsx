@@ -56,6 +56,7 @@ import { format, addDays } from "date-fns"
 import { useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
 import * as z from "zod"
+import { usePermissions } from "@/hooks/use-permissions"
 import type { Permit, PermitFormData, AuthorityContact, Inspection } from "@/types/permit-log"
 
 // Form validation schema
@@ -90,7 +91,6 @@ interface PermitFormProps {
   open: boolean
   onClose: () => void
   onSave: (data: PermitFormData) => void
-  userRole?: string
 }
 
 const permitTypes = [
@@ -132,7 +132,7 @@ const commonAuthorities = [
   "Public Works Department"
 ]
 
-export function PermitForm({ permit, open, onClose, onSave, userRole = "user" }: PermitFormProps) {
+export function PermitForm({ permit, open, onClose, onSave }: PermitFormProps) {
   const [activeTab, setActiveTab] = useState("basic")
   const [newCondition, setNewCondition] = useState("")
   const [newTag, setNewTag] = useState("")
@@ -140,7 +140,8 @@ export function PermitForm({ permit, open, onClose, onSave, userRole = "user" }:
   const [isSubmitting, setIsSubmitting] = useState(false)
 
   const isEditing = !!permit
-  const canEdit = ["admin", "project-manager", "project-executive"].includes(userRole)
+  const { can } = usePermissions()
+  const canEdit = isEditing ? can("permit-log", "edit", permit.projectId) : can("permit-log", "create")
 
   // Initialize form
   const form = useForm<FormData>({
@@ -50,8 +50,10 @@ import {
   ArrowDown,
   ExternalLink
 } from "lucide-react"
-import { format, differenceInDays, isAfter, isBefore } from "date-fns"
+import { format, isAfter, isBefore } from "date-fns"
 import type { Permit, Inspection, PermitTableProps } from "@/types/permit-log"
+import { usePermissions } from "@/hooks/use-permissions"
+import { permitExpirationRules, permitExpiryStatus } from "@/lib/permits/expiration-rules"
 
 type SortField = "number" | "type" | "status" | "authority" | "applicationDate" | "approvalDate" | "expirationDate" | "cost" | "priority"
 type SortDirection = "asc" | "desc"
@@ -87,7 +89,6 @@ export function PermitTable({
   onDrillDown,
   compact = false,
   showInspections = false,
-  userRole = "user",
   className = ""
 }: PermitTableProps) {
   const [sortField, setSortField] = useState<SortField>("applicationDate")
@@ -98,13 +99,9 @@ export function PermitTable({
   const [quickSearch, setQuickSearch] = useState("")
 
   // Permission checks
-  const canEdit = useMemo(() => {
-    return ["admin", "project-manager", "project-executive"].includes(userRole)
-  }, [userRole])
-
-  const canExport = useMemo(() => {
-    return ["admin", "executive", "project-executive", "project-manager"].includes(userRole)
-  }, [userRole])
+  const { can } = usePermissions()
+  const canEdit = can("permit-log", "edit")
+  const canExport = can("permit-log", "export")
 
   // Filter permits based on quick search
   const filteredPermits = useMemo(() => {
@@ -241,12 +238,10 @@ export function PermitTable({
     }
   }, [])
 
-  // Check if expiring soon
-  const isExpiringSoon = useCallback((expirationDate: string) => {
-    const expDate = new Date(expirationDate)
-    const today = new Date()
-    const daysUntilExpiration = differenceInDays(expDate, today)
-    return daysUntilExpiration <= 30 && daysUntilExpiration > 0
+  // Check if expiring soon, against the effective expiration and the warning threshold
+  const isExpiringSoon = useCallback((permit: Permit) => {
+    const level = permitExpiryStatus(permit)?.level
+    return level === "warning" || level === "critical"
   }, [])
 
   // Get sort icon
@@ -479,17 +474,17 @@ export function PermitTable({
                       <TableCell>
                         <div className="flex items-center gap-2">
                           <Calendar className="h-4 w-4 text-muted-foreground" />
-                          <span className={isExpiringSoon(permit.expirationDate) ? "text-orange-600 font-medium" : ""}>
+                          <span className={isExpiringSoon(permit) ? "text-orange-600 font-medium" : ""}>
                             {format(new Date(permit.expirationDate), "MMM dd, yyyy")}
                           </span>
-                          {isExpiringSoon(permit.expirationDate) && (
+                          {isExpiringSoon(permit) && (
                             <TooltipProvider>
                               <Tooltip>
                                 <TooltipTrigger>
                                   <AlertTriangle className="h-4 w-4 text-orange-600" />
                                 </TooltipTrigger>
                                 <TooltipContent>
-                                  <p>Expires within 30 days</p>
+                                  <p>Expires within {permitExpirationRules.thresholds.warning} days</p>
                                 </TooltipContent>
                               </Tooltip>
                             </TooltipProvider>
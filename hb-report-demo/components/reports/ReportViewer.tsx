@@ -8,6 +8,7 @@ import { ScrollArea } from "@/components/ui/scroll-area"
 import { Separator } from "@/components/ui/separator"
 import { Progress } from "@/components/ui/progress"
 import { useToast } from "@/hooks/use-toast"
+import { usePermissions } from "@/hooks/use-permissions"
 import {
   FileText,
   Download,
@@ -67,7 +68,6 @@ interface Report {
 interface ReportViewerProps {
   report: Report | null
   onClose: () => void
-  userRole: string
 }
 
 interface SectionPreview {
@@ -79,8 +79,9 @@ interface SectionPreview {
   status: "complete" | "pending" | "error"
 }
 
-export function ReportViewer({ report, onClose, userRole }: ReportViewerProps) {
+export function ReportViewer({ report, onClose }: ReportViewerProps) {
   const { toast } = useToast()
+  const { can } = usePermissions()
   
   const [currentPage, setCurrentPage] = useState(1)
   const [zoomLevel, setZoomLevel] = useState(100)
@@ -212,9 +213,9 @@ export function ReportViewer({ report, onClose, userRole }: ReportViewerProps) {
     window.print()
   }
 
-  const canApprove = userRole === "project-executive" && report?.status === "submitted"
-  const canReject = userRole === "project-executive" && report?.status === "submitted"
-  const canEdit = userRole === "project-manager" && (report?.status === "draft" || report?.status === "rejected")
+  const canApprove = !!report && can("reports", "approve", report.projectId) && report.status === "submitted"
+  const canReject = canApprove
+  const canEdit = !!report && can("reports", "edit", report.projectId) && (report.status === "draft" || report.status === "rejected")
 
   if (!report) {
     return (
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import {
   Eye,
   Plus,
@@ -37,163 +37,195 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import {
-  GanttChart,
   BarChart,
   Bar,
   XAxis,
   YAxis,
   CartesianGrid,
   Tooltip,
+  Legend,
   ResponsiveContainer,
-  Timeline,
 } from "recharts";
+import { format, parseISO } from "date-fns";
+import type { FragNet, FragNetActivity, LookAheadWeeks, ScheduledFragNet } from "@/types/scheduler";
+import { useProjectContext } from "@/context/project-context";
+import { useFragNets } from "@/hooks/use-fragnets";
+import { getProjectActivities } from "@/lib/scheduler/critical-path";
+import { buildLookAhead, getDataDate, scheduleFragNet } from "@/lib/scheduler/look-ahead";
+import { createLookAheadPdf } from "@/lib/scheduler/look-ahead-pdf";
+import projectsData from "@/data/mock/projects.json";
 
 interface LookAheadProps {
   userRole: string;
   projectData: any;
 }
 
-// Mock Frag Net Data
-const fragNets = [
-  {
-    id: "FN001",
-    name: "MEP Coordination Level 3",
-    summary: "Detailed coordination activities for MEP systems on Level 3",
-    parentActivity: "MEP Rough-in Level 3", 
-    status: "active",
-    startDate: "2024-07-01",
-    endDate: "2024-07-18",
-    progress: 45,
-    location: "Level 3 - East Wing",
-    crew: "MEP Coordination Team",
-    priority: "high"
-  },
-  {
-    id: "FN002", 
-    name: "Exterior Facade Installation",
-    summary: "Detailed sequence for curtain wall and glazing installation",
-    parentActivity: "Building Envelope",
-    status: "planning",
-    startDate: "2024-08-15",
-    endDate: "2024-09-30",
-    progress: 0,
-    location: "South Elevation",
-    crew: "Facade Crew A",
-    priority: "medium"
-  },
-  {
-    id: "FN003",
-    name: "Interior Finishes - Executive Floors",
-    summary: "Detailed finish work for floors 15-17",
-    parentActivity: "Interior Finishes",
-    status: "completed",
-    startDate: "2024-05-01",
-    endDate: "2024-06-15",
-    progress: 100,
-    location: "Floors 15-17",
-    crew: "Finish Crew B",
-    priority: "high"
-  }
-];
-
-// Mock Detailed Activities for Frag Net
-const fragNetActivities = [
-  {
-    id: "FN001-A01",
-    name: "MEP Layout Review",
-    duration: 2,
-    startDate: "2024-07-01",
-    endDate: "2024-07-02",
-    predecessors: [],
-    resources: ["MEP Engineer", "Coordinator"],
-    location: "Level 3 - Zone A",
-    status: "completed",
-    progress: 100
-  },
-  {
-    id: "FN001-A02", 
-    name: "Electrical Rough-in",
-    duration: 5,
-    startDate: "2024-07-03",
-    endDate: "2024-07-09",
-    predecessors: ["FN001-A01"],
-    resources: ["Electrician Lead", "Electrician x2"],
-    location: "Level 3 - Zone A", 
-    status: "in-progress",
-    progress: 80
-  },
-  {
-    id: "FN001-A03",
-    name: "Plumbing Rough-in",
-    duration: 4,
-    startDate: "2024-07-05",
-    endDate: "2024-07-10",
-    predecessors: ["FN001-A01"],
-    resources: ["Plumber Lead", "Plumber"],
-    location: "Level 3 - Zone A",
-    status: "in-progress", 
-    progress: 60
-  },
-  {
-    id: "FN001-A04",
-    name: "HVAC Ductwork",
-    duration: 6,
-    startDate: "2024-07-11",
-    endDate: "2024-07-18",
-    predecessors: ["FN001-A02", "FN001-A03"],
-    resources: ["HVAC Tech Lead", "HVAC Tech x2"],
-    location: "Level 3 - Zone A",
-    status: "not-started",
-    progress: 0
-  }
-];
-
-// Mock Resource Allocation
-const resourceAllocation = [
-  {
-    resource: "MEP Engineer",
-    allocation: 40,
-    availability: 100,
-    currentAssignments: ["FN001", "FN004"],
-    skillLevel: "Senior"
-  },
-  {
-    resource: "Electrician Lead", 
-    allocation: 85,
-    availability: 90,
-    currentAssignments: ["FN001", "FN002"],
-    skillLevel: "Lead"
-  },
-  {
-    resource: "Plumber Lead",
-    allocation: 70,
-    availability: 100, 
-    currentAssignments: ["FN001"],
-    skillLevel: "Lead"
-  },
-  {
-    resource: "HVAC Tech Lead",
-    allocation: 55,
-    availability: 80,
-    currentAssignments: ["FN001", "FN003"],
-    skillLevel: "Senior"
-  }
-];
-
-// Mock Look Ahead Metrics
-const lookAheadMetrics = [
-  { metric: "Active Frag Nets", value: 5, change: "+2", trend: "up" },
-  { metric: "Planned Activities", value: 47, change: "+8", trend: "up" },
-  { metric: "Resource Utilization", value: "78%", change: "+5%", trend: "up" },
-  { metric: "On Schedule", value: "82%", change: "-3%", trend: "down" }
-];
+// Create form state; fragnet activities are entered one per line as "Name, days"
+interface FragNetForm {
+  name: string;
+  description: string;
+  predecessorActivityId: string;
+  successorActivityId: string;
+  location: string;
+  crew: string;
+  priority: FragNet["priority"];
+  activities: string;
+}
+
+const emptyForm: FragNetForm = {
+  name: "",
+  description: "",
+  predecessorActivityId: "",
+  successorActivityId: "",
+  location: "",
+  crew: "",
+  priority: "medium",
+  activities: "",
+};
+
+/**
+ * Parses "Name, days[, resource; resource]" lines into a finish-to-start chain.
+ */
+const parseFragNetActivities = (id: string, text: string): FragNetActivity[] =>
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line, index) => {
+      const [name, days, resources] = line.split(",").map((part) => part.trim());
+      return {
+        id: `${id}-A${String(index + 1).padStart(2, "0")}`,
+        name,
+        duration: Math.max(0, parseInt(days) || 1),
+        predecessors: index > 0 ? [`${id}-A${String(index).padStart(2, "0")}`] : [],
+        resources: resources ? resources.split(";").map((r) => r.trim()).filter(Boolean) : [],
+      };
+    });
 
 export default function LookAhead({ userRole, projectData }: LookAheadProps) {
-  const [selectedFragNet, setSelectedFragNet] = useState(fragNets[0]);
+  const { projectId } = useProjectContext();
+  const activities = useMemo(() => getProjectActivities(projectId), [projectId]);
+  const currentProjectId = activities[0]?.project_id ?? 0;
+  const projectName = projectsData.find((p) => p.project_id === currentProjectId)?.name ?? `Project ${currentProjectId}`;
+  const dataDate = useMemo(() => getDataDate(activities), [activities]);
+
+  const [windowWeeks, setWindowWeeks] = useState<LookAheadWeeks>(3);
+  const [asOfDate, setAsOfDate] = useState("");
+  const [selectedFragNetId, setSelectedFragNetId] = useState<string | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [form, setForm] = useState<FragNetForm>(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
 
+  const { fragnets, saveFragNet, deleteFragNet } = useFragNets(currentProjectId);
+
+  const plan = useMemo(
+    () => buildLookAhead(activities, windowWeeks, asOfDate || dataDate),
+    [activities, windowWeeks, asOfDate, dataDate],
+  );
+
+  const scheduledFragNets = useMemo(
+    () =>
+      fragnets.flatMap((fragnet): ScheduledFragNet[] => {
+        try {
+          return [scheduleFragNet(fragnet, activities, plan.data_date)];
+        } catch {
+          return [];
+        }
+      }),
+    [fragnets, activities, plan.data_date],
+  );
+
+  const fragNetStatus = (scheduled: ScheduledFragNet) => {
+    if (scheduled.end_date < plan.data_date) return "completed";
+    if (scheduled.start_date <= plan.window_end) return "active";
+    return "planning";
+  };
+
+  const selectedFragNet =
+    scheduledFragNets.find((f) => f.fragnet.id === selectedFragNetId) ?? scheduledFragNets[0] ?? null;
+
+  const lookAheadMetrics = [
+    { metric: "Look-Ahead Activities", value: plan.activities.length, detail: `${plan.window_start} – ${plan.window_end}` },
+    {
+      metric: "Critical Activities",
+      value: plan.activities.filter((a) => a.is_critical).length,
+      detail: "Zero or negative calculated float",
+    },
+    {
+      metric: "Starting In Window",
+      value: plan.activities.filter((a) => a.starts_in_window).length,
+      detail: `${plan.activities.filter((a) => a.status === "In Progress").length} already in progress`,
+    },
+    {
+      metric: "Active Frag Nets",
+      value: scheduledFragNets.filter((f) => fragNetStatus(f) === "active").length,
+      detail: `${scheduledFragNets.filter((f) => f.successor_impact > 0).length} impacting successors`,
+    },
+  ];
+
+  const weeklyLoad = plan.weeks.map((week) => {
+    const weekActivities = plan.activities.filter((a) => week.activity_ids.includes(a.activity_id));
+    return {
+      week: format(parseISO(week.week_start), "MMM d"),
+      critical: weekActivities.filter((a) => a.is_critical).length,
+      other: weekActivities.filter((a) => !a.is_critical).length,
+      fragnet: scheduledFragNets.reduce(
+        (sum, f) =>
+          sum + f.activities.filter((a) => a.start_date <= week.week_end && a.end_date >= week.week_start).length,
+        0,
+      ),
+    };
+  });
+
+  const handleCreate = () => {
+    const id = `FN${Date.now().toString(36).toUpperCase()}`;
+    const fragnetActivities = parseFragNetActivities(id, form.activities);
+    if (!form.name.trim()) return setFormError("Enter a frag net name");
+    if (!form.predecessorActivityId) return setFormError("Select the activity this frag net follows");
+    if (fragnetActivities.length === 0) return setFormError("Add at least one activity");
+
+    saveFragNet({
+      id,
+      project_id: currentProjectId,
+      name: form.name.trim(),
+      description: form.description.trim(),
+      predecessor_activity_id: form.predecessorActivityId,
+      successor_activity_id: form.successorActivityId || undefined,
+      location: form.location.trim(),
+      crew: form.crew.trim(),
+      priority: form.priority,
+      activities: fragnetActivities,
+      created_at: new Date().toISOString(),
+    });
+    setSelectedFragNetId(id);
+    setForm(emptyForm);
+    setFormError(null);
+    setShowCreateModal(false);
+  };
+
+  const handleClone = (fragnet: FragNet) => {
+    const id = `FN${Date.now().toString(36).toUpperCase()}`;
+    saveFragNet({
+      ...fragnet,
+      id,
+      name: `${fragnet.name} (Copy)`,
+      activities: fragnet.activities.map((a) => ({
+        ...a,
+        id: a.id.replace(fragnet.id, id),
+        predecessors: a.predecessors.map((p) => p.replace(fragnet.id, id)),
+      })),
+      created_at: new Date().toISOString(),
+    });
+    setSelectedFragNetId(id);
+  };
+
+  const handleExport = () => {
+    const doc = createLookAheadPdf(plan, scheduledFragNets, projectName);
+    doc.save(`${projectName.replace(/[^a-z0-9]+/gi, "-")}-${windowWeeks}-week-look-ahead-${plan.window_start}.pdf`);
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "completed": return "text-green-600 dark:text-green-400 bg-green-100 dark:bg-green-900/30";
@@ -214,31 +246,61 @@ export default function LookAhead({ userRole, projectData }: LookAheadProps) {
     }
   };
 
-  const getTrendIcon = (trend: string) => {
-    return trend === "up" ? 
-      <TrendingUp className="h-3 w-3 text-green-500" /> : 
-      <TrendingUp className="h-3 w-3 text-red-500 rotate-180" />;
-  };
-
-  const filteredFragNets = fragNets.filter(fragNet => {
-    const matchesSearch = fragNet.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         fragNet.summary.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter === "all" || fragNet.status === statusFilter;
+  const filteredFragNets = scheduledFragNets.filter((scheduled) => {
+    const matchesSearch = scheduled.fragnet.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         scheduled.fragnet.description.toLowerCase().includes(searchTerm.toLowerCase());
+    const matchesStatus = statusFilter === "all" || fragNetStatus(scheduled) === statusFilter;
     return matchesSearch && matchesStatus;
   });
 
   const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString();
+    return parseISO(dateString).toLocaleDateString();
   };
 
-  const calculateDuration = (startDate: string, endDate: string) => {
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    return Math.ceil((end.getTime() - start.getTime()) / (1000 * 3600 * 24));
-  };
+  const activityName = (id: string) => activities.find((a) => a.activity_id === id)?.activity_name ?? id;
 
   return (
     <div className="space-y-6">
+      {/* Window Controls */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <div>
+                <Label>Look-Ahead Window</Label>
+                <Select value={String(windowWeeks)} onValueChange={(value) => setWindowWeeks(Number(value) as LookAheadWeeks)}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="2">2 Weeks</SelectItem>
+                    <SelectItem value="3">3 Weeks</SelectItem>
+                    <SelectItem value="6">6 Weeks</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="as-of-date">As Of</Label>
+                <Input
+                  id="as-of-date"
+                  type="date"
+                  className="w-44"
+                  value={asOfDate || dataDate}
+                  onChange={(e) => setAsOfDate(e.target.value)}
+                />
+              </div>
+              <div className="text-sm text-muted-foreground pb-2">
+                {projectName} · Data date {formatDate(dataDate)}
+              </div>
+            </div>
+            <Button variant="outline" onClick={handleExport} data-tour="lookahead-controls">
+              <Download className="h-4 w-4 mr-2" />
+              Export PDF
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Header Metrics */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         {lookAheadMetrics.map((metric, index) => (
@@ -248,12 +310,7 @@ export default function LookAhead({ userRole, projectData }: LookAheadProps) {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">{metric.value}</div>
-              <div className="flex items-center gap-1 text-xs">
-                {getTrendIcon(metric.trend)}
-                <span className={metric.trend === "up" ? "text-green-600" : "text-red-600"}>
-                  {metric.change}
-                </span>
-              </div>
+              <div className="text-xs text-muted-foreground">{metric.detail}</div>
             </CardContent>
           </Card>
         ))}
@@ -280,46 +337,100 @@ export default function LookAhead({ userRole, projectData }: LookAheadProps) {
                   <DialogHeader>
                     <DialogTitle>Create New Frag Net</DialogTitle>
                     <DialogDescription>
-                      Create a detailed fragment network schedule for focused execution tracking
+                      Detail a piece of work and tie it into the project schedule
                     </DialogDescription>
                   </DialogHeader>
                   <div className="space-y-4">
                     <div>
                       <Label htmlFor="fragnet-name">Frag Net Name</Label>
-                      <Input id="fragnet-name" placeholder="Enter frag net name" />
+                      <Input
+                        id="fragnet-name"
+                        placeholder="Enter frag net name"
+                        value={form.name}
+                        onChange={(e) => setForm({ ...form, name: e.target.value })}
+                      />
                     </div>
-                    <div>
-                      <Label htmlFor="parent-activity">Parent Activity</Label>
-                      <Select>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select parent activity" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="mep-roughin">MEP Rough-in</SelectItem>
-                          <SelectItem value="structural">Structural Work</SelectItem>
-                          <SelectItem value="finishes">Interior Finishes</SelectItem>
-                        </SelectContent>
-                      </Select>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label>Follows Activity</Label>
+                        <Select value={form.predecessorActivityId} onValueChange={(value) => setForm({ ...form, predecessorActivityId: value })}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select predecessor" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {activities.map((a) => (
+                              <SelectItem key={a.activity_id} value={a.activity_id}>
+                                {a.activity_id} – {a.activity_name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div>
+                        <Label>Precedes Activity</Label>
+                        <Select value={form.successorActivityId || "none"} onValueChange={(value) => setForm({ ...form, successorActivityId: value === "none" ? "" : value })}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Optional successor" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">No successor tie</SelectItem>
+                            {activities.map((a) => (
+                              <SelectItem key={a.activity_id} value={a.activity_id}>
+                                {a.activity_id} – {a.activity_name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
                     </div>
                     <div>
                       <Label htmlFor="description">Description</Label>
-                      <Textarea id="description" placeholder="Describe the scope of work" />
+                      <Textarea
+                        id="description"
+                        placeholder="Describe the scope of work"
+                        value={form.description}
+                        onChange={(e) => setForm({ ...form, description: e.target.value })}
+                      />
                     </div>
-                    <div className="grid grid-cols-2 gap-4">
+                    <div className="grid grid-cols-3 gap-4">
                       <div>
-                        <Label htmlFor="start-date">Start Date</Label>
-                        <Input id="start-date" type="date" />
+                        <Label htmlFor="fragnet-location">Location</Label>
+                        <Input id="fragnet-location" value={form.location} onChange={(e) => setForm({ ...form, location: e.target.value })} />
                       </div>
                       <div>
-                        <Label htmlFor="end-date">End Date</Label>
-                        <Input id="end-date" type="date" />
+                        <Label htmlFor="fragnet-crew">Crew</Label>
+                        <Input id="fragnet-crew" value={form.crew} onChange={(e) => setForm({ ...form, crew: e.target.value })} />
                       </div>
+                      <div>
+                        <Label>Priority</Label>
+                        <Select value={form.priority} onValueChange={(value) => setForm({ ...form, priority: value as FragNet["priority"] })}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="high">High</SelectItem>
+                            <SelectItem value="medium">Medium</SelectItem>
+                            <SelectItem value="low">Low</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    <div>
+                      <Label htmlFor="fragnet-activities">Activities</Label>
+                      <Textarea
+                        id="fragnet-activities"
+                        rows={4}
+                        placeholder={"One per line, in sequence: Name, days, resource; resource\nLayout review, 2, MEP Engineer"}
+                        value={form.activities}
+                        onChange={(e) => setForm({ ...form, activities: e.target.value })}
+                      />
                     </div>
+                    {formError && <p className="text-sm text-red-600">{formError}</p>}
                     <div className="flex justify-end gap-2">
                       <Button variant="outline" onClick={() => setShowCreateModal(false)}>
                         Cancel
                       </Button>
-                      <Button onClick={() => setShowCreateModal(false)}>
+                      <Button onClick={handleCreate}>
                         Create Frag Net
                       </Button>
                     </div>
@@ -358,189 +469,232 @@ export default function LookAhead({ userRole, projectData }: LookAheadProps) {
 
             {/* Frag Net List */}
             <div className="space-y-3">
-              {filteredFragNets.map((fragNet) => (
+              {filteredFragNets.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-6">
+                  No frag nets yet. Create one to detail upcoming work.
+                </p>
+              )}
+              {filteredFragNets.map((scheduled) => (
                 <div 
-                  key={fragNet.id}
+                  key={scheduled.fragnet.id}
                   className={`p-3 border rounded-lg cursor-pointer transition-colors ${
-                    selectedFragNet.id === fragNet.id ? 'border-blue-500 bg-blue-50 dark:bg-blue-950/30' : 'hover:bg-muted/50'
+                    selectedFragNet?.fragnet.id === scheduled.fragnet.id ? 'border-blue-500 bg-blue-50 dark:bg-blue-950/30' : 'hover:bg-muted/50'
                   }`}
-                  onClick={() => setSelectedFragNet(fragNet)}
+                  onClick={() => setSelectedFragNetId(scheduled.fragnet.id)}
                 >
                   <div className="flex items-center justify-between mb-2">
-                    <h4 className="font-medium text-sm">{fragNet.name}</h4>
-                    <Badge className={getStatusColor(fragNet.status)}>
-                      {fragNet.status}
+                    <h4 className="font-medium text-sm">{scheduled.fragnet.name}</h4>
+                    <Badge className={getStatusColor(fragNetStatus(scheduled))}>
+                      {fragNetStatus(scheduled)}
                     </Badge>
                   </div>
-                  <p className="text-xs text-muted-foreground mb-2">{fragNet.summary}</p>
+                  <p className="text-xs text-muted-foreground mb-2">
+                    After {activityName(scheduled.fragnet.predecessor_activity_id)}
+                  </p>
                   <div className="flex items-center justify-between text-xs">
-                    <Badge className={getPriorityColor(fragNet.priority)}>
-                      {fragNet.priority}
+                    <Badge className={getPriorityColor(scheduled.fragnet.priority)}>
+                      {scheduled.fragnet.priority}
                     </Badge>
-                    <span className="text-muted-foreground">{fragNet.progress}%</span>
+                    <span className="text-muted-foreground">
+                      {formatDate(scheduled.start_date)} – {formatDate(scheduled.end_date)}
+                    </span>
                   </div>
-                  <Progress value={fragNet.progress} className="h-1 mt-2" />
+                  {scheduled.successor_impact > 0 && (
+                    <div className="flex items-center gap-1 text-xs text-red-600 mt-2">
+                      <AlertTriangle className="h-3 w-3" />
+                      Delays successor by {scheduled.successor_impact} days
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
           </CardContent>
         </Card>
 
-        {/* Frag Net Details */}
+        {/* Look-Ahead Details */}
         <Card className="lg:col-span-2">
           <CardHeader>
-            <div className="flex items-center justify-between">
-              <div>
-                <CardTitle className="flex items-center gap-2">
-                  <Target className="h-5 w-5 text-green-600" />
-                  {selectedFragNet.name}
-                </CardTitle>
-                <CardDescription>{selectedFragNet.summary}</CardDescription>
-              </div>
-              <div className="flex gap-2" data-tour="lookahead-controls">
-                <Button variant="outline" size="sm">
-                  <Edit className="h-4 w-4 mr-2" />
-                  Edit
-                </Button>
-                <Button variant="outline" size="sm">
-                  <Copy className="h-4 w-4 mr-2" />
-                  Clone
-                </Button>
-                <Button variant="outline" size="sm">
-                  <Download className="h-4 w-4 mr-2" />
-                  Export
-                </Button>
-              </div>
-            </div>
+            <CardTitle className="flex items-center gap-2">
+              <Target className="h-5 w-5 text-green-600" />
+              {windowWeeks}-Week Look-Ahead
+            </CardTitle>
+            <CardDescription>
+              Open activities from the project schedule, {formatDate(plan.window_start)} to {formatDate(plan.window_end)}
+            </CardDescription>
           </CardHeader>
           <CardContent>
             <Tabs defaultValue="activities" className="space-y-4">
               <TabsList className="grid w-full grid-cols-3">
                 <TabsTrigger value="activities">Activities</TabsTrigger>
-                <TabsTrigger value="resources">Resources</TabsTrigger>
+                <TabsTrigger value="fragnet">Frag Net</TabsTrigger>
                 <TabsTrigger value="timeline">Timeline</TabsTrigger>
               </TabsList>
 
               <TabsContent value="activities" className="space-y-4">
-                {/* Frag Net Info */}
-                <div className="grid grid-cols-3 gap-4 p-4 bg-muted/50 rounded-lg">
-                  <div>
-                    <div className="text-sm text-muted-foreground">Duration</div>
-                    <div className="font-medium">
-                      {calculateDuration(selectedFragNet.startDate, selectedFragNet.endDate)} days
+                {plan.weeks.map((week, index) => {
+                  const weekActivities = plan.activities.filter((a) => week.activity_ids.includes(a.activity_id));
+                  return (
+                    <div key={week.week_start} className="space-y-2">
+                      <div className="flex items-center justify-between p-2 bg-muted/50 rounded-lg text-sm">
+                        <span className="font-medium">
+                          Week {index + 1}: {formatDate(week.week_start)} – {formatDate(week.week_end)}
+                        </span>
+                        <span className="text-muted-foreground">{weekActivities.length} activities</span>
+                      </div>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Activity</TableHead>
+                            <TableHead>Dates</TableHead>
+                            <TableHead>Float</TableHead>
+                            <TableHead>Status</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {weekActivities.map((activity) => (
+                            <TableRow key={activity.activity_id}>
+                              <TableCell>
+                                <div>
+                                  <div className="font-medium">{activity.activity_name}</div>
+                                  <div className="text-xs text-muted-foreground">
+                                    {activity.activity_id} · {activity.wbs_code}
+                                  </div>
+                                </div>
+                              </TableCell>
+                              <TableCell>
+                                <div className="text-sm">
+                                  <div>{formatDate(activity.start_date)}</div>
+                                  <div className="text-muted-foreground">{formatDate(activity.end_date)}</div>
+                                </div>
+                              </TableCell>
+                              <TableCell>
+                                <span className={activity.is_critical ? "font-medium text-red-600" : ""}>
+                                  {activity.total_float_calculated} days
+                                </span>
+                              </TableCell>
+                              <TableCell>
+                                <Badge className={getStatusColor(activity.status.toLowerCase().replace(" ", "-"))}>
+                                  {activity.status}
+                                </Badge>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
                     </div>
-                  </div>
-                  <div>
-                    <div className="text-sm text-muted-foreground">Location</div>
-                    <div className="font-medium">{selectedFragNet.location}</div>
-                  </div>
-                  <div>
-                    <div className="text-sm text-muted-foreground">Crew</div>
-                    <div className="font-medium">{selectedFragNet.crew}</div>
-                  </div>
-                </div>
-
-                {/* Activities Table */}
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead>Activity</TableHead>
-                      <TableHead>Duration</TableHead>
-                      <TableHead>Dates</TableHead>
-                      <TableHead>Resources</TableHead>
-                      <TableHead>Status</TableHead>
-                      <TableHead>Progress</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {fragNetActivities.map((activity) => (
-                      <TableRow key={activity.id}>
-                        <TableCell>
-                          <div>
-                            <div className="font-medium">{activity.name}</div>
-                            <div className="text-xs text-muted-foreground">{activity.id}</div>
-                          </div>
-                        </TableCell>
-                        <TableCell>{activity.duration} days</TableCell>
-                        <TableCell>
-                          <div className="text-sm">
-                            <div>{formatDate(activity.startDate)}</div>
-                            <div className="text-muted-foreground">{formatDate(activity.endDate)}</div>
-                          </div>
-                        </TableCell>
-                        <TableCell>
-                          <div className="space-y-1">
-                            {activity.resources.map((resource, index) => (
-                              <Badge key={index} variant="outline" className="text-xs">
-                                {resource}
-                              </Badge>
-                            ))}
-                          </div>
-                        </TableCell>
-                        <TableCell>
-                          <Badge className={getStatusColor(activity.status)}>
-                            {activity.status.replace('-', ' ')}
-                          </Badge>
-                        </TableCell>
-                        <TableCell>
-                          <div className="flex items-center gap-2">
-                            <Progress value={activity.progress} className="w-16 h-2" />
-                            <span className="text-sm">{activity.progress}%</span>
-                          </div>
-                        </TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
+                  );
+                })}
               </TabsContent>
 
-              <TabsContent value="resources" className="space-y-4">
-                <div className="space-y-4">
-                  {resourceAllocation.map((resource, index) => (
-                    <div key={index} className="border rounded-lg p-4">
-                      <div className="flex items-center justify-between mb-3">
-                        <div>
-                          <h4 className="font-medium">{resource.resource}</h4>
-                          <p className="text-sm text-muted-foreground">{resource.skillLevel}</p>
-                        </div>
-                        <Badge variant="outline">
-                          {resource.allocation}% allocated
-                        </Badge>
+              <TabsContent value="fragnet" className="space-y-4">
+                {selectedFragNet ? (
+                  <>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <h4 className="font-medium">{selectedFragNet.fragnet.name}</h4>
+                        <p className="text-sm text-muted-foreground">{selectedFragNet.fragnet.description}</p>
                       </div>
-                      
-                      <div className="grid grid-cols-2 gap-4 mb-3">
-                        <div className="space-y-1">
-                          <div className="text-xs text-muted-foreground">Current Allocation</div>
-                          <Progress value={resource.allocation} className="h-2" />
-                        </div>
-                        <div className="space-y-1">
-                          <div className="text-xs text-muted-foreground">Availability</div>
-                          <Progress value={resource.availability} className="h-2" />
-                        </div>
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="sm" onClick={() => handleClone(selectedFragNet.fragnet)}>
+                          <Copy className="h-4 w-4 mr-2" />
+                          Clone
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            deleteFragNet(selectedFragNet.fragnet.id);
+                            setSelectedFragNetId(null);
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Delete
+                        </Button>
                       </div>
-                      
+                    </div>
+
+                    {/* Frag Net Info */}
+                    <div className="grid grid-cols-3 gap-4 p-4 bg-muted/50 rounded-lg">
                       <div>
-                        <div className="text-xs text-muted-foreground mb-1">Current Assignments</div>
-                        <div className="flex gap-1">
-                          {resource.currentAssignments.map((assignment, i) => (
-                            <Badge key={i} variant="secondary" className="text-xs">
-                              {assignment}
-                            </Badge>
-                          ))}
+                        <div className="text-sm text-muted-foreground">Tie-In</div>
+                        <div className="font-medium text-sm">
+                          {selectedFragNet.fragnet.predecessor_activity_id}
+                          {selectedFragNet.fragnet.successor_activity_id && ` → ${selectedFragNet.fragnet.successor_activity_id}`}
                         </div>
                       </div>
+                      <div>
+                        <div className="text-sm text-muted-foreground">Location</div>
+                        <div className="font-medium">{selectedFragNet.fragnet.location || "—"}</div>
+                      </div>
+                      <div>
+                        <div className="text-sm text-muted-foreground">Crew</div>
+                        <div className="font-medium">{selectedFragNet.fragnet.crew || "—"}</div>
+                      </div>
                     </div>
-                  ))}
-                </div>
+
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Activity</TableHead>
+                          <TableHead>Duration</TableHead>
+                          <TableHead>Dates</TableHead>
+                          <TableHead>Resources</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {selectedFragNet.activities.map((activity) => (
+                          <TableRow key={activity.id}>
+                            <TableCell>
+                              <div>
+                                <div className="font-medium">{activity.name}</div>
+                                <div className="text-xs text-muted-foreground">{activity.id}</div>
+                              </div>
+                            </TableCell>
+                            <TableCell>{activity.duration} days</TableCell>
+                            <TableCell>
+                              <div className="text-sm">
+                                <div>{formatDate(activity.start_date)}</div>
+                                <div className="text-muted-foreground">{formatDate(activity.end_date)}</div>
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <div className="space-y-1">
+                                {activity.resources.map((resource, index) => (
+                                  <Badge key={index} variant="outline" className="text-xs">
+                                    {resource}
+                                  </Badge>
+                                ))}
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </>
+                ) : (
+                  <div className="h-48 bg-muted/20 rounded-lg flex items-center justify-center">
+                    <div className="text-center">
+                      <Calendar className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+                      <p className="text-muted-foreground">No frag net selected</p>
+                    </div>
+                  </div>
+                )}
               </TabsContent>
 
               <TabsContent value="timeline" className="space-y-4">
-                <div className="h-64 bg-muted/20 rounded-lg flex items-center justify-center">
-                  <div className="text-center">
-                    <Calendar className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
-                    <p className="text-muted-foreground">Interactive Gantt Chart</p>
-                    <p className="text-sm text-muted-foreground">Timeline visualization would be rendered here</p>
-                  </div>
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={weeklyLoad}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="week" />
+                      <YAxis allowDecimals={false} />
+                      <Tooltip />
+                      <Legend />
+                      <Bar dataKey="critical" name="Critical" stackId="a" fill="#dc2626" />
+                      <Bar dataKey="other" name="Non-Critical" stackId="a" fill="#2563eb" />
+                      <Bar dataKey="fragnet" name="Frag Net" fill="#16a34a" />
+                    </BarChart>
+                  </ResponsiveContainer>
                 </div>
                 
                 {/* Timeline Summary */}
@@ -552,16 +706,20 @@ export default function LookAhead({ userRole, projectData }: LookAheadProps) {
                     <CardContent>
                       <div className="space-y-2 text-sm">
                         <div className="flex justify-between">
-                          <span>Duration:</span>
-                          <span className="font-medium">15 days</span>
+                          <span>Activities:</span>
+                          <span className="font-medium">{plan.activities.filter((a) => a.is_critical).length}</span>
                         </div>
                         <div className="flex justify-between">
-                          <span>Activities:</span>
-                          <span className="font-medium">4</span>
+                          <span>Negative Float:</span>
+                          <span className="font-medium text-red-600">
+                            {plan.activities.filter((a) => a.total_float_calculated < 0).length}
+                          </span>
                         </div>
                         <div className="flex justify-between">
-                          <span>Float:</span>
-                          <span className="font-medium text-red-600">0 days</span>
+                          <span>Finishing In Window:</span>
+                          <span className="font-medium">
+                            {plan.activities.filter((a) => a.is_critical && a.finishes_in_window).length}
+                          </span>
                         </div>
                       </div>
                     </CardContent>
@@ -573,17 +731,27 @@ export default function LookAhead({ userRole, projectData }: LookAheadProps) {
                     </CardHeader>
                     <CardContent>
                       <div className="space-y-2 text-sm">
-                        <div className="flex justify-between">
-                          <span>Completed:</span>
-                          <span className="font-medium text-green-600">2 activities</span>
-                        </div>
                         <div className="flex justify-between">
                           <span>In Progress:</span>
-                          <span className="font-medium text-blue-600">2 activities</span>
+                          <span className="font-medium text-blue-600">
+                            {plan.activities.filter((a) => a.status === "In Progress").length} activities
+                          </span>
                         </div>
                         <div className="flex justify-between">
                           <span>Not Started:</span>
-                          <span className="font-medium text-gray-600">0 activities</span>
+                          <span className="font-medium text-gray-600">
+                            {plan.activities.filter((a) => a.status === "Not Started").length} activities
+                          </span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span>Frag Net Activities:</span>
+                          <span className="font-medium text-green-600">
+                            {scheduledFragNets.reduce(
+                              (sum, f) =>
+                                sum + f.activities.filter((a) => a.start_date <= plan.window_end && a.end_date >= plan.window_start).length,
+                              0,
+                            )} in window
+                          </span>
                         </div>
                       </div>
                     </CardContent>
@@ -596,4 +764,4 @@ export default function LookAhead({ userRole, projectData }: LookAheadProps) {
       </div>
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -0,0 +1,338 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  AlertTriangle,
+  BarChart3,
+  Dice5,
+  RefreshCw,
+  Target,
+  TrendingUp,
+} from "lucide-react";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  BarChart,
+  Bar,
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+  Cell,
+} from "recharts";
+import { useProjectContext } from "@/context/project-context";
+import { getProjectActivities } from "@/lib/scheduler/critical-path";
+import { buildProjectRisks, defaultRiskOptions, simulateScheduleRisk } from "@/lib/scheduler/schedule-risk";
+
+interface RiskAnalysisProps {
+  userRole: string;
+  projectData: any;
+}
+
+// Three-point ranges as multipliers on each activity's planned duration
+const uncertaintyRanges = {
+  low: { label: "Low (95% – 115%)", optimistic: 0.95, pessimistic: 1.15 },
+  medium: { label: "Medium (90% – 130%)", optimistic: 0.9, pessimistic: 1.3 },
+  high: { label: "High (80% – 150%)", optimistic: 0.8, pessimistic: 1.5 },
+};
+
+export default function RiskAnalysis({ userRole, projectData }: RiskAnalysisProps) {
+  const { projectId } = useProjectContext();
+  const [iterations, setIterations] = useState(defaultRiskOptions.iterations);
+  const [uncertainty, setUncertainty] = useState<keyof typeof uncertaintyRanges>("medium");
+  const [excludedRisks, setExcludedRisks] = useState<string[]>([]);
+  const [seed, setSeed] = useState(defaultRiskOptions.seed);
+
+  const activities = useMemo(() => getProjectActivities(projectId), [projectId]);
+  const risks = useMemo(() => buildProjectRisks(activities), [activities]);
+
+  const result = useMemo(
+    () =>
+      simulateScheduleRisk(
+        activities,
+        risks.filter((r) => !excludedRisks.includes(r.risk_id)),
+        {
+          iterations,
+          seed,
+          optimistic_factor: uncertaintyRanges[uncertainty].optimistic,
+          pessimistic_factor: uncertaintyRanges[uncertainty].pessimistic,
+        },
+      ),
+    [activities, risks, excludedRisks, iterations, uncertainty, seed]
+  );
+
+  const toggleRisk = (riskId: string, included: boolean) => {
+    setExcludedRisks((current) => (included ? current.filter((id) => id !== riskId) : [...current, riskId]));
+  };
+
+  const getLevelColor = (level: string) => {
+    switch (level) {
+      case "High": return "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300";
+      case "Medium": return "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300";
+      default: return "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300";
+    }
+  };
+
+  if (!result) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">
+          No schedule activities are available for the selected project.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const tornadoData = result.drivers.map((d) => ({
+    name: d.activity_name,
+    id: d.activity_id,
+    sensitivity: Math.round(d.correlation * 100),
+  }));
+
+  const percentiles = [
+    { label: "Deterministic", date: result.deterministic_finish, note: "CPM finish" },
+    { label: "P50", date: result.p50, note: "Even odds" },
+    { label: "P80", date: result.p80, note: "Recommended commitment" },
+    { label: "P90", date: result.p90, note: "Conservative" },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Simulation Summary */}
+      <Card className="bg-gradient-to-br from-purple-50 to-indigo-50 dark:from-purple-950/30 dark:to-indigo-950/30">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Dice5 className="h-5 w-5 text-purple-600" />
+                Schedule Risk Simulation
+              </CardTitle>
+              <CardDescription>
+                {result.iterations.toLocaleString()} Monte Carlo iterations over the CPM network with three-point
+                durations and risk events
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setSeed((s) => s + 1)}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Re-run
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 grid-cols-2 md:grid-cols-5">
+            {percentiles.map((p) => (
+              <div key={p.label} className="p-3 bg-white/60 dark:bg-black/60 rounded-lg">
+                <div className="text-sm text-muted-foreground">{p.label}</div>
+                <div className="text-lg font-bold">{p.date}</div>
+                <div className="text-xs text-muted-foreground">{p.note}</div>
+              </div>
+            ))}
+            <div className="p-3 bg-white/60 dark:bg-black/60 rounded-lg">
+              <div className="text-sm text-muted-foreground">On-Time Probability</div>
+              <div className={`text-lg font-bold ${result.on_time_probability < 50 ? "text-red-600" : "text-green-600"}`}>
+                {result.on_time_probability}%
+              </div>
+              <div className="text-xs text-muted-foreground">Finish by deterministic date</div>
+            </div>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-3 mt-6 pt-6 border-t">
+            <div>
+              <Label>Iterations</Label>
+              <Select value={String(iterations)} onValueChange={(value) => setIterations(Number(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="500">500</SelectItem>
+                  <SelectItem value="1000">1,000</SelectItem>
+                  <SelectItem value="5000">5,000</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Duration Uncertainty</Label>
+              <Select value={uncertainty} onValueChange={(value) => setUncertainty(value as keyof typeof uncertaintyRanges)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(uncertaintyRanges).map(([key, range]) => (
+                    <SelectItem key={key} value={key}>{range.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <div className="text-sm text-muted-foreground">Simulated Range</div>
+              <div className="text-lg font-bold">
+                {result.earliest_finish} – {result.latest_finish}
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        {/* Completion Histogram */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BarChart3 className="h-5 w-5 text-blue-600" />
+              Completion Date Distribution
+            </CardTitle>
+            <CardDescription>Iterations finishing in each period, with cumulative probability</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={result.histogram}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="finish" tick={{ fontSize: 11 }} />
+                  <YAxis yAxisId="count" allowDecimals={false} />
+                  <YAxis yAxisId="cumulative" orientation="right" domain={[0, 100]} unit="%" />
+                  <Tooltip />
+                  <Bar yAxisId="count" dataKey="count" name="Iterations" fill="#8b5cf6" />
+                  <Line yAxisId="cumulative" dataKey="cumulative" name="Cumulative %" stroke="#f59e0b" strokeWidth={2} dot={false} />
+                  <ReferenceLine yAxisId="cumulative" y={80} stroke="#ef4444" strokeDasharray="4 4" label="P80" />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Tornado */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <TrendingUp className="h-5 w-5 text-red-600" />
+              Risk Drivers
+            </CardTitle>
+            <CardDescription>Correlation of each activity's sampled duration with the project finish</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={tornadoData} layout="vertical" margin={{ left: 40 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis type="number" domain={[-100, 100]} unit="%" />
+                  <YAxis type="category" dataKey="id" width={70} tick={{ fontSize: 11 }} />
+                  <Tooltip formatter={(value) => [`${value}%`, "Sensitivity"]} labelFormatter={(id) => tornadoData.find((d) => d.id === id)?.name ?? id} />
+                  <ReferenceLine x={0} stroke="#64748b" />
+                  <Bar dataKey="sensitivity">
+                    {tornadoData.map((entry) => (
+                      <Cell key={entry.id} fill={entry.sensitivity >= 0 ? "#ef4444" : "#22c55e"} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Risk Register */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-yellow-600" />
+            Risk Events
+          </CardTitle>
+          <CardDescription>Events sampled in the simulation; clear a risk to see the schedule without it</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Include</TableHead>
+                <TableHead>Risk</TableHead>
+                <TableHead>Probability</TableHead>
+                <TableHead>Impact</TableHead>
+                <TableHead>Activities</TableHead>
+                <TableHead>Occurred</TableHead>
+                <TableHead>Finish Impact</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {risks.map((risk) => {
+                const simulated = result.risk_events.find((e) => e.risk_id === risk.risk_id);
+                return (
+                  <TableRow key={risk.risk_id}>
+                    <TableCell>
+                      <Checkbox
+                        checked={!excludedRisks.includes(risk.risk_id)}
+                        onCheckedChange={(checked) => toggleRisk(risk.risk_id, checked as boolean)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{risk.description}</div>
+                      <div className="text-xs text-muted-foreground">{risk.risk_id} · {risk.mitigation}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={getLevelColor(risk.probability)}>{risk.probability}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={getLevelColor(risk.impact)}>{risk.impact}</Badge>
+                    </TableCell>
+                    <TableCell>{risk.affected_tasks.length}</TableCell>
+                    <TableCell>{simulated ? `${simulated.occurrence_rate}%` : "—"}</TableCell>
+                    <TableCell className={simulated && simulated.finish_impact_days > 0 ? "text-red-600 font-medium" : ""}>
+                      {simulated ? `${simulated.finish_impact_days} days` : "—"}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Driver Detail */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Target className="h-5 w-5 text-green-600" />
+            Driving Activities
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Activity</TableHead>
+                <TableHead>Planned Duration</TableHead>
+                <TableHead>Mean Simulated</TableHead>
+                <TableHead>Sensitivity</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.drivers.map((driver) => (
+                <TableRow key={driver.activity_id}>
+                  <TableCell>
+                    <div className="font-medium">{driver.activity_name}</div>
+                    <div className="text-xs text-muted-foreground">{driver.activity_id}</div>
+                  </TableCell>
+                  <TableCell>{driver.base_duration} days</TableCell>
+                  <TableCell>{driver.mean_duration} days</TableCell>
+                  <TableCell>
+                    {Math.round(driver.correlation * 100)}%
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
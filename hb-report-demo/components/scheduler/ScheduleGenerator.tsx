@@ -51,6 +51,9 @@ import {
   Pie,
   Cell,
 } from "recharts";
+import type { GeneratedSchedule, ProjectGenerationForm } from "@/types/scheduler";
+import { generateSchedule } from "@/lib/scheduler/schedule-generator";
+import { usePermissions } from "@/hooks/use-permissions";
 
 interface ScheduleGeneratorProps {
   userRole: string;
@@ -85,85 +88,15 @@ interface GenerationOptions {
   detailLevel: string;
 }
 
-// Mock AI Generation Progress
-const generationSteps = [
-  { step: "Analyzing project requirements", status: "completed", duration: "2s" },
-  { step: "Applying historical data patterns", status: "completed", duration: "5s" },
-  { step: "Generating activity breakdown", status: "completed", duration: "8s" },
-  { step: "Optimizing logic relationships", status: "in-progress", duration: "12s" },
-  { step: "Resource allocation optimization", status: "pending", duration: "6s" },
-  { step: "Risk analysis integration", status: "pending", duration: "4s" },
-  { step: "Final schedule validation", status: "pending", duration: "3s" },
-];
+// Calendar inputs, entered as comma-separated lists
+interface CalendarInputs {
+  nonWorkingDays: string;
+  weatherRestrictions: string;
+}
 
-// Mock Generated Schedule Preview
-const generatedActivities = [
-  {
-    id: "GEN001",
-    name: "Site Preparation & Mobilization",
-    duration: 5,
-    type: "Mobilization",
-    resources: ["Site Supervisor", "Equipment Operator"],
-    cost: 15000,
-    criticalPath: true,
-    confidence: 95
-  },
-  {
-    id: "GEN002", 
-    name: "Foundation Excavation",
-    duration: 8,
-    type: "Earthwork",
-    resources: ["Excavator", "Survey Crew"],
-    cost: 45000,
-    criticalPath: true,
-    confidence: 92
-  },
-  {
-    id: "GEN003",
-    name: "Foundation Pour",
-    duration: 12,
-    type: "Concrete",
-    resources: ["Concrete Crew", "Pump Operator"],
-    cost: 85000,
-    criticalPath: true,
-    confidence: 88
-  },
-  {
-    id: "GEN004",
-    name: "Structural Steel Erection", 
-    duration: 20,
-    type: "Steel",
-    resources: ["Iron Workers", "Crane Operator"],
-    cost: 125000,
-    criticalPath: true,
-    confidence: 85
-  }
-];
+const splitList = (value: string) => value.split(",").map((v) => v.trim()).filter(Boolean);
 
-// Mock AI Insights
-const aiInsights = [
-  {
-    type: "optimization",
-    title: "Duration Optimization",
-    description: "AI identified opportunity to reduce project duration by 15 days through parallel activities",
-    impact: "15 days saved",
-    confidence: 87
-  },
-  {
-    type: "risk",
-    title: "Weather Risk Mitigation",
-    description: "Recommended weather buffers added to outdoor activities based on historical data",
-    impact: "23% risk reduction",
-    confidence: 91
-  },
-  {
-    type: "cost", 
-    title: "Resource Efficiency",
-    description: "Optimized resource allocation to reduce overall project cost while maintaining timeline",
-    impact: "$47,000 savings",
-    confidence: 83
-  }
-];
+const titleCase = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
 
 // Export Format Options
 const exportFormats = [
@@ -203,32 +136,70 @@ export default function ScheduleGenerator({ userRole, projectData }: ScheduleGen
     detailLevel: "standard"
   });
 
+  const [calendarInputs, setCalendarInputs] = useState<CalendarInputs>({
+    nonWorkingDays: "",
+    weatherRestrictions: "January, February"
+  });
+  const [result, setResult] = useState<GeneratedSchedule | null>(null);
+  const [generationError, setGenerationError] = useState<string | null>(null);
+
+  const { can } = usePermissions();
+  const canGenerate = can("scheduler", "create");
+
   const handleGenerate = () => {
+    if (!canGenerate) return;
     setIsGenerating(true);
+    setGenerationProgress(0);
+    setGenerationError(null);
     setCurrentTab("generation");
-    
-    // Simulate AI generation process
-    let progress = 0;
-    const interval = setInterval(() => {
-      progress += Math.random() * 20;
-      if (progress >= 100) {
-        progress = 100;
-        clearInterval(interval);
-        setIsGenerating(false);
-        setCurrentTab("results");
-      }
-      setGenerationProgress(progress);
-    }, 1000);
-  };
 
-  const getStepIcon = (status: string) => {
-    switch (status) {
-      case "completed": return <CheckCircle className="h-4 w-4 text-green-600" />;
-      case "in-progress": return <Activity className="h-4 w-4 text-blue-600 animate-pulse" />;
-      default: return <Clock className="h-4 w-4 text-gray-400" />;
+    try {
+      if (!projectForm.startDate) throw new Error("Select a start date on the Setup tab");
+      const form: ProjectGenerationForm = {
+        name: projectForm.name || "Generated Schedule",
+        description: projectForm.description,
+        department: "Pre-Construction",
+        budget: projectForm.budget || 0,
+        start_date: projectForm.startDate,
+        duration_weeks: Math.max(1, Math.ceil((projectForm.duration || 0) / 7)),
+        project_type: titleCase(projectForm.projectType || "commercial") as ProjectGenerationForm["project_type"],
+        complexity: titleCase(projectForm.complexity || "medium") as ProjectGenerationForm["complexity"],
+        team_size: projectForm.teamSize,
+        weather_dependent: projectForm.weatherDependent,
+        critical_deadline: projectForm.criticalDeadline,
+        must_finish_by: projectForm.criticalDeadline && projectForm.mustFinishBy ? projectForm.mustFinishBy : undefined,
+      };
+      const generated = generateSchedule(
+        form,
+        {
+          optimize_for: generationOptions.optimizeFor as "time" | "cost" | "quality" | "balanced",
+          include_buffer: generationOptions.includeBuffer,
+          buffer_percentage: generationOptions.bufferPercentage,
+          consider_weather: generationOptions.considerWeather,
+          prioritize_critical_path: generationOptions.prioritizeCriticalPath,
+          resource_leveling: generationOptions.resourceLeveling,
+        },
+        {
+          non_working_days: splitList(calendarInputs.nonWorkingDays),
+          must_finish_by: form.must_finish_by ?? "",
+          weather_restrictions: splitList(calendarInputs.weatherRestrictions),
+        },
+      );
+      if (!generationOptions.includeRisks) generated.project.risks = [];
+      setResult(generated);
+      setGenerationProgress(100);
+      setCurrentTab("results");
+    } catch (error) {
+      setResult(null);
+      setGenerationError(error instanceof Error ? error.message : "Schedule generation failed");
+    } finally {
+      setIsGenerating(false);
     }
   };
 
+  const tasks = result?.project.tasks ?? [];
+  const criticalTasks = tasks.filter((t) => t.is_critical);
+
   const getInsightIcon = (type: string) => {
     switch (type) {
       case "optimization": return <TrendingUp className="h-5 w-5 text-green-600" />;
@@ -238,6 +209,29 @@ export default function ScheduleGenerator({ userRole, projectData }: ScheduleGen
     }
   };
 
+  const insights = result
+    ? [
+        {
+          type: "optimization",
+          title: "Critical Path",
+          description: `${criticalTasks.length} of ${tasks.length} tasks drive the ${result.project.start_date} – ${result.project.end_date} schedule`,
+          impact: `${result.critical_path_duration} days`,
+        },
+        {
+          type: "risk",
+          title: "Schedule Risk",
+          description: result.project.risks.length > 0 ? result.project.risks[0].mitigation : "No weather exposure on the generated schedule",
+          impact: `Risk score ${result.risk_score}`,
+        },
+        {
+          type: "cost",
+          title: "Direct Cost",
+          description: "Crew labor and equipment across all generated tasks",
+          impact: `$${result.total_cost.toLocaleString()}`,
+        },
+      ]
+    : [];
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -569,8 +563,29 @@ export default function ScheduleGenerator({ userRole, projectData }: ScheduleGen
                 </div>
               </div>
 
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="non-working-days">Non-Working Days</Label>
+                  <Input
+                    id="non-working-days"
+                    value={calendarInputs.nonWorkingDays}
+                    onChange={(e) => setCalendarInputs({...calendarInputs, nonWorkingDays: e.target.value})}
+                    placeholder="2025-07-04, 2025-12-25"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="weather-restrictions">Weather Restrictions</Label>
+                  <Input
+                    id="weather-restrictions"
+                    value={calendarInputs.weatherRestrictions}
+                    onChange={(e) => setCalendarInputs({...calendarInputs, weatherRestrictions: e.target.value})}
+                    placeholder="Months or dates, e.g. January, 2025-03-14"
+                  />
+                </div>
+              </div>
+
               <div className="flex justify-end">
-                <Button onClick={handleGenerate} className="px-8">
+                <Button onClick={handleGenerate} disabled={isGenerating || !canGenerate} className="px-8">
                   <Zap className="h-4 w-4 mr-2" />
                   Generate Schedule
                 </Button>
@@ -584,11 +599,15 @@ export default function ScheduleGenerator({ userRole, projectData }: ScheduleGen
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
-                <Activity className="h-5 w-5 text-blue-600 animate-pulse" />
-                AI Schedule Generation in Progress
+                {generationError ? (
+                  <AlertTriangle className="h-5 w-5 text-red-600" />
+                ) : (
+                  <Activity className={`h-5 w-5 text-blue-600 ${isGenerating ? "animate-pulse" : ""}`} />
+                )}
+                {generationError ? "Schedule Generation Failed" : "Schedule Generation"}
               </CardTitle>
               <CardDescription>
-                Advanced algorithms are analyzing your project and generating an optimized schedule
+                Task templates are expanded, leveled against the team and equipment, and checked for the critical path
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -602,41 +621,22 @@ export default function ScheduleGenerator({ userRole, projectData }: ScheduleGen
                   <Progress value={generationProgress} className="h-3" />
                 </div>
 
+                {generationError && (
+                  <div className="flex items-center gap-3 p-3 border border-red-200 rounded-lg text-sm text-red-700">
+                    <AlertTriangle className="h-4 w-4" />
+                    {generationError}
+                  </div>
+                )}
+
                 {/* Generation Steps */}
                 <div className="space-y-3">
-                  {generationSteps.map((step, index) => (
+                  {(result?.optimization_notes ?? []).map((note, index) => (
                     <div key={index} className="flex items-center gap-3 p-3 border rounded-lg">
-                      {getStepIcon(step.status)}
-                      <div className="flex-1">
-                        <div className="font-medium text-sm">{step.step}</div>
-                        <div className="text-xs text-muted-foreground">
-                          {step.status === "completed" ? `Completed in ${step.duration}` :
-                           step.status === "in-progress" ? "Processing..." :
-                           `Estimated ${step.duration}`}
-                        </div>
-                      </div>
-                      {step.status === "in-progress" && (
-                        <Activity className="h-4 w-4 text-blue-600 animate-pulse" />
-                      )}
+                      <CheckCircle className="h-4 w-4 text-green-600" />
+                      <div className="font-medium text-sm">{note}</div>
                     </div>
                   ))}
                 </div>
-
-                {/* Live Stats */}
-                <div className="grid grid-cols-3 gap-4 p-4 bg-muted/50 rounded-lg">
-                  <div className="text-center">
-                    <div className="text-2xl font-bold text-blue-600">1,247</div>
-                    <div className="text-sm text-muted-foreground">Training Projects</div>
-                  </div>
-                  <div className="text-center">
-                    <div className="text-2xl font-bold text-green-600">94.2%</div>
-                    <div className="text-sm text-muted-foreground">Model Accuracy</div>
-                  </div>
-                  <div className="text-center">
-                    <div className="text-2xl font-bold text-purple-600">47s</div>
-                    <div className="text-sm text-muted-foreground">Avg Generation Time</div>
-                  </div>
-                </div>
               </div>
             </CardContent>
           </Card>
@@ -646,7 +646,7 @@ export default function ScheduleGenerator({ userRole, projectData }: ScheduleGen
         <TabsContent value="results" className="space-y-6">
           {/* AI Insights */}
           <div className="grid gap-4 md:grid-cols-3">
-            {aiInsights.map((insight, index) => (
+            {insights.map((insight, index) => (
               <Card key={index}>
                 <CardHeader className="pb-3">
                   <CardTitle className="flex items-center gap-2 text-sm">
@@ -658,13 +658,33 @@ export default function ScheduleGenerator({ userRole, projectData }: ScheduleGen
                   <p className="text-sm text-muted-foreground mb-2">{insight.description}</p>
                   <div className="flex justify-between items-center">
                     <Badge variant="outline">{insight.impact}</Badge>
-                    <span className="text-xs text-muted-foreground">{insight.confidence}% confidence</span>
                   </div>
                 </CardContent>
               </Card>
             ))}
           </div>
 
+          {result && result.recommendations.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Target className="h-5 w-5 text-orange-600" />
+                  Recommendations
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-2">
+                  {result.recommendations.map((recommendation, index) => (
+                    <li key={index} className="flex items-start gap-2 text-sm">
+                      <AlertTriangle className="h-4 w-4 text-yellow-600 mt-0.5 shrink-0" />
+                      {recommendation}
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Generated Schedule Preview */}
           <Card data-tour="generator-results">
             <CardHeader>
@@ -672,7 +692,9 @@ export default function ScheduleGenerator({ userRole, projectData }: ScheduleGen
                 <div>
                   <CardTitle>Generated Schedule Preview</CardTitle>
                   <CardDescription>
-                    AI-generated schedule with {generatedActivities.length} activities
+                    {result
+                      ? `${tasks.length} activities, ${result.project.start_date} to ${result.project.end_date}`
+                      : "Generate a schedule to preview its activities"}
                   </CardDescription>
                 </div>
                 <div className="flex gap-2">
@@ -680,7 +702,7 @@ export default function ScheduleGenerator({ userRole, projectData }: ScheduleGen
                     <Eye className="h-4 w-4 mr-2" />
                     Full Schedule
                   </Button>
-                  <Button variant="outline" size="sm">
+                  <Button variant="outline" size="sm" onClick={handleGenerate} disabled={!canGenerate}>
                     <RotateCcw className="h-4 w-4 mr-2" />
                     Regenerate
                   </Button>
@@ -689,19 +711,22 @@ export default function ScheduleGenerator({ userRole, projectData }: ScheduleGen
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                {generatedActivities.map((activity, index) => (
+                {tasks.map((activity, index) => (
                   <div key={index} className="border rounded-lg p-4">
                     <div className="flex items-center justify-between mb-2">
                       <div>
                         <h4 className="font-medium">{activity.name}</h4>
-                        <p className="text-sm text-muted-foreground">ID: {activity.id}</p>
+                        <p className="text-sm text-muted-foreground">
+                          ID: {activity.task_id}
+                          {activity.dependencies.length > 0 && ` · After ${activity.dependencies.join(", ")}`}
+                        </p>
                       </div>
                       <div className="flex items-center gap-2">
-                        {activity.criticalPath && (
+                        {activity.is_critical && (
                           <Badge variant="destructive" className="text-xs">Critical</Badge>
                         )}
                         <Badge variant="outline" className="text-xs">
-                          {activity.confidence}% confidence
+                          {activity.priority} priority
                         </Badge>
                       </div>
                     </div>
@@ -712,8 +737,8 @@ export default function ScheduleGenerator({ userRole, projectData }: ScheduleGen
                         <span className="ml-2 font-medium">{activity.duration} days</span>
                       </div>
                       <div>
-                        <span className="text-muted-foreground">Type:</span>
-                        <span className="ml-2 font-medium">{activity.type}</span>
+                        <span className="text-muted-foreground">Dates:</span>
+                        <span className="ml-2 font-medium">{activity.start_date} – {activity.end_date}</span>
                       </div>
                       <div>
                         <span className="text-muted-foreground">Cost:</span>
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useMemo } from "react";
 import {
   Monitor,
   Upload,
@@ -44,121 +44,146 @@ import {
   AreaChart,
 } from "recharts";
 import { useDropzone } from 'react-dropzone';
+import { useProjectContext } from "@/context/project-context";
+import { getProjectActivities, runCriticalPath } from "@/lib/scheduler/critical-path";
+import { importScheduleFile } from "@/lib/scheduler/schedule-import";
+import {
+  buildBaselineSnapshot,
+  buildFinishCurve,
+  compareSchedules,
+  summarizeSlipByWbs,
+} from "@/lib/scheduler/schedule-comparison";
+import scheduleHistoryData from "@/data/mock/schedule/schedule_history.json";
+import type { ScheduleActivity, ScheduleImportResult, ScheduleSnapshot } from "@/types/scheduler";
 
 interface ScheduleMonitorProps {
   userRole: string;
   projectData: any;
 }
 
-// Mock milestone comparison data
-const milestoneComparisonData = [
-  {
-    milestone: "Foundation Complete",
-    baseline: "2024-02-15",
-    current: "2024-02-17",
-    actual: "2024-02-16",
-    variance: 1,
-    status: "completed",
-    criticality: "high"
-  },
-  {
-    milestone: "Structure Complete",
-    baseline: "2024-04-30",
-    current: "2024-05-03",
-    actual: null,
-    variance: 3,
-    status: "at-risk",
-    criticality: "high"
-  },
-  {
-    milestone: "MEP Rough Complete",
-    baseline: "2024-07-15",
-    current: "2024-07-18",
-    actual: null,
-    variance: 3,
-    status: "on-track",
-    criticality: "medium"
-  },
-  {
-    milestone: "Substantial Completion",
-    baseline: "2024-12-01",
-    current: "2024-12-08",
-    actual: null,
-    variance: 7,
-    status: "at-risk",
-    criticality: "high"
-  },
-];
-
-// Mock schedule comparison data
-const scheduleComparisonData = [
-  { period: "Week 1", current: 95, previous: 92, baseline: 90 },
-  { period: "Week 2", current: 88, previous: 91, baseline: 85 },
-  { period: "Week 3", current: 92, previous: 89, baseline: 88 },
-  { period: "Week 4", current: 85, previous: 87, baseline: 82 },
-  { period: "Week 5", current: 90, previous: 85, baseline: 86 },
-  { period: "Week 6", current: 87, previous: 88, baseline: 84 },
-];
-
-// Mock float analysis data
-const floatAnalysisData = [
-  { activity: "Excavation", totalFloat: 5, freeFloat: 2, status: "safe" },
-  { activity: "Foundation Pour", totalFloat: 0, freeFloat: 0, status: "critical" },
-  { activity: "Steel Erection", totalFloat: 8, freeFloat: 5, status: "safe" },
-  { activity: "MEP Layout", totalFloat: 2, freeFloat: 1, status: "near-critical" },
-  { activity: "Drywall Install", totalFloat: 12, freeFloat: 8, status: "safe" },
-];
-
-// Mock delay analysis data
-const delayAnalysisData = [
-  {
-    category: "Weather",
-    impact: 8,
-    frequency: 12,
-    avgDuration: 2.3,
-    trend: "increasing"
-  },
-  {
-    category: "Material Delays",
-    impact: 15,
-    frequency: 8,
-    avgDuration: 4.2,
-    trend: "stable"
-  },
-  {
-    category: "Labor Shortage",
-    impact: 6,
-    frequency: 5,
-    avgDuration: 3.1,
-    trend: "decreasing"
-  },
-  {
-    category: "Design Changes",
-    impact: 12,
-    frequency: 7,
-    avgDuration: 5.8,
-    trend: "increasing"
-  },
-];
-
 const acceptedFileTypes = ['.xer', '.mpp', '.xml', '.csv'];
 
 export default function ScheduleMonitor({ userRole, projectData }: ScheduleMonitorProps) {
   const [selectedComparison, setSelectedComparison] = useState("current-vs-baseline");
-  const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
+  const [uploadedFiles, setUploadedFiles] = useState<ScheduleImportResult[]>([]);
+  const [currentImport, setCurrentImport] = useState<ScheduleImportResult | null>(null);
+  const [expandedImport, setExpandedImport] = useState<number | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [lastUpdate, setLastUpdate] = useState("2024-06-15 10:30 AM");
+  const { projectId } = useProjectContext();
+
+  const projectActivities = useMemo(() => getProjectActivities(projectId), [projectId]);
+
+  // Imports belong to the project they were uploaded on; switching projects starts from its own schedule
+  useEffect(() => {
+    setUploadedFiles([]);
+    setCurrentImport(null);
+    setExpandedImport(null);
+    setSelectedComparison("current-vs-baseline");
+  }, [projectId]);
+
+  // The latest successful import replaces the project's schedule.json data as the current schedule
+  const currentSchedule: ScheduleActivity[] = currentImport?.activities ?? projectActivities;
+  const currentCpm = useMemo(() => runCriticalPath(currentSchedule), [currentSchedule]);
+
+  // Versions available for comparison: the current schedule, other uploads, the previous update and the baseline
+  const scheduleVersions = useMemo<ScheduleSnapshot[]>(() => {
+    const uploads = uploadedFiles
+      .map((file, index) => ({ file, index }))
+      .filter(({ file }) => file !== currentImport && file.activities.length > 0)
+      .map(({ file, index }) => ({ id: `upload${index}`, label: file.file_name, activities: file.activities }));
+
+    return [
+      { id: "current", label: currentImport ? `Current (${currentImport.file_name})` : "Current Schedule", activities: currentSchedule },
+      ...uploads,
+      {
+        id: "previous",
+        label: "Previous Update",
+        activities: getProjectActivities(projectId, scheduleHistoryData as ScheduleActivity[]),
+      },
+      buildBaselineSnapshot(currentSchedule),
+    ];
+  }, [uploadedFiles, currentImport, currentSchedule, projectId]);
+
+  const comparisonOptions = scheduleVersions.flatMap((version, i) =>
+    scheduleVersions.slice(i + 1).map((reference) => ({
+      value: `${version.id}-vs-${reference.id}`,
+      label: `${version.label} vs ${reference.label}`,
+    }))
+  );
+
+  const [compareId, referenceId] = selectedComparison.split("-vs-");
+  const compareVersion = scheduleVersions.find((v) => v.id === compareId) ?? scheduleVersions[0];
+  const referenceVersion =
+    scheduleVersions.find((v) => v.id === referenceId && v.id !== compareVersion.id) ??
+    scheduleVersions[scheduleVersions.length - 1];
+
+  const comparison = useMemo(
+    () => compareSchedules(compareVersion, referenceVersion),
+    [compareVersion, referenceVersion]
+  );
+  const scheduleComparisonData = useMemo(
+    () => buildFinishCurve([referenceVersion, compareVersion]),
+    [compareVersion, referenceVersion]
+  );
+  const delayAnalysisData = useMemo(() => summarizeSlipByWbs(comparison).slice(0, 6), [comparison]);
+
+  const milestoneComparisonData = useMemo(() => {
+    const compareById = new Map(compareVersion.activities.map((a) => [a.activity_id, a]));
+    const referenceById = new Map(referenceVersion.activities.map((a) => [a.activity_id, a]));
+    return comparison.activities
+      .filter((a) => a.activity_type === "Milestone" && a.change !== "added" && a.change !== "deleted")
+      .sort((a, b) => Math.abs(b.finish_variance) - Math.abs(a.finish_variance))
+      .slice(0, 8)
+      .map((a) => {
+        const current = compareById.get(a.activity_id)!;
+        const completed = current.status === "Completed";
+        return {
+          milestone: `${a.activity_id} · ${a.activity_name}`,
+          baseline: referenceById.get(a.activity_id)!.end_date,
+          current: current.end_date,
+          actual: completed ? current.end_date : null,
+          variance: a.finish_variance,
+          status: completed ? "completed" : a.finish_variance > 0 ? "at-risk" : "on-track",
+          criticality: a.is_critical ? "high" : "medium",
+        };
+      });
+  }, [comparison, compareVersion, referenceVersion]);
 
-  const onDrop = useCallback((acceptedFiles: File[]) => {
-    setUploadedFiles(prev => [...prev, ...acceptedFiles]);
+  const floatAnalysisData = useMemo(() => {
+    const freeFloat = new Map(currentCpm.activities.map((a) => [a.activity_id, a.free_float]));
+    return comparison.activities
+      .filter((a) => a.total_float !== null && a.change !== "deleted")
+      .sort((a, b) => b.float_erosion - a.float_erosion || a.total_float! - b.total_float!)
+      .slice(0, 8)
+      .map((a) => ({
+        activity: `${a.activity_id} · ${a.activity_name}`,
+        totalFloat: a.total_float!,
+        freeFloat: freeFloat.get(a.activity_id) ?? 0,
+        floatChange: -a.float_erosion,
+        status: a.total_float! <= 0 ? "critical" : a.total_float! <= 5 ? "near-critical" : "safe",
+      }));
+  }, [comparison, currentCpm]);
+
+  const changedActivities = comparison.activities.filter(
+    (a) =>
+      a.change === "added" ||
+      a.change === "deleted" ||
+      a.predecessors_added.length > 0 ||
+      a.predecessors_removed.length > 0
+  );
+
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
     setIsProcessing(true);
-    
-    // Simulate file processing
-    setTimeout(() => {
-      setIsProcessing(false);
-      setLastUpdate(new Date().toLocaleString());
-    }, 3000);
-  }, []);
+    const scheduleProjectId = projectActivities[0]?.project_id ?? 0;
+    const results = await Promise.all(acceptedFiles.map((file) => importScheduleFile(file, scheduleProjectId)));
+
+    setUploadedFiles(prev => [...prev, ...results]);
+    const latest = [...results].reverse().find((result) => result.activities.length > 0);
+    if (latest) setCurrentImport(latest);
+    setIsProcessing(false);
+    setLastUpdate(new Date().toLocaleString());
+  }, [projectActivities]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
@@ -171,7 +196,12 @@ export default function ScheduleMonitor({ userRole, projectData }: ScheduleMonit
   });
 
   const removeFile = (index: number) => {
-    setUploadedFiles(prev => prev.filter((_, i) => i !== index));
+    const remaining = uploadedFiles.filter((_, i) => i !== index);
+    setUploadedFiles(remaining);
+    setExpandedImport(null);
+    if (uploadedFiles[index] === currentImport) {
+      setCurrentImport([...remaining].reverse().find((result) => result.activities.length > 0) ?? null);
+    }
   };
 
   const getStatusColor = (status: string) => {
@@ -255,25 +285,78 @@ export default function ScheduleMonitor({ userRole, projectData }: ScheduleMonit
             {uploadedFiles.length > 0 && (
               <div className="space-y-2">
                 <Label className="text-sm font-medium">Uploaded Files:</Label>
-                {uploadedFiles.map((file, index) => (
-                  <div key={index} className="flex items-center justify-between p-2 border rounded">
-                    <div className="flex items-center gap-2">
-                      <FileText className="h-4 w-4 text-blue-600" />
-                      <span className="text-sm">{file.name}</span>
-                      <Badge variant="outline" className="text-xs">
-                        {(file.size / 1024).toFixed(1)} KB
-                      </Badge>
+                {uploadedFiles.map((file, index) => {
+                  const errorCount = file.errors.filter((e) => e.severity === "error").length;
+                  const warningCount = file.errors.length - errorCount;
+                  return (
+                    <div key={index} className="border rounded">
+                      <div className="flex items-center justify-between p-2">
+                        <div className="flex items-center gap-2">
+                          <FileText className="h-4 w-4 text-blue-600" />
+                          <span className="text-sm">{file.file_name}</span>
+                          <Badge variant="outline" className="text-xs">
+                            {file.format} · {file.activities.length} activities
+                          </Badge>
+                          {file === currentImport && (
+                            <Badge className="text-xs bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">
+                              Current
+                            </Badge>
+                          )}
+                          {errorCount > 0 && (
+                            <Badge variant="destructive" className="text-xs">
+                              {errorCount} errors
+                            </Badge>
+                          )}
+                          {warningCount > 0 && (
+                            <Badge variant="secondary" className="text-xs">
+                              {warningCount} warnings
+                            </Badge>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-1">
+                          {file.activities.length > 0 && file !== currentImport && (
+                            <Button size="sm" variant="ghost" className="h-6 text-xs" onClick={() => setCurrentImport(file)}>
+                              Set as current
+                            </Button>
+                          )}
+                          {file.errors.length > 0 && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-6 text-xs"
+                              onClick={() => setExpandedImport(expandedImport === index ? null : index)}
+                            >
+                              <Eye className="h-3 w-3 mr-1" />
+                              Details
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => removeFile(index)}
+                            className="h-6 w-6 p-0"
+                          >
+                            ×
+                          </Button>
+                        </div>
+                      </div>
+                      {expandedImport === index && (
+                        <div className="border-t p-2 space-y-1 max-h-48 overflow-y-auto">
+                          {file.errors.map((error, errorIndex) => (
+                            <div
+                              key={errorIndex}
+                              className={`text-xs ${error.severity === "error" ? "text-red-600" : "text-yellow-600"}`}
+                            >
+                              {error.row > 0 ? `Row ${error.row}` : "File"}
+                              {error.activity_id ? ` (${error.activity_id})` : ""}
+                              {error.field ? ` [${error.field}]` : ""}: {error.message}
+                            </div>
+                          ))}
+                        </div>
+                      )}
                     </div>
-                    <Button
-                      size="sm"
-                      variant="ghost"
-                      onClick={() => removeFile(index)}
-                      className="h-6 w-6 p-0"
-                    >
-                      ×
-                    </Button>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             )}
 
@@ -287,7 +370,8 @@ export default function ScheduleMonitor({ userRole, projectData }: ScheduleMonit
 
             {/* Last Update */}
             <div className="text-xs text-gray-500 dark:text-gray-400">
-              Last updated: {lastUpdate}
+              Current schedule: {currentImport ? currentImport.file_name : "Project schedule"} ({currentSchedule.length} activities,
+              finish {currentCpm.project_finish || "—"}) · Last updated: {lastUpdate}
             </div>
           </div>
         </CardContent>
@@ -310,9 +394,11 @@ export default function ScheduleMonitor({ userRole, projectData }: ScheduleMonit
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="current-vs-baseline">Current vs Baseline</SelectItem>
-                  <SelectItem value="current-vs-previous">Current vs Previous Update</SelectItem>
-                  <SelectItem value="trend-analysis">Trend Analysis</SelectItem>
+                  {comparisonOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -328,6 +414,23 @@ export default function ScheduleMonitor({ userRole, projectData }: ScheduleMonit
             </div>
           </div>
 
+          {/* Comparison Summary */}
+          <div className="grid gap-4 grid-cols-2 md:grid-cols-6 mb-6">
+            {[
+              { label: "Finish Variance", value: `${comparison.finish_variance > 0 ? "+" : ""}${comparison.finish_variance}d` },
+              { label: "Avg Finish Slip", value: `${comparison.summary.average_finish_slip}d` },
+              { label: "Slipped Finishes", value: comparison.summary.slipped_finishes },
+              { label: "Float Eroded", value: comparison.summary.float_eroded },
+              { label: "Added / Deleted", value: `${comparison.summary.added} / ${comparison.summary.deleted}` },
+              { label: "Logic Changes", value: comparison.summary.logic_changes },
+            ].map((metric) => (
+              <div key={metric.label} className="p-3 border rounded-lg">
+                <div className="text-xs text-muted-foreground">{metric.label}</div>
+                <div className="text-lg font-bold">{metric.value}</div>
+              </div>
+            ))}
+          </div>
+
           {/* Schedule Performance Chart */}
           <ResponsiveContainer width="100%" height={350}>
             <LineChart data={scheduleComparisonData}>
@@ -335,30 +438,25 @@ export default function ScheduleMonitor({ userRole, projectData }: ScheduleMonit
               <XAxis dataKey="period" />
               <YAxis tickFormatter={(value) => `${value}%`} />
               <Tooltip 
-                formatter={(value: number, name: string) => [`${value}%`, name]}
-                labelFormatter={(label) => `Period: ${label}`}
+                formatter={(value: number, name: string) => [`${value}% of activities finished`, name]}
+                labelFormatter={(label) => `Week of ${label}`}
               />
               <Line 
                 type="monotone" 
-                dataKey="baseline" 
+                dataKey={referenceVersion.id} 
                 stroke="#94a3b8" 
                 strokeWidth={2}
                 strokeDasharray="5 5"
-                name="Baseline"
+                name={referenceVersion.label}
+                dot={false}
               />
               <Line 
                 type="monotone" 
-                dataKey="previous" 
-                stroke="#f59e0b" 
-                strokeWidth={2}
-                name="Previous Update"
-              />
-              <Line 
-                type="monotone" 
-                dataKey="current" 
+                dataKey={compareVersion.id} 
                 stroke="#3b82f6" 
                 strokeWidth={3}
-                name="Current Schedule"
+                name={compareVersion.label}
+                dot={false}
               />
             </LineChart>
           </ResponsiveContainer>
@@ -367,7 +465,7 @@ export default function ScheduleMonitor({ userRole, projectData }: ScheduleMonit
 
       {/* Detailed Analysis Tabs */}
       <Tabs defaultValue="milestones" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="milestones" className="flex items-center gap-2">
             <Target className="h-4 w-4" />
             Milestones
@@ -380,6 +478,10 @@ export default function ScheduleMonitor({ userRole, projectData }: ScheduleMonit
             <AlertTriangle className="h-4 w-4" />
             Delay Analysis
           </TabsTrigger>
+          <TabsTrigger value="changes" className="flex items-center gap-2">
+            <Activity className="h-4 w-4" />
+            Activity Changes
+          </TabsTrigger>
           <TabsTrigger value="insights" className="flex items-center gap-2">
             <Eye className="h-4 w-4" />
             Insights
@@ -391,7 +493,7 @@ export default function ScheduleMonitor({ userRole, projectData }: ScheduleMonit
             <CardHeader>
               <CardTitle>Milestone Comparison</CardTitle>
               <CardDescription>
-                Compare milestone dates across baseline, current schedule, and actuals
+                Milestone finish dates for {compareVersion.label} against {referenceVersion.label}, largest variance first
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -425,11 +527,11 @@ export default function ScheduleMonitor({ userRole, projectData }: ScheduleMonit
                     
                     <div className="grid grid-cols-3 gap-4 text-sm">
                       <div>
-                        <div className="text-muted-foreground">Baseline</div>
+                        <div className="text-muted-foreground">{referenceVersion.label}</div>
                         <div className="font-medium">{formatDate(milestone.baseline)}</div>
                       </div>
                       <div>
-                        <div className="text-muted-foreground">Current</div>
+                        <div className="text-muted-foreground">{compareVersion.label}</div>
                         <div className="font-medium">{formatDate(milestone.current)}</div>
                       </div>
                       <div>
@@ -451,7 +553,7 @@ export default function ScheduleMonitor({ userRole, projectData }: ScheduleMonit
             <CardHeader>
               <CardTitle>Float Analysis</CardTitle>
               <CardDescription>
-                Critical path and float analysis for schedule optimization
+                Activities with the most float erosion since {referenceVersion.label}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -480,6 +582,12 @@ export default function ScheduleMonitor({ userRole, projectData }: ScheduleMonit
                         <div className="font-medium">{activity.freeFloat}</div>
                         <div className="text-muted-foreground">Free Float</div>
                       </div>
+                      <div className="text-center">
+                        <div className={`font-medium ${activity.floatChange < 0 ? 'text-red-600' : activity.floatChange > 0 ? 'text-green-600' : ''}`}>
+                          {activity.floatChange > 0 ? '+' : ''}{activity.floatChange}
+                        </div>
+                        <div className="text-muted-foreground">Float Change</div>
+                      </div>
                     </div>
                   </div>
                 ))}
@@ -493,7 +601,7 @@ export default function ScheduleMonitor({ userRole, projectData }: ScheduleMonit
             <CardHeader>
               <CardTitle>Delay Analysis</CardTitle>
               <CardDescription>
-                Analysis of delay patterns and their impact on schedule performance
+                Finish-date slip grouped by WBS area between {compareVersion.label} and {referenceVersion.label}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -506,19 +614,19 @@ export default function ScheduleMonitor({ userRole, projectData }: ScheduleMonit
                     </div>
                     <div className="space-y-2">
                       <div className="flex justify-between text-sm">
-                        <span className="text-muted-foreground">Impact Days:</span>
+                        <span className="text-muted-foreground">Total Slip Days:</span>
                         <span className="font-medium">{delay.impact}</span>
                       </div>
                       <div className="flex justify-between text-sm">
-                        <span className="text-muted-foreground">Frequency:</span>
-                        <span className="font-medium">{delay.frequency} instances</span>
+                        <span className="text-muted-foreground">Slipped Activities:</span>
+                        <span className="font-medium">{delay.frequency}</span>
                       </div>
                       <div className="flex justify-between text-sm">
-                        <span className="text-muted-foreground">Avg Duration:</span>
+                        <span className="text-muted-foreground">Avg Slip:</span>
                         <span className="font-medium">{delay.avgDuration} days</span>
                       </div>
                       <div className="mt-2">
-                        <Progress value={(delay.impact / 20) * 100} className="h-2" />
+                        <Progress value={delayAnalysisData[0]?.impact ? (delay.impact / delayAnalysisData[0].impact) * 100 : 0} className="h-2" />
                       </div>
                     </div>
                   </div>
@@ -528,6 +636,41 @@ export default function ScheduleMonitor({ userRole, projectData }: ScheduleMonit
           </Card>
         </TabsContent>
 
+        <TabsContent value="changes" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Activity Changes ({changedActivities.length})</CardTitle>
+              <CardDescription>
+                Activities added, deleted or re-tied in {compareVersion.label} since {referenceVersion.label}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {changedActivities.slice(0, 50).map((activity) => (
+                  <div key={activity.activity_id} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+                    <div>
+                      <div className="font-medium">{activity.activity_id} · {activity.activity_name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {activity.predecessors_added.length > 0 && `Added ties: ${activity.predecessors_added.join(", ")} `}
+                        {activity.predecessors_removed.length > 0 && `Removed ties: ${activity.predecessors_removed.join(", ")}`}
+                      </div>
+                    </div>
+                    <Badge
+                      variant={activity.change === "deleted" ? "destructive" : activity.change === "added" ? "default" : "secondary"}
+                      className="text-xs"
+                    >
+                      {activity.change === "changed" ? "logic change" : activity.change}
+                    </Badge>
+                  </div>
+                ))}
+                {changedActivities.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No added, deleted or re-tied activities.</p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="insights" className="space-y-6">
           <div className="grid gap-6 md:grid-cols-2">
             <Card>
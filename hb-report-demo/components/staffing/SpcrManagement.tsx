@@ -27,8 +27,12 @@ import {
   Building
 } from 'lucide-react'
 
+import { getDataSource } from '@/lib/data'
+import { usePermissions } from '@/hooks/use-permissions'
+import { useToast } from '@/hooks/use-toast'
+import type { SpcrRecord } from '@/types/data-source'
+
 // Import mock data
-import spcrData from '@/data/mock/staffing/spcr.json'
 import projectsData from '@/data/mock/projects.json'
 
 interface SpcrManagementProps {
@@ -63,7 +67,18 @@ interface Spcr {
   comments?: SpcrComment[]
 }
 
+const emptySpcrForm = {
+  type: 'increase' as Spcr['type'],
+  position: '',
+  startDate: '',
+  endDate: '',
+  schedule_activity: '',
+  budget: '',
+  explanation: ''
+}
+
 export const SpcrManagement = ({ userRole }: SpcrManagementProps) => {
+  const { can } = usePermissions()
   const [spcrs, setSpcrs] = useState<Spcr[]>([])
   const [filteredSpcrs, setFilteredSpcrs] = useState<Spcr[]>([])
   const [statusFilter, setStatusFilter] = useState('all')
@@ -73,13 +88,26 @@ export const SpcrManagement = ({ userRole }: SpcrManagementProps) => {
   const [showActionModal, setShowActionModal] = useState(false)
   const [actionType, setActionType] = useState<'approve' | 'reject' | 'forward'>('approve')
   const [actionComment, setActionComment] = useState('')
+  const [newSpcr, setNewSpcr] = useState(emptySpcrForm)
+  const { toast } = useToast()
 
   useEffect(() => {
-    // Filter SPCRs based on user role and add workflow stages
+    loadSpcrs()
+  }, [userRole])
+
+  const loadSpcrs = async () => {
+    let spcrData: SpcrRecord[] = []
+    try {
+      spcrData = await getDataSource().list('spcrs')
+    } catch (error) {
+      console.error('Failed to load SPCRs:', error)
+    }
+
+    // Filter SPCRs based on user role and add workflow stages (kept once a reviewer has acted)
     let filteredData = spcrData.map(spcr => ({
       ...spcr,
-      workflowStage: getWorkflowStage(spcr.status, spcr.createdBy),
-      comments: []
+      workflowStage: spcr.workflowStage ?? getWorkflowStage(spcr.status, spcr.createdBy),
+      comments: spcr.comments ?? []
     })) as Spcr[]
     
     if (userRole === 'project-manager') {
@@ -97,7 +125,7 @@ export const SpcrManagement = ({ userRole }: SpcrManagementProps) => {
 
     setSpcrs(filteredData)
     setFilteredSpcrs(filteredData)
-  }, [userRole])
+  }
 
   // Convert old status to workflow stage
   const getWorkflowStage = (status: string, createdBy: string): 'submitted' | 'pe-review' | 'pe-approved' | 'pe-rejected' | 'executive-review' | 'final-approved' | 'final-rejected' => {
@@ -199,7 +227,16 @@ export const SpcrManagement = ({ userRole }: SpcrManagementProps) => {
     setShowActionModal(true)
   }
 
-  const submitAction = () => {
+  // Persist an SPCR change through the data source when it accepts writes
+  const saveSpcr = async (id: string, changes: Partial<Spcr>) => {
+    const source = getDataSource()
+    const saved = source.update
+      ? await source.update('spcrs', id, changes as Partial<SpcrRecord>)
+      : changes
+    setSpcrs(prev => prev.map(spcr => spcr.id === id ? { ...spcr, ...(saved as Partial<Spcr>) } : spcr))
+  }
+
+  const submitAction = async () => {
     if (!selectedSpcr) return
 
     const timestamp = new Date().toISOString()
@@ -222,17 +259,71 @@ export const SpcrManagement = ({ userRole }: SpcrManagementProps) => {
       newWorkflowStage = selectedSpcr.workflowStage
     }
 
-    setSpcrs(prev => prev.map(spcr => 
-      spcr.id === selectedSpcr.id ? { 
-        ...spcr, 
+    // The stored status follows the workflow's outcome
+    const status = newWorkflowStage === 'final-approved'
+      ? 'approved'
+      : ['pe-rejected', 'final-rejected'].includes(newWorkflowStage) ? 'rejected' : 'pending'
+
+    try {
+      await saveSpcr(selectedSpcr.id, {
+        status,
         workflowStage: newWorkflowStage,
         updatedAt: timestamp,
-        comments: [...(spcr.comments || []), newComment]
-      } : spcr
-    ))
+        comments: [...(selectedSpcr.comments || []), newComment]
+      })
+      setShowActionModal(false)
+      setShowDetailModal(false)
+    } catch (error) {
+      console.error('Failed to save SPCR:', error)
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save SPCR',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  const submitNewSpcr = async () => {
+    if (!newSpcr.position || !newSpcr.startDate || !newSpcr.endDate) {
+      toast({ title: 'Missing details', description: 'Position, start date and end date are required', variant: 'destructive' })
+      return
+    }
+
+    const timestamp = new Date().toISOString()
+    const record: SpcrRecord = {
+      id: `spcr-${Date.now()}`,
+      // PM's project (Palm Beach Luxury Estate)
+      project_id: 2525840,
+      type: newSpcr.type as SpcrRecord['type'],
+      position: newSpcr.position,
+      startDate: new Date(newSpcr.startDate).toISOString(),
+      endDate: new Date(newSpcr.endDate).toISOString(),
+      schedule_activity: newSpcr.schedule_activity,
+      scheduleRef: '',
+      budget: Number(newSpcr.budget) || 0,
+      explanation: newSpcr.explanation,
+      status: 'pending',
+      workflowStage: 'pe-review',
+      comments: [],
+      createdBy: getCurrentUserName(),
+      createdAt: timestamp,
+      updatedAt: timestamp
+    }
 
-    setShowActionModal(false)
-    setShowDetailModal(false)
+    try {
+      const source = getDataSource()
+      const saved = source.create ? await source.create('spcrs', record) : record
+      setSpcrs(prev => [{ ...saved, workflowStage: 'pe-review', comments: [] } as Spcr, ...prev])
+      setNewSpcr(emptySpcrForm)
+      setShowCreateModal(false)
+    } catch (error) {
+      console.error('Failed to create SPCR:', error)
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to create SPCR',
+        variant: 'destructive'
+      })
+    }
   }
 
   const getCurrentUserName = () => {
@@ -244,7 +335,9 @@ export const SpcrManagement = ({ userRole }: SpcrManagementProps) => {
     }
   }
 
+  // The workflow stage decides whose turn it is; the permission matrix decides whether they may act
   const canApprove = (spcr: Spcr) => {
+    if (!can('staff-planning', 'approve', spcr.project_id)) return false
     if (userRole === 'executive' && spcr.workflowStage === 'executive-review') return true
     if (userRole === 'project-executive' && spcr.workflowStage === 'pe-review') return true
     return false
@@ -307,7 +400,7 @@ export const SpcrManagement = ({ userRole }: SpcrManagementProps) => {
             <FileText className="h-5 w-5" />
             {getTitle()}
           </CardTitle>
-          {userRole === 'project-manager' && (
+          {can('staff-planning', 'create') && (
             <Button size="sm" onClick={() => setShowCreateModal(true)}>
               <Plus className="h-4 w-4 mr-1" />
               Create SPCR
@@ -425,7 +518,7 @@ export const SpcrManagement = ({ userRole }: SpcrManagementProps) => {
             <div className="text-center py-8 text-muted-foreground">
               <FileText className="h-8 w-8 mx-auto mb-2 opacity-50" />
               <div className="text-sm">No SPCRs found</div>
-              {userRole === 'project-manager' && (
+              {can('staff-planning', 'create') && (
                 <Button 
                   variant="outline" 
                   size="sm" 
@@ -616,7 +709,7 @@ export const SpcrManagement = ({ userRole }: SpcrManagementProps) => {
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <label className="text-sm font-medium">Request Type</label>
-                <Select>
+                <Select value={newSpcr.type} onValueChange={(type) => setNewSpcr(prev => ({ ...prev, type }))}>
                   <SelectTrigger>
                     <SelectValue placeholder="Select type" />
                   </SelectTrigger>
@@ -628,34 +721,60 @@ export const SpcrManagement = ({ userRole }: SpcrManagementProps) => {
               </div>
               <div>
                 <label className="text-sm font-medium">Position</label>
-                <Input placeholder="e.g., Project Manager" />
+                <Input
+                  placeholder="e.g., Project Manager"
+                  value={newSpcr.position}
+                  onChange={(e) => setNewSpcr(prev => ({ ...prev, position: e.target.value }))}
+                />
               </div>
             </div>
             
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <label className="text-sm font-medium">Start Date</label>
-                <Input type="date" />
+                <Input
+                  type="date"
+                  value={newSpcr.startDate}
+                  onChange={(e) => setNewSpcr(prev => ({ ...prev, startDate: e.target.value }))}
+                />
               </div>
               <div>
                 <label className="text-sm font-medium">End Date</label>
-                <Input type="date" />
+                <Input
+                  type="date"
+                  value={newSpcr.endDate}
+                  onChange={(e) => setNewSpcr(prev => ({ ...prev, endDate: e.target.value }))}
+                />
               </div>
             </div>
             
             <div>
               <label className="text-sm font-medium">Schedule Activity</label>
-              <Input placeholder="e.g., Foundation Work - Task 152" />
+              <Input
+                placeholder="e.g., Foundation Work - Task 152"
+                value={newSpcr.schedule_activity}
+                onChange={(e) => setNewSpcr(prev => ({ ...prev, schedule_activity: e.target.value }))}
+              />
             </div>
             
             <div>
               <label className="text-sm font-medium">Budget Impact</label>
-              <Input type="number" placeholder="0.00" />
+              <Input
+                type="number"
+                placeholder="0.00"
+                value={newSpcr.budget}
+                onChange={(e) => setNewSpcr(prev => ({ ...prev, budget: e.target.value }))}
+              />
             </div>
             
             <div>
               <label className="text-sm font-medium">Justification</label>
-              <Textarea placeholder="Explain the reason for this staffing change request..." rows={3} />
+              <Textarea
+                placeholder="Explain the reason for this staffing change request..."
+                rows={3}
+                value={newSpcr.explanation}
+                onChange={(e) => setNewSpcr(prev => ({ ...prev, explanation: e.target.value }))}
+              />
             </div>
             
             <div className="bg-blue-50 p-3 rounded-lg">
@@ -669,7 +788,7 @@ export const SpcrManagement = ({ userRole }: SpcrManagementProps) => {
               <Button variant="outline" onClick={() => setShowCreateModal(false)}>
                 Cancel
               </Button>
-              <Button>
+              <Button onClick={submitNewSpcr}>
                 Submit for Review
               </Button>
             </div>
@@ -2,122 +2,71 @@
 
 import { createContext, useContext, useEffect, useState } from 'react'
 import type { User } from '@/types'
+import type { ProjectScope } from '@/types/auth'
+import type { RoleGrants } from '@/types/permissions'
 
-export type DemoRole = 'executive' | 'project-executive' | 'project-manager' | 'estimator' | 'admin'
+export type { DemoRole } from '@/types/auth'
 export type DemoUser = User
 
 interface AuthContextType {
   user: DemoUser | null
+  // The user's permission grants and assigned projects, from the server session
+  grants: RoleGrants
+  projects: ProjectScope
+  isLoading: boolean
   login: (email: string, password: string) => Promise<{ redirectTo: string }>
   logout: () => void
 }
 
-const demoUsers: DemoUser[] = [
-  {
-    id: '1',
-    firstName: 'John',
-    lastName: 'Smith',
-    email: 'john.smith@hedrickbrothers.com',
-    role: 'executive',
-    company: 'Hedrick Brothers',
-    createdAt: new Date().toISOString(),
-    isActive: true,
-    avatar: '/avatars/john-smith.png',
-    permissions: { preConAccess: true },
-  },
-  {
-    id: '2',
-    firstName: 'Sarah',
-    lastName: 'Johnson',
-    email: 'sarah.johnson@hedrickbrothers.com',
-    role: 'project-executive',
-    company: 'Hedrick Brothers',
-    createdAt: new Date().toISOString(),
-    isActive: true,
-    avatar: '/avatars/sarah-johnson.png',
-    permissions: { preConAccess: true },
-  },
-  {
-    id: '3',
-    firstName: 'Mike',
-    lastName: 'Davis',
-    email: 'mike.davis@hedrickbrothers.com',
-    role: 'project-manager',
-    company: 'Hedrick Brothers',
-    createdAt: new Date().toISOString(),
-    isActive: true,
-    avatar: '/avatars/mike-davis.png',
-    permissions: { preConAccess: false },
-  },
-  {
-    id: '4',
-    firstName: 'John',
-    lastName: 'Doe',
-    email: 'john.doe@hedrickbrothers.com',
-    role: 'estimator',
-    company: 'Hedrick Brothers',
-    createdAt: new Date().toISOString(),
-    isActive: true,
-    avatar: '/avatars/john-doe.png',
-    permissions: { preConAccess: true },
-  },
-  {
-    id: '5',
-    firstName: 'Lisa',
-    lastName: 'Wilson',
-    email: 'lisa.wilson@hedrickbrothers.com',
-    role: 'admin',
-    company: 'Hedrick Brothers',
-    createdAt: new Date().toISOString(),
-    isActive: true,
-    avatar: '/avatars/lisa-wilson.png',
-    permissions: { preConAccess: true },
-  },
-]
+// Sessions used to live here before sign-in moved to the server
+const LEGACY_STORAGE_KEY = 'hb-demo-user'
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
 export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [user, setUser] = useState<DemoUser | null>(null)
+  const [grants, setGrants] = useState<RoleGrants>({})
+  const [projects, setProjects] = useState<ProjectScope>([])
+  const [isLoading, setIsLoading] = useState(true)
 
+  const applySession = (session: { user: DemoUser; grants: RoleGrants; projects: ProjectScope } | null) => {
+    setUser(session?.user ?? null)
+    setGrants(session?.grants ?? {})
+    setProjects(session?.projects ?? [])
+  }
+
+  // Restore the signed-in user from the server session
   useEffect(() => {
-    const stored = localStorage.getItem('hb-demo-user')
-    if (stored) {
-      setUser(JSON.parse(stored))
-    }
+    localStorage.removeItem(LEGACY_STORAGE_KEY)
+    fetch('/api/auth/session')
+      .then((response) => (response.ok ? response.json() : null))
+      .then(applySession)
+      .catch((error) => console.error('Failed to restore session:', error))
+      .finally(() => setIsLoading(false))
   }, [])
 
   const login = async (email: string, password: string): Promise<{ redirectTo: string }> => {
-    const match = demoUsers.find((u) => u.email === email)
-    if (!match || password !== 'demo123') {
-      throw new Error('Invalid credentials')
+    const response = await fetch('/api/auth/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, password }),
+    })
+    const body = await response.json().catch(() => null)
+    if (!response.ok) {
+      throw new Error(body?.error ?? 'Invalid credentials')
     }
 
-    const redirectTo = match.role === 'estimator'
-        ? '/pre-con'
-        : match.role === 'project-executive'
-        ? '/dashboard'
-        : match.role === 'project-manager'
-        ? '/dashboard'
-        : match.role === 'executive'
-        ? '/dashboard'
-        : match.role === 'admin'
-        ? '/dashboard'
-        : '/dashboard'
-
-    localStorage.setItem('hb-demo-user', JSON.stringify(match))
-    setUser(match)
-
-    return { redirectTo }
+    applySession(body)
+    return { redirectTo: body.redirectTo }
   }
 
   const logout = () => {
-    localStorage.removeItem('hb-demo-user')
-    setUser(null)
+    applySession(null)
+    fetch('/api/auth/logout', { method: 'POST' }).catch((error) => console.error('Failed to sign out:', error))
   }
 
   return (
-    <AuthContext.Provider value={{ user, login, logout }}>
+    <AuthContext.Provider value={{ user, grants, projects, isLoading, login, logout }}>
       {children}
     </AuthContext.Provider>
   )
@@ -127,4 +76,4 @@ export const useAuth = (): AuthContextType => {
   const ctx = useContext(AuthContext)
   if (!ctx) throw new Error('useAuth must be used inside AuthProvider')
   return ctx
-}
\ No newline at end of file
+}
@@ -1,9 +1,6 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { DashboardLayout, DashboardCard } from '@/types/dashboard';
-import executiveLayout from '@/data/mock/layouts/executive-layout.json';
-import projectExecutiveLayout from '@/data/mock/layouts/project-executive-layout.json';
-import projectManagerLayout from '@/data/mock/layouts/project-manager-layout.json';
-import financialReviewLayout from '@/data/mock/layouts/financial-review-layout.json';
+import { getDataSource } from '@/lib/data';
 
 /**
  * DashboardContext
@@ -69,7 +66,14 @@ export function DashboardProvider({ userId, role, children }: { userId: string;
     async function fetchDashboards() {
       setLoading(true);
       
-      // DEMO: Use static JSON for templates based on user role
+      // DEMO: Templates come from the data source's layouts, chosen by user role
+      const layouts = await getDataSource().list('layouts');
+      const layoutById = (id: string) => layouts.find(layout => layout.id === id) ?? { id, name: id, description: '', role, cards: [] };
+      const executiveLayout = layoutById('executive-layout');
+      const projectExecutiveLayout = layoutById('project-executive-layout');
+      const projectManagerLayout = layoutById('project-manager-layout');
+      const financialReviewLayout = layoutById('financial-review');
+
       let template: DashboardLayout | null = null;
       const userDashboards: DashboardLayout[] = [];
       
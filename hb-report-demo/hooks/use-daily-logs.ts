@@ -0,0 +1,141 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import type { DailyLog, DailyLogRecord, QueuedDailyLog } from "@/types/field-reports"
+import { useDataResource } from "@/hooks/use-data-resource"
+import { getDataSource } from "@/lib/data"
+import { toDailyLog, toDailyLogRecord } from "@/lib/field-reports/daily-logs"
+import {
+  discardQueuedDailyLog,
+  flushDailyLogQueue,
+  isOfflineQueueAvailable,
+  queueDailyLog,
+  queuedDailyLogs,
+  retryQueuedDailyLog,
+} from "@/lib/field-reports/offline-queue"
+
+const mergeRecords = (records: DailyLogRecord[], updates: DailyLogRecord[]) => [
+  ...records.map((record) => updates.find((update) => update.id === record.id) ?? record),
+  ...updates.filter((update) => !records.some((record) => record.id === update.id)),
+]
+
+/**
+ * Daily logs for a project (or all), with writes queued on the device and synced whenever
+ * the browser is online. Queued logs show in place of their stored versions until they sync;
+ * writes the server rejected are listed apart (`rejected`) to be retried or discarded.
+ */
+export function useDailyLogs(projectId?: number | string) {
+  const query = { projectId: projectId === "all" ? undefined : projectId }
+  const { data: stored, setData, isLoading, error } = useDataResource("daily-logs", query)
+  const [entries, setEntries] = useState<QueuedDailyLog[]>([])
+  const [isOnline, setIsOnline] = useState(true)
+  const [isSyncing, setIsSyncing] = useState(false)
+  // The flush in flight; a sync asked for meanwhile runs once it settles, so writes queued
+  // during it still go out and no write is sent twice
+  const flushing = useRef<Promise<void> | null>(null)
+  const pending = useRef(false)
+
+  const sync = useCallback(async () => {
+    if (!isOfflineQueueAvailable()) return
+    if (flushing.current) {
+      pending.current = true
+      return flushing.current
+    }
+    setIsSyncing(true)
+    flushing.current = (async () => {
+      do {
+        pending.current = false
+        try {
+          const { synced, remaining } = await flushDailyLogQueue(getDataSource())
+          if (synced.length > 0) setData((prev) => mergeRecords(prev, synced))
+          setEntries(remaining)
+        } catch (err) {
+          console.error("Failed to sync daily logs:", err)
+        }
+      } while (pending.current)
+    })()
+    try {
+      await flushing.current
+    } finally {
+      flushing.current = null
+      setIsSyncing(false)
+    }
+  }, [setData])
+
+  useEffect(() => {
+    const goOnline = () => {
+      setIsOnline(true)
+      sync()
+    }
+    const goOffline = () => setIsOnline(false)
+
+    setIsOnline(navigator.onLine)
+    if (isOfflineQueueAvailable()) {
+      if (navigator.onLine) sync()
+      else queuedDailyLogs().then(setEntries).catch((err) => console.error("Failed to read queued daily logs:", err))
+    }
+    window.addEventListener("online", goOnline)
+    window.addEventListener("offline", goOffline)
+    return () => {
+      window.removeEventListener("online", goOnline)
+      window.removeEventListener("offline", goOffline)
+    }
+  }, [sync])
+
+  const queued = useMemo(() => entries.filter((entry) => !entry.error), [entries])
+  const rejected = useMemo(() => entries.filter((entry) => entry.error), [entries])
+
+  const records = useMemo(() => {
+    const local = queued
+      .map((entry) => entry.record)
+      .filter((record) => query.projectId === undefined || String(record.project_id) === String(query.projectId))
+    return mergeRecords(stored, local)
+  }, [stored, queued, query.projectId])
+
+  const logs = useMemo(() => {
+    const now = new Date()
+    return records.map((record) => toDailyLog(record, now)).sort((a, b) => b.date.localeCompare(a.date))
+  }, [records])
+
+  /**
+   * Saves a log: queued first so nothing typed in the field is lost, then synced if the
+   * browser is online. Without IndexedDB it goes straight to the data source.
+   */
+  const save = useCallback(
+    async (log: DailyLog, author: string) => {
+      const previous = records.find((record) => record.id === log.id)
+      const record = toDailyLogRecord(log, author, previous)
+      const isNew = !stored.some((r) => r.id === record.id)
+
+      if (isOfflineQueueAvailable()) {
+        await queueDailyLog(record, isNew ? "create" : "update")
+        setEntries(await queuedDailyLogs())
+        if (navigator.onLine) await sync()
+        return
+      }
+
+      const source = getDataSource()
+      let saved = record
+      if (isNew && source.create) saved = await source.create("daily-logs", record)
+      else if (!isNew && source.update) saved = await source.update("daily-logs", record.id, record)
+      setData((prev) => mergeRecords(prev, [saved]))
+    },
+    [records, stored, sync, setData],
+  )
+
+  // A rejected write sent again, or dropped in favour of the stored log
+  const retry = useCallback(
+    async (id: string) => {
+      await retryQueuedDailyLog(id)
+      setEntries(await queuedDailyLogs())
+      if (navigator.onLine) await sync()
+    },
+    [sync],
+  )
+  const discard = useCallback(async (id: string) => {
+    await discardQueuedDailyLog(id)
+    setEntries(await queuedDailyLogs())
+  }, [])
+
+  return { logs, records, queued, rejected, isOnline, isSyncing, isLoading, error, save, sync, retry, discard }
+}
@@ -0,0 +1,49 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import type { DataQuery, DataResource, DataResources } from "@/types/data-source"
+import { getDataSource } from "@/lib/data"
+
+/**
+ * Loads a resource from the configured data source, following live updates when the
+ * source supports them.
+ */
+export function useDataResource<R extends DataResource>(resource: R, query: DataQuery = {}) {
+  const [data, setData] = useState<DataResources[R][]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+  const { projectId } = query
+
+  useEffect(() => {
+    let cancelled = false
+    const source = getDataSource()
+
+    setIsLoading(true)
+    source
+      .list(resource, { projectId })
+      .then((records) => {
+        if (cancelled) return
+        setData(records)
+        setError(null)
+      })
+      .catch((err) => {
+        if (cancelled) return
+        console.error(`Failed to load ${resource}:`, err)
+        setError(err instanceof Error ? err : new Error(String(err)))
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    const unsubscribe = source.subscribe?.(resource, (records) => !cancelled && setData(records), { projectId })
+    return () => {
+      cancelled = true
+      unsubscribe?.()
+    }
+  }, [resource, projectId, reloadKey])
+
+  const reload = useCallback(() => setReloadKey((key) => key + 1), [])
+
+  return { data, setData, isLoading, error, reload }
+}
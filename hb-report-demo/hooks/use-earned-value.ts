@@ -0,0 +1,26 @@
+"use client"
+
+import { useMemo } from "react"
+import { useDataResource } from "@/hooks/use-data-resource"
+import { buildPortfolioEarnedValue } from "@/lib/financial/earned-value"
+
+/**
+ * Earned value for one project, or across every project when none (or "all") is given.
+ */
+export function useEarnedValue(projectId?: number | string) {
+  const query = { projectId: projectId === "all" ? undefined : projectId }
+  const { data: projects, isLoading: loadingProjects } = useDataResource("projects", query)
+  const { data: budget, isLoading: loadingBudget } = useDataResource("budget", query)
+  const { data: jobCost, isLoading: loadingJobCost } = useDataResource("job-cost-history", query)
+  const { data: payApplications } = useDataResource("pay-applications", query)
+  const { data: forecasts, isLoading: loadingForecasts } = useDataResource("forecasts", query)
+  const { data: schedule } = useDataResource("schedule", query)
+  const { data: changeEvents } = useDataResource("change-events", query)
+
+  const earnedValue = useMemo(
+    () => buildPortfolioEarnedValue(projects, { budget, jobCost, payApplications, forecasts, schedule, changeEvents }),
+    [projects, budget, jobCost, payApplications, forecasts, schedule, changeEvents],
+  )
+
+  return { ...earnedValue, isLoading: loadingProjects || loadingBudget || loadingJobCost || loadingForecasts }
+}
@@ -0,0 +1,61 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import type { FragNet } from "@/types/scheduler"
+
+const STORAGE_KEY = "hb-lookahead-fragnets"
+
+/**
+ * Custom fragnets for a project, persisted in localStorage alongside those of other projects.
+ */
+export function useFragNets(projectId: number) {
+  const [allFragNets, setAllFragNets] = useState<FragNet[]>([])
+  const [isLoaded, setIsLoaded] = useState(false)
+
+  // Load fragnets from localStorage
+  useEffect(() => {
+    if (typeof window !== "undefined") {
+      try {
+        const saved = localStorage.getItem(STORAGE_KEY)
+        setAllFragNets(saved ? (JSON.parse(saved) as FragNet[]) : [])
+      } catch (error) {
+        console.warn("Failed to load fragnets:", error)
+        setAllFragNets([])
+      }
+      setIsLoaded(true)
+    }
+  }, [])
+
+  const persist = useCallback((updated: FragNet[]) => {
+    setAllFragNets(updated)
+    if (typeof window !== "undefined") {
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(updated))
+      } catch (error) {
+        console.error("Failed to save fragnets:", error)
+      }
+    }
+  }, [])
+
+  const saveFragNet = useCallback(
+    (fragnet: FragNet) => {
+      const exists = allFragNets.some((f) => f.id === fragnet.id)
+      persist(exists ? allFragNets.map((f) => (f.id === fragnet.id ? fragnet : f)) : [...allFragNets, fragnet])
+    },
+    [allFragNets, persist],
+  )
+
+  const deleteFragNet = useCallback(
+    (id: string) => {
+      persist(allFragNets.filter((f) => f.id !== id))
+    },
+    [allFragNets, persist],
+  )
+
+  return {
+    fragnets: allFragNets.filter((f) => f.project_id === projectId),
+    isLoaded,
+    saveFragNet,
+    deleteFragNet,
+  }
+}
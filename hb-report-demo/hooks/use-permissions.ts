@@ -0,0 +1,23 @@
+"use client"
+
+import { useCallback } from "react"
+import type { ApprovalStep, PermissionAction, PermissionModule } from "@/types/permissions"
+import { useAuth } from "@/context/auth-context"
+import { canSignApprovalStep, hasPermission } from "@/lib/auth/permissions"
+
+/**
+ * The signed-in user's permissions. `can(module, action, projectId?, step?)` answers from the
+ * central permission matrix, and for approvals in a chain, whether the user's role signs that
+ * step; the API enforces the same rules server-side.
+ */
+export function usePermissions() {
+  const { user, grants, projects } = useAuth()
+
+  const can = useCallback(
+    (moduleId: PermissionModule, action: PermissionAction, projectId?: string | number | null, step?: ApprovalStep) =>
+      hasPermission(grants, projects, moduleId, action, projectId) && (!step || (!!user && canSignApprovalStep(user.role, step))),
+    [user, grants, projects],
+  )
+
+  return { can, grants, projects }
+}
@@ -0,0 +1,55 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import type { RetentionSide } from "@/types/retention"
+import { retentionRules } from "@/lib/financial/retention"
+
+const STORAGE_KEY = "hb-retention-rules"
+
+type ProjectRuleIds = Record<RetentionSide, string>
+
+const defaultRuleIds: ProjectRuleIds = { receivable: retentionRules[0].id, payable: retentionRules[0].id }
+
+const ruleFor = (id: string) => retentionRules.find((r) => r.id === id) ?? retentionRules[0]
+
+/**
+ * The owner and subcontract retention rules picked for a project, persisted in localStorage
+ * so retention management and sub-invoice entry withhold under the same rules.
+ */
+export function useRetentionRules(projectId: string) {
+  const [allRuleIds, setAllRuleIds] = useState<Record<string, ProjectRuleIds>>({})
+
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY)
+      setAllRuleIds(saved ? (JSON.parse(saved) as Record<string, ProjectRuleIds>) : {})
+    } catch (error) {
+      console.warn("Failed to load retention rules:", error)
+    }
+  }, [])
+
+  const ruleIds = allRuleIds[projectId] ?? defaultRuleIds
+
+  const setRuleId = useCallback(
+    (side: RetentionSide, ruleId: string) => {
+      setAllRuleIds((prev) => {
+        const updated = { ...prev, [projectId]: { ...(prev[projectId] ?? defaultRuleIds), [side]: ruleId } }
+        try {
+          localStorage.setItem(STORAGE_KEY, JSON.stringify(updated))
+        } catch (error) {
+          console.error("Failed to save retention rules:", error)
+        }
+        return updated
+      })
+    },
+    [projectId],
+  )
+
+  return {
+    receivableRuleId: ruleIds.receivable,
+    payableRuleId: ruleIds.payable,
+    receivableRule: ruleFor(ruleIds.receivable),
+    payableRule: ruleFor(ruleIds.payable),
+    setRuleId,
+  }
+}
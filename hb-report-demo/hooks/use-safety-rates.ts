@@ -0,0 +1,26 @@
+"use client"
+
+import { useMemo } from "react"
+import { useDataResource } from "@/hooks/use-data-resource"
+import { daysWithoutRecordable, incidentRates, lastRecordable, loggedHours } from "@/lib/field-reports/safety-incidents"
+
+/**
+ * TRIR and DART for one project, or across every project when none (or "all") is given,
+ * from the incident log and the hours on the daily logs.
+ */
+export function useSafetyRates(projectId?: number | string) {
+  const query = { projectId: projectId === "all" ? undefined : projectId }
+  const { data: incidents, isLoading: loadingIncidents } = useDataResource("safety-incidents", query)
+  const { data: dailyLogs, isLoading: loadingLogs } = useDataResource("daily-logs", query)
+
+  return useMemo(
+    () => ({
+      incidents,
+      rates: incidentRates(incidents, loggedHours(dailyLogs)),
+      lastRecordable: lastRecordable(incidents),
+      daysWithoutRecordable: daysWithoutRecordable(incidents),
+      isLoading: loadingIncidents || loadingLogs,
+    }),
+    [incidents, dailyLogs, loadingIncidents, loadingLogs],
+  )
+}
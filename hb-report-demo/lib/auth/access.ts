@@ -0,0 +1,19 @@
+// lib/auth/access.ts
+import type { DemoRole } from "@/types/auth"
+
+/**
+ * The project a request targets: /projects/{id}/…, /api/projects/{id} or ?projectId=.
+ * "all" and portfolio views are not a single project.
+ */
+export function getRequestedProject(url: URL) {
+  const fromPath = url.pathname.match(/^\/(?:api\/)?projects\/([^/]+)/)?.[1]
+  const projectId = fromPath ?? url.searchParams.get("projectId")
+  return projectId && projectId !== "all" ? decodeURIComponent(projectId) : null
+}
+
+/**
+ * Where a role lands after signing in.
+ */
+export function getHomeRoute(role: DemoRole) {
+  return role === "estimator" ? "/pre-con" : "/dashboard"
+}
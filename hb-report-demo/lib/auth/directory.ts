@@ -0,0 +1,11 @@
+// lib/auth/directory.ts
+import type { UserAccount } from "@/types/auth"
+import accounts from "@/data/mock/auth/users.json"
+
+/**
+ * The user directory: role, project assignments and (for the local provider) credentials.
+ */
+export function findAccount(email: string): UserAccount | null {
+  const normalized = email.trim().toLowerCase()
+  return (accounts as UserAccount[]).find((account) => account.email.toLowerCase() === normalized) ?? null
+}
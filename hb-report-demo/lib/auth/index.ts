@@ -0,0 +1,77 @@
+// lib/auth/index.ts
+import type { DemoRole, IdentityClaims, IdentityProvider, SessionPayload } from "@/types/auth"
+import { findAccount } from "@/lib/auth/directory"
+import { resolveGrants } from "@/lib/auth/permissions"
+import { listRecords } from "@/lib/data/file-store"
+import { createLocalProvider } from "@/lib/auth/providers/local-provider"
+import { createOidcProvider } from "@/lib/auth/providers/oidc-provider"
+
+/**
+ * Identity provider selected by environment:
+ *   AUTH_PROVIDER        local (default) | oidc
+ *   AUTH_OIDC_ISSUER     issuer URL, for oidc
+ *   AUTH_OIDC_CLIENT_ID / AUTH_OIDC_CLIENT_SECRET
+ */
+export function getIdentityProvider(): IdentityProvider {
+  if (process.env.AUTH_PROVIDER === "oidc") {
+    const issuer = process.env.AUTH_OIDC_ISSUER
+    const clientId = process.env.AUTH_OIDC_CLIENT_ID
+    if (!issuer || !clientId) throw new Error("AUTH_OIDC_ISSUER and AUTH_OIDC_CLIENT_ID are required for the oidc provider")
+    return createOidcProvider({ issuer, clientId, clientSecret: process.env.AUTH_OIDC_CLIENT_SECRET })
+  }
+  return createLocalProvider()
+}
+
+const DEMO_ROLES: DemoRole[] = ["executive", "project-executive", "project-manager", "estimator", "admin"]
+
+/**
+ * Problems with the claims a provider returned. Issuers differ in what they send, and a
+ * session can't be opened without a subject and an email to find the directory account.
+ */
+export function validateClaims(claims: Partial<IdentityClaims>) {
+  const issues: { path: string; message: string }[] = []
+  if (typeof claims.sub !== "string" || !claims.sub) issues.push({ path: "sub", message: "Subject claim is missing" })
+  if (typeof claims.email !== "string" || !claims.email) {
+    issues.push({ path: "email", message: "Email claim is missing; add the email scope to the client" })
+  }
+  if (claims.hb_role !== undefined && !DEMO_ROLES.includes(claims.hb_role)) {
+    issues.push({ path: "hb_role", message: `Unknown role ${String(claims.hb_role)}` })
+  }
+  if (claims.hb_projects !== undefined && claims.hb_projects !== "*" && !Array.isArray(claims.hb_projects)) {
+    issues.push({ path: "hb_projects", message: "Project claim must be a list of project ids or \"*\"" })
+  }
+  return issues
+}
+
+/**
+ * The session for an authenticated identity. Users need a directory account, which
+ * supplies any role or project claims the provider didn't send.
+ */
+export async function sessionFromClaims(claims: IdentityClaims, provider: string): Promise<Omit<SessionPayload, "iat" | "exp"> | null> {
+  if (validateClaims(claims).length > 0) return null
+  const account = findAccount(claims.email)
+  if (!account || !account.isActive) return null
+  const role = claims.hb_role ?? account.role
+  const permissions = claims.hb_permissions ?? account.permissions ?? {}
+  return {
+    sub: claims.sub,
+    email: account.email,
+    firstName: claims.given_name ?? account.firstName,
+    lastName: claims.family_name ?? account.lastName,
+    role,
+    company: account.company,
+    avatar: claims.picture ?? account.avatar,
+    permissions,
+    projects: claims.hb_projects ?? account.projects,
+    grants: resolveGrants(await listRecords("role-grants"), role, permissions),
+    provider,
+  }
+}
+
+/**
+ * The session's grants under the current permission matrix, so edits by an admin apply
+ * to API calls immediately rather than at the next sign-in.
+ */
+export async function getCurrentGrants(session: Pick<SessionPayload, "role" | "permissions">) {
+  return resolveGrants(await listRecords("role-grants"), session.role, session.permissions)
+}
@@ -0,0 +1,25 @@
+// lib/auth/password.ts
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto"
+
+// Stored as scrypt$<salt>$<hash>, both base64url
+const KEY_LENGTH = 64
+
+function deriveKey(password: string, salt: Buffer) {
+  return new Promise<Buffer>((resolve, reject) =>
+    scrypt(password, salt, KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key))),
+  )
+}
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16)
+  const key = await deriveKey(password, salt)
+  return `scrypt$${salt.toString("base64url")}$${key.toString("base64url")}`
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, hash] = stored.split("$")
+  if (scheme !== "scrypt" || !salt || !hash) return false
+  const expected = Buffer.from(hash, "base64url")
+  const key = await deriveKey(password, Buffer.from(salt, "base64url"))
+  return key.length === expected.length && timingSafeEqual(key, expected)
+}
@@ -0,0 +1,123 @@
+// lib/auth/permissions.ts
+import type { DemoRole, ProjectScope } from "@/types/auth"
+import type { DataResource } from "@/types/data-source"
+import type { ApprovalStep, GrantScope, PermissionAction, PermissionModule, RoleGrantRecord, RoleGrants } from "@/types/permissions"
+
+export const permissionModules: { id: PermissionModule; label: string; path?: string }[] = [
+  { id: "dashboard", label: "Dashboard", path: "/dashboard" },
+  { id: "reports", label: "Reports", path: "/dashboard/reports" },
+  { id: "staff-planning", label: "Staff Planning", path: "/dashboard/staff-planning" },
+  { id: "responsibility-matrix", label: "Responsibility Matrix", path: "/responsibility-matrix" },
+  { id: "financial-hub", label: "Financial Hub", path: "/dashboard/financial-hub" },
+  { id: "procurement", label: "Procurement", path: "/dashboard/procurement" },
+  { id: "scheduler", label: "Scheduler", path: "/dashboard/scheduler" },
+  { id: "constraints-log", label: "Constraints Log", path: "/dashboard/constraints-log" },
+  { id: "permit-log", label: "Permit Log", path: "/dashboard/permit-log" },
+  { id: "field-reports", label: "Field Reports", path: "/dashboard/field-reports" },
+  { id: "contract-documents", label: "Contract Documents", path: "/dashboard/contract-documents" },
+  { id: "trade-partners", label: "Trade Partners", path: "/dashboard/trade-partners" },
+  { id: "pre-construction", label: "Pre-Construction", path: "/pre-con" },
+  { id: "administration", label: "Administration", path: "/dashboard/admin" },
+]
+
+export const permissionActions: PermissionAction[] = ["view", "create", "edit", "approve", "export"]
+
+// Pages outside a module's own path that belong to it
+const extraModulePaths: { prefix: string; module: PermissionModule }[] = [
+  { prefix: "/operations", module: "dashboard" },
+  { prefix: "/projects", module: "pre-construction" },
+  { prefix: "/estimating", module: "pre-construction" },
+]
+
+const resourceModules: Record<DataResource, PermissionModule> = {
+  projects: "dashboard",
+  layouts: "dashboard",
+  budget: "financial-hub",
+  commitments: "financial-hub",
+  "prime-contracts": "financial-hub",
+  "prime-contract-payments": "financial-hub",
+  "vendor-payments": "financial-hub",
+  "job-cost-history": "financial-hub",
+  forecasts: "financial-hub",
+  "pay-applications": "financial-hub",
+  permits: "permit-log",
+  constraints: "constraints-log",
+  schedule: "scheduler",
+  "schedule-history": "scheduler",
+  staffing: "staff-planning",
+  spcrs: "staff-planning",
+  reports: "reports",
+  "role-grants": "administration",
+  "retention-releases": "financial-hub",
+  "change-events": "financial-hub",
+  "forecast-snapshots": "financial-hub",
+  "reconciliation-resolutions": "financial-hub",
+  "sub-invoices": "financial-hub",
+  "pay-authorizations": "financial-hub",
+  "daily-logs": "field-reports",
+  "checklist-templates": "field-reports",
+  "corrective-actions": "field-reports",
+  "safety-incidents": "field-reports",
+}
+
+const matchesPrefix = (pathname: string, prefix: string) => pathname === prefix || pathname.startsWith(`${prefix}/`)
+
+/**
+ * The module a page belongs to; the longest matching path wins. Pages outside every
+ * module only need a session.
+ */
+export function moduleForPath(pathname: string): PermissionModule | null {
+  const candidates = [
+    ...permissionModules.flatMap(({ id, path }) => (path ? [{ prefix: path, module: id }] : [])),
+    ...extraModulePaths,
+  ].filter(({ prefix }) => matchesPrefix(pathname, prefix))
+  return candidates.sort((a, b) => b.prefix.length - a.prefix.length)[0]?.module ?? null
+}
+
+export function moduleForResource(resource: DataResource) {
+  return resourceModules[resource]
+}
+
+/**
+ * A role's grants, plus any a user's own permission flags add (a PM with pre-construction
+ * access can view the pre-construction module for assigned projects).
+ */
+export function resolveGrants(records: RoleGrantRecord[], role: DemoRole, userPermissions: Record<string, boolean> = {}) {
+  const grants: RoleGrants = structuredClone(records.find((record) => record.role === role)?.grants ?? {})
+  if (userPermissions.preConAccess && !grants["pre-construction"]?.view) {
+    grants["pre-construction"] = { ...grants["pre-construction"], view: "assigned" }
+  }
+  return grants
+}
+
+// The approval step each role signs; admins may stand in for any
+const approvalStepRoles: Partial<Record<DemoRole, ApprovalStep>> = {
+  "project-manager": "PM",
+  "project-executive": "PX",
+  executive: "Executive",
+}
+
+export function canSignApprovalStep(role: string, step: ApprovalStep) {
+  return role === "admin" || approvalStepRoles[role as DemoRole] === step
+}
+
+export function isProjectAssigned(projects: ProjectScope, projectId: string | number) {
+  return projects === "*" || projects.some((id) => String(id) === String(projectId))
+}
+
+/**
+ * Whether grants allow an action in a module. With a project, "assigned" grants also
+ * require the project to be one of the user's; without one, any grant will do.
+ */
+export function hasPermission(
+  grants: RoleGrants,
+  projects: ProjectScope,
+  module: PermissionModule,
+  action: PermissionAction,
+  projectId?: string | number | null,
+) {
+  const scope: GrantScope | undefined = grants[module]?.[action]
+  if (!scope) return false
+  if (scope === "all" || projectId === undefined || projectId === null || projectId === "all") return true
+  return isProjectAssigned(projects, projectId)
+}
@@ -0,0 +1,32 @@
+// lib/auth/providers/local-provider.ts
+import type { IdentityProvider } from "@/types/auth"
+import { findAccount } from "@/lib/auth/directory"
+import { verifyPassword } from "@/lib/auth/password"
+
+export const LOCAL_ISSUER = "urn:hb-report:local"
+
+/**
+ * Stand-in for an OIDC issuer: checks the hashed directory credentials and returns the
+ * same claim set an OIDC provider's ID token would carry.
+ */
+export function createLocalProvider(): IdentityProvider {
+  return {
+    id: "local",
+
+    async authenticate(email, password) {
+      const account = findAccount(email)
+      if (!account || !account.isActive || !(await verifyPassword(password, account.passwordHash))) return null
+      return {
+        iss: LOCAL_ISSUER,
+        sub: account.id,
+        email: account.email,
+        given_name: account.firstName,
+        family_name: account.lastName,
+        picture: account.avatar,
+        hb_role: account.role,
+        hb_projects: account.projects,
+        hb_permissions: account.permissions,
+      }
+    },
+  }
+}
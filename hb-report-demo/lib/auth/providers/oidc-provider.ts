@@ -0,0 +1,60 @@
+// lib/auth/providers/oidc-provider.ts
+import type { IdentityClaims, IdentityProvider } from "@/types/auth"
+
+export interface OidcProviderConfig {
+  issuer: string
+  clientId: string
+  clientSecret?: string
+  scope?: string
+}
+
+interface OidcDiscovery {
+  token_endpoint: string
+  userinfo_endpoint: string
+}
+
+/**
+ * An external OpenID Connect issuer. Credentials are exchanged with the resource owner
+ * password grant, then the profile is read from the userinfo endpoint. Role and project
+ * claims the issuer doesn't send fall back to the user directory.
+ */
+export function createOidcProvider(config: OidcProviderConfig): IdentityProvider {
+  let discovery: Promise<OidcDiscovery> | null = null
+
+  const discover = () => {
+    discovery ??= fetch(`${config.issuer.replace(/\/$/, "")}/.well-known/openid-configuration`).then((response) => {
+      if (!response.ok) throw new Error(`OIDC discovery failed with ${response.status}`)
+      return response.json()
+    })
+    return discovery
+  }
+
+  return {
+    id: "oidc",
+
+    async authenticate(email, password) {
+      const { token_endpoint, userinfo_endpoint } = await discover()
+      const tokenResponse = await fetch(token_endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: new URLSearchParams({
+          grant_type: "password",
+          username: email,
+          password,
+          client_id: config.clientId,
+          ...(config.clientSecret ? { client_secret: config.clientSecret } : {}),
+          scope: config.scope ?? "openid email profile",
+        }),
+      })
+      // Rejected credentials come back as 400/401 invalid_grant
+      if (tokenResponse.status === 400 || tokenResponse.status === 401) return null
+      if (!tokenResponse.ok) throw new Error(`OIDC token request failed with ${tokenResponse.status}`)
+      const { access_token } = await tokenResponse.json()
+
+      const userinfo = await fetch(userinfo_endpoint, { headers: { Authorization: `Bearer ${access_token}` } })
+      if (!userinfo.ok) throw new Error(`OIDC userinfo request failed with ${userinfo.status}`)
+      const claims = (await userinfo.json()) as Omit<IdentityClaims, "iss">
+      return { ...claims, iss: config.issuer }
+    },
+  }
+}
@@ -0,0 +1,100 @@
+// lib/auth/session.ts
+import type { FeedTokenPayload, SessionPayload } from "@/types/auth"
+
+/**
+ * Signed session cookies (HMAC-SHA256 over the JSON payload). Uses Web Crypto only, so
+ * the same code verifies sessions in middleware and in route handlers.
+ */
+export const SESSION_COOKIE = "hb-session"
+export const SESSION_TTL_SECONDS = 8 * 60 * 60
+export const FEED_TOKEN_TTL_SECONDS = 365 * 24 * 60 * 60
+
+// Feed tokens are signed under their own prefix, so neither kind of token passes for the other
+const FEED_TOKEN_PREFIX = "feed."
+
+const DEV_SECRET = "hb-report-demo-development-secret"
+
+function getSecret() {
+  const secret = process.env.AUTH_SECRET
+  if (secret) return secret
+  if (process.env.NODE_ENV === "production") throw new Error("AUTH_SECRET must be set in production")
+  return DEV_SECRET
+}
+
+const encoder = new TextEncoder()
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = ""
+  bytes.forEach((b) => (binary += String.fromCharCode(b)))
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function fromBase64Url(value: string) {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"))
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0))
+}
+
+async function getKey() {
+  return crypto.subtle.importKey("raw", encoder.encode(getSecret()), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+    "verify",
+  ])
+}
+
+async function signPayload(payload: SessionPayload | FeedTokenPayload, prefix = "") {
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)))
+  const signature = await crypto.subtle.sign("HMAC", await getKey(), encoder.encode(prefix + body))
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`
+}
+
+async function verifyPayload<T extends { exp: number }>(token: string | null | undefined, prefix = ""): Promise<T | null> {
+  if (!token) return null
+  const [body, signature] = token.split(".")
+  if (!body || !signature) return null
+  try {
+    const valid = await crypto.subtle.verify("HMAC", await getKey(), fromBase64Url(signature), encoder.encode(prefix + body))
+    if (!valid) return null
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as T
+    return payload.exp > Math.floor(Date.now() / 1000) ? payload : null
+  } catch {
+    return null
+  }
+}
+
+export async function createSessionToken(session: Omit<SessionPayload, "iat" | "exp">) {
+  const now = Math.floor(Date.now() / 1000)
+  return signPayload({ ...session, iat: now, exp: now + SESSION_TTL_SECONDS })
+}
+
+/**
+ * The session in a token, or null when it is malformed, tampered with or expired.
+ */
+export function verifySessionToken(token: string | undefined): Promise<SessionPayload | null> {
+  return verifyPayload<SessionPayload>(token)
+}
+
+/**
+ * A token for a user's calendar feed of one project's permits, for calendar apps that
+ * subscribe by URL and can't send the session cookie.
+ */
+export async function createFeedToken(session: Pick<SessionPayload, "sub" | "email">, projectId: string) {
+  const now = Math.floor(Date.now() / 1000)
+  const { sub, email } = session
+  return signPayload({ sub, email, projectId, scope: "permits:view", iat: now, exp: now + FEED_TOKEN_TTL_SECONDS }, FEED_TOKEN_PREFIX)
+}
+
+export function verifyFeedToken(token: string | null | undefined): Promise<FeedTokenPayload | null> {
+  return verifyPayload<FeedTokenPayload>(token, FEED_TOKEN_PREFIX)
+}
+
+/**
+ * The session carried by a request's cookie.
+ */
+export function getRequestSession(request: Request) {
+  const cookie = request.headers.get("cookie") ?? ""
+  const token = cookie
+    .split(";")
+    .map((part) => part.trim().split("="))
+    .find(([name]) => name === SESSION_COOKIE)?.[1]
+  return verifySessionToken(token)
+}
@@ -0,0 +1,21 @@
+// lib/auth/user.ts
+import type { User } from "@/types"
+import type { SessionPayload } from "@/types/auth"
+
+/**
+ * The client-facing user for a session.
+ */
+export function userFromSession(session: Omit<SessionPayload, "iat" | "exp">): User {
+  return {
+    id: session.sub,
+    firstName: session.firstName,
+    lastName: session.lastName,
+    email: session.email,
+    role: session.role,
+    company: session.company,
+    createdAt: new Date().toISOString(),
+    isActive: true,
+    avatar: session.avatar,
+    permissions: session.permissions,
+  }
+}
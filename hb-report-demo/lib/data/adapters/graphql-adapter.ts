@@ -0,0 +1,95 @@
+// lib/data/adapters/graphql-adapter.ts
+import { ApolloClient, ApolloLink, HttpLink, InMemoryCache, gql } from "@apollo/client"
+import { GraphQLWsLink } from "@apollo/client/link/subscriptions"
+import { getMainDefinition } from "@apollo/client/utilities"
+import { createClient } from "graphql-ws"
+import type { DataAdapter, DataQuery, DataResource, DataResources } from "@/types/data-source"
+
+/*
+ * Records travel as a JSON scalar so one schema covers every resource:
+ *
+ *   scalar JSON
+ *   type Query {
+ *     records(resource: String!, projectId: String): [JSON!]!
+ *     record(resource: String!, id: String!): JSON
+ *   }
+ *   type Subscription {
+ *     recordsChanged(resource: String!, projectId: String): [JSON!]!
+ *   }
+ */
+const RECORDS = gql`
+  query Records($resource: String!, $projectId: String) {
+    records(resource: $resource, projectId: $projectId)
+  }
+`
+
+const RECORD = gql`
+  query Record($resource: String!, $id: String!) {
+    record(resource: $resource, id: $id)
+  }
+`
+
+const RECORDS_CHANGED = gql`
+  subscription RecordsChanged($resource: String!, $projectId: String) {
+    recordsChanged(resource: $resource, projectId: $projectId)
+  }
+`
+
+const projectVariable = (query: DataQuery) =>
+  query.projectId !== undefined && query.projectId !== "all" ? String(query.projectId) : null
+
+/**
+ * Reads resources through Apollo Client. Subscriptions use graphql-ws when a websocket
+ * endpoint is configured (browser only).
+ */
+export function createGraphqlAdapter(url: string, wsUrl?: string): DataAdapter {
+  const httpLink = new HttpLink({ uri: url })
+  const link =
+    wsUrl && typeof window !== "undefined"
+      ? ApolloLink.split(
+          ({ query }) => {
+            const definition = getMainDefinition(query)
+            return definition.kind === "OperationDefinition" && definition.operation === "subscription"
+          },
+          new GraphQLWsLink(createClient({ url: wsUrl })),
+          httpLink,
+        )
+      : httpLink
+
+  // Records are plain JSON without __typename, so results are not normalized
+  const client = new ApolloClient({ link, cache: new InMemoryCache(), defaultOptions: { query: { fetchPolicy: "no-cache" } } })
+
+  return {
+    name: "graphql",
+
+    async list<R extends DataResource>(resource: R, query: DataQuery = {}) {
+      const { data } = await client.query<{ records: DataResources[R][] }>({
+        query: RECORDS,
+        variables: { resource, projectId: projectVariable(query) },
+      })
+      return data?.records ?? []
+    },
+
+    async get<R extends DataResource>(resource: R, id: string | number) {
+      const { data } = await client.query<{ record: DataResources[R] | null }>({
+        query: RECORD,
+        variables: { resource, id: String(id) },
+      })
+      return data?.record ?? null
+    },
+
+    subscribe<R extends DataResource>(resource: R, onChange: (records: DataResources[R][]) => void, query: DataQuery = {}) {
+      if (!wsUrl) return () => {}
+      const subscription = client
+        .subscribe<{ recordsChanged: DataResources[R][] }>({
+          query: RECORDS_CHANGED,
+          variables: { resource, projectId: projectVariable(query) },
+        })
+        .subscribe({
+          next: ({ data }) => data && onChange(data.recordsChanged),
+          error: (error) => console.error(`Subscription to ${resource} failed:`, error),
+        })
+      return () => subscription.unsubscribe()
+    },
+  }
+}
@@ -0,0 +1,151 @@
+// lib/data/adapters/mock-adapter.ts
+import type { DataAdapter, DataQuery, DataResource, DataResources } from "@/types/data-source"
+
+interface MockResource {
+  // Loaded on first use so pages only pull in the files they read
+  load: () => Promise<unknown>
+  // The field that identifies a record, or the fields that do together when no one field is unique
+  idKey: string | string[]
+  matchesProject?: (record: any, projectId: string) => boolean
+}
+
+const byField = (field: string) => (record: any, projectId: string) => String(record[field]) === projectId
+
+// Composite ids join the key fields, e.g. "2525840:01-01-010.L" for a budget line
+const ID_SEPARATOR = ":"
+
+/**
+ * Where each resource lives under data/mock. Files wrapped in an object are unwrapped here.
+ */
+export const mockResources: Record<DataResource, MockResource> = {
+  projects: { load: () => import("@/data/mock/projects.json"), idKey: "project_id", matchesProject: byField("project_id") },
+  budget: { load: () => import("@/data/mock/financial/budget.json"), idKey: ["project_id", "Budget Code"], matchesProject: byField("project_id") },
+  commitments: { load: () => import("@/data/mock/contracts/commitments.json"), idKey: "Number", matchesProject: byField("project_id") },
+  "prime-contracts": { load: () => import("@/data/mock/contracts/prime-contracts.json"), idKey: "Number", matchesProject: byField("project_id") },
+  "prime-contract-payments": {
+    load: () => import("@/data/mock/financial/prime-contract-payments.json"),
+    idKey: "Invoice Number",
+    matchesProject: byField("project_id"),
+  },
+  // One check can pay several invoices
+  "vendor-payments": {
+    load: () => import("@/data/mock/financial/vendor-payments.json"),
+    idKey: ["Check Number", "Invoice Number"],
+    matchesProject: byField("project_id"),
+  },
+  "job-cost-history": { load: () => import("@/data/mock/financial/jchr.json"), idKey: "project_id", matchesProject: byField("project_id") },
+  forecasts: {
+    load: () => import("@/data/mock/financial/forecast_data.json"),
+    idKey: ["project_id", "forecast_type", "cost_code", "csi_code", "csi_description", "month"],
+    matchesProject: byField("project_id"),
+  },
+  permits: { load: () => import("@/data/mock/logs/permits.json"), idKey: "id", matchesProject: byField("projectId") },
+  constraints: { load: () => import("@/data/mock/logs/constraints.json"), idKey: "project_id", matchesProject: byField("project_id") },
+  schedule: { load: () => import("@/data/mock/schedule/schedule.json"), idKey: "activity_id", matchesProject: byField("project_id") },
+  "schedule-history": { load: () => import("@/data/mock/schedule/schedule_history.json"), idKey: "activity_id", matchesProject: byField("project_id") },
+  staffing: {
+    load: () => import("@/data/mock/staffing/staffing.json"),
+    idKey: "id",
+    matchesProject: (record, projectId) => record.assignments?.some((a: any) => String(a.project_id) === projectId),
+  },
+  spcrs: { load: () => import("@/data/mock/staffing/spcr.json"), idKey: "id", matchesProject: byField("project_id") },
+  reports: {
+    load: () => import("@/data/mock/reports/reports.json").then((m) => ({ default: m.default.reports })),
+    idKey: "id",
+    matchesProject: byField("projectId"),
+  },
+  layouts: {
+    load: async () => ({
+      default: await Promise.all([
+        import("@/data/mock/layouts/executive-layout.json"),
+        import("@/data/mock/layouts/project-executive-layout.json"),
+        import("@/data/mock/layouts/project-manager-layout.json"),
+        import("@/data/mock/layouts/financial-review-layout.json"),
+        import("@/data/mock/layouts/estimator-layout.json"),
+        import("@/data/mock/layouts/admin-layout.json"),
+      ]).then((layouts) => layouts.map((m) => m.default)),
+    }),
+    idKey: "id",
+  },
+  "pay-applications": {
+    load: () => import("@/data/mock/financial/aia-pay-applications.json").then((m) => ({ default: m.default.applications })),
+    idKey: "id",
+    matchesProject: byField("projectId"),
+  },
+  "role-grants": { load: () => import("@/data/mock/auth/permissions.json"), idKey: "role" },
+  "retention-releases": {
+    load: () => import("@/data/mock/financial/retention-releases.json"),
+    idKey: "id",
+    matchesProject: byField("projectId"),
+  },
+  "change-events": { load: () => import("@/data/mock/financial/change-events.json"), idKey: "id", matchesProject: byField("projectId") },
+  "forecast-snapshots": {
+    load: () => import("@/data/mock/financial/forecast-snapshots.json"),
+    idKey: "id",
+    matchesProject: byField("projectId"),
+  },
+  "reconciliation-resolutions": {
+    load: () => import("@/data/mock/financial/reconciliation-resolutions.json"),
+    idKey: "id",
+    matchesProject: byField("projectId"),
+  },
+  "sub-invoices": {
+    load: () => import("@/data/mock/financial/sub-invoices.json"),
+    idKey: "id",
+    matchesProject: byField("projectId"),
+  },
+  "pay-authorizations": {
+    load: () => import("@/data/mock/financial/pay-authorizations.json"),
+    idKey: "id",
+    matchesProject: byField("projectId"),
+  },
+  "daily-logs": { load: () => import("@/data/mock/logs/daily-log-sample.json"), idKey: "id", matchesProject: byField("project_id") },
+  "checklist-templates": { load: () => import("@/data/mock/inspections/checklist-templates.json"), idKey: "id" },
+  "corrective-actions": {
+    load: () => import("@/data/mock/inspections/corrective-actions.json"),
+    idKey: "id",
+    matchesProject: byField("projectId"),
+  },
+  "safety-incidents": {
+    load: () => import("@/data/mock/inspections/safety-incidents.json"),
+    idKey: "id",
+    matchesProject: byField("projectId"),
+  },
+}
+
+export const idFields = (resource: DataResource) => [mockResources[resource].idKey].flat()
+
+export const mockRecordId = (resource: DataResource, record: unknown) =>
+  idFields(resource)
+    .map((field) => String((record as Record<string, unknown>)[field]))
+    .join(ID_SEPARATOR)
+
+/**
+ * Loads a resource's full record set from data/mock.
+ */
+export async function loadMockRecords<R extends DataResource>(resource: R): Promise<DataResources[R][]> {
+  const loaded = (await mockResources[resource].load()) as { default?: unknown }
+  const records = loaded.default ?? loaded
+  return records as DataResources[R][]
+}
+
+/**
+ * Serves the bundled data/mock JSON. This is the default adapter.
+ */
+export function createMockAdapter(): DataAdapter {
+  return {
+    name: "mock",
+
+    async list<R extends DataResource>(resource: R, query: DataQuery = {}) {
+      const records = await loadMockRecords(resource)
+      const { matchesProject } = mockResources[resource]
+      if (query.projectId === undefined || query.projectId === "all" || !matchesProject) return records
+      return records.filter((record) => matchesProject(record, String(query.projectId)))
+    },
+
+    async get<R extends DataResource>(resource: R, id: string | number) {
+      const records = await loadMockRecords(resource)
+      return records.find((record) => mockRecordId(resource, record) === String(id)) ?? null
+    },
+  }
+}
@@ -0,0 +1,57 @@
+// lib/data/adapters/rest-adapter.ts
+import type { DataAdapter, DataQuery, DataResource, DataResources, WritableResource } from "@/types/data-source"
+
+/**
+ * Reads and writes resources on a REST backend:
+ *   GET    {baseUrl}/{resource}?projectId=…  → record[]
+ *   GET    {baseUrl}/{resource}/{id}         → record, or 404
+ *   POST   {baseUrl}/{resource}              → created record
+ *   PATCH  {baseUrl}/{resource}/{id}         → updated record
+ *   DELETE {baseUrl}/{resource}/{id}
+ * A request the server rejects throws its error message, with the response status attached.
+ */
+export function createRestAdapter(baseUrl: string): DataAdapter {
+  const root = baseUrl.replace(/\/$/, "")
+
+  const request = async (path: string, init: RequestInit = {}) => {
+    const method = init.method ?? "GET"
+    const response = await fetch(`${root}${path}`, {
+      ...init,
+      headers: { Accept: "application/json", ...(init.body ? { "Content-Type": "application/json" } : {}) },
+    })
+    if (response.status === 404 && method === "GET") return null
+    if (!response.ok) {
+      const body = await response.json().catch(() => null)
+      const message = body?.error ?? `${method} ${path} failed with ${response.status} ${response.statusText}`
+      throw Object.assign(new Error(message), { status: response.status })
+    }
+    return response.status === 204 ? null : response.json()
+  }
+
+  const recordPath = (resource: DataResource, id: string | number) => `/${resource}/${encodeURIComponent(id)}`
+
+  return {
+    name: "rest",
+
+    async list<R extends DataResource>(resource: R, query: DataQuery = {}) {
+      const params = query.projectId !== undefined && query.projectId !== "all" ? `?projectId=${encodeURIComponent(query.projectId)}` : ""
+      return ((await request(`/${resource}${params}`)) ?? []) as DataResources[R][]
+    },
+
+    async get<R extends DataResource>(resource: R, id: string | number) {
+      return (await request(recordPath(resource, id))) as DataResources[R] | null
+    },
+
+    async create<R extends WritableResource>(resource: R, record: DataResources[R]) {
+      return (await request(`/${resource}`, { method: "POST", body: JSON.stringify(record) })) as DataResources[R]
+    },
+
+    async update<R extends WritableResource>(resource: R, id: string | number, changes: Partial<DataResources[R]>) {
+      return (await request(recordPath(resource, id), { method: "PATCH", body: JSON.stringify(changes) })) as DataResources[R]
+    },
+
+    async remove(resource: WritableResource, id: string | number) {
+      await request(recordPath(resource, id), { method: "DELETE" })
+    },
+  }
+}
@@ -0,0 +1,289 @@
+// lib/data/api.ts
+import { NextResponse } from "next/server"
+import type { DataResource, DataResources, WritableResource } from "@/types/data-source"
+import type { SessionPayload } from "@/types/auth"
+import type { ApprovalStep, PermissionAction, RoleGrants } from "@/types/permissions"
+import { mockResources } from "@/lib/data/adapters/mock-adapter"
+import { getCurrentGrants } from "@/lib/auth"
+import { findAccount } from "@/lib/auth/directory"
+import { canSignApprovalStep, hasPermission, moduleForResource } from "@/lib/auth/permissions"
+import { getRequestSession, verifyFeedToken } from "@/lib/auth/session"
+import { isResolved } from "@/lib/financial/change-orders"
+import { executionStage } from "@/lib/financial/commitments"
+
+// Shared pieces of the app/api route handlers
+
+export function isDataResource(resource: string): resource is DataResource {
+  return resource in mockResources
+}
+
+export function errorResponse(status: number, error: string, issues?: { path: string; message: string }[]) {
+  return NextResponse.json(issues ? { error, issues } : { error }, { status })
+}
+
+/**
+ * The request body as a JSON object, or null when it is missing or not an object.
+ */
+export async function readJsonObject(request: Request): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await request.json()
+    return body && typeof body === "object" && !Array.isArray(body) ? body : null
+  } catch {
+    return null
+  }
+}
+
+// Each approval moves one record, or one document on it, a single step: from a status on the
+// left into one on the right. Writes that make any of these moves also need the approve grant.
+const approvalTransitions: Partial<Record<WritableResource, Record<string, string[]>>> = {
+  spcrs: { pending: ["approved"] },
+  "pay-applications": { submitted: ["pm_approved"], pm_approved: ["px_approved"], px_approved: ["executive_approved"] },
+  reports: { submitted: ["approved"], approved: ["published"] },
+  "retention-releases": { submitted: ["pm_approved"], pm_approved: ["px_approved"], px_approved: ["executive_approved"] },
+  "sub-invoices": { submitted: ["pm_approved"], pm_approved: ["px_approved"] },
+  "pay-authorizations": { draft: ["authorized"], authorized: ["released"] },
+  "corrective-actions": { completed: ["verified"] },
+  "safety-incidents": { open: ["closed"], investigating: ["closed"] },
+  commitments: { "out-for-signature": ["executed"] },
+  "change-events": { pending: ["approved"] },
+}
+
+type DocumentPath = (string | number)[]
+
+// An approvable document: the record itself (at the empty path) or one carried on it
+interface ApprovalDocument {
+  key: string
+  path: DocumentPath
+  status: string | undefined
+}
+
+// Records that carry several approvable documents, or keep their approval outside `status`
+const approvalDocuments: { [R in WritableResource]?: (record: DataResources[R]) => ApprovalDocument[] } = {
+  commitments: (commitment) => [{ key: "commitment", path: [], status: executionStage(commitment) }],
+  "change-events": (event) => [
+    ...(event.pco ? [{ key: "pco", path: ["pco"], status: event.pco.status }] : []),
+    ...(event.ownerCo ? [{ key: "owner-co", path: ["ownerCo"], status: event.ownerCo.status }] : []),
+    ...(event.subcontractCos ?? []).map((co, index) => ({ key: `subcontract-co:${co.id}`, path: ["subcontractCos", index], status: co.status })),
+  ],
+}
+
+function documentsOf(resource: WritableResource, record: unknown): ApprovalDocument[] {
+  if (!record) return []
+  const documents = approvalDocuments[resource] as ((record: unknown) => ApprovalDocument[]) | undefined
+  return documents ? documents(record) : [{ key: "record", path: [], status: (record as { status?: string }).status }]
+}
+
+const approvedStatuses = (resource: WritableResource) => Object.values(approvalTransitions[resource] ?? {}).flat()
+
+/**
+ * The documents a write moves into an approved status, with the status each moved from.
+ */
+function approvalMoves(resource: WritableResource, before: unknown, after: unknown) {
+  const previous = documentsOf(resource, before)
+  return documentsOf(resource, after)
+    .filter((document) => document.status && approvedStatuses(resource).includes(document.status))
+    .map((document) => ({ ...document, from: previous.find((other) => other.key === document.key)?.status }))
+    .filter((move) => move.from !== move.status)
+}
+
+export function isApproval(resource: WritableResource, before: unknown, after: unknown) {
+  return approvalMoves(resource, before, after).length > 0
+}
+
+/**
+ * Whether every approval a write makes is a single allowed step (PM approval before PX, a
+ * batch authorized before it is released).
+ */
+export function isAllowedApproval(resource: WritableResource, before: unknown, after: unknown) {
+  return approvalMoves(resource, before, after).every(
+    (move) => !!move.from && !!approvalTransitions[resource]?.[move.from]?.includes(move.status!),
+  )
+}
+
+// The step each approved status signs, on resources approved in a PM → PX (→ Executive) chain
+const approvalSteps: Partial<Record<WritableResource, Record<string, ApprovalStep>>> = {
+  "pay-applications": { pm_approved: "PM", px_approved: "PX", executive_approved: "Executive" },
+  "retention-releases": { pm_approved: "PM", px_approved: "PX", executive_approved: "Executive" },
+  "sub-invoices": { pm_approved: "PM", px_approved: "PX" },
+}
+
+/**
+ * Whether a role signs every approval step a write makes.
+ */
+export function canSignApprovals(role: string, resource: WritableResource, before: unknown, after: unknown) {
+  return approvalMoves(resource, before, after).every((move) => {
+    const step = approvalSteps[resource]?.[move.status!]
+    return !step || canSignApprovalStep(role, step)
+  })
+}
+
+// What signing off changes on the approved document: its status and who moved it when.
+// Trails (approvals, history) may only be appended to.
+const statusFields = new Set(["status", "Status", "Executed", "statusDate", "Signed Contract Received Date"])
+const signerFields: Record<string, string> = {
+  approvedBy: "approvedAt",
+  authorizedBy: "authorizedAt",
+  releasedBy: "releasedAt",
+  verifiedBy: "verifiedAt",
+  closedBy: "closedAt",
+}
+const signOffFields = new Set([...statusFields, ...Object.keys(signerFields), ...Object.values(signerFields), "verificationNotes", "updatedAt"])
+const signOffTrails = new Set(["approvals", "history", "executionHistory"])
+// Who made a trail entry
+const trailSignerFields = ["approver", "approverName", "by"]
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === "object" && !Array.isArray(value)
+
+function same(before: unknown, after: unknown): boolean {
+  if (Array.isArray(before) || Array.isArray(after)) {
+    return Array.isArray(before) && Array.isArray(after) && before.length === after.length && before.every((item, index) => same(item, after[index]))
+  }
+  if (!isObject(before) || !isObject(after)) return before === after
+  return [...new Set([...Object.keys(before), ...Object.keys(after)])].every((key) => same(before[key], after[key]))
+}
+
+const appendedTo = (before: unknown, after: unknown) => {
+  const trail = before ?? []
+  return Array.isArray(trail) && Array.isArray(after) && after.length >= trail.length && same(trail, after.slice(0, trail.length))
+}
+
+// Whether an object changes nothing but the given fields and additions to its trails
+function changesOnly(before: unknown, after: unknown, fields: Set<string>) {
+  if (!isObject(before) || !isObject(after)) return false
+  return [...new Set([...Object.keys(before), ...Object.keys(after)])].every(
+    (key) => fields.has(key) || same(before[key], after[key]) || (signOffTrails.has(key) && appendedTo(before[key], after[key])),
+  )
+}
+
+const valueAt = (record: unknown, path: DocumentPath) =>
+  path.reduce<unknown>((value, key) => (value as Record<string | number, unknown> | undefined)?.[key], record)
+
+function withValueAt(record: unknown, path: DocumentPath, value: unknown): unknown {
+  if (path.length === 0) return value
+  const [key, ...rest] = path
+  const copy = (Array.isArray(record) ? [...record] : { ...(record as object) }) as Record<string | number, unknown>
+  copy[key] = withValueAt(copy[key], rest, value)
+  return copy
+}
+
+// Approving the last document a change event needs closes the event
+const followOnFields: { [R in WritableResource]?: (after: DataResources[R]) => string[] } = {
+  "change-events": (event) => (event.status === "closed" && isResolved(event) ? ["status"] : []),
+}
+
+/**
+ * Whether a write does nothing but approve: it moves one record, or one document on it, a
+ * single allowed step and changes nothing else on it but who signed off when. These need
+ * the approve grant alone.
+ */
+export function isApprovalOnly(resource: WritableResource, before: unknown, after: unknown) {
+  const moves = approvalMoves(resource, before, after)
+  if (moves.length !== 1 || !isAllowedApproval(resource, before, after)) return false
+  const [{ key, path }] = moves
+  const others = (record: unknown) => documentsOf(resource, record).filter((document) => document.key !== key)
+  if (!same(others(before), others(after))) return false
+
+  const followOn = (followOnFields[resource] as ((after: unknown) => string[]) | undefined)?.(after) ?? []
+  const recordFields = new Set(["updatedAt", ...followOn])
+  return (
+    changesOnly(valueAt(before, path), valueAt(after, path), signOffFields) &&
+    changesOnly(before, withValueAt(after, path, valueAt(before, path)), path.length === 0 ? signOffFields : recordFields)
+  )
+}
+
+// Stamps the signer onto the entries a write appended to a record's trails
+function stampTrails(before: Record<string, unknown>, after: Record<string, unknown>, signer: string) {
+  const stamped = { ...after }
+  for (const key of signOffTrails) {
+    const trail = stamped[key]
+    if (!Array.isArray(trail)) continue
+    const kept = Array.isArray(before[key]) ? (before[key] as unknown[]).length : 0
+    stamped[key] = trail.map((entry, index) =>
+      index < kept || !isObject(entry)
+        ? entry
+        : { ...entry, ...Object.fromEntries(trailSignerFields.filter((field) => field in entry).map((field) => [field, signer])) },
+    )
+  }
+  return stamped
+}
+
+/**
+ * The record with the signer stamped on each approval it makes: the approved document's
+ * approvedBy (authorizedBy, …) and time, and the entries added to its trails, so sign-offs
+ * record the signed-in user rather than whatever name the client sent.
+ */
+export function stampSignOff<T>(resource: WritableResource, before: unknown, after: T, signer: string, date = new Date().toISOString()): T {
+  let stamped: unknown = after
+  for (const { path } of approvalMoves(resource, before, after)) {
+    const previous = (valueAt(before, path) ?? {}) as Record<string, unknown>
+    const document = { ...(valueAt(stamped, path) as Record<string, unknown>) }
+    for (const [byField, atField] of Object.entries(signerFields)) {
+      if (!(byField in document) || same(previous[byField], document[byField])) continue
+      document[byField] = signer
+      if (atField in document) document[atField] = date
+    }
+    stamped = withValueAt(stamped, path, stampTrails(previous, document, signer))
+  }
+  // Trails on the record itself (a change event's history) for approvals of its documents
+  return (isObject(stamped) && isObject(before) ? stampTrails(before, stamped, signer) : stamped) as T
+}
+
+// Records that lock once submitted: a change must stay submitted and add an amendment, and
+// they can't be deleted (after is null)
+const lockedRecords: { [R in WritableResource]?: (before: DataResources[R], after: DataResources[R] | null) => boolean } = {
+  "daily-logs": (before, after) =>
+    before.status === "submitted" &&
+    (after?.status !== "submitted" || (after.amendments?.length ?? 0) <= (before.amendments?.length ?? 0)),
+}
+
+export function isLockedEdit(resource: WritableResource, before: unknown, after: unknown) {
+  const locked = lockedRecords[resource] as ((before: unknown, after: unknown) => boolean) | undefined
+  return !!before && !!locked?.(before, after)
+}
+
+/**
+ * The signed-in session with its grants under the current permission matrix.
+ */
+export async function authorize(request: Request) {
+  const session = await getRequestSession(request)
+  return session ? { session, grants: await getCurrentGrants(session) } : null
+}
+
+export type Authorization = { session: Pick<SessionPayload, "sub" | "projects">; grants: RoleGrants }
+
+/**
+ * The holder of a calendar feed token, granted only what the token is for: viewing permits
+ * on its project. The directory account is read on every fetch, so the feed stops once the
+ * user is deactivated, taken off the project or loses the grant. Null for a bad or expired
+ * token, or one issued for another project.
+ */
+export async function authorizeFeed(token: string, projectId: string): Promise<Authorization | null> {
+  const feed = await verifyFeedToken(token)
+  if (!feed || feed.projectId !== projectId) return null
+  const account = findAccount(feed.email)
+  if (!account?.isActive) return null
+  const module = moduleForResource("permits")
+  const grants = await getCurrentGrants({ role: account.role, permissions: account.permissions ?? {} })
+  if (!hasPermission(grants, account.projects, module, "view", projectId)) return null
+  return { session: { sub: feed.sub, projects: account.projects }, grants: { [module]: { view: grants[module]?.view } } }
+}
+
+/**
+ * Whether the grants allow an action on a resource at all (for some project).
+ */
+export function canUseResource({ grants }: Authorization, resource: DataResource, action: PermissionAction) {
+  return !!grants[moduleForResource(resource)]?.[action]
+}
+
+/**
+ * Whether the grants allow an action on a specific record: "assigned" grants need the
+ * record to belong to one of the user's projects. Resources that aren't project-scoped
+ * only need the grant.
+ */
+export function isRecordPermitted({ session, grants }: Authorization, resource: DataResource, record: unknown, action: PermissionAction) {
+  const scope = grants[moduleForResource(resource)]?.[action]
+  if (!scope) return false
+  const { matchesProject } = mockResources[resource]
+  if (scope === "all" || session.projects === "*" || !matchesProject) return true
+  return session.projects.some((projectId) => matchesProject(record, String(projectId)))
+}
@@ -0,0 +1,120 @@
+// lib/data/file-store.ts
+import { randomUUID } from "node:crypto"
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises"
+import path from "node:path"
+import type { DataQuery, DataResource, DataResources, WritableResource } from "@/types/data-source"
+import type { RecordValidation } from "@/lib/data/schemas"
+import { loadMockRecords, mockRecordId, mockResources } from "@/lib/data/adapters/mock-adapter"
+
+/**
+ * Server-side JSON store behind the API routes. Each resource is one file under
+ * DATA_STORE_DIR (default .data/), seeded from data/mock the first time it is read.
+ * Writes are serialized per resource and replace the file atomically.
+ */
+const STORE_DIR = process.env.DATA_STORE_DIR ?? path.join(process.cwd(), ".data")
+
+const cache = new Map<DataResource, unknown[]>()
+const queues = new Map<DataResource, Promise<unknown>>()
+
+const fileFor = (resource: DataResource) => path.join(STORE_DIR, `${resource}.json`)
+
+export const recordId = mockRecordId
+
+async function load<R extends DataResource>(resource: R): Promise<DataResources[R][]> {
+  const cached = cache.get(resource)
+  if (cached) return cached as DataResources[R][]
+
+  let records: DataResources[R][]
+  try {
+    records = JSON.parse(await readFile(fileFor(resource), "utf8"))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error
+    records = structuredClone(await loadMockRecords(resource))
+    await save(resource, records)
+  }
+  cache.set(resource, records)
+  return records
+}
+
+async function save<R extends DataResource>(resource: R, records: DataResources[R][]) {
+  await mkdir(STORE_DIR, { recursive: true })
+  const file = fileFor(resource)
+  const temp = `${file}.${process.pid}.tmp`
+  await writeFile(temp, JSON.stringify(records, null, 2))
+  await rename(temp, file)
+  cache.set(resource, records)
+}
+
+// Runs one read-modify-write at a time per resource
+function enqueue<T>(resource: DataResource, task: () => Promise<T>): Promise<T> {
+  const previous = queues.get(resource) ?? Promise.resolve()
+  const next = previous.then(task, task)
+  queues.set(resource, next.catch(() => undefined))
+  return next
+}
+
+export async function listRecords<R extends DataResource>(resource: R, query: DataQuery = {}) {
+  const records = await load(resource)
+  const { matchesProject } = mockResources[resource]
+  if (query.projectId === undefined || query.projectId === "all" || !matchesProject) return records
+  return records.filter((record) => matchesProject(record, String(query.projectId)))
+}
+
+export async function getRecord<R extends DataResource>(resource: R, id: string) {
+  const records = await load(resource)
+  return records.find((record) => recordId(resource, record) === id) ?? null
+}
+
+/**
+ * An id for a new record: the next number where the resource uses numeric ids,
+ * otherwise a prefixed random id.
+ */
+export async function nextRecordId(resource: DataResource) {
+  const records = await load(resource)
+  const { idKey } = mockResources[resource]
+  const ids = typeof idKey === "string" ? records.map((record) => (record as Record<string, unknown>)[idKey]) : []
+  if (ids.length > 0 && ids.every((id) => typeof id === "number")) return Math.max(...(ids as number[])) + 1
+  return `${resource}-${randomUUID().slice(0, 8)}`
+}
+
+/**
+ * Adds a record. Resolves to null when one with the same id already exists.
+ */
+export function insertRecord<R extends DataResource>(resource: R, record: DataResources[R]) {
+  return enqueue(resource, async () => {
+    const records = await load(resource)
+    const id = recordId(resource, record)
+    if (records.some((existing) => recordId(resource, existing) === id)) return null
+    await save(resource, [...records, record])
+    return record
+  })
+}
+
+/**
+ * Applies `change` to the stored record and saves the result when it validates.
+ * Resolves to null when the record does not exist, otherwise to the validation.
+ */
+export function replaceRecord<R extends WritableResource>(
+  resource: R,
+  id: string,
+  change: (current: DataResources[R]) => RecordValidation<R>,
+) {
+  return enqueue(resource, async () => {
+    const records = await load(resource)
+    const index = records.findIndex((record) => recordId(resource, record) === id)
+    if (index === -1) return null
+    const result = change(records[index])
+    if (result.success) await save(resource, records.map((record, i) => (i === index ? result.record : record)))
+    return result
+  })
+}
+
+export function deleteRecord(resource: DataResource, id: string) {
+  return enqueue(resource, async () => {
+    const records = await load(resource)
+    const remaining = records.filter((record) => recordId(resource, record) !== id)
+    if (remaining.length === records.length) return false
+    await save(resource, remaining)
+    return true
+  })
+}
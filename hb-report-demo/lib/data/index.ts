@@ -0,0 +1,46 @@
+// lib/data/index.ts
+import type { DataAdapter, DataSourceConfig } from "@/types/data-source"
+import { createMockAdapter } from "@/lib/data/adapters/mock-adapter"
+import { createRestAdapter } from "@/lib/data/adapters/rest-adapter"
+import { createGraphqlAdapter } from "@/lib/data/adapters/graphql-adapter"
+
+/**
+ * Data source selected by environment:
+ *   NEXT_PUBLIC_DATA_SOURCE  mock (default) | rest | graphql
+ *   NEXT_PUBLIC_DATA_URL     REST base URL (default: this app's /api routes) or GraphQL endpoint
+ *   NEXT_PUBLIC_DATA_WS_URL  GraphQL subscriptions endpoint
+ */
+export function getDataSourceConfig(): DataSourceConfig {
+  const adapter = process.env.NEXT_PUBLIC_DATA_SOURCE
+  return {
+    adapter: adapter === "rest" || adapter === "graphql" ? adapter : "mock",
+    url: process.env.NEXT_PUBLIC_DATA_URL,
+    wsUrl: process.env.NEXT_PUBLIC_DATA_WS_URL,
+  }
+}
+
+export function createDataSource(config: DataSourceConfig): DataAdapter {
+  switch (config.adapter) {
+    case "rest":
+      return createRestAdapter(config.url ?? "/api")
+    case "graphql":
+      if (!config.url) throw new Error("NEXT_PUBLIC_DATA_URL is required for the GraphQL data source")
+      return createGraphqlAdapter(config.url, config.wsUrl)
+    default:
+      return createMockAdapter()
+  }
+}
+
+let dataSource: DataAdapter | null = null
+
+/**
+ * The app-wide data source. Swap it (e.g. in tests or stories) with setDataSource.
+ */
+export function getDataSource() {
+  if (!dataSource) dataSource = createDataSource(getDataSourceConfig())
+  return dataSource
+}
+
+export function setDataSource(adapter: DataAdapter) {
+  dataSource = adapter
+}
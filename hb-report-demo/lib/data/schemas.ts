@@ -0,0 +1,560 @@
+// lib/data/schemas.ts
+import * as z from "zod"
+import type { DataResources, WritableResource } from "@/types/data-source"
+import type { PermissionModule } from "@/types/permissions"
+import { permissionModules } from "@/lib/auth/permissions"
+
+// Validation for API writes, mirroring the required fields and enums of the types in types/.
+// Objects are loose so fields the types allow through index signatures or later additions
+// are kept.
+
+const isoDate = z.string().min(1).refine((value) => !Number.isNaN(Date.parse(value)), "Expected an ISO date")
+const optionalDate = isoDate.nullish().or(z.literal(""))
+
+const projectSchema = z.looseObject({
+  project_id: z.number().int().positive(),
+  name: z.string().min(1),
+  display_name: z.string().optional(),
+  active: z.boolean(),
+  duration: z.number().nonnegative().optional(),
+  square_feet: z.number().nonnegative().optional(),
+  total_value: z.number().nonnegative().optional(),
+  completion_date: optionalDate,
+})
+
+const inspectionSchema = z.looseObject({
+  id: z.string().min(1),
+  permitId: z.string().min(1),
+  type: z.string().min(1),
+  scheduledDate: optionalDate,
+  completedDate: optionalDate,
+  inspector: z.string(),
+  result: z.enum(["passed", "failed", "conditional", "pending"]),
+  complianceScore: z.number().min(0).max(100).nullish(),
+  reinspectionOf: z.string().optional(),
+  createdAt: isoDate,
+  updatedAt: isoDate,
+})
+
+const permitSchema = z.looseObject({
+  id: z.string().min(1),
+  projectId: z.union([z.string().min(1), z.number()]),
+  number: z.string().min(1),
+  type: z.string().min(1),
+  status: z.enum(["pending", "approved", "expired", "rejected", "renewed"]),
+  priority: z.enum(["low", "medium", "high", "urgent", "critical"]).optional(),
+  authority: z.string().min(1),
+  applicationDate: isoDate,
+  approvalDate: optionalDate,
+  expirationDate: isoDate,
+  renewalDate: optionalDate,
+  cost: z.number().min(0).optional(),
+  bondAmount: z.number().min(0).optional(),
+  description: z.string(),
+  conditions: z.array(z.string()).optional(),
+  tags: z.array(z.string()).optional(),
+  inspections: z.array(inspectionSchema).default([]),
+  // Permits imported from the authority portals carry no audit fields
+  createdBy: z.string().optional(),
+  createdAt: isoDate.optional(),
+  updatedAt: isoDate.optional(),
+})
+
+const constraintSchema = z.looseObject({
+  id: z.string().min(1),
+  no: z.string(),
+  category: z.string().min(1),
+  description: z.string(),
+  dateIdentified: z.string(),
+  daysElapsed: z.number(),
+  assigned: z.string(),
+  dueDate: z.string(),
+  completionStatus: z.enum(["Identified", "Pending", "In Progress", "Closed"]),
+  dateClosed: z.string(),
+})
+
+const constraintProjectSchema = z.looseObject({
+  project_id: z.union([z.string().min(1), z.number()]),
+  name: z.string().min(1),
+  department: z.string(),
+  constraints: z.array(constraintSchema),
+})
+
+const spcrSchema = z.looseObject({
+  id: z.string().min(1),
+  project_id: z.number().int(),
+  type: z.enum(["increase", "decrease"]),
+  position: z.string().min(1),
+  startDate: isoDate,
+  endDate: isoDate,
+  budget: z.number(),
+  explanation: z.string(),
+  status: z.enum(["pending", "approved", "rejected"]),
+  createdBy: z.string(),
+  createdAt: isoDate,
+  updatedAt: isoDate,
+})
+
+const aiaLineItemSchema = z.looseObject({
+  id: z.string().min(1),
+  description: z.string(),
+  scheduledValue: z.number(),
+  workCompletedPrevious: z.number(),
+  workCompletedThisPeriod: z.number(),
+  materialsStoredToDate: z.number(),
+  totalCompleted: z.number(),
+  percentComplete: z.number(),
+  balanceToFinish: z.number(),
+  retentionAmount: z.number(),
+  hasDiscrepancy: z.boolean(),
+})
+
+const payApplicationSchema = z.looseObject({
+  id: z.string().min(1),
+  applicationNumber: z.number().int().positive(),
+  projectId: z.string().min(1),
+  projectName: z.string(),
+  contractSum: z.number(),
+  changeOrdersApproved: z.number(),
+  revisedContractSum: z.number(),
+  periodEndDate: isoDate,
+  applicationDate: isoDate,
+  workCompletedToDate: z.number(),
+  totalEarned: z.number(),
+  retentionPercentage: z.number().min(0).max(100),
+  retentionAmount: z.number(),
+  netAmountDue: z.number(),
+  status: z.enum(["draft", "submitted", "pm_approved", "px_approved", "executive_approved", "rejected", "paid"]),
+  approvals: z.array(z.looseObject({ id: z.string(), approverRole: z.enum(["PM", "PX", "Executive"]), status: z.string() })),
+  lineItems: z.array(aiaLineItemSchema),
+  version: z.number().int(),
+})
+
+const reportSchema = z.looseObject({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  type: z.enum(["financial-review", "monthly-progress", "monthly-owner"]),
+  projectId: z.string().min(1),
+  status: z.enum(["draft", "submitted", "approved", "rejected", "published"]),
+  creatorId: z.string(),
+  createdAt: isoDate,
+  updatedAt: isoDate,
+  // Report summaries list no sections until the report is opened in the editor
+  sections: z.array(z.looseObject({ id: z.string(), title: z.string(), order: z.number(), enabled: z.boolean() })).optional(),
+  metadata: z.looseObject({ sectionCount: z.number(), pageCount: z.number() }).optional(),
+  version: z.number().int(),
+  tags: z.array(z.string()),
+})
+
+const retentionReleaseSchema = z.looseObject({
+  id: z.string().min(1),
+  projectId: z.number().int(),
+  side: z.enum(["receivable", "payable"]),
+  reference: z.string().min(1),
+  counterparty: z.string(),
+  kind: z.enum(["partial", "final"]),
+  amount: z.number().positive(),
+  reason: z.string(),
+  status: z.enum(["submitted", "pm_approved", "px_approved", "executive_approved", "rejected", "paid"]),
+  closeout: z
+    .looseObject({ punchListComplete: z.boolean(), finalLienWaiver: z.boolean(), closeoutDocuments: z.boolean() })
+    .optional(),
+  approvals: z.array(
+    z.looseObject({
+      role: z.enum(["PM", "PX", "Executive"]),
+      approver: z.string(),
+      decision: z.enum(["approved", "rejected"]),
+      date: isoDate,
+    }),
+  ),
+  requestedBy: z.string(),
+  requestedAt: isoDate,
+  expectedCashDate: isoDate,
+  paidDate: isoDate.optional(),
+})
+
+const changeDocumentSchema = z.looseObject({
+  number: z.string().min(1),
+  status: z.enum(["draft", "pending", "approved", "rejected"]),
+  statusDate: isoDate,
+})
+
+const changeEventSchema = z.looseObject({
+  id: z.string().min(1),
+  projectId: z.number().int(),
+  number: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string(),
+  reason: z.enum(["owner-request", "design-change", "unforeseen-condition", "code-requirement", "scope-gap"]),
+  scope: z.enum(["out-of-scope", "in-scope"]),
+  markupPercent: z.number().min(0),
+  status: z.enum(["open", "closed", "void"]),
+  lineItems: z.array(
+    z.looseObject({
+      id: z.string().min(1),
+      budgetCode: z.string().min(1),
+      description: z.string(),
+      cost: z.number(),
+      commitmentNumber: z.string().optional(),
+    }),
+  ),
+  pco: changeDocumentSchema.optional(),
+  ownerCo: changeDocumentSchema.optional(),
+  subcontractCos: z.array(
+    changeDocumentSchema.extend({ id: z.string().min(1), commitmentNumber: z.string().min(1), vendor: z.string(), amount: z.number() }),
+  ),
+  history: z.array(z.looseObject({ stage: z.string(), number: z.string(), status: z.string(), date: isoDate, by: z.string() })),
+  createdBy: z.string(),
+  createdAt: isoDate,
+  updatedAt: isoDate,
+})
+
+const monthKey = z.string().regex(/^\d{4}-\d{2}$/, "Expected a yyyy-MM month")
+
+const forecastSnapshotSchema = z.looseObject({
+  id: z.string().min(1),
+  projectId: z.number().int(),
+  period: monthKey,
+  version: z.number().int().positive(),
+  lines: z.array(
+    z.looseObject({
+      lineId: z.string().min(1),
+      forecast_method: z.enum(["Manual", "HBI Forecast", "Linear", "S Curve", "Bell Curve"]),
+      weight: z.number().min(1).max(10),
+      start_date: z.string().min(1),
+      end_date: z.string().min(1),
+      budget: z.number(),
+      cost_to_complete: z.number(),
+      estimated_at_completion: z.number(),
+      variance: z.number(),
+      monthly: z.record(monthKey, z.number()),
+    }),
+  ),
+  createdBy: z.string(),
+  createdAt: isoDate,
+})
+
+const discrepancyResolutionSchema = z.looseObject({
+  id: z.string().min(1),
+  projectId: z.number().int(),
+  costCode: z.string().min(1),
+  field: z.enum(["budget", "actualCost", "committedCost"]),
+  status: z.enum(["explained", "resolved"]),
+  difference: z.number(),
+  note: z.string().min(1),
+  by: z.string(),
+  at: isoDate,
+})
+
+const subInvoiceSchema = z.looseObject({
+  id: z.string().min(1),
+  projectId: z.number().int(),
+  commitmentNumber: z.string().min(1),
+  vendor: z.string(),
+  invoiceNumber: z.string().min(1),
+  periodStart: isoDate,
+  periodEnd: isoDate,
+  receivedDate: isoDate,
+  lines: z.array(
+    z.looseObject({
+      id: z.string().min(1),
+      description: z.string(),
+      scheduledValue: z.number(),
+      previousBilled: z.number(),
+      thisPeriod: z.number(),
+    }),
+  ),
+  retainagePercent: z.number().min(0).max(100),
+  lienWaivers: z.array(
+    z.looseObject({
+      kind: z.enum(["conditional-progress", "unconditional-progress", "conditional-final", "unconditional-final"]),
+      invoiceId: z.string().min(1),
+      amount: z.number(),
+      throughDate: isoDate,
+      received: z.boolean(),
+      receivedDate: isoDate.optional(),
+    }),
+  ),
+  insurance: z.array(
+    z.looseObject({
+      type: z.enum(["general-liability", "workers-compensation", "auto-liability", "umbrella"]),
+      carrier: z.string(),
+      policyNumber: z.string(),
+      expires: isoDate,
+    }),
+  ),
+  status: z.enum(["draft", "submitted", "pm_approved", "px_approved", "rejected", "paid"]),
+  approvals: z.array(
+    z.looseObject({
+      role: z.enum(["PM", "PX"]),
+      approver: z.string(),
+      decision: z.enum(["approved", "rejected"]),
+      date: isoDate,
+    }),
+  ),
+  batchId: z.string().nullable().optional(),
+  paidDate: isoDate.optional(),
+  createdBy: z.string(),
+  createdAt: isoDate,
+  updatedAt: isoDate,
+})
+
+const payAuthorizationSchema = z.looseObject({
+  id: z.string().min(1),
+  projectId: z.number().int(),
+  number: z.string().min(1),
+  invoiceIds: z.array(z.string().min(1)).min(1),
+  paymentMethod: z.enum(["ACH", "Check", "Wire"]),
+  paymentDate: isoDate,
+  amount: z.number().nonnegative(),
+  status: z.enum(["draft", "authorized", "released", "void"]),
+  createdBy: z.string(),
+  createdAt: isoDate,
+  authorizedAt: isoDate.optional(),
+  releasedAt: isoDate.optional(),
+})
+
+const vendorPaymentSchema = z.looseObject({
+  project_id: z.number().int(),
+  Invoice: z.string().min(1),
+  "Payment Number": z.number().int(),
+  "Check Number": z.string().min(1),
+  "Invoice Number": z.string(),
+  "Payment Method": z.string(),
+  Amount: z.number(),
+  "Date Paid": isoDate,
+})
+
+const commitmentSchema = z.looseObject({
+  project_id: z.number().int(),
+  Number: z.string().min(1),
+  "Contract Type": z.enum(["Subcontract", "Purchase Order"]),
+  Status: z.enum(["Draft", "Pending", "Out For Signature", "Approved"]),
+  Executed: z.enum(["Yes", "No"]),
+  Vendor: z.string().min(1),
+  "Signed Contract Received Date": optionalDate,
+  executionHistory: z
+    .array(
+      z.looseObject({
+        stage: z.enum(["draft", "out-for-signature", "executed"]),
+        date: isoDate,
+        by: z.string(),
+      }),
+    )
+    .optional(),
+})
+
+// Manpower, weather and activity rows keep the Procore export's snake_case fields
+const dailyLogSchema = z.looseObject({
+  id: z.string().min(1),
+  project_id: z.number().int(),
+  project_name: z.string(),
+  date: isoDate,
+  created_by: z.string().min(1),
+  status: z.enum(["draft", "submitted"]),
+  submitted_at: isoDate.optional(),
+  submitted_by: z.string().optional(),
+  weather_report: z.looseObject({}),
+  observed_weather_conditions: z.array(
+    z.looseObject({
+      time_observed: z.string(),
+      weather_delay: z.enum(["Yes", "No"]),
+      sky: z.string(),
+    }),
+  ),
+  manpower_log: z.looseObject({
+    total_workers: z.number().int().nonnegative(),
+    total_hours: z.number().nonnegative(),
+    entries: z.array(
+      z.looseObject({
+        contact_company: z.string().min(1),
+        workers: z.number().int().nonnegative(),
+        hours: z.number().nonnegative(),
+        total_hours: z.number().nonnegative(),
+        location: z.string(),
+      }),
+    ),
+  }),
+  activities: z.array(
+    z.looseObject({
+      id: z.string().min(1),
+      type: z.enum(["task", "inspection", "delivery", "safety", "other"]),
+      description: z.string().min(1),
+      status: z.enum(["completed", "in-progress", "planned"]),
+      responsible_party: z.string(),
+    }),
+  ),
+  comments: z.string(),
+  delays: z
+    .array(
+      z.looseObject({
+        id: z.string().min(1),
+        type: z.enum(["weather", "material", "inspection", "labor", "owner", "other"]),
+        description: z.string().min(1),
+        hoursLost: z.number().nonnegative(),
+        responsibleParty: z.string(),
+      }),
+    )
+    .optional(),
+  visitors: z.array(z.looseObject({ id: z.string().min(1), name: z.string().min(1), company: z.string() })).optional(),
+  deliveries: z.array(z.looseObject({ id: z.string().min(1), supplier: z.string().min(1), description: z.string() })).optional(),
+  photos: z.array(z.looseObject({ id: z.string().min(1), name: z.string(), dataUrl: z.string().startsWith("data:image/") })).optional(),
+  amendments: z
+    .array(z.looseObject({ amendedBy: z.string().min(1), amendedAt: isoDate, reason: z.string().min(1) }))
+    .optional(),
+})
+
+const checklistTemplateSchema = z.looseObject({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  kind: z.enum(["safety", "quality"]),
+  inspectionType: z.string().min(1),
+  specSection: z.string().optional(),
+  correctionDays: z.number().int().nonnegative(),
+  sections: z
+    .array(
+      z.looseObject({
+        id: z.string().min(1),
+        title: z.string().min(1),
+        items: z
+          .array(
+            z.looseObject({
+              id: z.string().min(1),
+              question: z.string().min(1),
+              weight: z.number().min(1).max(5),
+              requiresPhoto: z.boolean(),
+              specSection: z.string().optional(),
+              verificationStep: z.string().optional(),
+            }),
+          )
+          .min(1),
+      }),
+    )
+    .min(1),
+  updatedBy: z.string(),
+  updatedAt: isoDate,
+})
+
+const correctiveActionSchema = z
+  .looseObject({
+    id: z.string().min(1),
+    kind: z.enum(["safety", "quality"]),
+    projectId: z.number().int(),
+    inspectionId: z.number().int(),
+    question: z.string().min(1),
+    owner: z.string().trim().min(1, "Assign an owner"),
+    dueDate: isoDate,
+    status: z.enum(["open", "completed", "verified"]),
+    verificationStep: z.string().min(1),
+    requiresPhoto: z.boolean(),
+    completedBy: z.string().nullable().optional(),
+    completedAt: isoDate.nullable().optional(),
+    photo: z.looseObject({ name: z.string(), dataUrl: z.string().startsWith("data:image/") }).optional(),
+    verifiedBy: z.string().optional(),
+    verifiedAt: isoDate.optional(),
+    updatedAt: isoDate,
+  })
+  .refine((action) => action.status !== "completed" || !!action.completedBy, {
+    message: "Completed actions record who completed them",
+    path: ["completedBy"],
+  })
+
+const safetyIncidentSchema = z
+  .looseObject({
+    id: z.string().min(1),
+    caseNumber: z.string().regex(/^\d{4}-\d{3,}$/).nullable().optional(),
+    projectId: z.number().int(),
+    projectName: z.string(),
+    trade: z.string().min(1),
+    location: z.string().min(1),
+    occurredOn: isoDate,
+    type: z.enum(["near-miss", "first-aid", "recordable", "property-damage"]),
+    description: z.string().min(1),
+    outcome: z.enum(["death", "days-away", "job-transfer", "other-recordable"]).nullable().optional(),
+    caseType: z.enum(["injury", "skin-disorder", "respiratory", "poisoning", "hearing-loss", "other-illness"]).nullable().optional(),
+    daysAway: z.number().int().nonnegative(),
+    daysRestricted: z.number().int().nonnegative(),
+    privacyCase: z.boolean(),
+    status: z.enum(["open", "investigating", "closed"]),
+    reportedBy: z.string().min(1),
+    reportedAt: isoDate,
+    updatedAt: isoDate,
+  })
+  .refine((incident) => incident.type !== "recordable" || (!!incident.caseNumber && !!incident.outcome && !!incident.caseType), {
+    message: "Recordables need a case number, outcome and case type",
+    path: ["outcome"],
+  })
+
+const grantScope = z.enum(["assigned", "all"])
+
+const roleGrantSchema = z.looseObject({
+  role: z.enum(["executive", "project-executive", "project-manager", "estimator", "admin"]),
+  grants: z.partialRecord(
+    z.enum(permissionModules.map(({ id }) => id) as [PermissionModule, ...PermissionModule[]]),
+    z.strictObject({
+      view: grantScope.optional(),
+      create: grantScope.optional(),
+      edit: grantScope.optional(),
+      approve: grantScope.optional(),
+      export: grantScope.optional(),
+    }),
+  ),
+  updatedBy: z.string().optional(),
+  updatedAt: isoDate.optional(),
+}).refine((record) => record.role !== "admin" || record.grants.administration?.edit === "all", {
+  message: "Admins must keep full administration access",
+  path: ["grants", "administration"],
+})
+
+export const recordSchemas: Record<WritableResource, z.ZodType> = {
+  projects: projectSchema,
+  permits: permitSchema,
+  constraints: constraintProjectSchema,
+  spcrs: spcrSchema,
+  "pay-applications": payApplicationSchema,
+  reports: reportSchema,
+  "role-grants": roleGrantSchema,
+  "retention-releases": retentionReleaseSchema,
+  "change-events": changeEventSchema,
+  "forecast-snapshots": forecastSnapshotSchema,
+  "reconciliation-resolutions": discrepancyResolutionSchema,
+  "sub-invoices": subInvoiceSchema,
+  "pay-authorizations": payAuthorizationSchema,
+  "vendor-payments": vendorPaymentSchema,
+  commitments: commitmentSchema,
+  "daily-logs": dailyLogSchema,
+  "checklist-templates": checklistTemplateSchema,
+  "corrective-actions": correctiveActionSchema,
+  "safety-incidents": safetyIncidentSchema,
+}
+
+export function isWritableResource(resource: string): resource is WritableResource {
+  return resource in recordSchemas
+}
+
+// Fields a write clears by sending null; a null on any other field is validated like any value
+const clearableFields: Partial<Record<WritableResource, string[]>> = {
+  "sub-invoices": ["batchId"],
+  "corrective-actions": ["completedBy", "completedAt"],
+  "safety-incidents": ["caseNumber", "outcome", "caseType"],
+}
+
+export function isClearableField(resource: WritableResource, field: string): boolean {
+  return clearableFields[resource]?.includes(field) ?? false
+}
+
+export type RecordValidation<R extends WritableResource> =
+  | { success: true; record: DataResources[R] }
+  | { success: false; issues: { path: string; message: string }[] }
+
+/**
+ * Checks a full record before it is stored.
+ */
+export function validateRecord<R extends WritableResource>(resource: R, value: unknown): RecordValidation<R> {
+  const result = recordSchemas[resource].safeParse(value)
+  if (result.success) return { success: true, record: result.data as DataResources[R] }
+  return {
+    success: false,
+    issues: result.error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message })),
+  }
+}
@@ -0,0 +1,224 @@
+// lib/field-reports/checklists.ts
+import { addDays, format, isBefore, parseISO, startOfDay } from "date-fns"
+import type {
+  ChecklistInspection,
+  ChecklistKind,
+  ChecklistQuestion,
+  ChecklistScore,
+  ChecklistTemplate,
+  CorrectiveAction,
+  CorrectiveActionPhoto,
+} from "@/types/checklists"
+
+// Answers that fail an item; "N/A" is left out of the score
+export const failingResponse: Record<ChecklistKind, string> = { safety: "At Risk", quality: "No" }
+
+export const checklistKindLabels: Record<ChecklistKind, string> = { safety: "Safety Audit", quality: "QA/QC" }
+
+export const MIN_QUESTION_WEIGHT = 1
+export const MAX_QUESTION_WEIGHT = 5
+
+const slug = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+
+const normalize = (question: string) => question.trim().toLowerCase().replace(/\s+/g, " ")
+
+export const templateQuestions = (template: ChecklistTemplate) => template.sections.flatMap((section) => section.items)
+
+export function templateFor(templates: ChecklistTemplate[], kind: ChecklistKind, inspectionType: string) {
+  return templates.find((template) => template.kind === kind && template.inspectionType === inspectionType)
+}
+
+// Inspections record question text, not item ids
+export function findQuestion(template: ChecklistTemplate | undefined, question: string) {
+  if (!template) return undefined
+  const key = normalize(question)
+  return templateQuestions(template).find((item) => normalize(item.question) === key)
+}
+
+/**
+ * Weighted compliance score for an inspection. Questions missing from the template (or an
+ * inspection without one) count at the lowest weight.
+ */
+export function scoreChecklist(inspection: Pick<ChecklistInspection, "kind" | "responses">, template?: ChecklistTemplate): ChecklistScore {
+  let earned = 0
+  let possible = 0
+  const failed: ChecklistQuestion[] = []
+  const missingPhotos: ChecklistQuestion[] = []
+  for (const { question, response, photos } of inspection.responses) {
+    if (response === "N/A") continue
+    const item = findQuestion(template, question) ?? { id: slug(question), question, weight: MIN_QUESTION_WEIGHT, requiresPhoto: false }
+    possible += item.weight
+    if (response !== failingResponse[inspection.kind]) earned += item.weight
+    else {
+      failed.push(item)
+      if (item.requiresPhoto && !photos?.length) missingPhotos.push(item)
+    }
+  }
+  return {
+    score: possible > 0 ? Math.round((earned / possible) * 100) : 100,
+    earned,
+    possible,
+    failed,
+    missingPhotos,
+  }
+}
+
+// ca-<kind>-<inspection>-<item>, one action per failed item
+export const correctiveActionId = (kind: ChecklistKind, inspectionId: number, item: Pick<ChecklistQuestion, "id">) =>
+  `ca-${kind}-${inspectionId}-${item.id}`
+
+/**
+ * The corrective action a failed item raises, before anyone has worked it. It goes to the
+ * inspection's responsible party; without one it is left unassigned until someone is named.
+ * Items on closed inspections were corrected before the inspection was closed out, so they
+ * start verified.
+ */
+export function raiseCorrectiveAction(inspection: ChecklistInspection, item: ChecklistQuestion, template?: ChecklistTemplate): CorrectiveAction {
+  const dueDate = format(addDays(parseISO(inspection.date), template?.correctionDays ?? 7), "yyyy-MM-dd")
+  return {
+    id: correctiveActionId(inspection.kind, inspection.inspectionId, item),
+    kind: inspection.kind,
+    projectId: inspection.projectId,
+    projectName: inspection.projectName,
+    inspectionId: inspection.inspectionId,
+    inspectionType: inspection.inspectionType,
+    templateId: template?.id ?? null,
+    itemId: template ? item.id : null,
+    question: item.question,
+    specSection: item.specSection ?? template?.specSection,
+    trade: inspection.trade,
+    location: inspection.location,
+    raisedBy: inspection.createdBy,
+    raisedOn: inspection.date,
+    owner: inspection.responsibleParty ?? "",
+    dueDate,
+    status: inspection.closed ? "verified" : "open",
+    verificationStep: item.verificationStep ?? `Re-inspect: ${item.question}`,
+    requiresPhoto: item.requiresPhoto,
+    ...(inspection.closed ? { verifiedBy: inspection.createdBy, verificationNotes: "Closed with the inspection" } : {}),
+    updatedAt: inspection.date,
+  }
+}
+
+/**
+ * Every corrective action across the inspections: stored actions where they exist, raised
+ * from the failed items otherwise.
+ */
+export function buildCorrectiveActions(inspections: ChecklistInspection[], templates: ChecklistTemplate[], stored: CorrectiveAction[]) {
+  const byId = new Map(stored.map((action) => [action.id, action]))
+  const actions = inspections.flatMap((inspection) => {
+    const template = templateFor(templates, inspection.kind, inspection.inspectionType)
+    return scoreChecklist(inspection, template).failed.map((item) => {
+      const id = correctiveActionId(inspection.kind, inspection.inspectionId, item)
+      const action = byId.get(id) ?? raiseCorrectiveAction(inspection, item, template)
+      byId.delete(id)
+      return action
+    })
+  })
+  return [...actions, ...byId.values()]
+}
+
+export function isCorrectiveActionOverdue(action: CorrectiveAction, today = new Date()) {
+  return action.status === "open" && isBefore(parseISO(action.dueDate), startOfDay(today))
+}
+
+export function correctiveActionSummary(actions: CorrectiveAction[], today = new Date()) {
+  return {
+    open: actions.filter((action) => action.status === "open").length,
+    overdue: actions.filter((action) => isCorrectiveActionOverdue(action, today)).length,
+    awaitingVerification: actions.filter((action) => action.status === "completed").length,
+    verified: actions.filter((action) => action.status === "verified").length,
+  }
+}
+
+/**
+ * Problems that keep an open action from being marked complete.
+ */
+export function validateCorrection(action: CorrectiveAction, notes: string, photo?: CorrectiveActionPhoto) {
+  const issues: string[] = []
+  if (!action.owner.trim()) issues.push("Assign an owner")
+  if (!notes.trim()) issues.push("Describe the correction")
+  if (action.requiresPhoto && !photo) issues.push("This item needs a photo of the correction")
+  return issues
+}
+
+export function completeCorrectiveAction(
+  action: CorrectiveAction,
+  by: string,
+  notes: string,
+  photo?: CorrectiveActionPhoto,
+  date = new Date().toISOString(),
+): CorrectiveAction | null {
+  if (action.status !== "open" || validateCorrection(action, notes, photo).length > 0) return null
+  return { ...action, status: "completed", completedBy: by, completedAt: date, correctionNotes: notes.trim(), photo, updatedAt: date }
+}
+
+/**
+ * Verifies a completed action, or sends it back to the owner when the correction doesn't
+ * hold up. Returns null unless the action is completed, or when the person who completed it
+ * tries to verify it.
+ */
+export function verifyCorrectiveAction(
+  action: CorrectiveAction,
+  by: string,
+  accepted: boolean,
+  notes = "",
+  date = new Date().toISOString(),
+): CorrectiveAction | null {
+  if (action.status !== "completed" || action.completedBy === by) return null
+  if (accepted) return { ...action, status: "verified", verifiedBy: by, verifiedAt: date, verificationNotes: notes.trim(), updatedAt: date }
+  return {
+    ...action,
+    status: "open",
+    completedBy: null,
+    completedAt: null,
+    verificationNotes: notes.trim() || "Correction rejected at verification",
+    updatedAt: date,
+  }
+}
+
+export function blankTemplate(kind: ChecklistKind, by: string, date = new Date().toISOString()): ChecklistTemplate {
+  return {
+    id: `tpl-${kind}-${Date.now().toString(36)}`,
+    name: "",
+    kind,
+    inspectionType: kind === "safety" ? "Safety Audit" : "QA/QC - ",
+    correctionDays: kind === "safety" ? 2 : 7,
+    sections: [],
+    updatedBy: by,
+    updatedAt: date,
+  }
+}
+
+/**
+ * Problems that keep a template from being saved. Inspection types must be unique per kind
+ * so each inspection scores against one template.
+ */
+export function validateTemplate(template: ChecklistTemplate, templates: ChecklistTemplate[]) {
+  const issues: string[] = []
+  if (!template.name.trim()) issues.push("Template name is required")
+  if (!template.inspectionType.trim()) issues.push("Inspection type is required")
+  else if (templates.some((t) => t.id !== template.id && t.kind === template.kind && t.inspectionType === template.inspectionType.trim())) {
+    issues.push(`Another template already covers ${template.inspectionType}`)
+  }
+  if (!(template.correctionDays >= 0)) issues.push("Correction days can't be negative")
+  if (template.sections.length === 0) issues.push("Add at least one section")
+  const seen = new Set<string>()
+  for (const section of template.sections) {
+    if (!section.title.trim()) issues.push("Every section needs a title")
+    if (section.items.length === 0) issues.push(`${section.title || "Untitled section"}: add at least one question`)
+    for (const item of section.items) {
+      if (!item.question.trim()) issues.push(`${section.title || "Untitled section"}: every question needs text`)
+      else if (seen.has(normalize(item.question))) issues.push(`"${item.question}" appears more than once`)
+      seen.add(normalize(item.question))
+      if (!(item.weight >= MIN_QUESTION_WEIGHT && item.weight <= MAX_QUESTION_WEIGHT)) {
+        issues.push(`"${item.question}": weight must be ${MIN_QUESTION_WEIGHT}–${MAX_QUESTION_WEIGHT}`)
+      }
+    }
+  }
+  return issues
+}
@@ -0,0 +1,257 @@
+// lib/field-reports/daily-logs.ts
+import { addBusinessDays, endOfDay, format, isAfter, parseISO } from "date-fns"
+import type { DailyLog, DailyLogRecord, ManpowerEntry, WeatherReport } from "@/types/field-reports"
+
+export const delayTypeLabels: Record<DailyLog["delays"][number]["type"], string> = {
+  weather: "Weather",
+  material: "Material",
+  inspection: "Inspection",
+  labor: "Labor",
+  owner: "Owner",
+  other: "Other",
+}
+
+// dl-<project>-<yyyy-MM-dd>: one log per project per day
+export const dailyLogId = (projectId: string | number, date: string) => `dl-${projectId}-${date}`
+
+/**
+ * A log is due by the end of the next business day after the day it covers.
+ */
+export function dailyLogDueDate(date: string) {
+  return endOfDay(addBusinessDays(parseISO(date), 1))
+}
+
+/**
+ * Submitted logs count as submitted; an unsubmitted log past its due date is overdue and
+ * one still within it is a draft.
+ */
+export function dailyLogStatus(record: Pick<DailyLogRecord, "date" | "status">, now = new Date()): DailyLog["status"] {
+  if (record.status === "submitted") return "submitted"
+  return isAfter(now, dailyLogDueDate(record.date)) ? "overdue" : "draft"
+}
+
+export function manpowerTotals(entries: Pick<ManpowerEntry, "workers" | "totalHours">[]) {
+  return {
+    totalWorkers: entries.reduce((sum, entry) => sum + (entry.workers || 0), 0),
+    totalHours: entries.reduce((sum, entry) => sum + (entry.totalHours || 0), 0),
+  }
+}
+
+const emptyWeather: DailyLogRecord["weather_report"] = {
+  temperature: { low: "", high: "", avg: "" },
+  precipitation_since: { midnight: "", "2_days_ago": "", "3_days_ago": "" },
+  humidity: { low: "", avg: "", high: "" },
+  windspeed: { dew: "", avg: "", gust: "" },
+}
+
+function toWeatherReport(weather: DailyLogRecord["weather_report"] | undefined): WeatherReport {
+  const report = weather ?? emptyWeather
+  return {
+    temperature: { ...report.temperature },
+    precipitation: {
+      midnight: report.precipitation_since.midnight,
+      twoDaysAgo: report.precipitation_since["2_days_ago"],
+      threeDaysAgo: report.precipitation_since["3_days_ago"],
+    },
+    humidity: { ...report.humidity },
+    windSpeed: { ...report.windspeed },
+  }
+}
+
+function fromWeatherReport(weather: WeatherReport | undefined): DailyLogRecord["weather_report"] {
+  if (!weather) return emptyWeather
+  return {
+    temperature: { ...weather.temperature },
+    precipitation_since: {
+      midnight: weather.precipitation.midnight,
+      "2_days_ago": weather.precipitation.twoDaysAgo,
+      "3_days_ago": weather.precipitation.threeDaysAgo,
+    },
+    humidity: { ...weather.humidity },
+    windspeed: { ...weather.windSpeed },
+  }
+}
+
+/**
+ * The page's view of a stored log, with its status as of `now`.
+ */
+export function toDailyLog(record: DailyLogRecord, now = new Date()): DailyLog {
+  const entries = record.manpower_log?.entries ?? []
+  return {
+    id: record.id,
+    projectId: String(record.project_id),
+    projectName: record.project_name,
+    date: record.date,
+    submittedBy: record.submitted_by ?? record.created_by,
+    status: dailyLogStatus(record, now),
+    totalWorkers: record.manpower_log?.total_workers ?? 0,
+    totalHours: record.manpower_log?.total_hours ?? 0,
+    weatherConditions: toWeatherReport(record.weather_report),
+    weatherObservations: (record.observed_weather_conditions ?? []).map((observation) => ({
+      id: `${record.id}-wx-${observation.no}`,
+      timeObserved: observation.time_observed,
+      sky: observation.sky,
+      temperature: observation.temp,
+      precipitation: observation.precipitation,
+      wind: observation.wind,
+      weatherDelay: observation.weather_delay === "Yes",
+      comments: observation.comments,
+    })),
+    manpowerEntries: entries.map((entry) => ({
+      id: `${record.id}-mp-${entry.no}`,
+      contactCompany: entry.contact_company,
+      workers: entry.workers,
+      hours: entry.hours,
+      totalHours: entry.total_hours,
+      location: entry.location,
+      comments: entry.comments,
+      trade: entry.trade ?? "",
+      costCode: entry.cost_code,
+    })),
+    activities: (record.activities ?? []).map((activity) => ({
+      id: activity.id,
+      type: activity.type,
+      description: activity.description,
+      status: activity.status,
+      responsibleParty: activity.responsible_party,
+    })),
+    delays: record.delays ?? [],
+    visitors: record.visitors ?? [],
+    deliveries: record.deliveries ?? [],
+    photos: record.photos ?? [],
+    comments: record.comments ?? "",
+    submittedAt: record.submitted_at,
+    locked: record.status === "submitted",
+    amendments: record.amendments ?? [],
+  }
+}
+
+/**
+ * The stored form of an edited log. Fields the editor doesn't cover (the hourly weather
+ * snapshot, observation extras) carry over from `previous`.
+ */
+export function toDailyLogRecord(log: DailyLog, createdBy: string, previous?: DailyLogRecord): DailyLogRecord {
+  const totals = manpowerTotals(log.manpowerEntries)
+  const submitted = log.status === "submitted"
+  return {
+    id: log.id,
+    project_id: Number(log.projectId),
+    project_name: log.projectName,
+    date: log.date,
+    created_by: previous?.created_by ?? createdBy,
+    status: submitted ? "submitted" : "draft",
+    ...(submitted ? { submitted_at: log.submittedAt, submitted_by: log.submittedBy } : {}),
+    weather_report: fromWeatherReport(log.weatherConditions),
+    daily_snapshot: previous?.daily_snapshot ?? [],
+    observed_weather_conditions: log.weatherObservations.map((observation, index) => {
+      const before = previous?.observed_weather_conditions?.[index]
+      return {
+        no: index + 1,
+        time_observed: observation.timeObserved,
+        weather_delay: observation.weatherDelay ? "Yes" : "No",
+        sky: observation.sky,
+        temp: observation.temperature,
+        average: before?.average ?? "",
+        precipitation: observation.precipitation,
+        wind: observation.wind,
+        ground_sea: before?.ground_sea ?? "",
+        calamity: before?.calamity ?? "",
+        comments: observation.comments,
+      }
+    }),
+    manpower_log: {
+      total_workers: totals.totalWorkers,
+      total_hours: totals.totalHours,
+      entries: log.manpowerEntries.map((entry, index) => ({
+        no: index + 1,
+        contact_company: entry.contactCompany,
+        cost_code: entry.costCode ?? "",
+        workers: entry.workers,
+        hours: entry.hours,
+        total_hours: entry.totalHours,
+        location: entry.location,
+        comments: entry.comments,
+        ...(entry.trade ? { trade: entry.trade } : {}),
+      })),
+    },
+    activities: log.activities.map((activity) => ({
+      id: activity.id,
+      type: activity.type,
+      description: activity.description,
+      status: activity.status,
+      responsible_party: activity.responsibleParty,
+    })),
+    comments: log.comments,
+    delays: log.delays,
+    visitors: log.visitors,
+    deliveries: log.deliveries,
+    photos: log.photos,
+    amendments: log.amendments,
+  }
+}
+
+/**
+ * An empty draft for a project and day.
+ */
+export function blankDailyLog(projectId: string, projectName: string, date = format(new Date(), "yyyy-MM-dd"), author = ""): DailyLog {
+  return {
+    id: dailyLogId(projectId, date),
+    projectId,
+    projectName,
+    date,
+    submittedBy: author,
+    status: "draft",
+    totalWorkers: 0,
+    totalHours: 0,
+    weatherConditions: toWeatherReport(undefined),
+    weatherObservations: [],
+    manpowerEntries: [],
+    activities: [],
+    delays: [],
+    visitors: [],
+    deliveries: [],
+    photos: [],
+    comments: "",
+    locked: false,
+    amendments: [],
+  }
+}
+
+/**
+ * Problems that keep a log from being submitted.
+ */
+export function validateDailyLog(log: DailyLog) {
+  const issues: string[] = []
+  if (!log.date) issues.push("Log date is required")
+  if (log.manpowerEntries.length === 0) issues.push("Add manpower for at least one company")
+  for (const entry of log.manpowerEntries) {
+    if (!entry.contactCompany.trim()) issues.push("Every manpower row needs a company")
+    else if (entry.workers < 0 || entry.hours < 0) issues.push(`${entry.contactCompany}: workers and hours can't be negative`)
+  }
+  if (log.activities.some((activity) => !activity.description.trim())) issues.push("Every activity needs a description")
+  if (log.delays.some((delay) => !delay.description.trim())) issues.push("Every delay needs a description")
+  if (log.visitors.some((visitor) => !visitor.name.trim())) issues.push("Every visitor needs a name")
+  if (log.deliveries.some((delivery) => !delivery.supplier.trim())) issues.push("Every delivery needs a supplier")
+  return issues
+}
+
+/**
+ * Submits and locks a draft. Returns null for a log that is already submitted.
+ */
+export function submitDailyLog(log: DailyLog, by: string, date = new Date().toISOString()): DailyLog | null {
+  if (log.locked) return null
+  return { ...log, ...manpowerTotals(log.manpowerEntries), status: "submitted", submittedBy: by, submittedAt: date, locked: true }
+}
+
+/**
+ * Records a change to a submitted log. The log stays submitted and locked; returns null
+ * when it isn't submitted or no reason is given.
+ */
+export function amendDailyLog(log: DailyLog, by: string, reason: string, date = new Date().toISOString()): DailyLog | null {
+  if (!log.locked || !reason.trim()) return null
+  return {
+    ...log,
+    ...manpowerTotals(log.manpowerEntries),
+    amendments: [...log.amendments, { amendedBy: by, amendedAt: date, reason: reason.trim() }],
+  }
+}
@@ -0,0 +1,141 @@
+// lib/field-reports/offline-queue.ts
+import type { DataAdapter } from "@/types/data-source"
+import type { DailyLogRecord, QueuedDailyLog } from "@/types/field-reports"
+
+// Daily log writes made in the field are kept in IndexedDB until they reach the data source
+
+const DATABASE = "hb-field-reports"
+const STORE = "daily-log-queue"
+
+let database: Promise<IDBDatabase> | null = null
+
+function openDatabase() {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE, 1)
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: "id" })
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        database = null
+        reject(request.error)
+      }
+    })
+  }
+  return database
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDatabase()
+  return new Promise<T>((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export const isOfflineQueueAvailable = () => typeof indexedDB !== "undefined"
+
+export async function queuedDailyLogs(): Promise<QueuedDailyLog[]> {
+  if (!isOfflineQueueAvailable()) return []
+  const entries = await withStore<QueuedDailyLog[]>("readonly", (store) => store.getAll())
+  return entries.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt))
+}
+
+/**
+ * Queues a log write, replacing any earlier write of the same log. A log created offline
+ * stays a create however often it is edited before it syncs.
+ */
+export async function queueDailyLog(record: DailyLogRecord, operation: QueuedDailyLog["operation"]) {
+  const existing = await withStore<QueuedDailyLog | undefined>("readonly", (store) => store.get(record.id))
+  const entry: QueuedDailyLog = {
+    id: record.id,
+    operation: existing?.operation === "create" ? "create" : operation,
+    record,
+    queuedAt: new Date().toISOString(),
+  }
+  await withStore("readwrite", (store) => store.put(entry))
+  return entry
+}
+
+const removeQueued = (id: string) => withStore("readwrite", (store) => store.delete(id))
+
+/**
+ * Settles a sent write: removes it, or stores it again marked rejected. Nothing changes if
+ * the log was queued again while the write was in flight, so the newer edit still syncs.
+ */
+async function settleSent(entry: QueuedDailyLog, rejected: QueuedDailyLog | null) {
+  const db = await openDatabase()
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE, "readwrite")
+    const store = transaction.objectStore(STORE)
+    const request = store.get(entry.id)
+    request.onsuccess = () => {
+      if ((request.result as QueuedDailyLog | undefined)?.queuedAt !== entry.queuedAt) return
+      if (rejected) store.put(rejected)
+      else store.delete(entry.id)
+    }
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+// The HTTP status the REST adapter attaches to a rejected request
+const statusOf = (error: unknown) => (error as { status?: number } | null)?.status
+
+// Invalid writes and logs locked on the server won't go through however often they are sent
+const isRejection = (status: number | undefined) => status === 400 || status === 409 || status === 422
+
+/**
+ * Sends a queued write. A create the server already has (synced before the response was
+ * lost) goes again as an update.
+ */
+async function sendQueued(source: Required<Pick<DataAdapter, "create" | "update">>, entry: QueuedDailyLog) {
+  if (entry.operation === "update") return source.update("daily-logs", entry.id, entry.record)
+  try {
+    return await source.create("daily-logs", entry.record)
+  } catch (error) {
+    if (statusOf(error) !== 409) throw error
+    return source.update("daily-logs", entry.id, entry.record)
+  }
+}
+
+/**
+ * Sends queued writes to the data source, oldest first. Stops at the first write that may
+ * go through later (the connection dropped again, or the server is failing or busy) and
+ * leaves it queued. Invalid writes stay queued with the server's error, and are skipped
+ * until retried or discarded. A 409 on an update means the log was submitted and locked on
+ * the server first. A source without writes (the mock data) keeps everything on the device.
+ */
+export async function flushDailyLogQueue(source: DataAdapter) {
+  const synced: DailyLogRecord[] = []
+  const { create, update } = source
+  if (!create || !update) return { synced, remaining: await queuedDailyLogs() }
+
+  for (const entry of await queuedDailyLogs()) {
+    if (entry.error) continue
+    try {
+      const saved = await sendQueued({ create, update }, entry)
+      await settleSent(entry, null)
+      synced.push(saved)
+    } catch (error) {
+      // fetch rejects with a TypeError (no status) when the request never reached the server
+      if (!isRejection(statusOf(error))) break
+      await settleSent(entry, {
+        ...entry,
+        error: error instanceof Error ? error.message : String(error),
+        locked: statusOf(error) === 409,
+      })
+    }
+  }
+  return { synced, remaining: await queuedDailyLogs() }
+}
+
+// Clears a rejected write's error so the next flush sends it again
+export async function retryQueuedDailyLog(id: string) {
+  const entry = await withStore<QueuedDailyLog | undefined>("readonly", (store) => store.get(id))
+  if (!entry) return
+  await withStore("readwrite", (store) => store.put({ id: entry.id, operation: entry.operation, record: entry.record, queuedAt: entry.queuedAt }))
+}
+
+// Drops a queued write, leaving the stored log as it is
+export const discardQueuedDailyLog = (id: string) => removeQueued(id)
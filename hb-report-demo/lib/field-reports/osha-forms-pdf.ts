@@ -0,0 +1,139 @@
+// lib/field-reports/osha-forms-pdf.ts
+import { jsPDF } from "jspdf"
+import { autoTable } from "jspdf-autotable"
+import type { Osha300ASummary, Osha300Row, OshaCaseType, SafetyIncident } from "@/types/safety-incidents"
+import { oshaCaseTypeLabels, oshaOutcomeLabels } from "@/lib/field-reports/safety-incidents"
+
+const HEADER_FILL: [number, number, number] = [30, 41, 59]
+const check = (on: boolean) => (on ? "X" : "")
+
+/**
+ * The year's OSHA 300 log, with the 300A summary on the following page.
+ */
+export function createOsha300Pdf(rows: Osha300Row[], summary: Osha300ASummary) {
+  const doc = new jsPDF({ orientation: "landscape", unit: "pt", format: "letter" })
+  const caseTypes = Object.keys(oshaCaseTypeLabels) as OshaCaseType[]
+
+  doc.setFontSize(14)
+  doc.text(`OSHA Form 300 — Log of Work-Related Injuries and Illnesses (${summary.year})`, 40, 36)
+  doc.setFontSize(9)
+  doc.text(`Establishment: ${summary.establishment} · ${rows.length} recordable cases`, 40, 52)
+
+  autoTable(doc, {
+    startY: 64,
+    head: [["Case No.", "Employee", "Job Title", "Date", "Where", "Description", "G", "H", "I", "J", "K Days Away", "L Restricted", "M Type"]],
+    body: rows.map((row) => [
+      row.caseNumber,
+      row.employeeName,
+      row.jobTitle,
+      row.date,
+      row.location,
+      row.description,
+      check(row.outcome === "death"),
+      check(row.outcome === "days-away"),
+      check(row.outcome === "job-transfer"),
+      check(row.outcome === "other-recordable"),
+      String(row.daysAway),
+      String(row.daysRestricted),
+      oshaCaseTypeLabels[row.caseType],
+    ]),
+    foot: [["", "", "", "", "", "Page totals", String(summary.deaths), String(summary.daysAwayCases), String(summary.jobTransferCases), String(summary.otherRecordableCases), String(summary.daysAway), String(summary.daysRestricted), ""]],
+    theme: "grid",
+    styles: { fontSize: 7, cellPadding: 3 },
+    headStyles: { fillColor: HEADER_FILL },
+    footStyles: { fillColor: [241, 245, 249], textColor: 20 },
+    columnStyles: { 5: { cellWidth: 170 }, 6: { halign: "center" }, 7: { halign: "center" }, 8: { halign: "center" }, 9: { halign: "center" } },
+  })
+
+  doc.addPage("letter", "portrait")
+  doc.setFontSize(14)
+  doc.text(`OSHA Form 300A — Summary of Work-Related Injuries and Illnesses (${summary.year})`, 40, 36)
+  doc.setFontSize(9)
+  doc.text(`Establishment: ${summary.establishment}`, 40, 52)
+  autoTable(doc, {
+    startY: 64,
+    head: [["Number of Cases", "Total"]],
+    body: [
+      ["(G) Deaths", String(summary.deaths)],
+      ["(H) Cases with days away from work", String(summary.daysAwayCases)],
+      ["(I) Cases with job transfer or restriction", String(summary.jobTransferCases)],
+      ["(J) Other recordable cases", String(summary.otherRecordableCases)],
+      ["(K) Days away from work", String(summary.daysAway)],
+      ["(L) Days of job transfer or restriction", String(summary.daysRestricted)],
+      ...caseTypes.map((caseType, index) => [`(M${index + 1}) ${oshaCaseTypeLabels[caseType]}`, String(summary.caseTypes[caseType])]),
+      ["Annual average number of employees", String(summary.averageEmployees)],
+      ["Total hours worked by all employees last year", summary.hoursWorked.toLocaleString()],
+    ],
+    theme: "grid",
+    styles: { fontSize: 9, cellPadding: 4 },
+    headStyles: { fillColor: HEADER_FILL },
+    columnStyles: { 1: { halign: "right", cellWidth: 100 } },
+  })
+  return doc
+}
+
+/**
+ * OSHA 301 Injury and Illness Incident Report for one recordable case.
+ */
+export function createOsha301Pdf(incident: SafetyIncident) {
+  const doc = new jsPDF({ unit: "pt", format: "letter" })
+  const yesNo = (value?: boolean) => (value ? "Yes" : "No")
+
+  doc.setFontSize(14)
+  doc.text("OSHA Form 301 — Injury and Illness Incident Report", 40, 36)
+  doc.setFontSize(9)
+  doc.text(`${incident.projectName} · Case ${incident.caseNumber ?? "—"}`, 40, 52)
+
+  const section = (title: string, body: string[][], startY: number) => {
+    autoTable(doc, {
+      startY,
+      head: [[title, ""]],
+      body,
+      theme: "grid",
+      styles: { fontSize: 8, cellPadding: 4 },
+      headStyles: { fillColor: HEADER_FILL },
+      columnStyles: { 0: { cellWidth: 200, fontStyle: "bold" } },
+    })
+    return (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 12
+  }
+
+  let y = section(
+    "Information about the employee",
+    [
+      ["1) Full name", incident.privacyCase ? "Privacy Case" : (incident.employee?.name ?? "")],
+      ["Job title", incident.employee?.jobTitle ?? ""],
+      ["Employer", incident.employee?.employer ?? ""],
+      ["3) Date of birth", incident.employee?.dateOfBirth ?? ""],
+      ["4) Date hired", incident.employee?.dateHired ?? ""],
+    ],
+    64,
+  )
+  y = section(
+    "Information about the physician or other health care professional",
+    [
+      ["6) Physician or health care professional", incident.treatment?.physician ?? ""],
+      ["7) Facility", incident.treatment?.facility ?? ""],
+      ["8) Treated in an emergency room?", yesNo(incident.treatment?.emergencyRoom)],
+      ["9) Hospitalized overnight as an in-patient?", yesNo(incident.treatment?.hospitalizedOvernight)],
+    ],
+    y,
+  )
+  y = section(
+    "Information about the case",
+    [
+      ["10) Case number from the Log", incident.caseNumber ?? ""],
+      ["11) Date of injury or illness", incident.occurredOn],
+      ["13) Time of event", incident.occurredAt ?? ""],
+      ["14) What was the employee doing just before the incident?", incident.activity ?? ""],
+      ["15) What happened?", incident.description],
+      ["16) What was the injury or illness?", [incident.injury, incident.bodyPart].filter(Boolean).join(" — ")],
+      ["17) What object or substance directly harmed the employee?", incident.objectOrSubstance ?? ""],
+      ["Outcome", incident.outcome ? oshaOutcomeLabels[incident.outcome] : ""],
+      ["Days away / restricted", `${incident.daysAway} / ${incident.daysRestricted}`],
+    ],
+    y,
+  )
+  doc.setFontSize(8)
+  doc.text(`Completed by ${incident.reportedBy} on ${incident.reportedAt.slice(0, 10)}`, 40, y + 4)
+  return doc
+}
@@ -0,0 +1,292 @@
+// lib/field-reports/safety-incidents.ts
+import { differenceInCalendarDays, format, parseISO, startOfDay } from "date-fns"
+import type { DailyLogRecord } from "@/types/field-reports"
+import type {
+  IncidentRates,
+  IncidentType,
+  Osha300ASummary,
+  Osha300Row,
+  OshaCaseType,
+  OshaOutcome,
+  RootCauseCategory,
+  SafetyIncident,
+} from "@/types/safety-incidents"
+
+export const incidentTypeLabels: Record<IncidentType, string> = {
+  "near-miss": "Near Miss",
+  "first-aid": "First Aid",
+  recordable: "Recordable",
+  "property-damage": "Property Damage",
+}
+
+export const oshaOutcomeLabels: Record<OshaOutcome, string> = {
+  death: "Death",
+  "days-away": "Days Away From Work",
+  "job-transfer": "Job Transfer or Restriction",
+  "other-recordable": "Other Recordable Case",
+}
+
+export const oshaCaseTypeLabels: Record<OshaCaseType, string> = {
+  injury: "Injury",
+  "skin-disorder": "Skin Disorder",
+  respiratory: "Respiratory Condition",
+  poisoning: "Poisoning",
+  "hearing-loss": "Hearing Loss",
+  "other-illness": "All Other Illnesses",
+}
+
+export const rootCauseLabels: Record<RootCauseCategory, string> = {
+  "unsafe-act": "Unsafe Act",
+  "unsafe-condition": "Unsafe Condition",
+  equipment: "Equipment Failure",
+  procedure: "Inadequate Procedure",
+  training: "Inadequate Training",
+  supervision: "Supervision",
+  environmental: "Environmental",
+}
+
+// 100 full-time workers at 40 hours a week for 50 weeks
+export const OSHA_RATE_HOURS = 200_000
+
+// OSHA stops counting days away or restricted at 180
+export const MAX_OSHA_DAYS = 180
+
+export const isRecordable = (incident: SafetyIncident) => incident.type === "recordable"
+
+// Days away, restricted or transferred: the cases DART counts
+export const isDartCase = (incident: SafetyIncident) =>
+  isRecordable(incident) && (incident.outcome === "days-away" || incident.outcome === "job-transfer")
+
+const oshaDays = (days: number) => Math.min(Math.max(days, 0), MAX_OSHA_DAYS)
+
+const rate = (cases: number, hours: number) => (hours > 0 ? Math.round(((cases * OSHA_RATE_HOURS) / hours) * 100) / 100 : null)
+
+const inYear = (date: string, year: number) => date.startsWith(`${year}-`)
+
+/**
+ * Hours worked from the daily logs' manpower, optionally limited to one calendar year.
+ */
+export function loggedHours(records: Pick<DailyLogRecord, "date" | "manpower_log">[], year?: number) {
+  return records
+    .filter((record) => year === undefined || inYear(record.date, year))
+    .reduce((sum, record) => sum + (record.manpower_log?.total_hours ?? 0), 0)
+}
+
+export function incidentRates(incidents: SafetyIncident[], hours: number): IncidentRates {
+  const recordables = incidents.filter(isRecordable)
+  const dartCases = recordables.filter(isDartCase).length
+  return {
+    hours,
+    recordables: recordables.length,
+    dartCases,
+    trir: rate(recordables.length, hours),
+    dart: rate(dartCases, hours),
+    nearMisses: incidents.filter((incident) => incident.type === "near-miss").length,
+    firstAidCases: incidents.filter((incident) => incident.type === "first-aid").length,
+    daysAway: recordables.reduce((sum, incident) => sum + oshaDays(incident.daysAway), 0),
+    daysRestricted: recordables.reduce((sum, incident) => sum + oshaDays(incident.daysRestricted), 0),
+  }
+}
+
+export function lastRecordable(incidents: SafetyIncident[]) {
+  return incidents.filter(isRecordable).sort((a, b) => b.occurredOn.localeCompare(a.occurredOn))[0]
+}
+
+// Null when nothing recordable has happened yet
+export function daysWithoutRecordable(incidents: SafetyIncident[], today = new Date()) {
+  const last = lastRecordable(incidents)
+  return last ? Math.max(differenceInCalendarDays(startOfDay(today), parseISO(last.occurredOn)), 0) : null
+}
+
+// Case numbers run per year: "2025-001", "2025-002", ...
+export function nextCaseNumber(incidents: SafetyIncident[], year: number) {
+  const used = incidents
+    .map((incident) => incident.caseNumber)
+    .filter((caseNumber): caseNumber is string => !!caseNumber && caseNumber.startsWith(`${year}-`))
+    .map((caseNumber) => Number(caseNumber.slice(5)) || 0)
+  return `${year}-${String(Math.max(0, ...used) + 1).padStart(3, "0")}`
+}
+
+export const oshaYears = (incidents: SafetyIncident[]) =>
+  [...new Set(incidents.filter(isRecordable).map((incident) => Number(incident.occurredOn.slice(0, 4))))].sort((a, b) => b - a)
+
+/**
+ * OSHA 300 log rows for the recordables of one year, in case-number order. Privacy cases
+ * are entered without the worker's name.
+ */
+export function osha300Log(incidents: SafetyIncident[], year: number): Osha300Row[] {
+  return incidents
+    .filter((incident) => isRecordable(incident) && inYear(incident.occurredOn, year))
+    .sort((a, b) => (a.caseNumber ?? a.occurredOn).localeCompare(b.caseNumber ?? b.occurredOn))
+    .map((incident) => ({
+      caseNumber: incident.caseNumber ?? "",
+      employeeName: incident.privacyCase ? "Privacy Case" : (incident.employee?.name ?? ""),
+      jobTitle: incident.employee?.jobTitle ?? "",
+      date: incident.occurredOn,
+      location: `${incident.projectName} — ${incident.location}`,
+      description: [incident.injury, incident.bodyPart && `(${incident.bodyPart})`, incident.objectOrSubstance && `— ${incident.objectOrSubstance}`]
+        .filter(Boolean)
+        .join(" ") || incident.description,
+      outcome: incident.outcome ?? "other-recordable",
+      daysAway: oshaDays(incident.daysAway),
+      daysRestricted: oshaDays(incident.daysRestricted),
+      caseType: incident.caseType ?? "injury",
+    }))
+}
+
+/**
+ * The 300A summary for one year. Average employees is the mean daily headcount on the logs.
+ */
+export function osha300ASummary(
+  incidents: SafetyIncident[],
+  records: Pick<DailyLogRecord, "date" | "manpower_log">[],
+  year: number,
+  establishment: string,
+): Osha300ASummary {
+  const rows = osha300Log(incidents, year)
+  const logs = records.filter((record) => inYear(record.date, year))
+  const count = (outcome: OshaOutcome) => rows.filter((row) => row.outcome === outcome).length
+  const caseTypes = Object.fromEntries(
+    (Object.keys(oshaCaseTypeLabels) as OshaCaseType[]).map((caseType) => [caseType, rows.filter((row) => row.caseType === caseType).length]),
+  ) as Record<OshaCaseType, number>
+  return {
+    year,
+    establishment,
+    deaths: count("death"),
+    daysAwayCases: count("days-away"),
+    jobTransferCases: count("job-transfer"),
+    otherRecordableCases: count("other-recordable"),
+    daysAway: rows.reduce((sum, row) => sum + row.daysAway, 0),
+    daysRestricted: rows.reduce((sum, row) => sum + row.daysRestricted, 0),
+    caseTypes,
+    averageEmployees: logs.length
+      ? Math.round(logs.reduce((sum, record) => sum + (record.manpower_log?.total_workers ?? 0), 0) / logs.length)
+      : 0,
+    hoursWorked: loggedHours(logs),
+  }
+}
+
+const csvCell = (value: string | number) => {
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const toCsv = (rows: (string | number)[][]) => rows.map((row) => row.map(csvCell).join(",")).join("\n")
+
+export function osha300Csv(rows: Osha300Row[]) {
+  return toCsv([
+    ["(A) Case No.", "(B) Employee Name", "(C) Job Title", "(D) Date of Injury", "(E) Where", "(F) Description", "(G) Death", "(H) Days Away", "(I) Job Transfer or Restriction", "(J) Other Recordable", "(K) Days Away", "(L) Days Restricted", "(M) Case Type"],
+    ...rows.map((row) => [
+      row.caseNumber,
+      row.employeeName,
+      row.jobTitle,
+      row.date,
+      row.location,
+      row.description,
+      row.outcome === "death" ? "X" : "",
+      row.outcome === "days-away" ? "X" : "",
+      row.outcome === "job-transfer" ? "X" : "",
+      row.outcome === "other-recordable" ? "X" : "",
+      row.daysAway,
+      row.daysRestricted,
+      oshaCaseTypeLabels[row.caseType],
+    ]),
+  ])
+}
+
+export function osha300ACsv(summary: Osha300ASummary) {
+  return toCsv([
+    ["Establishment", summary.establishment],
+    ["Year", summary.year],
+    ["(G) Total deaths", summary.deaths],
+    ["(H) Total cases with days away from work", summary.daysAwayCases],
+    ["(I) Total cases with job transfer or restriction", summary.jobTransferCases],
+    ["(J) Total other recordable cases", summary.otherRecordableCases],
+    ["(K) Total days away from work", summary.daysAway],
+    ["(L) Total days of job transfer or restriction", summary.daysRestricted],
+    ...(Object.keys(oshaCaseTypeLabels) as OshaCaseType[]).map((caseType) => [`(M) ${oshaCaseTypeLabels[caseType]}`, summary.caseTypes[caseType]]),
+    ["Annual average number of employees", summary.averageEmployees],
+    ["Total hours worked by all employees", summary.hoursWorked],
+  ])
+}
+
+export function blankIncident(projectId: number, projectName: string, by: string, date = new Date().toISOString()): SafetyIncident {
+  return {
+    id: `inc-${date.slice(0, 4)}-${Date.now().toString(36)}`,
+    projectId,
+    projectName,
+    trade: "",
+    location: "",
+    occurredOn: format(parseISO(date), "yyyy-MM-dd"),
+    type: "near-miss",
+    description: "",
+    daysAway: 0,
+    daysRestricted: 0,
+    privacyCase: false,
+    status: "open",
+    reportedBy: by,
+    reportedAt: date,
+    updatedAt: date,
+  }
+}
+
+/**
+ * Problems that keep an incident from being saved. Recordables need what the 300 log and
+ * 301 report ask for.
+ */
+export function validateIncident(incident: SafetyIncident) {
+  const issues: string[] = []
+  if (!incident.projectId) issues.push("Select a project")
+  if (!incident.trade.trim()) issues.push("Trade is required")
+  if (!incident.location.trim()) issues.push("Location is required")
+  if (!incident.occurredOn) issues.push("Date of the incident is required")
+  if (!incident.description.trim()) issues.push("Describe what happened")
+  if (incident.daysAway < 0 || incident.daysRestricted < 0) issues.push("Days can't be negative")
+  if (!isRecordable(incident)) return issues
+  if (!incident.outcome) issues.push("Recordables need an OSHA outcome")
+  if (!incident.caseType) issues.push("Recordables need a case type")
+  if (!incident.employee?.name.trim()) issues.push("Recordables need the employee's name")
+  if (!incident.employee?.jobTitle.trim()) issues.push("Recordables need the employee's job title")
+  if (!incident.injury?.trim()) issues.push("Describe the injury or illness")
+  if (incident.outcome === "days-away" && incident.daysAway === 0) issues.push("Enter the days away from work")
+  if (incident.outcome === "job-transfer" && incident.daysRestricted === 0) issues.push("Enter the days of restriction or transfer")
+  return issues
+}
+
+// What an investigation needs before it can be closed
+export function validateInvestigation(incident: SafetyIncident) {
+  const issues: string[] = []
+  if (!incident.rootCause?.immediateCause.trim()) issues.push("Record the immediate cause")
+  if (!incident.rootCause?.rootCause.trim()) issues.push("Record the root cause")
+  if (!incident.rootCause?.correctiveActions.trim()) issues.push("Record the corrective actions")
+  return issues
+}
+
+/**
+ * The incident as saved: recordables get the next case number for their year, and
+ * incidents that stop being recordable drop their OSHA fields.
+ */
+export function prepareIncident(incident: SafetyIncident, incidents: SafetyIncident[], date = new Date().toISOString()): SafetyIncident {
+  if (!isRecordable(incident)) {
+    return {
+      ...incident,
+      caseNumber: null,
+      outcome: null,
+      caseType: null,
+      daysAway: 0,
+      daysRestricted: 0,
+      privacyCase: false,
+      updatedAt: date,
+    }
+  }
+  const year = Number(incident.occurredOn.slice(0, 4))
+  const caseNumber = incident.caseNumber?.startsWith(`${year}-`)
+    ? incident.caseNumber
+    : nextCaseNumber(incidents.filter((other) => other.id !== incident.id), year)
+  return { ...incident, caseNumber, updatedAt: date }
+}
+
+export function closeIncident(incident: SafetyIncident, by: string, date = new Date().toISOString()): SafetyIncident | null {
+  if (incident.status === "closed" || validateIncident(incident).length > 0 || validateInvestigation(incident).length > 0) return null
+  return { ...incident, status: "closed", closedBy: by, closedAt: date, updatedAt: date }
+}
@@ -0,0 +1,446 @@
+// lib/financial/cash-flow.ts
+import { addMonths, format, parse } from "date-fns"
+import type { ChangeEvent } from "@/types/change-orders"
+import type { CommitmentRecord, ForecastRecord, PrimeContractPayment, VendorPayment } from "@/types/data-source"
+import type { Project } from "@/types/project"
+import type {
+  AggregatedMonthlyCashFlow,
+  CashFlowAssumptions,
+  CashFlowForecast,
+  CashFlowInflows,
+  CashFlowInsight,
+  CashFlowOutflows,
+  MonthlyCashFlow,
+  PortfolioCashFlow,
+  ProjectCashFlow,
+} from "@/types/cash-flow"
+import { applyChangeEventsToCommitments } from "./change-orders"
+import { changeOrderForecastLines, monthKey, monthRange, parseForecastDate } from "./forecasting"
+
+export const defaultCashFlowAssumptions: CashFlowAssumptions = {
+  billingLagDays: 10,
+  ownerTermsDays: 30,
+  vendorTermsDays: 30,
+  ownerRetainagePercent: 10,
+  vendorRetainagePercent: 10,
+  retainageReleaseDays: 60,
+}
+
+export interface CashFlowSources {
+  primePayments: PrimeContractPayment[]
+  vendorPayments: VendorPayment[]
+  forecasts: ForecastRecord[]
+  // Approved owner change orders are billed on top of the draw forecast
+  changeEvents?: ChangeEvent[]
+  // Subcontracts and purchase orders still to be billed are paid out over the draw forecast
+  commitments?: CommitmentRecord[]
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+const money = (value: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(value)
+
+const monthLabel = (month: string) => format(parse(month, "yyyy-MM", new Date()), "MMM yyyy")
+
+const emptyInflows = (): CashFlowInflows => ({ ownerPayments: 0, loans: 0, changeOrders: 0, retentionRelease: 0, other: 0, total: 0 })
+
+const emptyOutflows = (): CashFlowOutflows => ({
+  subcontractorPayments: 0,
+  materialCosts: 0,
+  laborCosts: 0,
+  equipmentCosts: 0,
+  overhead: 0,
+  other: 0,
+  total: 0,
+})
+
+const paidMonth = (value: string) => {
+  const date = parseForecastDate(value)
+  return date ? monthKey(date) : null
+}
+
+/**
+ * Month the cash lands for an amount billed or incurred in `month`, `days` after its month end.
+ * Counted in 30-day months so short months don't skip a payment run.
+ */
+export function cashMonth(month: string, days: number) {
+  return monthKey(addMonths(parse(month, "yyyy-MM", new Date()), Math.ceil(Math.max(days, 0) / 30)))
+}
+
+/**
+ * Latest month with an owner or vendor payment. Actuals run through it; later months are projected.
+ */
+export function cashFlowAsOf(sources: Pick<CashFlowSources, "primePayments" | "vendorPayments">) {
+  const months = [...sources.primePayments, ...sources.vendorPayments]
+    .map((payment) => paidMonth(payment["Date Paid"]))
+    .filter((month): month is string => month !== null)
+  return months.length > 0 ? months.reduce((latest, month) => (month > latest ? month : latest)) : null
+}
+
+// Forecast totals by month after asOf for one forecast type
+function forecastByMonth(rows: ForecastRecord[], type: string, asOf: string) {
+  const totals = new Map<string, number>()
+  for (const row of rows) {
+    if (row.forecast_type !== type) continue
+    const month = paidMonth(row.forecast_date)
+    if (!month || month <= asOf) continue
+    totals.set(month, (totals.get(month) ?? 0) + row.current_forecast)
+  }
+  return totals
+}
+
+/**
+ * Owner draw forecast against owner payments received, as 0-1, for months with both.
+ */
+function forecastAccuracy(forecast: number, actual: number) {
+  if (forecast <= 0 || actual <= 0) return undefined
+  return round(Math.max(0, 1 - Math.abs(forecast - actual) / Math.max(forecast, actual)))
+}
+
+/**
+ * Monthly cash for one project. Through asOf, inflows are owner payments and outflows vendor
+ * payments by the month paid. After asOf the draw forecast is billed and collected after the
+ * billing lag and owner terms, and the GC/GR cost forecast paid after vendor terms, each net of
+ * retainage. Approved owner change orders bill like the draw forecast, spread over its remaining
+ * months, and what's left to bill on each commitment (with its approved change orders) is paid
+ * out on the same curve. Retainage held on both sides is released once the forecast runs out.
+ */
+export function buildProjectCashFlow(
+  project: Pick<Project, "project_id" | "name">,
+  sources: CashFlowSources,
+  assumptions: CashFlowAssumptions = defaultCashFlowAssumptions,
+  asOf = cashFlowAsOf(sources) ?? monthKey(new Date()),
+): ProjectCashFlow {
+  const id = project.project_id
+  const primePayments = sources.primePayments.filter((p) => p.project_id === id)
+  const vendorPayments = sources.vendorPayments.filter((p) => p.project_id === id)
+  const forecasts = sources.forecasts.filter((f) => f.project_id === id)
+  const changeEvents = (sources.changeEvents ?? []).filter((e) => e.projectId === id)
+
+  const inflows = new Map<string, CashFlowInflows>()
+  const outflows = new Map<string, CashFlowOutflows>()
+  const addInflow = (month: string, key: keyof CashFlowInflows, amount: number) => {
+    const entry = inflows.get(month) ?? emptyInflows()
+    entry[key] = round(entry[key] + amount)
+    inflows.set(month, entry)
+  }
+  const addOutflow = (month: string, key: keyof CashFlowOutflows, amount: number) => {
+    const entry = outflows.get(month) ?? emptyOutflows()
+    entry[key] = round(entry[key] + amount)
+    outflows.set(month, entry)
+  }
+
+  // Actuals, with the owner's retainage as of each billing
+  const ownerRetainageByMonth = new Map<string, number>()
+  const paidPrime = primePayments
+    .map((payment) => ({ payment, month: paidMonth(payment["Date Paid"]) }))
+    .filter((p): p is { payment: PrimeContractPayment; month: string } => p.month !== null && p.month <= asOf)
+    .sort((a, b) => a.payment["#"] - b.payment["#"])
+  for (const { payment, month } of paidPrime) {
+    addInflow(month, "ownerPayments", payment.Amount)
+    ownerRetainageByMonth.set(month, payment["Total Retainage"])
+  }
+  let vendorPaid = 0
+  for (const payment of vendorPayments) {
+    const month = paidMonth(payment["Date Paid"])
+    if (!month || month > asOf) continue
+    addOutflow(month, "subcontractorPayments", payment.Amount)
+    vendorPaid += payment.Amount
+  }
+
+  // Vendor payments are net, so the retainage withheld is grossed up from them
+  const ownerRate = assumptions.ownerRetainagePercent / 100
+  const vendorRate = Math.min(assumptions.vendorRetainagePercent / 100, 0.99)
+  const ownerRetainageAtAsOf = paidPrime.length > 0 ? paidPrime[paidPrime.length - 1].payment["Total Retainage"] : 0
+  const vendorRetainageAtAsOf = round((vendorPaid * vendorRate) / (1 - vendorRate))
+
+  // Projection
+  const billings = forecastByMonth(forecasts, "draw", asOf)
+  const costs = forecastByMonth(forecasts, "gcgr", asOf)
+  const ownerRetainageAdded = new Map<string, number>()
+  const vendorRetainageAdded = new Map<string, number>()
+  for (const [month, billed] of billings) {
+    addInflow(cashMonth(month, assumptions.billingLagDays + assumptions.ownerTermsDays), "ownerPayments", billed * (1 - ownerRate))
+    ownerRetainageAdded.set(month, billed * ownerRate)
+  }
+  const firstProjected = monthKey(addMonths(parse(asOf, "yyyy-MM", new Date()), 1))
+  for (const line of changeOrderForecastLines(changeEvents, forecasts, firstProjected)) {
+    for (const [month, billed] of Object.entries(line.actual_remaining_forecast)) {
+      addInflow(cashMonth(month, assumptions.billingLagDays + assumptions.ownerTermsDays), "changeOrders", billed * (1 - ownerRate))
+      ownerRetainageAdded.set(month, (ownerRetainageAdded.get(month) ?? 0) + billed * ownerRate)
+    }
+  }
+  for (const [month, cost] of costs) {
+    addOutflow(cashMonth(month, assumptions.vendorTermsDays), "subcontractorPayments", cost * (1 - vendorRate))
+    vendorRetainageAdded.set(month, cost * vendorRate)
+  }
+  const billingTotal = [...billings.values()].reduce((total, value) => total + value, 0)
+  const curve: [string, number][] =
+    billingTotal > 0 ? [...billings].map(([month, billed]) => [month, billed / billingTotal]) : [[firstProjected, 1]]
+  const commitments = applyChangeEventsToCommitments((sources.commitments ?? []).filter((c) => c.project_id === id), changeEvents)
+  for (const commitment of commitments) {
+    const unbilled = (commitment["Revised Contract Amount"] ?? 0) - (commitment.Invoiced ?? 0)
+    if (unbilled <= 0) continue
+    const key = commitment["Contract Type"] === "Purchase Order" ? "materialCosts" : "subcontractorPayments"
+    for (const [month, share] of curve) {
+      addOutflow(cashMonth(month, assumptions.vendorTermsDays), key, unbilled * share * (1 - vendorRate))
+      vendorRetainageAdded.set(month, (vendorRetainageAdded.get(month) ?? 0) + unbilled * share * vendorRate)
+    }
+  }
+
+  const forecastMonths = [...billings.keys(), ...costs.keys()].sort()
+  const completion = forecastMonths.length > 0 ? forecastMonths[forecastMonths.length - 1] : asOf
+  const sumValues = (map: Map<string, number>) => [...map.values()].reduce((total, value) => total + value, 0)
+  const ownerRetainageTotal = round(ownerRetainageAtAsOf + sumValues(ownerRetainageAdded))
+  const vendorRetainageTotal = round(vendorRetainageAtAsOf + sumValues(vendorRetainageAdded))
+  const ownerRelease = cashMonth(completion, assumptions.retainageReleaseDays)
+  const vendorRelease = cashMonth(completion, assumptions.retainageReleaseDays + assumptions.vendorTermsDays)
+  if (ownerRetainageTotal > 0) addInflow(ownerRelease, "retentionRelease", ownerRetainageTotal)
+  if (vendorRetainageTotal > 0) addOutflow(vendorRelease, "other", vendorRetainageTotal)
+
+  const eventMonths = [...inflows.keys(), ...outflows.keys()].sort()
+  const months = eventMonths.length > 0 ? monthRange(eventMonths[0], eventMonths[eventMonths.length - 1]) : []
+  const drawActuals = new Map<string, number>()
+  for (const row of forecasts) {
+    const month = paidMonth(row.forecast_date)
+    if (row.forecast_type === "draw" && month && month <= asOf) drawActuals.set(month, (drawActuals.get(month) ?? 0) + row.current_forecast)
+  }
+
+  let cumulative = 0
+  let ownerHeld = 0
+  let vendorHeld = 0
+  const monthlyData: MonthlyCashFlow[] = months.map((month) => {
+    const monthInflows = inflows.get(month) ?? emptyInflows()
+    const monthOutflows = outflows.get(month) ?? emptyOutflows()
+    monthInflows.total = round(
+      monthInflows.ownerPayments + monthInflows.loans + monthInflows.changeOrders + monthInflows.retentionRelease + monthInflows.other,
+    )
+    monthOutflows.total = round(
+      monthOutflows.subcontractorPayments +
+        monthOutflows.materialCosts +
+        monthOutflows.laborCosts +
+        monthOutflows.equipmentCosts +
+        monthOutflows.overhead +
+        monthOutflows.other,
+    )
+    const netCashFlow = round(monthInflows.total - monthOutflows.total)
+    cumulative = round(cumulative + netCashFlow)
+
+    const actual = month <= asOf
+    if (actual) {
+      ownerHeld = ownerRetainageByMonth.get(month) ?? ownerHeld
+      vendorHeld += (monthOutflows.subcontractorPayments * vendorRate) / (1 - vendorRate)
+    } else {
+      ownerHeld = month >= ownerRelease ? 0 : ownerHeld + (ownerRetainageAdded.get(month) ?? 0)
+      vendorHeld = month >= vendorRelease ? 0 : vendorHeld + (vendorRetainageAdded.get(month) ?? 0)
+    }
+    const accuracy = actual ? forecastAccuracy(drawActuals.get(month) ?? 0, monthInflows.ownerPayments) : undefined
+
+    return {
+      project_id: id,
+      month,
+      inflows: monthInflows,
+      outflows: monthOutflows,
+      netCashFlow,
+      cumulativeCashFlow: cumulative,
+      workingCapital: round(cumulative + ownerHeld - vendorHeld),
+      retentionHeld: round(ownerHeld),
+      retentionPayable: round(vendorHeld),
+      ...(accuracy !== undefined ? { forecastAccuracy: accuracy } : {}),
+      source: actual ? "actual" : "projected",
+    }
+  })
+
+  const accuracies = monthlyData.map((m) => m.forecastAccuracy).filter((a): a is number => a !== undefined)
+  const baseConfidence = accuracies.length > 0 ? accuracies.reduce((total, a) => total + a, 0) / accuracies.length : 0.85
+  const projected = monthlyData.filter((m) => m.source === "projected")
+  const forecast: CashFlowForecast[] = projected.map((m, index) => ({
+    month: m.month,
+    projectedInflows: m.inflows.total,
+    projectedOutflows: m.outflows.total,
+    projectedNetCashFlow: m.netCashFlow,
+    projectedCumulativeCashFlow: m.cumulativeCashFlow,
+    // Confidence falls off two points a month from the draw forecast's track record
+    confidence: round(Math.max(0.5, baseConfidence - 0.02 * (index + 1))),
+  }))
+
+  const peak = monthlyData.reduce<MonthlyCashFlow | null>(
+    (lowest, m) => (m.cumulativeCashFlow < (lowest?.cumulativeCashFlow ?? 0) ? m : lowest),
+    null,
+  )
+  const current = [...monthlyData].reverse().find((m) => m.month <= asOf)
+  const totalInflows = round(monthlyData.reduce((total, m) => total + m.inflows.total, 0))
+  const totalOutflows = round(monthlyData.reduce((total, m) => total + m.outflows.total, 0))
+  const lastPaid = [...primePayments, ...vendorPayments]
+    .map((p) => p["Date Paid"])
+    .filter((date) => (paidMonth(date) ?? "") <= asOf)
+    .sort()
+    .pop()
+
+  const summary = {
+    totalInflows,
+    totalOutflows,
+    netCashFlow: round(totalInflows - totalOutflows),
+    peakCashRequirement: peak ? round(-peak.cumulativeCashFlow) : 0,
+    cashFlowAtRisk: round(current?.retentionHeld ?? 0),
+    workingCapital: current?.workingCapital ?? 0,
+    lastUpdated: lastPaid ?? asOf,
+    asOf,
+    currentCashPosition: current?.cumulativeCashFlow ?? 0,
+    peakCashMonth: peak?.month ?? null,
+  }
+
+  return {
+    project_id: id,
+    name: project.name,
+    cashFlowData: {
+      summary,
+      monthlyData,
+      forecast,
+      aiInsights: cashFlowInsights(id, monthlyData, summary, baseConfidence),
+    },
+  }
+}
+
+function cashFlowInsights(
+  projectId: number,
+  monthlyData: MonthlyCashFlow[],
+  summary: ProjectCashFlow["cashFlowData"]["summary"],
+  confidence: number,
+): CashFlowInsight[] {
+  const insights: CashFlowInsight[] = []
+  const negative = monthlyData.filter((m) => m.cumulativeCashFlow < 0).map((m) => m.month)
+  if (summary.peakCashRequirement > 0 && summary.peakCashMonth) {
+    const ahead = summary.asOf !== undefined && summary.peakCashMonth > summary.asOf
+    insights.push({
+      id: `cf_${projectId}_peak`,
+      type: ahead ? "critical" : "warning",
+      category: "Liquidity",
+      title: `Peak negative cash of ${money(summary.peakCashRequirement)}`,
+      description: `Cumulative cash bottoms out in ${monthLabel(summary.peakCashMonth)} and is negative for ${negative.length} month${negative.length === 1 ? "" : "s"}.`,
+      impact: summary.peakCashRequirement >= 1000000 ? "high" : "medium",
+      confidence,
+      recommendation: ahead
+        ? "Front-load the schedule of values or tighten billing lag before the trough."
+        : "Review owner payment timing against vendor terms for the months in deficit.",
+      affectedMonths: negative,
+    })
+  }
+
+  const projectedDeficits = monthlyData.filter((m) => m.source === "projected" && m.netCashFlow < 0).map((m) => m.month)
+  if (projectedDeficits.length > 0) {
+    insights.push({
+      id: `cf_${projectId}_deficits`,
+      type: "warning",
+      category: "Forecast",
+      title: `${projectedDeficits.length} projected month${projectedDeficits.length === 1 ? "" : "s"} paying out more than collected`,
+      description: `Starting ${monthLabel(projectedDeficits[0])}, vendor payments outrun owner collections.`,
+      impact: projectedDeficits.length > 3 ? "high" : "low",
+      confidence,
+      recommendation: "Confirm the draw forecast keeps pace with the cost forecast in these months.",
+      affectedMonths: projectedDeficits,
+    })
+  }
+
+  if (summary.cashFlowAtRisk > 0) {
+    insights.push({
+      id: `cf_${projectId}_retainage`,
+      type: "info",
+      category: "Retainage",
+      title: `${money(summary.cashFlowAtRisk)} held in owner retainage`,
+      description: "Earned and billed but withheld by the owner until release.",
+      impact: summary.cashFlowAtRisk >= 1000000 ? "medium" : "low",
+      confidence,
+      recommendation: "Pursue partial retainage reduction at substantial completion milestones.",
+      affectedMonths: summary.asOf ? [summary.asOf] : [],
+    })
+  }
+  return insights
+}
+
+/**
+ * Sums several projects' months into one series, rerunning the cumulative position across them.
+ */
+export function combineMonthlyCashFlow(series: MonthlyCashFlow[][]): MonthlyCashFlow[] {
+  const byMonth = new Map<string, MonthlyCashFlow[]>()
+  for (const m of series.flat()) byMonth.set(m.month, [...(byMonth.get(m.month) ?? []), m])
+
+  let cumulative = 0
+  return [...byMonth.keys()].sort().map((month) => {
+    const rows = byMonth.get(month)!
+    const total = (pick: (m: MonthlyCashFlow) => number) => round(rows.reduce((acc, m) => acc + pick(m), 0))
+    const inflows = emptyInflows()
+    for (const key of Object.keys(inflows) as (keyof CashFlowInflows)[]) inflows[key] = total((m) => m.inflows[key])
+    const outflows = emptyOutflows()
+    for (const key of Object.keys(outflows) as (keyof CashFlowOutflows)[]) outflows[key] = total((m) => m.outflows[key])
+
+    const netCashFlow = round(inflows.total - outflows.total)
+    cumulative = round(cumulative + netCashFlow)
+    const retentionHeld = total((m) => m.retentionHeld)
+    const retentionPayable = total((m) => m.retentionPayable ?? 0)
+    const accuracies = rows.map((m) => m.forecastAccuracy).filter((a): a is number => a !== undefined)
+    return {
+      month,
+      inflows,
+      outflows,
+      netCashFlow,
+      cumulativeCashFlow: cumulative,
+      workingCapital: round(cumulative + retentionHeld - retentionPayable),
+      retentionHeld,
+      retentionPayable,
+      ...(accuracies.length > 0 ? { forecastAccuracy: round(accuracies.reduce((acc, a) => acc + a, 0) / accuracies.length) } : {}),
+      source: rows.some((m) => m.source === "projected") ? "projected" : "actual",
+    }
+  })
+}
+
+/**
+ * Every project with payments or forecasts, plus their months summed across the portfolio.
+ * The portfolio's peak requirement is taken from the combined curve, not the sum of peaks.
+ */
+export function buildPortfolioCashFlow(
+  projects: Pick<Project, "project_id" | "name">[],
+  sources: CashFlowSources,
+  assumptions: CashFlowAssumptions = defaultCashFlowAssumptions,
+  asOf = cashFlowAsOf(sources) ?? monthKey(new Date()),
+): PortfolioCashFlow {
+  const withData = new Set([...sources.primePayments, ...sources.vendorPayments, ...sources.forecasts].map((row) => row.project_id))
+  const projectFlows = projects
+    .filter((project) => withData.has(project.project_id))
+    .map((project) => buildProjectCashFlow(project, sources, assumptions, asOf))
+
+  const monthlyAggregated: AggregatedMonthlyCashFlow[] = combineMonthlyCashFlow(
+    projectFlows.map((p) => p.cashFlowData.monthlyData),
+  ).map((m) => ({
+    month: m.month,
+    totalInflows: m.inflows.total,
+    totalOutflows: m.outflows.total,
+    netCashFlow: m.netCashFlow,
+    cumulativeCashFlow: m.cumulativeCashFlow,
+  }))
+
+  const peak = monthlyAggregated.reduce<AggregatedMonthlyCashFlow | null>(
+    (lowest, m) => (m.cumulativeCashFlow < (lowest?.cumulativeCashFlow ?? 0) ? m : lowest),
+    null,
+  )
+  const summaries = projectFlows.map((p) => p.cashFlowData.summary)
+  const total = (pick: (s: (typeof summaries)[number]) => number) => round(summaries.reduce((acc, s) => acc + pick(s), 0))
+
+  return {
+    portfolioSummary: {
+      totalProjects: projectFlows.length,
+      aggregatedMetrics: {
+        totalInflows: total((s) => s.totalInflows),
+        totalOutflows: total((s) => s.totalOutflows),
+        netCashFlow: total((s) => s.netCashFlow),
+        peakCashRequirement: peak ? round(-peak.cumulativeCashFlow) : 0,
+        cashFlowAtRisk: total((s) => s.cashFlowAtRisk),
+        averageWorkingCapital: summaries.length > 0 ? round(total((s) => s.workingCapital) / summaries.length) : 0,
+        peakCashMonth: peak?.month ?? null,
+      },
+      monthlyAggregated,
+    },
+    projects: projectFlows,
+  }
+}
@@ -0,0 +1,347 @@
+// lib/financial/change-orders.ts
+import { differenceInCalendarDays, parseISO } from "date-fns"
+import type { BudgetLine, CommitmentRecord, PrimeContractRecord } from "@/types/data-source"
+import type {
+  BudgetChangeImpact,
+  ChangeAgingRow,
+  ChangeDocument,
+  ChangeDocumentStatus,
+  ChangeEvent,
+  ChangeLineItem,
+  ChangeStage,
+  SubcontractChangeOrder,
+} from "@/types/change-orders"
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+export const changeStageLabels: Record<ChangeStage, string> = {
+  "change-event": "Change Event",
+  pco: "PCO",
+  "owner-co": "Owner CO",
+  "subcontract-co": "Subcontract CO",
+}
+
+// Where each document status may move next; rejected documents can be revised and resubmitted
+const transitions: Record<ChangeDocumentStatus, ChangeDocumentStatus[]> = {
+  draft: ["pending"],
+  pending: ["approved", "rejected"],
+  rejected: ["draft"],
+  approved: [],
+}
+
+export function allowedTransitions(status: ChangeDocumentStatus) {
+  return transitions[status]
+}
+
+/**
+ * The next number in a PREFIX-001 sequence.
+ */
+export function nextDocumentNumber(prefix: string, existing: string[]) {
+  const used = existing
+    .filter((number) => number.startsWith(`${prefix}-`))
+    .map((number) => Number(number.slice(prefix.length + 1)))
+    .filter((n) => Number.isFinite(n))
+  return `${prefix}-${String(Math.max(0, ...used) + 1).padStart(3, "0")}`
+}
+
+export function lineRevenue(event: Pick<ChangeEvent, "markupPercent">, line: ChangeLineItem) {
+  return round(line.cost * (1 + event.markupPercent / 100))
+}
+
+export function eventCost(event: ChangeEvent) {
+  return round(event.lineItems.reduce((sum, line) => sum + line.cost, 0))
+}
+
+export function eventRevenue(event: ChangeEvent) {
+  return round(event.lineItems.reduce((sum, line) => sum + lineRevenue(event, line), 0))
+}
+
+/**
+ * The furthest stage an event has reached.
+ */
+export function currentStage(event: ChangeEvent): ChangeStage {
+  if (event.subcontractCos.length > 0) return "subcontract-co"
+  if (event.ownerCo) return "owner-co"
+  if (event.pco) return "pco"
+  return "change-event"
+}
+
+const record = (event: ChangeEvent, stage: ChangeStage, document: ChangeDocument, by: string, date: string, comment?: string) => ({
+  ...event,
+  updatedAt: date,
+  history: [...event.history, { stage, number: document.number, status: document.status, date, by, comment }],
+})
+
+/**
+ * Prices the event as a PCO. Null when it already has one or has nothing priced.
+ */
+export function createPco(event: ChangeEvent, number: string, by: string, date = new Date().toISOString()): ChangeEvent | null {
+  if (event.pco || event.status !== "open" || event.lineItems.length === 0) return null
+  const pco: ChangeDocument = { number, status: "draft", statusDate: date }
+  return record({ ...event, pco }, "pco", pco, by, date)
+}
+
+/**
+ * Issues the owner change order for an approved out-of-scope PCO.
+ */
+export function createOwnerCo(event: ChangeEvent, number: string, by: string, date = new Date().toISOString()): ChangeEvent | null {
+  if (event.scope !== "out-of-scope" || event.pco?.status !== "approved" || event.ownerCo) return null
+  const ownerCo: ChangeDocument = { number, status: "draft", statusDate: date }
+  return record({ ...event, ownerCo }, "owner-co", ownerCo, by, date)
+}
+
+/**
+ * Issues one change order per commitment named on the event's lines, once the PCO is
+ * approved. Commitments that already have a change order from this event are skipped.
+ */
+export function createSubcontractCos(
+  event: ChangeEvent,
+  commitments: CommitmentRecord[],
+  existingNumbers: string[],
+  by: string,
+  date = new Date().toISOString(),
+): ChangeEvent | null {
+  if (event.pco?.status !== "approved") return null
+  const covered = new Set(event.subcontractCos.map((co) => co.commitmentNumber))
+  const numbers = [...existingNumbers]
+  const issued: SubcontractChangeOrder[] = []
+
+  for (const commitmentNumber of new Set(event.lineItems.flatMap((line) => line.commitmentNumber ?? []))) {
+    if (covered.has(commitmentNumber)) continue
+    const number = nextDocumentNumber(`${commitmentNumber}-CO`, numbers)
+    numbers.push(number)
+    issued.push({
+      id: `${event.id}-${commitmentNumber}`,
+      number,
+      commitmentNumber,
+      vendor: commitments.find((c) => c.Number === commitmentNumber)?.Vendor ?? "Unknown Vendor",
+      amount: round(event.lineItems.filter((line) => line.commitmentNumber === commitmentNumber).reduce((sum, line) => sum + line.cost, 0)),
+      status: "draft",
+      statusDate: date,
+    })
+  }
+  if (issued.length === 0) return null
+
+  return issued.reduce(
+    (updated, co) => record(updated, "subcontract-co", co, by, date),
+    { ...event, subcontractCos: [...event.subcontractCos, ...issued] },
+  )
+}
+
+/**
+ * Moves a PCO, owner CO or subcontract CO to a new status. Null when the move isn't
+ * allowed from the document's current status.
+ */
+export function setDocumentStatus(
+  event: ChangeEvent,
+  stage: Exclude<ChangeStage, "change-event">,
+  status: ChangeDocumentStatus,
+  by: string,
+  options: { subcontractCoId?: string; comment?: string; date?: string } = {},
+): ChangeEvent | null {
+  const date = options.date ?? new Date().toISOString()
+  const current =
+    stage === "pco" ? event.pco : stage === "owner-co" ? event.ownerCo : event.subcontractCos.find((co) => co.id === options.subcontractCoId)
+  if (!current || !transitions[current.status].includes(status)) return null
+
+  const moved = { ...current, status, statusDate: date }
+  const updated: ChangeEvent =
+    stage === "pco"
+      ? { ...event, pco: moved }
+      : stage === "owner-co"
+        ? { ...event, ownerCo: moved }
+        : { ...event, subcontractCos: event.subcontractCos.map((co) => (co.id === options.subcontractCoId ? (moved as SubcontractChangeOrder) : co)) }
+  const recorded = record(updated, stage, moved, by, date, options.comment)
+  return isResolved(recorded) ? { ...recorded, status: "closed" } : recorded
+}
+
+/**
+ * Whether every document the event needs has been approved: the PCO, the owner CO when
+ * out of scope, and a change order for each commitment on its lines.
+ */
+export function isResolved(event: ChangeEvent) {
+  if (event.pco?.status !== "approved") return false
+  if (event.scope === "out-of-scope" && event.ownerCo?.status !== "approved") return false
+  const commitments = new Set(event.lineItems.flatMap((line) => line.commitmentNumber ?? []))
+  return [...commitments].every((number) => event.subcontractCos.some((co) => co.commitmentNumber === number && co.status === "approved"))
+}
+
+/**
+ * Voids an event that has nothing approved yet.
+ */
+export function voidChangeEvent(event: ChangeEvent, by: string, comment?: string, date = new Date().toISOString()): ChangeEvent | null {
+  const approved = [event.pco, event.ownerCo, ...event.subcontractCos].some((document) => document?.status === "approved")
+  if (event.status !== "open" || approved) return null
+  return {
+    ...event,
+    status: "void",
+    updatedAt: date,
+    history: [...event.history, { stage: "change-event", number: event.number, status: "void", date, by, comment }],
+  }
+}
+
+const isContingency = (line: BudgetLine) => line["Cost Code Tier 3"].toUpperCase().includes("CONTINGENCY")
+
+/**
+ * What the pipeline adds to each budget line. Out-of-scope revenue is pending from PCO
+ * submission until the owner CO is approved, then posts to Approved COs. In-scope cost
+ * moves out of contingency: pending while the PCO is, then as a Budget Modification.
+ * Subcontract COs add Pending Cost Changes, then Committed Costs once approved.
+ */
+export function budgetChangeImpacts(events: ChangeEvent[], budget: BudgetLine[]): BudgetChangeImpact[] {
+  const impacts = new Map<string, BudgetChangeImpact>()
+  const impactFor = (projectId: number, budgetCode: string) => {
+    const key = `${projectId}|${budgetCode}`
+    const existing = impacts.get(key)
+    if (existing) return existing
+    const created: BudgetChangeImpact = {
+      projectId,
+      budgetCode,
+      budgetModifications: 0,
+      approvedCos: 0,
+      pendingBudgetChanges: 0,
+      pendingCostChanges: 0,
+      committedCosts: 0,
+    }
+    impacts.set(key, created)
+    return created
+  }
+
+  for (const event of events.filter((e) => e.status !== "void")) {
+    const pcoStatus = event.pco?.status
+    const contingency = budget.find((line) => line.project_id === event.projectId && isContingency(line))
+
+    for (const line of event.lineItems) {
+      const impact = impactFor(event.projectId, line.budgetCode)
+      if (event.scope === "in-scope") {
+        const field = pcoStatus === "approved" ? "budgetModifications" : pcoStatus === "pending" ? "pendingBudgetChanges" : null
+        if (!field) continue
+        impact[field] = round(impact[field] + line.cost)
+        if (contingency) {
+          const offset = impactFor(event.projectId, contingency["Budget Code"])
+          offset[field] = round(offset[field] - line.cost)
+        }
+      } else if (event.ownerCo?.status === "approved") {
+        impact.approvedCos = round(impact.approvedCos + lineRevenue(event, line))
+      } else if (event.ownerCo?.status !== "rejected" && (pcoStatus === "pending" || pcoStatus === "approved")) {
+        impact.pendingBudgetChanges = round(impact.pendingBudgetChanges + lineRevenue(event, line))
+      }
+    }
+
+    for (const co of event.subcontractCos) {
+      const field = co.status === "approved" ? "committedCosts" : co.status === "pending" ? "pendingCostChanges" : null
+      if (!field) continue
+      for (const line of event.lineItems.filter((l) => l.commitmentNumber === co.commitmentNumber)) {
+        const impact = impactFor(event.projectId, line.budgetCode)
+        impact[field] = round(impact[field] + line.cost)
+      }
+    }
+  }
+
+  return [...impacts.values()].filter(
+    (i) => i.budgetModifications || i.approvedCos || i.pendingBudgetChanges || i.pendingCostChanges || i.committedCosts,
+  )
+}
+
+/**
+ * The budget export with the change pipeline posted to it, recalculating the derived
+ * columns the way the export does.
+ */
+export function applyChangeEventsToBudget(budget: BudgetLine[], events: ChangeEvent[]): BudgetLine[] {
+  const impacts = new Map(budgetChangeImpacts(events, budget).map((impact) => [`${impact.projectId}|${impact.budgetCode}`, impact]))
+  return budget.map((line) => {
+    const impact = impacts.get(`${line.project_id}|${line["Budget Code"]}`)
+    if (!impact) return line
+    const budgetModifications = round(line["Budget Modifications"] + impact.budgetModifications)
+    const approvedCos = round(line["Approved COs"] + impact.approvedCos)
+    const pendingBudgetChanges = round(line["Pending Budget Changes"] + impact.pendingBudgetChanges)
+    const revisedBudget = round(line["Original Budget Amount"] + budgetModifications + approvedCos)
+    const projectedBudget = round(revisedBudget + pendingBudgetChanges)
+    const projectedCosts = round(line["Projected Costs"] + impact.committedCosts + impact.pendingCostChanges)
+    const estimatedCost = round(projectedCosts + line["Forecast To Complete"])
+    return {
+      ...line,
+      "Budget Modifications": budgetModifications,
+      "Approved COs": approvedCos,
+      "Revised Budget": revisedBudget,
+      "Pending Budget Changes": pendingBudgetChanges,
+      "Projected Budget": projectedBudget,
+      "Committed Costs": round(line["Committed Costs"] + impact.committedCosts),
+      "Pending Cost Changes": round(line["Pending Cost Changes"] + impact.pendingCostChanges),
+      "Projected Costs": projectedCosts,
+      "Estimated Cost at Completion": estimatedCost,
+      "Projected over Under": round(projectedBudget - estimatedCost),
+    }
+  })
+}
+
+type ContractChangeTotals = { draft: number; pending: number; approved: number }
+
+const addTo = (totals: ContractChangeTotals, status: ChangeDocumentStatus, amount: number) => {
+  if (status === "rejected") return
+  totals[status] = round(totals[status] + amount)
+}
+
+function withChangeTotals<T extends CommitmentRecord | PrimeContractRecord>(contract: T, totals: ContractChangeTotals): T {
+  const approved = round((contract["Approved Change Orders"] ?? 0) + totals.approved)
+  const revised = round((contract["Original Contract Amount"] ?? 0) + approved)
+  return {
+    ...contract,
+    "Approved Change Orders": approved,
+    "Pending Change Orders": round((contract["Pending Change Orders"] ?? 0) + totals.pending),
+    "Draft Change Orders": round((contract["Draft Change Orders"] ?? 0) + totals.draft),
+    "Revised Contract Amount": revised,
+    "Remaining Balance Outstanding": round((contract["Remaining Balance Outstanding"] ?? 0) + totals.approved),
+  }
+}
+
+/**
+ * Commitments with their subcontract change orders from the pipeline added.
+ */
+export function applyChangeEventsToCommitments(commitments: CommitmentRecord[], events: ChangeEvent[]) {
+  const totals = new Map<string, ContractChangeTotals>()
+  for (const co of events.filter((e) => e.status !== "void").flatMap((e) => e.subcontractCos)) {
+    const entry = totals.get(co.commitmentNumber) ?? { draft: 0, pending: 0, approved: 0 }
+    addTo(entry, co.status, co.amount)
+    totals.set(co.commitmentNumber, entry)
+  }
+  return commitments.map((c) => (totals.has(c.Number) ? withChangeTotals(c, totals.get(c.Number)!) : c))
+}
+
+/**
+ * A project's prime contract with its owner change orders from the pipeline added.
+ */
+export function applyChangeEventsToPrimeContract(contract: PrimeContractRecord, events: ChangeEvent[]) {
+  const totals: ContractChangeTotals = { draft: 0, pending: 0, approved: 0 }
+  for (const event of events.filter((e) => e.status !== "void" && e.projectId === contract.project_id && e.ownerCo)) {
+    addTo(totals, event.ownerCo!.status, eventRevenue(event))
+  }
+  return withChangeTotals(contract, totals)
+}
+
+/**
+ * Unresolved items by stage and status, bucketed by days in that status.
+ */
+export function changeAging(events: ChangeEvent[], asOf = new Date().toISOString()): ChangeAgingRow[] {
+  const rows = new Map<string, ChangeAgingRow>()
+  const add = (stage: ChangeStage, status: string, since: string, amount: number) => {
+    const key = `${stage}|${status}`
+    const row = rows.get(key) ?? { stage, status, count: 0, amount: 0, buckets: [0, 0, 0, 0], oldestDays: 0 }
+    const days = Math.max(0, differenceInCalendarDays(parseISO(asOf), parseISO(since)))
+    row.count += 1
+    row.amount = round(row.amount + amount)
+    row.buckets[days <= 30 ? 0 : days <= 60 ? 1 : days <= 90 ? 2 : 3] += 1
+    row.oldestDays = Math.max(row.oldestDays, days)
+    rows.set(key, row)
+  }
+
+  for (const event of events.filter((e) => e.status === "open")) {
+    if (!event.pco) add("change-event", "open", event.createdAt, eventCost(event))
+    if (event.pco && event.pco.status !== "approved") add("pco", event.pco.status, event.pco.statusDate, eventRevenue(event))
+    if (event.ownerCo && event.ownerCo.status !== "approved") add("owner-co", event.ownerCo.status, event.ownerCo.statusDate, eventRevenue(event))
+    for (const co of event.subcontractCos.filter((c) => c.status !== "approved")) add("subcontract-co", co.status, co.statusDate, co.amount)
+  }
+
+  const stageOrder: ChangeStage[] = ["change-event", "pco", "owner-co", "subcontract-co"]
+  return [...rows.values()].sort((a, b) => stageOrder.indexOf(a.stage) - stageOrder.indexOf(b.stage) || a.status.localeCompare(b.status))
+}
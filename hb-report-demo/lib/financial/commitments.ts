@@ -0,0 +1,226 @@
+// lib/financial/commitments.ts
+import type { ChangeEvent } from "@/types/change-orders"
+import type {
+  BudgetCodeExposure,
+  CommitmentExecutionStage,
+  CommitmentMetrics,
+  CommitmentRegisterFilters,
+  CommitmentRegisterRow,
+  CommitmentRegisterSummary,
+} from "@/types/commitments"
+import type { BudgetLine, CommitmentRecord, VendorPayment } from "@/types/data-source"
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+export const executionStageLabels: Record<CommitmentExecutionStage, string> = {
+  draft: "Draft",
+  "out-for-signature": "Out for Signature",
+  executed: "Executed",
+}
+
+export const executionStages: CommitmentExecutionStage[] = ["draft", "out-for-signature", "executed"]
+
+export function executionStage(commitment: CommitmentRecord): CommitmentExecutionStage {
+  if (commitment.Executed === "Yes") return "executed"
+  if (commitment.Status === "Out For Signature" || commitment.Status === "Approved") return "out-for-signature"
+  return "draft"
+}
+
+// Unpriced placeholder commitments come through with null amounts
+export function commitmentMetrics(commitment: CommitmentRecord): CommitmentMetrics {
+  const revisedAmount = commitment["Revised Contract Amount"] ?? 0
+  const invoiced = commitment.Invoiced ?? 0
+  const paid = commitment["Payments Issued"] ?? 0
+  return {
+    revisedAmount,
+    pendingChanges: commitment["Pending Change Orders"] ?? 0,
+    invoiced,
+    paid,
+    remainingBalance: round(revisedAmount - paid),
+    unbilled: round(revisedAmount - invoiced),
+    percentBilled: revisedAmount > 0 ? round((invoiced / revisedAmount) * 100) : 0,
+  }
+}
+
+/**
+ * Cost code division ("15-08") from the scope line in the commitment description, which
+ * reads "15 - 08 - DETENTION DOORS & FRAMES".
+ */
+export function commitmentDivision(commitment: CommitmentRecord) {
+  const match = /<strong>\s*(\d+)\s*-\s*(\d+)\s*-/.exec(commitment.Description ?? "")
+  return match ? `${match[1]}-${match[2]}` : null
+}
+
+const costTypeCode = (line: BudgetLine) => line["Cost Type"].split(" ")[0]
+
+/**
+ * The budget line a commitment buys out. Change event lines that name the commitment say so
+ * directly; otherwise it's the project's budget line in the commitment's division, preferring
+ * subcontractor cost for subcontracts and materials for purchase orders, then the largest.
+ */
+export function commitmentBudgetCode(commitment: CommitmentRecord, budget: BudgetLine[], events: ChangeEvent[]) {
+  const named = events
+    .flatMap((event) => event.lineItems)
+    .find((line) => line.commitmentNumber === commitment.Number)
+  if (named) return named.budgetCode
+
+  const division = commitmentDivision(commitment)
+  if (!division) return null
+  const order = commitment["Contract Type"] === "Purchase Order" ? ["MAT", "SUB", "LAB"] : ["SUB", "LAB", "MAT"]
+  const rank = (line: BudgetLine) => {
+    const index = order.indexOf(costTypeCode(line))
+    return index === -1 ? order.length : index
+  }
+  const candidates = budget
+    .filter((line) => line.project_id === commitment.project_id && line["Cost Code Tier 2"].startsWith(`${division} `))
+    .sort((a, b) => rank(a) - rank(b) || b["Revised Budget"] - a["Revised Budget"])
+  return candidates[0]?.["Budget Code"] ?? null
+}
+
+export function buildCommitmentRegister(
+  commitments: CommitmentRecord[],
+  budget: BudgetLine[],
+  events: ChangeEvent[],
+): CommitmentRegisterRow[] {
+  return commitments
+    .map((commitment) => ({
+      commitment,
+      stage: executionStage(commitment),
+      division: commitmentDivision(commitment),
+      budgetCode: commitmentBudgetCode(commitment, budget, events),
+      metrics: commitmentMetrics(commitment),
+    }))
+    .sort((a, b) => a.commitment.Number.localeCompare(b.commitment.Number))
+}
+
+export const emptyRegisterFilters: CommitmentRegisterFilters = { search: "", stage: "all", contractType: "all", budgetCode: "all" }
+
+// budgetCode "none" matches commitments with no budget line
+export function filterCommitmentRegister(rows: CommitmentRegisterRow[], filters: CommitmentRegisterFilters) {
+  const search = filters.search.trim().toLowerCase()
+  return rows.filter(
+    (row) =>
+      (filters.stage === "all" || row.stage === filters.stage) &&
+      (filters.contractType === "all" || row.commitment["Contract Type"] === filters.contractType) &&
+      (filters.budgetCode === "all" || (row.budgetCode ?? "none") === filters.budgetCode) &&
+      (!search ||
+        [row.commitment.Number, row.commitment.Title, row.commitment.Vendor].some((field) =>
+          String(field ?? "").toLowerCase().includes(search),
+        )),
+  )
+}
+
+export function summarizeCommitmentRegister(rows: CommitmentRegisterRow[]): CommitmentRegisterSummary {
+  const byStage = Object.fromEntries(executionStages.map((stage) => [stage, { count: 0, amount: 0 }])) as CommitmentRegisterSummary["byStage"]
+  const summary: CommitmentRegisterSummary = {
+    count: rows.length,
+    byStage,
+    committed: 0,
+    invoiced: 0,
+    paid: 0,
+    remainingBalance: 0,
+    unbilled: 0,
+    pendingChanges: 0,
+  }
+  for (const { stage, metrics } of rows) {
+    byStage[stage].count += 1
+    byStage[stage].amount = round(byStage[stage].amount + metrics.revisedAmount)
+    summary.committed = round(summary.committed + metrics.revisedAmount)
+    summary.invoiced = round(summary.invoiced + metrics.invoiced)
+    summary.paid = round(summary.paid + metrics.paid)
+    summary.remainingBalance = round(summary.remainingBalance + metrics.remainingBalance)
+    summary.unbilled = round(summary.unbilled + metrics.unbilled)
+    summary.pendingChanges = round(summary.pendingChanges + metrics.pendingChanges)
+  }
+  return summary
+}
+
+/**
+ * Commitment exposure per budget line of one project: every budget line, plus a row for
+ * commitments that don't match one. Sorted by unbilled committed cost.
+ */
+export function buildBudgetCodeExposure(rows: CommitmentRegisterRow[], budget: BudgetLine[]): BudgetCodeExposure[] {
+  const exposure = new Map<string | null, BudgetCodeExposure>()
+  const entry = (budgetCode: string | null, description: string, revisedBudget: number): BudgetCodeExposure => ({
+    budgetCode,
+    description,
+    revisedBudget,
+    committed: 0,
+    invoiced: 0,
+    paid: 0,
+    remainingBalance: 0,
+    unbilledCommitted: 0,
+    pendingChanges: 0,
+    uncommittedBudget: revisedBudget,
+    commitmentCount: 0,
+  })
+  for (const line of budget) {
+    exposure.set(line["Budget Code"], entry(line["Budget Code"], line["Cost Code Tier 3"], line["Revised Budget"]))
+  }
+
+  for (const { budgetCode, metrics } of rows) {
+    const key = budgetCode && exposure.has(budgetCode) ? budgetCode : null
+    if (!exposure.has(key)) exposure.set(key, entry(null, "No matching budget line", 0))
+    const row = exposure.get(key)!
+    row.committed = round(row.committed + metrics.revisedAmount)
+    row.invoiced = round(row.invoiced + metrics.invoiced)
+    row.paid = round(row.paid + metrics.paid)
+    row.remainingBalance = round(row.remainingBalance + metrics.remainingBalance)
+    row.unbilledCommitted = round(row.unbilledCommitted + metrics.unbilled)
+    row.pendingChanges = round(row.pendingChanges + metrics.pendingChanges)
+    if (key !== null) row.uncommittedBudget = round(row.revisedBudget - row.committed)
+    row.commitmentCount += 1
+  }
+  return [...exposure.values()].sort((a, b) => b.unbilledCommitted - a.unbilledCommitted || b.revisedBudget - a.revisedBudget)
+}
+
+/**
+ * Vendor ledger payments against the commitment, by the "Commitment #…" invoice description.
+ */
+export function commitmentPayments(commitment: CommitmentRecord, ledger: VendorPayment[]) {
+  return ledger
+    .filter((payment) => payment.project_id === commitment.project_id && payment.Invoice.startsWith(`Commitment #${commitment.Number} `))
+    .sort((a, b) => a["Date Paid"].localeCompare(b["Date Paid"]))
+}
+
+/**
+ * Subcontract change orders issued on the commitment through change events.
+ */
+export function commitmentChangeOrders(commitment: CommitmentRecord, events: ChangeEvent[]) {
+  return events.flatMap((event) =>
+    event.subcontractCos
+      .filter((co) => co.commitmentNumber === commitment.Number)
+      .map((co) => ({ ...co, eventNumber: event.number, eventTitle: event.title })),
+  )
+}
+
+const withHistory = (commitment: CommitmentRecord, stage: CommitmentExecutionStage, by: string, date: string) => [
+  ...(commitment.executionHistory ?? []),
+  { stage, date, by },
+]
+
+// A draft can go out once it names a vendor and is priced
+export const readyForSignature = (commitment: CommitmentRecord) =>
+  executionStage(commitment) === "draft" && !!commitment.Vendor && (commitment["Revised Contract Amount"] ?? 0) > 0
+
+/**
+ * Sends a draft commitment to the vendor for signature. Returns null unless it's ready to go out.
+ */
+export function sendForSignature(commitment: CommitmentRecord, by: string, date = new Date().toISOString()): CommitmentRecord | null {
+  if (!readyForSignature(commitment)) return null
+  return { ...commitment, Status: "Out For Signature", executionHistory: withHistory(commitment, "out-for-signature", by, date) }
+}
+
+/**
+ * Records the signed commitment coming back. Returns null unless it's out for signature.
+ */
+export function markExecuted(commitment: CommitmentRecord, by: string, date = new Date().toISOString()): CommitmentRecord | null {
+  if (executionStage(commitment) !== "out-for-signature") return null
+  return {
+    ...commitment,
+    Status: "Approved",
+    Executed: "Yes",
+    "Signed Contract Received Date": date.slice(0, 10),
+    executionHistory: withHistory(commitment, "executed", by, date),
+  }
+}
@@ -0,0 +1,350 @@
+// lib/financial/earned-value.ts
+import { addMonths, differenceInCalendarDays, endOfMonth, format, parse, parseISO } from "date-fns"
+import type { AiaPayApplication } from "@/types/aia-pay-application"
+import type { ChangeEvent } from "@/types/change-orders"
+import type { BudgetLine, ForecastRecord, JobCostHistory } from "@/types/data-source"
+import type {
+  EarnedValueLine,
+  EarnedValueMetrics,
+  EarnedValuePoint,
+  EarnedValueSource,
+  PlannedValueBasis,
+  PortfolioEarnedValue,
+  ProjectEarnedValue,
+} from "@/types/earned-value"
+import type { ForecastLine } from "@/types/forecasting"
+import type { GcGrForecastData } from "@/types/gc-gr-forecast"
+import type { Project } from "@/types/project"
+import type { ScheduleActivity } from "@/types/scheduler"
+import { applyChangeEventsToBudget } from "./change-orders"
+import { buildForecastLines, monthKey, monthRange, parseForecastDate } from "./forecasting"
+import { approvedPayApplicationStatuses, lineItemCode } from "./pay-application"
+
+export interface EarnedValueSources {
+  budget: BudgetLine[]
+  jobCost: JobCostHistory[]
+  payApplications: AiaPayApplication[]
+  forecasts: ForecastRecord[]
+  schedule: ScheduleActivity[]
+  // Posted to the budget, so BAC follows approved change orders and budget modifications
+  changeEvents?: ChangeEvent[]
+}
+
+type EarnedValueInputs = Pick<EarnedValueMetrics, "budgetAtCompletion" | "plannedValue" | "earnedValue" | "actualCost"> & {
+  bottomUp: number | null
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+const index = (numerator: number, denominator: number) => (denominator > 0 ? Math.round((numerator / denominator) * 1000) / 1000 : null)
+const percent = (part: number, whole: number) => (whole > 0 ? round((part / whole) * 100) : 0)
+
+const forecastMonth = (value: string) => {
+  const date = parseForecastDate(value)
+  return date ? monthKey(date) : null
+}
+
+export function earnedValueMetrics({ budgetAtCompletion: bac, plannedValue: pv, earnedValue: ev, actualCost: ac, bottomUp }: EarnedValueInputs): EarnedValueMetrics {
+  const cpi = index(ev, ac)
+  const spi = index(ev, pv)
+  const budgetRate = round(ac + bac - ev)
+  // No cost yet means no efficiency to project from; nothing earned for the cost means the CPI estimate is unbounded
+  const eacCpi = cpi === null ? bac : cpi > 0 ? round(bac / cpi) : budgetRate
+  const factor = (cpi ?? 1) * (spi ?? 1)
+  return {
+    budgetAtCompletion: round(bac),
+    plannedValue: round(pv),
+    earnedValue: round(ev),
+    actualCost: round(ac),
+    percentPlanned: percent(pv, bac),
+    percentComplete: percent(ev, bac),
+    costVariance: round(ev - ac),
+    scheduleVariance: round(ev - pv),
+    cpi,
+    spi,
+    eac: {
+      cpi: eacCpi,
+      budgetRate,
+      cpiSpi: factor > 0 ? round(ac + (bac - ev) / factor) : budgetRate,
+      bottomUp: bottomUp === null ? null : round(bottomUp),
+    },
+    estimateToComplete: round(eacCpi - ac),
+    varianceAtCompletion: round(bac - eacCpi),
+    tcpi: index(bac - ev, bac - ac),
+  }
+}
+
+/**
+ * Share of the project planned complete by `date`, as 0-1. The owner draw forecast spreads
+ * the contract over the months it's planned to be earned; without one, the baseline schedule's
+ * activity days elapsed stand in.
+ */
+export function plannedProgress(
+  forecasts: ForecastRecord[],
+  schedule: ScheduleActivity[],
+  date: string,
+): { fraction: number; basis: PlannedValueBasis } | null {
+  const draws = forecasts.filter((f) => f.forecast_type === "draw")
+  const total = draws.reduce((sum, f) => sum + f.current_forecast, 0)
+  if (total > 0) {
+    const month = date.slice(0, 7)
+    const through = draws.reduce((sum, f) => {
+      const drawMonth = forecastMonth(f.forecast_date)
+      return drawMonth !== null && drawMonth <= month ? sum + f.current_forecast : sum
+    }, 0)
+    return { fraction: Math.min(through / total, 1), basis: "forecast" }
+  }
+
+  const statusDate = parseISO(date)
+  let elapsed = 0
+  let duration = 0
+  for (const activity of schedule) {
+    if (!activity.primary_base_start_date || !activity.primary_base_end_date) continue
+    const start = parseISO(activity.primary_base_start_date)
+    const days = differenceInCalendarDays(parseISO(activity.primary_base_end_date), start)
+    if (days <= 0) continue
+    duration += days
+    elapsed += Math.min(Math.max(differenceInCalendarDays(statusDate, start), 0), days)
+  }
+  return duration > 0 ? { fraction: elapsed / duration, basis: "schedule" } : null
+}
+
+// Status date for the project: the latest Sage job cost update
+function jobCostAsOf(history: JobCostHistory[]) {
+  const dates = history.flatMap((job) => job.jobCostItems.map((item) => item.lastUpdated.slice(0, 10)))
+  return dates.length > 0 ? dates.reduce((latest, date) => (date > latest ? date : latest)) : format(new Date(), "yyyy-MM-dd")
+}
+
+// Earned value of each certified pay application, by the month its period ended
+function payApplicationEarnedValue(applications: AiaPayApplication[], budget: BudgetLine[]) {
+  const bac = new Map(budget.map((line) => [line["Budget Code"], line["Revised Budget"]]))
+  return applications
+    .filter((a) => approvedPayApplicationStatuses.includes(a.status) && a.lineItems.length > 0)
+    .map((a) => ({
+      month: a.periodEndDate.slice(0, 7),
+      earnedValue: a.lineItems.reduce((sum, item) => sum + ((bac.get(lineItemCode(item)) ?? 0) * item.percentComplete) / 100, 0),
+    }))
+}
+
+// Cumulative actual cost share of the GC/GR forecast through each month, for spreading AC back over time
+function actualCostShares(forecasts: ForecastRecord[], months: string[]) {
+  const byMonth = new Map<string, number>()
+  for (const f of forecasts) {
+    if (f.forecast_type !== "gcgr") continue
+    const month = forecastMonth(f.forecast_date)
+    if (month) byMonth.set(month, (byMonth.get(month) ?? 0) + f.actual_amount)
+  }
+  let running = 0
+  const cumulative = months.map((month) => (running += byMonth.get(month) ?? 0))
+  const total = cumulative[cumulative.length - 1] ?? 0
+  return total > 0 ? cumulative.map((value) => value / total) : null
+}
+
+/**
+ * Month-end earned value from the project's start through the status date. PV follows the
+ * planned curve; AC is spread back over the GC/GR actuals' timing; EV runs between certified
+ * pay applications and the current job cost percent complete.
+ */
+function earnedValueTrend(
+  totals: EarnedValueMetrics,
+  asOf: string,
+  forecasts: ForecastRecord[],
+  schedule: ScheduleActivity[],
+  anchors: { month: string; earnedValue: number }[],
+): EarnedValuePoint[] {
+  const end = asOf.slice(0, 7)
+  const starts = [
+    ...forecasts.map((f) => forecastMonth(f.forecast_date)),
+    ...schedule.map((a) => (a.primary_base_start_date ? a.primary_base_start_date.slice(0, 7) : null)),
+  ].filter((month): month is string => month !== null && month <= end)
+  const start = starts.length > 0 ? starts.reduce((earliest, month) => (month < earliest ? month : earliest)) : end
+  const months = monthRange(start, end)
+
+  const plannedAt = (month: string) => {
+    const date = month === end ? asOf : format(endOfMonth(parse(month, "yyyy-MM", new Date())), "yyyy-MM-dd")
+    return totals.budgetAtCompletion * (plannedProgress(forecasts, schedule, date)?.fraction ?? 0)
+  }
+  const planned = new Map(months.map((month) => [month, round(plannedAt(month))]))
+  const shares = actualCostShares(forecasts, months)
+
+  // Between known points, EV grows in step with the plan, or evenly where the plan is flat
+  const points = [
+    { month: monthKey(addMonths(parse(start, "yyyy-MM", new Date()), -1)), earnedValue: 0 },
+    ...anchors.filter((a) => a.month >= start && a.month < end).sort((a, b) => a.month.localeCompare(b.month)),
+    { month: end, earnedValue: totals.earnedValue },
+  ]
+  const earnedAt = (month: string) => {
+    const next = points.findIndex((p) => p.month >= month)
+    if (next <= 0) return points[Math.max(next, 0)].earnedValue
+    const [a, b] = [points[next - 1], points[next]]
+    const [pa, pb, pm] = [planned.get(a.month) ?? 0, planned.get(b.month) ?? 0, planned.get(month) ?? 0]
+    const progress = pb > pa ? (pm - pa) / (pb - pa) : (monthRange(a.month, month).length - 1) / (monthRange(a.month, b.month).length - 1)
+    return a.earnedValue + (b.earnedValue - a.earnedValue) * progress
+  }
+
+  return months.map((month, i) => {
+    const plannedValue = planned.get(month) ?? 0
+    const earnedValue = round(earnedAt(month))
+    const share = shares ? shares[i] : totals.plannedValue > 0 ? plannedValue / totals.plannedValue : 1
+    const actualCost = round(totals.actualCost * share)
+    return { month, plannedValue, earnedValue, actualCost, cpi: index(earnedValue, actualCost), spi: index(earnedValue, plannedValue) }
+  })
+}
+
+/**
+ * Earned value by cost code for one project. BAC is the revised budget, AC the Sage job cost,
+ * and EV the budget times percent complete from job cost, falling back to the latest certified
+ * pay application. PV applies the project's planned progress to each line's budget.
+ */
+export function buildProjectEarnedValue(
+  project: Pick<Project, "project_id" | "name">,
+  sources: EarnedValueSources,
+  asOf?: string,
+): ProjectEarnedValue {
+  const id = project.project_id
+  const budget = applyChangeEventsToBudget(
+    sources.budget.filter((line) => line.project_id === id),
+    (sources.changeEvents ?? []).filter((e) => e.projectId === id),
+  )
+  const jobCost = sources.jobCost.filter((job) => job.project_id === id)
+  const forecasts = sources.forecasts.filter((f) => f.project_id === id)
+  const schedule = sources.schedule.filter((a) => a.project_id === id)
+  const applications = sources.payApplications.filter((a) => a.projectId === String(id))
+  const statusDate = asOf ?? jobCostAsOf(jobCost)
+
+  const planned = plannedProgress(forecasts, schedule, statusDate)
+  const sageItems = new Map(jobCost.flatMap((job) => job.jobCostItems.map((item) => [item.costCode, item] as const)))
+  const certified = applications
+    .filter((a) => approvedPayApplicationStatuses.includes(a.status) && a.periodEndDate <= statusDate)
+    .sort((a, b) => b.applicationNumber - a.applicationNumber)[0]
+  const billedLines = new Map((certified?.lineItems ?? []).map((item) => [lineItemCode(item), item]))
+
+  const lines: EarnedValueLine[] = budget.map((line) => {
+    const code = line["Budget Code"]
+    const sage = sageItems.get(code)
+    const billed = billedLines.get(code)
+    const source: EarnedValueSource = sage ? "job-cost" : billed ? "pay-application" : "none"
+    const percentComplete = sage?.percentComplete ?? billed?.percentComplete ?? 0
+    const bac = line["Revised Budget"]
+    return {
+      costCode: code,
+      description: line["Cost Code Tier 3"],
+      costType: line["Cost Type"],
+      source,
+      metrics: earnedValueMetrics({
+        budgetAtCompletion: bac,
+        plannedValue: bac * (planned?.fraction ?? 0),
+        earnedValue: (bac * Math.min(percentComplete, 100)) / 100,
+        actualCost: sage?.actualCost ?? line["Job to Date Costs"],
+        bottomUp: line["Estimated Cost at Completion"],
+      }),
+    }
+  })
+
+  const totals = sumMetrics(lines.map((line) => line.metrics))
+  return {
+    projectId: id,
+    projectName: project.name,
+    asOf: statusDate,
+    plannedBasis: planned?.basis ?? null,
+    totals,
+    lines,
+    trend: earnedValueTrend(totals, statusDate, forecasts, schedule, payApplicationEarnedValue(applications, budget)),
+    gcgr: buildGcGrForecastData(buildForecastLines(forecasts, statusDate.slice(0, 7)), statusDate.slice(0, 7), totals.percentComplete),
+  }
+}
+
+// Rolls metrics up by summing their dollar amounts and recomputing the indices
+export function sumMetrics(metrics: EarnedValueMetrics[]): EarnedValueMetrics {
+  const total = (pick: (m: EarnedValueMetrics) => number) => metrics.reduce((sum, m) => sum + pick(m), 0)
+  const bottomUps = metrics.map((m) => m.eac.bottomUp).filter((value): value is number => value !== null)
+  return earnedValueMetrics({
+    budgetAtCompletion: total((m) => m.budgetAtCompletion),
+    plannedValue: total((m) => m.plannedValue),
+    earnedValue: total((m) => m.earnedValue),
+    actualCost: total((m) => m.actualCost),
+    bottomUp: bottomUps.length > 0 ? bottomUps.reduce((sum, value) => sum + value, 0) : null,
+  })
+}
+
+/**
+ * Earned value across the projects that have a budget, with their trends summed by month and
+ * the GC/GR performance index weighted by GC/GR budget.
+ */
+export function buildPortfolioEarnedValue(projects: Pick<Project, "project_id" | "name">[], sources: EarnedValueSources): PortfolioEarnedValue {
+  const budgeted = new Set(sources.budget.map((line) => line.project_id))
+  const projectValues = projects.filter((p) => budgeted.has(p.project_id)).map((p) => buildProjectEarnedValue(p, sources))
+
+  const byMonth = new Map<string, { plannedValue: number; earnedValue: number; actualCost: number }>()
+  for (const point of projectValues.flatMap((p) => p.trend)) {
+    const entry = byMonth.get(point.month) ?? { plannedValue: 0, earnedValue: 0, actualCost: 0 }
+    entry.plannedValue += point.plannedValue
+    entry.earnedValue += point.earnedValue
+    entry.actualCost += point.actualCost
+    byMonth.set(point.month, entry)
+  }
+  const trend = [...byMonth.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, v]) => ({
+      month,
+      plannedValue: round(v.plannedValue),
+      earnedValue: round(v.earnedValue),
+      actualCost: round(v.actualCost),
+      cpi: index(v.earnedValue, v.actualCost),
+      spi: index(v.earnedValue, v.plannedValue),
+    }))
+
+  const gcgr = projectValues.map((p) => p.gcgr.summary)
+  const gcgrEarned = gcgr.reduce((sum, g) => sum + (g.totalBudget * g.percentComplete) / 100, 0)
+  const gcgrActual = gcgr.reduce((sum, g) => sum + g.totalActualToDate, 0)
+
+  return {
+    totals: sumMetrics(projectValues.map((p) => p.totals)),
+    projects: projectValues,
+    trend,
+    gcgrPerformanceIndex: index(gcgrEarned, gcgrActual) ?? 1,
+  }
+}
+
+/**
+ * GC/GR forecast lines in the summary shape, with the performance index as GC/GR earned at the
+ * project's percent complete over GC/GR cost to date. Months are numbered from the first.
+ */
+export function buildGcGrForecastData(lines: ForecastLine[], period: string, percentComplete: number): GcGrForecastData {
+  const gcgr = lines.filter((line) => line.forecast_type === "gcgr")
+  const records = gcgr.map((line) => {
+    const months = [...new Set([...Object.keys(line.previous_forecast), ...Object.keys(line.actual_remaining_forecast)])].sort()
+    return {
+      costCode: line.cost_code ?? "",
+      description: line.cost_code_description ?? "",
+      budget: line.budget,
+      actualToDate: line.actual_to_date,
+      etc: line.cost_to_complete,
+      eac: line.estimated_at_completion,
+      variance: line.variance,
+      monthlyForecasts: months.map((month, i) => ({
+        month: i + 1,
+        planned: line.previous_forecast[month] ?? 0,
+        ...(month < period
+          ? { actual: line.actual_remaining_forecast[month] ?? 0 }
+          : { forecast: line.actual_remaining_forecast[month] ?? 0 }),
+      })),
+    }
+  })
+
+  const total = (pick: (line: ForecastLine) => number) => round(gcgr.reduce((sum, line) => sum + pick(line), 0))
+  const totalBudget = total((line) => line.budget)
+  const totalActualToDate = total((line) => line.actual_to_date)
+  return {
+    summary: {
+      totalBudget,
+      totalActualToDate,
+      totalETC: total((line) => line.cost_to_complete),
+      totalEAC: total((line) => line.estimated_at_completion),
+      totalVariance: total((line) => line.variance),
+      percentComplete,
+      // With no GC/GR cost yet there's nothing to measure; read it as on budget
+      performanceIndex: index((totalBudget * percentComplete) / 100, totalActualToDate) ?? 1,
+    },
+    records,
+  }
+}
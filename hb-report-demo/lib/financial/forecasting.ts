@@ -0,0 +1,342 @@
+// lib/financial/forecasting.ts
+import { addMonths, endOfMonth, format, isValid, parse, parseISO } from "date-fns"
+import type { ChangeEvent } from "@/types/change-orders"
+import type { ForecastRecord } from "@/types/data-source"
+import type {
+  CurveParameters,
+  ForecastCurveMethod,
+  ForecastLine,
+  ForecastMethod,
+  ForecastReconciliationMonth,
+  ForecastSnapshot,
+  ForecastSnapshotLine,
+  ForecastTotals,
+} from "@/types/forecasting"
+import { eventRevenue } from "./change-orders"
+
+export const forecastMethods: ForecastMethod[] = ["Manual", "HBI Forecast", "Linear", "S Curve", "Bell Curve"]
+
+export const defaultCurveParameters: CurveParameters = { steepness: 10, midpoint: 0.5, peak: 0.5, spread: 0.25 }
+
+// The forecast export names HBI's method "AI-Driven"
+const importedMethods: Record<string, ForecastMethod> = { "AI-Driven": "HBI Forecast" }
+
+const round = (value: number) => Math.round(value * 100) / 100
+const sum = (values: number[]) => round(values.reduce((total, value) => total + value, 0))
+
+export const monthKey = (date: Date) => format(date, "yyyy-MM")
+
+export function isCurveMethod(method: ForecastMethod): method is ForecastCurveMethod {
+  return method === "Linear" || method === "S Curve" || method === "Bell Curve"
+}
+
+/**
+ * Forecast dates are entered as MM/dd/yyyy on the tables; the export uses ISO dates.
+ */
+export function parseForecastDate(value: string): Date | null {
+  const parsed = /^\d{4}-\d{2}-\d{2}/.test(value) ? parseISO(value) : parse(value, "MM/dd/yyyy", new Date())
+  return isValid(parsed) ? parsed : null
+}
+
+/**
+ * Month keys from one "yyyy-MM" to another, inclusive.
+ */
+export function monthRange(from: string, to: string) {
+  const months: string[] = []
+  for (let date = parse(from, "yyyy-MM", new Date()); monthKey(date) <= to; date = addMonths(date, 1)) months.push(monthKey(date))
+  return months
+}
+
+/**
+ * Share of the cost falling in each of `periods` months, summing to 1. Linear is flat, S Curve
+ * takes each month's slice of a logistic curve and Bell Curve a normal curve around the peak.
+ * A weight below 10 scales later months up relative to earlier ones.
+ */
+export function curveWeights(method: ForecastCurveMethod, periods: number, weight = 10, parameters: Partial<CurveParameters> = {}) {
+  if (periods <= 0) return []
+  const { steepness, midpoint, peak, spread } = { ...defaultCurveParameters, ...parameters }
+  const logistic = (x: number) => 1 / (1 + Math.exp(-steepness * (x - midpoint)))
+  const tilt = Math.min(Math.max(weight, 1), 10) / 10
+
+  const raw = Array.from({ length: periods }, (_, index) => {
+    const start = index / periods
+    const end = (index + 1) / periods
+    const shape =
+      method === "S Curve"
+        ? logistic(end) - logistic(start)
+        : method === "Bell Curve"
+          ? Math.exp(-0.5 * Math.pow(((start + end) / 2 - peak) / Math.max(spread, 0.01), 2))
+          : 1
+    return shape * (periods > 1 ? tilt + (1 - tilt) * (index / (periods - 1)) : 1)
+  })
+  const total = raw.reduce((acc, value) => acc + value, 0)
+  return total > 0 ? raw.map((value) => value / total) : raw.map(() => 1 / periods)
+}
+
+/**
+ * Spreads a line's cost to complete over its remaining months, from the later of the
+ * period and its start through its end date. A line past its end date carries everything
+ * left into the period. Rounding differences land in the last month.
+ */
+export function spreadCostToComplete(line: ForecastLine, period: string): { [month: string]: number } {
+  if (!isCurveMethod(line.forecast_method)) return {}
+  const start = parseForecastDate(line.start_date)
+  const end = parseForecastDate(line.end_date)
+  const first = start && monthKey(start) > period ? monthKey(start) : period
+  const last = end ? monthKey(end) : period
+  const months = last >= first ? monthRange(first, last) : [period]
+
+  const weights = curveWeights(line.forecast_method, months.length, line.weight, line.curve)
+  const amounts = weights.map((share) => round(line.cost_to_complete * share))
+  amounts[amounts.length - 1] = round(amounts[amounts.length - 1] + line.cost_to_complete - sum(amounts))
+  return Object.fromEntries(months.map((month, index) => [month, amounts[index]]))
+}
+
+const remainingMonths = (monthly: { [month: string]: number }, period: string) =>
+  Object.fromEntries(Object.entries(monthly).filter(([month]) => month >= period))
+
+const actualMonths = (monthly: { [month: string]: number }, period: string) =>
+  Object.fromEntries(Object.entries(monthly).filter(([month]) => month < period))
+
+/**
+ * Recalculates a line after an edit. Curve methods spread cost to complete over the
+ * remaining months; Manual and HBI lines take cost to complete from their entered months.
+ * Months before the period are actuals and never change.
+ */
+export function reforecastLine(line: ForecastLine, period: string): ForecastLine {
+  const actuals = actualMonths(line.actual_remaining_forecast, period)
+  const remaining = isCurveMethod(line.forecast_method) ? spreadCostToComplete(line, period) : remainingMonths(line.actual_remaining_forecast, period)
+  return withTotals({ ...line, actual_remaining_forecast: { ...actuals, ...remaining } }, period)
+}
+
+function withTotals(line: ForecastLine, period: string): ForecastLine {
+  const cost_to_complete = sum(Object.values(remainingMonths(line.actual_remaining_forecast, period)))
+  const estimated_at_completion = round(line.actual_to_date + cost_to_complete)
+  const months = new Set([...Object.keys(line.actual_remaining_forecast), ...Object.keys(line.previous_forecast)])
+  const variance_amounts = Object.fromEntries(
+    [...months].map((month) => [month, round((line.actual_remaining_forecast[month] ?? 0) - (line.previous_forecast[month] ?? 0))]),
+  )
+  return { ...line, cost_to_complete, estimated_at_completion, variance: round(line.budget - estimated_at_completion), variance_amounts }
+}
+
+export function forecastLineId(row: Pick<ForecastRecord, "project_id" | "forecast_type" | "cost_code" | "csi_code">) {
+  return `${row.forecast_type}-${row.project_id}-${row.forecast_type === "gcgr" ? row.cost_code : row.csi_code.replace(/\s/g, "")}`
+}
+
+/**
+ * Builds forecast lines from the monthly forecast export. Months before the period take
+ * the recorded actuals; later months keep the exported forecast. The exported total
+ * stands in as the line budget. Approved owner change orders add draw lines of their own.
+ */
+export function buildForecastLines(rows: ForecastRecord[], period: string, changeEvents: ChangeEvent[] = []): ForecastLine[] {
+  const groups = new Map<string, ForecastRecord[]>()
+  for (const row of rows) {
+    const id = forecastLineId(row)
+    groups.set(id, [...(groups.get(id) ?? []), row])
+  }
+
+  const lines = [...groups.entries()].map(([id, group]) => {
+    const sorted = [...group].sort((a, b) => a.forecast_date.localeCompare(b.forecast_date))
+    const first = sorted[0]
+    const monthly: { [month: string]: number } = {}
+    const previous: { [month: string]: number } = {}
+    for (const row of sorted) {
+      const month = row.forecast_date.slice(0, 7)
+      monthly[month] = round((monthly[month] ?? 0) + (month < period ? row.actual_amount : row.current_forecast))
+      previous[month] = round((previous[month] ?? 0) + row.previous_forecast)
+    }
+    const actual_to_date = sum(sorted.filter((row) => row.forecast_date.slice(0, 7) < period).map((row) => row.actual_amount))
+    const budget = sum(sorted.map((row) => row.current_forecast))
+    const previousCostToComplete = sum(Object.values(remainingMonths(previous, period)))
+    const previousEac = sum(Object.values(previous))
+
+    const line: ForecastLine = {
+      id,
+      project_id: first.project_id,
+      forecast_type: first.forecast_type === "draw" ? "draw" : "gcgr",
+      ...(first.forecast_type === "draw"
+        ? { csi_code: first.csi_code, csi_description: first.csi_description }
+        : { cost_code: first.cost_code, cost_code_description: first.cost_code_description }),
+      budget,
+      actual_to_date,
+      cost_to_complete: 0,
+      estimated_at_completion: 0,
+      variance: 0,
+      start_date: format(parseISO(first.forecast_date), "MM/dd/yyyy"),
+      end_date: format(endOfMonth(parseISO(sorted[sorted.length - 1].forecast_date)), "MM/dd/yyyy"),
+      forecast_method: importedMethods[first.forecast_method] ?? (first.forecast_method as ForecastMethod),
+      weight: 10,
+      actual_remaining_forecast: monthly,
+      previous_forecast: previous,
+      variance_amounts: {},
+      previous_totals: {
+        budget,
+        cost_to_complete: previousCostToComplete,
+        estimated_at_completion: previousEac,
+        variance: round(budget - previousEac),
+      },
+    }
+    return withTotals(line, period)
+  })
+  return [...lines, ...changeOrderForecastLines(changeEvents, rows, period)]
+}
+
+/**
+ * Owner change orders approved since the export, as draw lines: the change order value is
+ * the line budget, billed evenly from the later of its approval and the period through the
+ * project's last draw month.
+ */
+export function changeOrderForecastLines(events: ChangeEvent[], rows: ForecastRecord[], period: string): ForecastLine[] {
+  return events
+    .filter((event) => event.status !== "void" && event.ownerCo?.status === "approved")
+    .flatMap((event) => {
+      const drawMonths = rows
+        .filter((row) => row.project_id === event.projectId && row.forecast_type === "draw")
+        .map((row) => row.forecast_date.slice(0, 7))
+      if (drawMonths.length === 0) return []
+      const ownerCo = event.ownerCo!
+      const first = [ownerCo.statusDate.slice(0, 7), period].sort()[1]
+      const last = drawMonths.sort()[drawMonths.length - 1]
+      const budget = eventRevenue(event)
+      const line: ForecastLine = {
+        id: `draw-${event.projectId}-${ownerCo.number}`,
+        project_id: event.projectId,
+        forecast_type: "draw",
+        csi_code: ownerCo.number,
+        csi_description: event.title,
+        budget,
+        actual_to_date: 0,
+        cost_to_complete: budget,
+        estimated_at_completion: 0,
+        variance: 0,
+        start_date: format(parse(first, "yyyy-MM", new Date()), "MM/dd/yyyy"),
+        end_date: format(endOfMonth(parse(last, "yyyy-MM", new Date())), "MM/dd/yyyy"),
+        forecast_method: "Linear",
+        weight: 10,
+        actual_remaining_forecast: {},
+        previous_forecast: {},
+        variance_amounts: {},
+        previous_totals: { budget: 0, cost_to_complete: 0, estimated_at_completion: 0, variance: 0 },
+      }
+      return [reforecastLine(line, period)]
+    })
+}
+
+/**
+ * Latest version saved for a project in the period, or in the most recent period before it
+ * when `before` is set.
+ */
+export function latestSnapshot(snapshots: ForecastSnapshot[], projectId: number, period: string, before = false) {
+  return (
+    snapshots
+      .filter((s) => s.projectId === projectId && (before ? s.period < period : s.period === period))
+      .sort((a, b) => b.period.localeCompare(a.period) || b.version - a.version)[0] ?? null
+  )
+}
+
+const totalsOf = (line: ForecastTotals): ForecastTotals => ({
+  budget: line.budget,
+  cost_to_complete: line.cost_to_complete,
+  estimated_at_completion: line.estimated_at_completion,
+  variance: line.variance,
+})
+
+/**
+ * Lays saved forecasts over freshly built lines: last period's snapshot becomes the
+ * previous forecast, and this period's latest version restores the working forecast.
+ */
+export function applySnapshots(lines: ForecastLine[], snapshots: ForecastSnapshot[], projectId: number, period: string) {
+  const previous = latestSnapshot(snapshots, projectId, period, true)
+  const current = latestSnapshot(snapshots, projectId, period)
+  const previousLines = new Map(previous?.lines.map((l) => [l.lineId, l]))
+  const currentLines = new Map(current?.lines.map((l) => [l.lineId, l]))
+
+  return lines.map((line) => {
+    const prior = previousLines.get(line.id)
+    const saved = currentLines.get(line.id)
+    let updated = prior ? { ...line, previous_forecast: { ...line.previous_forecast, ...prior.monthly }, previous_totals: totalsOf(prior) } : line
+    if (saved) {
+      updated = {
+        ...updated,
+        forecast_method: saved.forecast_method,
+        weight: saved.weight,
+        curve: saved.curve,
+        start_date: saved.start_date,
+        end_date: saved.end_date,
+        actual_remaining_forecast: { ...actualMonths(updated.actual_remaining_forecast, period), ...remainingMonths(saved.monthly, period) },
+      }
+    }
+    return withTotals(updated, period)
+  })
+}
+
+/**
+ * Saves the period's forecast as the next version for the project.
+ */
+export function createForecastSnapshot(
+  lines: ForecastLine[],
+  projectId: number,
+  period: string,
+  snapshots: ForecastSnapshot[],
+  by: string,
+  date = new Date().toISOString(),
+): ForecastSnapshot {
+  const version = (latestSnapshot(snapshots, projectId, period)?.version ?? 0) + 1
+  return {
+    id: `forecast-${projectId}-${period}-v${version}`,
+    projectId,
+    period,
+    version,
+    // Lines with nothing left to forecast have no months to carry forward
+    lines: lines
+      .filter((line) => line.project_id === projectId && (line.cost_to_complete !== 0 || Object.keys(remainingMonths(line.actual_remaining_forecast, period)).length > 0))
+      .map(
+        (line): ForecastSnapshotLine => ({
+          lineId: line.id,
+          forecast_method: line.forecast_method,
+          weight: line.weight,
+          ...(line.curve ? { curve: line.curve } : {}),
+          start_date: line.start_date,
+          end_date: line.end_date,
+          ...totalsOf(line),
+          monthly: remainingMonths(line.actual_remaining_forecast, period),
+        }),
+      ),
+    createdBy: by,
+    createdAt: date,
+  }
+}
+
+/**
+ * Forecast against actual for each closed month before the period. A month's forecast is
+ * the latest snapshot saved by that month; months with none fall back to the export.
+ */
+export function reconcileForecast(
+  rows: ForecastRecord[],
+  snapshots: ForecastSnapshot[],
+  period: string,
+  forecastType?: ForecastLine["forecast_type"],
+): ForecastReconciliationMonth[] {
+  const scoped = rows.filter((row) => !forecastType || row.forecast_type === forecastType)
+  const lineIds = new Set(scoped.map(forecastLineId))
+  const byMonth = new Map<string, { actual: number; imported: number }>()
+  for (const row of scoped) {
+    const month = row.forecast_date.slice(0, 7)
+    if (month >= period) continue
+    const totals = byMonth.get(month) ?? { actual: 0, imported: 0 }
+    byMonth.set(month, { actual: totals.actual + row.actual_amount, imported: totals.imported + row.current_forecast })
+  }
+
+  return [...byMonth.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, totals]) => {
+      const snapshot = snapshots
+        .filter((s) => s.period <= month && s.lines.some((l) => lineIds.has(l.lineId)))
+        .sort((a, b) => b.period.localeCompare(a.period) || b.version - a.version)[0]
+      const forecast = snapshot
+        ? sum(snapshot.lines.filter((l) => lineIds.has(l.lineId)).map((l) => l.monthly[month] ?? 0))
+        : round(totals.imported)
+      const actual = round(totals.actual)
+      return { month, forecast, actual, variance: round(forecast - actual), source: snapshot ? "snapshot" : "import" }
+    })
+}
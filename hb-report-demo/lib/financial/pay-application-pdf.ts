@@ -0,0 +1,540 @@
+// lib/financial/pay-application-pdf.ts
+import { format, parseISO } from "date-fns"
+import { zipSync } from "fflate"
+import { jsPDF } from "jspdf"
+import { autoTable } from "jspdf-autotable"
+import type { AiaAttachment, AiaPayApplication, G703Totals } from "@/types/aia-pay-application"
+import { addG703Totals, emptyG703Totals, g703Row, summarizeG702 } from "./pay-application"
+
+const HEADER_FILL: [number, number, number] = [235, 235, 235]
+const MARGIN = 36
+const DEFAULT_ROWS_PER_SHEET = 20
+
+interface PayApplicationPdfOptions {
+  previous?: AiaPayApplication
+  projectNumber?: string
+  contractDate?: string
+  // Filled in when the architect has certified an amount other than line 8
+  amountCertified?: number
+  rowsPerSheet?: number
+}
+
+const money = (value: number) =>
+  new Intl.NumberFormat("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value)
+const dollars = (value: number) => `$${money(value)}`
+const formatDate = (value?: string) => (value ? format(parseISO(value), "MM/dd/yyyy") : "")
+const percent = (part: number, whole: number) => (whole ? `${((part / whole) * 100).toFixed(1)}%` : "0.0%")
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const pages: T[][] = []
+  for (let i = 0; i < items.length; i += size) pages.push(items.slice(i, i + size))
+  return pages.length > 0 ? pages : [[]]
+}
+
+function label(doc: jsPDF, text: string, x: number, y: number) {
+  doc.setFont("helvetica", "bold")
+  doc.setFontSize(7)
+  doc.text(text, x, y)
+  doc.setFont("helvetica", "normal")
+}
+
+function field(doc: jsPDF, text: string, value: string, x: number, y: number, width: number) {
+  label(doc, text, x, y)
+  doc.setFontSize(8)
+  doc.text(value, x + doc.getTextWidth(text) + 4, y)
+  doc.setLineWidth(0.4)
+  doc.line(x + doc.getTextWidth(text) + 2, y + 2, x + width, y + 2)
+}
+
+function checkbox(doc: jsPDF, text: string, checked: boolean, x: number, y: number) {
+  doc.rect(x, y - 6, 6, 6)
+  if (checked) {
+    doc.line(x + 1, y - 3, x + 2.5, y - 1)
+    doc.line(x + 2.5, y - 1, x + 5, y - 5)
+  }
+  doc.setFontSize(7)
+  doc.text(text, x + 9, y)
+}
+
+function paragraph(doc: jsPDF, text: string, x: number, y: number, width: number, size = 7) {
+  doc.setFontSize(size)
+  const lines = doc.splitTextToSize(text, width) as string[]
+  doc.text(lines, x, y)
+  return y + lines.length * size * 1.2
+}
+
+function drawG702(doc: jsPDF, app: AiaPayApplication, options: PayApplicationPdfOptions, pageCount: number) {
+  const summary = summarizeG702(app, options.previous)
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const right = pageWidth - MARGIN
+  const rate = app.retentionPercentage
+
+  doc.setFont("helvetica", "bold")
+  doc.setFontSize(12)
+  doc.text("APPLICATION AND CERTIFICATE FOR PAYMENT", MARGIN, 40)
+  doc.setFontSize(8)
+  doc.text("AIA DOCUMENT G702", right, 34, { align: "right" })
+  doc.setFont("helvetica", "normal")
+  doc.text(`PAGE ONE OF ${pageCount} PAGES`, right, 44, { align: "right" })
+  doc.setLineWidth(1)
+  doc.line(MARGIN, 50, right, 50)
+
+  // Parties, project and application identification
+  const recipients = new Set((app.distributionList ?? []).filter((r) => r.receivesPdf).map((r) => r.role))
+  field(doc, "TO OWNER:", app.ownerName, MARGIN, 66, 220)
+  field(doc, "FROM CONTRACTOR:", app.contractorName, MARGIN, 84, 220)
+  field(doc, "VIA ARCHITECT:", app.architectName, MARGIN, 102, 220)
+  label(doc, "PROJECT:", 268, 66)
+  doc.setFontSize(8)
+  doc.text((doc.splitTextToSize(app.projectName, 112) as string[]).slice(0, 2), 306, 66)
+  field(doc, "APPLICATION NO:", String(app.applicationNumber), 430, 66, right - 430)
+  field(doc, "PERIOD TO:", formatDate(app.periodEndDate), 430, 80, right - 430)
+  field(doc, "PROJECT NOS:", options.projectNumber ?? app.projectId, 430, 94, right - 430)
+  field(doc, "CONTRACT DATE:", formatDate(options.contractDate), 430, 108, right - 430)
+  label(doc, "Distribution to:", 268, 90)
+  checkbox(doc, "OWNER", recipients.has("Owner"), 268, 101)
+  checkbox(doc, "ARCHITECT", recipients.has("Architect"), 268, 113)
+  checkbox(doc, "CONTRACTOR", recipients.has("Contractor"), 340, 101)
+  checkbox(doc, "OTHER", recipients.has("Consultant") || recipients.has("Other"), 340, 113)
+  doc.setLineWidth(1)
+  doc.line(MARGIN, 120, right, 120)
+
+  // Left column: contractor's application, lines 1-9
+  const leftWidth = 270
+  const valueX = MARGIN + leftWidth
+  label(doc, "CONTRACTOR'S APPLICATION FOR PAYMENT", MARGIN, 136)
+  paragraph(doc, "Application is made for payment, as shown below, in connection with the Contract. Continuation Sheet, AIA Document G703, is attached.", MARGIN, 146, leftWidth)
+
+  let y = 176
+  const line = (number: string, text: string, value: number, indent = 0, bold = false) => {
+    doc.setFont("helvetica", bold ? "bold" : "normal")
+    doc.setFontSize(7.5)
+    const lines = doc.splitTextToSize(`${number} ${text}`.trim(), leftWidth - 90 - indent) as string[]
+    doc.text(lines, MARGIN + indent, y)
+    const baseline = y + (lines.length - 1) * 9
+    doc.text(dollars(value), valueX, baseline, { align: "right" })
+    doc.setLineWidth(0.4)
+    doc.line(valueX - 80, baseline + 2, valueX, baseline + 2)
+    doc.setFont("helvetica", "normal")
+    y = baseline + 16
+  }
+  line("1.", "ORIGINAL CONTRACT SUM", summary.originalContractSum)
+  line("2.", "Net change by Change Orders", summary.netChangeByChangeOrders)
+  line("3.", "CONTRACT SUM TO DATE (Line 1 ± 2)", summary.contractSumToDate)
+  line("4.", "TOTAL COMPLETED & STORED TO DATE (Column G on G703)", summary.totalCompletedAndStored)
+  label(doc, "5. RETAINAGE:", MARGIN, y)
+  y += 12
+  line("a.", `${rate}% of Completed Work (Columns D + E on G703)`, summary.retainageOnCompletedWork, 10)
+  line("b.", `${rate}% of Stored Material (Column F on G703)`, summary.retainageOnStoredMaterial, 10)
+  line("", "Total Retainage (Lines 5a + 5b or Total in Column I of G703)", summary.totalRetainage, 10)
+  line("6.", "TOTAL EARNED LESS RETAINAGE (Line 4 less Line 5 Total)", summary.totalEarnedLessRetainage)
+  line("7.", "LESS PREVIOUS CERTIFICATES FOR PAYMENT (Line 6 from prior Certificate)", summary.lessPreviousCertificates)
+  line("8.", "CURRENT PAYMENT DUE", summary.currentPaymentDue, 0, true)
+  line("9.", "BALANCE TO FINISH, INCLUDING RETAINAGE (Line 3 less Line 6)", summary.balanceToFinishIncludingRetainage)
+
+  const co = summary.changeOrders
+  const additions = co.previousAdditions + co.thisPeriodAdditions
+  const deductions = co.previousDeductions + co.thisPeriodDeductions
+  autoTable(doc, {
+    startY: y + 4,
+    margin: { left: MARGIN },
+    tableWidth: leftWidth,
+    head: [["CHANGE ORDER SUMMARY", "ADDITIONS", "DEDUCTIONS"]],
+    body: [
+      ["Total changes approved in previous months by Owner", money(co.previousAdditions), money(co.previousDeductions)],
+      ["Total approved this Month", money(co.thisPeriodAdditions), money(co.thisPeriodDeductions)],
+      ["TOTALS", money(additions), money(deductions)],
+      ["NET CHANGES by Change Order", { content: money(additions - deductions), colSpan: 2, styles: { halign: "center" } }],
+    ],
+    theme: "grid",
+    styles: { fontSize: 6.5, cellPadding: 2, textColor: 0, lineColor: 0, lineWidth: 0.4 },
+    headStyles: { fillColor: HEADER_FILL, fontStyle: "bold" },
+    columnStyles: { 1: { halign: "right", cellWidth: 62 }, 2: { halign: "right", cellWidth: 62 } },
+    didParseCell: (data) => {
+      if (data.section === "body" && data.row.index >= 2 && data.column.index === 0) data.cell.styles.fontStyle = "bold"
+    },
+  })
+
+  // Right column: contractor certification, notarization and architect's certificate
+  const rx = 318
+  const rightWidth = right - rx
+  doc.setLineWidth(0.6)
+  doc.line(rx - 9, 126, rx - 9, 700)
+  let ry = paragraph(
+    doc,
+    "The undersigned Contractor certifies that, to the best of its knowledge, information and belief, the Work covered by this Application for Payment has been completed in accordance with the Contract Documents, that amounts received under previous Certificates for Payment have been paid to those who performed the Work, and that the current payment shown herein is now due.",
+    rx,
+    136,
+    rightWidth,
+  )
+  label(doc, "CONTRACTOR:", rx, ry + 6)
+  doc.setFontSize(8)
+  doc.text(app.contractorName, rx + 52, ry + 6)
+  ry += 26
+  field(doc, "By:", "", rx, ry, 170)
+  field(doc, "Date:", app.submittedDate ? formatDate(app.submittedDate) : "", rx + 176, ry, rightWidth - 176)
+  if (app.submittedBy) {
+    doc.setFontSize(6)
+    doc.text(app.submittedBy, rx + 16, ry + 9)
+  }
+
+  // Notarization block
+  ry += 22
+  doc.setLineWidth(0.6)
+  doc.rect(rx, ry - 10, rightWidth, 88)
+  field(doc, "State of:", "", rx + 6, ry + 2, 120)
+  field(doc, "County of:", "", rx + 132, ry + 2, rightWidth - 138)
+  field(doc, "Subscribed and sworn to before me this", "", rx + 6, ry + 20, rightWidth - 12)
+  field(doc, "day of", "", rx + 6, ry + 38, rightWidth - 12)
+  field(doc, "Notary Public:", "", rx + 6, ry + 56, rightWidth - 12)
+  field(doc, "My Commission expires:", "", rx + 6, ry + 72, rightWidth - 12)
+
+  ry += 96
+  label(doc, "ARCHITECT'S CERTIFICATE FOR PAYMENT", rx, ry)
+  ry = paragraph(
+    doc,
+    "In accordance with the Contract Documents, based on on-site observations and the data comprising this application, the Architect certifies to the Owner that to the best of the Architect's knowledge, information and belief the Work has progressed as indicated, the quality of the Work is in accordance with the Contract Documents, and the Contractor is entitled to payment of the AMOUNT CERTIFIED.",
+    rx,
+    ry + 10,
+    rightWidth,
+  )
+  ry += 8
+  label(doc, "AMOUNT CERTIFIED", rx, ry)
+  doc.setFontSize(9)
+  doc.text(options.amountCertified !== undefined ? dollars(options.amountCertified) : "$", rx + 120, ry)
+  doc.setLineWidth(0.4)
+  doc.line(rx + 118, ry + 2, right, ry + 2)
+  ry = paragraph(
+    doc,
+    "(Attach explanation if amount certified differs from the amount applied. Initial all figures on this Application and on the Continuation Sheet that are changed to conform with the amount certified.)",
+    rx,
+    ry + 14,
+    rightWidth,
+    6,
+  )
+  label(doc, "ARCHITECT:", rx, ry + 8)
+  doc.setFontSize(8)
+  doc.text(app.architectName, rx + 46, ry + 8)
+  ry += 28
+  field(doc, "By:", "", rx, ry, 170)
+  field(doc, "Date:", "", rx + 176, ry, rightWidth - 176)
+  paragraph(
+    doc,
+    "This Certificate is not negotiable. The AMOUNT CERTIFIED is payable only to the Contractor named herein. Issuance, payment and acceptance of payment are without prejudice to any rights of the Owner or Contractor under this Contract.",
+    rx,
+    ry + 18,
+    rightWidth,
+    6,
+  )
+
+  doc.setLineWidth(1)
+  doc.line(MARGIN, 740, right, 740)
+  doc.setFontSize(6)
+  doc.text(`AIA DOCUMENT G702 · APPLICATION AND CERTIFICATE FOR PAYMENT · Version ${app.version}`, MARGIN, 750)
+}
+
+function totalsRow(title: string, totals: G703Totals) {
+  return [
+    "",
+    title,
+    money(totals.scheduledValue),
+    money(totals.fromPreviousApplication),
+    money(totals.thisPeriod),
+    money(totals.materialsPresentlyStored),
+    money(totals.totalCompletedAndStored),
+    percent(totals.totalCompletedAndStored, totals.scheduledValue),
+    money(totals.balanceToFinish),
+    money(totals.retainage),
+  ]
+}
+
+function drawG703Sheet(
+  doc: jsPDF,
+  app: AiaPayApplication,
+  items: AiaPayApplication["lineItems"],
+  broughtForward: G703Totals | null,
+  isLast: boolean,
+  pageNumber: number,
+  pageCount: number,
+  options: PayApplicationPdfOptions,
+) {
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const right = pageWidth - MARGIN
+
+  doc.setFont("helvetica", "bold")
+  doc.setFontSize(12)
+  doc.text("CONTINUATION SHEET", MARGIN, 40)
+  doc.setFontSize(8)
+  doc.text("AIA DOCUMENT G703", right, 34, { align: "right" })
+  doc.setFont("helvetica", "normal")
+  doc.text(`PAGE ${pageNumber} OF ${pageCount} PAGES`, right, 44, { align: "right" })
+  doc.setLineWidth(1)
+  doc.line(MARGIN, 50, right, 50)
+
+  paragraph(
+    doc,
+    "AIA Document G702, APPLICATION AND CERTIFICATE FOR PAYMENT, containing the Contractor's signed certification is attached. Amounts are stated in dollars. Column I shows retainage for each line item.",
+    MARGIN,
+    62,
+    360,
+  )
+  field(doc, "APPLICATION NO:", String(app.applicationNumber), 520, 62, right - 520)
+  field(doc, "APPLICATION DATE:", formatDate(app.applicationDate), 520, 76, right - 520)
+  field(doc, "PERIOD TO:", formatDate(app.periodEndDate), 520, 90, right - 520)
+  field(doc, "ARCHITECT'S PROJECT NO:", options.projectNumber ?? app.projectId, 520, 104, right - 520)
+
+  const rows = items.map((item, index) => {
+    const row = g703Row(item, app.retentionPercentage)
+    return {
+      totals: row,
+      cells: [
+        item.scheduleOfValues || item.costCode || String(index + 1),
+        item.description,
+        money(row.scheduledValue),
+        money(row.fromPreviousApplication),
+        money(row.thisPeriod),
+        money(row.materialsPresentlyStored),
+        money(row.totalCompletedAndStored),
+        percent(row.totalCompletedAndStored, row.scheduledValue),
+        money(row.balanceToFinish),
+        money(row.retainage),
+      ],
+    }
+  })
+  const sheetTotals = rows.map((r) => r.totals).reduce(addG703Totals, emptyG703Totals())
+  const carried = broughtForward ? addG703Totals(broughtForward, sheetTotals) : sheetTotals
+
+  const body = [
+    ...(broughtForward ? [totalsRow("BROUGHT FORWARD", broughtForward)] : []),
+    ...rows.map((r) => r.cells),
+    totalsRow(isLast ? "GRAND TOTALS" : "CARRIED FORWARD", carried),
+  ]
+
+  autoTable(doc, {
+    startY: 116,
+    margin: { left: MARGIN, right: MARGIN },
+    head: [
+      ["A", "B", "C", "D", "E", "F", "G", "", "H", "I"],
+      [
+        "ITEM NO.",
+        "DESCRIPTION OF WORK",
+        "SCHEDULED VALUE",
+        "WORK COMPLETED FROM PREVIOUS APPLICATION (D + E)",
+        "WORK COMPLETED THIS PERIOD",
+        "MATERIALS PRESENTLY STORED (NOT IN D OR E)",
+        "TOTAL COMPLETED AND STORED TO DATE (D + E + F)",
+        "% (G ÷ C)",
+        "BALANCE TO FINISH (C - G)",
+        "RETAINAGE",
+      ],
+    ],
+    body,
+    theme: "grid",
+    styles: { fontSize: 7, cellPadding: 3, textColor: 0, lineColor: 0, lineWidth: 0.4, halign: "right" },
+    headStyles: { fillColor: HEADER_FILL, fontStyle: "bold", fontSize: 6, halign: "center", valign: "middle" },
+    columnStyles: {
+      0: { cellWidth: 44, halign: "left" },
+      1: { cellWidth: 170, halign: "left", overflow: "ellipsize" },
+      7: { cellWidth: 36 },
+    },
+    didParseCell: (data) => {
+      if (data.section !== "body") return
+      const isTotals = (broughtForward && data.row.index === 0) || data.row.index === body.length - 1
+      if (isTotals) {
+        data.cell.styles.fontStyle = "bold"
+        data.cell.styles.fillColor = HEADER_FILL
+      }
+    },
+  })
+
+  doc.setLineWidth(1)
+  doc.line(MARGIN, 576, right, 576)
+  doc.setFontSize(6)
+  doc.text("AIA DOCUMENT G703 · CONTINUATION SHEET", MARGIN, 586)
+  return carried
+}
+
+/**
+ * G702 application and certificate on letter portrait, then G703 continuation sheets on
+ * letter landscape. Sheets hold a fixed number of rows; each ends with the running total
+ * carried forward and the next opens with it brought forward.
+ */
+export function createPayApplicationPdf(app: AiaPayApplication, options: PayApplicationPdfOptions = {}) {
+  const sheets = chunk(app.lineItems, options.rowsPerSheet ?? DEFAULT_ROWS_PER_SHEET)
+  const pageCount = 1 + sheets.length
+  const doc = new jsPDF({ orientation: "portrait", unit: "pt", format: "letter" })
+
+  drawG702(doc, app, options, pageCount)
+
+  let broughtForward: G703Totals | null = null
+  sheets.forEach((items, index) => {
+    doc.addPage("letter", "landscape")
+    broughtForward = drawG703Sheet(doc, app, items, broughtForward, index === sheets.length - 1, index + 2, pageCount, options)
+  })
+
+  return doc
+}
+
+const isEmbeddableImage = (attachment: AiaAttachment) => /^image\/(png|jpe?g)$/.test(attachment.fileType)
+
+async function loadBytes(url: string) {
+  try {
+    const response = await fetch(url)
+    return response.ok ? new Uint8Array(await response.arrayBuffer()) : null
+  } catch {
+    return null
+  }
+}
+
+async function loadDataUrl(url: string) {
+  try {
+    const response = await fetch(url)
+    if (!response.ok) return null
+    const blob = await response.blob()
+    return await new Promise<string | null>((resolve) => {
+      const reader = new FileReader()
+      reader.onload = () => resolve(typeof reader.result === "string" ? reader.result : null)
+      reader.onerror = () => resolve(null)
+      reader.readAsDataURL(blob)
+    })
+  } catch {
+    return null
+  }
+}
+
+const absoluteUrl = (url: string) => (typeof window === "undefined" ? url : new URL(url, window.location.origin).href)
+
+/**
+ * Appends the application's attachments: an index page linking every file, then a page per
+ * PNG or JPEG image. Other files can't be merged by jsPDF; the index gives their path in the
+ * package when `packaged` has one, and lists them as enclosed separately otherwise.
+ */
+export async function appendAttachmentBundle(doc: jsPDF, app: AiaPayApplication, packaged: (string | null)[] = []) {
+  const attachments = app.attachments ?? []
+  if (attachments.length === 0) return doc
+  const images = await Promise.all(
+    attachments.map((attachment) => (isEmbeddableImage(attachment) ? loadDataUrl(attachment.url) : Promise.resolve(null))),
+  )
+
+  doc.addPage("letter", "portrait")
+  const right = doc.internal.pageSize.getWidth() - MARGIN
+  doc.setFont("helvetica", "bold")
+  doc.setFontSize(12)
+  doc.text("ATTACHMENTS", MARGIN, 40)
+  doc.setFont("helvetica", "normal")
+  doc.setFontSize(8)
+  doc.text(`Application No. ${app.applicationNumber} · Period to ${formatDate(app.periodEndDate)} · ${app.projectName}`, MARGIN, 54)
+  doc.setLineWidth(1)
+  doc.line(MARGIN, 60, right, 60)
+
+  autoTable(doc, {
+    startY: 70,
+    margin: { left: MARGIN, right: MARGIN },
+    head: [["No.", "File", "Category", "Description", "Size", "Uploaded", "Included"]],
+    body: attachments.map((attachment, index) => [
+      String(index + 1),
+      attachment.fileName,
+      attachment.category.replace(/_/g, " "),
+      attachment.description ?? "",
+      `${(attachment.fileSize / 1024 / 1024).toFixed(1)} MB`,
+      `${formatDate(attachment.uploadedDate)} ${attachment.uploadedBy}`,
+      images[index]
+        ? "Attached"
+        : packaged[index]
+          ? `In package: ${packaged[index]}`
+          : isEmbeddableImage(attachment)
+            ? "Unavailable"
+            : "Enclosed separately",
+    ]),
+    theme: "grid",
+    styles: { fontSize: 7, cellPadding: 3, textColor: 0, lineColor: 0, lineWidth: 0.4 },
+    headStyles: { fillColor: HEADER_FILL, fontStyle: "bold" },
+    didParseCell: (data) => {
+      if (data.section === "body" && data.column.index === 1) data.cell.styles.textColor = [37, 99, 235]
+    },
+    didDrawCell: (data) => {
+      if (data.section !== "body" || data.column.index !== 1) return
+      doc.link(data.cell.x, data.cell.y, data.cell.width, data.cell.height, { url: absoluteUrl(attachments[data.row.index].url) })
+    },
+  })
+
+  attachments.forEach((attachment, index) => {
+    const image = images[index]
+    if (!image) return
+    doc.addPage("letter", "portrait")
+    const pageWidth = doc.internal.pageSize.getWidth()
+    const pageHeight = doc.internal.pageSize.getHeight()
+    doc.setFont("helvetica", "bold")
+    doc.setFontSize(9)
+    doc.text(`Attachment ${index + 1}: ${attachment.fileName}`, MARGIN, 40)
+    doc.setFont("helvetica", "normal")
+    if (attachment.description) doc.text(attachment.description, MARGIN, 52)
+
+    const { width, height } = doc.getImageProperties(image)
+    const boxWidth = pageWidth - MARGIN * 2
+    const boxHeight = pageHeight - 64 - MARGIN
+    const scale = Math.min(boxWidth / width, boxHeight / height)
+    doc.addImage(image, MARGIN, 64, width * scale, height * scale)
+  })
+
+  return doc
+}
+
+/**
+ * G702, G703 and the attachment bundle in one document, ready to send to the owner and architect.
+ */
+export async function createPayApplicationBundle(app: AiaPayApplication, options: PayApplicationPdfOptions = {}) {
+  return appendAttachmentBundle(createPayApplicationPdf(app, options), app)
+}
+
+export const payApplicationFileName = (app: AiaPayApplication, extension = "pdf") =>
+  `${app.projectName.replace(/[^a-z0-9]+/gi, "-")}-G702-G703-App-${app.applicationNumber}.${extension}`
+
+/**
+ * How the application goes out: a PDF when every attachment merges into it, otherwise a zip
+ * of the PDF and the attachments it can't hold.
+ */
+export const payApplicationPackageKind = (app: AiaPayApplication): "pdf" | "zip" =>
+  (app.attachments ?? []).some((attachment) => !isEmbeddableImage(attachment)) ? "zip" : "pdf"
+
+/**
+ * The application ready to send, as a file to download. Attachments jsPDF can't merge go in
+ * the zip under attachments/, numbered as on the index page; ones that fail to load stay
+ * listed as enclosed separately.
+ */
+export async function createPayApplicationPackage(app: AiaPayApplication, options: PayApplicationPdfOptions = {}) {
+  if (payApplicationPackageKind(app) === "pdf") {
+    const doc = await createPayApplicationBundle(app, options)
+    return { fileName: payApplicationFileName(app), blob: doc.output("blob") }
+  }
+
+  const attachments = app.attachments ?? []
+  const files = await Promise.all(
+    attachments.map(async (attachment, index) => {
+      if (isEmbeddableImage(attachment)) return null
+      const bytes = await loadBytes(attachment.url)
+      const path = `attachments/${String(index + 1).padStart(2, "0")}-${attachment.fileName.replace(/[\\/]/g, "-")}`
+      return bytes ? { path, bytes } : null
+    }),
+  )
+  const doc = await appendAttachmentBundle(
+    createPayApplicationPdf(app, options),
+    app,
+    files.map((file) => file?.path ?? null),
+  )
+  const zip = zipSync({
+    [payApplicationFileName(app)]: new Uint8Array(doc.output("arraybuffer")),
+    ...Object.fromEntries(files.filter((file) => !!file).map((file) => [file.path, file.bytes])),
+  })
+  return { fileName: payApplicationFileName(app, "zip"), blob: new Blob([zip], { type: "application/zip" }) }
+}
+
+export function downloadPayApplicationPackage({ fileName, blob }: { fileName: string; blob: Blob }) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  // Revoking in the same tick can cancel the download before the browser starts reading the blob
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
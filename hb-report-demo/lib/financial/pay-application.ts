@@ -0,0 +1,265 @@
+// lib/financial/pay-application.ts
+import type { AiaLineItem, AiaPayApplication, G702Summary, G703Totals } from "@/types/aia-pay-application"
+import type { BudgetLine, JobCostHistory, PrimeContractRecord } from "@/types/data-source"
+import type { ReconciliationTolerance } from "@/types/reconciliation"
+import { defaultReconciliationTolerance, discrepancyKindLabels, reconcileJobCosts, reconciliationFieldLabels } from "./reconciliation"
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+// Statuses at which an application's amounts are certified and carry into the next one
+export const approvedPayApplicationStatuses: AiaPayApplication["status"][] = ["px_approved", "executive_approved", "paid"]
+
+// Percentage points billing may run ahead of Sage's cost percent complete before it's flagged
+export const billingAheadOfCostPoints = 10
+
+const money = (value: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(value)
+
+// Budget code the line was built from; older applications only carry a cost code
+export const lineItemCode = (item: AiaLineItem) => item.procoreData?.budgetCode ?? item.costCode ?? item.scheduleOfValues
+
+/**
+ * Recomputes a line's to-date, percent, balance and retainage from its previous and this
+ * period amounts. Stored materials installed this period are a negative
+ * materialsStoredThisPeriod alongside the matching work completed.
+ */
+export function calculateLineItem(item: AiaLineItem, retentionPercentage: number): AiaLineItem {
+  const workCompletedToDate = round(item.workCompletedPrevious + item.workCompletedThisPeriod)
+  const materialsStoredToDate = round(item.materialsStoredPrevious + item.materialsStoredThisPeriod)
+  const totalCompleted = round(workCompletedToDate + materialsStoredToDate)
+  return {
+    ...item,
+    workCompletedToDate,
+    materialsStoredToDate,
+    totalCompleted,
+    percentComplete: item.scheduledValue > 0 ? round((totalCompleted / item.scheduledValue) * 100) : 0,
+    balanceToFinish: round(item.scheduledValue - totalCompleted),
+    retentionAmount: round((totalCompleted * retentionPercentage) / 100),
+  }
+}
+
+export function updateLineItem(
+  item: AiaLineItem,
+  field: "workCompletedThisPeriod" | "materialsStoredThisPeriod",
+  value: number,
+  retentionPercentage: number,
+) {
+  return calculateLineItem({ ...item, [field]: value }, retentionPercentage)
+}
+
+/**
+ * Problems that block saving a line: billing past the scheduled value or installing more
+ * stored material than was on hand.
+ */
+export function validateLineItem(item: AiaLineItem): string[] {
+  const errors: string[] = []
+  if (item.workCompletedToDate > item.scheduledValue) errors.push("Work completed to date exceeds the scheduled value")
+  else if (item.totalCompleted > item.scheduledValue) errors.push("Completed and stored to date exceeds the scheduled value")
+  if (item.workCompletedToDate < 0) errors.push("Work completed to date can't be negative")
+  if (item.materialsStoredToDate < 0) errors.push("More stored material installed than was previously stored")
+  return errors
+}
+
+/**
+ * The latest certified application on the project, optionally before a given application number.
+ */
+export function lastApprovedApplication(applications: AiaPayApplication[], projectId: string, before = Infinity) {
+  return applications
+    .filter(
+      (a) => a.projectId === projectId && a.applicationNumber < before && approvedPayApplicationStatuses.includes(a.status),
+    )
+    .sort((a, b) => b.applicationNumber - a.applicationNumber)[0]
+}
+
+/**
+ * Schedule of values from the project's Procore budget: one line per budget code at its
+ * revised budget, spread so the lines sum to the prime contract's revised amount. Work and
+ * stored materials carry forward from the previous certified application by budget code.
+ */
+export function buildLineItems(
+  budget: BudgetLine[],
+  contract: PrimeContractRecord | undefined,
+  previous: AiaPayApplication | undefined,
+  retentionPercentage: number,
+  syncedAt = new Date().toISOString(),
+): AiaLineItem[] {
+  const budgetTotal = budget.reduce((sum, line) => sum + line["Revised Budget"], 0)
+  const contractTotal = contract?.["Revised Contract Amount"] ?? budgetTotal
+  const factor = budgetTotal > 0 ? contractTotal / budgetTotal : 0
+  const scheduled = budget.map((line) => round(line["Revised Budget"] * factor))
+
+  // Rounding remainder goes to the largest line so the SOV ties to the contract
+  const remainder = round(contractTotal - scheduled.reduce((sum, value) => sum + value, 0))
+  if (scheduled.length > 0 && remainder !== 0) {
+    const largest = scheduled.indexOf(Math.max(...scheduled))
+    scheduled[largest] = round(scheduled[largest] + remainder)
+  }
+
+  const carried = new Map((previous?.lineItems ?? []).map((item) => [lineItemCode(item), item]))
+  return budget.map((line, index) => {
+    const code = line["Budget Code"]
+    const prior = carried.get(code)
+    return calculateLineItem(
+      {
+        id: `li_${line.project_id}_${code}`,
+        scheduleOfValues: String(index + 1),
+        costCode: code,
+        description: line["Budget Code Description"],
+        scheduledValue: scheduled[index],
+        workCompletedPrevious: prior?.workCompletedToDate ?? 0,
+        workCompletedThisPeriod: 0,
+        workCompletedToDate: 0,
+        materialsStoredPrevious: prior?.materialsStoredToDate ?? 0,
+        materialsStoredThisPeriod: 0,
+        materialsStoredToDate: 0,
+        totalCompleted: 0,
+        percentComplete: 0,
+        balanceToFinish: 0,
+        retentionAmount: 0,
+        procoreData: { budgetCode: code, lastSync: syncedAt },
+        annotations: prior?.annotations.filter((a) => !a.isResolved) ?? [],
+        hasDiscrepancy: false,
+      },
+      retentionPercentage,
+    )
+  })
+}
+
+/**
+ * Sets hasDiscrepancy and its details from the Procore/Sage reconciliation for the period,
+ * plus billing that runs more than billingAheadOfCostPoints ahead of Sage's percent complete.
+ */
+export function flagLineItemDiscrepancies(
+  items: AiaLineItem[],
+  budget: BudgetLine[],
+  history: JobCostHistory[],
+  periodEndDate: string,
+  tolerance: ReconciliationTolerance = defaultReconciliationTolerance,
+): AiaLineItem[] {
+  const lines = new Map(reconcileJobCosts(budget, history, periodEndDate, tolerance).map((line) => [line.costCode, line]))
+  const sageItems = new Map(history.flatMap((job) => job.jobCostItems.map((item) => [item.costCode, item] as const)))
+
+  return items.map((item) => {
+    const code = lineItemCode(item)
+    const line = lines.get(code)
+    const sage = sageItems.get(code)
+    const details: string[] = []
+
+    for (const d of line?.differences.filter((d) => d.exceedsTolerance) ?? []) {
+      if (d.kind === "missing-in-sage" || d.kind === "missing-in-procore") {
+        if (!details.includes(discrepancyKindLabels[d.kind])) details.push(discrepancyKindLabels[d.kind])
+      } else {
+        const timing = d.kind === "timing" ? " (timing)" : ""
+        details.push(`${reconciliationFieldLabels[d.field]}: Procore ${money(d.procore)} vs Sage ${money(d.sage)}${timing}`)
+      }
+    }
+    if (sage && item.percentComplete - sage.percentComplete > billingAheadOfCostPoints) {
+      details.push(`Billed ${item.percentComplete.toFixed(1)}% complete, Sage cost ${sage.percentComplete.toFixed(1)}% complete`)
+    }
+
+    const { discrepancyDetails: _, ...rest } = item
+    return {
+      ...rest,
+      ...(sage ? { sageData: { costCode: sage.costCode, lastSync: sage.lastUpdated } } : {}),
+      hasDiscrepancy: details.length > 0,
+      ...(details.length > 0 ? { discrepancyDetails: details } : {}),
+    }
+  })
+}
+
+/**
+ * One continuation sheet row, lettered as on G703. Retainage is taken at the application's
+ * rate on work completed and stored (G), so column I always totals to G702 line 5.
+ */
+export function g703Row(item: AiaLineItem, retentionPercentage: number): G703Totals {
+  const thisPeriod = item.workCompletedThisPeriod
+  const fromPreviousApplication = round(item.workCompletedToDate - thisPeriod)
+  const materialsPresentlyStored = item.materialsStoredToDate
+  const totalCompletedAndStored = round(fromPreviousApplication + thisPeriod + materialsPresentlyStored)
+  return {
+    scheduledValue: item.scheduledValue,
+    fromPreviousApplication,
+    thisPeriod,
+    materialsPresentlyStored,
+    totalCompletedAndStored,
+    balanceToFinish: round(item.scheduledValue - totalCompletedAndStored),
+    retainage: round((totalCompletedAndStored * retentionPercentage) / 100),
+  }
+}
+
+export const emptyG703Totals = (): G703Totals => ({
+  scheduledValue: 0,
+  fromPreviousApplication: 0,
+  thisPeriod: 0,
+  materialsPresentlyStored: 0,
+  totalCompletedAndStored: 0,
+  balanceToFinish: 0,
+  retainage: 0,
+})
+
+export function addG703Totals(a: G703Totals, b: G703Totals): G703Totals {
+  return {
+    scheduledValue: round(a.scheduledValue + b.scheduledValue),
+    fromPreviousApplication: round(a.fromPreviousApplication + b.fromPreviousApplication),
+    thisPeriod: round(a.thisPeriod + b.thisPeriod),
+    materialsPresentlyStored: round(a.materialsPresentlyStored + b.materialsPresentlyStored),
+    totalCompletedAndStored: round(a.totalCompletedAndStored + b.totalCompletedAndStored),
+    balanceToFinish: round(a.balanceToFinish + b.balanceToFinish),
+    retainage: round(a.retainage + b.retainage),
+  }
+}
+
+export function g703Totals(app: AiaPayApplication): G703Totals {
+  return app.lineItems.map((item) => g703Row(item, app.retentionPercentage)).reduce(addG703Totals, emptyG703Totals())
+}
+
+/**
+ * The application before this one on the same project, by application number.
+ */
+export function previousApplication(applications: AiaPayApplication[], app: AiaPayApplication) {
+  return applications
+    .filter((a) => a.projectId === app.projectId && a.applicationNumber < app.applicationNumber)
+    .sort((a, b) => b.applicationNumber - a.applicationNumber)[0]
+}
+
+/**
+ * G702 lines 1-9. Line 7 is the stored previous payments, or line 6 of the previous
+ * application when none is stored; change orders split into earlier months and this
+ * period against the previous application's approved total.
+ */
+export function summarizeG702(app: AiaPayApplication, previous?: AiaPayApplication): G702Summary {
+  const totals = g703Totals(app)
+  const rate = app.retentionPercentage / 100
+  const completedWork = round(totals.fromPreviousApplication + totals.thisPeriod)
+
+  const retainageOnCompletedWork = round(completedWork * rate)
+  const retainageOnStoredMaterial = round(totals.materialsPresentlyStored * rate)
+  const totalRetainage = round(retainageOnCompletedWork + retainageOnStoredMaterial)
+  const contractSumToDate = round(app.contractSum + app.changeOrdersApproved)
+  const totalEarnedLessRetainage = round(totals.totalCompletedAndStored - totalRetainage)
+  const lessPreviousCertificates =
+    app.previousPayments ?? (previous ? summarizeG702(previous).totalEarnedLessRetainage : 0)
+
+  const previousChanges = previous?.changeOrdersApproved ?? 0
+  const thisPeriodChanges = round(app.changeOrdersApproved - previousChanges)
+
+  return {
+    originalContractSum: app.contractSum,
+    netChangeByChangeOrders: app.changeOrdersApproved,
+    contractSumToDate,
+    totalCompletedAndStored: totals.totalCompletedAndStored,
+    retainageOnCompletedWork,
+    retainageOnStoredMaterial,
+    totalRetainage,
+    totalEarnedLessRetainage,
+    lessPreviousCertificates,
+    currentPaymentDue: round(totalEarnedLessRetainage - lessPreviousCertificates),
+    balanceToFinishIncludingRetainage: round(contractSumToDate - totalEarnedLessRetainage),
+    changeOrders: {
+      previousAdditions: Math.max(previousChanges, 0),
+      previousDeductions: Math.max(-previousChanges, 0),
+      thisPeriodAdditions: Math.max(thisPeriodChanges, 0),
+      thisPeriodDeductions: Math.max(-thisPeriodChanges, 0),
+    },
+  }
+}
@@ -0,0 +1,260 @@
+// lib/financial/reconciliation.ts
+import { differenceInCalendarDays, format, parseISO } from "date-fns"
+import type { BudgetLine, JobCostHistory } from "@/types/data-source"
+import type {
+  Discrepancy,
+  DiscrepancyKind,
+  DiscrepancyResolution,
+  ProcoreAmounts,
+  ReconciliationDifference,
+  ReconciliationField,
+  ReconciliationLine,
+  ReconciliationSummary,
+  ReconciliationTolerance,
+  SageAmounts,
+} from "@/types/reconciliation"
+
+export const defaultReconciliationTolerance: ReconciliationTolerance = { amount: 1000, percent: 1, staleAfterDays: 30 }
+
+export const reconciliationFields: ReconciliationField[] = ["budget", "actualCost", "committedCost"]
+
+export const reconciliationFieldLabels: Record<ReconciliationField, string> = {
+  budget: "Budget",
+  actualCost: "Job to Date Cost",
+  committedCost: "Committed Cost",
+}
+
+export const discrepancyKindLabels: Record<DiscrepancyKind, string> = {
+  amount: "Amount",
+  timing: "Timing",
+  "missing-in-sage": "Missing in Sage",
+  "missing-in-procore": "Missing in Procore",
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+const key = (projectId: number, costCode: string) => `${projectId}|${costCode}`
+
+export const discrepancyId = (projectId: number, costCode: string, field: ReconciliationField) => `${projectId}-${costCode}-${field}`
+
+// Procore's Projected Budget includes pending budget changes, which is what Sage carries as budget
+const procoreAmounts = (line: BudgetLine): ProcoreAmounts => ({
+  budget: line["Projected Budget"],
+  actualCost: line["Job to Date Costs"],
+  committedCost: line["Committed Costs"],
+  pendingCostChanges: line["Pending Cost Changes"],
+})
+
+function exceeds(difference: number, percent: number, tolerance: ReconciliationTolerance) {
+  return Math.abs(difference) > tolerance.amount && percent > tolerance.percent
+}
+
+function compare(
+  field: ReconciliationField,
+  procore: number,
+  sage: number,
+  tolerance: ReconciliationTolerance,
+  timing: boolean,
+): ReconciliationDifference {
+  const difference = round(procore - sage)
+  const base = Math.max(Math.abs(procore), Math.abs(sage))
+  const percent = base > 0 ? round((Math.abs(difference) / base) * 100) : 0
+  return { field, procore, sage, difference, percent, kind: timing ? "timing" : "amount", exceedsTolerance: exceeds(difference, percent, tolerance) }
+}
+
+/**
+ * Matches Procore budget lines to Sage job cost items by project and cost code and compares
+ * budget, job to date cost and committed cost. A gap counts as timing when the Sage row
+ * was last synced more than `staleAfterDays` before the close date, or, for commitments,
+ * when Procore's pending cost changes account for it.
+ */
+export function reconcileJobCosts(
+  budget: BudgetLine[],
+  history: JobCostHistory[],
+  closeDate: string,
+  tolerance: ReconciliationTolerance = defaultReconciliationTolerance,
+): ReconciliationLine[] {
+  const procore = new Map(budget.map((line) => [key(line.project_id, line["Budget Code"]), line]))
+  const sage = new Map(
+    history.flatMap((job) => job.jobCostItems.map((item) => [key(job.project_id, item.costCode), { projectId: job.project_id, item }] as const)),
+  )
+  const keys = [...new Set([...procore.keys(), ...sage.keys()])]
+
+  return keys.map((k) => {
+    const procoreLine = procore.get(k)
+    const sageEntry = sage.get(k)
+    const p = procoreLine ? procoreAmounts(procoreLine) : null
+    const s: SageAmounts | null = sageEntry
+      ? {
+          budget: sageEntry.item.budgetAmount,
+          actualCost: sageEntry.item.actualCost,
+          committedCost: sageEntry.item.commitments,
+          lastUpdated: sageEntry.item.lastUpdated,
+        }
+      : null
+    const projectId = procoreLine?.project_id ?? sageEntry!.projectId
+    const costCode = procoreLine?.["Budget Code"] ?? sageEntry!.item.costCode
+    const description = procoreLine?.["Budget Code Description"] ?? sageEntry!.item.description
+
+    let differences: ReconciliationDifference[]
+    if (p && s) {
+      const stale = differenceInCalendarDays(parseISO(closeDate), parseISO(s.lastUpdated)) > tolerance.staleAfterDays
+      differences = reconciliationFields.map((field) => {
+        const pendingExplains =
+          field === "committedCost" && p.pendingCostChanges !== 0 && Math.abs(p.committedCost - s.committedCost - p.pendingCostChanges) <= tolerance.amount
+        return compare(field, p[field], s[field], tolerance, stale || pendingExplains)
+      })
+    } else {
+      const kind: DiscrepancyKind = p ? "missing-in-sage" : "missing-in-procore"
+      differences = reconciliationFields.map((field) => {
+        const procoreValue = p?.[field] ?? 0
+        const sageValue = s?.[field] ?? 0
+        const difference = round(procoreValue - sageValue)
+        return { field, procore: procoreValue, sage: sageValue, difference, percent: 100, kind, exceedsTolerance: difference !== 0 }
+      })
+    }
+
+    return { projectId, costCode, description, procore: p, sage: s, differences }
+  })
+}
+
+/**
+ * Flagged differences with their review status. A resolution applies while the difference
+ * is still the amount it was written against; otherwise the item reopens with the old
+ * note attached for reference.
+ */
+export function buildDiscrepancyWorklist(lines: ReconciliationLine[], resolutions: DiscrepancyResolution[]): Discrepancy[] {
+  const byId = new Map(resolutions.map((r) => [r.id, r]))
+  return lines.flatMap((line) =>
+    line.differences
+      .filter((d) => d.exceedsTolerance)
+      .map((d): Discrepancy => {
+        const id = discrepancyId(line.projectId, line.costCode, d.field)
+        const resolution = byId.get(id)
+        const current = resolution && Math.abs(resolution.difference - d.difference) < 0.01
+        return {
+          ...d,
+          id,
+          projectId: line.projectId,
+          costCode: line.costCode,
+          description: line.description,
+          status: current ? resolution.status : "open",
+          ...(resolution ? { resolution } : {}),
+        }
+      }),
+  )
+}
+
+/**
+ * Records a reviewer's explanation or resolution. Null without a note.
+ */
+export function resolveDiscrepancy(
+  discrepancy: Discrepancy,
+  status: DiscrepancyResolution["status"],
+  note: string,
+  by: string,
+  at = new Date().toISOString(),
+): DiscrepancyResolution | null {
+  if (!note.trim()) return null
+  return {
+    id: discrepancy.id,
+    projectId: discrepancy.projectId,
+    costCode: discrepancy.costCode,
+    field: discrepancy.field,
+    status,
+    difference: discrepancy.difference,
+    note: note.trim(),
+    by,
+    at,
+  }
+}
+
+export function summarizeReconciliation(lines: ReconciliationLine[], worklist: Discrepancy[]): ReconciliationSummary {
+  const open = worklist.filter((d) => d.status === "open")
+  const byKind = { amount: 0, timing: 0, "missing-in-sage": 0, "missing-in-procore": 0 }
+  for (const d of worklist) byKind[d.kind] += 1
+  const openDifference = { budget: 0, actualCost: 0, committedCost: 0 }
+  for (const d of open) openDifference[d.field] = round(openDifference[d.field] + d.difference)
+
+  return {
+    linesCompared: lines.length,
+    linesMatched: lines.filter((line) => line.differences.every((d) => !d.exceedsTolerance)).length,
+    flagged: worklist.length,
+    open: open.length,
+    explained: worklist.filter((d) => d.status === "explained").length,
+    resolved: worklist.filter((d) => d.status === "resolved").length,
+    byKind,
+    openDifference,
+  }
+}
+
+/**
+ * Writes the month-end reconciliation workbook: a summary sheet, the discrepancy worklist
+ * with review notes, and every compared line.
+ */
+export async function exportReconciliationReport(
+  lines: ReconciliationLine[],
+  worklist: Discrepancy[],
+  options: { projectName: string; closeDate: string; tolerance: ReconciliationTolerance; preparedBy: string },
+) {
+  const XLSX = await import("xlsx")
+  const summary = summarizeReconciliation(lines, worklist)
+
+  const summarySheet = XLSX.utils.aoa_to_sheet([
+    ["Budget vs Job Cost Reconciliation"],
+    ["Project", options.projectName],
+    ["Close Date", options.closeDate],
+    ["Prepared By", options.preparedBy],
+    ["Prepared On", format(new Date(), "yyyy-MM-dd")],
+    ["Tolerance", `$${options.tolerance.amount} and ${options.tolerance.percent}%; Sage older than ${options.tolerance.staleAfterDays} days is timing`],
+    [],
+    ["Cost Codes Compared", summary.linesCompared],
+    ["Within Tolerance", summary.linesMatched],
+    ["Flagged Differences", summary.flagged],
+    ["Open", summary.open],
+    ["Explained", summary.explained],
+    ["Resolved", summary.resolved],
+    [],
+    ["Open Difference (Procore - Sage)"],
+    ...reconciliationFields.map((field) => [reconciliationFieldLabels[field], summary.openDifference[field]]),
+  ])
+
+  const worklistSheet = XLSX.utils.json_to_sheet(
+    worklist.map((d) => ({
+      "Project ID": d.projectId,
+      "Cost Code": d.costCode,
+      Description: d.description,
+      Field: reconciliationFieldLabels[d.field],
+      Procore: d.procore,
+      Sage: d.sage,
+      Difference: d.difference,
+      "Difference %": d.percent,
+      Kind: discrepancyKindLabels[d.kind],
+      Status: d.status,
+      Note: d.resolution?.note ?? "",
+      "Reviewed By": d.resolution?.by ?? "",
+      "Reviewed At": d.resolution?.at ?? "",
+    })),
+  )
+
+  const linesSheet = XLSX.utils.json_to_sheet(
+    lines.map((line) => ({
+      "Project ID": line.projectId,
+      "Cost Code": line.costCode,
+      Description: line.description,
+      ...Object.fromEntries(
+        line.differences.flatMap((d) => [
+          [`Procore ${reconciliationFieldLabels[d.field]}`, d.procore],
+          [`Sage ${reconciliationFieldLabels[d.field]}`, d.sage],
+          [`${reconciliationFieldLabels[d.field]} Difference`, d.difference],
+        ]),
+      ),
+      "Sage Last Updated": line.sage?.lastUpdated ?? "",
+    })),
+  )
+
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, summarySheet, "Summary")
+  XLSX.utils.book_append_sheet(workbook, worklistSheet, "Discrepancies")
+  XLSX.utils.book_append_sheet(workbook, linesSheet, "All Cost Codes")
+  XLSX.writeFile(workbook, `job-cost-reconciliation-${options.closeDate}.xlsx`)
+}
@@ -0,0 +1,366 @@
+// lib/financial/retention.ts
+import { addDays, format, parse, parseISO } from "date-fns"
+import type { CommitmentRecord, PrimeContractPayment, PrimeContractRecord } from "@/types/data-source"
+import type {
+  RetentionAccount,
+  RetentionApproval,
+  RetentionCashFlowMonth,
+  RetentionLedgerEntry,
+  RetentionReleaseRequest,
+  RetentionRule,
+  RetentionSide,
+  RetentionSummary,
+} from "@/types/retention"
+import type { SubInvoice } from "@/types/sub-invoices"
+import { subInvoiceTotals } from "./sub-invoices"
+
+export const retentionRules: RetentionRule[] = [
+  { id: "tiered-10-5", name: "10% to 50% complete, then 5%", tiers: [{ upToPercentComplete: 50, rate: 10 }, { upToPercentComplete: 100, rate: 5 }] },
+  { id: "flat-10", name: "Flat 10%", tiers: [{ upToPercentComplete: 100, rate: 10 }] },
+  { id: "flat-5", name: "Flat 5%", tiers: [{ upToPercentComplete: 100, rate: 5 }] },
+  { id: "tiered-10-0", name: "10% to 50% complete, then none", tiers: [{ upToPercentComplete: 50, rate: 10 }, { upToPercentComplete: 100, rate: 0 }] },
+]
+
+// Days after substantial completion until the owner releases final retainage, and until we pay it on
+const RECEIVABLE_FINAL_RELEASE_DAYS = 60
+const PAYABLE_FINAL_RELEASE_DAYS = 75
+
+const round = (value: number) => Math.round(value * 100) / 100
+const iso = (date: Date) => format(date, "yyyy-MM-dd")
+
+// Prime contract billing dates are exported as MM/dd/yyyy
+const billingDate = (payment: PrimeContractPayment) => iso(parse(payment["Billing Date"], "MM/dd/yyyy", new Date()))
+
+/**
+ * Retainage the rule requires on work completed to date. Each tier applies to the slice of
+ * the contract it covers, so with 10% to 50% then 5%, the first half of the contract is
+ * held at 10% and billings past it at 5%.
+ */
+export function retainageByRule(rule: RetentionRule, contractValue: number, workCompleted: number) {
+  let retained = 0
+  let floor = 0
+  for (const tier of rule.tiers) {
+    const ceiling = (contractValue * tier.upToPercentComplete) / 100
+    const slice = Math.min(workCompleted, ceiling) - floor
+    if (slice > 0) retained += (slice * tier.rate) / 100
+    floor = Math.max(floor, ceiling)
+  }
+  // Billings past the contract value stay at the last tier's rate
+  const lastRate = rule.tiers[rule.tiers.length - 1]?.rate ?? 0
+  if (workCompleted > floor) retained += ((workCompleted - floor) * lastRate) / 100
+  return round(retained)
+}
+
+/**
+ * The rate the rule applies to the next dollar billed.
+ */
+export function currentRetentionRate(rule: RetentionRule, percentComplete: number) {
+  const tier = rule.tiers.find((t) => percentComplete < t.upToPercentComplete) ?? rule.tiers[rule.tiers.length - 1]
+  return tier?.rate ?? 0
+}
+
+/**
+ * The rule a subcontract withholds under: its own when the commitment names one, otherwise
+ * the project's subcontract rule.
+ */
+export function subcontractRetentionRule(commitment: Pick<CommitmentRecord, "retentionRuleId">, fallback = retentionRules[0]) {
+  return retentionRules.find((r) => r.id === commitment.retentionRuleId) ?? fallback
+}
+
+export function commitmentPercentComplete(commitment: CommitmentRecord) {
+  const value = commitment["Revised Contract Amount"] ?? 0
+  return value > 0 ? round(((commitment.Invoiced ?? 0) / value) * 100) : 0
+}
+
+/**
+ * Retainage actually withheld from a subcontractor: from the sub-invoice ledger when the
+ * commitment bills through approved sub-invoices, otherwise what the commitment has been
+ * invoiced and not yet paid.
+ */
+export function invoicedRetainage(commitment: CommitmentRecord, invoices: SubInvoice[] = []) {
+  const billed = invoices.filter(
+    (i) => i.commitmentNumber === commitment.Number && (i.status === "px_approved" || i.status === "paid"),
+  )
+  if (billed.length > 0) return round(billed.reduce((sum, i) => sum + subInvoiceTotals(i).retainageThisPeriod, 0))
+  return round(Math.max(0, (commitment.Invoiced ?? 0) - (commitment["Payments Issued"] ?? 0)))
+}
+
+const isOpen = (request: RetentionReleaseRequest) => request.status !== "rejected" && request.status !== "paid"
+
+const requestsFor = (requests: RetentionReleaseRequest[], side: RetentionSide, reference: string) =>
+  requests.filter((r) => r.side === side && r.reference === reference)
+
+function account(
+  base: Omit<RetentionAccount, "id" | "requiredByRule" | "released" | "balance" | "eligibleForRelease" | "percentComplete">,
+  rule: RetentionRule,
+  requests: RetentionReleaseRequest[],
+): RetentionAccount {
+  const own = requestsFor(requests, base.side, base.reference)
+  const released = round(own.filter((r) => r.status === "paid").reduce((sum, r) => sum + r.amount, 0))
+  const pending = own.filter(isOpen).reduce((sum, r) => sum + r.amount, 0)
+  const requiredByRule = retainageByRule(rule, base.contractValue, base.workCompleted)
+  const balance = round(base.withheld - released)
+  return {
+    ...base,
+    id: `${base.side}-${base.reference}`,
+    percentComplete: base.contractValue > 0 ? round((base.workCompleted / base.contractValue) * 100) : 0,
+    requiredByRule,
+    released,
+    balance,
+    eligibleForRelease: round(Math.max(0, balance - requiredByRule - pending)),
+  }
+}
+
+/**
+ * Retainage the owner holds on a project's prime contract, from its latest billing.
+ */
+export function buildReceivableAccount(
+  payments: PrimeContractPayment[],
+  primeContract: PrimeContractRecord | undefined,
+  rule: RetentionRule,
+  requests: RetentionReleaseRequest[],
+): RetentionAccount | null {
+  const latest = [...payments].sort((a, b) => a["#"] - b["#"]).pop()
+  if (!latest) return null
+  return account(
+    {
+      side: "receivable",
+      projectId: latest.project_id,
+      reference: primeContract?.Number ?? String(latest.project_id),
+      counterparty: primeContract?.["Owner/Client"] ?? "Owner",
+      contractValue: latest["Revised Contract Sum"],
+      workCompleted: latest["Total Completed And Stored To Date"],
+      withheld: latest["Total Retainage"],
+    },
+    rule,
+    requests,
+  )
+}
+
+/**
+ * Retainage we hold on each invoiced commitment, measured against the subcontract's own
+ * rule (or the project's).
+ */
+export function buildPayableAccounts(
+  commitments: CommitmentRecord[],
+  rule: RetentionRule,
+  requests: RetentionReleaseRequest[],
+  invoices: SubInvoice[] = [],
+) {
+  return commitments
+    .filter((c) => (c.Invoiced ?? 0) > 0)
+    .map((c) =>
+      account(
+        {
+          side: "payable",
+          projectId: c.project_id,
+          reference: c.Number,
+          counterparty: c.Vendor,
+          contractValue: c["Revised Contract Amount"] ?? 0,
+          workCompleted: c.Invoiced,
+          withheld: invoicedRetainage(c, invoices),
+        },
+        subcontractRetentionRule(c, rule),
+        requests,
+      ),
+    )
+    .sort((a, b) => b.balance - a.balance)
+}
+
+/**
+ * Withholdings and paid releases in date order, with the running balance per account.
+ * Receivable withholdings follow each billing; commitments carry one entry for their
+ * invoices to date, dated at signing.
+ */
+export function buildRetentionLedger(
+  payments: PrimeContractPayment[],
+  receivable: RetentionAccount | null,
+  payables: RetentionAccount[],
+  commitments: CommitmentRecord[],
+  requests: RetentionReleaseRequest[],
+): RetentionLedgerEntry[] {
+  const entries: Omit<RetentionLedgerEntry, "balance">[] = []
+
+  if (receivable) {
+    let previous = 0
+    for (const payment of [...payments].sort((a, b) => a["#"] - b["#"])) {
+      const amount = round(payment["Total Retainage"] - previous)
+      previous = payment["Total Retainage"]
+      if (amount === 0) continue
+      entries.push({
+        id: `receivable-${payment["Invoice Number"]}`,
+        side: "receivable",
+        projectId: payment.project_id,
+        reference: receivable.reference,
+        counterparty: receivable.counterparty,
+        date: billingDate(payment),
+        type: "withheld",
+        description: `Billing #${payment["#"]} (${payment.Period})`,
+        amount,
+      })
+    }
+  }
+
+  const commitmentByNumber = new Map(commitments.map((c) => [c.Number, c]))
+  for (const payable of payables) {
+    const commitment = commitmentByNumber.get(payable.reference)
+    const signed = commitment?.["Contract Date (1)"] ?? commitment?.["Signed Contract Received Date"]
+    entries.push({
+      id: `payable-${payable.reference}`,
+      side: "payable",
+      projectId: payable.projectId,
+      reference: payable.reference,
+      counterparty: payable.counterparty,
+      date: signed ?? iso(new Date()),
+      type: "withheld",
+      description: "Retainage on invoices to date",
+      amount: payable.withheld,
+    })
+  }
+
+  for (const request of requests.filter((r) => r.status === "paid")) {
+    entries.push({
+      id: `release-${request.id}`,
+      side: request.side,
+      projectId: request.projectId,
+      reference: request.reference,
+      counterparty: request.counterparty,
+      date: request.paidDate ?? request.expectedCashDate,
+      type: "released",
+      description: `${request.kind === "final" ? "Final" : "Partial"} release`,
+      amount: -request.amount,
+    })
+  }
+
+  const balances = new Map<string, number>()
+  return entries
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id))
+    .map((entry) => {
+      const key = `${entry.side}-${entry.reference}`
+      const balance = round((balances.get(key) ?? 0) + entry.amount)
+      balances.set(key, balance)
+      return { ...entry, balance }
+    })
+}
+
+/**
+ * Approvals a release needs, in order.
+ */
+export function requiredApprovals(request: Pick<RetentionReleaseRequest, "kind">): RetentionApproval["role"][] {
+  return request.kind === "final" ? ["PM", "PX", "Executive"] : ["PM", "PX"]
+}
+
+export function nextApprovalRole(request: RetentionReleaseRequest) {
+  if (request.status !== "submitted" && request.status !== "pm_approved" && request.status !== "px_approved") return null
+  const approved = request.approvals.filter((a) => a.decision === "approved").length
+  return requiredApprovals(request)[approved] ?? null
+}
+
+export function isReleaseApproved(request: RetentionReleaseRequest) {
+  return request.status === (request.kind === "final" ? "executive_approved" : "px_approved")
+}
+
+const approvedStatus: Record<RetentionApproval["role"], RetentionReleaseRequest["status"]> = {
+  PM: "pm_approved",
+  PX: "px_approved",
+  Executive: "executive_approved",
+}
+
+/**
+ * Records the next approver's decision. Returns the request unchanged when it is not
+ * waiting on anyone.
+ */
+export function decideRelease(
+  request: RetentionReleaseRequest,
+  approver: string,
+  decision: RetentionApproval["decision"],
+  comment?: string,
+  date = new Date().toISOString(),
+): RetentionReleaseRequest {
+  const role = nextApprovalRole(request)
+  if (!role) return request
+  return {
+    ...request,
+    status: decision === "rejected" ? "rejected" : approvedStatus[role],
+    approvals: [...request.approvals, { role, approver, decision, comment, date }],
+  }
+}
+
+/**
+ * Problems with a release request against its account. Partial releases may only draw
+ * retainage over what the rule requires; final releases need closeout met.
+ */
+export function validateReleaseRequest(request: RetentionReleaseRequest, target: RetentionAccount | undefined) {
+  const issues: string[] = []
+  if (!target) return ["Select a contract with retainage held"]
+  if (!(request.amount > 0)) issues.push("Release amount must be greater than zero")
+  if (request.kind === "partial" && request.amount > target.eligibleForRelease) {
+    issues.push(`Partial releases are limited to the ${target.eligibleForRelease.toFixed(2)} held over the retention rule`)
+  }
+  if (request.kind === "final") {
+    if (request.amount > target.balance) issues.push("Final release cannot exceed the retainage balance")
+    const closeout = request.closeout
+    if (!closeout?.punchListComplete || !closeout.finalLienWaiver || !closeout.closeoutDocuments) {
+      issues.push("Final release requires punch list completion, a final lien waiver and closeout documents")
+    }
+  }
+  if (!request.expectedCashDate) issues.push("Expected cash date is required")
+  return issues
+}
+
+/**
+ * When released retainage moves cash, by month. Open requests land on their expected cash
+ * date; what remains held is released after substantial completion (the owner after
+ * RECEIVABLE_FINAL_RELEASE_DAYS, subcontractors once that cash is in).
+ */
+export function projectRetentionCashFlow(
+  accounts: RetentionAccount[],
+  requests: RetentionReleaseRequest[],
+  substantialCompletion: string,
+): RetentionCashFlowMonth[] {
+  const months = new Map<string, { receivable: number; payable: number }>()
+  const add = (date: string, side: RetentionSide, amount: number) => {
+    if (amount <= 0) return
+    const month = date.slice(0, 7)
+    const bucket = months.get(month) ?? { receivable: 0, payable: 0 }
+    bucket[side] += amount
+    months.set(month, bucket)
+  }
+
+  for (const request of requests.filter(isOpen)) add(request.expectedCashDate, request.side, request.amount)
+
+  const finalRelease = {
+    receivable: iso(addDays(parseISO(substantialCompletion), RECEIVABLE_FINAL_RELEASE_DAYS)),
+    payable: iso(addDays(parseISO(substantialCompletion), PAYABLE_FINAL_RELEASE_DAYS)),
+  }
+  for (const target of accounts) {
+    const open = requestsFor(requests, target.side, target.reference)
+      .filter(isOpen)
+      .reduce((sum, r) => sum + r.amount, 0)
+    add(finalRelease[target.side], target.side, target.balance - open)
+  }
+
+  let cumulativeNet = 0
+  return [...months.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, { receivable, payable }]) => {
+      const net = round(receivable - payable)
+      cumulativeNet = round(cumulativeNet + net)
+      return { month, receivable: round(receivable), payable: round(payable), net, cumulativeNet }
+    })
+}
+
+export function summarizeRetention(accounts: RetentionAccount[], requests: RetentionReleaseRequest[]): RetentionSummary {
+  const total = (side: RetentionSide, field: "balance" | "eligibleForRelease") =>
+    round(accounts.filter((a) => a.side === side).reduce((sum, a) => sum + a[field], 0))
+  const receivableBalance = total("receivable", "balance")
+  const payableBalance = total("payable", "balance")
+  return {
+    receivableBalance,
+    payableBalance,
+    netPosition: round(receivableBalance - payableBalance),
+    eligibleReceivable: total("receivable", "eligibleForRelease"),
+    eligiblePayable: total("payable", "eligibleForRelease"),
+    pendingRequests: requests.filter((r) => isOpen(r) && !isReleaseApproved(r)).length,
+  }
+}
@@ -0,0 +1,452 @@
+// lib/financial/sub-invoices.ts
+import { addDays, format, parseISO } from "date-fns"
+import type { ChangeEvent } from "@/types/change-orders"
+import type { CommitmentRecord, VendorPayment } from "@/types/data-source"
+import type {
+  ComplianceCheck,
+  InsuranceCoverageType,
+  LienWaiver,
+  PayAuthorizationBatch,
+  PayAuthorizationSummary,
+  PaymentMethod,
+  SubInvoice,
+  SubInvoiceApproval,
+  SubInvoiceLine,
+  SubInvoiceTotals,
+} from "@/types/sub-invoices"
+import { nextDocumentNumber } from "./change-orders"
+
+export const insuranceCoverageLabels: Record<InsuranceCoverageType, string> = {
+  "general-liability": "General Liability",
+  "workers-compensation": "Workers' Compensation",
+  "auto-liability": "Auto Liability",
+  umbrella: "Umbrella",
+}
+
+export const lienWaiverLabels: Record<LienWaiver["kind"], string> = {
+  "conditional-progress": "Conditional Waiver Upon Progress Payment",
+  "unconditional-progress": "Unconditional Waiver Upon Progress Payment",
+  "conditional-final": "Conditional Waiver Upon Final Payment",
+  "unconditional-final": "Unconditional Waiver Upon Final Payment",
+}
+
+// Certificates expiring within this many days of the payment date are flagged but not held
+export const INSURANCE_WARNING_DAYS = 30
+
+const round = (value: number) => Math.round(value * 100) / 100
+const iso = (date: Date) => format(date, "yyyy-MM-dd")
+const money = (value: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", minimumFractionDigits: 2 }).format(value)
+
+const isOpen = (invoice: SubInvoice) => invoice.status !== "draft" && invoice.status !== "rejected"
+
+export function subInvoiceTotals(invoice: Pick<SubInvoice, "lines" | "retainagePercent">): SubInvoiceTotals {
+  const sum = (pick: (line: SubInvoiceLine) => number) => round(invoice.lines.reduce((total, line) => total + pick(line), 0))
+  const scheduledValue = sum((line) => line.scheduledValue)
+  const previousBilled = sum((line) => line.previousBilled)
+  const thisPeriod = sum((line) => line.thisPeriod)
+  const billedToDate = round(previousBilled + thisPeriod)
+  const retainageThisPeriod = round((thisPeriod * invoice.retainagePercent) / 100)
+  return {
+    scheduledValue,
+    previousBilled,
+    thisPeriod,
+    billedToDate,
+    percentComplete: scheduledValue > 0 ? round((billedToDate / scheduledValue) * 100) : 0,
+    retainageThisPeriod,
+    retainageToDate: round((billedToDate * invoice.retainagePercent) / 100),
+    netDue: round(thisPeriod - retainageThisPeriod),
+    balanceToFinish: round(scheduledValue - billedToDate),
+  }
+}
+
+// si-<commitment>-NN, numbered per commitment
+export function nextSubInvoiceId(invoices: SubInvoice[], commitmentNumber: string) {
+  const prefix = `si-${commitmentNumber.toLowerCase()}-`
+  const used = invoices.filter((i) => i.id.startsWith(prefix)).map((i) => Number(i.id.slice(prefix.length)))
+  return `${prefix}${String(Math.max(0, ...used.filter((n) => Number.isFinite(n))) + 1).padStart(2, "0")}`
+}
+
+/**
+ * The latest invoice on a commitment before the given one, skipping drafts and rejections.
+ */
+export function previousSubInvoice(invoices: SubInvoice[], invoice: Pick<SubInvoice, "id" | "commitmentNumber" | "periodEnd">) {
+  return invoices
+    .filter((i) => i.commitmentNumber === invoice.commitmentNumber && i.id !== invoice.id && isOpen(i) && i.periodEnd < invoice.periodEnd)
+    .sort((a, b) => b.periodEnd.localeCompare(a.periodEnd))[0]
+}
+
+/**
+ * Schedule of values for the next invoice on a commitment: the original contract, its
+ * approved change orders from Procore and each subcontract CO approved through change
+ * events. Billed to date carries forward from the previous invoice; the first invoice
+ * starts from the commitment's invoiced total, filled into the lines in order.
+ */
+export function buildSubInvoiceLines(
+  commitment: CommitmentRecord,
+  events: ChangeEvent[],
+  previous: SubInvoice | undefined,
+): SubInvoiceLine[] {
+  const lines: Omit<SubInvoiceLine, "previousBilled" | "thisPeriod">[] = [
+    { id: "original", description: "Original contract", scheduledValue: commitment["Original Contract Amount"] ?? 0 },
+  ]
+  if (commitment["Approved Change Orders"]) {
+    lines.push({ id: "approved-cos", description: "Approved change orders", scheduledValue: commitment["Approved Change Orders"] })
+  }
+  for (const event of events) {
+    for (const co of event.subcontractCos.filter((c) => c.commitmentNumber === commitment.Number && c.status === "approved")) {
+      lines.push({ id: co.id, description: `${co.number} · ${event.title}`, scheduledValue: co.amount })
+    }
+  }
+
+  if (previous) {
+    const carried = new Map(previous.lines.map((line) => [line.id, round(line.previousBilled + line.thisPeriod)]))
+    return lines.map((line) => ({ ...line, previousBilled: carried.get(line.id) ?? 0, thisPeriod: 0 }))
+  }
+  let remaining = commitment.Invoiced ?? 0
+  return lines.map((line, index) => {
+    const share = index === lines.length - 1 ? remaining : Math.min(remaining, Math.max(line.scheduledValue, 0))
+    remaining = round(remaining - share)
+    return { ...line, previousBilled: round(share), thisPeriod: 0 }
+  })
+}
+
+/**
+ * Problems that keep an invoice from being submitted.
+ */
+export function validateSubInvoice(invoice: SubInvoice) {
+  const issues: string[] = []
+  if (!invoice.invoiceNumber.trim()) issues.push("Vendor invoice number is required")
+  if (!invoice.periodStart || !invoice.periodEnd) issues.push("Billing period is required")
+  else if (invoice.periodEnd < invoice.periodStart) issues.push("Period end is before period start")
+  if (!(subInvoiceTotals(invoice).thisPeriod > 0)) issues.push("Bill some work this period")
+  for (const line of invoice.lines) {
+    if (line.thisPeriod < 0 && line.previousBilled + line.thisPeriod < 0) issues.push(`${line.description}: billed to date can't go negative`)
+    if (line.previousBilled + line.thisPeriod > line.scheduledValue && line.scheduledValue >= 0) {
+      issues.push(`${line.description}: billed to date exceeds the scheduled value`)
+    }
+  }
+  return issues
+}
+
+/**
+ * Waivers the invoice needs before it's paid: a conditional waiver for this payment
+ * (final once the commitment is fully billed) and an unconditional waiver for the
+ * previous payment. Waivers already received on the invoice are kept.
+ */
+export function requiredLienWaivers(invoice: SubInvoice, previousPaid: SubInvoice | undefined): LienWaiver[] {
+  const totals = subInvoiceTotals(invoice)
+  const final = totals.balanceToFinish <= 0
+  const required: Omit<LienWaiver, "received" | "receivedDate">[] = [
+    {
+      kind: final ? "conditional-final" : "conditional-progress",
+      invoiceId: invoice.id,
+      amount: totals.netDue,
+      throughDate: invoice.periodEnd,
+    },
+  ]
+  if (previousPaid) {
+    required.push({
+      kind: "unconditional-progress",
+      invoiceId: previousPaid.id,
+      amount: subInvoiceTotals(previousPaid).netDue,
+      throughDate: previousPaid.periodEnd,
+    })
+  }
+  return required.map((waiver) => {
+    const onFile = invoice.lienWaivers.find((w) => w.kind === waiver.kind && w.invoiceId === waiver.invoiceId)
+    return { ...waiver, received: onFile?.received ?? false, ...(onFile?.receivedDate ? { receivedDate: onFile.receivedDate } : {}) }
+  })
+}
+
+/**
+ * Marks one required waiver received, keeping the invoice's waivers in step with what it
+ * currently requires.
+ */
+export function receiveLienWaiver(
+  invoice: SubInvoice,
+  previousPaid: SubInvoice | undefined,
+  waiver: Pick<LienWaiver, "kind" | "invoiceId">,
+  date = new Date().toISOString(),
+): SubInvoice {
+  const lienWaivers = requiredLienWaivers(invoice, previousPaid).map((w) =>
+    w.kind === waiver.kind && w.invoiceId === waiver.invoiceId ? { ...w, received: true, receivedDate: date.slice(0, 10) } : w,
+  )
+  return { ...invoice, lienWaivers, updatedAt: date }
+}
+
+// Purchase orders only need general liability; subcontractors work on site
+const requiredCoverage = (commitment: CommitmentRecord | undefined): InsuranceCoverageType[] =>
+  commitment?.["Contract Type"] === "Purchase Order"
+    ? ["general-liability"]
+    : ["general-liability", "workers-compensation", "auto-liability"]
+
+/**
+ * Lien waiver, insurance and contract checks for paying an invoice on `paymentDate`.
+ */
+export function complianceChecks(
+  invoice: SubInvoice,
+  commitment: CommitmentRecord | undefined,
+  previousPaid: SubInvoice | undefined,
+  paymentDate = iso(new Date()),
+): ComplianceCheck[] {
+  const checks: ComplianceCheck[] = []
+
+  for (const waiver of requiredLienWaivers(invoice, previousPaid)) {
+    checks.push({
+      id: `waiver-${waiver.kind}-${waiver.invoiceId}`,
+      category: "lien-waiver",
+      label: lienWaiverLabels[waiver.kind],
+      status: waiver.received ? "ok" : "missing",
+      detail: waiver.received
+        ? `${money(waiver.amount)} through ${waiver.throughDate}, received ${waiver.receivedDate ?? ""}`.trim()
+        : `${money(waiver.amount)} through ${waiver.throughDate} not received`,
+    })
+  }
+
+  const warnBy = iso(addDays(parseISO(paymentDate), INSURANCE_WARNING_DAYS))
+  for (const type of requiredCoverage(commitment)) {
+    const coverage = invoice.insurance.find((c) => c.type === type)
+    const status = !coverage ? "missing" : coverage.expires < paymentDate ? "expired" : coverage.expires <= warnBy ? "expiring" : "ok"
+    checks.push({
+      id: `insurance-${type}`,
+      category: "insurance",
+      label: insuranceCoverageLabels[type],
+      status,
+      detail: coverage ? `${coverage.carrier} ${coverage.policyNumber}, expires ${coverage.expires}` : "No certificate on file",
+    })
+  }
+
+  if (commitment) {
+    checks.push({
+      id: "contract-executed",
+      category: "contract",
+      label: "Executed commitment",
+      status: commitment.Executed === "Yes" ? "ok" : "missing",
+      detail: commitment.Executed === "Yes" ? `${commitment.Number} executed` : `${commitment.Number} is ${commitment.Status.toLowerCase()}, not executed`,
+    })
+    if (commitment["Bond Required"] === "Yes") {
+      checks.push({
+        id: "contract-bond",
+        category: "contract",
+        label: "Payment and performance bond",
+        status: commitment["Bond Received"] ? "ok" : "missing",
+        detail: commitment["Bond Received"] ? "Bond received" : "Bond required and not received",
+      })
+    }
+  }
+  return checks
+}
+
+export const isOnHold = (checks: ComplianceCheck[]) => checks.some((c) => c.status === "missing" || c.status === "expired")
+
+export const requiredInvoiceApprovals: SubInvoiceApproval["role"][] = ["PM", "PX"]
+
+export function nextInvoiceApprovalRole(invoice: SubInvoice) {
+  if (invoice.status !== "submitted" && invoice.status !== "pm_approved") return null
+  const approved = invoice.approvals.filter((a) => a.decision === "approved").length
+  return requiredInvoiceApprovals[approved] ?? null
+}
+
+const approvedStatus: Record<SubInvoiceApproval["role"], SubInvoice["status"]> = { PM: "pm_approved", PX: "px_approved" }
+
+/**
+ * Records the next approver's decision. Returns the invoice unchanged when it is not
+ * waiting on anyone.
+ */
+export function decideSubInvoice(
+  invoice: SubInvoice,
+  approver: string,
+  decision: SubInvoiceApproval["decision"],
+  comment?: string,
+  date = new Date().toISOString(),
+): SubInvoice {
+  const role = nextInvoiceApprovalRole(invoice)
+  if (!role) return invoice
+  return {
+    ...invoice,
+    status: decision === "rejected" ? "rejected" : approvedStatus[role],
+    approvals: [...invoice.approvals, { role, approver, decision, comment, date }],
+    updatedAt: date,
+  }
+}
+
+/**
+ * PX-approved invoices not yet in a batch, with nothing holding payment.
+ */
+export function invoicesReadyForBatch(
+  invoices: SubInvoice[],
+  commitments: CommitmentRecord[],
+  paymentDate = iso(new Date()),
+) {
+  const byNumber = new Map(commitments.map((c) => [c.Number, c]))
+  return invoices.filter(
+    (invoice) =>
+      invoice.status === "px_approved" &&
+      !invoice.batchId &&
+      !isOnHold(complianceChecks(invoice, byNumber.get(invoice.commitmentNumber), lastPaidSubInvoice(invoices, invoice), paymentDate)),
+  )
+}
+
+/**
+ * The most recent paid invoice on the same commitment, whose unconditional waiver this one needs.
+ */
+export function lastPaidSubInvoice(invoices: SubInvoice[], invoice: SubInvoice) {
+  return invoices
+    .filter((i) => i.commitmentNumber === invoice.commitmentNumber && i.id !== invoice.id && i.status === "paid")
+    .sort((a, b) => b.periodEnd.localeCompare(a.periodEnd))[0]
+}
+
+/**
+ * A draft batch for the selected invoices, numbered after the project's existing batches.
+ * Only invoices still ready for batch on the payment date (no compliance holds) go in.
+ * Returns null when none of them can be batched.
+ */
+export function createPayAuthorizationBatch(
+  projectId: number,
+  selected: SubInvoice[],
+  invoices: SubInvoice[],
+  commitments: CommitmentRecord[],
+  batches: PayAuthorizationBatch[],
+  paymentMethod: PaymentMethod,
+  paymentDate: string,
+  by: string,
+  date = new Date().toISOString(),
+): { batch: PayAuthorizationBatch; invoices: SubInvoice[] } | null {
+  const selectedIds = new Set(selected.map((i) => i.id))
+  const eligible = invoicesReadyForBatch(invoices, commitments, paymentDate).filter(
+    (i) => i.projectId === projectId && selectedIds.has(i.id),
+  )
+  if (eligible.length === 0) return null
+  const number = nextDocumentNumber(`PA-${projectId}`, batches.filter((b) => b.projectId === projectId).map((b) => b.number))
+  const batch: PayAuthorizationBatch = {
+    id: `pa-${number.slice(3).toLowerCase()}`,
+    projectId,
+    number,
+    invoiceIds: eligible.map((i) => i.id),
+    paymentMethod,
+    paymentDate,
+    amount: round(eligible.reduce((sum, i) => sum + subInvoiceTotals(i).netDue, 0)),
+    status: "draft",
+    createdBy: by,
+    createdAt: date,
+  }
+  return { batch, invoices: eligible.map((i) => ({ ...i, batchId: batch.id, updatedAt: date })) }
+}
+
+export function authorizeBatch(batch: PayAuthorizationBatch, by: string, date = new Date().toISOString()): PayAuthorizationBatch | null {
+  if (batch.status !== "draft") return null
+  return { ...batch, status: "authorized", authorizedBy: by, authorizedAt: date }
+}
+
+/**
+ * Voids an unreleased batch and frees its invoices for another one.
+ */
+export function voidBatch(batch: PayAuthorizationBatch, invoices: SubInvoice[], date = new Date().toISOString()) {
+  if (batch.status === "released" || batch.status === "void") return null
+  return {
+    batch: { ...batch, status: "void" as const },
+    invoices: invoices.filter((i) => i.batchId === batch.id).map((i) => ({ ...i, batchId: null, updatedAt: date })),
+  }
+}
+
+// Vendor ledger invoice descriptions read "Commitment #… Invoice #n - $x - MM/dd/yyyy - MM/dd/yyyy"
+const ledgerDate = (value: string) => format(parseISO(value), "MM/dd/yyyy")
+
+/**
+ * Batch invoices that a compliance hold stops from being paid on the batch's payment date.
+ */
+export function heldBatchInvoices(batch: PayAuthorizationBatch, invoices: SubInvoice[], commitments: CommitmentRecord[]) {
+  const byNumber = new Map(commitments.map((c) => [c.Number, c]))
+  return invoices.filter(
+    (invoice) =>
+      batch.invoiceIds.includes(invoice.id) &&
+      invoice.status === "px_approved" &&
+      isOnHold(complianceChecks(invoice, byNumber.get(invoice.commitmentNumber), lastPaidSubInvoice(invoices, invoice), batch.paymentDate)),
+  )
+}
+
+/**
+ * Releases an authorized batch: each invoice is paid and a vendor payment posted, continuing
+ * the project's payment numbers and the ledger's check numbers. Payments already in the ledger
+ * for the batch (from a release that failed partway) are reused rather than posted again.
+ * Returns null unless the batch is authorized and none of its invoices is on hold.
+ */
+export function releaseBatch(
+  batch: PayAuthorizationBatch,
+  invoices: SubInvoice[],
+  commitments: CommitmentRecord[],
+  ledger: VendorPayment[],
+  by: string,
+  date = new Date().toISOString(),
+): { batch: PayAuthorizationBatch; invoices: SubInvoice[]; payments: VendorPayment[] } | null {
+  if (batch.status !== "authorized" || heldBatchInvoices(batch, invoices, commitments).length > 0) return null
+  const included = batch.invoiceIds
+    .map((id) => invoices.find((i) => i.id === id))
+    .filter((i): i is SubInvoice => !!i && i.status === "px_approved")
+  const posted = new Map(ledger.filter((p) => p.payAuthorizationId === batch.id).map((p) => [p.subInvoiceId, p]))
+
+  let paymentNumber = Math.max(0, ...ledger.filter((p) => p.project_id === batch.projectId).map((p) => p["Payment Number"]))
+  let checkNumber = Math.max(0, ...ledger.map((p) => Number(p["Check Number"])).filter((n) => Number.isFinite(n)))
+
+  const payments: VendorPayment[] = []
+  const paid = included.map((invoice) => {
+    const existing = posted.get(invoice.id)
+    if (existing) {
+      return { ...invoice, status: "paid" as const, paidDate: existing["Date Paid"], checkNumber: existing["Check Number"], updatedAt: date }
+    }
+    paymentNumber += 1
+    checkNumber += 1
+    const { netDue } = subInvoiceTotals(invoice)
+    payments.push({
+      project_id: invoice.projectId,
+      Invoice: `Commitment #${invoice.commitmentNumber} Invoice #${invoice.invoiceNumber} - ${money(netDue)} - ${ledgerDate(invoice.periodStart)} - ${ledgerDate(invoice.periodEnd)}`,
+      "Payment Number": paymentNumber,
+      "Check Number": String(checkNumber),
+      "Invoice Number": `${paymentNumber}-${invoice.projectId}`,
+      "Payment Method": batch.paymentMethod,
+      "ERP Status": "",
+      Amount: netDue,
+      "Date Paid": batch.paymentDate,
+      Notes: `Pay authorization ${batch.number}`,
+      Attachments: "",
+      payAuthorizationId: batch.id,
+      subInvoiceId: invoice.id,
+    })
+    return { ...invoice, status: "paid" as const, paidDate: batch.paymentDate, checkNumber: String(checkNumber), updatedAt: date }
+  })
+
+  return {
+    batch: { ...batch, status: "released", releasedBy: by, releasedAt: date },
+    invoices: paid,
+    payments,
+  }
+}
+
+export function summarizePayAuthorizations(
+  invoices: SubInvoice[],
+  batches: PayAuthorizationBatch[],
+  commitments: CommitmentRecord[],
+  paymentDate = iso(new Date()),
+): PayAuthorizationSummary {
+  const net = (list: SubInvoice[]) => round(list.reduce((sum, i) => sum + subInvoiceTotals(i).netDue, 0))
+  const byNumber = new Map(commitments.map((c) => [c.Number, c]))
+  const awaiting = invoices.filter((i) => i.status === "submitted" || i.status === "pm_approved")
+  const ready = invoicesReadyForBatch(invoices, commitments, paymentDate)
+  const held = invoices.filter(
+    (i) =>
+      (i.status === "submitted" || i.status === "pm_approved" || (i.status === "px_approved" && !i.batchId)) &&
+      isOnHold(complianceChecks(i, byNumber.get(i.commitmentNumber), lastPaidSubInvoice(invoices, i), paymentDate)),
+  )
+  const batchTotal = (status: PayAuthorizationBatch["status"]) =>
+    round(batches.filter((b) => b.status === status).reduce((sum, b) => sum + b.amount, 0))
+  return {
+    awaitingApproval: awaiting.length,
+    awaitingApprovalAmount: net(awaiting),
+    readyToBatch: ready.length,
+    readyToBatchAmount: net(ready),
+    onHold: held.length,
+    authorizedAmount: batchTotal("authorized"),
+    releasedAmount: batchTotal("released"),
+  }
+}
@@ -0,0 +1,100 @@
+// lib/permits/calendar-feed.ts
+import { addDays, addMinutes, format, parseISO } from "date-fns"
+import type { Permit } from "@/types/permit-log"
+
+// Inspections without a recorded duration block out an hour
+const DEFAULT_DURATION_MINUTES = 60
+
+const escapeText = (text: string) => text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n")
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 5545 §3.1),
+// cut between characters so no multi-byte character (or surrogate pair) is split
+function fold(line: string) {
+  const encoder = new TextEncoder()
+  if (encoder.encode(line).length <= 75) return line
+  const parts: string[] = []
+  let part = ""
+  let octets = 0
+  for (const char of line) {
+    const size = encoder.encode(char).length
+    if (octets + size > 74) {
+      parts.push(part)
+      part = ""
+      octets = 0
+    }
+    part += char
+    octets += size
+  }
+  parts.push(part)
+  return parts.join("\r\n ")
+}
+
+const utc = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")
+
+// All-day events take the date as recorded, whatever the viewer's time zone
+const day = (iso: string, offset = 0) => format(addDays(parseISO(iso.slice(0, 10)), offset), "yyyyMMdd")
+
+/**
+ * An iCalendar feed of a project's permit inspections and expirations. Pending inspections
+ * carry a reminder the day before; UIDs are stable so subscribed calendars update in place.
+ */
+export function permitCalendarFeed(permits: Permit[], calendarName: string, now = new Date()) {
+  const stamp = utc(now)
+  const events = permits.flatMap((permit) => [
+    ...permit.inspections
+      .filter((inspection) => inspection.scheduledDate || inspection.completedDate)
+      .map((inspection) => {
+        const start = parseISO((inspection.scheduledDate ?? inspection.completedDate)!)
+        const end = addMinutes(start, inspection.duration ?? DEFAULT_DURATION_MINUTES)
+        const details = [
+          `Permit ${permit.number} (${permit.type})`,
+          `Authority: ${permit.authority}`,
+          `Inspector: ${inspection.inspector}`,
+          `Result: ${inspection.result}`,
+          ...(inspection.reinspectionOf ? [`Re-inspection of ${inspection.reinspectionOf}`] : []),
+          ...(inspection.comments ? [inspection.comments] : []),
+        ]
+        return [
+          "BEGIN:VEVENT",
+          `UID:${inspection.id}@hb-report`,
+          `DTSTAMP:${stamp}`,
+          `DTSTART:${utc(start)}`,
+          `DTEND:${utc(end)}`,
+          `SUMMARY:${escapeText(`${inspection.type} inspection — ${permit.number}`)}`,
+          `DESCRIPTION:${escapeText(details.join("\n"))}`,
+          ...(permit.authorityContact?.address ? [`LOCATION:${escapeText(permit.authorityContact.address)}`] : []),
+          "STATUS:CONFIRMED",
+          ...(inspection.result === "pending"
+            ? ["BEGIN:VALARM", "ACTION:DISPLAY", `DESCRIPTION:${escapeText(`${inspection.type} inspection tomorrow`)}`, "TRIGGER:-P1D", "END:VALARM"]
+            : []),
+          "END:VEVENT",
+        ]
+      }),
+    [
+      "BEGIN:VEVENT",
+      `UID:exp-${permit.id}@hb-report`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${day(permit.expirationDate)}`,
+      `DTEND;VALUE=DATE:${day(permit.expirationDate, 1)}`,
+      `SUMMARY:${escapeText(`Permit expires — ${permit.number} (${permit.type})`)}`,
+      `DESCRIPTION:${escapeText(`${permit.authority}\nStatus: ${permit.status}`)}`,
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT",
+    ],
+  ])
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//HB Report//Permit Log//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...events.flat(),
+    "END:VCALENDAR",
+  ]
+    .map(fold)
+    .join("\r\n")
+    .concat("\r\n")
+}
+
+export const calendarFeedFileName = (name: string) => `${name.replace(/[^a-z0-9]+/gi, "-").replace(/^-|-$/g, "").toLowerCase()}-permits.ics`
@@ -0,0 +1,155 @@
+// lib/permits/expiration-rules.ts
+import { addDays, differenceInCalendarDays, format, parseISO, startOfDay, subDays } from "date-fns"
+import type {
+  AuthorityExpirationRules,
+  ExpirationLevel,
+  ExpirationThresholds,
+  Permit,
+  PermitExpirationRules,
+  PermitExposureSummary,
+  PermitExpiryStatus,
+  PermitRenewalTask,
+} from "@/types/permit-log"
+import { hasPassed, isPermitActive } from "@/lib/permits/inspection-planner"
+import rulesData from "@/data/mock/logs/permit-expiration-rules.json"
+
+export const permitExpirationRules = rulesData as PermitExpirationRules
+
+export function expirationLevelLabel(level: ExpirationLevel, thresholds = permitExpirationRules.thresholds) {
+  if (level === "ok") return "Current"
+  if (level === "expired") return "Expired"
+  return `${thresholds[level]}-day ${level}`
+}
+
+// Worst first, for sorting and rolling projects up
+const LEVEL_ORDER: ExpirationLevel[] = ["expired", "critical", "warning", "notice", "ok"]
+
+export function expirationRulesFor(authority: string, rules = permitExpirationRules): AuthorityExpirationRules {
+  return { ...rules.defaults, ...rules.authorities[authority] }
+}
+
+// Expirations are kept to the day, whatever the time zone they were recorded in
+const day = (iso: string) => iso.slice(0, 10)
+const endOfDayIso = (date: string) => `${date}T23:59:59Z`
+
+export function expirationLevel(daysToExpiry: number, thresholds: ExpirationThresholds = permitExpirationRules.thresholds): ExpirationLevel {
+  if (daysToExpiry < 0) return "expired"
+  if (daysToExpiry <= thresholds.critical) return "critical"
+  if (daysToExpiry <= thresholds.warning) return "warning"
+  if (daysToExpiry <= thresholds.notice) return "notice"
+  return "ok"
+}
+
+export const compareLevels = (a: ExpirationLevel, b: ExpirationLevel) => LEVEL_ORDER.indexOf(a) - LEVEL_ORDER.indexOf(b)
+
+/**
+ * Where a permit stands against its expiration. A passed inspection keeps the permit valid
+ * for the authority's extension period from the day it passed, so the effective date is the
+ * later of that and the recorded expiration. Null for permits not yet (or never) issued.
+ */
+export function permitExpiryStatus(permit: Permit, now = new Date(), rules = permitExpirationRules): PermitExpiryStatus | null {
+  if (!isPermitActive(permit) && permit.status !== "expired") return null
+  const authorityRules = expirationRulesFor(permit.authority, rules)
+
+  const extendedByInspection =
+    authorityRules.inspectionExtensionDays > 0
+      ? permit.inspections
+          .filter((inspection) => hasPassed(inspection) && inspection.completedDate)
+          .sort((a, b) => a.completedDate!.localeCompare(b.completedDate!))
+          .at(-1)
+      : undefined
+  const extendedTo = extendedByInspection
+    ? format(addDays(parseISO(day(extendedByInspection.completedDate!)), authorityRules.inspectionExtensionDays), "yyyy-MM-dd")
+    : undefined
+  const recorded = day(permit.expirationDate)
+  const effective = extendedTo && extendedTo > recorded ? extendedTo : recorded
+
+  const daysToExpiry = differenceInCalendarDays(parseISO(effective), startOfDay(now))
+  const level = permit.status === "expired" ? "expired" : expirationLevel(daysToExpiry, rules.thresholds)
+  return {
+    permit,
+    rules: authorityRules,
+    effectiveExpirationDate: endOfDayIso(effective),
+    extendedByInspection: effective === extendedTo ? extendedByInspection : undefined,
+    daysToExpiry,
+    level,
+    escalateTo: level === "ok" ? [] : rules.escalation[level],
+  }
+}
+
+export function renewalFee(permit: Permit, rules: AuthorityExpirationRules) {
+  return Math.max(rules.minimumRenewalFee, Math.round((permit.cost ?? 0) * rules.renewalFeeRate * 100) / 100)
+}
+
+/**
+ * The renewal to file for a permit: due the authority's lead time before it expires, with
+ * the fee worked from the permit cost and the bond carried over (or to be posted again).
+ * A lapsed permit renews from today.
+ */
+export function renewalTask(status: PermitExpiryStatus, now = new Date()): PermitRenewalTask {
+  const { permit, rules } = status
+  const expiration = day(status.effectiveExpirationDate)
+  const renewFrom = [expiration, format(now, "yyyy-MM-dd")].sort().at(-1)!
+  return {
+    id: `renewal-${permit.id}-${expiration}`,
+    permitId: permit.id,
+    permitNumber: permit.number,
+    projectId: permit.projectId,
+    authority: permit.authority,
+    level: status.level,
+    fileBy: format(subDays(parseISO(expiration), rules.renewalLeadDays), "yyyy-MM-dd"),
+    expirationDate: status.effectiveExpirationDate,
+    renewedExpirationDate: endOfDayIso(format(addDays(parseISO(renewFrom), rules.renewalPeriodDays), "yyyy-MM-dd")),
+    renewalFee: renewalFee(permit, rules),
+    bondAmount: permit.bondAmount ?? 0,
+    bondCarriesOver: rules.bondCarriesOver,
+  }
+}
+
+// The permit once the renewal is granted
+export function renewPermit(permit: Permit, task: PermitRenewalTask, now = new Date()): Permit {
+  return {
+    ...permit,
+    status: "renewed",
+    renewalDate: now.toISOString(),
+    expirationDate: task.renewedExpirationDate,
+    updatedAt: now.toISOString(),
+  }
+}
+
+/**
+ * Permits at risk across the portfolio — inside a threshold or already expired — with the
+ * renewal fees and bonds they put in play, overall and per project.
+ */
+export function portfolioExposure(permits: Permit[], now = new Date(), rules = permitExpirationRules): PermitExposureSummary {
+  const atRisk = permits
+    .map((permit) => permitExpiryStatus(permit, now, rules))
+    .filter((status): status is PermitExpiryStatus => !!status && status.level !== "ok")
+    .sort((a, b) => compareLevels(a.level, b.level) || a.daysToExpiry - b.daysToExpiry)
+
+  const byLevel = { expired: 0, critical: 0, warning: 0, notice: 0 }
+  const projects = new Map<string, PermitExposureSummary["byProject"][number]>()
+  for (const status of atRisk) {
+    byLevel[status.level as keyof typeof byLevel]++
+    const fee = renewalFee(status.permit, status.rules)
+    const bond = status.permit.bondAmount ?? 0
+    const key = String(status.permit.projectId)
+    const project = projects.get(key) ?? { projectId: status.permit.projectId, count: 0, worstLevel: "ok", renewalFees: 0, bondAmount: 0 }
+    projects.set(key, {
+      ...project,
+      count: project.count + 1,
+      worstLevel: compareLevels(status.level, project.worstLevel) < 0 ? status.level : project.worstLevel,
+      renewalFees: project.renewalFees + fee,
+      bondAmount: project.bondAmount + bond,
+    })
+  }
+  const byProject = [...projects.values()].sort((a, b) => compareLevels(a.worstLevel, b.worstLevel) || b.count - a.count)
+
+  return {
+    atRisk,
+    byLevel,
+    byProject,
+    renewalFees: byProject.reduce((sum, p) => sum + p.renewalFees, 0),
+    bondAmount: byProject.reduce((sum, p) => sum + p.bondAmount, 0),
+  }
+}
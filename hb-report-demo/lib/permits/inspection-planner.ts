@@ -0,0 +1,270 @@
+// lib/permits/inspection-planner.ts
+import { addBusinessDays, differenceInCalendarDays, format, isWeekend, max, parseISO, startOfDay } from "date-fns"
+import type {
+  AuthorityInspectionRules,
+  Inspection,
+  InspectionReminder,
+  InspectionSequenceStep,
+  Permit,
+  PermitInspectionPlan,
+  PermitInspectionRules,
+  PlannedInspectionStep,
+} from "@/types/permit-log"
+import rulesData from "@/data/mock/logs/permit-inspection-rules.json"
+
+export const permitInspectionRules = rulesData as PermitInspectionRules
+
+// Scheduled inspections this many days out raise a reminder
+export const REMINDER_LEAD_DAYS = 2
+
+const key = (type: string) => type.trim().toLowerCase()
+
+const inspectionDate = (inspection: Inspection) => inspection.completedDate ?? inspection.scheduledDate ?? inspection.createdAt
+
+export function rulesFor(authority: string, rules = permitInspectionRules): AuthorityInspectionRules {
+  return { ...rules.defaults, ...rules.authorities[authority] }
+}
+
+export const isPermitActive = (permit: Pick<Permit, "status">) => permit.status === "approved" || permit.status === "renewed"
+
+/**
+ * The inspections a permit type requires, in order, with every prerequisite spelled out.
+ * Steps the authority adds go in after the step they follow, and whatever waited on that
+ * step waits on the added one too.
+ */
+export function inspectionSequence(permitType: string, authority: string, rules = permitInspectionRules): Required<InspectionSequenceStep>[] {
+  const base = (rules.sequences[permitType] ?? []).map((step, index, steps) => ({
+    type: step.type,
+    prerequisites: step.prerequisites ?? (index > 0 ? [steps[index - 1].type] : []),
+  }))
+  const added = (rulesFor(authority, rules).additionalSteps ?? []).filter(
+    (step) => step.permitType === permitType && base.some((s) => key(s.type) === key(step.after)),
+  )
+  return added.reduce((sequence, step) => {
+    const at = sequence.findIndex((s) => key(s.type) === key(step.after))
+    const waiting = sequence.map((s) =>
+      s.prerequisites.some((p) => key(p) === key(step.after)) ? { ...s, prerequisites: [...s.prerequisites, step.type] } : s,
+    )
+    return [...waiting.slice(0, at + 1), { type: step.type, prerequisites: [step.after] }, ...waiting.slice(at + 1)]
+  }, base)
+}
+
+// The most recent inspection of a type, by when it happened or is scheduled
+export function latestInspection(permit: Permit, type: string) {
+  return permit.inspections
+    .filter((inspection) => key(inspection.type) === key(type))
+    .sort((a, b) => inspectionDate(a).localeCompare(inspectionDate(b)))
+    .at(-1)
+}
+
+// Conditional results count as passed once the inspector has cleared the follow-up
+export const hasPassed = (inspection?: Inspection) =>
+  !!inspection && (inspection.result === "passed" || (inspection.result === "conditional" && inspection.followUpRequired === false))
+
+export const needsReinspection = (inspection?: Inspection) =>
+  !!inspection && (inspection.result === "failed" || (inspection.result === "conditional" && inspection.followUpRequired !== false))
+
+/**
+ * First date an inspection can be requested for: the authority's notice in business days,
+ * counted from the next business day once today's request cutoff has passed.
+ */
+export function earliestRequestDate(rules: AuthorityInspectionRules, now = new Date(), notBefore?: Date) {
+  // Weekend requests are taken on Monday
+  const received = isWeekend(now) || format(now, "HH:mm") >= rules.requestCutoff ? 1 : 0
+  let earliest = addBusinessDays(startOfDay(now), Math.max(rules.noticeBusinessDays, 1) + received)
+  if (notBefore) earliest = max([earliest, notBefore])
+  while (isWeekend(earliest)) earliest = addBusinessDays(earliest, 1)
+  return format(earliest, "yyyy-MM-dd")
+}
+
+export function planPermitInspections(permit: Permit, now = new Date(), rules = permitInspectionRules): PermitInspectionPlan {
+  const authorityRules = rulesFor(permit.authority, rules)
+  const active = isPermitActive(permit)
+  const sequence = inspectionSequence(permit.type, permit.authority, rules)
+  const latest = new Map(sequence.map((step) => [step.type, latestInspection(permit, step.type)]))
+
+  const steps: PlannedInspectionStep[] = sequence.map((step) => {
+    const inspection = latest.get(step.type)
+    const missingPrerequisites = step.prerequisites.filter((p) => !hasPassed(latest.get(p) ?? latestInspection(permit, p)))
+    const planned = { type: step.type, prerequisites: step.prerequisites, inspection, missingPrerequisites }
+    if (hasPassed(inspection)) return { ...planned, status: "passed" }
+    if (inspection?.result === "pending") return { ...planned, status: "scheduled" }
+    if (!active) return { ...planned, status: "blocked" }
+    if (needsReinspection(inspection)) {
+      const after = addBusinessDays(startOfDay(parseISO(inspectionDate(inspection!))), authorityRules.reinspectionBusinessDays)
+      return { ...planned, status: "reinspection-required", earliestDate: earliestRequestDate(authorityRules, now, after) }
+    }
+    if (missingPrerequisites.length > 0) return { ...planned, status: "blocked" }
+    return { ...planned, status: "ready", earliestDate: earliestRequestDate(authorityRules, now) }
+  })
+
+  const sequenced = new Set(sequence.map((step) => key(step.type)))
+  return {
+    permit,
+    rules: authorityRules,
+    active,
+    steps,
+    unsequenced: permit.inspections.filter((inspection) => !sequenced.has(key(inspection.type))),
+  }
+}
+
+// Numbered after the permit's existing inspections, like the seeded insp-001-1
+function nextInspectionId(permit: Permit, offset = 0) {
+  const taken = new Set(permit.inspections.map((inspection) => inspection.id))
+  const prefix = `insp-${permit.id.replace(/^perm-/, "")}`
+  let n = permit.inspections.length + 1 + offset
+  while (taken.has(`${prefix}-${n}`)) n++
+  return `${prefix}-${n}`
+}
+
+const newInspection = (permit: Permit, type: string, date: string, inspector: string, now: Date, offset = 0): Inspection => ({
+  id: nextInspectionId(permit, offset),
+  permitId: permit.id,
+  type,
+  scheduledDate: `${date}T09:00:00Z`,
+  inspector,
+  result: "pending",
+  createdAt: now.toISOString(),
+  updatedAt: now.toISOString(),
+})
+
+/**
+ * Problems that keep an inspection from being requested on a date: the step must be ready
+ * (or due a re-inspection), and the date must give the authority its notice.
+ */
+export function validateInspectionRequest(plan: PermitInspectionPlan, type: string, date: string) {
+  const issues: string[] = []
+  const step = plan.steps.find((s) => key(s.type) === key(type))
+  if (!plan.active) issues.push(`Permit ${plan.permit.number} is ${plan.permit.status}; inspections need an approved permit`)
+  if (!step) return [...issues, `${type} isn't part of the ${plan.permit.type} sequence`]
+  if (step.status === "passed") issues.push(`${type} has already passed`)
+  if (step.status === "scheduled") issues.push(`${type} is already scheduled`)
+  if (step.status === "blocked" && step.missingPrerequisites.length > 0) {
+    issues.push(`${type} needs ${step.missingPrerequisites.join(", ")} to pass first`)
+  }
+  if (!date) issues.push("Pick a date")
+  else if (isWeekend(parseISO(date))) issues.push("Inspections are only done on business days")
+  else if (step.earliestDate && date < step.earliestDate) {
+    issues.push(`${plan.permit.authority} needs ${plan.rules.noticeBusinessDays} business day(s) notice; the earliest date is ${step.earliestDate}`)
+  }
+  return issues
+}
+
+export function scheduleInspection(plan: PermitInspectionPlan, type: string, date: string, inspector: string, now = new Date()): Inspection | null {
+  if (validateInspectionRequest(plan, type, date).length > 0) return null
+  const step = plan.steps.find((s) => key(s.type) === key(type))!
+  const inspection = newInspection(plan.permit, step.type, date, inspector || "TBD", now)
+  if (step.status !== "reinspection-required" || !step.inspection) return inspection
+  return {
+    ...inspection,
+    reinspectionOf: step.inspection.id,
+    comments: `Re-inspection of ${step.type} (${step.inspection.result})`,
+    inspector: inspector || step.inspection.inspector,
+  }
+}
+
+/**
+ * The permit with a re-inspection request for every inspection that failed, or passed on
+ * conditions still to be cleared, at the authority's first open date. Requests go to the
+ * same inspector.
+ */
+export function withReinspectionRequests(permit: Permit, now = new Date(), rules = permitInspectionRules): Permit {
+  if (!isPermitActive(permit)) return permit
+  const authorityRules = rulesFor(permit.authority, rules)
+  const types = [...new Map(permit.inspections.map((inspection) => [key(inspection.type), inspection.type])).values()]
+  const requests = types
+    .map((type) => latestInspection(permit, type))
+    .filter(needsReinspection)
+    .map((inspection, index) => {
+      const after = addBusinessDays(startOfDay(parseISO(inspectionDate(inspection!))), authorityRules.reinspectionBusinessDays)
+      return {
+        ...newInspection(permit, inspection!.type, earliestRequestDate(authorityRules, now, after), inspection!.inspector, now, index),
+        inspectorContact: inspection!.inspectorContact,
+        reinspectionOf: inspection!.id,
+        comments: `Re-inspection of ${inspection!.type} (${inspection!.result})`,
+      }
+    })
+  return requests.length > 0 ? { ...permit, inspections: [...permit.inspections, ...requests] } : permit
+}
+
+/**
+ * Records an inspection's result, requesting the re-inspection when it failed or passed on
+ * conditions. Null when the inspection isn't on the permit.
+ */
+export function recordInspectionResult(
+  permit: Permit,
+  inspectionId: string,
+  result: Exclude<Inspection["result"], "pending">,
+  details: { comments?: string; followUpRequired?: boolean; complianceScore?: number } = {},
+  now = new Date(),
+): Permit | null {
+  const inspection = permit.inspections.find((i) => i.id === inspectionId)
+  if (!inspection) return null
+  const recorded: Inspection = {
+    ...inspection,
+    ...details,
+    result,
+    followUpRequired: result === "failed" || (result === "conditional" && details.followUpRequired !== false),
+    completedDate: inspection.completedDate ?? now.toISOString(),
+    updatedAt: now.toISOString(),
+  }
+  return withReinspectionRequests({ ...permit, inspections: permit.inspections.map((i) => (i.id === inspectionId ? recorded : i)) }, now)
+}
+
+/**
+ * Reminders across the permits: inspections coming up, inspections scheduled ahead of a
+ * prerequisite, and failed inspections with no re-inspection requested.
+ */
+export function inspectionReminders(permits: Permit[], now = new Date(), rules = permitInspectionRules): InspectionReminder[] {
+  const today = startOfDay(now)
+  return permits
+    .flatMap((permit) => {
+      const plan = planPermitInspections(permit, now, rules)
+      const base = { permitId: permit.id, permitNumber: permit.number, projectId: permit.projectId }
+      return plan.steps.flatMap((step): InspectionReminder[] => {
+        const inspection = step.inspection
+        if (step.status === "scheduled" && inspection?.scheduledDate) {
+          const days = differenceInCalendarDays(parseISO(inspection.scheduledDate), today)
+          const reminders: InspectionReminder[] = []
+          if (step.missingPrerequisites.length > 0 && days >= 0) {
+            reminders.push({
+              ...base,
+              id: `prerequisite-${inspection.id}`,
+              kind: "prerequisite",
+              severity: "critical",
+              inspectionId: inspection.id,
+              date: inspection.scheduledDate,
+              message: `${step.type} on ${permit.number} is scheduled before ${step.missingPrerequisites.join(", ")} has passed`,
+            })
+          }
+          if (days >= 0 && days <= REMINDER_LEAD_DAYS) {
+            reminders.push({
+              ...base,
+              id: `upcoming-${inspection.id}`,
+              kind: "upcoming",
+              severity: days === 0 ? "warning" : "info",
+              inspectionId: inspection.id,
+              date: inspection.scheduledDate,
+              message: `${step.type} inspection on ${permit.number} ${days === 0 ? "today" : days === 1 ? "tomorrow" : `in ${days} days`} with ${inspection.inspector}`,
+            })
+          }
+          return reminders
+        }
+        if (step.status === "reinspection-required" && inspection) {
+          return [
+            {
+              ...base,
+              id: `reinspection-${inspection.id}`,
+              kind: "reinspection",
+              severity: "warning",
+              inspectionId: inspection.id,
+              date: step.earliestDate ?? format(today, "yyyy-MM-dd"),
+              message: `${step.type} on ${permit.number} was ${inspection.result}; request a re-inspection (earliest ${step.earliestDate})`,
+            },
+          ]
+        }
+        return []
+      })
+    })
+    .sort((a, b) => a.date.localeCompare(b.date))
+}
@@ -0,0 +1,311 @@
+// lib/scheduler/critical-path.ts
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns"
+import type { CpmActivity, CpmResult, ScheduleActivity } from "@/types/scheduler"
+import scheduleData from "@/data/mock/schedule/schedule.json"
+
+const toDate = (offset: number, origin: Date) => format(addDays(origin, offset), "yyyy-MM-dd")
+
+/**
+ * Calendar-day duration of an activity. Milestones carry no duration in the network
+ * regardless of the dates exported with them.
+ */
+export function getActivityDuration(activity: Pick<ScheduleActivity, "activity_type" | "start_date" | "end_date">) {
+  if (activity.activity_type === "Milestone") return 0
+  return Math.max(0, differenceInCalendarDays(parseISO(activity.end_date), parseISO(activity.start_date)))
+}
+
+/**
+ * Activities from schedule.json for a project. Falls back to the first scheduled project
+ * when no single project is selected (e.g. "all" or a stage filter).
+ */
+export function getProjectActivities(projectId?: string | number, source: ScheduleActivity[] = scheduleData as ScheduleActivity[]) {
+  const id = Number(projectId)
+  const matches = Number.isFinite(id) ? source.filter((a) => a.project_id === id) : []
+  if (matches.length > 0) return matches
+  const fallbackId = source[0]?.project_id
+  return source.filter((a) => a.project_id === fallbackId)
+}
+
+/**
+ * Builds a finish-to-start adjacency map from both the predecessor and successor lists,
+ * since exports are not always symmetric. References to unknown activities are collected
+ * rather than dropped silently.
+ */
+function buildNetwork(activities: ScheduleActivity[]) {
+  const ids = new Set(activities.map((a) => a.activity_id))
+  const preds = new Map<string, Set<string>>()
+  const succs = new Map<string, Set<string>>()
+  const missing: { activity_id: string; reference: string }[] = []
+
+  activities.forEach((a) => {
+    preds.set(a.activity_id, new Set())
+    succs.set(a.activity_id, new Set())
+  })
+
+  const link = (from: string, to: string) => {
+    succs.get(from)!.add(to)
+    preds.get(to)!.add(from)
+  }
+
+  activities.forEach((a) => {
+    a.predecessors.forEach((p) => {
+      if (ids.has(p)) link(p, a.activity_id)
+      else missing.push({ activity_id: a.activity_id, reference: p })
+    })
+    a.successors.forEach((s) => {
+      if (ids.has(s)) link(a.activity_id, s)
+      else missing.push({ activity_id: a.activity_id, reference: s })
+    })
+  })
+
+  return { preds, succs, missing }
+}
+
+/**
+ * Tarjan's strongly connected components. Any component with more than one activity
+ * (or a self-reference) is a logic loop.
+ */
+function findLogicLoops(ids: string[], succs: Map<string, Set<string>>) {
+  let index = 0
+  const stack: string[] = []
+  const onStack = new Set<string>()
+  const indices = new Map<string, number>()
+  const lowLinks = new Map<string, number>()
+  const loops: string[][] = []
+
+  const visit = (id: string) => {
+    indices.set(id, index)
+    lowLinks.set(id, index)
+    index++
+    stack.push(id)
+    onStack.add(id)
+
+    succs.get(id)!.forEach((next) => {
+      if (!indices.has(next)) {
+        visit(next)
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, lowLinks.get(next)!))
+      } else if (onStack.has(next)) {
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, indices.get(next)!))
+      }
+    })
+
+    if (lowLinks.get(id) === indices.get(id)) {
+      const component: string[] = []
+      let member: string
+      do {
+        member = stack.pop()!
+        onStack.delete(member)
+        component.push(member)
+      } while (member !== id)
+      if (component.length > 1 || succs.get(id)!.has(id)) loops.push(component.reverse())
+    }
+  }
+
+  ids.forEach((id) => {
+    if (!indices.has(id)) visit(id)
+  })
+  return loops
+}
+
+/**
+ * Kahn's topological sort over the acyclic part of the network. Activities caught in a
+ * logic loop are excluded from the order and scheduled on their own dates.
+ */
+function topologicalOrder(ids: string[], preds: Map<string, Set<string>>, succs: Map<string, Set<string>>, excluded: Set<string>) {
+  const inDegree = new Map<string, number>()
+  ids.forEach((id) => {
+    if (excluded.has(id)) return
+    inDegree.set(id, Array.from(preds.get(id)!).filter((p) => !excluded.has(p)).length)
+  })
+
+  const queue = ids.filter((id) => inDegree.get(id) === 0)
+  const order: string[] = []
+  while (queue.length > 0) {
+    const id = queue.shift()!
+    order.push(id)
+    succs.get(id)!.forEach((next) => {
+      if (excluded.has(next)) return
+      const remaining = inDegree.get(next)! - 1
+      inDegree.set(next, remaining)
+      if (remaining === 0) queue.push(next)
+    })
+  }
+  return order
+}
+
+/**
+ * The activity network in calculation order, for callers that run their own passes over it
+ * (e.g. sampling durations). Looped activities are left out of the order.
+ */
+export function getNetworkOrder(activities: ScheduleActivity[]) {
+  const ids = activities.map((a) => a.activity_id)
+  const { preds, succs } = buildNetwork(activities)
+  const looped = new Set(findLogicLoops(ids, succs).flat())
+  return { preds, succs, looped, order: topologicalOrder(ids, preds, succs, looped) }
+}
+
+/**
+ * Status date of a schedule export: the latest actual start recorded on it. A schedule with
+ * no progress is statused at its first start.
+ */
+export function getDataDate(activities: ScheduleActivity[]) {
+  const starts = activities.map((a) => a.start_date).sort()
+  const actualStarts = activities.filter((a) => a.status !== "Not Started").map((a) => a.start_date).sort()
+  if (actualStarts.length > 0) return actualStarts[actualStarts.length - 1]
+  return starts[0] ?? format(new Date(), "yyyy-MM-dd")
+}
+
+export interface CriticalPathOptions {
+  // Status date; remaining work can't be scheduled before it. Defaults to getDataDate
+  dataDate?: string
+  // Date the project must finish by. Defaults to the latest baseline finish
+  finishConstraint?: string
+}
+
+/**
+ * Runs a forward and backward pass over the activity network (finish-to-start, zero lag,
+ * calendar days) and returns early/late dates, total and free float and the critical path.
+ * Completed activities keep their actual dates; in-progress and unstarted work is scheduled
+ * from the data date with retained logic. Late dates run back from the earlier of the
+ * calculated finish and the finish constraint, so a slipped schedule shows negative float.
+ */
+export function runCriticalPath(activities: ScheduleActivity[], criticalFloatThreshold = 0, options: CriticalPathOptions = {}): CpmResult {
+  if (activities.length === 0) {
+    return {
+      project_start: "",
+      project_finish: "",
+      data_date: "",
+      duration: 0,
+      activities: [],
+      critical_path: [],
+      open_starts: [],
+      open_finishes: [],
+      logic_loops: [],
+      missing_references: [],
+    }
+  }
+
+  const byId = new Map(activities.map((a) => [a.activity_id, a]))
+  const ids = activities.map((a) => a.activity_id)
+  const { preds, succs, missing } = buildNetwork(activities)
+
+  const logicLoops = findLogicLoops(ids, succs)
+  const looped = new Set(logicLoops.flat())
+  const order = topologicalOrder(ids, preds, succs, looped)
+
+  const origin = parseISO(activities.reduce((min, a) => (a.start_date < min ? a.start_date : min), activities[0].start_date))
+  const offsetOf = (date: string) => differenceInCalendarDays(parseISO(date), origin)
+  const dataDate = options.dataDate ?? getDataDate(activities)
+  const dataOffset = dataDate ? offsetOf(dataDate) : Number.NEGATIVE_INFINITY
+
+  const isComplete = (id: string) => byId.get(id)!.status === "Completed"
+  const duration = new Map(ids.map((id) => [id, getActivityDuration(byId.get(id)!)]))
+  // Work left as of the data date: none once complete, what's left of the dates while in progress
+  const remaining = new Map(
+    ids.map((id) => {
+      const activity = byId.get(id)!
+      if (activity.status === "Completed") return [id, 0]
+      if (activity.status === "Not Started") return [id, duration.get(id)!]
+      const from = Math.max(offsetOf(activity.start_date), dataOffset)
+      return [id, activity.activity_type === "Milestone" ? 0 : Math.max(0, offsetOf(activity.end_date) - from)]
+    }),
+  )
+
+  const es = new Map<string, number>()
+  const ef = new Map<string, number>()
+  // When the remaining work starts; the early start for unstarted activities
+  const rs = new Map<string, number>()
+
+  // Looped activities cannot be scheduled by logic; hold them to their own dates
+  looped.forEach((id) => {
+    es.set(id, offsetOf(byId.get(id)!.start_date))
+    rs.set(id, es.get(id)!)
+    ef.set(id, es.get(id)! + duration.get(id)!)
+  })
+
+  // Forward pass
+  order.forEach((id) => {
+    const activity = byId.get(id)!
+    if (activity.status === "Completed") {
+      es.set(id, offsetOf(activity.start_date))
+      rs.set(id, offsetOf(activity.end_date))
+      ef.set(id, offsetOf(activity.end_date))
+      return
+    }
+    const driving = Array.from(preds.get(id)!).map((p) => ef.get(p) ?? 0)
+    const logicStart = driving.length > 0 ? Math.max(...driving) : activity.status === "Not Started" ? 0 : offsetOf(activity.start_date)
+    const start = Math.max(logicStart, dataOffset)
+    es.set(id, activity.status === "Not Started" ? start : offsetOf(activity.start_date))
+    rs.set(id, start)
+    ef.set(id, start + remaining.get(id)!)
+  })
+
+  const finishOffset = Math.max(...ids.map((id) => ef.get(id)!))
+  const constraint = options.finishConstraint ?? activities.reduce((max, a) => (a.primary_base_end_date > max ? a.primary_base_end_date : max), "")
+  const lateFinishOffset = constraint ? Math.min(finishOffset, offsetOf(constraint)) : finishOffset
+
+  const ls = new Map<string, number>()
+  const lf = new Map<string, number>()
+
+  looped.forEach((id) => {
+    lf.set(id, ef.get(id)!)
+    ls.set(id, es.get(id)!)
+  })
+
+  // Completed work no longer takes part; everything else keeps its logic
+  const drivenSuccessors = (id: string) => Array.from(succs.get(id)!).filter((s) => !isComplete(s) && !looped.has(s))
+
+  // Backward pass; ls is the late start of the remaining work
+  for (let i = order.length - 1; i >= 0; i--) {
+    const id = order[i]
+    if (isComplete(id)) {
+      lf.set(id, ef.get(id)!)
+      ls.set(id, rs.get(id)!)
+      continue
+    }
+    const following = drivenSuccessors(id).map((s) => ls.get(s)!)
+    const finish = following.length > 0 ? Math.min(...following) : lateFinishOffset
+    lf.set(id, finish)
+    ls.set(id, finish - remaining.get(id)!)
+  }
+
+  const results: CpmActivity[] = ids.map((id) => {
+    const activity = byId.get(id)!
+    const complete = isComplete(id)
+    const following = drivenSuccessors(id).map((s) => rs.get(s)!)
+    const freeFloat = (following.length > 0 ? Math.min(...following) : lateFinishOffset) - ef.get(id)!
+    const totalFloat = complete ? 0 : lf.get(id)! - ef.get(id)!
+    return {
+      activity_id: id,
+      activity_name: activity.activity_name,
+      wbs_code: activity.wbs_code,
+      activity_type: activity.activity_type,
+      status: activity.status,
+      duration: duration.get(id)!,
+      early_start: toDate(es.get(id)!, origin),
+      early_finish: toDate(ef.get(id)!, origin),
+      late_start: toDate(activity.status === "Not Started" ? ls.get(id)! : es.get(id)!, origin),
+      late_finish: toDate(lf.get(id)!, origin),
+      total_float: totalFloat,
+      free_float: complete ? 0 : Math.max(0, freeFloat),
+      reported_total_float: activity.total_float,
+      reported_free_float: activity.free_float,
+      is_critical: !complete && !looped.has(id) && totalFloat <= criticalFloatThreshold,
+    }
+  })
+
+  const resultById = new Map(results.map((r) => [r.activity_id, r]))
+
+  return {
+    project_start: toDate(0, origin),
+    project_finish: toDate(finishOffset, origin),
+    data_date: dataDate,
+    duration: finishOffset,
+    activities: results,
+    critical_path: order.filter((id) => resultById.get(id)!.is_critical),
+    open_starts: ids.filter((id) => preds.get(id)!.size === 0),
+    open_finishes: ids.filter((id) => succs.get(id)!.size === 0),
+    logic_loops: logicLoops,
+    missing_references: missing,
+  }
+}
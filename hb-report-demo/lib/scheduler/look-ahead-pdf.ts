@@ -0,0 +1,97 @@
+// lib/scheduler/look-ahead-pdf.ts
+import { addDays, format, getDay, parseISO } from "date-fns"
+import { jsPDF } from "jspdf"
+import { autoTable } from "jspdf-autotable"
+import type { LookAheadPlan, ScheduledFragNet } from "@/types/scheduler"
+
+const CRITICAL_FILL: [number, number, number] = [220, 38, 38]
+const ACTIVE_FILL: [number, number, number] = [37, 99, 235]
+const FRAGNET_FILL: [number, number, number] = [22, 163, 74]
+
+/**
+ * Printable look-ahead for the weekly subcontractor meeting: one row per activity with a
+ * shaded Monday–Friday grid across the window, followed by the project's fragnets.
+ */
+export function createLookAheadPdf(plan: LookAheadPlan, fragnets: ScheduledFragNet[], projectName: string) {
+  const doc = new jsPDF({ orientation: "landscape", unit: "pt", format: "letter" })
+  const workDays: string[] = []
+  for (let day = parseISO(plan.window_start); format(day, "yyyy-MM-dd") <= plan.window_end; day = addDays(day, 1)) {
+    if (getDay(day) !== 0 && getDay(day) !== 6) workDays.push(format(day, "yyyy-MM-dd"))
+  }
+  const dayHeaders = workDays.map((d) => format(parseISO(d), "EEEEE\nM/d"))
+  const gridFont = workDays.length > 15 ? 5 : 7
+
+  doc.setFontSize(14)
+  doc.text(`${projectName} — ${plan.weeks.length}-Week Look-Ahead`, 40, 36)
+  doc.setFontSize(9)
+  doc.text(
+    `Data date ${plan.data_date} · Window ${plan.window_start} to ${plan.window_end} · ${plan.activities.length} activities`,
+    40,
+    52,
+  )
+
+  const rows = plan.activities.map((a) => [
+    a.activity_id,
+    a.activity_name,
+    a.start_date,
+    a.end_date,
+    String(a.total_float_calculated),
+    ...workDays.map(() => ""),
+  ])
+
+  autoTable(doc, {
+    startY: 64,
+    head: [["ID", "Activity", "Start", "Finish", "TF", ...dayHeaders]],
+    body: rows,
+    theme: "grid",
+    styles: { fontSize: 7, cellPadding: 2 },
+    headStyles: { fillColor: [30, 41, 59], fontSize: gridFont },
+    columnStyles: { 0: { cellWidth: 52 }, 1: { cellWidth: 150 }, 2: { cellWidth: 46 }, 3: { cellWidth: 46 }, 4: { cellWidth: 20 } },
+    didParseCell: (data) => {
+      if (data.section !== "body" || data.column.index < 5) return
+      const activity = plan.activities[data.row.index]
+      const day = workDays[data.column.index - 5]
+      if (day >= activity.start_date && day <= activity.end_date) {
+        data.cell.styles.fillColor = activity.is_critical ? CRITICAL_FILL : ACTIVE_FILL
+      }
+    },
+  })
+
+  fragnets.forEach((scheduled) => {
+    doc.addPage()
+    doc.setFontSize(12)
+    doc.text(`Fragnet: ${scheduled.fragnet.name}`, 40, 36)
+    doc.setFontSize(9)
+    doc.text(
+      `${scheduled.start_date} to ${scheduled.end_date} · After ${scheduled.fragnet.predecessor_activity_id}` +
+        (scheduled.fragnet.successor_activity_id ? ` · Before ${scheduled.fragnet.successor_activity_id}` : "") +
+        (scheduled.successor_impact > 0 ? ` · Impacts successor by ${scheduled.successor_impact} days` : ""),
+      40,
+      52,
+    )
+    autoTable(doc, {
+      startY: 64,
+      head: [["ID", "Activity", "Start", "Finish", "Days", "Resources", ...dayHeaders]],
+      body: scheduled.activities.map((a) => [
+        a.id,
+        a.name,
+        a.start_date,
+        a.end_date,
+        String(a.duration),
+        a.resources.join(", "),
+        ...workDays.map(() => ""),
+      ]),
+      theme: "grid",
+      styles: { fontSize: 7, cellPadding: 2 },
+      headStyles: { fillColor: [30, 41, 59], fontSize: gridFont },
+      didParseCell: (data) => {
+        if (data.section !== "body" || data.column.index < 6) return
+        const activity = scheduled.activities[data.row.index]
+        const day = workDays[data.column.index - 6]
+        if (day >= activity.start_date && day <= activity.end_date) data.cell.styles.fillColor = FRAGNET_FILL
+      },
+    })
+  })
+
+  return doc
+}
@@ -0,0 +1,99 @@
+// lib/scheduler/look-ahead.ts
+import { addDays, differenceInCalendarDays, format, max as maxDate, parseISO, startOfWeek } from "date-fns"
+import type {
+  FragNet,
+  LookAheadActivity,
+  LookAheadPlan,
+  LookAheadWeeks,
+  ScheduleActivity,
+  ScheduledFragNet,
+  ScheduledFragNetActivity,
+} from "@/types/scheduler"
+import { getDataDate, runCriticalPath } from "@/lib/scheduler/critical-path"
+
+export { getDataDate }
+
+const iso = (date: Date) => format(date, "yyyy-MM-dd")
+
+/**
+ * Rolling look-ahead: every open activity working in the weeks starting with the week of
+ * the as-of date (Monday through Sunday), bucketed by week and carrying calculated float.
+ */
+export function buildLookAhead(activities: ScheduleActivity[], weeks: LookAheadWeeks, asOf = getDataDate(activities)): LookAheadPlan {
+  const windowStart = startOfWeek(parseISO(asOf), { weekStartsOn: 1 })
+  const windowEnd = addDays(windowStart, weeks * 7 - 1)
+  const start = iso(windowStart)
+  const end = iso(windowEnd)
+
+  const cpm = runCriticalPath(activities, 0, { dataDate: asOf })
+  const cpmById = new Map(cpm.activities.map((a) => [a.activity_id, a]))
+
+  const inWindow: LookAheadActivity[] = activities
+    .filter((a) => a.status !== "Completed" && a.start_date <= end && a.end_date >= start)
+    .sort((a, b) => a.start_date.localeCompare(b.start_date) || a.activity_id.localeCompare(b.activity_id))
+    .map((a) => ({
+      ...a,
+      total_float_calculated: cpmById.get(a.activity_id)?.total_float ?? a.total_float,
+      is_critical: cpmById.get(a.activity_id)?.is_critical ?? false,
+      starts_in_window: a.start_date >= start,
+      finishes_in_window: a.end_date <= end,
+    }))
+
+  return {
+    project_id: activities[0]?.project_id ?? 0,
+    data_date: asOf,
+    window_start: start,
+    window_end: end,
+    weeks: Array.from({ length: weeks }, (_, i) => {
+      const weekStart = iso(addDays(windowStart, i * 7))
+      const weekEnd = iso(addDays(windowStart, i * 7 + 6))
+      return {
+        week_start: weekStart,
+        week_end: weekEnd,
+        activity_ids: inWindow.filter((a) => a.start_date <= weekEnd && a.end_date >= weekStart).map((a) => a.activity_id),
+      }
+    }),
+    activities: inWindow,
+  }
+}
+
+/**
+ * Schedules a fragnet off its tie-in: work starts when the predecessor activity finishes
+ * (or at the data date, if that is later) and follows the fragnet's own finish-to-start
+ * logic in calendar days, as the CPM engine does. The successor impact is how far the
+ * fragnet finish runs past the tied successor's planned start.
+ */
+export function scheduleFragNet(fragnet: FragNet, activities: ScheduleActivity[], dataDate = getDataDate(activities)): ScheduledFragNet {
+  const byId = new Map(activities.map((a) => [a.activity_id, a]))
+  const tieIn = byId.get(fragnet.predecessor_activity_id)
+  const origin = maxDate([parseISO(tieIn?.end_date ?? dataDate), parseISO(dataDate)])
+
+  const finishes = new Map<string, Date>()
+  const scheduled: ScheduledFragNetActivity[] = []
+  const pending = [...fragnet.activities]
+
+  // Place activities once their predecessors are placed; unknown predecessors are ignored
+  while (pending.length > 0) {
+    const index = pending.findIndex((a) =>
+      a.predecessors.every((p) => finishes.has(p) || !fragnet.activities.some((other) => other.id === p)),
+    )
+    if (index < 0) throw new Error(`Fragnet ${fragnet.name} has circular activity logic`)
+    const [activity] = pending.splice(index, 1)
+    const drivers = activity.predecessors.map((p) => finishes.get(p)).filter((d): d is Date => !!d)
+    const start = drivers.length > 0 ? maxDate(drivers) : origin
+    const finish = addDays(start, Math.max(0, activity.duration))
+    finishes.set(activity.id, finish)
+    scheduled.push({ ...activity, start_date: iso(start), end_date: iso(finish) })
+  }
+
+  const fragnetFinish = finishes.size > 0 ? maxDate(Array.from(finishes.values())) : origin
+  const successor = fragnet.successor_activity_id ? byId.get(fragnet.successor_activity_id) : undefined
+
+  return {
+    fragnet,
+    start_date: iso(origin),
+    end_date: iso(fragnetFinish),
+    activities: fragnet.activities.map((a) => scheduled.find((s) => s.id === a.id)!),
+    successor_impact: successor ? Math.max(0, differenceInCalendarDays(fragnetFinish, parseISO(successor.start_date))) : 0,
+  }
+}
@@ -0,0 +1,166 @@
+// lib/scheduler/schedule-comparison.ts
+import { addDays, differenceInCalendarDays, format, parseISO, startOfWeek } from "date-fns"
+import type { ActivityVariance, ScheduleActivity, ScheduleComparison, ScheduleSnapshot } from "@/types/scheduler"
+import { runCriticalPath } from "@/lib/scheduler/critical-path"
+
+const daysBetween = (from: string, to: string) => differenceInCalendarDays(parseISO(to), parseISO(from))
+
+// Project finish as scheduled in the export, not as recalculated
+const latestFinish = (activities: ScheduleActivity[]) =>
+  activities.reduce((max, a) => (a.end_date > max ? a.end_date : max), "")
+
+/**
+ * The primary baseline carried on every activity, as its own snapshot. Activities are
+ * re-planned on their baseline dates so the CPM pass yields baseline float.
+ */
+export function buildBaselineSnapshot(activities: ScheduleActivity[], label = "Baseline"): ScheduleSnapshot {
+  return {
+    id: "baseline",
+    label,
+    activities: activities.map((a) => ({
+      ...a,
+      status: "Not Started",
+      start_date: a.primary_base_start_date,
+      end_date: a.primary_base_end_date,
+    })),
+  }
+}
+
+/**
+ * Diffs two schedule snapshots activity by activity. Positive variances are slips of the
+ * current snapshot against the reference, measured on the exported dates; float erosion is
+ * reference float minus current float as calculated by the CPM engine for each snapshot.
+ */
+export function compareSchedules(current: ScheduleSnapshot, reference: ScheduleSnapshot): ScheduleComparison {
+  const currentCpm = runCriticalPath(current.activities)
+  const referenceCpm = runCriticalPath(reference.activities)
+
+  const currentById = new Map(current.activities.map((a) => [a.activity_id, a]))
+  const referenceById = new Map(reference.activities.map((a) => [a.activity_id, a]))
+  const currentFloat = new Map(currentCpm.activities.map((a) => [a.activity_id, a]))
+  const referenceFloat = new Map(referenceCpm.activities.map((a) => [a.activity_id, a]))
+
+  const ids = Array.from(new Set([...currentById.keys(), ...referenceById.keys()]))
+
+  const activities: ActivityVariance[] = ids.map((id) => {
+    const now = currentById.get(id)
+    const before = referenceById.get(id)
+    const source = (now ?? before)!
+    const cpmNow = currentFloat.get(id)
+    const cpmBefore = referenceFloat.get(id)
+
+    const base = {
+      activity_id: id,
+      activity_name: source.activity_name,
+      activity_type: source.activity_type,
+      wbs_code: source.wbs_code,
+      total_float: cpmNow?.total_float ?? null,
+      reference_total_float: cpmBefore?.total_float ?? null,
+      is_critical: cpmNow?.is_critical ?? false,
+    }
+
+    if (!now || !before) {
+      return {
+        ...base,
+        change: now ? "added" : "deleted",
+        start_variance: 0,
+        finish_variance: 0,
+        duration_change: 0,
+        float_erosion: 0,
+        predecessors_added: [],
+        predecessors_removed: [],
+      }
+    }
+
+    const predecessorsAdded = now.predecessors.filter((p) => !before.predecessors.includes(p))
+    const predecessorsRemoved = before.predecessors.filter((p) => !now.predecessors.includes(p))
+    const startVariance = daysBetween(before.start_date, now.start_date)
+    const finishVariance = daysBetween(before.end_date, now.end_date)
+    const durationChange = daysBetween(now.start_date, now.end_date) - daysBetween(before.start_date, before.end_date)
+    const floatErosion = (cpmBefore?.total_float ?? 0) - (cpmNow?.total_float ?? 0)
+    const changed =
+      startVariance !== 0 || finishVariance !== 0 || floatErosion !== 0 || predecessorsAdded.length > 0 || predecessorsRemoved.length > 0
+
+    return {
+      ...base,
+      change: changed ? "changed" : "unchanged",
+      start_variance: startVariance,
+      finish_variance: finishVariance,
+      duration_change: durationChange,
+      float_erosion: floatErosion,
+      predecessors_added: predecessorsAdded,
+      predecessors_removed: predecessorsRemoved,
+    }
+  })
+
+  const matched = activities.filter((a) => a.change === "changed" || a.change === "unchanged")
+  const currentFinish = latestFinish(current.activities)
+  const referenceFinish = latestFinish(reference.activities)
+
+  return {
+    current: { id: current.id, label: current.label, finish: currentFinish },
+    reference: { id: reference.id, label: reference.label, finish: referenceFinish },
+    finish_variance: currentFinish && referenceFinish ? daysBetween(referenceFinish, currentFinish) : 0,
+    activities,
+    summary: {
+      added: activities.filter((a) => a.change === "added").length,
+      deleted: activities.filter((a) => a.change === "deleted").length,
+      logic_changes: matched.filter((a) => a.predecessors_added.length > 0 || a.predecessors_removed.length > 0).length,
+      slipped_starts: matched.filter((a) => a.start_variance > 0).length,
+      slipped_finishes: matched.filter((a) => a.finish_variance > 0).length,
+      float_eroded: matched.filter((a) => a.float_erosion > 0).length,
+      average_finish_slip: matched.length
+        ? Math.round((matched.reduce((sum, a) => sum + a.finish_variance, 0) / matched.length) * 10) / 10
+        : 0,
+    },
+  }
+}
+
+/**
+ * Finish-date slip rolled up by WBS area (the prefix before the first "-" or ".").
+ */
+export function summarizeSlipByWbs(comparison: ScheduleComparison) {
+  const groups = new Map<string, ActivityVariance[]>()
+  comparison.activities
+    .filter((a) => a.change === "changed" || a.change === "unchanged")
+    .forEach((a) => {
+      const area = a.wbs_code.split(/[-.]/)[0] || "Unassigned"
+      groups.set(area, [...(groups.get(area) ?? []), a])
+    })
+
+  return Array.from(groups.entries())
+    .map(([category, group]) => {
+      const slipped = group.filter((a) => a.finish_variance > 0)
+      const netSlip = group.reduce((sum, a) => sum + a.finish_variance, 0)
+      return {
+        category,
+        impact: slipped.reduce((sum, a) => sum + a.finish_variance, 0),
+        frequency: slipped.length,
+        avgDuration: slipped.length ? Math.round((slipped.reduce((sum, a) => sum + a.finish_variance, 0) / slipped.length) * 10) / 10 : 0,
+        trend: netSlip > 0 ? "increasing" : netSlip < 0 ? "decreasing" : "stable",
+      }
+    })
+    .sort((a, b) => b.impact - a.impact)
+}
+
+/**
+ * Cumulative percentage of activities finishing by each week, one series per snapshot.
+ */
+export function buildFinishCurve(snapshots: ScheduleSnapshot[]) {
+  const finishes = snapshots.map((s) => s.activities.map((a) => a.end_date).filter(Boolean).sort())
+  const all = finishes.flat().sort()
+  if (all.length === 0) return []
+
+  const rows: Record<string, string | number>[] = []
+  const last = parseISO(all[all.length - 1])
+  for (let week = startOfWeek(parseISO(all[0])); week <= last; week = addDays(week, 7)) {
+    const cutoff = format(addDays(week, 6), "yyyy-MM-dd")
+    const row: Record<string, string | number> = { period: format(week, "MMM d") }
+    snapshots.forEach((snapshot, i) => {
+      const total = finishes[i].length
+      row[snapshot.id] = total ? Math.round((finishes[i].filter((d) => d <= cutoff).length / total) * 100) : 0
+    })
+    rows.push(row)
+  }
+  return rows
+}
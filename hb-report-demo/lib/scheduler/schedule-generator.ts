@@ -0,0 +1,346 @@
+// lib/scheduler/schedule-generator.ts
+import { addDays, differenceInCalendarDays, format, getDay, parseISO } from "date-fns"
+import type {
+  GeneratedSchedule,
+  ProjectGenerationForm,
+  ScheduleGenerationOptions,
+  SchedulerConstraints,
+  SchedulerResource,
+  SchedulerRisk,
+  SchedulerTask,
+  TaskTemplate,
+} from "@/types/scheduler"
+import templateData from "@/data/mock/schedule/task-templates.json"
+import resourceData from "@/data/mock/schedule/resources.json"
+
+const HOURS_PER_DAY = 8
+const DAYS_PER_WEEK = 5
+// Safety stop for calendars that block (almost) every day
+const MAX_CALENDAR_DAYS = 365 * 10
+
+const MONTHS = ["january", "february", "march", "april", "may", "june", "july", "august", "september", "october", "november", "december"]
+
+const templates = templateData as unknown as {
+  templates: Record<ProjectGenerationForm["project_type"], TaskTemplate[]>
+  complexity_additions: Record<ProjectGenerationForm["complexity"], TaskTemplate[]>
+  complexity_factors: Record<ProjectGenerationForm["complexity"], number>
+}
+
+export const defaultSchedulerResources = resourceData as SchedulerResource[]
+
+/**
+ * Task templates for a project type, with the additional scope that higher complexity
+ * projects carry. Added scope that depends on work the project type doesn't have is skipped.
+ */
+export function expandTaskTemplates(projectType: ProjectGenerationForm["project_type"], complexity: ProjectGenerationForm["complexity"]) {
+  const base = templates.templates[projectType] ?? templates.templates.Commercial
+  const additions = templates.complexity_additions[complexity] ?? []
+  const names = new Set([...base, ...additions].map((t) => t.name))
+  const inScope = additions.filter((addition) => addition.dependencies.every((d) => names.has(d)))
+
+  // Added scope is inserted ahead of its successors: anything that followed the same
+  // predecessor now also waits for the added task
+  const expandedBase = base.map((task) => ({
+    ...task,
+    dependencies: [
+      ...task.dependencies,
+      ...inScope.filter((addition) => addition.dependencies.some((d) => task.dependencies.includes(d))).map((a) => a.name),
+    ],
+  }))
+
+  return [...expandedBase, ...inScope.map((t) => ({ ...t, dependencies: [...t.dependencies] }))]
+}
+
+/**
+ * Working-day calendar: weekends, listed non-working dates and, for weather-dependent
+ * work, any restricted month (by name) or date.
+ */
+export function createWorkCalendar(constraints: Pick<SchedulerConstraints, "non_working_days" | "weather_restrictions">, considerWeather: boolean) {
+  const holidays = new Set(constraints.non_working_days.map((d) => d.trim()).filter(Boolean))
+  const restrictedDates = new Set<string>()
+  const restrictedMonths = new Set<number>()
+
+  constraints.weather_restrictions.forEach((entry) => {
+    const value = entry.trim().toLowerCase()
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) restrictedDates.add(value)
+    else {
+      const month = MONTHS.findIndex((m) => m.startsWith(value.slice(0, 3)))
+      if (value.length >= 3 && month >= 0) restrictedMonths.add(month)
+    }
+  })
+
+  return {
+    isWorkingDay(date: Date, weatherDependent: boolean) {
+      const iso = format(date, "yyyy-MM-dd")
+      const weekday = getDay(date)
+      if (weekday === 0 || weekday === 6 || holidays.has(iso)) return false
+      if (considerWeather && weatherDependent && (restrictedDates.has(iso) || restrictedMonths.has(date.getMonth()))) return false
+      return true
+    },
+  }
+}
+
+const resourceDailyCost = (resource: SchedulerResource) => {
+  switch (resource.unit) {
+    case "hour":
+      return resource.cost * HOURS_PER_DAY
+    case "week":
+      return resource.cost / DAYS_PER_WEEK
+    default:
+      return resource.cost
+  }
+}
+
+interface PlannedTask {
+  template: TaskTemplate
+  id: string
+  duration: number
+  crew: number
+  equipment: string[]
+  days: string[]
+}
+
+/**
+ * Generates a resource-leveled schedule from task templates.
+ *
+ * Durations are scaled by complexity and buffered, then tasks are placed with a serial
+ * scheduling pass: in dependency order (critical templates and higher priority first when
+ * requested), each task takes the earliest working days after its predecessors where the
+ * crew fits within the team size and its equipment is free. A backward pass over the
+ * placed tasks, including the resource ties leveling introduced, then yields total float
+ * and the critical path.
+ */
+export function generateSchedule(
+  form: ProjectGenerationForm,
+  options: ScheduleGenerationOptions,
+  constraints: SchedulerConstraints,
+  resources: SchedulerResource[] = defaultSchedulerResources,
+): GeneratedSchedule {
+  const recommendations: string[] = []
+  const notes: string[] = []
+  const factor = templates.complexity_factors[form.complexity] ?? 1
+  const buffer = options.include_buffer ? 1 + options.buffer_percentage / 100 : 1
+  const calendar = createWorkCalendar(constraints, options.consider_weather)
+  const resourceByName = new Map(resources.map((r) => [r.name, r]))
+  const labor = resources.find((r) => r.type === "Personnel")
+  const capacity = options.resource_leveling ? Math.max(1, form.team_size) : Number.POSITIVE_INFINITY
+
+  const expanded = expandTaskTemplates(form.project_type, form.complexity)
+  notes.push(`Expanded ${expanded.length} ${form.project_type.toLowerCase()} task templates at ${form.complexity.toLowerCase()} complexity (×${factor})`)
+  if (options.include_buffer) notes.push(`Applied ${options.buffer_percentage}% duration buffer`)
+
+  const planned: PlannedTask[] = expanded.map((template, index) => {
+    const crew = Math.min(template.resource_requirements.personnel, capacity)
+    if (crew < template.resource_requirements.personnel) {
+      recommendations.push(`${template.name} needs ${template.resource_requirements.personnel} people but the team is ${form.team_size}; crew capped`)
+    }
+    const equipment = template.resource_requirements.equipment.filter((name) => {
+      const resource = resourceByName.get(name)
+      if (resource && resource.available) return true
+      recommendations.push(`${name} for ${template.name} is not available; source it or plan an alternate method`)
+      return false
+    })
+    return {
+      template,
+      id: `GEN${String(index + 1).padStart(3, "0")}`,
+      duration: Math.max(1, Math.ceil(template.duration_days * factor * buffer)),
+      crew,
+      equipment,
+      days: [],
+    }
+  })
+
+  const byName = new Map(planned.map((t) => [t.template.name, t]))
+  const priorityRank = { High: 0, Medium: 1, Low: 2 }
+  const rank = (t: PlannedTask) =>
+    (options.prioritize_critical_path && t.template.critical_path ? 0 : 10) + priorityRank[t.template.priority]
+
+  // Serial schedule generation: always place the best-ranked task whose predecessors are placed
+  const crewUsage = new Map<string, number>()
+  const equipmentUsage = new Map<string, Set<string>>()
+  const start = parseISO(form.start_date)
+  const calendarDay = (offset: number) => format(addDays(start, offset), "yyyy-MM-dd")
+  const offsetOf = (day: string) => differenceInCalendarDays(parseISO(day), start)
+  const isWorking = (offset: number, weatherDependent: boolean) => calendar.isWorkingDay(addDays(start, offset), weatherDependent)
+
+  const occupants = new Map<string, PlannedTask[]>()
+  // Resource-driven ties: tasks whose work held a leveled task back
+  const resourceSuccessors = new Map<PlannedTask, PlannedTask[]>(planned.map((t) => [t, []]))
+
+  const remaining = new Set(planned)
+  let leveledDelays = 0
+  while (remaining.size > 0) {
+    const ready = Array.from(remaining)
+      .filter((t) => t.template.dependencies.every((d) => !remaining.has(byName.get(d)!)))
+      .sort((a, b) => rank(a) - rank(b))
+    if (ready.length === 0) throw new Error("Task templates contain a dependency loop")
+    const task = ready[0]
+    remaining.delete(task)
+
+    const predecessorFinish = Math.max(
+      -1,
+      ...task.template.dependencies.map((d) => {
+        const days = byName.get(d)!.days
+        return offsetOf(days[days.length - 1])
+      }),
+    )
+
+    let offset = predecessorFinish + 1
+    let logicStart: number | null = null
+    let lastConflict: string | null = null
+    for (; offset < MAX_CALENDAR_DAYS && task.days.length < task.duration; offset++) {
+      const day = calendarDay(offset)
+      if (!isWorking(offset, task.template.weather_dependent)) continue
+      if (logicStart === null) logicStart = offset
+      const fits =
+        (crewUsage.get(day) ?? 0) + task.crew <= capacity &&
+        task.equipment.every((e) => !equipmentUsage.get(day)?.has(e))
+      if (!fits) {
+        // A task's work days are contiguous; restart once a conflict interrupts it
+        task.days = []
+        lastConflict = day
+        continue
+      }
+      task.days.push(day)
+    }
+
+    if (task.days.length < task.duration) {
+      throw new Error(`Unable to schedule ${task.template.name} within ${MAX_CALENDAR_DAYS} calendar days`)
+    }
+    if (lastConflict) {
+      leveledDelays++
+      occupants.get(lastConflict)!.forEach((driver) => resourceSuccessors.get(driver)!.push(task))
+    }
+
+    task.days.forEach((day) => {
+      occupants.set(day, [...(occupants.get(day) ?? []), task])
+      crewUsage.set(day, (crewUsage.get(day) ?? 0) + task.crew)
+      const used = equipmentUsage.get(day) ?? new Set<string>()
+      task.equipment.forEach((e) => used.add(e))
+      equipmentUsage.set(day, used)
+    })
+  }
+
+  if (options.resource_leveling) notes.push(`Resource leveling delayed ${leveledDelays} task(s) to stay within a ${form.team_size}-person team`)
+
+  // Backward pass from the latest finish over logic and resource ties. Float is counted in
+  // working days on each task's own calendar, so a Friday finish feeding a Monday start is
+  // still critical.
+  const projectFinish = Math.max(...planned.map((t) => offsetOf(t.days[t.days.length - 1])))
+  const successors = new Map(
+    planned.map((t) => [
+      t,
+      [...planned.filter((s) => s.template.dependencies.includes(t.template.name)), ...resourceSuccessors.get(t)!],
+    ]),
+  )
+  const lateStart = new Map<PlannedTask, number>()
+  const totalFloat = new Map<PlannedTask, number>()
+  const ordered = [...planned].sort((a, b) => offsetOf(b.days[0]) - offsetOf(a.days[0]))
+  ordered.forEach((task) => {
+    const weather = task.template.weather_dependent
+    const finish = offsetOf(task.days[task.days.length - 1])
+    const following = successors.get(task)!.map((s) => lateStart.get(s)! - 1)
+    const lateFinish = following.length > 0 ? Math.min(...following) : projectFinish
+
+    let float = 0
+    for (let offset = finish + 1; offset <= lateFinish; offset++) if (isWorking(offset, weather)) float++
+    totalFloat.set(task, float)
+
+    let late = offsetOf(task.days[0])
+    for (let shifted = 0; shifted < float; ) if (isWorking(++late, weather)) shifted++
+    lateStart.set(task, late)
+  })
+
+  const tasks: SchedulerTask[] = planned.map((task) => {
+    const laborCost = labor ? resourceDailyCost(labor) * task.crew * task.duration : 0
+    const equipmentCost = task.equipment.reduce((sum, name) => sum + resourceDailyCost(resourceByName.get(name)!) * task.duration, 0)
+    const critical = totalFloat.get(task)! <= 0
+    return {
+      task_id: task.id,
+      name: task.template.name,
+      description: task.template.description,
+      duration: task.duration,
+      priority: task.template.priority,
+      start_date: task.days[0],
+      end_date: task.days[task.days.length - 1],
+      dependencies: task.template.dependencies.map((d) => byName.get(d)!.id),
+      resources: task.equipment,
+      assigned_resources: [...(labor ? [`${labor.name} ×${task.crew}`] : []), ...task.equipment],
+      cost: Math.round(laborCost + equipmentCost),
+      progress: 0,
+      critical_path: critical,
+      is_critical: critical,
+      status: "Not Started",
+    }
+  })
+
+  const finishDate = calendarDay(projectFinish)
+  const criticalPathDuration = projectFinish + 1
+  const totalCost = tasks.reduce((sum, t) => sum + t.cost, 0)
+  const targetDays = form.duration_weeks * 7
+
+  if (criticalPathDuration > targetDays) {
+    recommendations.push(`Generated duration of ${criticalPathDuration} days exceeds the ${targetDays}-day target; consider larger crews or overlapping critical work`)
+  }
+  const deadline = form.must_finish_by ?? constraints.must_finish_by
+  if (deadline && finishDate > deadline) {
+    recommendations.push(`Projected finish ${finishDate} is after the required completion of ${deadline}`)
+  }
+  if (form.budget > 0 && totalCost > form.budget) {
+    recommendations.push(`Estimated direct cost $${totalCost.toLocaleString()} exceeds the $${form.budget.toLocaleString()} budget`)
+  }
+
+  const weatherTasks = planned.filter((t) => t.template.weather_dependent)
+  const risks: SchedulerRisk[] =
+    options.consider_weather && weatherTasks.length > 0
+      ? [
+          {
+            risk_id: "RISK-WX",
+            description: "Weather-dependent work on the schedule",
+            impact: weatherTasks.some((t) => tasks.find((s) => s.task_id === t.id)!.is_critical) ? "High" : "Medium",
+            probability: form.weather_dependent ? "High" : "Medium",
+            mitigation: "Sequence exterior work outside restricted periods and hold buffer on critical weather work",
+            affected_tasks: weatherTasks.map((t) => t.id),
+          },
+        ]
+      : []
+
+  // Risk score (0-100): share of critical work, weather exposure and deadline pressure
+  const criticalShare = tasks.filter((t) => t.is_critical).length / tasks.length
+  const weatherShare = weatherTasks.length / tasks.length
+  const deadlinePressure = deadline ? (finishDate > deadline ? 1 : 0.3) : 0
+  const riskScore = Math.round((criticalShare * 0.4 + weatherShare * 0.3 + deadlinePressure * 0.3) * 100)
+
+  notes.push(`Critical path runs through ${tasks.filter((t) => t.is_critical).length} of ${tasks.length} tasks`)
+
+  return {
+    project: {
+      project_id: `GEN-${form.start_date}`,
+      name: form.name,
+      description: form.description,
+      department: form.department,
+      status: "planning",
+      budget: form.budget,
+      start_date: form.start_date,
+      end_date: finishDate,
+      tasks,
+      resources,
+      milestones: [
+        { milestone_id: "MS-START", name: "Notice to Proceed", date: tasks[0].start_date, task_id: tasks[0].task_id },
+        {
+          milestone_id: "MS-FINISH",
+          name: "Project Completion",
+          date: finishDate,
+          task_id: tasks.find((t) => t.end_date === finishDate)?.task_id ?? tasks[tasks.length - 1].task_id,
+        },
+      ],
+      risks,
+      constraints: { ...constraints, must_finish_by: deadline ?? "" },
+    },
+    critical_path_duration: criticalPathDuration,
+    total_cost: totalCost,
+    risk_score: riskScore,
+    recommendations: Array.from(new Set(recommendations)),
+    optimization_notes: notes,
+  }
+}
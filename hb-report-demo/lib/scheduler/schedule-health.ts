@@ -0,0 +1,215 @@
+// lib/scheduler/schedule-health.ts
+import type {
+  CpmResult,
+  ScheduleActivity,
+  ScheduleHealthCategory,
+  ScheduleHealthReport,
+  ScheduleLogicIssue,
+  ScheduleLogicIssueType,
+} from "@/types/scheduler"
+import { runCriticalPath } from "@/lib/scheduler/critical-path"
+
+// DCMA 14-point guidance flags remaining durations over 44 working days (~60 calendar days)
+const HIGH_DURATION_DAYS = 60
+const FLOAT_TOLERANCE_DAYS = 1
+
+const severityRank = { high: 3, medium: 2, low: 1 } as const
+
+const statusFor = (score: number): ScheduleHealthCategory["status"] => {
+  if (score >= 90) return "excellent"
+  if (score >= 80) return "good"
+  if (score >= 70) return "fair"
+  return "poor"
+}
+
+const percentOk = (failing: number, total: number) => (total === 0 ? 100 : Math.round(((total - failing) / total) * 100))
+
+/**
+ * Turns the CPM result into the individual logic issues shown on the Health Analysis tab.
+ * The earliest open start and latest open finish are the project start/finish and are
+ * not reported.
+ */
+export function detectLogicIssues(activities: ScheduleActivity[], cpm: CpmResult): ScheduleLogicIssue[] {
+  const byId = new Map(activities.map((a) => [a.activity_id, a]))
+  const cpmById = new Map(cpm.activities.map((a) => [a.activity_id, a]))
+  const issues: Omit<ScheduleLogicIssue, "id">[] = []
+
+  const add = (activityId: string, issue: Omit<ScheduleLogicIssue, "id" | "activity_id" | "activity">) => {
+    issues.push({ activity_id: activityId, activity: byId.get(activityId)?.activity_name ?? activityId, ...issue })
+  }
+
+  const projectStartId = cpm.open_starts.find((id) => cpmById.get(id)!.early_start === cpm.project_start)
+  const projectFinishId = cpm.open_finishes.find((id) => cpmById.get(id)!.early_finish === cpm.project_finish)
+
+  cpm.open_starts
+    .filter((id) => id !== projectStartId)
+    .forEach((id) =>
+      add(id, {
+        severity: "high",
+        type: "Open Start",
+        description: "Activity has no predecessor relationships defined",
+        impact: "Activity floats to the project start and can hide delays",
+        recommendation: "Tie to the driving predecessor activity",
+      }),
+    )
+
+  cpm.open_finishes
+    .filter((id) => id !== projectFinishId)
+    .forEach((id) =>
+      add(id, {
+        severity: "high",
+        type: "Open Finish",
+        description: "Activity has no successor relationships defined",
+        impact: "Slippage will not push the project finish date",
+        recommendation: "Tie to a downstream activity or the completion milestone",
+      }),
+    )
+
+  cpm.logic_loops.forEach((loop) =>
+    loop.forEach((id) =>
+      add(id, {
+        severity: "high",
+        type: "Logic Loop",
+        description: `Circular dependency through ${loop.join(" → ")}`,
+        impact: "Schedule calculation failure",
+        recommendation: "Break the loop by removing one of the circular relationships",
+      }),
+    ),
+  )
+
+  cpm.missing_references.forEach(({ activity_id, reference }) =>
+    add(activity_id, {
+      severity: "medium",
+      type: "Missing Reference",
+      description: `Relationship references unknown activity ${reference}`,
+      impact: "Relationship ignored in critical path calculation",
+      recommendation: "Remove the relationship or restore the missing activity",
+    }),
+  )
+
+  cpm.activities.forEach((result) => {
+    const activity = byId.get(result.activity_id)!
+
+    if (result.total_float < 0) {
+      add(result.activity_id, {
+        severity: "high",
+        type: "Negative Float",
+        description: `Calculated total float is ${result.total_float} days`,
+        impact: "Activity cannot finish in time to support the project finish",
+        recommendation: "Re-sequence or recover the driving path",
+      })
+    }
+
+    // Float means nothing once an activity is complete
+    if (activity.status !== "Completed" && Math.abs(result.total_float - result.reported_total_float) > FLOAT_TOLERANCE_DAYS) {
+      add(result.activity_id, {
+        severity: "low",
+        type: "Float Mismatch",
+        description: `Reported total float ${result.reported_total_float}d differs from calculated ${result.total_float}d`,
+        impact: "Exported float does not match the activity logic",
+        recommendation: "Reschedule the file in the source tool before export",
+      })
+    }
+
+    if (result.duration > HIGH_DURATION_DAYS) {
+      add(result.activity_id, {
+        severity: "medium",
+        type: "Unusual Duration",
+        description: `${result.duration} day duration exceeds the ${HIGH_DURATION_DAYS} day guideline`,
+        impact: "Long activities are hard to status and mask progress",
+        recommendation: "Break the activity into smaller measurable pieces",
+      })
+    }
+
+    if (activity.status !== "Not Started") {
+      const unstartedPredecessor = activity.predecessors.find((p) => byId.get(p)?.status === "Not Started")
+      if (unstartedPredecessor) {
+        add(result.activity_id, {
+          severity: "medium",
+          type: "Progress Out of Sequence",
+          description: `Activity is ${activity.status.toLowerCase()} while predecessor ${unstartedPredecessor} has not started`,
+          impact: "Retained logic may overstate remaining duration",
+          recommendation: "Update predecessor progress or revise the relationship",
+        })
+      }
+    }
+  })
+
+  return issues
+    .sort((a, b) => severityRank[b.severity] - severityRank[a.severity])
+    .map((issue, index) => ({ id: `LI${String(index + 1).padStart(3, "0")}`, ...issue }))
+}
+
+const durationBuckets: { range: string; concern: ScheduleHealthReport["durationDistribution"][number]["concern"]; test: (d: number) => boolean }[] = [
+  { range: "< 1 day", concern: "low", test: (d) => d < 1 },
+  { range: "1-5 days", concern: "optimal", test: (d) => d >= 1 && d <= 5 },
+  { range: "6-20 days", concern: "optimal", test: (d) => d >= 6 && d <= 20 },
+  { range: "21-60 days", concern: "review", test: (d) => d >= 21 && d <= 60 },
+  { range: "> 60 days", concern: "high", test: (d) => d > 60 },
+]
+
+/**
+ * Scores a project schedule from its own logic. Each category is the share of activities
+ * that pass the corresponding check.
+ */
+export function analyzeScheduleHealth(activities: ScheduleActivity[]): ScheduleHealthReport & { cpm: CpmResult } {
+  const cpm = runCriticalPath(activities)
+  const issues = detectLogicIssues(activities, cpm)
+  const total = activities.length
+
+  const activitiesFailing = (...types: ScheduleLogicIssueType[]) =>
+    new Set(issues.filter((i) => types.includes(i.type)).map((i) => i.activity_id)).size
+
+  // Completed work drops off the critical path, so it may start at any activity whose
+  // predecessors are all done
+  const byId = new Map(activities.map((a) => [a.activity_id, a]))
+  const criticalPathConnected =
+    cpm.critical_path.length > 0 &&
+    cpm.critical_path.some((id) => byId.get(id)!.predecessors.every((p) => byId.get(p)?.status !== "Not Started" && byId.get(p)?.status !== "In Progress")) &&
+    cpm.open_finishes.some((id) => cpm.critical_path.includes(id))
+
+  const scores: [string, number][] = [
+    ["Logic Integrity", percentOk(activitiesFailing("Open Start", "Open Finish", "Logic Loop", "Missing Reference"), total)],
+    ["Constraint Validity", percentOk(activitiesFailing("Negative Float"), total)],
+    ["Duration Reasonableness", percentOk(activitiesFailing("Unusual Duration"), total)],
+    ["Float Accuracy", percentOk(activitiesFailing("Float Mismatch"), total)],
+    ["Critical Path Continuity", criticalPathConnected ? 100 : cpm.critical_path.length > 0 ? 60 : 0],
+    ["Progress Integrity", percentOk(activitiesFailing("Progress Out of Sequence"), total)],
+  ]
+
+  const categories = scores.map(([category, score]) => ({ category, score, maxScore: 100, status: statusFor(score) }))
+  const overallScore = categories.length
+    ? Math.round(categories.reduce((sum, c) => sum + c.score, 0) / categories.length)
+    : 0
+
+  const cpmById = new Map(cpm.activities.map((a) => [a.activity_id, a]))
+  const grouped = new Map<string, ScheduleLogicIssue[]>()
+  issues.forEach((issue) => grouped.set(issue.activity_id, [...(grouped.get(issue.activity_id) ?? []), issue]))
+
+  const activitiesWithIssues = Array.from(grouped.entries())
+    .map(([id, activityIssues]) => {
+      const result = cpmById.get(id)
+      const severity = activityIssues.reduce<"high" | "medium" | "low">(
+        (worst, i) => (severityRank[i.severity] > severityRank[worst] ? i.severity : worst),
+        "low",
+      )
+      const penalty = activityIssues.reduce((sum, i) => sum + (i.severity === "high" ? 25 : i.severity === "medium" ? 15 : 5), 0)
+      return {
+        id,
+        name: activityIssues[0].activity,
+        issues: Array.from(new Set(activityIssues.map((i) => i.type))),
+        severity,
+        daysImpact: result ? Math.max(-result.total_float, Math.abs(result.total_float - result.reported_total_float), 0) : 0,
+        healthScore: Math.max(0, 100 - penalty),
+      }
+    })
+    .sort((a, b) => a.healthScore - b.healthScore || b.daysImpact - a.daysImpact)
+
+  const durations = cpm.activities.map((a) => a.duration)
+  const durationDistribution = durationBuckets.map(({ range, concern, test }) => {
+    const count = durations.filter(test).length
+    return { range, count, percentage: total ? Math.round((count / total) * 100) : 0, concern }
+  })
+
+  return { overallScore, categories, issues, activitiesWithIssues, durationDistribution, cpm }
+}
@@ -0,0 +1,421 @@
+// lib/scheduler/schedule-import.ts
+import type {
+  ScheduleActivity,
+  ScheduleImportError,
+  ScheduleImportFormat,
+  ScheduleImportResult,
+} from "@/types/scheduler"
+
+// P6 and MS Project store float in hours / tenths of minutes on an 8-hour day
+const HOURS_PER_DAY = 8
+const MSP_DURATION_UNITS_PER_DAY = HOURS_PER_DAY * 60 * 10
+
+const XER_TASK_TYPES: Record<string, string> = {
+  TT_Task: "Task Dependent",
+  TT_Rsrc: "Resource Dependent",
+  TT_LOE: "Level of Effort",
+  TT_Mile: "Milestone",
+  TT_FinMile: "Milestone",
+  TT_WBS: "WBS Summary",
+}
+
+const XER_STATUS: Record<string, string> = {
+  TK_NotStart: "Not Started",
+  TK_Active: "In Progress",
+  TK_Complete: "Completed",
+}
+
+type ImportedRow = {
+  row: number
+  activity: Omit<ScheduleActivity, "successors">
+}
+
+const toIsoDate = (value?: string | null) => {
+  const match = value?.trim().match(/^(\d{4}-\d{2}-\d{2})/)
+  if (!match) return null
+  return Number.isNaN(new Date(match[1]).getTime()) ? null : match[1]
+}
+
+const firstDate = (...values: (string | undefined)[]) => {
+  for (const value of values) {
+    const date = toIsoDate(value)
+    if (date) return date
+  }
+  return null
+}
+
+export function detectScheduleFormat(fileName: string): ScheduleImportFormat | null {
+  const extension = fileName.toLowerCase().split(".").pop()
+  switch (extension) {
+    case "xer":
+      return "XER"
+    case "xml":
+      return "XML"
+    case "csv":
+      return "CSV"
+    case "mpp":
+      return "MPP"
+    default:
+      return null
+  }
+}
+
+/**
+ * Splits an XER export into its tables. Each table is a %T line followed by a %F header
+ * and any number of %R rows; the original line number is kept for error reporting.
+ */
+function readXerTables(text: string) {
+  const tables = new Map<string, { line: number; values: Record<string, string> }[]>()
+  let table: string | null = null
+  let fields: string[] = []
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const [marker, ...cells] = raw.split("\t")
+    switch (marker) {
+      case "%T":
+        table = cells[0]
+        fields = []
+        tables.set(table, [])
+        break
+      case "%F":
+        fields = cells
+        break
+      case "%R":
+        if (!table) break
+        tables.get(table)!.push({
+          line: index + 1,
+          values: Object.fromEntries(fields.map((field, i) => [field, cells[i] ?? ""])),
+        })
+        break
+    }
+  })
+
+  return tables
+}
+
+export function parseXer(text: string, projectId: number): { rows: ImportedRow[]; errors: ScheduleImportError[]; projectName?: string } {
+  const errors: ScheduleImportError[] = []
+  if (!text.startsWith("ERMHDR")) {
+    errors.push({ row: 1, message: "Missing ERMHDR header; file is not a Primavera XER export", severity: "error" })
+    return { rows: [], errors }
+  }
+
+  const tables = readXerTables(text)
+  const tasks = tables.get("TASK") ?? []
+  if (tasks.length === 0) {
+    errors.push({ row: 1, message: "XER file contains no TASK table", severity: "error" })
+    return { rows: [], errors }
+  }
+
+  // Build dotted WBS codes by walking up PROJWBS until the project node
+  const wbsNodes = new Map((tables.get("PROJWBS") ?? []).map((r) => [r.values.wbs_id, r.values]))
+  const wbsCode = (wbsId: string) => {
+    const parts: string[] = []
+    let node = wbsNodes.get(wbsId)
+    while (node && node.proj_node_flag !== "Y" && parts.length < 20) {
+      parts.unshift(node.wbs_short_name)
+      node = wbsNodes.get(node.parent_wbs_id)
+    }
+    return parts.join(".")
+  }
+
+  const codeByTaskId = new Map(tasks.map((t) => [t.values.task_id, t.values.task_code]))
+  const predecessors = new Map<string, string[]>()
+  ;(tables.get("TASKPRED") ?? []).forEach(({ line, values }) => {
+    const successor = codeByTaskId.get(values.task_id)
+    const predecessor = codeByTaskId.get(values.pred_task_id)
+    if (!successor || !predecessor) {
+      errors.push({ row: line, field: "pred_task_id", message: "Relationship references a task outside this export", severity: "warning" })
+      return
+    }
+    if (values.pred_type && values.pred_type !== "PR_FS") {
+      errors.push({
+        row: line,
+        activity_id: successor,
+        field: "pred_type",
+        message: `${values.pred_type.replace("PR_", "")} relationship to ${predecessor} treated as finish-to-start`,
+        severity: "warning",
+      })
+    }
+    if (Number(values.lag_hr_cnt || 0) !== 0) {
+      errors.push({
+        row: line,
+        activity_id: successor,
+        field: "lag_hr_cnt",
+        message: `Lag of ${values.lag_hr_cnt}h to ${predecessor} ignored`,
+        severity: "warning",
+      })
+    }
+    predecessors.set(successor, [...(predecessors.get(successor) ?? []), predecessor])
+  })
+
+  const rows: ImportedRow[] = []
+  tasks.forEach(({ line, values }) => {
+    if (values.task_type === "TT_WBS") return
+    const start = firstDate(values.act_start_date, values.early_start_date, values.restart_date, values.target_start_date)
+    const end = firstDate(values.act_end_date, values.early_end_date, values.reend_date, values.target_end_date)
+    rows.push({
+      row: line,
+      activity: {
+        project_id: projectId,
+        activity_id: values.task_code,
+        activity_name: values.task_name,
+        wbs_code: wbsCode(values.wbs_id),
+        activity_type: XER_TASK_TYPES[values.task_type] ?? "Task Dependent",
+        status: XER_STATUS[values.status_code] ?? "Not Started",
+        primary_base_start_date: toIsoDate(values.target_start_date) ?? start ?? "",
+        primary_base_end_date: toIsoDate(values.target_end_date) ?? end ?? "",
+        start_date: start ?? "",
+        end_date: end ?? "",
+        predecessors: predecessors.get(values.task_code) ?? [],
+        total_float: Math.round(Number(values.total_float_hr_cnt || 0) / HOURS_PER_DAY),
+        free_float: Math.round(Number(values.free_float_hr_cnt || 0) / HOURS_PER_DAY),
+      },
+    })
+  })
+
+  return { rows, errors, projectName: tables.get("PROJECT")?.[0]?.values.proj_short_name }
+}
+
+const childText = (parent: Element, name: string) => {
+  for (const node of Array.from(parent.children)) {
+    if (node.localName === name) return node.textContent?.trim() ?? ""
+  }
+  return ""
+}
+
+const children = (parent: Element, name: string) => Array.from(parent.children).filter((node) => node.localName === name)
+
+export function parseMsProjectXml(text: string, projectId: number): { rows: ImportedRow[]; errors: ScheduleImportError[]; projectName?: string } {
+  const errors: ScheduleImportError[] = []
+  const doc = new DOMParser().parseFromString(text, "application/xml")
+  const root = doc.documentElement
+
+  if (doc.getElementsByTagName("parsererror").length > 0 || root.localName !== "Project") {
+    errors.push({ row: 1, message: "File is not a valid MS Project XML export", severity: "error" })
+    return { rows: [], errors }
+  }
+
+  const taskContainer = children(root, "Tasks")[0]
+  const tasks = taskContainer ? children(taskContainer, "Task") : []
+  const idByUid = new Map(tasks.map((task) => [childText(task, "UID"), childText(task, "ID")]))
+
+  const rows: ImportedRow[] = []
+  tasks.forEach((task, index) => {
+    const row = index + 1
+    const uid = childText(task, "UID")
+    if (uid === "0" || childText(task, "Summary") === "1") return
+
+    const activityId = childText(task, "ID")
+    const baseline = children(task, "Baseline").find((b) => childText(b, "Number") === "0")
+    const percent = Number(childText(task, "PercentComplete") || 0)
+    const start = firstDate(childText(task, "ActualStart"), childText(task, "Start"))
+    const end = firstDate(childText(task, "ActualFinish"), childText(task, "Finish"))
+
+    const predecessorIds: string[] = []
+    children(task, "PredecessorLink").forEach((link) => {
+      const predecessor = idByUid.get(childText(link, "PredecessorUID"))
+      if (!predecessor) {
+        errors.push({ row, activity_id: activityId, field: "PredecessorUID", message: "Predecessor is not in this export", severity: "warning" })
+        return
+      }
+      const type = childText(link, "Type")
+      if (type && type !== "1") {
+        const names: Record<string, string> = { "0": "FF", "2": "SF", "3": "SS" }
+        errors.push({
+          row,
+          activity_id: activityId,
+          field: "Type",
+          message: `${names[type] ?? type} relationship to ${predecessor} treated as finish-to-start`,
+          severity: "warning",
+        })
+      }
+      if (Number(childText(link, "LinkLag") || 0) !== 0) {
+        errors.push({ row, activity_id: activityId, field: "LinkLag", message: `Lag to ${predecessor} ignored`, severity: "warning" })
+      }
+      predecessorIds.push(predecessor)
+    })
+
+    rows.push({
+      row,
+      activity: {
+        project_id: projectId,
+        activity_id: activityId,
+        activity_name: childText(task, "Name"),
+        wbs_code: childText(task, "WBS") || childText(task, "OutlineNumber"),
+        activity_type: childText(task, "Milestone") === "1" ? "Milestone" : "Task Dependent",
+        status: percent >= 100 ? "Completed" : percent > 0 ? "In Progress" : "Not Started",
+        primary_base_start_date: (baseline && toIsoDate(childText(baseline, "Start"))) || start || "",
+        primary_base_end_date: (baseline && toIsoDate(childText(baseline, "Finish"))) || end || "",
+        start_date: start ?? "",
+        end_date: end ?? "",
+        predecessors: predecessorIds,
+        total_float: Math.round(Number(childText(task, "TotalSlack") || 0) / MSP_DURATION_UNITS_PER_DAY),
+        free_float: Math.round(Number(childText(task, "FreeSlack") || 0) / MSP_DURATION_UNITS_PER_DAY),
+      },
+    })
+  })
+
+  if (tasks.length === 0) {
+    errors.push({ row: 1, message: "MS Project XML contains no tasks", severity: "error" })
+  }
+
+  return { rows, errors, projectName: childText(root, "Title") || childText(root, "Name") || undefined }
+}
+
+const splitCsvLine = (line: string) => {
+  const cells: string[] = []
+  let current = ""
+  let quoted = false
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (char === '"' && quoted && line[i + 1] === '"') {
+      current += '"'
+      i++
+    } else if (char === '"') {
+      quoted = !quoted
+    } else if (char === "," && !quoted) {
+      cells.push(current.trim())
+      current = ""
+    } else {
+      current += char
+    }
+  }
+  cells.push(current.trim())
+  return cells
+}
+
+/**
+ * CSV imports use the schedule.json column names. Predecessor lists are separated by
+ * semicolons or spaces.
+ */
+export function parseScheduleCsv(text: string, projectId: number): { rows: ImportedRow[]; errors: ScheduleImportError[]; projectName?: string } {
+  const errors: ScheduleImportError[] = []
+  const lines = text.split(/\r?\n/)
+  const header = splitCsvLine(lines[0] ?? "").map((h) => h.toLowerCase())
+
+  const missing = ["activity_id", "activity_name", "start_date", "end_date"].filter((column) => !header.includes(column))
+  if (missing.length > 0) {
+    errors.push({ row: 1, message: `Missing required column(s): ${missing.join(", ")}`, severity: "error" })
+    return { rows: [], errors }
+  }
+
+  const rows: ImportedRow[] = []
+  lines.slice(1).forEach((line, index) => {
+    if (!line.trim()) return
+    const values = Object.fromEntries(splitCsvLine(line).map((cell, i) => [header[i], cell]))
+    const start = toIsoDate(values.start_date) ?? ""
+    const end = toIsoDate(values.end_date) ?? ""
+    rows.push({
+      row: index + 2,
+      activity: {
+        project_id: projectId,
+        activity_id: values.activity_id,
+        activity_name: values.activity_name,
+        wbs_code: values.wbs_code ?? "",
+        activity_type: values.activity_type || "Task Dependent",
+        status: values.status || "Not Started",
+        primary_base_start_date: toIsoDate(values.primary_base_start_date) ?? start,
+        primary_base_end_date: toIsoDate(values.primary_base_end_date) ?? end,
+        start_date: start,
+        end_date: end,
+        predecessors: (values.predecessors ?? "").split(/[;\s]+/).filter(Boolean),
+        total_float: Number(values.total_float || 0),
+        free_float: Number(values.free_float || 0),
+      },
+    })
+  })
+
+  return { rows, errors }
+}
+
+/**
+ * Row-level checks shared by every format. Rows that cannot be scheduled (no id, no valid
+ * dates, duplicate ids) are dropped; successors are rebuilt from the predecessor lists.
+ */
+function validateRows(rows: ImportedRow[], errors: ScheduleImportError[]): ScheduleActivity[] {
+  const seen = new Set<string>()
+  const valid: ImportedRow[] = []
+
+  rows.forEach(({ row, activity }) => {
+    const reject = (field: string, message: string) =>
+      errors.push({ row, activity_id: activity.activity_id || undefined, field, message, severity: "error" })
+
+    if (!activity.activity_id) return reject("activity_id", "Activity ID is required")
+    if (seen.has(activity.activity_id)) return reject("activity_id", `Duplicate activity ID ${activity.activity_id}`)
+    if (!activity.start_date) return reject("start_date", "Missing or invalid start date")
+    if (!activity.end_date) return reject("end_date", "Missing or invalid finish date")
+    if (activity.end_date < activity.start_date) return reject("end_date", "Finish date is before start date")
+    if (!activity.activity_name) {
+      errors.push({ row, activity_id: activity.activity_id, field: "activity_name", message: "Activity has no name", severity: "warning" })
+    }
+
+    seen.add(activity.activity_id)
+    valid.push({ row, activity })
+  })
+
+  const successors = new Map<string, string[]>()
+  valid.forEach(({ row, activity }) => {
+    activity.predecessors = activity.predecessors.filter((p) => {
+      if (seen.has(p)) return true
+      errors.push({
+        row,
+        activity_id: activity.activity_id,
+        field: "predecessors",
+        message: `Predecessor ${p} was not imported; relationship removed`,
+        severity: "warning",
+      })
+      return false
+    })
+    activity.predecessors.forEach((p) => successors.set(p, [...(successors.get(p) ?? []), activity.activity_id]))
+  })
+
+  return valid.map(({ activity }) => ({ ...activity, successors: successors.get(activity.activity_id) ?? [] }))
+}
+
+/**
+ * Parses a schedule export into schedule.json-shaped activities. Never throws: problems
+ * are returned per row so the user can see which activities were skipped and why.
+ */
+export function importScheduleText(fileName: string, text: string, projectId: number): ScheduleImportResult {
+  const format = detectScheduleFormat(fileName)
+  const result: ScheduleImportResult = {
+    file_name: fileName,
+    format: format ?? "CSV",
+    activities: [],
+    errors: [],
+    imported_at: new Date().toISOString(),
+  }
+
+  if (!format) {
+    result.errors.push({ row: 0, message: "Unsupported file type", severity: "error" })
+    return result
+  }
+  if (format === "MPP") {
+    result.errors.push({
+      row: 0,
+      message: "Binary .mpp files cannot be read in the browser; save as XML from MS Project and upload that instead",
+      severity: "error",
+    })
+    return result
+  }
+
+  // Exports saved from Windows tools often carry a byte order mark
+  text = text.replace(/^\uFEFF/, "")
+
+  const parsed =
+    format === "XER"
+      ? parseXer(text, projectId)
+      : format === "XML"
+        ? parseMsProjectXml(text, projectId)
+        : parseScheduleCsv(text, projectId)
+
+  result.errors.push(...parsed.errors)
+  result.project_name = parsed.projectName
+  result.activities = validateRows(parsed.rows, result.errors)
+  return result
+}
+
+export async function importScheduleFile(file: File, projectId: number): Promise<ScheduleImportResult> {
+  return importScheduleText(file.name, await file.text(), projectId)
+}
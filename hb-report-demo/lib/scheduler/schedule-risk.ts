@@ -0,0 +1,205 @@
+// lib/scheduler/schedule-risk.ts
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns"
+import type {
+  ScheduleActivity,
+  ScheduleRiskDriver,
+  ScheduleRiskOptions,
+  ScheduleRiskResult,
+  SchedulerRisk,
+  ThreePointEstimate,
+} from "@/types/scheduler"
+import { getActivityDuration, getNetworkOrder, runCriticalPath } from "@/lib/scheduler/critical-path"
+import riskRegister from "@/data/mock/schedule/schedule-risks.json"
+
+const HISTOGRAM_BINS = 20
+const DRIVER_COUNT = 10
+
+// Chance a risk event occurs in an iteration, by rated probability
+const PROBABILITY = { Low: 0.1, Medium: 0.3, High: 0.6 } as const
+// Share of each affected activity's duration added when the event occurs, by rated impact
+const IMPACT = { Low: 0.05, Medium: 0.15, High: 0.3 } as const
+
+export const defaultRiskOptions: ScheduleRiskOptions = {
+  iterations: 1000,
+  seed: 1,
+  optimistic_factor: 0.9,
+  pessimistic_factor: 1.3,
+}
+
+/**
+ * The standard schedule risk register applied to a project: each risk affects the
+ * activities in the WBS areas it lists.
+ */
+export function buildProjectRisks(activities: ScheduleActivity[]): SchedulerRisk[] {
+  return riskRegister
+    .map(({ wbs_prefixes, ...risk }) => ({
+      ...(risk as Omit<SchedulerRisk, "affected_tasks">),
+      affected_tasks: activities.filter((a) => wbs_prefixes.some((prefix) => a.wbs_code.startsWith(prefix))).map((a) => a.activity_id),
+    }))
+    .filter((risk) => risk.affected_tasks.length > 0)
+}
+
+// Seeded PRNG (mulberry32) so the same inputs always give the same distribution
+function createRandom(seed: number) {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function sampleTriangular({ optimistic: a, most_likely: m, pessimistic: b }: ThreePointEstimate, u: number) {
+  if (b <= a) return m
+  const c = (m - a) / (b - a)
+  return u < c ? a + Math.sqrt(u * (b - a) * (m - a)) : b - Math.sqrt((1 - u) * (b - a) * (b - m))
+}
+
+function correlation(xs: Float64Array, ys: Float64Array) {
+  const n = xs.length
+  let sx = 0, sy = 0
+  for (let i = 0; i < n; i++) {
+    sx += xs[i]
+    sy += ys[i]
+  }
+  const mx = sx / n
+  const my = sy / n
+  let cov = 0, vx = 0, vy = 0
+  for (let i = 0; i < n; i++) {
+    cov += (xs[i] - mx) * (ys[i] - my)
+    vx += (xs[i] - mx) ** 2
+    vy += (ys[i] - my) ** 2
+  }
+  return vx === 0 || vy === 0 ? 0 : cov / Math.sqrt(vx * vy)
+}
+
+/**
+ * Monte Carlo simulation over the CPM network. Each iteration samples every open activity's
+ * duration from its three-point estimate, applies the risk events that occur as added
+ * duration on their affected activities and runs a forward pass in calendar days, holding
+ * completed work and actual starts as the CPM engine does. Drivers are the activities whose
+ * sampled duration correlates most strongly with the project finish.
+ */
+export function simulateScheduleRisk(
+  activities: ScheduleActivity[],
+  risks: SchedulerRisk[] = buildProjectRisks(activities),
+  options: ScheduleRiskOptions = defaultRiskOptions,
+): ScheduleRiskResult | null {
+  if (activities.length === 0 || options.iterations < 1) return null
+
+  const random = createRandom(options.seed)
+  const byId = new Map(activities.map((a) => [a.activity_id, a]))
+  const network = getNetworkOrder(activities)
+  const { looped, order } = network
+  const preds = new Map(order.map((id) => [id, Array.from(network.preds.get(id)!)]))
+  const origin = parseISO(activities.reduce((min, a) => (a.start_date < min ? a.start_date : min), activities[0].start_date))
+  const offsetOf = (date: string) => differenceInCalendarDays(parseISO(date), origin)
+  const toDate = (offset: number) => format(addDays(origin, Math.ceil(offset)), "yyyy-MM-dd")
+
+  const baseDuration = new Map(activities.map((a) => [a.activity_id, getActivityDuration(a)]))
+  const estimateOf = (id: string): ThreePointEstimate => {
+    const d = baseDuration.get(id)!
+    return options.estimates?.[id] ?? { optimistic: d * options.optimistic_factor, most_likely: d, pessimistic: d * options.pessimistic_factor }
+  }
+  const estimates = new Map(order.map((id) => [id, estimateOf(id)]))
+  const isOpen = (id: string) => byId.get(id)!.status !== "Completed" && !looped.has(id)
+
+  const samples = new Map(order.filter(isOpen).map((id) => [id, new Float64Array(options.iterations)]))
+  const finishes = new Float64Array(options.iterations)
+  const occurred = risks.map(() => new Uint8Array(options.iterations))
+  const ef = new Map<string, number>()
+
+  // Looped and completed activities keep their own dates in every iteration
+  activities
+    .filter((a) => !isOpen(a.activity_id))
+    .forEach((a) => ef.set(a.activity_id, offsetOf(a.start_date) + baseDuration.get(a.activity_id)!))
+
+  for (let i = 0; i < options.iterations; i++) {
+    const delay = new Map<string, number>()
+    risks.forEach((risk, r) => {
+      if (random() >= PROBABILITY[risk.probability]) return
+      occurred[r][i] = 1
+      risk.affected_tasks.forEach((id) => {
+        if (samples.has(id)) delay.set(id, (delay.get(id) ?? 0) + baseDuration.get(id)! * IMPACT[risk.impact])
+      })
+    })
+
+    let finish = 0
+    order.forEach((id) => {
+      const activity = byId.get(id)!
+      if (!isOpen(id)) {
+        finish = Math.max(finish, ef.get(id)!)
+        return
+      }
+      const duration = sampleTriangular(estimates.get(id)!, random()) + (delay.get(id) ?? 0)
+      samples.get(id)![i] = duration
+      const driving = preds.get(id)!.map((p) => ef.get(p) ?? 0)
+      const start = activity.status === "Not Started" ? (driving.length > 0 ? Math.max(...driving) : 0) : offsetOf(activity.start_date)
+      ef.set(id, start + duration)
+      finish = Math.max(finish, start + duration)
+    })
+    looped.forEach((id) => (finish = Math.max(finish, ef.get(id)!)))
+    finishes[i] = finish
+  }
+
+  const sorted = Array.from(finishes).sort((a, b) => a - b)
+  const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)]
+  const deterministic = runCriticalPath(activities)
+  const deterministicOffset = offsetOf(deterministic.project_finish)
+
+  // Histogram of completion dates in equal calendar-day bins
+  const low = Math.ceil(sorted[0])
+  const high = Math.ceil(sorted[sorted.length - 1])
+  const width = Math.max(1, Math.ceil((high - low + 1) / HISTOGRAM_BINS))
+  const counts = new Array(Math.ceil((high - low + 1) / width)).fill(0)
+  sorted.forEach((f) => counts[Math.min(counts.length - 1, Math.floor((Math.ceil(f) - low) / width))]++)
+  let running = 0
+  const histogram = counts.map((count, bin) => {
+    running += count
+    return { finish: toDate(low + (bin + 1) * width - 1), count, cumulative: Math.round((running / sorted.length) * 100) }
+  })
+
+  const drivers: ScheduleRiskDriver[] = Array.from(samples.entries())
+    .map(([id, values]) => ({
+      activity_id: id,
+      activity_name: byId.get(id)!.activity_name,
+      base_duration: baseDuration.get(id)!,
+      mean_duration: Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10,
+      correlation: Math.round(correlation(values, finishes) * 100) / 100,
+    }))
+    .filter((d) => d.correlation !== 0)
+    .sort((a, b) => Math.abs(b.correlation) - Math.abs(a.correlation))
+    .slice(0, DRIVER_COUNT)
+
+  return {
+    iterations: options.iterations,
+    deterministic_finish: deterministic.project_finish,
+    p50: toDate(percentile(0.5)),
+    p80: toDate(percentile(0.8)),
+    p90: toDate(percentile(0.9)),
+    mean_finish: toDate(sorted.reduce((sum, f) => sum + f, 0) / sorted.length),
+    earliest_finish: toDate(sorted[0]),
+    latest_finish: toDate(sorted[sorted.length - 1]),
+    on_time_probability: Math.round((sorted.filter((f) => Math.ceil(f) <= deterministicOffset).length / sorted.length) * 100),
+    histogram,
+    drivers,
+    // Finish impact: mean finish in iterations where the event occurred less mean finish where it didn't
+    risk_events: risks.map((risk, r) => {
+      const hit = { count: 0, total: 0 }
+      const miss = { count: 0, total: 0 }
+      finishes.forEach((f, i) => {
+        const bucket = occurred[r][i] ? hit : miss
+        bucket.count++
+        bucket.total += f
+      })
+      return {
+        risk_id: risk.risk_id,
+        description: risk.description,
+        occurrence_rate: Math.round((hit.count / options.iterations) * 100),
+        finish_impact_days: hit.count && miss.count ? Math.round((hit.total / hit.count - miss.total / miss.count) * 10) / 10 : 0,
+      }
+    }),
+  }
+}
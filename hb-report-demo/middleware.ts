@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server"
+import { SESSION_COOKIE, verifySessionToken } from "@/lib/auth/session"
+import { getHomeRoute, getRequestedProject } from "@/lib/auth/access"
+import { hasPermission, moduleForPath } from "@/lib/auth/permissions"
+
+/**
+ * Route guard: every matched page and API call needs a valid session, and pages need the
+ * view grant for their module (for the requested project, if any). API routes check their
+ * own module grants against the current permission matrix. Calendar feeds authenticate
+ * themselves, since subscribing calendar apps send a feed token rather than the cookie.
+ */
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl
+  const isApi = pathname.startsWith("/api/")
+  if (pathname.startsWith("/api/auth/") || pathname.startsWith("/api/calendar/")) return NextResponse.next()
+
+  const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value)
+  if (!session) {
+    if (isApi) return NextResponse.json({ error: "Authentication required" }, { status: 401 })
+    const login = new URL("/login", request.url)
+    login.searchParams.set("next", pathname)
+    return NextResponse.redirect(login)
+  }
+
+  if (isApi) return NextResponse.next()
+
+  const pageModule = moduleForPath(pathname)
+  if (!pageModule || hasPermission(session.grants, session.projects, pageModule, "view", getRequestedProject(request.nextUrl))) {
+    return NextResponse.next()
+  }
+  return NextResponse.redirect(new URL(getHomeRoute(session.role), request.url))
+}
+
+export const config = {
+  matcher: [
+    "/dashboard/:path*",
+    "/operations/:path*",
+    "/responsibility-matrix/:path*",
+    "/pre-con/:path*",
+    "/projects/:path*",
+    "/estimating/:path*",
+    "/api/:path*",
+  ],
+}
@@ -0,0 +1,158 @@
+// scripts/mock-api-server.mjs
+//
+// Local backend for the REST and GraphQL data adapters, served from data/mock.
+//
+//   node scripts/mock-api-server.mjs            (PORT defaults to 4000)
+//   NEXT_PUBLIC_DATA_SOURCE=rest    NEXT_PUBLIC_DATA_URL=http://localhost:4000/api
+//   NEXT_PUBLIC_DATA_SOURCE=graphql NEXT_PUBLIC_DATA_URL=http://localhost:4000/graphql
+//
+// Subscriptions are not served here; the GraphQL adapter only subscribes when
+// NEXT_PUBLIC_DATA_WS_URL is set.
+import { createServer } from "node:http"
+import { readFile } from "node:fs/promises"
+import { dirname, join } from "node:path"
+import { fileURLToPath } from "node:url"
+import { buildSchema, graphql } from "graphql"
+
+const MOCK_DIR = join(dirname(fileURLToPath(import.meta.url)), "..", "data", "mock")
+const PORT = Number(process.env.PORT ?? 4000)
+
+// Mirrors lib/data/adapters/mock-adapter.ts
+const resources = {
+  projects: { files: ["projects.json"], idKey: "project_id", projectKey: "project_id" },
+  budget: { files: ["financial/budget.json"], idKey: ["project_id", "Budget Code"], projectKey: "project_id" },
+  commitments: { files: ["contracts/commitments.json"], idKey: "Number", projectKey: "project_id" },
+  "prime-contracts": { files: ["contracts/prime-contracts.json"], idKey: "Number", projectKey: "project_id" },
+  "prime-contract-payments": { files: ["financial/prime-contract-payments.json"], idKey: "Invoice Number", projectKey: "project_id" },
+  "vendor-payments": { files: ["financial/vendor-payments.json"], idKey: ["Check Number", "Invoice Number"], projectKey: "project_id" },
+  "job-cost-history": { files: ["financial/jchr.json"], idKey: "project_id", projectKey: "project_id" },
+  forecasts: {
+    files: ["financial/forecast_data.json"],
+    idKey: ["project_id", "forecast_type", "cost_code", "csi_code", "csi_description", "month"],
+    projectKey: "project_id",
+  },
+  permits: { files: ["logs/permits.json"], idKey: "id", projectKey: "projectId" },
+  constraints: { files: ["logs/constraints.json"], idKey: "project_id", projectKey: "project_id" },
+  schedule: { files: ["schedule/schedule.json"], idKey: "activity_id", projectKey: "project_id" },
+  "schedule-history": { files: ["schedule/schedule_history.json"], idKey: "activity_id", projectKey: "project_id" },
+  staffing: {
+    files: ["staffing/staffing.json"],
+    idKey: "id",
+    matches: (record, projectId) => record.assignments?.some((a) => String(a.project_id) === projectId),
+  },
+  spcrs: { files: ["staffing/spcr.json"], idKey: "id", projectKey: "project_id" },
+  reports: { files: ["reports/reports.json"], idKey: "id", projectKey: "projectId", unwrap: "reports" },
+  layouts: {
+    files: [
+      "layouts/executive-layout.json",
+      "layouts/project-executive-layout.json",
+      "layouts/project-manager-layout.json",
+      "layouts/financial-review-layout.json",
+      "layouts/estimator-layout.json",
+      "layouts/admin-layout.json",
+    ],
+    idKey: "id",
+  },
+  "pay-applications": { files: ["financial/aia-pay-applications.json"], idKey: "id", projectKey: "projectId", unwrap: "applications" },
+  "role-grants": { files: ["auth/permissions.json"], idKey: "role" },
+  "retention-releases": { files: ["financial/retention-releases.json"], idKey: "id", projectKey: "projectId" },
+  "change-events": { files: ["financial/change-events.json"], idKey: "id", projectKey: "projectId" },
+  "forecast-snapshots": { files: ["financial/forecast-snapshots.json"], idKey: "id", projectKey: "projectId" },
+  "reconciliation-resolutions": { files: ["financial/reconciliation-resolutions.json"], idKey: "id", projectKey: "projectId" },
+  "sub-invoices": { files: ["financial/sub-invoices.json"], idKey: "id", projectKey: "projectId" },
+  "pay-authorizations": { files: ["financial/pay-authorizations.json"], idKey: "id", projectKey: "projectId" },
+  "daily-logs": { files: ["logs/daily-log-sample.json"], idKey: "id", projectKey: "project_id" },
+  "checklist-templates": { files: ["inspections/checklist-templates.json"], idKey: "id" },
+  "corrective-actions": { files: ["inspections/corrective-actions.json"], idKey: "id", projectKey: "projectId" },
+  "safety-incidents": { files: ["inspections/safety-incidents.json"], idKey: "id", projectKey: "projectId" },
+}
+
+// Composite ids join their fields with ":", as in mock-adapter.ts
+const recordId = (resource, record) => [resources[resource].idKey].flat().map((field) => String(record[field])).join(":")
+
+async function loadRecords(resource) {
+  const config = resources[resource]
+  if (!config) return null
+  const loaded = await Promise.all(config.files.map(async (file) => JSON.parse(await readFile(join(MOCK_DIR, file), "utf8"))))
+  if (config.unwrap) return loaded[0][config.unwrap]
+  return config.files.length === 1 ? loaded[0] : loaded
+}
+
+async function listRecords(resource, projectId) {
+  const records = await loadRecords(resource)
+  if (!records) return null
+  const config = resources[resource]
+  if (!projectId || projectId === "all") return records
+  if (config.matches) return records.filter((record) => config.matches(record, projectId))
+  if (config.projectKey) return records.filter((record) => String(record[config.projectKey]) === projectId)
+  return records
+}
+
+async function getRecord(resource, id) {
+  const records = await loadRecords(resource)
+  return records?.find((record) => recordId(resource, record) === id) ?? null
+}
+
+const schema = buildSchema(`
+  scalar JSON
+  type Query {
+    records(resource: String!, projectId: String): [JSON!]!
+    record(resource: String!, id: String!): JSON
+  }
+`)
+
+const rootValue = {
+  records: async ({ resource, projectId }) => {
+    const records = await listRecords(resource, projectId)
+    if (!records) throw new Error(`Unknown resource: ${resource}`)
+    return records
+  },
+  record: ({ resource, id }) => getRecord(resource, id),
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Content-Type",
+  })
+  res.end(JSON.stringify(body))
+}
+
+async function readBody(req) {
+  const chunks = []
+  for await (const chunk of req) chunks.push(chunk)
+  return chunks.length ? JSON.parse(Buffer.concat(chunks).toString("utf8")) : {}
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", `http://${req.headers.host}`)
+  try {
+    if (req.method === "OPTIONS") return send(res, 204, null)
+
+    if (url.pathname === "/graphql" && req.method === "POST") {
+      const { query, variables, operationName } = await readBody(req)
+      const result = await graphql({ schema, source: query, rootValue, variableValues: variables, operationName })
+      return send(res, 200, result)
+    }
+
+    // GET /api/{resource}[/{id}]
+    const [, prefix, resource, id] = url.pathname.split("/")
+    if (prefix === "api" && resource && req.method === "GET") {
+      const result = id
+        ? await getRecord(resource, decodeURIComponent(id))
+        : await listRecords(resource, url.searchParams.get("projectId"))
+      if (result === null || result === undefined) return send(res, 404, { error: "Not found" })
+      return send(res, 200, result)
+    }
+
+    send(res, 404, { error: "Not found" })
+  } catch (error) {
+    console.error(error)
+    send(res, 500, { error: error instanceof Error ? error.message : String(error) })
+  }
+})
+
+server.listen(PORT, () => {
+  console.log(`Mock data API on http://localhost:${PORT} (REST /api, GraphQL /graphql)`)
+})
@@ -13,6 +13,7 @@ export interface AiaPayApplication {
   revisedContractSum: number
 
   // Application Period
+  periodStartDate?: string
   periodEndDate: string
   applicationDate: string
 
@@ -24,6 +25,10 @@ export interface AiaPayApplication {
   retentionPercentage: number
   retentionAmount: number
   netAmountDue: number
+  // G702 line 7: line 6 of the prior certificate
+  previousPayments?: number
+  currentPaymentDue?: number
+  balanceToFinish?: number
 
   // Status and Workflow
   status: "draft" | "submitted" | "pm_approved" | "px_approved" | "executive_approved" | "rejected" | "paid"
@@ -58,6 +63,7 @@ export interface AiaPayApplication {
 export interface AiaLineItem {
   id: string
   scheduleOfValues: string
+  costCode?: string
   description: string
   scheduledValue: number
   workCompletedPrevious: number
@@ -202,6 +208,40 @@ export interface AiaAttachment {
   url: string
 }
 
+/**
+ * G702 lines 1-9 and the change order summary, derived from the G703 rows.
+ */
+export interface G702Summary {
+  originalContractSum: number
+  netChangeByChangeOrders: number
+  contractSumToDate: number
+  totalCompletedAndStored: number
+  retainageOnCompletedWork: number
+  retainageOnStoredMaterial: number
+  totalRetainage: number
+  totalEarnedLessRetainage: number
+  lessPreviousCertificates: number
+  currentPaymentDue: number
+  balanceToFinishIncludingRetainage: number
+  changeOrders: {
+    previousAdditions: number
+    previousDeductions: number
+    thisPeriodAdditions: number
+    thisPeriodDeductions: number
+  }
+}
+
+// G703 column totals, lettered as on the continuation sheet
+export interface G703Totals {
+  scheduledValue: number // C
+  fromPreviousApplication: number // D
+  thisPeriod: number // E
+  materialsPresentlyStored: number // F
+  totalCompletedAndStored: number // G
+  balanceToFinish: number // H
+  retainage: number // I
+}
+
 // Form validation schemas
 export interface AiaValidationRule {
   field: string
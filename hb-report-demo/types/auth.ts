@@ -0,0 +1,70 @@
+import type { User } from "./index"
+import type { RoleGrants } from "./permissions"
+
+export type DemoRole = "executive" | "project-executive" | "project-manager" | "estimator" | "admin"
+
+// Project assignment: a list of project ids, or every project
+export type ProjectScope = number[] | "*"
+
+/**
+ * A directory account (data/mock/auth/users.json). Passwords are stored as scrypt hashes.
+ */
+export interface UserAccount extends Omit<User, "role"> {
+  role: DemoRole
+  passwordHash: string
+  projects: ProjectScope
+}
+
+/**
+ * Standard OpenID Connect claims, plus the app's role and project assignment claims.
+ */
+export interface IdentityClaims {
+  iss: string
+  sub: string
+  email: string
+  given_name?: string
+  family_name?: string
+  picture?: string
+  hb_role?: DemoRole
+  hb_projects?: ProjectScope
+  hb_permissions?: Record<string, boolean>
+}
+
+/**
+ * Where users are authenticated. The local provider checks the hashed directory;
+ * an OIDC provider delegates to an external issuer.
+ */
+export interface IdentityProvider {
+  readonly id: string
+  authenticate(email: string, password: string): Promise<IdentityClaims | null>
+}
+
+/**
+ * What the signed session cookie carries.
+ */
+export interface SessionPayload {
+  sub: string
+  email: string
+  firstName: string
+  lastName: string
+  role: DemoRole
+  company: string
+  avatar?: string
+  permissions: Record<string, boolean>
+  projects: ProjectScope
+  // The role's grants when the session was issued; API routes re-read the current matrix
+  grants: RoleGrants
+  provider: string
+  iat: number
+  exp: number
+}
+
+/**
+ * What a calendar feed token carries: who it was issued to and the one thing it allows,
+ * viewing permits on a project. The account, its assignments and grants are re-read on
+ * each fetch.
+ */
+export interface FeedTokenPayload extends Pick<SessionPayload, "sub" | "email" | "iat" | "exp"> {
+  projectId: string
+  scope: "permits:view"
+}
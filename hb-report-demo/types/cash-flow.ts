@@ -26,7 +26,10 @@ export interface MonthlyCashFlow {
   cumulativeCashFlow: number
   workingCapital: number
   retentionHeld: number
+  // Retainage withheld from subcontractors, owed on release
+  retentionPayable?: number
   forecastAccuracy?: number
+  source?: "actual" | "projected"
 }
 
 export interface AggregatedMonthlyCashFlow {
@@ -54,6 +57,10 @@ export interface CashFlowSummary {
   cashFlowAtRisk: number
   workingCapital: number
   lastUpdated: string
+  // Last month of actual payments; later months are projected
+  asOf?: string
+  currentCashPosition?: number
+  peakCashMonth?: string | null
 }
 
 export interface PortfolioCashFlowSummary {
@@ -63,6 +70,7 @@ export interface PortfolioCashFlowSummary {
   peakCashRequirement: number
   cashFlowAtRisk: number
   averageWorkingCapital: number
+  peakCashMonth?: string | null
 }
 
 export interface CashFlowInsight {
@@ -97,6 +105,20 @@ export interface PortfolioCashFlow {
   projects: ProjectCashFlow[]
 }
 
+/**
+ * Timing used to project billings and costs into cash. Day counts run from the end of the
+ * month the work is billed or the cost incurred.
+ */
+export interface CashFlowAssumptions {
+  billingLagDays: number
+  ownerTermsDays: number
+  vendorTermsDays: number
+  ownerRetainagePercent: number
+  vendorRetainagePercent: number
+  // From the last forecast month to the owner releasing retainage
+  retainageReleaseDays: number
+}
+
 export interface CashFlowFilters {
   dateRange: {
     start: string
@@ -0,0 +1,89 @@
+// Change events flow change event → PCO (potential change order) → owner CO (prime contract
+// change order) → subcontract COs (commitment change orders). In-scope events never reach
+// the owner; they are funded from contingency once the PCO is approved.
+export type ChangeStage = "change-event" | "pco" | "owner-co" | "subcontract-co"
+
+export type ChangeEventScope = "out-of-scope" | "in-scope"
+
+export type ChangeEventReason = "owner-request" | "design-change" | "unforeseen-condition" | "code-requirement" | "scope-gap"
+
+export type ChangeDocumentStatus = "draft" | "pending" | "approved" | "rejected"
+
+/**
+ * One priced line of a change event, against a budget code from the project budget.
+ * Lines bought out through a subcontract name the commitment.
+ */
+export interface ChangeLineItem {
+  id: string
+  budgetCode: string
+  description: string
+  cost: number
+  commitmentNumber?: string
+}
+
+export interface ChangeDocument {
+  number: string
+  status: ChangeDocumentStatus
+  // When the document entered its current status
+  statusDate: string
+}
+
+export interface SubcontractChangeOrder extends ChangeDocument {
+  id: string
+  commitmentNumber: string
+  vendor: string
+  amount: number
+}
+
+export interface ChangeEventHistoryEntry {
+  stage: ChangeStage
+  number: string
+  status: ChangeDocumentStatus | ChangeEvent["status"]
+  date: string
+  by: string
+  comment?: string
+}
+
+export interface ChangeEvent {
+  id: string
+  projectId: number
+  number: string
+  title: string
+  description: string
+  reason: ChangeEventReason
+  scope: ChangeEventScope
+  // Fee and markup on cost, applied to what is priced to the owner
+  markupPercent: number
+  status: "open" | "closed" | "void"
+  lineItems: ChangeLineItem[]
+  pco?: ChangeDocument
+  ownerCo?: ChangeDocument
+  subcontractCos: SubcontractChangeOrder[]
+  history: ChangeEventHistoryEntry[]
+  createdBy: string
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * What the change pipeline adds to one budget line, by budget column.
+ */
+export interface BudgetChangeImpact {
+  projectId: number
+  budgetCode: string
+  budgetModifications: number
+  approvedCos: number
+  pendingBudgetChanges: number
+  pendingCostChanges: number
+  committedCosts: number
+}
+
+export interface ChangeAgingRow {
+  stage: ChangeStage
+  status: string
+  count: number
+  amount: number
+  // Documents by days in status: 0-30, 31-60, 61-90, over 90
+  buckets: [number, number, number, number]
+  oldestDays: number
+}
@@ -0,0 +1,117 @@
+// Safety audit and QA/QC checklist templates, and the corrective actions raised from failed items
+export type ChecklistKind = "safety" | "quality"
+
+export interface ChecklistQuestion {
+  id: string
+  question: string
+  // Relative weight in the compliance score (1–5)
+  weight: number
+  requiresPhoto: boolean
+  // CSI MasterFormat section the item checks against, e.g. "03 30 00"
+  specSection?: string
+  // How a corrective action on this item is verified; a re-inspection when left out
+  verificationStep?: string
+}
+
+export interface ChecklistSection {
+  id: string
+  title: string
+  items: ChecklistQuestion[]
+}
+
+/**
+ * A checklist for one inspection type ("Safety Audit", "QA/QC - Roofing"). Inspections are
+ * matched to their template by type.
+ */
+export interface ChecklistTemplate {
+  id: string
+  name: string
+  kind: ChecklistKind
+  inspectionType: string
+  specSection?: string
+  // Days a corrective action has to be completed in
+  correctionDays: number
+  sections: ChecklistSection[]
+  updatedBy: string
+  updatedAt: string
+}
+
+export interface ChecklistResponse {
+  question: string
+  response: string
+  // Attachments showing this item
+  photos?: string[]
+}
+
+// What scoring and corrective actions need from a safety audit or QA/QC inspection
+export interface ChecklistInspection {
+  kind: ChecklistKind
+  inspectionId: number
+  projectId: number
+  projectName: string
+  inspectionType: string
+  date: string
+  trade: string
+  location: string
+  createdBy: string
+  // The person answerable for the inspected work, who owns its corrective actions
+  responsibleParty?: string
+  closed: boolean
+  attachments: string[]
+  responses: ChecklistResponse[]
+}
+
+/**
+ * Weighted compliance: earned is the weight of passing items, possible the weight of every
+ * answered item (N/A answers are left out).
+ */
+export interface ChecklistScore {
+  score: number
+  earned: number
+  possible: number
+  failed: ChecklistQuestion[]
+  // Failed items that need a photo and have none attached
+  missingPhotos: ChecklistQuestion[]
+}
+
+export type CorrectiveActionStatus = "open" | "completed" | "verified"
+
+export interface CorrectiveActionPhoto {
+  name: string
+  dataUrl: string
+}
+
+/**
+ * Work to correct one failed checklist item. The owner (a person, assigned before the action
+ * is saved) completes it and someone else verifies it against the verification step.
+ */
+export interface CorrectiveAction {
+  id: string
+  kind: ChecklistKind
+  projectId: number
+  projectName: string
+  inspectionId: number
+  inspectionType: string
+  templateId: string | null
+  itemId: string | null
+  question: string
+  specSection?: string
+  trade: string
+  location: string
+  raisedBy: string
+  raisedOn: string
+  owner: string
+  dueDate: string
+  status: CorrectiveActionStatus
+  verificationStep: string
+  requiresPhoto: boolean
+  // Cleared (null) when the correction is rejected at verification
+  completedBy?: string | null
+  completedAt?: string | null
+  correctionNotes?: string
+  photo?: CorrectiveActionPhoto
+  verifiedBy?: string
+  verifiedAt?: string
+  verificationNotes?: string
+  updatedAt: string
+}
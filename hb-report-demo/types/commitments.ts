@@ -0,0 +1,70 @@
+import type { CommitmentRecord } from "./data-source"
+
+// Procore commitments move Draft → Out For Signature → executed. Pending commitments are
+// still drafts; approved ones awaiting the vendor's signature are out for signature.
+export type CommitmentExecutionStage = "draft" | "out-for-signature" | "executed"
+
+export interface CommitmentExecutionEvent {
+  stage: CommitmentExecutionStage
+  date: string
+  by: string
+}
+
+export interface CommitmentMetrics {
+  revisedAmount: number
+  pendingChanges: number
+  invoiced: number
+  paid: number
+  // Revised amount not yet paid
+  remainingBalance: number
+  // Revised amount not yet invoiced
+  unbilled: number
+  percentBilled: number
+}
+
+/**
+ * One commitment in the register. budgetCode is the project budget line the commitment
+ * buys out, or null when it can't be matched.
+ */
+export interface CommitmentRegisterRow {
+  commitment: CommitmentRecord
+  stage: CommitmentExecutionStage
+  division: string | null
+  budgetCode: string | null
+  metrics: CommitmentMetrics
+}
+
+export interface CommitmentRegisterFilters {
+  search: string
+  stage: CommitmentExecutionStage | "all"
+  contractType: string | "all"
+  budgetCode: string | "all"
+}
+
+/**
+ * Commitment exposure on one budget line; budgetCode null collects unmatched commitments.
+ */
+export interface BudgetCodeExposure {
+  budgetCode: string | null
+  description: string
+  revisedBudget: number
+  committed: number
+  invoiced: number
+  paid: number
+  remainingBalance: number
+  unbilledCommitted: number
+  pendingChanges: number
+  uncommittedBudget: number
+  commitmentCount: number
+}
+
+export interface CommitmentRegisterSummary {
+  count: number
+  byStage: Record<CommitmentExecutionStage, { count: number; amount: number }>
+  committed: number
+  invoiced: number
+  paid: number
+  remainingBalance: number
+  unbilled: number
+  pendingChanges: number
+}
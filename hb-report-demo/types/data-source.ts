@@ -0,0 +1,300 @@
+import type { Project } from "./project"
+import type { Permit } from "./permit-log"
+import type { ConstraintProject } from "./constraint"
+import type { ScheduleActivity } from "./scheduler"
+import type { DashboardLayout } from "./dashboard"
+import type { Report } from "./report-types"
+import type { AiaPayApplication } from "./aia-pay-application"
+import type { RoleGrantRecord } from "./permissions"
+import type { RetentionReleaseRequest } from "./retention"
+import type { ChangeEvent } from "./change-orders"
+import type { ForecastSnapshot } from "./forecasting"
+import type { DiscrepancyResolution } from "./reconciliation"
+import type { PayAuthorizationBatch, SubInvoice } from "./sub-invoices"
+import type { DailyLogRecord } from "./field-reports"
+import type { ChecklistTemplate, CorrectiveAction } from "./checklists"
+import type { CommitmentExecutionEvent } from "./commitments"
+import type { SafetyIncident } from "./safety-incidents"
+
+// Procore budget export row (data/mock/financial/budget.json)
+export interface BudgetLine {
+  project_id: number
+  "Sub Job": string
+  "Cost Code Tier 1": string
+  "Cost Code Tier 2": string
+  "Cost Code Tier 3": string
+  "Cost Type": string
+  "Budget Code": string
+  "Budget Code Description": string
+  "Original Budget Amount": number
+  "Budget Modifications": number
+  "Approved COs": number
+  "Revised Budget": number
+  "Pending Budget Changes": number
+  "Projected Budget": number
+  "Committed Costs": number
+  "Direct Costs": number
+  "Job to Date Costs": number
+  "Pending Cost Changes": number
+  "Projected Costs": number
+  "Forecast To Complete": number
+  "Estimated Cost at Completion": number
+  "Projected over Under": number
+}
+
+// Procore commitment (subcontract / purchase order) export row
+export interface CommitmentRecord {
+  project_id: number
+  Number: string
+  "Contract Type": string
+  Title: string
+  "ERP Status": string | null
+  Status: string
+  Executed: string
+  "SSOV Status": string
+  "Original Contract Amount": number
+  "Approved Change Orders": number
+  "Revised Contract Amount": number
+  "Pending Change Orders": number
+  "Draft Change Orders": number
+  Invoiced: number
+  "Payments Issued": number
+  "% Paid": number
+  "Remaining Balance Outstanding": number
+  Vendor: string
+  "Project Name": string
+  // Retention rule the subcontract withholds under, when it has its own
+  retentionRuleId?: string
+  // Stage changes made in the commitment register
+  executionHistory?: CommitmentExecutionEvent[]
+  [key: string]: any
+}
+
+// Procore prime contract export row
+export interface PrimeContractRecord {
+  project_id: number
+  Number: string
+  "Owner/Client": string
+  Title: string
+  Status: string
+  Executed: string
+  "Original Contract Amount": number
+  "Approved Change Orders": number
+  "Revised Contract Amount": number
+  "Pending Change Orders": number
+  "Draft Change Orders": number
+  Invoiced: number
+  "Payments Received": number
+  "% Paid": number
+  "Remaining Balance Outstanding": number
+  [key: string]: any
+}
+
+// Owner billing and payment against the prime contract
+export interface PrimeContractPayment {
+  project_id: number
+  "#": number
+  Period: string
+  "Billing Date": string
+  "Original Contract Sum": number
+  "Net Change By Change Orders": number
+  "Revised Contract Sum": number
+  "Total Completed And Stored To Date": number
+  "Total Retainage": number
+  "Total Earned Less Retainage": number
+  "Payment Due": number
+  "Balance To Finish": number
+  "% Complete": number
+  Invoice: string
+  "ERP Status": string
+  Amount: number
+  "Date Paid": string
+  "Payment Number": number
+  "Invoice Number": string
+  "Check Number": string
+  Notes: string
+  Attachments: string
+}
+
+// Payment issued to a vendor against a commitment invoice
+export interface VendorPayment {
+  project_id: number
+  Invoice: string
+  "Payment Number": number
+  "Check Number": string
+  "Invoice Number": string
+  "Payment Method": string
+  "ERP Status": string
+  Amount: number
+  "Date Paid": string
+  Notes: string
+  Attachments: string
+  // Set on payments posted by a pay authorization release
+  payAuthorizationId?: string
+  subInvoiceId?: string
+}
+
+// Sage job cost history (data/mock/financial/jchr.json)
+export interface JobCostItem {
+  costCode: string
+  description: string
+  budgetAmount: number
+  actualCost: number
+  commitments: number
+  variance: number
+  percentComplete: number
+  lastUpdated: string
+}
+
+export interface JobCostHistory {
+  project_id: number
+  project_name: string
+  jobCostItems: JobCostItem[]
+}
+
+// Monthly forecast by cost code (data/mock/financial/forecast_data.json)
+export interface ForecastRecord {
+  project_id: number
+  forecast_type: string
+  csi_code: string
+  csi_description: string
+  cost_code: string
+  cost_code_description: string
+  forecast_method: string
+  forecast_date: string
+  month: string
+  current_forecast: number
+  previous_forecast: number
+  actual_amount: number
+  variance: number
+}
+
+// Staff member with project assignments (data/mock/staffing/staffing.json)
+export interface StaffMember {
+  id: string
+  name: string
+  position: string
+  laborRate: number
+  billableRate: number
+  experience: number
+  strengths: string[]
+  weaknesses: string[]
+  assignments: { project_id: number; role: string; startDate: string; endDate: string }[]
+}
+
+// Staffing plan change request (data/mock/staffing/spcr.json)
+export interface SpcrRecord {
+  id: string
+  project_id: number
+  type: "increase" | "decrease"
+  position: string
+  startDate: string
+  endDate: string
+  schedule_activity: string
+  scheduleRef: string
+  budget: number
+  explanation: string
+  status: "pending" | "approved" | "rejected"
+  // Review workflow, recorded once a reviewer has acted on the request
+  workflowStage?: string
+  comments?: SpcrComment[]
+  createdBy: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface SpcrComment {
+  id: string
+  author: string
+  role: string
+  comment: string
+  action: "approved" | "rejected" | "forwarded" | "revised"
+  timestamp: string
+}
+
+/**
+ * Every resource the data layer serves, keyed by resource name.
+ */
+export interface DataResources {
+  projects: Project
+  budget: BudgetLine
+  commitments: CommitmentRecord
+  "prime-contracts": PrimeContractRecord
+  "prime-contract-payments": PrimeContractPayment
+  "vendor-payments": VendorPayment
+  "job-cost-history": JobCostHistory
+  forecasts: ForecastRecord
+  permits: Permit
+  constraints: ConstraintProject
+  schedule: ScheduleActivity
+  "schedule-history": ScheduleActivity
+  staffing: StaffMember
+  spcrs: SpcrRecord
+  reports: Report
+  layouts: DashboardLayout
+  "pay-applications": AiaPayApplication
+  "role-grants": RoleGrantRecord
+  "retention-releases": RetentionReleaseRequest
+  "change-events": ChangeEvent
+  "forecast-snapshots": ForecastSnapshot
+  "reconciliation-resolutions": DiscrepancyResolution
+  "sub-invoices": SubInvoice
+  "pay-authorizations": PayAuthorizationBatch
+  "daily-logs": DailyLogRecord
+  "checklist-templates": ChecklistTemplate
+  "corrective-actions": CorrectiveAction
+  "safety-incidents": SafetyIncident
+}
+
+export type DataResource = keyof DataResources
+
+// Resources the API accepts writes for; the rest are read-only exports
+export type WritableResource =
+  | "projects"
+  | "permits"
+  | "constraints"
+  | "spcrs"
+  | "pay-applications"
+  | "reports"
+  | "role-grants"
+  | "retention-releases"
+  | "change-events"
+  | "forecast-snapshots"
+  | "reconciliation-resolutions"
+  | "sub-invoices"
+  | "pay-authorizations"
+  | "commitments"
+  // Released pay authorizations post payments to the ledger
+  | "vendor-payments"
+  | "daily-logs"
+  | "checklist-templates"
+  | "corrective-actions"
+  | "safety-incidents"
+
+export interface DataQuery {
+  projectId?: number | string
+}
+
+/**
+ * A backend the app reads from. The mock adapter serves data/mock; REST and GraphQL
+ * adapters serve the same resources from a real (or mock) server.
+ */
+export interface DataAdapter {
+  readonly name: "mock" | "rest" | "graphql"
+  list<R extends DataResource>(resource: R, query?: DataQuery): Promise<DataResources[R][]>
+  get<R extends DataResource>(resource: R, id: string | number): Promise<DataResources[R] | null>
+  // Live updates, where the backend supports them. Returns an unsubscribe function.
+  subscribe?<R extends DataResource>(resource: R, onChange: (records: DataResources[R][]) => void, query?: DataQuery): () => void
+  // Writes, where the backend persists them. Each resolves to the stored record.
+  create?<R extends WritableResource>(resource: R, record: DataResources[R]): Promise<DataResources[R]>
+  update?<R extends WritableResource>(resource: R, id: string | number, changes: Partial<DataResources[R]>): Promise<DataResources[R]>
+  remove?(resource: WritableResource, id: string | number): Promise<void>
+}
+
+export interface DataSourceConfig {
+  adapter: DataAdapter["name"]
+  // REST base URL or GraphQL HTTP endpoint
+  url?: string
+  // GraphQL subscriptions endpoint (graphql-ws)
+  wsUrl?: string
+}
@@ -0,0 +1,80 @@
+import type { GcGrForecastData } from "./gc-gr-forecast"
+
+// Where a cost code's percent complete came from: Sage job cost, the latest certified pay
+// application, or neither (earned value counts as zero)
+export type EarnedValueSource = "job-cost" | "pay-application" | "none"
+
+// Planned value follows the owner draw forecast, or the baseline schedule without one
+export type PlannedValueBasis = "forecast" | "schedule"
+
+/**
+ * Estimate at completion, four ways: at the current cost efficiency (BAC / CPI), with the
+ * remaining work at budget rates, at the combined cost and schedule efficiency, and the
+ * bottom-up estimate from the Procore budget.
+ */
+export interface EstimateAtCompletion {
+  cpi: number
+  budgetRate: number
+  cpiSpi: number
+  bottomUp: number | null
+}
+
+/**
+ * Earned value figures for a cost code, project or portfolio. Indices are null when their
+ * denominator is zero.
+ */
+export interface EarnedValueMetrics {
+  budgetAtCompletion: number
+  plannedValue: number
+  earnedValue: number
+  actualCost: number
+  percentPlanned: number
+  percentComplete: number
+  costVariance: number
+  scheduleVariance: number
+  cpi: number | null
+  spi: number | null
+  eac: EstimateAtCompletion
+  // Against the CPI estimate
+  estimateToComplete: number
+  varianceAtCompletion: number
+  // Efficiency the remaining work needs to finish on budget
+  tcpi: number | null
+}
+
+export interface EarnedValueLine {
+  costCode: string
+  description: string
+  costType: string
+  source: EarnedValueSource
+  metrics: EarnedValueMetrics
+}
+
+// Cumulative values at the end of a month ("yyyy-MM")
+export interface EarnedValuePoint {
+  month: string
+  plannedValue: number
+  earnedValue: number
+  actualCost: number
+  cpi: number | null
+  spi: number | null
+}
+
+export interface ProjectEarnedValue {
+  projectId: number
+  projectName: string
+  // Status date, from the latest job cost update
+  asOf: string
+  plannedBasis: PlannedValueBasis | null
+  totals: EarnedValueMetrics
+  lines: EarnedValueLine[]
+  trend: EarnedValuePoint[]
+  gcgr: GcGrForecastData
+}
+
+export interface PortfolioEarnedValue {
+  totals: EarnedValueMetrics
+  projects: ProjectEarnedValue[]
+  trend: EarnedValuePoint[]
+  gcgrPerformanceIndex: number
+}
@@ -7,10 +7,73 @@ export interface DailyLog {
   status: "submitted" | "pending" | "overdue" | "draft"
   totalWorkers: number
   totalHours: number
-  weatherConditions?: any
+  weatherConditions?: WeatherReport
+  weatherObservations: WeatherObservation[]
   manpowerEntries: ManpowerEntry[]
   activities: Activity[]
+  delays: DelayEntry[]
+  visitors: VisitorEntry[]
+  deliveries: DeliveryEntry[]
+  photos: DailyLogPhoto[]
   comments: string
+  submittedAt?: string
+  // Submitted logs are locked; later changes go through an amendment
+  locked: boolean
+  amendments: DailyLogAmendment[]
+}
+
+export interface WeatherObservation {
+  id: string
+  timeObserved: string
+  sky: string
+  temperature: string
+  precipitation: string
+  wind: string
+  weatherDelay: boolean
+  comments: string
+}
+
+export type DelayType = "weather" | "material" | "inspection" | "labor" | "owner" | "other"
+
+export interface DelayEntry {
+  id: string
+  type: DelayType
+  description: string
+  hoursLost: number
+  responsibleParty: string
+}
+
+export interface VisitorEntry {
+  id: string
+  name: string
+  company: string
+  purpose: string
+  timeIn: string
+  timeOut: string
+}
+
+export interface DeliveryEntry {
+  id: string
+  supplier: string
+  description: string
+  receivedBy: string
+  time: string
+  comments: string
+}
+
+// Photos are stored inline as data URLs so they can be queued offline with the log
+export interface DailyLogPhoto {
+  id: string
+  name: string
+  caption: string
+  dataUrl: string
+  takenAt: string
+}
+
+export interface DailyLogAmendment {
+  amendedBy: string
+  amendedAt: string
+  reason: string
 }
 
 export interface Activity {
@@ -30,6 +93,7 @@ export interface ManpowerEntry {
   location: string
   comments: string
   trade: string
+  costCode?: string
 }
 
 export interface ManpowerRecord {
@@ -159,6 +223,84 @@ export interface WeatherReport {
   }
 }
 
+/**
+ * A daily log as stored in data/mock/logs/daily-log-sample.json (and the daily-logs API).
+ * Fields after comments are added by the daily log editor; older records may lack them.
+ */
+export interface DailyLogRecord {
+  id: string
+  project_id: number
+  project_name: string
+  date: string
+  created_by: string
+  status: "draft" | "submitted"
+  submitted_at?: string
+  submitted_by?: string
+  weather_report: {
+    temperature: { low: string; high: string; avg: string }
+    precipitation_since: { midnight: string; "2_days_ago": string; "3_days_ago": string }
+    humidity: { low: string; avg: string; high: string }
+    windspeed: { dew: string; avg: string; gust: string }
+  }
+  daily_snapshot: { time: string; condition: string; temperature: string }[]
+  observed_weather_conditions: {
+    no: number
+    time_observed: string
+    weather_delay: "Yes" | "No"
+    sky: string
+    temp: string
+    average: string
+    precipitation: string
+    wind: string
+    ground_sea: string
+    calamity: string
+    comments: string
+  }[]
+  manpower_log: {
+    total_workers: number
+    total_hours: number
+    entries: {
+      no: number
+      contact_company: string
+      cost_code: string
+      workers: number
+      hours: number
+      total_hours: number
+      location: string
+      comments: string
+      trade?: string
+    }[]
+  }
+  activities: {
+    id: string
+    type: Activity["type"]
+    description: string
+    status: Activity["status"]
+    responsible_party: string
+  }[]
+  comments: string
+  delays?: DelayEntry[]
+  visitors?: VisitorEntry[]
+  deliveries?: DeliveryEntry[]
+  photos?: DailyLogPhoto[]
+  amendments?: DailyLogAmendment[]
+}
+
+/**
+ * A daily log write saved on this device until it reaches the data source. `error` holds
+ * the last rejection from the server; network failures just leave the write queued.
+ */
+export interface QueuedDailyLog {
+  id: string
+  operation: "create" | "update"
+  record: DailyLogRecord
+  queuedAt: string
+  // Set when the server rejected the write; it waits for a retry or to be discarded
+  error?: string
+  // The server copy was submitted and locked first, so the write can only be discarded
+  locked?: boolean
+}
+
 export interface DashboardData {
   dailyLogs: DailyLog[]
   qualityControl: QualityInspection[]
@@ -0,0 +1,90 @@
+export type ForecastMethod = "Manual" | "HBI Forecast" | "Linear" | "S Curve" | "Bell Curve"
+
+// Methods that spread cost to complete over a curve; the rest keep their entered months
+export type ForecastCurveMethod = "Linear" | "S Curve" | "Bell Curve"
+
+/**
+ * Shape of the spending curves, with positions as a fraction of the remaining duration.
+ * S Curve: logistic steepness and the point where half the cost is spent.
+ * Bell Curve: the peak month and the spread (standard deviation) around it.
+ */
+export interface CurveParameters {
+  steepness: number
+  midpoint: number
+  peak: number
+  spread: number
+}
+
+/**
+ * One cost code's forecast as edited on the Forecasting tables. Monthly maps are keyed
+ * by "yyyy-MM"; months before the forecast period hold actuals.
+ */
+export interface ForecastLine {
+  id: string
+  project_id: number
+  forecast_type: "gcgr" | "draw"
+  cost_code?: string
+  cost_code_description?: string
+  csi_code?: string
+  csi_description?: string
+  budget: number
+  actual_to_date: number
+  cost_to_complete: number
+  estimated_at_completion: number
+  variance: number
+  start_date: string
+  end_date: string
+  forecast_method: ForecastMethod
+  // 1-10; below 10 tilts the spread toward later months
+  weight: number
+  curve?: Partial<CurveParameters>
+  actual_remaining_forecast: { [month: string]: number }
+  previous_forecast: { [month: string]: number }
+  variance_amounts: { [month: string]: number }
+  // Totals from last period's forecast, for the Previous Forecast row
+  previous_totals: ForecastTotals
+}
+
+export interface ForecastTotals {
+  budget: number
+  cost_to_complete: number
+  estimated_at_completion: number
+  variance: number
+}
+
+export interface ForecastSnapshotLine extends ForecastTotals {
+  lineId: string
+  forecast_method: ForecastMethod
+  weight: number
+  curve?: Partial<CurveParameters>
+  start_date: string
+  end_date: string
+  // Forecast for the period and the months after it
+  monthly: { [month: string]: number }
+}
+
+/**
+ * A saved forecast for one project and period ("yyyy-MM"). Each save in the same
+ * period adds a version; the latest version of a period is that month's forecast.
+ */
+export interface ForecastSnapshot {
+  id: string
+  projectId: number
+  period: string
+  version: number
+  lines: ForecastSnapshotLine[]
+  createdBy: string
+  createdAt: string
+}
+
+/**
+ * How a past month's forecast compared with what was actually spent.
+ */
+export interface ForecastReconciliationMonth {
+  month: string
+  forecast: number
+  actual: number
+  variance: number
+  // Where the forecast came from: a saved snapshot or the imported forecast export
+  source: "snapshot" | "import"
+}
@@ -0,0 +1,39 @@
+import type { DemoRole } from "./auth"
+
+export type PermissionModule =
+  | "dashboard"
+  | "reports"
+  | "staff-planning"
+  | "responsibility-matrix"
+  | "financial-hub"
+  | "procurement"
+  | "scheduler"
+  | "constraints-log"
+  | "permit-log"
+  | "field-reports"
+  | "contract-documents"
+  | "trade-partners"
+  | "pre-construction"
+  | "administration"
+
+export type PermissionAction = "view" | "create" | "edit" | "approve" | "export"
+
+// "assigned" limits a grant to the user's assigned projects; "all" covers every project
+export type GrantScope = "assigned" | "all"
+
+export type ModuleGrants = Partial<Record<PermissionAction, GrantScope>>
+
+export type RoleGrants = Partial<Record<PermissionModule, ModuleGrants>>
+
+// Steps of the PM → PX (→ Executive) approval chains on invoices, releases and pay applications
+export type ApprovalStep = "PM" | "PX" | "Executive"
+
+/**
+ * A role's grants as stored (data/mock/auth/permissions.json), one record per role.
+ */
+export interface RoleGrantRecord {
+  role: DemoRole
+  grants: RoleGrants
+  updatedBy?: string
+  updatedAt?: string
+}
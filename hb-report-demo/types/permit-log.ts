@@ -1,3 +1,5 @@
+import type { DemoRole } from "./auth"
+
 export interface Permit {
   id: string
   projectId: string | number
@@ -45,6 +47,8 @@ export interface Inspection {
   comments?: string
   resolutionNotes?: string
   followUpRequired?: boolean
+  // The failed or conditional inspection this one re-inspects
+  reinspectionOf?: string
   duration?: number
   createdAt: string
   updatedAt: string
@@ -64,6 +68,134 @@ export interface InspectionIssue {
   resolutionNotes?: string
 }
 
+// One required inspection; without prerequisites it waits for the step before it
+export interface InspectionSequenceStep {
+  type: string
+  prerequisites?: string[]
+}
+
+// How an authority takes inspection requests (data/mock/logs/permit-inspection-rules.json)
+export interface AuthorityInspectionRules {
+  // Business days of notice an inspection request needs
+  noticeBusinessDays: number
+  // Requests after this local time ("HH:mm") count from the next business day
+  requestCutoff: string
+  // Business days after a failed or conditional inspection before the re-inspection
+  reinspectionBusinessDays: number
+  reinspectionFee?: number
+  // Inspections this authority adds to a permit type's sequence
+  additionalSteps?: { permitType: string; type: string; after: string }[]
+}
+
+export interface PermitInspectionRules {
+  sequences: Record<string, InspectionSequenceStep[]>
+  defaults: AuthorityInspectionRules
+  authorities: Record<string, Partial<AuthorityInspectionRules>>
+}
+
+export type InspectionStepStatus = "passed" | "scheduled" | "reinspection-required" | "ready" | "blocked"
+
+export interface PlannedInspectionStep {
+  type: string
+  prerequisites: string[]
+  status: InspectionStepStatus
+  // The latest inspection of this type
+  inspection?: Inspection
+  // Prerequisites that haven't passed; on a scheduled step these are a conflict
+  missingPrerequisites: string[]
+  // First date the step can be requested for, when it is ready or needs re-inspection
+  earliestDate?: string
+}
+
+export interface PermitInspectionPlan {
+  permit: Permit
+  rules: AuthorityInspectionRules
+  // Inspections can only be requested on approved or renewed permits
+  active: boolean
+  steps: PlannedInspectionStep[]
+  // Inspections on the permit that aren't part of its sequence
+  unsequenced: Inspection[]
+}
+
+export interface InspectionReminder {
+  id: string
+  kind: "upcoming" | "prerequisite" | "reinspection"
+  severity: "info" | "warning" | "critical"
+  permitId: string
+  permitNumber: string
+  projectId: string | number
+  inspectionId?: string
+  date: string
+  message: string
+}
+
+// Days before expiry at which each escalation starts (data/mock/logs/permit-expiration-rules.json)
+export interface ExpirationThresholds {
+  notice: number
+  warning: number
+  critical: number
+}
+
+export interface AuthorityExpirationRules {
+  // Days a passed inspection keeps the permit alive under local code; 0 when it doesn't
+  inspectionExtensionDays: number
+  // Days a renewal adds from the current expiration
+  renewalPeriodDays: number
+  // Renewal fee as a share of the original permit cost, with a floor
+  renewalFeeRate: number
+  minimumRenewalFee: number
+  // Days before expiry the renewal has to be filed
+  renewalLeadDays: number
+  // Whether the existing bond covers the renewed permit, or a new one must be posted
+  bondCarriesOver: boolean
+}
+
+export interface PermitExpirationRules {
+  thresholds: ExpirationThresholds
+  // Roles each escalation level is raised to
+  escalation: Record<Exclude<ExpirationLevel, "ok">, DemoRole[]>
+  defaults: AuthorityExpirationRules
+  authorities: Record<string, Partial<AuthorityExpirationRules>>
+}
+
+export type ExpirationLevel = "ok" | "notice" | "warning" | "critical" | "expired"
+
+export interface PermitExpiryStatus {
+  permit: Permit
+  rules: AuthorityExpirationRules
+  // The later of the recorded expiration and the validity the last passed inspection gives
+  effectiveExpirationDate: string
+  extendedByInspection?: Inspection
+  daysToExpiry: number
+  level: ExpirationLevel
+  escalateTo: DemoRole[]
+}
+
+export interface PermitRenewalTask {
+  id: string
+  permitId: string
+  permitNumber: string
+  projectId: string | number
+  authority: string
+  level: ExpirationLevel
+  // Last day to file, the authority's lead time ahead of the effective expiration
+  fileBy: string
+  expirationDate: string
+  renewedExpirationDate: string
+  renewalFee: number
+  // Bond carried over to the renewed permit, or to post again when the authority requires a new one
+  bondAmount: number
+  bondCarriesOver: boolean
+}
+
+export interface PermitExposureSummary {
+  atRisk: PermitExpiryStatus[]
+  byLevel: Record<Exclude<ExpirationLevel, "ok">, number>
+  byProject: { projectId: string | number; count: number; worstLevel: ExpirationLevel; renewalFees: number; bondAmount: number }[]
+  renewalFees: number
+  bondAmount: number
+}
+
 export interface PermitAnalytics {
   totalPermits: number
   approvalRate: number
@@ -163,7 +295,6 @@ export interface PermitTableProps {
   onDrillDown?: (filterType: string, filterValue: string) => void
   compact?: boolean
   showInspections?: boolean
-  userRole?: string
   className?: string
 }
 
@@ -198,6 +329,8 @@ export interface CalendarEvent {
   permit: Permit
   inspection?: Inspection
   priority?: string
+  // Inspections in the required sequence that haven't passed ahead of this one
+  missingPrerequisites?: string[]
 }
 
 export interface PermitSettings {
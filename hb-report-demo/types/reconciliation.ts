@@ -0,0 +1,91 @@
+// Procore budget (budget.json) against Sage job cost history (jchr.json), matched by
+// project and cost code (Procore "Budget Code", Sage "costCode")
+export type ReconciliationField = "budget" | "actualCost" | "committedCost"
+
+// amount: the systems disagree; timing: the gap is explained by postings one system
+// hasn't picked up yet; missing: the cost code exists on one side only
+export type DiscrepancyKind = "amount" | "timing" | "missing-in-sage" | "missing-in-procore"
+
+export type DiscrepancyStatus = "open" | "explained" | "resolved"
+
+/**
+ * A difference is flagged when it exceeds both the dollar amount and the percentage of
+ * the larger side. A Sage row older than `staleAfterDays` at the close date is a timing gap.
+ */
+export interface ReconciliationTolerance {
+  amount: number
+  percent: number
+  staleAfterDays: number
+}
+
+export interface ProcoreAmounts {
+  budget: number
+  actualCost: number
+  committedCost: number
+  pendingCostChanges: number
+}
+
+export interface SageAmounts {
+  budget: number
+  actualCost: number
+  committedCost: number
+  lastUpdated: string
+}
+
+export interface ReconciliationDifference {
+  field: ReconciliationField
+  procore: number
+  sage: number
+  // Procore minus Sage
+  difference: number
+  percent: number
+  kind: DiscrepancyKind
+  exceedsTolerance: boolean
+}
+
+export interface ReconciliationLine {
+  projectId: number
+  costCode: string
+  description: string
+  procore: ProcoreAmounts | null
+  sage: SageAmounts | null
+  differences: ReconciliationDifference[]
+}
+
+/**
+ * A reviewer's note on a flagged difference. It stays attached while the difference is
+ * unchanged; a new amount reopens the item.
+ */
+export interface DiscrepancyResolution {
+  id: string
+  projectId: number
+  costCode: string
+  field: ReconciliationField
+  status: "explained" | "resolved"
+  // The difference the note was written against
+  difference: number
+  note: string
+  by: string
+  at: string
+}
+
+export interface Discrepancy extends ReconciliationDifference {
+  id: string
+  projectId: number
+  costCode: string
+  description: string
+  status: DiscrepancyStatus
+  resolution?: DiscrepancyResolution
+}
+
+export interface ReconciliationSummary {
+  linesCompared: number
+  linesMatched: number
+  flagged: number
+  open: number
+  explained: number
+  resolved: number
+  byKind: Record<DiscrepancyKind, number>
+  // Sum of open differences by field, Procore minus Sage
+  openDifference: Record<ReconciliationField, number>
+}
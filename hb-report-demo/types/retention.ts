@@ -0,0 +1,110 @@
+// Receivable retainage is held by the owner on prime contract billings; payable retainage
+// is held by us on subcontractor commitments.
+export type RetentionSide = "receivable" | "payable"
+
+/**
+ * One band of a tiered retention rule: work billed up to `upToPercentComplete` of the
+ * contract is retained at `rate` percent. The last tier should run to 100.
+ */
+export interface RetentionTier {
+  upToPercentComplete: number
+  rate: number
+}
+
+export interface RetentionRule {
+  id: string
+  name: string
+  tiers: RetentionTier[]
+}
+
+/**
+ * Retainage position on one contract: the owner's prime contract, or one commitment.
+ */
+export interface RetentionAccount {
+  id: string
+  side: RetentionSide
+  projectId: number
+  // Prime contract or commitment number
+  reference: string
+  counterparty: string
+  contractValue: number
+  workCompleted: number
+  percentComplete: number
+  // Retainage withheld on billings to date
+  withheld: number
+  // What the selected rule would withhold on the same billings
+  requiredByRule: number
+  released: number
+  balance: number
+  // Balance over what the rule requires, releasable without closing the contract
+  eligibleForRelease: number
+}
+
+export interface RetentionLedgerEntry {
+  id: string
+  side: RetentionSide
+  projectId: number
+  reference: string
+  counterparty: string
+  date: string
+  type: "withheld" | "released"
+  description: string
+  amount: number
+  // Running balance held on the account after this entry
+  balance: number
+}
+
+export type RetentionReleaseStatus = "submitted" | "pm_approved" | "px_approved" | "executive_approved" | "rejected" | "paid"
+
+export interface RetentionApproval {
+  role: "PM" | "PX" | "Executive"
+  approver: string
+  decision: "approved" | "rejected"
+  comment?: string
+  date: string
+}
+
+/**
+ * A request to release retainage. Partial releases need PM and PX approval; final
+ * releases also need an Executive and the closeout conditions met.
+ */
+export interface RetentionReleaseRequest {
+  id: string
+  projectId: number
+  side: RetentionSide
+  reference: string
+  counterparty: string
+  kind: "partial" | "final"
+  amount: number
+  reason: string
+  status: RetentionReleaseStatus
+  // Final releases only
+  closeout?: {
+    punchListComplete: boolean
+    finalLienWaiver: boolean
+    closeoutDocuments: boolean
+  }
+  approvals: RetentionApproval[]
+  requestedBy: string
+  requestedAt: string
+  // When the released cash is expected to move (received from the owner, or paid to the sub)
+  expectedCashDate: string
+  paidDate?: string
+}
+
+export interface RetentionCashFlowMonth {
+  month: string
+  receivable: number
+  payable: number
+  net: number
+  cumulativeNet: number
+}
+
+export interface RetentionSummary {
+  receivableBalance: number
+  payableBalance: number
+  netPosition: number
+  eligibleReceivable: number
+  eligiblePayable: number
+  pendingRequests: number
+}
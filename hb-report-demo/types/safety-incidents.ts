@@ -0,0 +1,128 @@
+// Jobsite incidents and the OSHA 300/300A/301 recordkeeping built from them
+export type IncidentType = "near-miss" | "first-aid" | "recordable" | "property-damage"
+
+// OSHA 300 columns G–J; the most serious outcome of a recordable case
+export type OshaOutcome = "death" | "days-away" | "job-transfer" | "other-recordable"
+
+// OSHA 300 column M
+export type OshaCaseType = "injury" | "skin-disorder" | "respiratory" | "poisoning" | "hearing-loss" | "other-illness"
+
+export type RootCauseCategory =
+  | "unsafe-act"
+  | "unsafe-condition"
+  | "equipment"
+  | "procedure"
+  | "training"
+  | "supervision"
+  | "environmental"
+
+export type IncidentStatus = "open" | "investigating" | "closed"
+
+// The injured or ill worker, as the 301 asks for them
+export interface IncidentEmployee {
+  name: string
+  jobTitle: string
+  employer: string
+  dateHired?: string
+  dateOfBirth?: string
+}
+
+export interface IncidentTreatment {
+  physician?: string
+  facility?: string
+  emergencyRoom: boolean
+  hospitalizedOvernight: boolean
+}
+
+export interface IncidentRootCause {
+  category: RootCauseCategory
+  immediateCause: string
+  contributingFactors: string[]
+  rootCause: string
+  correctiveActions: string
+}
+
+/**
+ * One incident on a project. Recordables carry an OSHA outcome and case type and land on
+ * the 300 log; near-misses, first aid and property damage are tracked for trending only.
+ */
+export interface SafetyIncident {
+  id: string
+  // OSHA 300 case number, e.g. "2025-004"; recordables only (null once it stops being one)
+  caseNumber?: string | null
+  projectId: number
+  projectName: string
+  trade: string
+  location: string
+  occurredOn: string
+  // 24-hour "HH:mm"
+  occurredAt?: string
+  type: IncidentType
+  description: string
+  // What the worker was doing, what happened, the injury and what caused it (301 items 14–17)
+  activity?: string
+  injury?: string
+  bodyPart?: string
+  objectOrSubstance?: string
+  employee?: IncidentEmployee
+  treatment?: IncidentTreatment
+  outcome?: OshaOutcome | null
+  caseType?: OshaCaseType | null
+  daysAway: number
+  daysRestricted: number
+  // Privacy cases go on the 300 log without the employee's name
+  privacyCase: boolean
+  // Safety audit the incident was traced to, from safety.json
+  inspectionId?: number
+  rootCause?: IncidentRootCause
+  status: IncidentStatus
+  reportedBy: string
+  reportedAt: string
+  closedBy?: string
+  closedAt?: string
+  updatedAt: string
+}
+
+/**
+ * Incident rates per 200,000 hours (100 full-time workers for a year). Rates are null when
+ * there are no hours to divide by.
+ */
+export interface IncidentRates {
+  hours: number
+  recordables: number
+  dartCases: number
+  trir: number | null
+  dart: number | null
+  nearMisses: number
+  firstAidCases: number
+  daysAway: number
+  daysRestricted: number
+}
+
+export interface Osha300Row {
+  caseNumber: string
+  employeeName: string
+  jobTitle: string
+  date: string
+  location: string
+  description: string
+  outcome: OshaOutcome
+  daysAway: number
+  daysRestricted: number
+  caseType: OshaCaseType
+}
+
+// Annual summary posted February through April
+export interface Osha300ASummary {
+  year: number
+  establishment: string
+  deaths: number
+  daysAwayCases: number
+  jobTransferCases: number
+  otherRecordableCases: number
+  daysAway: number
+  daysRestricted: number
+  caseTypes: Record<OshaCaseType, number>
+  averageEmployees: number
+  hoursWorked: number
+}
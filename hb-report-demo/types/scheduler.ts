@@ -73,7 +73,7 @@ export interface ProjectGenerationForm {
   budget: number
   start_date: string
   duration_weeks: number
-  project_type: "Residential" | "Commercial" | "Industrial" | "Infrastructure"
+  project_type: "Residential" | "Commercial" | "Industrial" | "Infrastructure" | "Renovation"
   complexity: "Low" | "Medium" | "High"
   team_size: number
   weather_dependent: boolean
@@ -163,3 +163,270 @@ export interface GanttChartData {
   critical_path: boolean
   resources: string[]
 }
+
+// Activity record as exported in data/mock/schedule/schedule.json
+export interface ScheduleActivity {
+  project_id: number
+  activity_id: string
+  activity_name: string
+  wbs_code: string
+  activity_type: "Milestone" | "Task Dependent" | "Level of Effort" | string
+  status: "Not Started" | "In Progress" | "Completed" | string
+  primary_base_start_date: string
+  primary_base_end_date: string
+  start_date: string
+  end_date: string
+  predecessors: string[]
+  successors: string[]
+  total_float: number
+  free_float: number
+}
+
+// Critical path method (CPM) results
+export interface CpmActivity {
+  activity_id: string
+  activity_name: string
+  wbs_code: string
+  activity_type: string
+  status: string
+  duration: number
+  early_start: string
+  early_finish: string
+  late_start: string
+  late_finish: string
+  total_float: number
+  free_float: number
+  reported_total_float: number
+  reported_free_float: number
+  is_critical: boolean
+}
+
+export type ScheduleLogicIssueType =
+  | "Open Start"
+  | "Open Finish"
+  | "Logic Loop"
+  | "Missing Reference"
+  | "Negative Float"
+  | "Float Mismatch"
+  | "Unusual Duration"
+  | "Progress Out of Sequence"
+
+export interface ScheduleLogicIssue {
+  id: string
+  severity: "high" | "medium" | "low"
+  type: ScheduleLogicIssueType
+  activity_id: string
+  activity: string
+  description: string
+  impact: string
+  recommendation: string
+}
+
+export interface CpmResult {
+  project_start: string
+  project_finish: string
+  // Status date the remaining work was scheduled from
+  data_date: string
+  duration: number
+  activities: CpmActivity[]
+  critical_path: string[]
+  open_starts: string[]
+  open_finishes: string[]
+  logic_loops: string[][]
+  missing_references: { activity_id: string; reference: string }[]
+}
+
+export interface ScheduleHealthCategory {
+  category: string
+  score: number
+  maxScore: number
+  status: "excellent" | "good" | "fair" | "poor"
+}
+
+export interface ScheduleHealthReport {
+  overallScore: number
+  categories: ScheduleHealthCategory[]
+  issues: ScheduleLogicIssue[]
+  activitiesWithIssues: {
+    id: string
+    name: string
+    issues: ScheduleLogicIssueType[]
+    severity: "high" | "medium" | "low"
+    daysImpact: number
+    healthScore: number
+  }[]
+  durationDistribution: { range: string; count: number; percentage: number; concern: "low" | "optimal" | "review" | "high" }[]
+}
+
+// Schedule file import (Primavera P6 XER, MS Project XML, CSV)
+export type ScheduleImportFormat = "XER" | "XML" | "CSV" | "MPP"
+
+export interface ScheduleImportError {
+  row: number
+  activity_id?: string
+  field?: string
+  message: string
+  severity: "error" | "warning"
+}
+
+export interface ScheduleImportResult {
+  file_name: string
+  format: ScheduleImportFormat
+  project_name?: string
+  activities: ScheduleActivity[]
+  errors: ScheduleImportError[]
+  imported_at: string
+}
+
+// Snapshot-to-snapshot schedule comparison
+export interface ScheduleSnapshot {
+  id: string
+  label: string
+  activities: ScheduleActivity[]
+}
+
+export interface ActivityVariance {
+  activity_id: string
+  activity_name: string
+  activity_type: string
+  wbs_code: string
+  change: "added" | "deleted" | "changed" | "unchanged"
+  start_variance: number
+  finish_variance: number
+  duration_change: number
+  total_float: number | null
+  reference_total_float: number | null
+  float_erosion: number
+  predecessors_added: string[]
+  predecessors_removed: string[]
+  is_critical: boolean
+}
+
+export interface ScheduleComparison {
+  current: { id: string; label: string; finish: string }
+  reference: { id: string; label: string; finish: string }
+  finish_variance: number
+  activities: ActivityVariance[]
+  summary: {
+    added: number
+    deleted: number
+    logic_changes: number
+    slipped_starts: number
+    slipped_finishes: number
+    float_eroded: number
+    average_finish_slip: number
+  }
+}
+
+// Rolling look-ahead and fragnets
+export type LookAheadWeeks = 2 | 3 | 6
+
+export interface LookAheadActivity extends ScheduleActivity {
+  total_float_calculated: number
+  is_critical: boolean
+  starts_in_window: boolean
+  finishes_in_window: boolean
+}
+
+export interface LookAheadWeek {
+  week_start: string
+  week_end: string
+  activity_ids: string[]
+}
+
+export interface LookAheadPlan {
+  project_id: number
+  data_date: string
+  window_start: string
+  window_end: string
+  weeks: LookAheadWeek[]
+  activities: LookAheadActivity[]
+}
+
+export interface FragNetActivity {
+  id: string
+  name: string
+  duration: number
+  predecessors: string[]
+  resources: string[]
+}
+
+export interface FragNet {
+  id: string
+  project_id: number
+  name: string
+  description: string
+  predecessor_activity_id: string
+  successor_activity_id?: string
+  location: string
+  crew: string
+  priority: "high" | "medium" | "low"
+  activities: FragNetActivity[]
+  created_at: string
+}
+
+export interface ScheduledFragNetActivity extends FragNetActivity {
+  start_date: string
+  end_date: string
+}
+
+export interface ScheduledFragNet {
+  fragnet: FragNet
+  start_date: string
+  end_date: string
+  activities: ScheduledFragNetActivity[]
+  // Days the fragnet finishes after its tied successor is planned to start
+  successor_impact: number
+}
+
+// Monte Carlo schedule risk analysis
+export interface ThreePointEstimate {
+  optimistic: number
+  most_likely: number
+  pessimistic: number
+}
+
+export interface ScheduleRiskOptions {
+  iterations: number
+  seed: number
+  // Multipliers on each activity's remaining duration
+  optimistic_factor: number
+  pessimistic_factor: number
+  estimates?: Record<string, ThreePointEstimate>
+}
+
+export interface ScheduleRiskHistogramBin {
+  finish: string
+  count: number
+  cumulative: number
+}
+
+export interface ScheduleRiskDriver {
+  activity_id: string
+  activity_name: string
+  base_duration: number
+  mean_duration: number
+  correlation: number
+}
+
+export interface ScheduleRiskEventResult {
+  risk_id: string
+  description: string
+  occurrence_rate: number
+  finish_impact_days: number
+}
+
+export interface ScheduleRiskResult {
+  iterations: number
+  deterministic_finish: string
+  p50: string
+  p80: string
+  p90: string
+  mean_finish: string
+  earliest_finish: string
+  latest_finish: string
+  on_time_probability: number
+  histogram: ScheduleRiskHistogramBin[]
+  drivers: ScheduleRiskDriver[]
+  risk_events: ScheduleRiskEventResult[]
+}
@@ -0,0 +1,133 @@
+// Subcontractor and supplier invoices against commitments. Invoices are approved PM → PX,
+// paid in pay authorization batches, and released batches post to the vendor payment ledger.
+export type SubInvoiceStatus = "draft" | "submitted" | "pm_approved" | "px_approved" | "rejected" | "paid"
+
+/**
+ * One schedule of values line on a commitment invoice. previousBilled is work billed on
+ * earlier invoices; thisPeriod is what this invoice adds.
+ */
+export interface SubInvoiceLine {
+  id: string
+  description: string
+  scheduledValue: number
+  previousBilled: number
+  thisPeriod: number
+}
+
+// Progress waivers cover one payment; final waivers close out the commitment
+export type LienWaiverKind = "conditional-progress" | "unconditional-progress" | "conditional-final" | "unconditional-final"
+
+export interface LienWaiver {
+  kind: LienWaiverKind
+  // The payment the waiver covers: this invoice, or the one paid before it
+  invoiceId: string
+  amount: number
+  throughDate: string
+  received: boolean
+  receivedDate?: string
+}
+
+export type InsuranceCoverageType = "general-liability" | "workers-compensation" | "auto-liability" | "umbrella"
+
+// Coverage from the certificate of insurance on file when the invoice came in
+export interface InsuranceCoverage {
+  type: InsuranceCoverageType
+  carrier: string
+  policyNumber: string
+  expires: string
+}
+
+export interface SubInvoiceApproval {
+  role: "PM" | "PX"
+  approver: string
+  decision: "approved" | "rejected"
+  comment?: string
+  date: string
+}
+
+export interface SubInvoice {
+  id: string
+  projectId: number
+  commitmentNumber: string
+  vendor: string
+  // The vendor's invoice number
+  invoiceNumber: string
+  periodStart: string
+  periodEnd: string
+  receivedDate: string
+  lines: SubInvoiceLine[]
+  retainagePercent: number
+  lienWaivers: LienWaiver[]
+  insurance: InsuranceCoverage[]
+  status: SubInvoiceStatus
+  approvals: SubInvoiceApproval[]
+  // Null once the batch it was in is voided
+  batchId?: string | null
+  paidDate?: string
+  checkNumber?: string
+  notes?: string
+  createdBy: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface SubInvoiceTotals {
+  scheduledValue: number
+  previousBilled: number
+  thisPeriod: number
+  billedToDate: number
+  percentComplete: number
+  retainageThisPeriod: number
+  retainageToDate: number
+  netDue: number
+  balanceToFinish: number
+}
+
+export type ComplianceCheckStatus = "ok" | "expiring" | "missing" | "expired"
+
+/**
+ * One compliance requirement for paying an invoice. Missing and expired items hold payment.
+ */
+export interface ComplianceCheck {
+  id: string
+  category: "lien-waiver" | "insurance" | "contract"
+  label: string
+  status: ComplianceCheckStatus
+  detail: string
+}
+
+export type PayAuthorizationStatus = "draft" | "authorized" | "released" | "void"
+
+export type PaymentMethod = "ACH" | "Check" | "Wire"
+
+/**
+ * Approved invoices grouped for payment. A PX or Executive authorizes the batch; releasing
+ * it pays each invoice and posts the payments to the vendor ledger.
+ */
+export interface PayAuthorizationBatch {
+  id: string
+  projectId: number
+  number: string
+  invoiceIds: string[]
+  paymentMethod: PaymentMethod
+  paymentDate: string
+  // Net of retainage
+  amount: number
+  status: PayAuthorizationStatus
+  createdBy: string
+  createdAt: string
+  authorizedBy?: string
+  authorizedAt?: string
+  releasedBy?: string
+  releasedAt?: string
+}
+
+export interface PayAuthorizationSummary {
+  awaitingApproval: number
+  awaitingApprovalAmount: number
+  readyToBatch: number
+  readyToBatchAmount: number
+  onHold: number
+  authorizedAmount: number
+  releasedAmount: number
+}